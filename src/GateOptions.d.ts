@@ -12,4 +12,6 @@ export type GateFrameOption = {
     zoomFactor?: number // Zoom factor (0.5 = 50%, 1.0 = 100%, 2.0 = 200%, etc.)
     css?: string // Custom CSS for the gate frame
     js?: string // Custom JavaScript for the gate frame
+    blockerAllowlist?: string[] // Sites where the content blocker stays off in this gate
+    sourcePath?: string // Vault file the gate is loaded from (gates defined as files are not saved in settings)
 }
@@ -3,6 +3,8 @@ import { createWebviewTag } from './fns/createWebviewTag';
 import { createIframe } from './fns/createIframe';
 import { Platform } from 'obsidian';
 import WebviewTag = Electron.WebviewTag;
+import { t } from './i18n';
+import { DEFAULT_PROFILE_KEY } from './profiles';
 
 export class GatePopupModal extends Modal {
     private url: string;
@@ -13,7 +15,7 @@ export class GatePopupModal extends Modal {
         super(app);
         this.url = url;
         // OAuth 인증을 위해 부모 게이트와 동일한 세션 사용
-        this.profileKey = profileKey || 'default';
+        this.profileKey = profileKey || DEFAULT_PROFILE_KEY;
     }
 
     onOpen() {
@@ -21,7 +23,7 @@ export class GatePopupModal extends Modal {
         contentEl.addClass('gate-popup-modal');
         // Simple header
         const header = contentEl.createDiv({ cls: 'gate-popup-header' });
-        header.createEl('h3', { text: 'Quick View' }); // Localized: English
+        header.createEl('h3', { text: t('popup.title') });
 
         const body = contentEl.createDiv({ cls: 'gate-popup-body' });
         // Use full height 
@@ -0,0 +1,161 @@
+import { addIcon, removeIcon } from 'obsidian'
+import OpenGatePlugin from './main'
+import { GateView } from './GateView'
+import { GateFrameOption } from './GateOptions'
+import { openView } from './fns/openView'
+
+type RegisteredGate = {
+    options: GateFrameOption
+    ribbonEl: HTMLElement | null
+    commandId: string
+    iconId: string | null
+}
+
+/**
+ * Keeps track of everything a gate adds to Obsidian (view type, icon, ribbon and command)
+ * so it can be registered, updated and disposed at runtime without reloading the app.
+ */
+export class GateRegistry {
+    private plugin: OpenGatePlugin
+    private gates: Map<string, RegisteredGate> = new Map()
+
+    constructor(plugin: OpenGatePlugin) {
+        this.plugin = plugin
+    }
+
+    has(gateId: string): boolean {
+        return this.gates.has(gateId)
+    }
+
+    get(gateId: string): GateFrameOption | undefined {
+        return this.gates.get(gateId)?.options
+    }
+
+    /**
+     * Register a gate, or update it in place if its view type already exists
+     */
+    register(options: GateFrameOption): void {
+        if (this.gates.has(options.id)) {
+            this.update(options)
+            return
+        }
+
+        // Keep our own copy: the edit form mutates the settings object directly,
+        // so we need the previous values to know what changed on update
+        const entry: RegisteredGate = {
+            options: { ...options },
+            ribbonEl: null,
+            commandId: '',
+            iconId: null
+        }
+        this.gates.set(options.id, entry)
+
+        this.plugin.registerView(options.id, (leaf) => new GateView(leaf, this.gates.get(options.id)!.options, this.plugin))
+        this.addDecorations(entry)
+    }
+
+    /**
+     * Refresh the icon, ribbon and command of a gate and push the new options to every open gate view,
+     * since tabs opened with this gate can live in other gates' views
+     */
+    update(options: GateFrameOption): void {
+        const entry = this.gates.get(options.id)
+        if (!entry) {
+            this.register(options)
+            return
+        }
+
+        this.removeDecorations(entry)
+        entry.options = { ...options }
+        this.addDecorations(entry)
+
+        this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+            if (leaf.view instanceof GateView) {
+                leaf.view.updateOptions(entry.options)
+            }
+        })
+    }
+
+    /**
+     * Close the gate's leaves and remove everything it registered
+     */
+    unregister(gateId: string): void {
+        const entry = this.gates.get(gateId)
+        if (!entry) {
+            return
+        }
+
+        this.plugin.app.workspace.detachLeavesOfType(gateId)
+        this.removeDecorations(entry)
+        // @ts-ignore - Obsidian internal API, there is no public way to unregister a view type
+        this.plugin.app.viewRegistry?.unregisterView(gateId)
+        this.gates.delete(gateId)
+    }
+
+    unregisterAll(): void {
+        for (const gateId of Array.from(this.gates.keys())) {
+            this.unregister(gateId)
+        }
+    }
+
+    private addDecorations(entry: RegisteredGate): void {
+        const options = entry.options
+        let iconName = options.icon
+
+        if (options.icon.startsWith('<svg')) {
+            addIcon(options.id, options.icon)
+            iconName = options.id
+            entry.iconId = options.id
+        }
+
+        if (options.hasRibbon) {
+            entry.ribbonEl = this.plugin.addRibbonIcon(iconName, options.title, async () => openView(this.plugin.app.workspace, options.id, options.position))
+        }
+
+        // Use the gate id, not the URL: gates sharing a URL (other profile, gate files) must not share a command,
+        // and editing the URL must keep the user's hotkey. Commands used to be keyed by the URL, so move hotkeys bound to that id.
+        entry.commandId = `open-gate-${options.id}`
+        this.migrateLegacyHotkeys(`open-gate-${btoa(encodeURIComponent(options.url))}`, entry.commandId)
+        this.plugin.addCommand({
+            id: entry.commandId,
+            name: `Easy Gate: ${options.title}`,
+            callback: async () => await openView(this.plugin.app.workspace, options.id, options.position)
+        })
+    }
+
+    /**
+     * Move hotkeys from the old URL-based command id to the id-based one, unless the new command already has its own
+     */
+    private migrateLegacyHotkeys(legacyCommandId: string, commandId: string): void {
+        if (legacyCommandId === commandId) {
+            return
+        }
+
+        const prefix = `${this.plugin.manifest.id}:`
+        // @ts-ignore - Obsidian internal API, there is no public way to read or change hotkeys
+        const hotkeyManager = this.plugin.app.hotkeyManager
+        const legacyKeys = hotkeyManager?.getHotkeys?.(prefix + legacyCommandId)
+        if (!legacyKeys?.length || hotkeyManager.getHotkeys(prefix + commandId)?.length) {
+            return
+        }
+
+        hotkeyManager.setHotkeys(prefix + commandId, legacyKeys)
+        hotkeyManager.removeHotkeys(prefix + legacyCommandId)
+        hotkeyManager.save()
+    }
+
+    private removeDecorations(entry: RegisteredGate): void {
+        entry.ribbonEl?.remove()
+        entry.ribbonEl = null
+
+        if (entry.commandId) {
+            this.plugin.removeCommand(entry.commandId)
+            entry.commandId = ''
+        }
+
+        if (entry.iconId) {
+            removeIcon(entry.iconId)
+            entry.iconId = null
+        }
+    }
+}
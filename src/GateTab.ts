@@ -0,0 +1,283 @@
+/**
+ * GateTab - GateView 안의 브라우저 탭 하나
+ *
+ * 탭마다 자신의 webview(모바일은 iframe)와 게이트 옵션을 가지므로
+ * 탭을 전환해도 페이지 상태, 스크롤, 뒤로/앞으로 기록이 유지되고
+ * 프로필, 사용자 에이전트, CSS/JS도 탭을 연 게이트의 설정을 따릅니다.
+ */
+
+import { GateFrameOption } from './GateOptions'
+import { createIframe } from './fns/createIframe'
+import { createWebviewTag, getWebviewPartition } from './fns/createWebviewTag'
+import { BlockerClient, getContentBlocker } from './blocker'
+import WebviewTag = Electron.WebviewTag
+
+/**
+ * 워크스페이스에 저장되는 탭 정보 (GateView.getState)
+ */
+export interface GateTabState {
+    gateId: string
+    url: string
+    title: string
+    pinned: boolean
+    scroll?: { x: number; y: number }
+    zoom?: number
+}
+
+const HIDDEN_FRAME_CLASS = 'gate-tab-frame-hidden'
+
+// 페이지 스크롤 위치를 console 메시지로 알려주는 스크립트 (webview는 preload 없이 메시지를 보낼 방법이 없음)
+const SCROLL_MESSAGE_PREFIX = '__easy_gate_scroll__:'
+const SCROLL_TRACKER_SCRIPT = `(() => {
+    if (window.__easyGateScrollTracker) return
+    window.__easyGateScrollTracker = true
+    let timer = 0
+    window.addEventListener('scroll', () => {
+        clearTimeout(timer)
+        timer = setTimeout(() => console.debug('${SCROLL_MESSAGE_PREFIX}' + Math.round(window.scrollX) + ',' + Math.round(window.scrollY)), 300)
+    }, { passive: true })
+})()`
+
+// 페이지에 포커스가 있을 때 Mod+F는 Obsidian에 전달되지 않으므로 같은 방식으로 알려줌
+const FIND_SHORTCUT_MESSAGE = '__easy_gate_find__'
+const FIND_SHORTCUT_SCRIPT = `(() => {
+    if (window.__easyGateFindShortcut) return
+    window.__easyGateFindShortcut = true
+    window.addEventListener('keydown', (e) => {
+        if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === 'f') {
+            e.preventDefault()
+            console.debug('${FIND_SHORTCUT_MESSAGE}')
+        }
+    }, true)
+})()`
+
+export class GateTab implements BlockerClient {
+    readonly id: string
+    options: GateFrameOption
+    url: string
+    title: string
+    pinned: boolean
+    // 마지막으로 알려진 스크롤 위치와 확대 비율 (워크스페이스에 저장됨)
+    scroll: { x: number; y: number } | null
+    zoom: number | null
+    frame: WebviewTag | HTMLIFrameElement | null = null
+    // 스크롤/확대 비율이 바뀌었을 때 호출 (GateView가 레이아웃 저장을 요청)
+    onStateChange: (() => void) | null = null
+    // 페이지 안에서 Mod+F를 눌렀을 때 호출 (GateView가 찾기 바를 엶)
+    onFindShortcut: (() => void) | null = null
+    // 현재 페이지에서 콘텐츠 차단기가 막은 요청 수
+    blockedCount = 0
+    onBlockedCountChange: (() => void) | null = null
+
+    private isFrameReady = false
+    private frameReadyCallbacks: (() => void)[] = []
+    private unregisterBlocker: (() => void) | null = null
+
+    constructor(options: GateFrameOption, state?: Partial<GateTabState>) {
+        this.id = Math.random().toString(36).substring(2, 10)
+        this.options = options
+        this.url = state?.url || options.url
+        this.title = state?.title || options.title
+        this.pinned = state?.pinned ?? false
+        this.scroll = state?.scroll ?? null
+        this.zoom = state?.zoom ?? null
+    }
+
+    get isReady(): boolean {
+        return this.isFrameReady
+    }
+
+    get isWebview(): boolean {
+        return this.frame !== null && !(this.frame instanceof HTMLIFrameElement)
+    }
+
+    get allowlist(): string[] {
+        return this.options.blockerAllowlist ?? []
+    }
+
+    /**
+     * 프레임 생성 후 컨테이너에 추가 (현재 url에서 시작)
+     */
+    mount(containerEl: HTMLElement, doc: Document, useIframe: boolean): WebviewTag | HTMLIFrameElement {
+        this.unmount()
+
+        const onReady = () => {
+            if (!this.isFrameReady) {
+                this.isFrameReady = true
+                const callbacks = this.frameReadyCallbacks
+                this.frameReadyCallbacks = []
+                callbacks.forEach((callback) => callback())
+            }
+        }
+
+        const params = { ...this.options, url: this.url, zoomFactor: this.zoom ?? this.options.zoomFactor }
+        if (useIframe) {
+            this.frame = createIframe(params, onReady)
+        } else {
+            this.frame = createWebviewTag(params, onReady, doc)
+            this.trackScroll(this.frame)
+            this.listenFindShortcut(this.frame)
+            this.attachContentBlocker(this.frame)
+        }
+        containerEl.appendChild(this.frame as unknown as HTMLElement)
+        return this.frame
+    }
+
+    unmount(): void {
+        this.unregisterBlocker?.()
+        this.unregisterBlocker = null
+        if (this.frame) {
+            this.frame.remove()
+            this.frame = null
+        }
+        this.isFrameReady = false
+    }
+
+    setVisible(visible: boolean): void {
+        ;(this.frame as unknown as HTMLElement | null)?.toggleClass(HIDDEN_FRAME_CLASS, !visible)
+    }
+
+    onFrameReady(callback: () => void): void {
+        if (this.isFrameReady) {
+            callback()
+        } else {
+            this.frameReadyCallbacks.push(callback)
+        }
+    }
+
+    navigateTo(url: string): void {
+        this.url = url
+        if (!this.frame) return
+
+        if (this.frame instanceof HTMLIFrameElement) {
+            this.frame.src = url
+        } else {
+            this.frame.loadURL(url)
+        }
+    }
+
+    reload(): void {
+        if (!this.frame) return
+
+        if (this.frame instanceof HTMLIFrameElement) {
+            this.frame.contentWindow?.location.reload()
+        } else {
+            this.frame.reload()
+        }
+    }
+
+    goBack(): void {
+        if (this.isWebview && (this.frame as WebviewTag).canGoBack()) {
+            ;(this.frame as WebviewTag).goBack()
+        }
+    }
+
+    goForward(): void {
+        if (this.isWebview && (this.frame as WebviewTag).canGoForward()) {
+            ;(this.frame as WebviewTag).goForward()
+        }
+    }
+
+    setZoom(factor: number): void {
+        this.zoom = Math.round(Math.min(Math.max(factor, 0.25), 5) * 100) / 100
+        if (this.isWebview && this.isFrameReady) {
+            ;(this.frame as WebviewTag).setZoomFactor(this.zoom)
+        }
+        this.onStateChange?.()
+    }
+
+    getZoom(): number {
+        if (this.isWebview && this.isFrameReady) {
+            return (this.frame as WebviewTag).getZoomFactor()
+        }
+        return this.zoom ?? this.options.zoomFactor ?? 1
+    }
+
+    getState(): GateTabState {
+        const zoom = this.getZoom()
+        return {
+            gateId: this.options.id,
+            url: this.url,
+            title: this.title,
+            pinned: this.pinned,
+            scroll: this.scroll ?? undefined,
+            zoom: zoom !== (this.options.zoomFactor || 1) ? zoom : undefined
+        }
+    }
+
+    recordBlocked(): void {
+        this.blockedCount++
+        this.onBlockedCountChange?.()
+    }
+
+    /**
+     * 콘텐츠 차단 연결 - 페이지마다 차단 수를 새로 세고 요소 숨김 CSS 주입
+     * webview가 붙은 직후(첫 페이지 요청 전)에 등록해야 처음 요청부터 탭과 연결됩니다.
+     */
+    private attachContentBlocker(webview: WebviewTag): void {
+        const blocker = getContentBlocker()
+        if (!blocker) return
+
+        webview.addEventListener('did-attach', () => {
+            this.unregisterBlocker?.()
+            this.unregisterBlocker = blocker.register(webview, getWebviewPartition(this.options.profileKey), this)
+        })
+
+        webview.addEventListener('did-navigate', () => {
+            this.blockedCount = 0
+            this.onBlockedCountChange?.()
+        })
+
+        webview.addEventListener('dom-ready', () => {
+            const css = blocker.getCosmeticCss(this)
+            if (css) {
+                webview.insertCSS(css).catch(() => undefined)
+            }
+        })
+    }
+
+    private listenFindShortcut(webview: WebviewTag): void {
+        webview.addEventListener('dom-ready', () => {
+            webview.executeJavaScript(FIND_SHORTCUT_SCRIPT).catch(() => undefined)
+        })
+
+        webview.addEventListener('console-message', (e) => {
+            if (e.message === FIND_SHORTCUT_MESSAGE) {
+                this.onFindShortcut?.()
+            }
+        })
+    }
+
+    /**
+     * 스크롤 위치 추적 및 복원
+     * 저장된 위치는 프레임을 만든 뒤 첫 페이지 로드가 끝났을 때 한 번만 적용합니다.
+     */
+    private trackScroll(webview: WebviewTag): void {
+        let pendingScroll = this.scroll
+
+        webview.addEventListener('dom-ready', () => {
+            webview.executeJavaScript(SCROLL_TRACKER_SCRIPT).catch(() => undefined)
+        })
+
+        webview.addEventListener('did-finish-load', () => {
+            if (pendingScroll && (pendingScroll.x > 0 || pendingScroll.y > 0)) {
+                webview.executeJavaScript(`window.scrollTo(${pendingScroll.x}, ${pendingScroll.y})`).catch(() => undefined)
+            }
+            pendingScroll = null
+        })
+
+        webview.addEventListener('did-navigate', () => {
+            this.scroll = null
+        })
+
+        webview.addEventListener('console-message', (e) => {
+            if (!e.message.startsWith(SCROLL_MESSAGE_PREFIX)) return
+
+            const [x, y] = e.message.substring(SCROLL_MESSAGE_PREFIX.length).split(',').map(Number)
+            if (Number.isFinite(x) && Number.isFinite(y)) {
+                this.scroll = { x, y }
+                this.onStateChange?.()
+            }
+        })
+    }
+}
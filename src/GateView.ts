@@ -1,32 +1,44 @@
-import { ItemView, WorkspaceLeaf, Menu, Notice, MarkdownView, setIcon, ButtonComponent, TextComponent, DropdownComponent, TFile } from 'obsidian'
-import { createWebviewTag } from './fns/createWebviewTag'
+import { ItemView, WorkspaceLeaf, Menu, Notice, MarkdownView, setIcon, ButtonComponent, TextComponent, DropdownComponent, TFile, ViewStateResult, Scope, moment, normalizePath } from 'obsidian'
 import { Platform } from 'obsidian'
-import { createIframe } from './fns/createIframe'
 import { clipboard } from 'electron'
 import WebviewTag = Electron.WebviewTag
 import { GateFrameOption } from './GateOptions'
 import OpenGatePlugin from './main'
 import { GatePopupModal } from './GatePopupModal'
-import { normalizeGateOption } from './fns/normalizeGateOption'
+import { GateTab, GateTabState } from './GateTab'
+import { createEmptyGateOption } from './fns/createEmptyGateOption'
+import { ModalEditGate } from './ModalEditGate'
 // AI & Clipping imports
-import { ClipDropdown, createClipButton, AIDropdown, createAIButton, showSuccess, showError, showLoading } from './ui'
-import { ClipService, initializeClipService, getClipService, ContentExtractor } from './clipping'
-import { getAIService } from './ai'
-import { AnalysisModal, ProcessModal, MultiSourceAnalysisModal, AnalysisConfig } from './modals'
-import { ClipData, MultiSourceAnalysisRequest, SourceItem } from './ai/types'
+import { ClipDropdown, createClipButton, AIDropdown, createAIButton, FindBar, showSuccess, showError, showLoading } from './ui'
+import { ClipService, initializeClipService, getClipService, ContentExtractor, NoteRenderer, getDefaultAINoteTemplate, ScreenshotCapture, ScreenshotMode } from './clipping'
+import { getAIService, hasProviderCredentials } from './ai'
+import { AnalysisModal, ProcessModal, MultiSourceAnalysisModal, AnalysisConfig, applyTemplateDefaults, HistorySearchModal, BookmarkModal, HighlightModal } from './modals'
+import { getTemplate } from './ai/TemplateRegistry'
+import { getHistoryStore } from './history'
+import { getBookmarkStore } from './bookmarks/BookmarkStore'
+import { OmniboxSuggest, OmniboxSuggestion, resolveOmniboxInput } from './omnibox'
+import { getHighlightService, HIGHLIGHT_CLICK_PREFIX, HIGHLIGHT_COLORS, HighlightColor } from './highlights'
+import { getContentBlocker } from './blocker'
+import { createProfileBadge, DEFAULT_PROFILE_KEY, getProfileManager } from './profiles'
+import { AI_PROVIDERS, ClipData, MultiSourceAnalysisRequest, SourceItem } from './ai/types'
+import { t } from './i18n'
 
 export class GateView extends ItemView {
-    private readonly options: GateFrameOption
-    private frame: WebviewTag | HTMLIFrameElement
+    private options: GateFrameOption
     private readonly useIframe: boolean = false
-    private frameReadyCallbacks: Function[]
-    private isFrameReady: boolean = false
     private frameDoc: Document
     private plugin: OpenGatePlugin
     private topBarEl: HTMLElement
+    private tabBarEl: HTMLElement
+    private addressInput: TextComponent
+    private bookmarkButton: ButtonComponent | null = null
+    private blockerButton: ButtonComponent | null = null
+    private findBar: FindBar | null = null
     private insertMode: 'cursor' | 'bottom' | 'new' = 'cursor'
-    // 현재 활성화된 게이트 상태 추적 (readonly options 대신 사용)
-    private currentGateState: { id: string; url: string; title: string }
+    // 브라우저 탭 (탭마다 자체 프레임과 게이트 옵션을 가짐)
+    private tabs: GateTab[] = []
+    private activeTab: GateTab | null = null
+    private draggedTab: GateTab | null = null
     // AI & Clipping
     private clipDropdown: ClipDropdown | null = null
     private aiDropdown: AIDropdown | null = null
@@ -38,9 +50,13 @@ export class GateView extends ItemView {
         this.options = options
         this.plugin = plugin
         this.useIframe = Platform.isMobileApp
-        this.frameReadyCallbacks = []
-        // 초기 상태 설정
-        this.currentGateState = { id: options.id, url: options.url, title: options.title }
+
+        // 게이트에 포커스가 있을 때 Mod+F로 페이지 내 검색
+        this.scope = new Scope(this.app.scope)
+        this.scope.register(['Mod'], 'f', () => {
+            this.openFindBar()
+            return false
+        })
 
         // ClipService 초기화 (Desktop only)
         if (!this.useIframe) {
@@ -51,17 +67,32 @@ export class GateView extends ItemView {
         }
     }
 
+    /**
+     * 활성 탭의 프레임 (클리핑/AI 처리는 항상 보고 있는 탭을 대상으로 함)
+     */
+    private get frame(): WebviewTag | HTMLIFrameElement {
+        return this.activeTab?.frame as WebviewTag | HTMLIFrameElement
+    }
+
+    /**
+     * 활성 탭의 게이트와 페이지 정보
+     */
+    private get currentGateState(): { id: string; url: string; title: string } {
+        const tab = this.activeTab
+        return {
+            id: tab?.options.id ?? this.options.id,
+            url: tab?.url ?? this.options.url,
+            title: tab?.title ?? this.options.title
+        }
+    }
+
     addActions(): void {
-        this.addAction('refresh-ccw', 'Reload', () => {
-            if (this.frame instanceof HTMLIFrameElement) {
-                this.frame.contentWindow?.location.reload()
-            } else {
-                this.frame.reload()
-            }
+        this.addAction('refresh-ccw', t('gate.reload'), () => {
+            this.activeTab?.reload()
         })
 
-        this.addAction('home', 'Home page', () => {
-            this.navigateTo(this.options?.url ?? 'about:blank')
+        this.addAction('home', t('gate.home'), () => {
+            this.navigateTo(this.activeTab?.options.url ?? this.options?.url ?? 'about:blank')
         })
     }
 
@@ -85,8 +116,20 @@ export class GateView extends ItemView {
         // Create Top Bar (Tabs + Controls) - uses dropdowns for buttons
         this.drawTopBar()
 
+        if (!this.useIframe) {
+            this.findBar = new FindBar({
+                container: this.topBarEl,
+                getWebview: () => (this.activeTab?.isWebview ? (this.activeTab.frame as WebviewTag) : null)
+            })
+        }
+
         this.frameDoc = this.contentEl.doc
-        this.createFrame()
+        this.openTab(this.options)
+
+        const bookmarkStore = getBookmarkStore()
+        if (bookmarkStore) {
+            this.registerEvent(bookmarkStore.on('changed', () => this.updateBookmarkButton()))
+        }
     }
 
     /**
@@ -99,6 +142,7 @@ export class GateView extends ItemView {
             settings: this.plugin.settings.clipping,
             onClipPage: () => this.handleClipPage(),
             onClipSelection: () => this.handleClipSelection(),
+            onArchivePage: () => this.archivePage(),
             onClipToNote: (file: TFile) => this.handleClipToNote(file),
             onOpenSettings: () => this.openClipSettings()
         })
@@ -127,11 +171,11 @@ export class GateView extends ItemView {
      */
     private async handleClipPage(): Promise<void> {
         if (this.useIframe || !this.clipService) {
-            showError('Desktop 환경에서만 클리핑이 가능합니다.')
+            showError(t('clip.desktopOnly'))
             return
         }
 
-        const loading = showLoading('페이지 클리핑 중...')
+        const loading = showLoading(t('clip.clippingPage'))
 
         try {
             const result = await this.clipService.clipPage(
@@ -142,14 +186,14 @@ export class GateView extends ItemView {
             loading.hide()
 
             if (result.success && result.note) {
-                showSuccess(`클리핑 완료: ${result.note.path}`)
+                showSuccess(t('clip.done', { path: result.note.path }))
             } else {
-                showError(result.error || '클리핑 실패')
+                showError(result.error || t('clip.failed'))
             }
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`클리핑 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('clip.error', { error: errorMessage }))
         }
     }
 
@@ -158,11 +202,11 @@ export class GateView extends ItemView {
      */
     private async handleClipSelection(): Promise<void> {
         if (this.useIframe || !this.clipService) {
-            showError('Desktop 환경에서만 클리핑이 가능합니다.')
+            showError(t('clip.desktopOnly'))
             return
         }
 
-        const loading = showLoading('선택 텍스트 클리핑 중...')
+        const loading = showLoading(t('clip.clippingSelection'))
 
         try {
             const result = await this.clipService.clipSelection(
@@ -173,14 +217,45 @@ export class GateView extends ItemView {
             loading.hide()
 
             if (result.success && result.note) {
-                showSuccess(`클리핑 완료: ${result.note.path}`)
+                showSuccess(t('clip.done', { path: result.note.path }))
+            } else {
+                showError(result.error || t('clip.noSelection'))
+            }
+        } catch (error) {
+            loading.hide()
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('clip.error', { error: errorMessage }))
+        }
+    }
+
+    /**
+     * 오프라인 아카이브 (페이지 사본 저장 + 클리핑 노트)
+     */
+    async archivePage(): Promise<void> {
+        if (this.useIframe || !this.clipService) {
+            showError(t('clip.desktopOnly'))
+            return
+        }
+
+        const loading = showLoading(t('archive.archiving'))
+
+        try {
+            const result = await this.clipService.archivePage(
+                this.frame as WebviewTag,
+                this.currentGateState.id
+            )
+
+            loading.hide()
+
+            if (result.success && result.note) {
+                showSuccess(t('archive.done', { path: result.clipData?.archivePath ?? result.note.path }))
             } else {
-                showError(result.error || '선택된 텍스트가 없습니다.')
+                showError(result.error || t('archive.failed'))
             }
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`클리핑 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('archive.error', { error: errorMessage }))
         }
     }
 
@@ -189,11 +264,11 @@ export class GateView extends ItemView {
      */
     private async handleClipToNote(targetFile: TFile): Promise<void> {
         if (this.useIframe || !this.clipService) {
-            showError('Desktop 환경에서만 클리핑이 가능합니다.')
+            showError(t('clip.desktopOnly'))
             return
         }
 
-        const loading = showLoading(`${targetFile.basename}에 추가 중...`)
+        const loading = showLoading(t('clip.appending', { name: targetFile.basename }))
 
         try {
             const result = await this.clipService.clipToNote(
@@ -205,14 +280,14 @@ export class GateView extends ItemView {
             loading.hide()
 
             if (result.success) {
-                showSuccess(`클리핑이 ${targetFile.basename}에 추가되었습니다.`)
+                showSuccess(t('clip.appended', { name: targetFile.basename }))
             } else {
-                showError(result.error || '클리핑 추가 실패')
+                showError(result.error || t('clip.appendFailed'))
             }
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`클리핑 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('clip.error', { error: errorMessage }))
         }
     }
 
@@ -236,22 +311,22 @@ export class GateView extends ItemView {
      */
     private async handleAISummary(): Promise<void> {
         if (this.useIframe) {
-            showError('Desktop 환경에서만 AI 기능이 가능합니다.')
+            showError(t('ai.desktopOnly'))
             return
         }
 
         const aiService = getAIService()
         if (!aiService) {
-            showError('AI 서비스가 초기화되지 않았습니다.')
+            showError(t('ai.serviceNotInitialized'))
             return
         }
 
         if (!aiService.isProviderConfigured(this.plugin.settings.ai.provider)) {
-            showError('API 키가 설정되지 않았습니다. 설정에서 API 키를 입력해주세요.')
+            showError(t('ai.apiKeyMissingHint'))
             return
         }
 
-        const loading = showLoading('AI 요약 생성 중...')
+        const loading = showLoading(t('ai.summarizing'))
 
         try {
             // 콘텐츠 추출
@@ -260,14 +335,20 @@ export class GateView extends ItemView {
 
             if (!content) {
                 loading.hide()
-                showError('페이지 콘텐츠를 추출할 수 없습니다.')
+                showError(t('ai.extractFailed'))
                 return
             }
 
-            // AI 요약 생성
+            // AI 요약 생성 (긴 페이지는 나누어 요약한 뒤 통합)
             const response = await aiService.summarizeContent(
                 content.textContent,
-                this.plugin.settings.ai.defaultLanguage
+                this.plugin.settings.ai.defaultLanguage,
+                undefined,
+                (state) => {
+                    if (state.steps.length > 1 && state.status !== 'completed') {
+                        loading.update(t('ai.summarizingProgress', { step: state.currentStep, progress: state.progress }))
+                    }
+                }
             )
 
             loading.hide()
@@ -276,51 +357,30 @@ export class GateView extends ItemView {
                 // 요약 결과를 새 노트로 생성 (YAML frontmatter 포함)
                 const timestamp = new Date().toISOString().split('T')[0]
                 const currentUrl = await ContentExtractor.getCurrentUrl(this.frame as WebviewTag)
-                const baseFileName = `AI 요약 - ${content.title || 'Untitled'} - ${timestamp}.md`
+                const baseFileName = t('ai.summaryFileName', { title: content.title || t('common.untitled'), date: timestamp })
                 const fileName = await this.getUniqueFileName(baseFileName)
 
-                // YAML frontmatter가 포함된 노트 내용 생성
-                const noteContent = `---
-title: "${content.title || 'AI 요약'}"
-source: "${currentUrl}"
-created: ${timestamp}
-type: ai-summary
-provider: ${this.plugin.settings.ai.provider}
-site: "${content.siteName || ''}"
-tags:
-  - ai-summary
-  - easy-gate
----
-
-# ${content.title || 'AI 요약'}
-
-> 🔗 원본: [${currentUrl}](${currentUrl})
-> 🤖 분석: ${this.plugin.settings.ai.provider}
-> 📅 생성: ${timestamp}
-
----
-
-${response.content}
-
----
-
-## 원본 정보
-
-- **제목**: ${content.title || 'Untitled'}
-- **URL**: ${currentUrl}
-- **사이트**: ${content.siteName || 'Unknown'}
-`
+                // AI 결과 노트 템플릿으로 노트 내용 생성
+                const noteContent = await NoteRenderer.renderWithTemplate(this.app.vault, this.plugin.settings.ai.noteTemplatePath, getDefaultAINoteTemplate(), {
+                    title: content.title || t('ai.summaryTitle'),
+                    url: currentUrl,
+                    date: new Date(),
+                    site: content.siteName,
+                    ai: response.content,
+                    provider: AI_PROVIDERS[this.plugin.settings.ai.provider].displayName,
+                    type: 'ai-summary'
+                })
 
                 const file = await this.app.vault.create(fileName, noteContent)
                 await this.app.workspace.getLeaf('tab').openFile(file)
-                showSuccess('AI 요약이 생성되었습니다.')
+                showSuccess(t('ai.summaryCreated'))
             } else {
-                showError(response.error || 'AI 요약 생성 실패')
+                showError(response.error || t('ai.summaryFailed'))
             }
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`AI 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('ai.error', { error: errorMessage }))
         }
     }
 
@@ -329,17 +389,17 @@ ${response.content}
      */
     private async handleAIWithTemplate(templateId: string): Promise<void> {
         if (this.useIframe) {
-            showError('Desktop 환경에서만 AI 기능이 가능합니다.')
+            showError(t('ai.desktopOnly'))
             return
         }
 
         const aiService = getAIService()
         if (!aiService || !aiService.isProviderConfigured(this.plugin.settings.ai.provider)) {
-            showError('API 키가 설정되지 않았습니다.')
+            showError(t('ai.apiKeyMissing'))
             return
         }
 
-        const loading = showLoading('콘텐츠 추출 중...')
+        const loading = showLoading(t('ai.extracting'))
 
         try {
             // 콘텐츠 추출
@@ -349,7 +409,7 @@ ${response.content}
             loading.hide()
 
             if (!content) {
-                showError('페이지 콘텐츠를 추출할 수 없습니다.')
+                showError(t('ai.extractFailed'))
                 return
             }
 
@@ -366,22 +426,26 @@ ${response.content}
                 gateId: this.currentGateState.id
             }
 
-            // 바로 ProcessModal로 처리 (템플릿 선택된 상태)
-            const config: AnalysisConfig = {
-                templateId: templateId,
-                customPrompt: null,
-                provider: this.plugin.settings.ai.provider,
-                includeMetadata: true,
-                outputFormat: 'markdown',
-                language: this.plugin.settings.ai.defaultLanguage || 'ko'
-            }
+            // 바로 ProcessModal로 처리 (템플릿 선택된 상태, 템플릿 기본 Provider/모델 적용)
+            const template = getTemplate(templateId)
+            const config: AnalysisConfig = applyTemplateDefaults(
+                {
+                    templateId: templateId,
+                    customPrompt: null,
+                    provider: this.plugin.settings.ai.provider,
+                    includeMetadata: true,
+                    outputFormat: template?.outputFormat ?? 'markdown',
+                    language: this.plugin.settings.ai.defaultLanguage || 'ko'
+                },
+                template
+            )
 
             await this.runAnalysis(clipData, config)
 
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`템플릿 처리 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('ai.templateError', { error: errorMessage }))
         }
     }
 
@@ -390,17 +454,17 @@ ${response.content}
      */
     private async handleAIWithPrompt(prompt: string): Promise<void> {
         if (this.useIframe) {
-            showError('Desktop 환경에서만 AI 기능이 가능합니다.')
+            showError(t('ai.desktopOnly'))
             return
         }
 
         const aiService = getAIService()
         if (!aiService) {
-            showError('AI 서비스가 초기화되지 않았습니다.')
+            showError(t('ai.serviceNotInitialized'))
             return
         }
 
-        const loading = showLoading('AI 처리 중...')
+        const loading = showLoading(t('ai.processing'))
 
         try {
             const { ContentExtractor } = await import('./clipping')
@@ -408,7 +472,7 @@ ${response.content}
 
             if (!content) {
                 loading.hide()
-                showError('페이지 콘텐츠를 추출할 수 없습니다.')
+                showError(t('ai.extractFailed'))
                 return
             }
 
@@ -422,57 +486,31 @@ ${response.content}
             if (response.success) {
                 const timestamp = new Date().toISOString().split('T')[0]
                 const currentUrl = await ContentExtractor.getCurrentUrl(this.frame as WebviewTag)
-                const baseFileName = `AI 분석 - ${content.title || 'Untitled'} - ${timestamp}.md`
+                const baseFileName = t('ai.analysisFileName', { title: content.title || t('common.untitled'), date: timestamp })
                 const fileName = await this.getUniqueFileName(baseFileName)
 
-                // YAML frontmatter가 포함된 노트 내용 생성
-                const noteContent = `---
-title: "${content.title || 'AI 분석'}"
-source: "${currentUrl}"
-created: ${timestamp}
-type: ai-analysis
-provider: ${this.plugin.settings.ai.provider}
-site: "${content.siteName || ''}"
-prompt: "${prompt.replace(/"/g, '\\"').substring(0, 100)}..."
-tags:
-  - ai-analysis
-  - easy-gate
-  - custom-prompt
----
-
-# ${content.title || 'AI 분석'}
-
-> 🔗 원본: [${currentUrl}](${currentUrl})
-> 🤖 분석: ${this.plugin.settings.ai.provider}
-> 📅 생성: ${timestamp}
-
----
-
-**프롬프트:** ${prompt}
-
----
-
-${response.content}
-
----
-
-## 원본 정보
-
-- **제목**: ${content.title || 'Untitled'}
-- **URL**: ${currentUrl}
-- **사이트**: ${content.siteName || 'Unknown'}
-`
+                // AI 결과 노트 템플릿으로 노트 내용 생성 (사용한 프롬프트를 결과 앞에 표시)
+                const noteContent = await NoteRenderer.renderWithTemplate(this.app.vault, this.plugin.settings.ai.noteTemplatePath, getDefaultAINoteTemplate(), {
+                    title: content.title || t('ai.analysisTitle'),
+                    url: currentUrl,
+                    date: new Date(),
+                    site: content.siteName,
+                    ai: `**${t('ai.promptLabel')}:** ${prompt}\n\n---\n\n${response.content}`,
+                    provider: AI_PROVIDERS[this.plugin.settings.ai.provider].displayName,
+                    template: 'custom-prompt',
+                    type: 'ai-analysis'
+                })
 
                 const file = await this.app.vault.create(fileName, noteContent)
                 await this.app.workspace.getLeaf('tab').openFile(file)
-                showSuccess('AI 분석이 완료되었습니다.')
+                showSuccess(t('ai.analysisDone'))
             } else {
-                showError(response.error || 'AI 처리 실패')
+                showError(response.error || t('ai.processingFailed'))
             }
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`AI 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('ai.error', { error: errorMessage }))
         }
     }
 
@@ -481,13 +519,13 @@ ${response.content}
      */
     private async handleAISelection(): Promise<void> {
         if (this.useIframe) {
-            showError('Desktop 환경에서만 AI 기능이 가능합니다.')
+            showError(t('ai.desktopOnly'))
             return
         }
 
         const aiService = getAIService()
         if (!aiService) {
-            showError('AI 서비스가 초기화되지 않았습니다.')
+            showError(t('ai.serviceNotInitialized'))
             return
         }
 
@@ -496,11 +534,11 @@ ${response.content}
             const selection = await ContentExtractor.extractSelection(this.frame as WebviewTag)
 
             if (!selection || !selection.hasSelection) {
-                showError('선택된 텍스트가 없습니다.')
+                showError(t('clip.noSelection'))
                 return
             }
 
-            const loading = showLoading('선택 텍스트 AI 처리 중...')
+            const loading = showLoading(t('ai.processingSelection'))
 
             const response = await aiService.summarizeContent(
                 selection.text,
@@ -510,13 +548,13 @@ ${response.content}
             loading.hide()
 
             if (response.success) {
-                new Notice(`AI 분석 결과:\n${response.content.substring(0, 200)}...`, 10000)
+                new Notice(t('ai.selectionResult', { result: response.content.substring(0, 200) }), 10000)
             } else {
-                showError(response.error || 'AI 처리 실패')
+                showError(response.error || t('ai.processingFailed'))
             }
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`AI 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('ai.error', { error: errorMessage }))
         }
     }
 
@@ -526,11 +564,11 @@ ${response.content}
      */
     private async openAnalysisModal(templateId?: string): Promise<void> {
         if (this.useIframe) {
-            showError('Desktop 환경에서만 분석 기능이 가능합니다.')
+            showError(t('ai.analysisDesktopOnly'))
             return
         }
 
-        const loading = showLoading('콘텐츠 추출 중...')
+        const loading = showLoading(t('ai.extracting'))
 
         try {
             // 선택된 텍스트 먼저 확인
@@ -551,7 +589,7 @@ ${response.content}
             loading.hide()
 
             if (!content) {
-                showError('페이지 콘텐츠를 추출할 수 없습니다.')
+                showError(t('ai.extractFailed'))
                 return
             }
 
@@ -589,8 +627,8 @@ ${response.content}
 
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`분석 모달 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('ai.analysisModalError', { error: errorMessage }))
         }
     }
 
@@ -604,7 +642,8 @@ ${response.content}
             config: config,
             onSave: async (content: string, title: string) => {
                 return await this.saveAnalysisResult(content, title)
-            }
+            },
+            noteTemplatePath: this.plugin.settings.ai.noteTemplatePath
         })
         processModal.open()
     }
@@ -635,10 +674,10 @@ ${response.content}
                 await this.app.workspace.getLeaf('tab').openFile(file)
             }
 
-            showSuccess(`노트 저장 완료: ${filePath}`)
+            showSuccess(t('ai.noteSaved', { path: filePath }))
             return file
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : '저장 실패'
+            const errorMessage = error instanceof Error ? error.message : t('ai.saveFailed')
             showError(errorMessage)
             return null
         }
@@ -680,7 +719,7 @@ ${response.content}
      * 멀티 소스 분석 모달 열기
      */
     private async openMultiSourceModal(): Promise<void> {
-        const loading = showLoading('멀티 소스 분석 준비 중...')
+        const loading = showLoading(t('ai.multiSourcePreparing'))
 
         try {
             // 현재 페이지 정보를 초기 소스로 추가
@@ -723,8 +762,8 @@ ${response.content}
 
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
-            showError(`멀티 소스 분석 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('ai.multiSourceError', { error: errorMessage }))
         }
     }
 
@@ -762,15 +801,15 @@ ${response.content}
      * 멀티 소스 AI 분석 실행
      */
     private async runMultiSourceAnalysis(request: MultiSourceAnalysisRequest): Promise<void> {
-        const loading = showLoading('멀티 소스 분석 중...')
+        const loading = showLoading(t('ai.multiSourceRunning'))
 
         try {
             const aiSettings = this.plugin.settings.ai
             const provider = aiSettings.provider
-            const apiKey = aiSettings.apiKeys[provider]
+            const apiKey = aiSettings.apiKeys[provider] || ''
 
-            if (!apiKey) {
-                throw new Error(`${provider} API 키가 설정되지 않았습니다.`)
+            if (!hasProviderCredentials(aiSettings, provider)) {
+                throw new Error(t('ai.providerKeyMissing', { provider }))
             }
 
             // 소스들을 결합하여 컨텍스트 생성
@@ -837,49 +876,44 @@ ${sourcesContext}
             }).join('\n')
 
             const analysisTypeNames: Record<string, string> = {
-                'synthesis': '종합 분석',
-                'comparison': '비교 분석',
-                'summary': '요약',
-                'custom': '커스텀 분석'
+                'synthesis': t('multiSourceNote.synthesis'),
+                'comparison': t('multiSourceNote.comparison'),
+                'summary': t('multiSourceNote.summary'),
+                'custom': t('multiSourceNote.custom')
             }
 
-            const noteContent = `---
-type: multi-source-analysis
-analysis-type: ${request.analysisType}
-sources-count: ${request.sources.length}
-total-chars: ${request.sources.reduce((acc: number, s: SourceItem) => acc + s.metadata.charCount, 0)}
-provider: ${provider}
-created: ${new Date().toISOString()}
----
-
-# 멀티 소스 ${analysisTypeNames[request.analysisType]}
-
-## 분석 개요
-- **분석 유형**: ${analysisTypeNames[request.analysisType]}
-- **소스 수**: ${request.sources.length}개
-- **총 분석 문자 수**: ${request.sources.reduce((acc: number, s: SourceItem) => acc + s.metadata.charCount, 0).toLocaleString()}자
-- **AI 모델**: ${provider}
-- **분석 일시**: ${new Date().toLocaleString('ko-KR')}
+            const analysisTypeName = analysisTypeNames[request.analysisType]
+            const totalChars = request.sources.reduce((acc: number, s: SourceItem) => acc + s.metadata.charCount, 0)
+            const analysisBody = `## ${t('multiSourceNote.overview')}
+- **${t('multiSourceNote.type')}**: ${analysisTypeName}
+- **${t('multiSourceNote.sourceCount')}**: ${request.sources.length}
+- **${t('multiSourceNote.totalChars')}**: ${totalChars.toLocaleString()}
+- **${t('multiSourceNote.model')}**: ${AI_PROVIDERS[provider].displayName}
 
-## 분석 결과
+## ${t('multiSourceNote.result')}
 
 ${result}
 
-## 분석에 사용된 소스
+## ${t('multiSourceNote.sources')}
 
-${sourceRefs}
+${sourceRefs}`
 
----
-*이 분석은 Easy Gate 멀티 소스 분석 기능으로 생성되었습니다.*
-`
+            const noteContent = await NoteRenderer.renderWithTemplate(this.app.vault, this.plugin.settings.ai.noteTemplatePath, getDefaultAINoteTemplate(), {
+                title: t('multiSourceNote.title', { type: analysisTypeName }),
+                date: new Date(),
+                ai: analysisBody,
+                provider: AI_PROVIDERS[provider].displayName,
+                template: analysisTypeName,
+                type: 'multi-source-analysis'
+            })
 
-            const title = `멀티소스_${analysisTypeNames[request.analysisType]}_${new Date().toISOString().split('T')[0]}`
+            const title = t('multiSourceNote.fileName', { type: analysisTypeNames[request.analysisType], date: new Date().toISOString().split('T')[0] })
             await this.saveAnalysisResult(noteContent, title)
 
         } catch (error) {
             loading.hide()
-            const errorMessage = error instanceof Error ? error.message : '분석 실패'
-            showError(`멀티 소스 분석 오류: ${errorMessage}`)
+            const errorMessage = error instanceof Error ? error.message : t('ai.analysisFailed')
+            showError(t('ai.multiSourceError', { error: errorMessage }))
         }
     }
 
@@ -892,6 +926,22 @@ ${sourceRefs}
         systemPrompt: string,
         userPrompt: string
     ): Promise<string> {
+        // 로컬 서버는 엔드포인트와 모델이 사용자 설정이므로 AIService를 통해 호출
+        if (provider === 'local') {
+            const localResponse = await getAIService()?.generateTextWithProvider(
+                'local',
+                [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userPrompt }
+                ],
+                { temperature: 0.7, maxTokens: 8192 }
+            )
+            if (!localResponse?.success) {
+                throw new Error(localResponse?.error || t('ai.noResponse'))
+            }
+            return localResponse.content
+        }
+
         const endpoints: Record<string, string> = {
             'gemini': 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
             'grok': 'https://api.x.ai/v1/chat/completions',
@@ -902,7 +952,7 @@ ${sourceRefs}
 
         const endpoint = endpoints[provider]
         if (!endpoint) {
-            throw new Error(`지원하지 않는 AI 제공자: ${provider}`)
+            throw new Error(t('ai.unsupportedProvider', { provider }))
         }
 
         // 기본 설정값
@@ -993,11 +1043,11 @@ ${sourceRefs}
                 break
 
             default:
-                throw new Error(`지원하지 않는 AI 제공자: ${provider}`)
+                throw new Error(t('ai.unsupportedProvider', { provider }))
         }
 
         if (!result) {
-            throw new Error('AI 응답을 받지 못했습니다.')
+            throw new Error(t('ai.noResponse'))
         }
 
         return result
@@ -1036,9 +1086,9 @@ ${sourceRefs}
     private drawTopBar(): void {
         this.topBarEl = this.contentEl.createDiv({ cls: 'gate-top-bar' });
 
-        // 1. Tab Bar (Gate Switcher)
-        const tabBar = this.topBarEl.createDiv({ cls: 'gate-tab-bar' });
-        this.renderTabBar(tabBar);
+        // 1. Tab Bar
+        this.tabBarEl = this.topBarEl.createDiv({ cls: 'gate-tab-bar' });
+        this.renderTabBar();
 
         // 2. Control Row (Address + Actions)
         const controlRow = this.topBarEl.createDiv({ cls: 'gate-control-row' });
@@ -1046,64 +1096,75 @@ ${sourceRefs}
         // Navigation Buttons
         new ButtonComponent(controlRow)
             .setIcon('arrow-left')
-            .setTooltip('Back')
-            .onClick(() => {
-                if (!this.useIframe && (this.frame as WebviewTag).canGoBack()) {
-                    (this.frame as WebviewTag).goBack();
-                }
-            });
+            .setTooltip(t('gate.back'))
+            .onClick(() => this.activeTab?.goBack());
 
         new ButtonComponent(controlRow)
             .setIcon('arrow-right')
-            .setTooltip('Forward')
-            .onClick(() => {
-                if (!this.useIframe && (this.frame as WebviewTag).canGoForward()) {
-                    (this.frame as WebviewTag).goForward();
-                }
-            });
+            .setTooltip(t('gate.forward'))
+            .onClick(() => this.activeTab?.goForward());
+
+        new ButtonComponent(controlRow)
+            .setIcon('history')
+            .setTooltip(t('history.search'))
+            .onClick(() => this.openHistorySearch());
 
         // Address Bar
         const addressInput = new TextComponent(controlRow);
         addressInput.setPlaceholder('https://...');
         addressInput.inputEl.addClass('gate-address-input');
         addressInput.setValue(this.options.url);
+        // 입력 추천이 열려 있으면 Enter는 선택된 추천 항목(첫 항목은 입력 그대로)이 처리함
+        const omnibox = new OmniboxSuggest({
+            app: this.app,
+            inputEl: addressInput.inputEl,
+            getSettings: () => this.plugin.settings.omnibox,
+            getGates: () => Object.values(this.plugin.settings.gates),
+            onChoose: (suggestion) => this.handleOmniboxSuggestion(suggestion)
+        });
         addressInput.inputEl.addEventListener('keydown', async (e) => {
-            if (e.key === 'Enter') {
+            if (e.key === 'Enter' && !e.defaultPrevented && !omnibox.isOpen) {
                 const url = addressInput.getValue();
                 if (url) {
                     await this.handleAddressEnter(url);
                 }
             }
         });
-
-        // Current URL Listener to update address bar
-        this.onFrameReady(() => {
-            if (!this.useIframe) {
-                (this.frame as WebviewTag).addEventListener('did-navigate', (e) => {
-                    addressInput.setValue(e.url);
-                });
-                (this.frame as WebviewTag).addEventListener('did-navigate-in-page', (e) => {
-                    addressInput.setValue(e.url);
-                });
-            }
-        });
+        // Kept so tab navigation listeners can update the address bar
+        this.addressInput = addressInput;
+
+        // Bookmark (star) - 현재 페이지가 북마크에 있으면 채워진 별로 표시
+        this.bookmarkButton = new ButtonComponent(controlRow)
+            .setIcon('star')
+            .setClass('gate-bookmark-button')
+            .onClick(() => this.openBookmarkModal());
+        this.updateBookmarkButton();
+
+        // Content blocker (shield) - 현재 페이지에서 차단한 요청 수
+        if (!this.useIframe && getContentBlocker()) {
+            this.blockerButton = new ButtonComponent(controlRow)
+                .setIcon('shield')
+                .setClass('gate-blocker-button')
+                .onClick((evt) => this.showBlockerMenu(evt));
+            this.updateBlockerButton();
+        }
 
         // Tools Divider
         controlRow.createSpan({ cls: 'gate-divider' });
 
         // Insert To Dropdown
         const drop = new DropdownComponent(controlRow);
-        drop.addOption('cursor', 'Insert to: Cursor');
-        drop.addOption('bottom', 'Insert to: Bottom');
-        drop.addOption('new', 'Insert to: New Note');
+        drop.addOption('cursor', t('gate.insertCursor'));
+        drop.addOption('bottom', t('gate.insertBottom'));
+        drop.addOption('new', t('gate.insertNewNote'));
         drop.setValue('cursor');
         drop.onChange((val) => this.insertMode = val as any);
 
         // Apply Button
         new ButtonComponent(controlRow)
             .setIcon('download')
-            .setTooltip('Apply Selection')
-            .setButtonText('Apply')
+            .setTooltip(t('gate.applySelection'))
+            .setButtonText(t('gate.apply'))
             .onClick(() => this.onApplyText());
 
         // Smart Buttons (Desktop only) - 📋 Clip, 🤖 AI
@@ -1132,99 +1193,323 @@ ${sourceRefs}
                     hasApiKey
                 )
             }
+
+            // 🖍 Highlight Button - 색상 선택, 메모 추가, 하이라이트 노트 열기
+            if (getHighlightService()?.enabled) {
+                new ButtonComponent(controlRow)
+                    .setIcon('highlighter')
+                    .setTooltip(t('highlight.button'))
+                    .onClick((evt) => this.showHighlightMenu(evt))
+            }
+
+            // 📷 Screenshot Button - 보이는 영역, 영역 선택, 전체 페이지
+            new ButtonComponent(controlRow)
+                .setIcon('camera')
+                .setTooltip(t('screenshot.button'))
+                .onClick((evt) => this.showScreenshotMenu(evt))
         }
     }
 
-    private renderTabBar(container: HTMLElement) {
-        container.empty();
-        const gates = this.plugin.settings.gates;
+    private renderTabBar(): void {
+        const container = this.tabBarEl
+        if (!container) return
+        container.empty()
 
-        for (const id in gates) {
-            const gate = gates[id];
-            const tab = container.createDiv({ cls: 'gate-tab' });
-            // currentGateState를 사용하여 활성 탭 표시 (readonly options 수정 방지)
-            if (gate.id === this.currentGateState.id) tab.addClass('active');
+        for (const tab of this.tabs) {
+            const tabEl = container.createDiv({ cls: 'gate-tab' })
+            tabEl.toggleClass('active', tab === this.activeTab)
+            tabEl.toggleClass('pinned', tab.pinned)
+            tabEl.setAttr('aria-label', tab.title)
+            tabEl.draggable = true
 
             // Icon
-            const iconContainer = tab.createSpan({ cls: 'gate-tab-icon' });
-            setIcon(iconContainer, gate.icon || 'globe');
-
-            // Title
-            tab.createSpan({ text: gate.title, cls: 'gate-tab-title' });
-
-            // Close button (X) - 각 탭에 삭제 버튼 추가
-            const closeBtn = tab.createSpan({ cls: 'gate-tab-close' });
-            setIcon(closeBtn, 'x');
-            closeBtn.addEventListener('click', async (e) => {
-                e.stopPropagation(); // 탭 클릭 이벤트 전파 방지
-                const confirmDelete = confirm(`"${gate.title}" 게이트를 삭제하시겠습니까?`);
-                if (confirmDelete) {
-                    await this.plugin.removeGate(gate.id);
-                    this.renderTabBar(container);
-                    new Notice(`"${gate.title}" 게이트가 삭제되었습니다.`);
+            const iconContainer = tabEl.createSpan({ cls: 'gate-tab-icon' })
+            setIcon(iconContainer, tab.options.icon || 'globe')
+
+            // 기본이 아닌 프로필은 색상 점으로 구분
+            const profile = getProfileManager()?.getProfile(tab.options.profileKey)
+            if (profile && profile.key !== DEFAULT_PROFILE_KEY) {
+                createProfileBadge(iconContainer, profile)
+            }
+
+            // 고정 탭은 아이콘만 표시하고 닫기 버튼을 숨김
+            if (!tab.pinned) {
+                tabEl.createSpan({ text: tab.title, cls: 'gate-tab-title' })
+
+                const closeBtn = tabEl.createSpan({ cls: 'gate-tab-close' })
+                setIcon(closeBtn, 'x')
+                closeBtn.addEventListener('click', (e) => {
+                    e.stopPropagation()
+                    this.closeTab(tab)
+                })
+            }
+
+            tabEl.addEventListener('click', () => this.activateTab(tab))
+            tabEl.addEventListener('auxclick', (e) => {
+                // 가운데 버튼 클릭으로 닫기
+                if (e.button === 1 && !tab.pinned) {
+                    e.preventDefault()
+                    this.closeTab(tab)
                 }
-            });
+            })
+            tabEl.addEventListener('contextmenu', (e) => {
+                e.preventDefault()
+                this.showTabMenu(tab, e)
+            })
 
-            tab.addEventListener('click', () => {
-                this.navigateTo(gate.url);
-                // currentGateState 업데이트 (readonly options 대신)
-                this.currentGateState.url = gate.url;
-                this.currentGateState.id = gate.id;
-                this.currentGateState.title = gate.title;
-                this.renderTabBar(container); // Re-render to update active state
-            });
+            // 드래그로 순서 변경
+            tabEl.addEventListener('dragstart', (e) => {
+                this.draggedTab = tab
+                e.dataTransfer?.setData('text/plain', tab.url)
+            })
+            tabEl.addEventListener('dragend', () => {
+                this.draggedTab = null
+            })
+            tabEl.addEventListener('dragover', (e) => {
+                if (!this.draggedTab || this.draggedTab === tab) return
+                e.preventDefault()
+                tabEl.addClass('drag-over')
+            })
+            tabEl.addEventListener('dragleave', () => {
+                tabEl.removeClass('drag-over')
+            })
+            tabEl.addEventListener('drop', (e) => {
+                e.preventDefault()
+                tabEl.removeClass('drag-over')
+                if (this.draggedTab && this.draggedTab !== tab) {
+                    this.moveTab(this.draggedTab, this.tabs.indexOf(tab))
+                }
+                this.draggedTab = null
+            })
         }
+
+        // 새 탭 버튼 (기본 페이지 또는 설정된 게이트 열기)
+        const newTabEl = container.createDiv({ cls: 'gate-tab gate-tab-new' })
+        newTabEl.setAttr('aria-label', t('gate.newTab'))
+        setIcon(newTabEl, 'plus')
+        newTabEl.addEventListener('click', (e) => this.showNewTabMenu(e))
+    }
+
+    private showTabMenu(tab: GateTab, event: MouseEvent): void {
+        const menu = new Menu()
+
+        menu.addItem((item) =>
+            item
+                .setTitle(tab.pinned ? t('gate.unpinTab') : t('gate.pinTab'))
+                .setIcon(tab.pinned ? 'pin-off' : 'pin')
+                .onClick(() => this.togglePin(tab))
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(t('gate.duplicateTab'))
+                .setIcon('copy')
+                .onClick(() => this.openTab(tab.options, { url: tab.url, index: this.tabs.indexOf(tab) + 1 }))
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(t('gate.reload'))
+                .setIcon('refresh-ccw')
+                .onClick(() => tab.reload())
+        )
+        menu.addSeparator()
+        menu.addItem((item) =>
+            item
+                .setTitle(t('gate.closeTab'))
+                .setIcon('x')
+                .onClick(() => this.closeTab(tab))
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(t('gate.closeOtherTabs'))
+                .setDisabled(this.tabs.length === 1)
+                .onClick(() => {
+                    for (const other of this.tabs.filter((candidate) => candidate !== tab && !candidate.pinned)) {
+                        this.closeTab(other)
+                    }
+                })
+        )
+
+        menu.showAtMouseEvent(event)
     }
 
-    async handleAddressEnter(url: string) {
-        if (!url.startsWith('http')) {
-            url = 'https://' + url;
+    private showNewTabMenu(event: MouseEvent): void {
+        const menu = new Menu()
+
+        menu.addItem((item) =>
+            item
+                .setTitle(t('gate.newTab'))
+                .setIcon('plus')
+                .onClick(() => this.openTab(this.options))
+        )
+
+        const gates = Object.values(this.plugin.settings.gates)
+        if (gates.length > 0) {
+            menu.addSeparator()
+            for (const gate of gates) {
+                menu.addItem((item) => item.setTitle(gate.title).onClick(() => this.openTab(gate)))
+            }
         }
 
-        // Check if exists
-        const existing = this.plugin.findGateBy('url', url);
-        if (existing) {
-            this.navigateTo(existing.url);
-            new Notice(`Switched to ${existing.title}`);
+        menu.showAtMouseEvent(event)
+    }
+
+    /**
+     * 새 탭 열기
+     * @param options 탭이 사용할 게이트 옵션 (프로필, 사용자 에이전트, CSS/JS)
+     */
+    openTab(options: GateFrameOption, params: { url?: string; activate?: boolean; index?: number } = {}): GateTab {
+        const tab = new GateTab(options, { url: params.url })
+        const index = params.index ?? this.tabs.length
+        this.tabs.splice(Math.max(index, this.tabs.filter((candidate) => candidate.pinned).length), 0, tab)
+
+        this.mountTab(tab)
+
+        if (params.activate ?? true) {
+            this.activateTab(tab)
         } else {
-            // Create New Gate
-            const domain = new URL(url).hostname;
-            const newGate = normalizeGateOption({
-                id: Math.random().toString(36).substring(2, 15),
-                title: domain,
-                url: url,
-                icon: 'globe'
-            });
-            // We need to cast id as string if normalize expects it.
+            tab.setVisible(false)
+            this.renderTabBar()
+            this.app.workspace.requestSaveLayout()
+        }
+        return tab
+    }
 
-            // Actually generateUuid is private in main.ts. 
-            // Ideally we expose it or Duplicate logic.
-            newGate.id = Math.random().toString(36).substring(2, 10);
+    activateTab(tab: GateTab): void {
+        this.activeTab = tab
 
-            await this.plugin.addGate(newGate);
-            new Notice(`New Gate Created: ${domain}`);
+        // 복원된 탭은 처음 볼 때 프레임을 만듦
+        if (!tab.frame) {
+            this.mountTab(tab)
+        }
+        for (const candidate of this.tabs) {
+            candidate.setVisible(candidate === tab)
+        }
+
+        this.addressInput?.setValue(tab.url)
+        this.renderTabBar()
+        this.updateBookmarkButton()
+        this.updateBlockerButton()
+        this.findBar?.refresh()
+        this.app.workspace.requestSaveLayout()
+    }
+
+    closeTab(tab: GateTab): void {
+        const index = this.tabs.indexOf(tab)
+        if (index < 0) return
+
+        tab.unmount()
+        this.tabs.splice(index, 1)
 
-            // Refresh Tab bar
-            const bar = this.topBarEl.querySelector('.gate-tab-bar') as HTMLElement;
-            if (bar) this.renderTabBar(bar);
+        if (this.tabs.length === 0) {
+            this.openTab(this.options)
+            return
+        }
 
-            this.navigateTo(url);
+        if (this.activeTab === tab) {
+            this.activateTab(this.tabs[Math.min(index, this.tabs.length - 1)])
+        } else {
+            this.renderTabBar()
+            this.app.workspace.requestSaveLayout()
         }
     }
 
-    navigateTo(url: string) {
-        if (this.frame instanceof HTMLIFrameElement) {
-            this.frame.src = url;
+    /**
+     * 탭 순서 변경 (고정 탭은 항상 일반 탭보다 앞에 위치)
+     */
+    private moveTab(tab: GateTab, targetIndex: number): void {
+        this.tabs.splice(this.tabs.indexOf(tab), 1)
+        this.tabs.splice(targetIndex, 0, tab)
+        this.sortPinnedFirst()
+        this.renderTabBar()
+        this.app.workspace.requestSaveLayout()
+    }
+
+    private togglePin(tab: GateTab): void {
+        tab.pinned = !tab.pinned
+        this.sortPinnedFirst()
+        this.renderTabBar()
+        this.app.workspace.requestSaveLayout()
+    }
+
+    private sortPinnedFirst(): void {
+        this.tabs = [...this.tabs.filter((tab) => tab.pinned), ...this.tabs.filter((tab) => !tab.pinned)]
+    }
+
+    /**
+     * 주소창 입력 처리: URL이면 이동, 아니면 검색 엔진으로 검색
+     * 게이트 주소와 같으면 그 게이트의 탭으로 전환합니다. (새 게이트는 "게이트로 저장"으로만 만듦)
+     */
+    async handleAddressEnter(input: string) {
+        const target = resolveOmniboxInput(input, this.plugin.settings.omnibox);
+        if (!target) return;
+
+        const existing = target.type === 'url' ? this.plugin.findGateBy('url', target.url) : undefined;
+        if (existing) {
+            this.switchToGate(existing);
+            return;
+        }
+
+        this.addressInput?.setValue(target.url);
+        this.navigateTo(target.url);
+    }
+
+    private handleOmniboxSuggestion(suggestion: OmniboxSuggestion): void {
+        switch (suggestion.type) {
+            case 'input':
+                this.handleAddressEnter(suggestion.target.url);
+                break;
+            case 'gate':
+                this.switchToGate(suggestion.gate);
+                break;
+            case 'bookmark':
+            case 'history': {
+                const url = suggestion.type === 'bookmark' ? suggestion.bookmark.url : suggestion.entry.url;
+                this.addressInput?.setValue(url);
+                this.navigateTo(url);
+                break;
+            }
+        }
+    }
+
+    /**
+     * 이미 열린 탭이 있으면 전환, 없으면 게이트 설정으로 새 탭을 엶
+     */
+    private switchToGate(gate: GateFrameOption): void {
+        const existingTab = this.tabs.find((tab) => tab.options.id === gate.id);
+        if (existingTab) {
+            this.activateTab(existingTab);
         } else {
-            this.frame.loadURL(url);
+            this.openTab(gate);
         }
+        new Notice(t('gate.switchedTo', { title: gate.title }));
+    }
+
+    /**
+     * 현재 페이지를 새 게이트로 저장 (편집 창에서 확인 후 추가)
+     */
+    saveAsGate(): void {
+        const tab = this.activeTab;
+        if (!tab) return;
+
+        const gate = createEmptyGateOption();
+        gate.url = tab.url;
+        gate.title = tab.title || new URL(tab.url).hostname;
+        gate.profileKey = tab.options.profileKey;
+        new ModalEditGate(this.app, gate, async (result: GateFrameOption) => {
+            await this.plugin.addGate(result);
+            showSuccess(t('gate.created', { title: result.title }));
+        }).open();
+    }
+
+    navigateTo(url: string) {
+        this.activeTab?.navigateTo(url)
     }
 
     async onApplyText() {
         let text = '';
         if (this.frame instanceof HTMLIFrameElement) {
             // Cannot easily get selection from cross-origin iframe
-            new Notice("Cannot extract text from IFrame mode (Mobile/Restricted).");
+            new Notice(t('gate.iframeNoText'));
             return;
         } else {
             try {
@@ -1235,7 +1520,7 @@ ${sourceRefs}
         }
 
         if (!text || text.trim() === '') {
-            new Notice('No text selected in the browser.');
+            new Notice(t('gate.noSelection'));
             return;
         }
 
@@ -1283,8 +1568,8 @@ tags:
                 // 전체 노트 내용 생성: YAML + 제목 + 구분선 + 내용
                 const noteContent = `${yamlFrontmatter}# ${pageTitle}
 
-> 🔗 **Source:** [${siteName}](${currentUrl})
-> 📅 **Clipped:** ${fullDateTime}
+> 🔗 **${t('note.source')}:** [${siteName}](${currentUrl})
+> 📅 **${t('gate.clippedAt')}:** ${fullDateTime}
 
 ---
 
@@ -1293,7 +1578,7 @@ ${formattedText}
 
                 const file = await this.plugin.app.vault.create(fileName, noteContent);
                 await this.plugin.app.workspace.getLeaf('tab').openFile(file);
-                new Notice(`Created new note: ${fileName}`);
+                new Notice(t('gate.noteCreated', { name: fileName }));
             } catch (error) {
                 console.error('Error creating note with metadata:', error);
                 // Fallback: 메타데이터 없이 기본 노트 생성
@@ -1301,13 +1586,13 @@ ${formattedText}
                 const fileName = await this.getUniqueFileName(baseFileName);
                 const file = await this.plugin.app.vault.create(fileName, formattedText);
                 await this.plugin.app.workspace.getLeaf('tab').openFile(file);
-                new Notice('Created new note with text.');
+                new Notice(t('gate.noteCreatedPlain'));
             }
             return;
         }
 
         if (!activeView) {
-            new Notice('No active Markdown note found to insert text.');
+            new Notice(t('gate.noActiveNote'));
             return;
         }
 
@@ -1319,7 +1604,7 @@ ${formattedText}
             editor.replaceRange('\n\n' + formattedText, { line: lastLine, ch: 0 });
         }
 
-        new Notice('Text applied!');
+        new Notice(t('gate.textApplied'));
     }
 
     /**
@@ -1402,73 +1687,549 @@ ${formattedText}
         return newFileName;
     }
 
-    private createFrame(): void {
-        const onReady = () => {
-            if (!this.isFrameReady) {
-                this.isFrameReady = true
-                this.frameReadyCallbacks.forEach((callback) => callback())
+    /**
+     * 탭의 프레임을 만들고 주소창, 팝업, 창 이동 이벤트를 연결
+     */
+    private mountTab(tab: GateTab): void {
+        const frame = tab.mount(this.contentEl, this.frameDoc, this.useIframe)
+        tab.setVisible(tab === this.activeTab)
+        tab.onStateChange = () => this.app.workspace.requestSaveLayout()
+
+        if (this.useIframe) {
+            return
+        }
+
+        const webview = frame as WebviewTag
+
+        // Highlights - 페이지를 열 때마다 저장된 하이라이트를 다시 표시하고, 누르면 편집
+        const applyHighlights = () => getHighlightService()?.applyPageHighlights(webview, tab.url)
+        webview.addEventListener('did-finish-load', applyHighlights)
+        webview.addEventListener('did-navigate-in-page', (e) => {
+            if (e.isMainFrame) applyHighlights()
+        })
+        webview.addEventListener('console-message', (e) => {
+            if (e.message.startsWith(HIGHLIGHT_CLICK_PREFIX)) {
+                this.editHighlight(tab, e.message.substring(HIGHLIGHT_CLICK_PREFIX.length))
             }
+        })
+
+        // Find in page - 페이지 안에서 누른 Mod+F와 검색 결과
+        tab.onFindShortcut = () => this.openFindBar()
+
+        // Content blocker - 활성 탭의 차단 수를 상단 바에 표시
+        tab.onBlockedCountChange = () => {
+            if (tab === this.activeTab) this.updateBlockerButton()
         }
+        webview.addEventListener('found-in-page', (e) => this.findBar?.handleResult(webview, e.result))
+
+        // Popup Handling - OAuth URL은 같은 탭에서, 새 탭 링크는 새 탭으로, 나머지 팝업은 모달로 처리
+        webview.addEventListener('new-window', (e) => {
+            const { url, disposition } = e as unknown as { url: string; disposition: string }
+            if (!url) return;
+
+            // OAuth 제공자 URL 감지 (Google, Apple, Microsoft, etc.)
+            const oauthDomains = [
+                'accounts.google.com',
+                'accounts.youtube.com',
+                'appleid.apple.com',
+                'login.microsoftonline.com',
+                'login.live.com',
+                'github.com/login',
+                'api.twitter.com',
+                'facebook.com/dialog',
+                'facebook.com/v',
+            ];
+
+            const isOAuthUrl = oauthDomains.some(domain => url.includes(domain));
+
+            if (isOAuthUrl) {
+                // OAuth URL은 동일한 webview에서 직접 로드 (인앱 브라우저 방식)
+                // OAuth 완료 후 자동으로 원래 사이트로 리다이렉트됨
+                tab.navigateTo(url);
+                return;
+            }
 
-        if (this.useIframe) {
-            this.frame = createIframe(this.options, onReady)
+            // target="_blank" 링크와 Ctrl/Cmd+클릭은 같은 게이트 설정으로 새 탭에서 열기
+            if (disposition === 'foreground-tab' || disposition === 'background-tab') {
+                this.openTab(tab.options, { url, activate: disposition === 'foreground-tab', index: this.tabs.indexOf(tab) + 1 });
+                return;
+            }
+
+            // window.open() 팝업은 Obsidian 모달로 처리
+            new GatePopupModal(this.plugin.app, url, tab.options.profileKey).open();
+        });
+
+        webview.addEventListener('destroyed', () => {
+            // 뷰가 다른 창으로 옮겨지면 모든 탭의 프레임을 새 문서에 다시 만듦
+            if (this.frameDoc != this.contentEl.doc) {
+                this.frameDoc = this.contentEl.doc
+                this.remountTabs()
+            }
+        })
+
+        // Current URL Listener to update address bar
+        const onNavigate = (url: string) => {
+            tab.url = url
+            if (tab === this.activeTab) {
+                this.addressInput?.setValue(url)
+                this.updateBookmarkButton()
+            }
+            this.app.workspace.requestSaveLayout()
+            // tab.title은 아직 이전 페이지의 제목이므로 제목은 page-title-updated에서 기록
+            getHistoryStore()?.recordVisit(tab.options.id, url)
+        }
+        webview.addEventListener('did-navigate', (e) => onNavigate(e.url))
+        webview.addEventListener('did-navigate-in-page', (e) => {
+            if (e.isMainFrame) onNavigate(e.url)
+        })
+        webview.addEventListener('page-title-updated', (e) => {
+            tab.title = e.title
+            this.renderTabBar()
+            getHistoryStore()?.updateTitle(tab.options.id, tab.url, e.title)
+        })
+
+        // 본문 저장이 켜져 있으면 로드가 끝난 페이지의 텍스트를 기록에 저장
+        webview.addEventListener('did-stop-loading', async () => {
+            const store = getHistoryStore()
+            if (!store?.indexPageText) return
+            const url = tab.url
+            // 방문한 페이지를 바꾸지 않도록 사이트 규칙의 사전 스크립트는 실행하지 않음
+            const content = await ContentExtractor.extractPageContent(webview, { runPreScript: false })
+            if (content?.textContent) {
+                store.updateText(tab.options.id, url, content.textContent)
+            }
+        })
+    }
+
+    private showHighlightMenu(evt: MouseEvent): void {
+        const menu = new Menu()
+        for (const [color, { emoji }] of Object.entries(HIGHLIGHT_COLORS)) {
+            menu.addItem((item) =>
+                item
+                    .setTitle(`${emoji} ${t(`highlight.color.${color as HighlightColor}`)}`)
+                    .onClick(() => this.highlightSelection(color as HighlightColor))
+            )
+        }
+        menu.addSeparator()
+        menu.addItem((item) =>
+            item
+                .setTitle(t('highlight.withComment'))
+                .setIcon('message-square')
+                .onClick(() => this.highlightSelection(undefined, true))
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(t('highlight.openNote'))
+                .setIcon('file-text')
+                .onClick(() => this.openHighlightsNote())
+        )
+        menu.showAtMouseEvent(evt)
+    }
+
+    /**
+     * 선택한 텍스트를 하이라이트 (withComment면 메모 입력 후 저장)
+     */
+    async highlightSelection(color?: HighlightColor, withComment = false): Promise<void> {
+        const service = getHighlightService()
+        const tab = this.activeTab
+        if (!service || !tab?.isWebview) {
+            showError(t('highlight.unavailable'))
+            return
+        }
+
+        const webview = tab.frame as WebviewTag
+        const selector = await service.captureSelection(webview)
+        if (!selector) {
+            showError(t('highlight.noSelection'))
+            return
+        }
+
+        const save = async (highlightColor: HighlightColor, comment?: string) => {
+            await service.addHighlight(webview, tab.url, tab.title, selector, highlightColor, comment)
+            showSuccess(t('highlight.added'))
+        }
+
+        if (withComment) {
+            new HighlightModal({
+                app: this.app,
+                quote: selector.exact,
+                color: color ?? service.defaultColor,
+                isNew: true,
+                onSubmit: (result) => save(result.color, result.comment)
+            }).open()
         } else {
-            this.frame = createWebviewTag(this.options, onReady, this.frameDoc)
-
-            // Popup Handling - OAuth URL은 같은 webview에서, 일반 URL은 모달로 처리
-            this.frame.addEventListener('new-window', (e) => {
-                // @ts-ignore
-                const url = e.url as string;
-                if (!url) return;
-
-                // OAuth 제공자 URL 감지 (Google, Apple, Microsoft, etc.)
-                const oauthDomains = [
-                    'accounts.google.com',
-                    'accounts.youtube.com',
-                    'appleid.apple.com',
-                    'login.microsoftonline.com',
-                    'login.live.com',
-                    'github.com/login',
-                    'api.twitter.com',
-                    'facebook.com/dialog',
-                    'facebook.com/v',
-                ];
-
-                const isOAuthUrl = oauthDomains.some(domain => url.includes(domain));
-
-                if (isOAuthUrl) {
-                    // OAuth URL은 동일한 webview에서 직접 로드 (인앱 브라우저 방식)
-                    // OAuth 완료 후 자동으로 원래 사이트로 리다이렉트됨
-                    this.navigateTo(url);
-                    return;
+            await save(color ?? service.defaultColor)
+        }
+    }
+
+    private editHighlight(tab: GateTab, id: string): void {
+        const service = getHighlightService()
+        const highlight = service?.getHighlight(tab.url, id)
+        if (!service || !highlight) return
+
+        const webview = tab.frame as WebviewTag
+        new HighlightModal({
+            app: this.app,
+            quote: highlight.selector.exact,
+            color: highlight.color,
+            comment: highlight.comment,
+            isNew: false,
+            onSubmit: (result) => service.updateHighlight(webview, tab.url, id, result),
+            onDelete: () => service.removeHighlight(webview, tab.url, id)
+        }).open()
+    }
+
+    /**
+     * 현재 페이지의 하이라이트 노트 열기
+     */
+    async openHighlightsNote(): Promise<void> {
+        const file = this.activeTab ? getHighlightService()?.getNoteFile(this.activeTab.url) : null
+        if (!file) {
+            showError(t('highlight.noNote'))
+            return
+        }
+        await this.app.workspace.getLeaf('tab').openFile(file)
+    }
+
+    private showScreenshotMenu(evt: MouseEvent): void {
+        const menu = new Menu()
+        const items: [ScreenshotMode, string][] = [
+            ['viewport', 'monitor'],
+            ['region', 'crop'],
+            ['full', 'scroll-text']
+        ]
+        for (const [mode, icon] of items) {
+            menu.addItem((item) =>
+                item
+                    .setTitle(t(`screenshot.${mode}`))
+                    .setIcon(icon)
+                    .onClick(() => this.captureScreenshot(mode))
+            )
+        }
+        menu.showAtMouseEvent(evt)
+    }
+
+    /**
+     * 스크린샷을 첨부 파일로 저장하고 삽입 모드에 따라 클리핑 노트나 대상 노트에 임베드
+     */
+    async captureScreenshot(mode: ScreenshotMode): Promise<void> {
+        const tab = this.activeTab
+        if (!tab?.isWebview) {
+            showError(t('clip.desktopOnly'))
+            return
+        }
+
+        const clipping = this.plugin.settings.clipping
+        const targetView = this.insertMode === 'new' ? null : this.getTargetMarkdownView()
+        if (this.insertMode !== 'new' && !targetView?.file) {
+            showError(t('gate.noActiveNote'))
+            return
+        }
+
+        const webview = tab.frame as WebviewTag
+        // 영역 선택은 사용자가 드래그를 마친 뒤부터 진행 상태 표시
+        const loading = mode === 'region' ? null : showLoading(t('screenshot.capturing'))
+
+        try {
+            const data = await ScreenshotCapture.capture(webview, mode, clipping.screenshotFormat)
+            loading?.hide()
+            if (!data) {
+                if (mode !== 'region') showError(t('screenshot.failed'))
+                return
+            }
+
+            // 새 클리핑 노트는 아직 경로가 없으므로 클리핑 폴더를 기준으로 첨부 파일 위치 결정
+            const sourcePath = targetView?.file?.path ?? normalizePath(`${clipping.defaultFolder}/${tab.title || 'Screenshot'}.md`)
+            const filename = `${(tab.title || 'Screenshot').replace(/[\\/:*?"<>|#^[\]]/g, '-').substring(0, 50).trim()} ${moment().format('YYYYMMDDHHmmss')}.${clipping.screenshotFormat}`
+            const file = await this.app.vault.createBinary(await this.app.fileManager.getAvailablePathForAttachment(filename, sourcePath), data)
+
+            if (targetView) {
+                const embed = '!' + this.app.fileManager.generateMarkdownLink(file, sourcePath)
+                const editor = targetView.editor
+                if (this.insertMode === 'cursor') {
+                    editor.replaceSelection(embed)
+                } else {
+                    editor.replaceRange('\n\n' + embed, { line: editor.lineCount(), ch: 0 })
                 }
+                showSuccess(t('screenshot.saved', { path: file.path }))
+                return
+            }
 
-                // 일반 팝업은 Obsidian 모달로 처리
-                new GatePopupModal(this.plugin.app, url, this.options.profileKey).open();
-            });
+            const result = await this.clipService?.clipScreenshot(webview, this.currentGateState.id, '!' + this.app.fileManager.generateMarkdownLink(file, sourcePath))
+            if (result?.success && result.note) {
+                showSuccess(t('clip.done', { path: result.note.path }))
+            } else {
+                showError(result?.error || t('clip.failed'))
+            }
+        } catch (error) {
+            loading?.hide()
+            const errorMessage = error instanceof Error ? error.message : t('common.unknownError')
+            showError(t('screenshot.error', { error: errorMessage }))
+        }
+    }
+
+    /**
+     * 삽입 대상 노트 (게이트가 활성화되어 있으면 가장 최근의 마크다운 노트)
+     */
+    private getTargetMarkdownView(): MarkdownView | null {
+        const activeView = this.app.workspace.getActiveViewOfType(MarkdownView)
+        if (activeView) return activeView
 
-            this.frame.addEventListener('destroyed', () => {
+        const recent = this.app.workspace.getMostRecentLeaf()?.view
+        if (recent instanceof MarkdownView) return recent
 
-                if (this.frameDoc != this.contentEl.doc) {
-                    if (this.frame) {
-                        this.frame.remove()
-                    }
-                    this.frameDoc = this.contentEl.doc
-                    this.createFrame()
+        const leaf = this.app.workspace.getLeavesOfType('markdown')[0]
+        return leaf?.view instanceof MarkdownView ? leaf.view : null
+    }
+
+    /**
+     * 페이지 내 검색 바 열기 (모바일 iframe은 페이지에 접근할 수 없어 안내만 표시)
+     */
+    openFindBar(): void {
+        if (!this.findBar) {
+            new Notice(t('find.unavailable'))
+            return
+        }
+        this.findBar.show()
+    }
+
+    /**
+     * 현재 페이지 북마크 추가 (이미 있으면 편집)
+     */
+    openBookmarkModal(): void {
+        const store = getBookmarkStore()
+        const tab = this.activeTab
+        if (!store || !tab) return
+
+        const existing = store.findByUrl(tab.url)
+        new BookmarkModal({
+            app: this.app,
+            bookmark: existing ?? { url: tab.url, title: tab.title, folder: '', tags: [], read: false, gateId: tab.options.id },
+            isNew: !existing,
+            folders: store.getFolders(),
+            onSubmit: async (bookmark) => {
+                if (existing) {
+                    await store.update(existing, bookmark)
+                } else {
+                    await store.add(bookmark)
+                    showSuccess(t('bookmark.added'))
                 }
-            })
+            },
+            onDelete: existing ? () => store.remove(existing) : undefined
+        }).open()
+    }
+
+    private updateBookmarkButton(): void {
+        if (!this.bookmarkButton) return
+
+        const url = this.activeTab?.url
+        const bookmarked = Boolean(url && getBookmarkStore()?.findByUrl(url))
+        this.bookmarkButton.buttonEl.toggleClass('is-bookmarked', bookmarked)
+        this.bookmarkButton.setTooltip(bookmarked ? t('bookmark.editTitle') : t('bookmark.addTitle'))
+    }
+
+    private updateBlockerButton(): void {
+        if (!this.blockerButton) return
+
+        const blocker = getContentBlocker()
+        const tab = this.activeTab
+        const count = tab?.blockedCount ?? 0
+        const allowed = Boolean(tab && blocker?.isAllowlisted(tab.url, tab.allowlist))
+        const active = Boolean(blocker?.enabled) && !allowed
+
+        this.blockerButton.buttonEl.setAttr('data-count', active && count > 0 ? String(Math.min(count, 999)) : null)
+        this.blockerButton.buttonEl.toggleClass('is-disabled', !active)
+        this.blockerButton.setTooltip(active ? t('blocker.blockedCount', { count }) : t('blocker.inactive'))
+    }
+
+    private showBlockerMenu(evt: MouseEvent): void {
+        const blocker = getContentBlocker()
+        const tab = this.activeTab
+        if (!blocker || !tab) return
+
+        let hostname = ''
+        try {
+            hostname = new URL(tab.url).hostname
+        } catch {
+            // about:blank 등
+        }
+
+        const menu = new Menu()
+        menu.addItem((item) => item.setTitle(t('blocker.blockedCount', { count: tab.blockedCount })).setDisabled(true))
+        menu.addItem((item) => item.setTitle(t('blocker.filterCount', { count: blocker.filterCount })).setDisabled(true))
+        menu.addSeparator()
+
+        if (hostname) {
+            const allowed = blocker.isAllowlisted(tab.url, tab.allowlist)
+            menu.addItem((item) =>
+                item
+                    .setTitle(allowed ? t('blocker.blockOnSite', { site: hostname }) : t('blocker.allowOnSite', { site: hostname }))
+                    .setIcon(allowed ? 'shield' : 'shield-off')
+                    .onClick(() => this.toggleBlockerAllowlist(tab, hostname, !allowed))
+            )
+        }
+        menu.addItem((item) =>
+            item
+                .setTitle(t('blocker.reloadLists'))
+                .setIcon('refresh-cw')
+                .onClick(async () => {
+                    await blocker.load()
+                    showSuccess(t('blocker.listsReloaded', { count: blocker.filterCount }))
+                })
+        )
+        menu.showAtMouseEvent(evt)
+    }
+
+    /**
+     * 이 게이트의 허용 목록에 사이트 추가/제거 후 새로고침 (저장된 게이트면 설정에도 반영)
+     */
+    private async toggleBlockerAllowlist(tab: GateTab, hostname: string, allow: boolean): Promise<void> {
+        const current = tab.allowlist
+        const allowlist = allow
+            ? [...current, hostname]
+            : current.filter((site) => !getContentBlocker()?.isAllowlisted(tab.url, [site]))
+        const options = { ...tab.options, blockerAllowlist: allowlist }
+
+        if (this.plugin.settings.gates[options.id]) {
+            await this.plugin.addGate(options)
+        } else {
+            for (const candidate of this.tabs.filter((other) => other.options.id === options.id)) {
+                candidate.options = options
+            }
         }
 
-        this.contentEl.appendChild(this.frame as unknown as HTMLElement)
+        this.updateBlockerButton()
+        tab.reload()
+    }
+
+    /**
+     * 방문 기록 검색 모달 열기 (현재 탭의 게이트 기록부터 표시)
+     */
+    openHistorySearch(): void {
+        const store = getHistoryStore()
+        if (!store) return
+
+        new HistorySearchModal({
+            app: this.app,
+            store,
+            gateId: this.activeTab?.options.id,
+            getGateTitle: (gateId) => this.plugin.settings.gates[gateId]?.title ?? gateId,
+            onChoose: (entry, newTab) => {
+                const active = this.activeTab
+                if (active && !newTab && active.options.id === entry.gateId) {
+                    active.navigateTo(entry.url)
+                    this.addressInput?.setValue(entry.url)
+                    return
+                }
+                this.openTab(this.plugin.settings.gates[entry.gateId] ?? this.options, { url: entry.url })
+            }
+        }).open()
+    }
+
+    /**
+     * 열린 탭을 현재 페이지에서 다시 만듦 (창 이동, 세션/CSS/JS 변경 시)
+     */
+    private remountTabs(): void {
+        for (const tab of this.tabs) {
+            if (tab.frame) {
+                this.mountTab(tab)
+            }
+        }
+    }
+
+    /**
+     * Apply edited gate options without reloading Obsidian.
+     * Session, user agent and injected CSS/JS are fixed when a webview is created, so changing
+     * any of them rebuilds the frame; url and zoom changes are applied to the live frame.
+     * Every tab opened with the edited gate is updated, including tabs in other gates' views.
+     */
+    updateOptions(options: GateFrameOption): void {
+        if (this.options.id === options.id) {
+            this.options = options
+            // @ts-ignore - Obsidian 내부 API
+            this.leaf.updateHeader?.()
+        }
+
+        for (const tab of this.tabs.filter((candidate) => candidate.options.id === options.id)) {
+            const previous = tab.options
+            tab.options = options
+
+            if (previous.url !== options.url) {
+                tab.url = options.url
+                if (tab === this.activeTab) {
+                    this.addressInput?.setValue(options.url)
+                }
+            }
+
+            if (!tab.frame) {
+                continue
+            }
+
+            const needsNewFrame =
+                previous.profileKey !== options.profileKey || previous.userAgent !== options.userAgent || previous.css !== options.css || previous.js !== options.js
+
+            if (needsNewFrame) {
+                this.mountTab(tab)
+                continue
+            }
+
+            if (previous.url !== options.url) {
+                tab.navigateTo(options.url)
+            }
+
+            if (previous.zoomFactor !== options.zoomFactor) {
+                tab.setZoom(options.zoomFactor || 1)
+            }
+        }
+
+        this.renderTabBar()
     }
 
     onunload(): void {
-        if (this.frame) {
-            this.frame.remove()
+        for (const tab of this.tabs) {
+            tab.unmount()
         }
         super.onunload()
     }
 
+    /**
+     * 워크스페이스에 저장할 뷰 상태 (탭 목록, 활성 탭, 현재 URL)
+     * url은 활성 탭의 주소로, setViewState({ state: { url } })로 특정 페이지를 열 때도 사용합니다.
+     */
+    getState(): Record<string, unknown> {
+        return {
+            ...super.getState(),
+            url: this.currentGateState.url,
+            tabs: this.tabs.map((tab) => tab.getState()),
+            activeTab: this.activeTab ? this.tabs.indexOf(this.activeTab) : 0
+        }
+    }
+
+    async setState(state: unknown, result: ViewStateResult): Promise<void> {
+        const saved = (state ?? {}) as { url?: string; tabs?: GateTabState[]; activeTab?: number }
+        if (Array.isArray(saved.tabs) && saved.tabs.length > 0) {
+            this.restoreTabs(saved.tabs, saved.activeTab ?? 0)
+        } else if (typeof saved.url === 'string' && saved.url && saved.url !== this.currentGateState.url) {
+            this.navigateTo(saved.url)
+            this.addressInput?.setValue(saved.url)
+        }
+        await super.setState(state, result)
+    }
+
+    /**
+     * 저장된 탭 목록 복원 (활성 탭만 바로 불러오고 나머지는 선택할 때 불러옴)
+     */
+    private restoreTabs(states: GateTabState[], activeIndex: number): void {
+        for (const tab of this.tabs) {
+            tab.unmount()
+        }
+
+        // 삭제된 게이트의 탭은 이 뷰의 게이트 설정으로 엶
+        this.tabs = states.map((state) => new GateTab(this.plugin.settings.gates[state.gateId] ?? this.options, state))
+        this.sortPinnedFirst()
+        this.activateTab(this.tabs[Math.min(Math.max(activeIndex, 0), this.tabs.length - 1)])
+    }
+
     // ... Menu handlers
     onPaneMenu(menu: Menu, source: string): void {
         super.onPaneMenu(menu, source)
@@ -1476,16 +2237,53 @@ ${formattedText}
         // For brevity, keeping minimal default actions or just relying on UI.
         // Let's keep Reload and Home.
         menu.addItem((item) => {
-            item.setTitle('Reload')
+            item.setTitle(t('gate.reload'))
             item.setIcon('refresh-ccw')
-            item.onClick(() => {
-                if (this.frame instanceof HTMLIFrameElement) {
-                    this.frame.contentWindow?.location.reload()
-                } else {
-                    this.frame.reload()
-                }
-            })
+            item.onClick(() => this.activeTab?.reload())
         })
+
+        menu.addItem((item) =>
+            item
+                .setTitle(t('find.title'))
+                .setIcon('text-search')
+                .onClick(() => this.openFindBar())
+        )
+
+        menu.addItem((item) =>
+            item
+                .setTitle(t('gate.saveAsGate'))
+                .setIcon('door-open')
+                .onClick(() => this.saveAsGate())
+        )
+
+        menu.addItem((item) =>
+            item
+                .setTitle(t('history.search'))
+                .setIcon('history')
+                .onClick(() => this.openHistorySearch())
+        )
+
+        // 확대 비율은 탭별로 저장되어 다시 열 때 복원됨
+        if (!this.useIframe) {
+            menu.addItem((item) =>
+                item
+                    .setTitle(t('gate.zoomIn'))
+                    .setIcon('zoom-in')
+                    .onClick(() => this.activeTab?.setZoom(this.activeTab.getZoom() + 0.1))
+            )
+            menu.addItem((item) =>
+                item
+                    .setTitle(t('gate.zoomOut'))
+                    .setIcon('zoom-out')
+                    .onClick(() => this.activeTab?.setZoom(this.activeTab.getZoom() - 0.1))
+            )
+            menu.addItem((item) =>
+                item
+                    .setTitle(t('gate.zoomReset'))
+                    .setIcon('search')
+                    .onClick(() => this.activeTab?.setZoom(this.activeTab.options.zoomFactor || 1))
+            )
+        }
     }
 
     getViewType(): string {
@@ -1501,11 +2299,7 @@ ${formattedText}
     }
 
     onFrameReady(callback: Function) {
-        if (this.isFrameReady) {
-            callback()
-        } else {
-            this.frameReadyCallbacks.push(callback)
-        }
+        this.activeTab?.onFrameReady(() => callback())
     }
 
     async setUrl(url: string) {
@@ -2,6 +2,7 @@ import { App, Modal, Setting } from 'obsidian'
 import { createEmptyGateOption } from './fns/createEmptyGateOption'
 import { normalizeGateOption } from './fns/normalizeGateOption'
 import { GateFrameOption } from './GateOptions'
+import { t } from './i18n'
 
 export class ModalInsertLink extends Modal {
     onSubmit: (result: GateFrameOption) => void
@@ -11,7 +12,7 @@ export class ModalInsertLink extends Modal {
     }
 
     onOpen() {
-        this.titleEl.setText('Insert Link')
+        this.titleEl.setText(t('insertLink.title'))
         this.createFormInsertLink()
     }
 
@@ -32,7 +33,7 @@ export class ModalInsertLink extends Modal {
             )
 
         new Setting(this.contentEl)
-            .setName('Title')
+            .setName(t('note.title'))
             .setClass('open-gate--form-field')
             .addText((text) =>
                 text.onChange(async (value) => {
@@ -42,7 +43,7 @@ export class ModalInsertLink extends Modal {
 
         new Setting(this.contentEl).addButton((btn) =>
             btn
-                .setButtonText('Insert Link')
+                .setButtonText(t('insertLink.title'))
                 .setCta()
                 .onClick(async () => {
                     gateOptions = normalizeGateOption(gateOptions)
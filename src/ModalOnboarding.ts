@@ -1,6 +1,7 @@
 import { App, Modal } from 'obsidian'
 import { createFormEditGate } from './fns/createFormEditGate'
 import { GateFrameOption } from './GateOptions'
+import { t } from './i18n'
 
 export class ModalOnBoarding extends Modal {
     gateOptions: GateFrameOption
@@ -13,13 +14,13 @@ export class ModalOnBoarding extends Modal {
 
     onOpen() {
         const { contentEl } = this
-        contentEl.createEl('h3', { text: 'Welcome to Easy Gate' })
+        contentEl.createEl('h3', { text: t('onboarding.title') })
         contentEl.createEl('p', {
-            text: 'Easy Gate is a plugin that allows you to embed any website in Obsidian. You will never have to leave Obsidian again!'
+            text: t('onboarding.intro')
         })
 
         contentEl.createEl('p', {
-            text: 'If you need help, please visit our YouTube channel for tutorials.'
+            text: t('onboarding.help')
         })
 
         contentEl.createEl('a', {
@@ -29,7 +30,7 @@ export class ModalOnBoarding extends Modal {
         })
 
         contentEl.createEl('p', {
-            text: 'But now you have to create your first gate.'
+            text: t('onboarding.createFirst')
         })
 
         createFormEditGate(contentEl, this.gateOptions, (result) => {
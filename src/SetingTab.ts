@@ -1,10 +1,33 @@
-import { App, PluginSettingTab, Setting, Platform, Notice, TextComponent, ButtonComponent } from 'obsidian'
+import { App, PluginSettingTab, Setting, Platform, Notice, TextComponent, ButtonComponent, DropdownComponent, Menu } from 'obsidian'
 import OpenGatePlugin from './main'
 import { ModalEditGate } from './ModalEditGate'
 import { createEmptyGateOption } from './fns/createEmptyGateOption'
 import { GateFrameOption } from './GateOptions'
-import { AI_PROVIDERS, AIProviderType, SavedPrompt } from './ai/types'
-import { getAIService } from './ai'
+import { AI_PROVIDERS, AIProviderType, AnalysisTemplate, SavedPrompt, SiteRule } from './ai/types'
+import { getAIService, hasProviderCredentials } from './ai'
+import { BUILT_IN_TEMPLATES, createEmptyTemplate, getTemplates, loadTemplatesFromVault, upsertTemplates } from './ai/TemplateRegistry'
+import { createEmptySiteRule, exportSiteRules, mergeSiteRules } from './clipping/SiteRules'
+import { NOTE_TEMPLATE_VARIABLES } from './clipping/NoteRenderer'
+import { SiteRuleModal } from './modals/SiteRuleModal'
+import { SiteRulesImportModal } from './modals/SiteRulesImportModal'
+import { TemplateModal } from './modals/TemplateModal'
+import { MessageKey, SUPPORTED_LOCALES, t, UILanguageSetting } from './i18n'
+import { getHistoryStore } from './history'
+import { DEFAULT_BOOKMARK_SETTINGS } from './bookmarks/types'
+import { DEFAULT_HIGHLIGHT_SETTINGS, HIGHLIGHT_COLORS, HighlightColor } from './highlights/types'
+import { DEFAULT_OMNIBOX_SETTINGS, DEFAULT_SEARCH_ENGINES, SearchEngine } from './omnibox/types'
+import { SearchEngineModal } from './modals/SearchEngineModal'
+import { getContentBlocker, KNOWN_FILTER_LISTS } from './blocker'
+import { showError, showLoading, showSuccess } from './ui'
+import { createProfile, createProfileBadge, DEFAULT_PROFILE_KEY, GateProfile, getProfileManager, ProfileDataType } from './profiles'
+import { ProfileModal } from './modals/ProfileModal'
+import { createEmptyRoutingRule, RoutingOverrideModifier, RoutingRule } from './routing'
+import { RoutingRuleModal } from './modals/RoutingRuleModal'
+import { ExportBundleModal } from './modals/ExportBundleModal'
+import { ImportBundleModal } from './modals/ImportBundleModal'
+import { BundleImportResult, GateBundleSource } from './bundle'
+import { DEFAULT_GATE_FILE_SETTINGS, getGateFileLoader } from './gateFiles'
+import { GateFileDiagnosticsModal } from './modals/GateFileDiagnosticsModal'
 
 export class SettingTab extends PluginSettingTab {
     plugin: OpenGatePlugin
@@ -29,7 +52,7 @@ export class SettingTab extends PluginSettingTab {
         if (Platform.isMobileApp) {
             containerEl
                 .createEl('div', {
-                    text: 'On mobile, some websites may not work. It is a limitation of Obsidian Mobile. Please use Obsidian Desktop instead. Follow me on Twitter to get the latest updates: ',
+                    text: t('settings.mobileWarning'),
                     cls: 'open-gate-mobile-warning'
                 })
                 .createEl('a', {
@@ -39,15 +62,46 @@ export class SettingTab extends PluginSettingTab {
                 })
         }
 
+        // ============================
+        // General Section
+        // ============================
+        containerEl.createEl('h2', { text: t('settings.general') })
+
+        new Setting(containerEl)
+            .setName(t('settings.uiLanguage'))
+            .setDesc(t('settings.uiLanguageDesc'))
+            .addDropdown((dropdown) => {
+                dropdown.addOption('auto', t('settings.uiLanguageAuto'))
+                for (const locale of SUPPORTED_LOCALES) {
+                    dropdown.addOption(locale.code, locale.name)
+                }
+                dropdown.setValue(this.plugin.settings.uiLanguage)
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.uiLanguage = value as UILanguageSetting
+                    await this.plugin.saveSettings()
+                    this.display()
+                })
+            })
+
         // ============================
         // Gates Section
         // ============================
-        containerEl.createEl('h2', { text: '🌐 Gates' })
+        containerEl.createEl('h2', { text: t('settings.gates') })
 
-        containerEl.createEl('button', { text: 'New gate', cls: 'mod-cta' }).addEventListener('click', () => {
+        containerEl.createEl('button', { text: t('settings.newGate'), cls: 'mod-cta' }).addEventListener('click', () => {
             new ModalEditGate(this.app, createEmptyGateOption(), this.updateGate.bind(this)).open()
         })
 
+        // 게이트 묶음 내보내기/가져오기 (팀원과 같은 게이트 구성 공유)
+        const exportButton = containerEl.createEl('button', { text: t('settings.exportGates') })
+        exportButton.disabled = Object.keys(this.plugin.settings.gates).length === 0
+        exportButton.addEventListener('click', () => {
+            new ExportBundleModal({ app: this.app, source: this.getBundleSource(), folder: 'Easy Gate/Bundles' }).open()
+        })
+        containerEl.createEl('button', { text: t('settings.importGates') }).addEventListener('click', () => {
+            new ImportBundleModal({ app: this.app, current: this.getBundleSource(), onImport: (result) => this.importBundle(result) }).open()
+        })
+
         containerEl.createEl('hr')
 
         const settingContainerEl = containerEl.createDiv('setting-container')
@@ -63,20 +117,65 @@ export class SettingTab extends PluginSettingTab {
 
             new Setting(gateEl)
                 .setName(gate.title)
-                .setDesc(gate.url)
+                .setDesc(gate.sourcePath ? `${gate.url} · ${t('settings.gateFromFile', { path: gate.sourcePath })}` : gate.url)
                 .addButton((button) => {
-                    button.setButtonText('Delete').onClick(async () => {
+                    button.setButtonText(t('common.delete')).onClick(async () => {
+                        // 파일로 정의한 게이트는 파일을 휴지통으로 옮기므로 확인
+                        if (gate.sourcePath && !confirm(t('settings.deleteGateFileConfirm', { path: gate.sourcePath }))) return
                         await this.plugin.removeGate(gateId)
                         gateEl.remove()
                     })
                 })
                 .addButton((button) => {
-                    button.setButtonText('Edit').onClick(() => {
+                    button.setButtonText(t('common.edit')).onClick(() => {
                         new ModalEditGate(this.app, gate, this.updateGate.bind(this)).open()
                     })
                 })
         }
 
+        this.displayGateFileSettings(containerEl)
+
+        // ============================
+        // Profiles Section
+        // ============================
+        this.displayProfileSettings(containerEl)
+
+        // ============================
+        // Link Routing Section
+        // ============================
+        this.displayRoutingSettings(containerEl)
+
+        // ============================
+        // Address Bar Section
+        // ============================
+        this.displayOmniboxSettings(containerEl)
+
+        // ============================
+        // Bookmarks Section
+        // ============================
+        this.displayBookmarkSettings(containerEl)
+
+        // ============================
+        // Highlights Section (webview에 스크립트를 실행하므로 데스크톱 전용)
+        // ============================
+        if (!Platform.isMobileApp) {
+            this.displayHighlightSettings(containerEl)
+        }
+
+        // ============================
+        // History Section (webview 이벤트로 기록하므로 데스크톱 전용)
+        // ============================
+        if (!Platform.isMobileApp) {
+            this.displayHistorySettings(containerEl)
+        }
+
+        // ============================
+        // Content Blocker Section (webview 세션 요청을 거르므로 데스크톱 전용)
+        // ============================
+        if (!Platform.isMobileApp) {
+            this.displayContentBlockerSettings(containerEl)
+        }
+
         // ============================
         // AI Settings Section (v2.0)
         // ============================
@@ -87,24 +186,10 @@ export class SettingTab extends PluginSettingTab {
         // ============================
         // Help Section
         // ============================
-        containerEl.createEl('h2', { text: '❓ Help' })
-
-        containerEl.createEl('small', {
-            attr: {
-                style: 'display: block; margin-bottom: 5px'
-            },
-            text: 'When you delete or edit a gate, you need to reload Obsidian to see the changes.'
-        })
-
-        containerEl.createEl('small', {
-            attr: {
-                style: 'display: block; margin-bottom: 1em;'
-            },
-            text: `To reload Obsidian, you can use the menu "view -> Force reload" or "Reload App" in the command palette.`
-        })
+        containerEl.createEl('h2', { text: t('settings.help') })
 
         new Setting(containerEl)
-            .setName('Follow me on Twitter')
+            .setName(t('settings.followTwitter'))
             .setDesc('@reallygood83')
             .addButton((button) => {
                 button.setCta()
@@ -120,11 +205,621 @@ export class SettingTab extends PluginSettingTab {
             })
     }
 
+    private getBundleSource(): GateBundleSource {
+        return {
+            gates: this.plugin.settings.gates,
+            profiles: this.plugin.settings.profiles,
+            siteRules: this.plugin.settings.clipping.siteRules,
+            templates: this.plugin.settings.ai.templates
+        }
+    }
+
+    /**
+     * 가져오기 미리보기에서 고른 결과 반영 (게이트는 열려 있는 뷰에도 바로 적용)
+     */
+    private async importBundle(result: BundleImportResult): Promise<void> {
+        this.plugin.settings.profiles.push(...result.profiles)
+        this.plugin.settings.clipping.siteRules = result.siteRules
+        this.plugin.settings.ai.templates = result.templates
+        for (const gate of result.gates) {
+            await this.plugin.addGate(gate)
+        }
+        await this.plugin.saveSettings()
+        showSuccess(t('bundleImport.done', { added: result.added, replaced: result.replaced, skipped: result.skipped }))
+        this.display()
+    }
+
+    /**
+     * 게이트 파일 설정 렌더링 (볼트 폴더의 Markdown 파일을 게이트로 불러오기)
+     */
+    private displayGateFileSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: t('settings.gateFiles') })
+
+        new Setting(containerEl)
+            .setName(t('settings.gateFilesEnabled'))
+            .setDesc(t('settings.gateFilesEnabledDesc'))
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.gateFiles.enabled).onChange(async (value) => {
+                    this.plugin.settings.gateFiles.enabled = value
+                    await this.plugin.saveSettings()
+                    this.display()
+                })
+            )
+
+        if (!this.plugin.settings.gateFiles.enabled) return
+
+        new Setting(containerEl)
+            .setName(t('settings.gateFilesFolder'))
+            .setDesc(t('settings.gateFilesFolderDesc'))
+            .addText((text) => {
+                text.setPlaceholder(DEFAULT_GATE_FILE_SETTINGS.folder)
+                text.setValue(this.plugin.settings.gateFiles.folder)
+                text.onChange(async (value) => {
+                    this.plugin.settings.gateFiles.folder = value.trim() || DEFAULT_GATE_FILE_SETTINGS.folder
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        const loader = getGateFileLoader()
+        if (!loader) return
+
+        const errorCount = loader.getDiagnostics().length
+        new Setting(containerEl)
+            .setName(t('settings.gateFilesStatus'))
+            .setDesc(t('settings.gateFilesStatusDesc', { loaded: loader.getLoadedCount(), errors: errorCount }))
+            .addButton((button) => {
+                button.setButtonText(t('settings.gateFilesDiagnostics'))
+                if (errorCount > 0) button.setWarning()
+                button.onClick(() => {
+                    new GateFileDiagnosticsModal({ app: this.app, loader }).open()
+                })
+            })
+    }
+
+    /**
+     * 프로필 설정 섹션 렌더링 (이름/색상 편집, 세션 데이터 정리, 복제/삭제)
+     */
+    private displayProfileSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.profiles') })
+        containerEl.createEl('p', { text: t('settings.profilesDesc'), cls: 'setting-item-description' })
+
+        const manager = getProfileManager()
+        const profiles = this.plugin.settings.profiles
+        const gates = Object.values(this.plugin.settings.gates)
+
+        profiles.forEach((profile, i) => {
+            const profileGates = gates.filter((gate) => (gate.profileKey || DEFAULT_PROFILE_KEY) === profile.key)
+            const setting = new Setting(containerEl).setName(profile.name).setDesc(t('settings.profileGates', { count: profileGates.length }))
+            setting.nameEl.prepend(createProfileBadge(setting.nameEl, profile))
+
+            // 세션 데이터는 데스크톱 webview에만 있음
+            if (manager?.canManageData) {
+                setting.addButton((button) => {
+                    button.setIcon('bar-chart-2')
+                    button.setTooltip(t('settings.profileUsage'))
+                    button.onClick(async () => {
+                        const usage = await manager.getUsage(profile.key)
+                        if (!usage) return
+                        setting.setDesc(
+                            t('settings.profileUsageDesc', {
+                                gates: profileGates.length,
+                                cookies: usage.cookies,
+                                sites: usage.sites,
+                                cache: formatBytes(usage.cacheBytes)
+                            })
+                        )
+                    })
+                })
+                setting.addButton((button) => {
+                    button.setIcon('eraser')
+                    button.setTooltip(t('settings.profileClear'))
+                    button.onClick((evt) => this.showClearProfileMenu(profile, evt))
+                })
+            }
+
+            setting
+                .addButton((button) => {
+                    button.setIcon('pencil')
+                    button.setTooltip(t('common.edit'))
+                    button.onClick(() => this.openProfileModal(profile, (updated) => (profiles[i] = updated)))
+                })
+                .addButton((button) => {
+                    button.setIcon('copy')
+                    button.setTooltip(t('settings.profileDuplicate'))
+                    button.onClick(() => this.duplicateProfile(profile))
+                })
+                .addButton((button) => {
+                    button.setIcon('trash')
+                    button.setTooltip(t('common.delete'))
+                    button.setDisabled(profile.key === DEFAULT_PROFILE_KEY)
+                    button.onClick(() => this.deleteProfile(profile))
+                })
+        })
+
+        new Setting(containerEl).addButton((button) => {
+            button.setButtonText(t('settings.addProfile'))
+            button.onClick(() => {
+                const profile = createProfile('', 'blue', profiles)
+                this.openProfileModal(profile, (created) => profiles.push(created))
+            })
+        })
+    }
+
+    private openProfileModal(profile: GateProfile, apply: (profile: GateProfile) => void): void {
+        new ProfileModal({
+            app: this.app,
+            profile,
+            onSubmit: async (updated) => {
+                apply(updated)
+                await this.plugin.saveSettings()
+                this.display()
+            }
+        }).open()
+    }
+
+    private showClearProfileMenu(profile: GateProfile, evt: MouseEvent): void {
+        const items: [MessageKey, ProfileDataType[]][] = [
+            ['settings.profileClearCookies', ['cookies']],
+            ['settings.profileClearStorage', ['storage']],
+            ['settings.profileClearCache', ['cache']],
+            ['settings.profileClearAll', ['cookies', 'storage', 'cache']]
+        ]
+
+        const menu = new Menu()
+        for (const [key, types] of items) {
+            menu.addItem((item) =>
+                item.setTitle(t(key)).onClick(async () => {
+                    if (!confirm(t('settings.profileClearConfirm', { item: t(key), name: profile.name }))) return
+                    try {
+                        await getProfileManager()?.clearData(profile.key, types)
+                        showSuccess(t('settings.profileCleared', { name: profile.name }))
+                    } catch (error) {
+                        showError(t('settings.profileDataFailed', { error: error instanceof Error ? error.message : String(error) }))
+                    }
+                })
+            )
+        }
+        menu.showAtMouseEvent(evt)
+    }
+
+    /**
+     * 프로필 복제 - 새 세션을 비운 뒤 원본 쿠키를 복사 (로그인 상태 유지)
+     */
+    private async duplicateProfile(profile: GateProfile): Promise<void> {
+        const profiles = this.plugin.settings.profiles
+        const copy = createProfile(t('settings.profileCopyName', { name: profile.name }), profile.color, profiles)
+        try {
+            await getProfileManager()?.copyData(profile.key, copy.key)
+        } catch (error) {
+            showError(t('settings.profileDataFailed', { error: error instanceof Error ? error.message : String(error) }))
+        }
+
+        profiles.push(copy)
+        await this.plugin.saveSettings()
+        showSuccess(t('settings.profileDuplicated', { name: copy.name }))
+        this.display()
+    }
+
+    /**
+     * 프로필 삭제 - 세션 데이터를 지우고, 쓰던 게이트는 기본 프로필로 옮김
+     */
+    private async deleteProfile(profile: GateProfile): Promise<void> {
+        const gates = Object.values(this.plugin.settings.gates).filter((gate) => gate.profileKey === profile.key)
+        if (!confirm(t('settings.profileDeleteConfirm', { name: profile.name, count: gates.length }))) return
+
+        try {
+            await getProfileManager()?.clearData(profile.key, ['cookies', 'storage', 'cache'])
+        } catch (error) {
+            showError(t('settings.profileDataFailed', { error: error instanceof Error ? error.message : String(error) }))
+        }
+
+        for (const gate of gates) {
+            await this.plugin.addGate({ ...gate, profileKey: DEFAULT_PROFILE_KEY })
+        }
+        this.plugin.settings.profiles = this.plugin.settings.profiles.filter((candidate) => candidate.key !== profile.key)
+        await this.plugin.saveSettings()
+        this.display()
+    }
+
+    /**
+     * 링크 라우팅 설정 섹션 렌더링 (규칙 목록은 위에서부터 먼저 일치하는 규칙 사용)
+     */
+    private displayRoutingSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.routing') })
+        const routing = this.plugin.settings.routing
+        const gates = this.plugin.settings.gates
+
+        new Setting(containerEl)
+            .setName(t('settings.routingEnabled'))
+            .setDesc(t('settings.routingEnabledDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(routing.enabled)
+                toggle.onChange(async (value) => {
+                    routing.enabled = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.routingModifier'))
+            .setDesc(t('settings.routingModifierDesc'))
+            .addDropdown((dropdown) => {
+                dropdown.addOption('Alt', Platform.isMacOS ? 'Option' : 'Alt')
+                dropdown.addOption('Shift', 'Shift')
+                dropdown.addOption('Mod', Platform.isMacOS ? 'Cmd' : 'Ctrl')
+                dropdown.setValue(routing.overrideModifier)
+                dropdown.onChange(async (value) => {
+                    routing.overrideModifier = value as RoutingOverrideModifier
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        containerEl.createEl('h3', { text: t('settings.routingRules') })
+        containerEl.createEl('p', { text: t('settings.routingRulesDesc'), cls: 'setting-item-description' })
+
+        routing.rules.forEach((rule, i) => {
+            const gate = gates[rule.gateId]
+            const target = gate ? gate.title : t('settings.routingMissingGate')
+            new Setting(containerEl)
+                .setName(rule.matchType === 'regex' ? `/${rule.pattern}/` : rule.pattern)
+                .setDesc(rule.position ? `→ ${target} (${t(`gateForm.${rule.position}`)})` : `→ ${target}`)
+                .addToggle((toggle) => {
+                    toggle.setTooltip(t('settings.enabled'))
+                    toggle.setValue(rule.enabled)
+                    toggle.onChange(async (value) => {
+                        rule.enabled = value
+                        await this.plugin.saveSettings()
+                    })
+                })
+                .addButton((button) => {
+                    button.setIcon('arrow-up')
+                    button.setTooltip(t('settings.moveUp'))
+                    button.setDisabled(i === 0)
+                    button.onClick(() => this.moveRoutingRule(i, i - 1))
+                })
+                .addButton((button) => {
+                    button.setIcon('arrow-down')
+                    button.setTooltip(t('settings.moveDown'))
+                    button.setDisabled(i === routing.rules.length - 1)
+                    button.onClick(() => this.moveRoutingRule(i, i + 1))
+                })
+                .addButton((button) => {
+                    button.setIcon('pencil')
+                    button.setTooltip(t('common.edit'))
+                    button.onClick(() => this.openRoutingRuleModal(rule, (updated) => (routing.rules[i] = updated)))
+                })
+                .addButton((button) => {
+                    button.setIcon('trash')
+                    button.setTooltip(t('common.delete'))
+                    button.onClick(async () => {
+                        routing.rules.splice(i, 1)
+                        await this.plugin.saveSettings()
+                        this.display()
+                    })
+                })
+        })
+
+        new Setting(containerEl).addButton((button) => {
+            button.setButtonText(t('settings.addRoutingRule'))
+            button.onClick(() => this.openRoutingRuleModal(createEmptyRoutingRule(), (created) => routing.rules.push(created)))
+        })
+    }
+
+    private openRoutingRuleModal(rule: RoutingRule, apply: (rule: RoutingRule) => void): void {
+        new RoutingRuleModal({
+            app: this.app,
+            rule,
+            gates: Object.values(this.plugin.settings.gates),
+            onSubmit: async (updated) => {
+                apply(updated)
+                await this.plugin.saveSettings()
+                this.display()
+            }
+        }).open()
+    }
+
+    private async moveRoutingRule(from: number, to: number): Promise<void> {
+        const rules = this.plugin.settings.routing.rules
+        const [rule] = rules.splice(from, 1)
+        rules.splice(to, 0, rule)
+        await this.plugin.saveSettings()
+        this.display()
+    }
+
+    /**
+     * 주소창 설정 섹션 렌더링 (기본 검색 엔진, 검색 엔진 목록, 입력 추천)
+     */
+    private displayOmniboxSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.omnibox') })
+        const omnibox = this.plugin.settings.omnibox
+
+        new Setting(containerEl)
+            .setName(t('settings.defaultSearchEngine'))
+            .setDesc(t('settings.defaultSearchEngineDesc'))
+            .addDropdown((dropdown) => {
+                omnibox.engines.forEach((engine) => dropdown.addOption(engine.id, engine.name))
+                dropdown.setValue(omnibox.defaultEngine)
+                dropdown.onChange(async (value) => {
+                    omnibox.defaultEngine = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.omniboxSuggestions'))
+            .setDesc(t('settings.omniboxSuggestionsDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(omnibox.showSuggestions)
+                toggle.onChange(async (value) => {
+                    omnibox.showSuggestions = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        containerEl.createEl('h3', { text: t('settings.searchEngines') })
+        omnibox.engines.forEach((engine, i) => {
+            new Setting(containerEl)
+                .setName(engine.keyword ? `${engine.name} (${engine.keyword})` : engine.name)
+                .setDesc(engine.url)
+                .addButton((button) => {
+                    button.setIcon('pencil')
+                    button.setTooltip(t('common.edit'))
+                    button.onClick(() => this.openSearchEngineModal(engine, (updated) => (omnibox.engines[i] = updated)))
+                })
+                .addButton((button) => {
+                    button.setIcon('trash')
+                    button.setTooltip(t('common.delete'))
+                    button.setDisabled(omnibox.engines.length <= 1)
+                    button.onClick(async () => {
+                        omnibox.engines.splice(i, 1)
+                        if (omnibox.defaultEngine === engine.id) {
+                            omnibox.defaultEngine = omnibox.engines[0].id
+                        }
+                        await this.plugin.saveSettings()
+                        this.display()
+                    })
+                })
+        })
+
+        new Setting(containerEl)
+            .addButton((button) => {
+                button.setButtonText(t('settings.addSearchEngine'))
+                button.onClick(() => {
+                    const engine = { id: Math.random().toString(36).substring(2, 10), name: '', keyword: '', url: '' }
+                    this.openSearchEngineModal(engine, (created) => omnibox.engines.push(created))
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText(t('settings.resetSearchEngines'))
+                button.onClick(async () => {
+                    omnibox.engines = DEFAULT_SEARCH_ENGINES.map((engine) => ({ ...engine }))
+                    omnibox.defaultEngine = DEFAULT_OMNIBOX_SETTINGS.defaultEngine
+                    await this.plugin.saveSettings()
+                    this.display()
+                })
+            })
+    }
+
+    private openSearchEngineModal(engine: SearchEngine, apply: (engine: SearchEngine) => void): void {
+        new SearchEngineModal({
+            app: this.app,
+            engine,
+            onSubmit: async (updated) => {
+                apply(updated)
+                await this.plugin.saveSettings()
+                this.display()
+            }
+        }).open()
+    }
+
+    /**
+     * 북마크 설정 섹션 렌더링
+     */
+    private displayBookmarkSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.bookmarks') })
+
+        new Setting(containerEl)
+            .setName(t('settings.bookmarksFile'))
+            .setDesc(t('settings.bookmarksFileDesc'))
+            .addText((text) => {
+                text.setPlaceholder(DEFAULT_BOOKMARK_SETTINGS.filePath)
+                text.setValue(this.plugin.settings.bookmarks.filePath)
+                text.onChange(async (value) => {
+                    this.plugin.settings.bookmarks.filePath = value.trim() || DEFAULT_BOOKMARK_SETTINGS.filePath
+                    await this.plugin.saveSettings()
+                })
+            })
+    }
+
+    /**
+     * 하이라이트 설정 섹션 렌더링
+     */
+    private displayHighlightSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.highlights') })
+        const highlights = this.plugin.settings.highlights
+
+        new Setting(containerEl)
+            .setName(t('settings.highlightsEnabled'))
+            .setDesc(t('settings.highlightsEnabledDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(highlights.enabled)
+                toggle.onChange(async (value) => {
+                    highlights.enabled = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.highlightsFolder'))
+            .setDesc(t('settings.highlightsFolderDesc'))
+            .addText((text) => {
+                text.setPlaceholder(DEFAULT_HIGHLIGHT_SETTINGS.folder)
+                text.setValue(highlights.folder)
+                text.onChange(async (value) => {
+                    highlights.folder = value.trim() || DEFAULT_HIGHLIGHT_SETTINGS.folder
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl).setName(t('settings.highlightsDefaultColor')).addDropdown((dropdown) => {
+            for (const [color, { emoji }] of Object.entries(HIGHLIGHT_COLORS)) {
+                dropdown.addOption(color, `${emoji} ${t(`highlight.color.${color as HighlightColor}`)}`)
+            }
+            dropdown.setValue(highlights.defaultColor)
+            dropdown.onChange(async (value) => {
+                highlights.defaultColor = value as HighlightColor
+                await this.plugin.saveSettings()
+            })
+        })
+    }
+
+    /**
+     * 콘텐츠 차단 설정 섹션 렌더링 (필터 목록 경로, 요소 숨김, 공개 목록 받기)
+     */
+    private displayContentBlockerSettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.contentBlocker') })
+        const contentBlocker = this.plugin.settings.contentBlocker
+
+        new Setting(containerEl)
+            .setName(t('settings.contentBlockerEnabled'))
+            .setDesc(t('settings.contentBlockerEnabledDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(contentBlocker.enabled)
+                toggle.onChange(async (value) => {
+                    contentBlocker.enabled = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.contentBlockerCosmetic'))
+            .setDesc(t('settings.contentBlockerCosmeticDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(contentBlocker.cosmeticFiltering)
+                toggle.onChange(async (value) => {
+                    contentBlocker.cosmeticFiltering = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        const listsSetting = new Setting(containerEl)
+            .setName(t('settings.contentBlockerLists'))
+            .setDesc(t('settings.contentBlockerListsDesc', { count: getContentBlocker()?.filterCount ?? 0 }))
+            .setClass('open-gate--form-field--column')
+            .addTextArea((text) => {
+                text.setPlaceholder(KNOWN_FILTER_LISTS[0].path)
+                text.setValue(contentBlocker.filterLists.join('\n'))
+                text.inputEl.rows = 4
+                text.onChange(async (value) => {
+                    contentBlocker.filterLists = value
+                        .split('\n')
+                        .map((path) => path.trim())
+                        .filter((path) => path)
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        for (const list of KNOWN_FILTER_LISTS) {
+            listsSetting.addButton((button) => {
+                button.setButtonText(t('settings.contentBlockerDownload', { name: list.name })).onClick(async () => {
+                    const blocker = getContentBlocker()
+                    if (!blocker) return
+
+                    button.setDisabled(true)
+                    const loading = showLoading(t('settings.contentBlockerDownloading', { name: list.name }))
+                    try {
+                        await blocker.downloadList(list.url, list.path)
+                        if (!contentBlocker.filterLists.includes(list.path)) {
+                            contentBlocker.filterLists.push(list.path)
+                            await this.plugin.saveSettings()
+                        }
+                        await blocker.load()
+                        loading.hide()
+                        showSuccess(t('blocker.listsReloaded', { count: blocker.filterCount }))
+                        this.display()
+                    } catch (error) {
+                        loading.hide()
+                        showError(t('settings.contentBlockerDownloadFailed', { name: list.name, error: error instanceof Error ? error.message : String(error) }))
+                        button.setDisabled(false)
+                    }
+                })
+            })
+        }
+    }
+
+    /**
+     * 방문 기록 설정 섹션 렌더링
+     */
+    private displayHistorySettings(containerEl: HTMLElement): void {
+        containerEl.createEl('h2', { text: t('settings.history') })
+
+        new Setting(containerEl)
+            .setName(t('settings.historyEnabled'))
+            .setDesc(t('settings.historyEnabledDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.history.enabled)
+                toggle.onChange(async (value) => {
+                    this.plugin.settings.history.enabled = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.historyRetention'))
+            .setDesc(t('settings.historyRetentionDesc'))
+            .addText((text) => {
+                text.inputEl.type = 'number'
+                text.setValue(String(this.plugin.settings.history.retentionDays))
+                text.onChange(async (value) => {
+                    const days = parseInt(value, 10)
+                    this.plugin.settings.history.retentionDays = Number.isFinite(days) && days > 0 ? days : 0
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.historyMaxEntries'))
+            .setDesc(t('settings.historyMaxEntriesDesc'))
+            .addText((text) => {
+                text.inputEl.type = 'number'
+                text.setValue(String(this.plugin.settings.history.maxEntries))
+                text.onChange(async (value) => {
+                    const count = parseInt(value, 10)
+                    this.plugin.settings.history.maxEntries = Number.isFinite(count) && count > 0 ? count : 0
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.historyIndexText'))
+            .setDesc(t('settings.historyIndexTextDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.history.indexPageText)
+                toggle.onChange(async (value) => {
+                    this.plugin.settings.history.indexPageText = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.historyClear'))
+            .setDesc(t('settings.historyClearDesc'))
+            .addButton((button) => {
+                button.setWarning()
+                button.setButtonText(t('settings.historyClearButton')).onClick(async () => {
+                    if (confirm(t('history.clearConfirm'))) {
+                        await getHistoryStore()?.clear()
+                        new Notice(t('history.cleared'))
+                    }
+                })
+            })
+    }
+
     /**
      * AI 설정 섹션 렌더링
      */
     private displayAISettings(containerEl: HTMLElement): void {
-        containerEl.createEl('h2', { text: '🤖 AI Settings' })
+        containerEl.createEl('h2', { text: t('settings.aiSettings') })
 
         // API 키 관리 섹션
         this.displayAPIKeySection(containerEl)
@@ -138,9 +833,15 @@ export class SettingTab extends PluginSettingTab {
         // 클리핑 기본 설정
         this.displayClippingSettings(containerEl)
 
+        // 사이트별 추출 규칙
+        this.displaySiteRulesSection(containerEl)
+
         // AI 생성 설정
         this.displayAIGenerationSettings(containerEl)
 
+        // 분석 템플릿 관리
+        this.displayTemplatesSection(containerEl)
+
         // 저장된 프롬프트 관리
         this.displaySavedPromptsSection(containerEl)
     }
@@ -149,24 +850,29 @@ export class SettingTab extends PluginSettingTab {
      * API 키 관리 테이블
      */
     private displayAPIKeySection(containerEl: HTMLElement): void {
-        containerEl.createEl('h3', { text: '🔑 AI API 키 관리' })
+        containerEl.createEl('h3', { text: t('settings.apiKeys') })
 
         // 안내 메시지
         const infoEl = containerEl.createEl('div', { cls: 'setting-item-description' })
         infoEl.style.cssText = 'margin-bottom: 16px; padding: 12px; background: var(--background-secondary); border-radius: 8px;'
-        infoEl.innerHTML = `
-            <p style="margin: 0 0 8px 0;"><strong>📌 사용 방법:</strong></p>
-            <ol style="margin: 0; padding-left: 20px;">
-                <li>사용할 AI Provider의 API 키를 입력하세요</li>
-                <li><strong>저장</strong> 버튼을 눌러 API 키를 저장하세요</li>
-                <li><strong>테스트</strong> 버튼으로 연결을 확인하세요</li>
-                <li>아래 "기본 AI Provider"에서 사용할 Provider를 선택하세요</li>
-            </ol>
-        `
+        const howToEl = infoEl.createEl('p')
+        howToEl.style.cssText = 'margin: 0 0 8px 0;'
+        howToEl.createEl('strong', { text: t('settings.howTo') })
+        const stepsEl = infoEl.createEl('ol')
+        stepsEl.style.cssText = 'margin: 0; padding-left: 20px;'
+        for (const step of [t('settings.howTo1'), t('settings.howTo2'), t('settings.howTo3'), t('settings.howTo4')]) {
+            stepsEl.createEl('li', { text: step })
+        }
 
         const providerIds = Object.keys(AI_PROVIDERS) as AIProviderType[]
 
         for (const providerId of providerIds) {
+            // 로컬 서버는 API 키 대신 엔드포인트를 설정
+            if (providerId === 'local') {
+                this.displayLocalProviderSetting(containerEl)
+                continue
+            }
+
             const providerConfig = AI_PROVIDERS[providerId]
             const savedApiKey = this.plugin.settings.ai.apiKeys[providerId]
             const hasApiKey = savedApiKey && savedApiKey.trim().length > 0
@@ -174,18 +880,18 @@ export class SettingTab extends PluginSettingTab {
 
             // 상태 표시
             const statusIcon = hasApiKey ? '🟢' : '⚪'
-            const statusText = hasApiKey ? '연결됨' : '미설정'
+            const statusText = hasApiKey ? t('settings.connected') : t('settings.notConfigured')
 
             const settingEl = new Setting(containerEl)
                 .setName(`${statusIcon} ${providerConfig.displayName}`)
-                .setDesc(`상태: ${statusText} | 모델: ${currentModel}`)
+                .setDesc(t('settings.providerStatus', { status: statusText, model: currentModel }))
 
             // 임시 API 키 저장용
             let tempApiKey = ''
 
             // API 키 입력
             settingEl.addText((text) => {
-                text.setPlaceholder('API 키 입력...')
+                text.setPlaceholder(t('settings.apiKeyPlaceholder'))
                 text.inputEl.type = 'password'
                 text.inputEl.style.width = '200px'
 
@@ -202,15 +908,15 @@ export class SettingTab extends PluginSettingTab {
             // 저장 버튼
             settingEl.addButton((button) => {
                 button
-                    .setButtonText('저장')
+                    .setButtonText(t('common.save'))
                     .onClick(async () => {
                         if (tempApiKey.length > 0) {
                             this.plugin.settings.ai.apiKeys[providerId] = tempApiKey
                             await this.plugin.saveSettings()
-                            new Notice(`✅ ${providerConfig.displayName} API 키가 저장되었습니다.`)
+                            new Notice(t('settings.apiKeySaved', { provider: providerConfig.displayName }))
                             this.display() // UI 새로고침
                         } else {
-                            new Notice('⚠️ API 키를 입력해주세요.')
+                            new Notice(t('settings.apiKeyRequired'))
                         }
                     })
             })
@@ -218,10 +924,10 @@ export class SettingTab extends PluginSettingTab {
             // 테스트 버튼 (키가 있을 때만 활성화)
             settingEl.addButton((button) => {
                 button
-                    .setButtonText('테스트')
+                    .setButtonText(t('settings.test'))
                     .setDisabled(!hasApiKey)
                     .onClick(async () => {
-                        button.setButtonText('테스트 중...')
+                        button.setButtonText(t('settings.testing'))
                         button.setDisabled(true)
 
                         const aiService = getAIService()
@@ -230,13 +936,13 @@ export class SettingTab extends PluginSettingTab {
                             const result = await aiService.testApiKey(providerId, apiKey)
 
                             if (result.success) {
-                                new Notice(`✅ ${providerConfig.displayName} 연결 성공!`)
+                                new Notice(t('settings.testSuccess', { provider: providerConfig.displayName }))
                             } else {
-                                new Notice(`❌ ${providerConfig.displayName} 연결 실패: ${result.error}`)
+                                new Notice(t('settings.testFailed', { provider: providerConfig.displayName, error: result.error ?? '' }))
                             }
                         }
 
-                        button.setButtonText('테스트')
+                        button.setButtonText(t('settings.test'))
                         button.setDisabled(!hasApiKey)
                     })
             })
@@ -245,12 +951,9 @@ export class SettingTab extends PluginSettingTab {
             settingEl.addExtraButton((button) => {
                 button
                     .setIcon('pencil')
-                    .setTooltip('모델 변경')
+                    .setTooltip(t('settings.changeModel'))
                     .onClick(() => {
-                        const newModel = prompt(
-                            `${providerConfig.displayName} 모델명을 입력하세요:`,
-                            currentModel
-                        )
+                        const newModel = prompt(t('settings.modelPrompt', { provider: providerConfig.displayName }), currentModel)
                         if (newModel && newModel.trim().length > 0) {
                             this.plugin.settings.ai.models[providerId] = newModel.trim()
                             this.plugin.saveSettings()
@@ -264,9 +967,9 @@ export class SettingTab extends PluginSettingTab {
                 settingEl.addExtraButton((button) => {
                     button
                         .setIcon('trash')
-                        .setTooltip('API 키 삭제')
+                        .setTooltip(t('settings.deleteApiKey'))
                         .onClick(async () => {
-                            if (confirm(`${providerConfig.displayName} API 키를 삭제하시겠습니까?`)) {
+                            if (confirm(t('settings.deleteApiKeyConfirm', { provider: providerConfig.displayName }))) {
                                 delete this.plugin.settings.ai.apiKeys[providerId]
                                 await this.plugin.saveSettings()
                                 this.display()
@@ -277,34 +980,171 @@ export class SettingTab extends PluginSettingTab {
         }
     }
 
+    /**
+     * 로컬 OpenAI 호환 서버 설정 (Ollama, LM Studio, llama.cpp server, vLLM 등)
+     */
+    private displayLocalProviderSetting(containerEl: HTMLElement): void {
+        const providerConfig = AI_PROVIDERS.local
+        const aiSettings = this.plugin.settings.ai
+        const hasEndpoint = hasProviderCredentials(aiSettings, 'local')
+        const currentModel = aiSettings.models.local
+
+        const statusIcon = hasEndpoint ? '🟢' : '⚪'
+        const statusText = hasEndpoint ? aiSettings.localEndpoint : t('settings.notConfigured')
+
+        let tempEndpoint = aiSettings.localEndpoint
+        let tempApiKey = ''
+
+        const settingEl = new Setting(containerEl)
+            .setName(`${statusIcon} ${providerConfig.displayName}`)
+            .setDesc(t('settings.providerStatus', { status: statusText, model: currentModel }))
+
+        // 엔드포인트 입력
+        settingEl.addText((text) => {
+            text.setPlaceholder(providerConfig.endpoint)
+            text.setValue(aiSettings.localEndpoint)
+            text.inputEl.style.width = '200px'
+            text.onChange((value) => {
+                tempEndpoint = value.trim()
+            })
+        })
+
+        // API 키 입력 (선택)
+        settingEl.addText((text) => {
+            text.setPlaceholder(aiSettings.apiKeys.local ? '••••••••' : t('settings.localApiKeyPlaceholder'))
+            text.inputEl.type = 'password'
+            text.inputEl.style.width = '120px'
+            text.onChange((value) => {
+                tempApiKey = value.trim()
+            })
+        })
+
+        settingEl.addButton((button) => {
+            button.setButtonText(t('common.save')).onClick(async () => {
+                if (tempEndpoint.length === 0) {
+                    new Notice(t('settings.endpointRequired'))
+                    return
+                }
+                aiSettings.localEndpoint = tempEndpoint
+                if (tempApiKey.length > 0) {
+                    aiSettings.apiKeys.local = tempApiKey
+                }
+                await this.plugin.saveSettings()
+                new Notice(t('settings.endpointSaved', { provider: providerConfig.displayName }))
+                this.display()
+            })
+        })
+
+        settingEl.addButton((button) => {
+            button
+                .setButtonText(t('settings.test'))
+                .setDisabled(!hasEndpoint)
+                .onClick(async () => {
+                    button.setButtonText(t('settings.testing'))
+                    button.setDisabled(true)
+
+                    const aiService = getAIService()
+                    if (aiService) {
+                        const result = await aiService.testApiKey('local', aiSettings.apiKeys.local || '')
+                        if (result.success) {
+                            new Notice(t('settings.testSuccess', { provider: providerConfig.displayName }))
+                        } else {
+                            new Notice(t('settings.testFailed', { provider: providerConfig.displayName, error: t('settings.localCheckServer') }))
+                        }
+                    }
+
+                    button.setButtonText(t('settings.test'))
+                    button.setDisabled(!hasEndpoint)
+                })
+        })
+
+        if (hasEndpoint) {
+            settingEl.addExtraButton((button) => {
+                button
+                    .setIcon('trash')
+                    .setTooltip(t('settings.deleteLocal'))
+                    .onClick(async () => {
+                        if (confirm(t('settings.deleteLocalConfirm', { provider: providerConfig.displayName }))) {
+                            aiSettings.localEndpoint = ''
+                            delete aiSettings.apiKeys.local
+                            await this.plugin.saveSettings()
+                            this.display()
+                        }
+                    })
+            })
+        }
+
+        if (!hasEndpoint) return
+
+        // 모델 선택 (/v1/models에서 목록 조회)
+        let modelDropdown: DropdownComponent
+        new Setting(containerEl)
+            .setName(t('settings.localModel'))
+            .setDesc(t('settings.localModelDesc'))
+            .addDropdown((dropdown) => {
+                modelDropdown = dropdown
+                dropdown.addOption(currentModel, currentModel)
+                dropdown.setValue(currentModel)
+                dropdown.onChange(async (value) => {
+                    aiSettings.models.local = value
+                    await this.plugin.saveSettings()
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText(t('settings.loadModels')).onClick(async () => {
+                    const aiService = getAIService()
+                    if (!aiService) return
+
+                    try {
+                        const models = await aiService.listModels('local')
+                        if (models.length === 0) {
+                            new Notice(t('settings.noModels'))
+                            return
+                        }
+
+                        modelDropdown.selectEl.empty()
+                        for (const model of models) {
+                            modelDropdown.addOption(model, model)
+                        }
+                        if (!models.includes(currentModel)) {
+                            modelDropdown.addOption(currentModel, t('settings.modelMissing', { model: currentModel }))
+                        }
+                        modelDropdown.setValue(currentModel)
+                        new Notice(t('settings.modelsLoaded', { count: models.length }))
+                    } catch (error) {
+                        const message = error instanceof Error ? error.message : String(error)
+                        new Notice(t('settings.modelsFailed', { error: message }))
+                    }
+                })
+            })
+    }
+
     /**
      * 기본 Provider 선택
      */
     private displayDefaultProviderSection(containerEl: HTMLElement): void {
-        containerEl.createEl('h3', { text: '🎯 기본 AI Provider 선택' })
+        containerEl.createEl('h3', { text: t('settings.defaultProvider') })
 
-        const configuredProviders = (Object.keys(AI_PROVIDERS) as AIProviderType[]).filter(
-            (id) => this.plugin.settings.ai.apiKeys[id] && this.plugin.settings.ai.apiKeys[id]!.trim().length > 0
-        )
+        const configuredProviders = (Object.keys(AI_PROVIDERS) as AIProviderType[]).filter((id) => hasProviderCredentials(this.plugin.settings.ai, id))
 
         // 설정된 Provider 목록 표시
         if (configuredProviders.length > 0) {
             const statusEl = containerEl.createEl('div', { cls: 'setting-item-description' })
             statusEl.style.cssText = 'margin-bottom: 12px; padding: 8px 12px; background: var(--background-modifier-success); border-radius: 6px; color: var(--text-success);'
-            statusEl.innerHTML = `✅ <strong>${configuredProviders.length}개</strong>의 Provider가 설정되어 있습니다: ${configuredProviders.map(id => AI_PROVIDERS[id].displayName).join(', ')}`
+            statusEl.setText(t('settings.providersConfigured', { count: configuredProviders.length, providers: configuredProviders.map((id) => AI_PROVIDERS[id].displayName).join(', ') }))
         } else {
             const statusEl = containerEl.createEl('div', { cls: 'setting-item-description' })
             statusEl.style.cssText = 'margin-bottom: 12px; padding: 8px 12px; background: var(--background-modifier-error); border-radius: 6px; color: var(--text-error);'
-            statusEl.innerHTML = '⚠️ 위에서 API 키를 설정하고 <strong>저장</strong> 버튼을 눌러주세요.'
+            statusEl.setText(t('settings.noProviders'))
         }
 
         new Setting(containerEl)
-            .setName('사용할 AI Provider')
-            .setDesc(configuredProviders.length > 0 ? '아래에서 기본으로 사용할 Provider를 선택하세요.' : 'API 키가 설정된 Provider만 선택할 수 있습니다.')
+            .setName(t('settings.provider'))
+            .setDesc(configuredProviders.length > 0 ? t('settings.providerDesc') : t('settings.providerDescEmpty'))
             .addDropdown((dropdown) => {
                 // 설정된 프로바이더만 옵션으로 추가
                 if (configuredProviders.length === 0) {
-                    dropdown.addOption('none', '먼저 API 키를 설정해주세요')
+                    dropdown.addOption('none', t('settings.providerNone'))
                     dropdown.setDisabled(true)
                 } else {
                     for (const providerId of configuredProviders) {
@@ -325,7 +1165,7 @@ export class SettingTab extends PluginSettingTab {
                     dropdown.onChange(async (value) => {
                         this.plugin.settings.ai.provider = value as AIProviderType
                         await this.plugin.saveSettings()
-                        new Notice(`✅ ${AI_PROVIDERS[value as AIProviderType].displayName}가 기본 Provider로 설정되었습니다.`)
+                        new Notice(t('settings.providerSet', { provider: AI_PROVIDERS[value as AIProviderType].displayName }))
                     })
                 }
             })
@@ -335,11 +1175,11 @@ export class SettingTab extends PluginSettingTab {
      * 커스텀 모델 설정
      */
     private displayCustomModelSection(containerEl: HTMLElement): void {
-        containerEl.createEl('h3', { text: '⚙️ 커스텀 모델 설정 (선택사항)' })
+        containerEl.createEl('h3', { text: t('settings.customModelSection') })
 
         new Setting(containerEl)
-            .setName('커스텀 모델명 사용')
-            .setDesc('기본 Provider의 모델명을 직접 지정합니다.')
+            .setName(t('settings.useCustomModel'))
+            .setDesc(t('settings.useCustomModelDesc'))
             .addToggle((toggle) => {
                 toggle.setValue(this.plugin.settings.ai.useCustomModel)
                 toggle.onChange(async (value) => {
@@ -351,10 +1191,10 @@ export class SettingTab extends PluginSettingTab {
 
         if (this.plugin.settings.ai.useCustomModel) {
             new Setting(containerEl)
-                .setName('커스텀 모델명')
-                .setDesc(`현재 Provider: ${AI_PROVIDERS[this.plugin.settings.ai.provider].displayName}`)
+                .setName(t('settings.customModel'))
+                .setDesc(t('settings.customModelDesc', { provider: AI_PROVIDERS[this.plugin.settings.ai.provider].displayName }))
                 .addText((text) => {
-                    text.setPlaceholder('모델명 입력...')
+                    text.setPlaceholder(t('settings.customModelPlaceholder'))
                     text.setValue(this.plugin.settings.ai.customModel)
                     text.onChange(async (value) => {
                         this.plugin.settings.ai.customModel = value
@@ -368,11 +1208,11 @@ export class SettingTab extends PluginSettingTab {
      * 클리핑 기본 설정
      */
     private displayClippingSettings(containerEl: HTMLElement): void {
-        containerEl.createEl('h3', { text: '📋 클리핑 기본 설정' })
+        containerEl.createEl('h3', { text: t('settings.clipping') })
 
         new Setting(containerEl)
-            .setName('기본 저장 폴더')
-            .setDesc('클리핑 노트가 저장될 기본 폴더입니다.')
+            .setName(t('settings.defaultFolder'))
+            .setDesc(t('settings.defaultFolderDesc'))
             .addText((text) => {
                 text.setPlaceholder('Clippings')
                 text.setValue(this.plugin.settings.clipping.defaultFolder)
@@ -383,8 +1223,8 @@ export class SettingTab extends PluginSettingTab {
             })
 
         new Setting(containerEl)
-            .setName('파일명 형식')
-            .setDesc('{title}, {date}, {time} 변수를 사용할 수 있습니다.')
+            .setName(t('settings.filenameFormat'))
+            .setDesc(t('settings.filenameFormatDesc'))
             .addText((text) => {
                 text.setPlaceholder('{title} - {date}')
                 text.setValue(this.plugin.settings.clipping.filenameFormat)
@@ -395,10 +1235,10 @@ export class SettingTab extends PluginSettingTab {
             })
 
         new Setting(containerEl)
-            .setName('메타데이터 포함')
-            .setDesc('클리핑 노트에 포함할 메타데이터를 선택합니다.')
+            .setName(t('settings.includeMetadata'))
+            .setDesc(t('settings.includeMetadataDesc'))
             .addToggle((toggle) => {
-                toggle.setTooltip('URL 포함')
+                toggle.setTooltip(t('settings.includeUrl'))
                 toggle.setValue(this.plugin.settings.clipping.includeUrl)
                 toggle.onChange(async (value) => {
                     this.plugin.settings.clipping.includeUrl = value
@@ -406,7 +1246,7 @@ export class SettingTab extends PluginSettingTab {
                 })
             })
             .addToggle((toggle) => {
-                toggle.setTooltip('날짜 포함')
+                toggle.setTooltip(t('settings.includeDate'))
                 toggle.setValue(this.plugin.settings.clipping.includeDate)
                 toggle.onChange(async (value) => {
                     this.plugin.settings.clipping.includeDate = value
@@ -414,29 +1254,204 @@ export class SettingTab extends PluginSettingTab {
                 })
             })
             .addToggle((toggle) => {
-                toggle.setTooltip('작성자 포함')
+                toggle.setTooltip(t('settings.includeAuthor'))
                 toggle.setValue(this.plugin.settings.clipping.includeAuthor)
                 toggle.onChange(async (value) => {
                     this.plugin.settings.clipping.includeAuthor = value
                     await this.plugin.saveSettings()
                 })
             })
+
+        new Setting(containerEl)
+            .setName(t('settings.convertMarkdown'))
+            .setDesc(t('settings.convertMarkdownDesc'))
+            .addToggle((toggle) => {
+                toggle.setValue(this.plugin.settings.clipping.convertToMarkdown)
+                toggle.onChange(async (value) => {
+                    this.plugin.settings.clipping.convertToMarkdown = value
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.clipTemplate'))
+            .setDesc(this.createNoteTemplateDesc(t('settings.clipTemplateDesc')))
+            .addText((text) => {
+                text.setPlaceholder('Easy Gate/Clip Template.md')
+                text.setValue(this.plugin.settings.clipping.noteTemplatePath)
+                text.onChange(async (value) => {
+                    this.plugin.settings.clipping.noteTemplatePath = value.trim()
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.screenshotFormat'))
+            .setDesc(t('settings.screenshotFormatDesc'))
+            .addDropdown((dropdown) => {
+                dropdown.addOption('png', 'PNG')
+                dropdown.addOption('webp', 'WebP')
+                dropdown.setValue(this.plugin.settings.clipping.screenshotFormat)
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.clipping.screenshotFormat = value as 'png' | 'webp'
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.archiveFolder'))
+            .setDesc(t('settings.archiveFolderDesc'))
+            .addText((text) => {
+                text.setPlaceholder('Easy Gate/Archive')
+                text.setValue(this.plugin.settings.clipping.archiveFolder)
+                text.onChange(async (value) => {
+                    this.plugin.settings.clipping.archiveFolder = value.trim() || 'Easy Gate/Archive'
+                    await this.plugin.saveSettings()
+                })
+            })
+
+        new Setting(containerEl)
+            .setName(t('settings.archiveFormat'))
+            .setDesc(t('settings.archiveFormatDesc'))
+            .addDropdown((dropdown) => {
+                dropdown.addOption('html', t('settings.archiveFormatHtml'))
+                dropdown.addOption('mhtml', 'MHTML')
+                dropdown.setValue(this.plugin.settings.clipping.archiveFormat)
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.clipping.archiveFormat = value as 'html' | 'mhtml'
+                    await this.plugin.saveSettings()
+                })
+            })
+    }
+
+    /**
+     * 노트 템플릿 설정 설명 (사용 가능한 변수 안내 포함)
+     */
+    private createNoteTemplateDesc(description: string): DocumentFragment {
+        const fragment = document.createDocumentFragment()
+        fragment.appendText(`${description} ${t('settings.templateFallback')}`)
+        fragment.createEl('br')
+        fragment.appendText(t('settings.templateVariables', { variables: NOTE_TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ') }))
+        fragment.createEl('br')
+        fragment.appendText(
+            t('settings.templateFilters', {
+                filters: '{{date|date:YYYY-MM-DD}}, {{tags|hashtags}}, {{tags|join:", "}}, {{title|lower}}, {{title|yaml}}',
+                conditions: '{{#author}}...{{/author}}'
+            })
+        )
+        return fragment
+    }
+
+    /**
+     * 사이트별 추출 규칙 관리
+     */
+    private displaySiteRulesSection(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: t('settings.siteRules') })
+        containerEl.createEl('p', {
+            text: t('settings.siteRulesDesc'),
+            cls: 'setting-item-description'
+        })
+
+        const rulesContainer = containerEl.createDiv('site-rules-container')
+        const rules = this.plugin.settings.clipping.siteRules
+
+        for (let i = 0; i < rules.length; i++) {
+            const rule = rules[i]
+            const selectors = [...rule.contentSelectors, ...rule.removeSelectors.map((selector) => `-${selector}`)]
+
+            new Setting(rulesContainer)
+                .setName(rule.hostPattern)
+                .setDesc(selectors.length > 0 ? selectors.join(', ') : t('settings.metadataSelectorsOnly'))
+                .addToggle((toggle) => {
+                    toggle.setTooltip(t('settings.enabled'))
+                    toggle.setValue(rule.enabled)
+                    toggle.onChange(async (value) => {
+                        rule.enabled = value
+                        await this.plugin.saveSettings()
+                    })
+                })
+                .addButton((button) => {
+                    button.setIcon('pencil')
+                    button.setTooltip(t('common.edit'))
+                    button.onClick(() => {
+                        this.openSiteRuleModal(rule, async (updated) => {
+                            rules[i] = updated
+                        })
+                    })
+                })
+                .addButton((button) => {
+                    button.setIcon('trash')
+                    button.setTooltip(t('common.delete'))
+                    button.onClick(async () => {
+                        if (confirm(t('settings.deleteRuleConfirm', { name: rule.hostPattern }))) {
+                            rules.splice(i, 1)
+                            await this.plugin.saveSettings()
+                            this.display()
+                        }
+                    })
+                })
+        }
+
+        new Setting(rulesContainer)
+            .addButton((button) => {
+                button.setButtonText(t('settings.addRule'))
+                button.onClick(() => {
+                    this.openSiteRuleModal(createEmptySiteRule(), async (created) => {
+                        rules.push(created)
+                    })
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText(t('settings.importJson'))
+                button.onClick(() => {
+                    new SiteRulesImportModal({
+                        app: this.app,
+                        onImport: async (imported) => {
+                            this.plugin.settings.clipping.siteRules = mergeSiteRules(rules, imported)
+                            await this.plugin.saveSettings()
+                            new Notice(t('settings.rulesImported', { count: imported.length }))
+                            this.display()
+                        }
+                    }).open()
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText(t('settings.exportJson'))
+                button.setDisabled(rules.length === 0)
+                button.onClick(async () => {
+                    await navigator.clipboard.writeText(exportSiteRules(rules))
+                    new Notice(t('settings.rulesCopied', { count: rules.length }))
+                })
+            })
+    }
+
+    private openSiteRuleModal(rule: SiteRule, apply: (rule: SiteRule) => Promise<void>): void {
+        new SiteRuleModal({
+            app: this.app,
+            rule,
+            onSubmit: async (result) => {
+                await apply(result)
+                await this.plugin.saveSettings()
+                this.display()
+            }
+        }).open()
     }
 
     /**
      * AI 생성 설정
      */
     private displayAIGenerationSettings(containerEl: HTMLElement): void {
-        containerEl.createEl('h3', { text: '✨ AI 생성 설정' })
+        containerEl.createEl('h3', { text: t('settings.aiGeneration') })
 
         new Setting(containerEl)
-            .setName('기본 언어')
-            .setDesc('AI가 응답할 때 사용할 기본 언어입니다.')
+            .setName(t('settings.aiLanguage'))
+            .setDesc(t('settings.aiLanguageDesc'))
             .addDropdown((dropdown) => {
                 dropdown.addOption('한국어', '한국어')
                 dropdown.addOption('English', 'English')
                 dropdown.addOption('日本語', '日本語')
                 dropdown.addOption('中文', '中文')
+                dropdown.addOption('Deutsch', 'Deutsch')
                 dropdown.setValue(this.plugin.settings.ai.defaultLanguage)
                 dropdown.onChange(async (value) => {
                     this.plugin.settings.ai.defaultLanguage = value
@@ -445,13 +1460,12 @@ export class SettingTab extends PluginSettingTab {
             })
 
         new Setting(containerEl)
-            .setName('기본 템플릿')
-            .setDesc('AI 처리 시 기본으로 사용할 템플릿입니다.')
+            .setName(t('settings.defaultTemplate'))
+            .setDesc(t('settings.defaultTemplateDesc'))
             .addDropdown((dropdown) => {
-                dropdown.addOption('basic-summary', '📝 기본 요약')
-                dropdown.addOption('study-note', '📚 학습 노트')
-                dropdown.addOption('analysis-report', '📊 분석 리포트')
-                dropdown.addOption('idea-note', '💡 아이디어 노트')
+                for (const template of getTemplates()) {
+                    dropdown.addOption(template.id, template.name)
+                }
                 dropdown.setValue(this.plugin.settings.ai.defaultTemplate)
                 dropdown.onChange(async (value) => {
                     this.plugin.settings.ai.defaultTemplate = value
@@ -460,8 +1474,8 @@ export class SettingTab extends PluginSettingTab {
             })
 
         new Setting(containerEl)
-            .setName('자동 태그 생성')
-            .setDesc('AI가 콘텐츠를 분석하여 자동으로 태그를 생성합니다.')
+            .setName(t('settings.autoTags'))
+            .setDesc(t('settings.autoTagsDesc'))
             .addToggle((toggle) => {
                 toggle.setValue(this.plugin.settings.ai.autoTags)
                 toggle.onChange(async (value) => {
@@ -469,13 +1483,125 @@ export class SettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings()
                 })
             })
+
+        new Setting(containerEl)
+            .setName(t('settings.aiTemplate'))
+            .setDesc(this.createNoteTemplateDesc(t('settings.aiTemplateDesc')))
+            .addText((text) => {
+                text.setPlaceholder('Easy Gate/AI Note Template.md')
+                text.setValue(this.plugin.settings.ai.noteTemplatePath)
+                text.onChange(async (value) => {
+                    this.plugin.settings.ai.noteTemplatePath = value.trim()
+                    await this.plugin.saveSettings()
+                })
+            })
+    }
+
+    /**
+     * 분석 템플릿 관리
+     * 기본 템플릿을 편집하면 같은 id의 사용자 템플릿으로 저장되며, 초기화하면 기본값으로 돌아갑니다.
+     */
+    private displayTemplatesSection(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', { text: t('settings.templates') })
+        containerEl.createEl('p', {
+            text: t('settings.templatesDesc'),
+            cls: 'setting-item-description'
+        })
+
+        const templatesContainer = containerEl.createDiv('templates-container')
+        const builtInIds = new Set(BUILT_IN_TEMPLATES.map((template) => template.id))
+
+        for (const template of getTemplates()) {
+            const userIndex = this.plugin.settings.ai.templates.findIndex((item) => item.id === template.id)
+            const isOverride = userIndex >= 0 && builtInIds.has(template.id)
+            const tags = [template.builtIn ? t('settings.templateBuiltIn') : isOverride ? t('settings.templateModified') : t('settings.templateUser'), template.provider ? AI_PROVIDERS[template.provider].displayName : '', template.sourcePath ?? '']
+
+            const setting = new Setting(templatesContainer)
+                .setName(template.name)
+                .setDesc([template.description, tags.filter((tag) => tag).join(' · ')].filter((text) => text).join(' — '))
+                .addButton((button) => {
+                    button.setIcon('pencil')
+                    button.setTooltip(t('common.edit'))
+                    button.onClick(() => {
+                        this.openTemplateModal(template)
+                    })
+                })
+
+            if (userIndex >= 0) {
+                setting.addButton((button) => {
+                    button.setIcon(isOverride ? 'rotate-ccw' : 'trash')
+                    button.setTooltip(isOverride ? t('settings.resetTemplate') : t('common.delete'))
+                    button.onClick(async () => {
+                        const message = isOverride ? t('settings.resetTemplateConfirm', { name: template.name }) : t('settings.deleteTemplateConfirm', { name: template.name })
+                        if (confirm(message)) {
+                            this.plugin.settings.ai.templates.splice(userIndex, 1)
+                            await this.plugin.saveSettings()
+                            this.display()
+                        }
+                    })
+                })
+            }
+        }
+
+        new Setting(templatesContainer).addButton((button) => {
+            button.setButtonText(t('settings.addTemplate'))
+            button.onClick(() => {
+                this.openTemplateModal(createEmptyTemplate())
+            })
+        })
+
+        new Setting(templatesContainer)
+            .setName(t('settings.importTemplates'))
+            .setDesc(t('settings.importTemplatesDesc'))
+            .addText((text) => {
+                text.setPlaceholder('Easy Gate/Templates')
+                text.setValue(this.plugin.settings.ai.templateFolder)
+                text.onChange(async (value) => {
+                    this.plugin.settings.ai.templateFolder = value.trim()
+                    await this.plugin.saveSettings()
+                })
+            })
+            .addButton((button) => {
+                button.setButtonText(t('settings.import'))
+                button.onClick(async () => {
+                    const folder = this.plugin.settings.ai.templateFolder
+                    if (!folder) {
+                        new Notice(t('settings.templateFolderRequired'))
+                        return
+                    }
+
+                    const { templates, errors } = await loadTemplatesFromVault(this.app.vault, folder)
+                    if (templates.length > 0) {
+                        this.plugin.settings.ai.templates = upsertTemplates(this.plugin.settings.ai.templates, templates)
+                        await this.plugin.saveSettings()
+                    }
+
+                    if (errors.length > 0) {
+                        new Notice(t('settings.templateImportErrors', { count: errors.length, errors: errors.join('\n') }), 8000)
+                    }
+                    new Notice(templates.length > 0 ? t('settings.templatesImported', { count: templates.length }) : t('settings.noTemplatesFound', { folder }))
+                    this.display()
+                })
+            })
+    }
+
+    private openTemplateModal(template: AnalysisTemplate): void {
+        new TemplateModal({
+            app: this.app,
+            template,
+            onSubmit: async (result) => {
+                this.plugin.settings.ai.templates = upsertTemplates(this.plugin.settings.ai.templates, [result])
+                await this.plugin.saveSettings()
+                this.display()
+            }
+        }).open()
     }
 
     /**
      * 저장된 프롬프트 관리
      */
     private displaySavedPromptsSection(containerEl: HTMLElement): void {
-        containerEl.createEl('h3', { text: '💾 저장된 프롬프트' })
+        containerEl.createEl('h3', { text: t('settings.savedPrompts') })
 
         const promptsContainer = containerEl.createDiv('saved-prompts-container')
 
@@ -488,16 +1614,16 @@ export class SettingTab extends PluginSettingTab {
                 .setDesc(prompt.prompt.substring(0, 50) + (prompt.prompt.length > 50 ? '...' : ''))
                 .addButton((button) => {
                     button.setIcon('pencil')
-                    button.setTooltip('편집')
+                    button.setTooltip(t('common.edit'))
                     button.onClick(() => {
                         this.editPrompt(i)
                     })
                 })
                 .addButton((button) => {
                     button.setIcon('trash')
-                    button.setTooltip('삭제')
+                    button.setTooltip(t('common.delete'))
                     button.onClick(async () => {
-                        if (confirm(`"${prompt.name}" 프롬프트를 삭제하시겠습니까?`)) {
+                        if (confirm(t('settings.deletePromptConfirm', { name: prompt.name }))) {
                             this.plugin.settings.savedPrompts.splice(i, 1)
                             await this.plugin.saveSettings()
                             this.display()
@@ -509,7 +1635,7 @@ export class SettingTab extends PluginSettingTab {
         // 새 프롬프트 추가 버튼
         new Setting(promptsContainer)
             .addButton((button) => {
-                button.setButtonText('+ 새 프롬프트 추가')
+                button.setButtonText(t('settings.addPrompt'))
                 button.onClick(() => {
                     this.addNewPrompt()
                 })
@@ -521,10 +1647,10 @@ export class SettingTab extends PluginSettingTab {
      */
     private editPrompt(index: number): void {
         const prompt = this.plugin.settings.savedPrompts[index]
-        const newName = window.prompt('프롬프트 이름:', prompt.name)
+        const newName = window.prompt(t('settings.promptName'), prompt.name)
         if (newName === null) return
 
-        const newPromptText = window.prompt('프롬프트 내용:', prompt.prompt)
+        const newPromptText = window.prompt(t('settings.promptText'), prompt.prompt)
         if (newPromptText === null) return
 
         this.plugin.settings.savedPrompts[index] = {
@@ -541,10 +1667,10 @@ export class SettingTab extends PluginSettingTab {
      * 새 프롬프트 추가
      */
     private addNewPrompt(): void {
-        const name = window.prompt('새 프롬프트 이름:')
+        const name = window.prompt(t('settings.newPromptName'))
         if (!name || name.trim().length === 0) return
 
-        const promptText = window.prompt('프롬프트 내용:')
+        const promptText = window.prompt(t('settings.promptText'))
         if (!promptText || promptText.trim().length === 0) return
 
         const newPrompt: SavedPrompt = {
@@ -558,3 +1684,9 @@ export class SettingTab extends PluginSettingTab {
         this.display()
     }
 }
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
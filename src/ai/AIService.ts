@@ -13,7 +13,8 @@ import {
     AIRequestOptions,
     AISettings,
     AI_PROVIDERS,
-    AIProviderConfig
+    AIProviderConfig,
+    ProcessState
 } from './types'
 
 import { GeminiProvider } from './providers/GeminiProvider'
@@ -21,10 +22,26 @@ import { GrokProvider } from './providers/GrokProvider'
 import { ClaudeProvider } from './providers/ClaudeProvider'
 import { OpenAIProvider } from './providers/OpenAIProvider'
 import { GLMProvider } from './providers/GLMProvider'
+import { LocalProvider } from './providers/LocalProvider'
+import { MapReduceSummarizer } from './MapReduceSummarizer'
+import { estimateTokens } from './TokenChunker'
+
+/**
+ * 프로바이더 사용 가능 여부 (API 키 또는 로컬 엔드포인트 설정 확인)
+ */
+export function hasProviderCredentials(settings: AISettings, providerId: AIProviderType): boolean {
+    // 로컬 서버는 키가 선택 사항이므로 엔드포인트가 설정되어 있으면 사용 가능
+    if (providerId === 'local') {
+        return !!settings.localEndpoint && settings.localEndpoint.trim().length > 0
+    }
+    const apiKey = settings.apiKeys[providerId]
+    return !!apiKey && apiKey.trim().length > 0
+}
 
 export class AIService {
     private providers: Map<AIProviderType, AIProvider> = new Map()
     private settings: AISettings
+    private localProvider: LocalProvider
 
     constructor(settings: AISettings) {
         this.settings = settings
@@ -40,6 +57,9 @@ export class AIService {
         this.providers.set('claude', new ClaudeProvider())
         this.providers.set('openai', new OpenAIProvider())
         this.providers.set('glm', new GLMProvider())
+
+        this.localProvider = new LocalProvider(this.settings.localEndpoint)
+        this.providers.set('local', this.localProvider)
     }
 
     /**
@@ -47,6 +67,7 @@ export class AIService {
      */
     updateSettings(settings: AISettings): void {
         this.settings = settings
+        this.localProvider.setEndpoint(settings.localEndpoint)
     }
 
     /**
@@ -71,20 +92,26 @@ export class AIService {
     }
 
     /**
-     * API 키가 설정된 프로바이더 목록 반환
+     * API 키(로컬은 엔드포인트)가 설정된 프로바이더 목록 반환
      */
     getConfiguredProviders(): AIProviderType[] {
-        return Object.entries(this.settings.apiKeys)
-            .filter(([_, key]) => key && key.trim().length > 0)
-            .map(([id]) => id as AIProviderType)
+        return (Object.keys(AI_PROVIDERS) as AIProviderType[]).filter((id) => this.isProviderConfigured(id))
     }
 
     /**
-     * 특정 프로바이더의 API 키가 설정되어 있는지 확인
+     * 특정 프로바이더의 API 키(로컬은 엔드포인트)가 설정되어 있는지 확인
      */
     isProviderConfigured(providerId: AIProviderType): boolean {
-        const apiKey = this.settings.apiKeys[providerId]
-        return !!apiKey && apiKey.trim().length > 0
+        return hasProviderCredentials(this.settings, providerId)
+    }
+
+    /**
+     * 미설정 프로바이더 에러 메시지
+     */
+    private getNotConfiguredError(provider: AIProvider): string {
+        return provider.config.requiresApiKey === false
+            ? `Endpoint not configured for ${provider.name}`
+            : `API key not configured for ${provider.name}`
     }
 
     /**
@@ -115,6 +142,17 @@ export class AIService {
         }
     }
 
+    /**
+     * 프로바이더의 모델 목록 조회 (지원하는 프로바이더만, 예: 로컬 서버의 /v1/models)
+     */
+    async listModels(providerId: AIProviderType): Promise<string[]> {
+        const provider = this.providers.get(providerId)
+        if (!provider?.listModels) {
+            return []
+        }
+        return provider.listModels(this.settings.apiKeys[providerId] || '')
+    }
+
     /**
      * 텍스트 생성 (현재 선택된 프로바이더 사용)
      */
@@ -131,14 +169,14 @@ export class AIService {
             }
         }
 
-        const apiKey = this.settings.apiKeys[this.settings.provider]
-        if (!apiKey) {
+        if (!this.isProviderConfigured(this.settings.provider)) {
             return {
                 success: false,
                 content: '',
-                error: `API key not configured for ${provider.name}`
+                error: this.getNotConfiguredError(provider)
             }
         }
+        const apiKey = this.settings.apiKeys[this.settings.provider] || ''
 
         // 모델 설정
         const finalOptions: AIRequestOptions = {
@@ -175,14 +213,14 @@ export class AIService {
             }
         }
 
-        const apiKey = this.settings.apiKeys[providerId]
-        if (!apiKey) {
+        if (!this.isProviderConfigured(providerId)) {
             return {
                 success: false,
                 content: '',
-                error: `API key not configured for ${provider.name}`
+                error: this.getNotConfiguredError(provider)
             }
         }
+        const apiKey = this.settings.apiKeys[providerId] || ''
 
         const finalOptions: AIRequestOptions = {
             ...options,
@@ -201,6 +239,76 @@ export class AIService {
         }
     }
 
+    /**
+     * 스트리밍 텍스트 생성 (현재 선택된 프로바이더 사용)
+     */
+    async generateTextStream(
+        messages: AIMessage[],
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        return this.generateTextStreamWithProvider(this.settings.provider, messages, onChunk, options)
+    }
+
+    /**
+     * 특정 프로바이더로 스트리밍 텍스트 생성
+     * 프로바이더가 스트리밍을 지원하지 않거나 스트림 연결 자체가 실패하면(CORS 등)
+     * 일반 요청으로 대체하고 전체 응답을 한 번의 onChunk로 전달합니다.
+     */
+    async generateTextStreamWithProvider(
+        providerId: AIProviderType,
+        messages: AIMessage[],
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        const provider = this.providers.get(providerId)
+        if (!provider) {
+            return {
+                success: false,
+                content: '',
+                error: 'Provider not found'
+            }
+        }
+
+        if (!this.isProviderConfigured(providerId)) {
+            return {
+                success: false,
+                content: '',
+                error: this.getNotConfiguredError(provider)
+            }
+        }
+        const apiKey = this.settings.apiKeys[providerId] || ''
+
+        const finalOptions: AIRequestOptions = {
+            ...options,
+            model: options?.model || this.getModelForProvider(providerId),
+            stream: true
+        }
+
+        try {
+            if (provider.generateTextStream) {
+                const response = await provider.generateTextStream(messages, apiKey, onChunk, finalOptions)
+                if (response.success || response.errorCode !== 'NETWORK' || response.content) {
+                    return response
+                }
+                console.warn(`[AIService] Streaming unavailable for ${provider.name}, falling back:`, response.error)
+            }
+
+            const response = await provider.generateText(messages, apiKey, { ...finalOptions, stream: false })
+            if (response.success && response.content) {
+                onChunk(response.content)
+            }
+            return response
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            return {
+                success: false,
+                content: '',
+                error: errorMessage
+            }
+        }
+    }
+
     /**
      * 간단한 프롬프트로 텍스트 생성 (헬퍼 메서드)
      */
@@ -221,19 +329,27 @@ export class AIService {
 
     /**
      * 웹 콘텐츠 요약용 헬퍼 메서드
+     * 모델의 컨텍스트 예산을 넘는 콘텐츠는 청크별로 요약한 뒤 통합합니다.
      */
     async summarizeContent(
         content: string,
         language: string = '한국어',
-        options?: AIRequestOptions
+        options?: AIRequestOptions,
+        onProgress?: (state: ProcessState) => void
     ): Promise<AIProviderResponse> {
         const systemPrompt = `You are a helpful assistant that summarizes web content.
 Always respond in ${language}.
 Provide clear, concise summaries that capture the key points.`
 
-        const userPrompt = `Please summarize the following content:\n\n${content}`
+        const summarizer = new MapReduceSummarizer(this, {
+            providerId: this.settings.provider,
+            language,
+            reservedTokens: estimateTokens(systemPrompt) + 100 + (options?.maxTokens ?? 4096),
+            signal: options?.signal,
+            onProgress
+        })
 
-        return this.simpleGenerate(userPrompt, systemPrompt, options)
+        return summarizer.run(content, (text) => this.simpleGenerate(`Please summarize the following content:\n\n${text}`, systemPrompt, options))
     }
 
     /**
@@ -0,0 +1,257 @@
+/**
+ * MapReduceSummarizer - 긴 콘텐츠 분할 요약
+ *
+ * 본문이 모델의 컨텍스트 예산을 넘으면 청크로 나눠 부분 요약(map)을 만든 뒤,
+ * 부분 요약을 모아 최종 프롬프트(reduce)로 결과를 생성합니다.
+ * 진행 상황은 ProcessState.steps로 전달됩니다.
+ */
+
+import type { AIService } from './AIService'
+import { AIProviderType, AIProviderResponse, ProcessState, ProcessStep } from './types'
+import { estimateTokens, getContentBudget, splitIntoChunks } from './TokenChunker'
+import { t } from '../i18n'
+
+export interface MapReduceOptions {
+    providerId: AIProviderType
+    model?: string // 지정하지 않으면 Provider 설정 모델
+    language: string
+    reservedTokens: number // 최종 요청의 프롬프트 지시문 + 응답에 필요한 토큰
+    concurrency?: number // 동시에 요약할 청크 수
+    chunkSummaryTokens?: number // 부분 요약 응답의 최대 토큰
+    signal?: AbortSignal
+    onProgress?: (state: ProcessState) => void
+}
+
+/**
+ * 최종 결과 생성 함수
+ * @param content 원문 또는 부분 요약 모음
+ * @param chunked content가 부분 요약 모음인지 여부
+ */
+export type ReduceFunction = (content: string, chunked: boolean) => Promise<AIProviderResponse>
+
+const DEFAULT_CONCURRENCY = 3
+const DEFAULT_CHUNK_SUMMARY_TOKENS = 1500
+
+// 부분 요약 프롬프트의 지시문 분량
+const MAP_PROMPT_TOKENS = 300
+
+// 부분 요약 모음이 여전히 클 때 다시 요약하는 최대 단계 수
+const MAX_MAP_ROUNDS = 3
+
+/**
+ * 부분 요약 모음을 최종 프롬프트에 넣을 때 붙이는 안내문
+ */
+export function describeChunkedContent(chunkCount: number): string {
+    return t('mapReduce.chunkedNotice', { count: chunkCount })
+}
+
+export class MapReduceSummarizer {
+    private aiService: AIService
+    private options: MapReduceOptions
+    private state: ProcessState
+
+    constructor(aiService: AIService, options: MapReduceOptions) {
+        this.aiService = aiService
+        this.options = options
+        this.state = {
+            status: 'idle',
+            progress: 0,
+            currentStep: '',
+            steps: []
+        }
+    }
+
+    /**
+     * 콘텐츠를 몇 개의 청크로 나누어 처리할지 계산 (1이면 분할 없음)
+     */
+    static countChunks(content: string, providerId: AIProviderType, model: string | undefined, reservedTokens: number, chunkSummaryTokens = DEFAULT_CHUNK_SUMMARY_TOKENS): number {
+        if (estimateTokens(content) <= getContentBudget(providerId, model, reservedTokens)) return 1
+        return splitIntoChunks(content, getContentBudget(providerId, model, MAP_PROMPT_TOKENS + chunkSummaryTokens)).length
+    }
+
+    /**
+     * 콘텐츠 크기에 따라 바로 생성하거나 map-reduce로 생성
+     */
+    async run(content: string, reduce: ReduceFunction): Promise<AIProviderResponse> {
+        const { providerId } = this.options
+        const model = this.options.model || this.aiService.getModelForProvider(providerId)
+        const budget = getContentBudget(providerId, model, this.options.reservedTokens)
+
+        this.state.startTime = Date.now()
+
+        // 예산 안이면 한 번의 요청으로 처리
+        if (estimateTokens(content) <= budget) {
+            this.state.steps = [{ id: 'reduce', label: t('mapReduce.generate'), status: 'pending' }]
+            return this.runReduce(content, false, reduce)
+        }
+
+        const chunkSummaryTokens = this.options.chunkSummaryTokens ?? DEFAULT_CHUNK_SUMMARY_TOKENS
+        // 부분 요약 요청은 지시문과 부분 요약 응답만 필요하므로 청크를 더 크게 잡을 수 있음
+        const chunkBudget = getContentBudget(providerId, model, MAP_PROMPT_TOKENS + chunkSummaryTokens)
+
+        this.state.steps = [
+            { id: 'split', label: t('mapReduce.split'), status: 'in_progress' },
+            { id: 'reduce', label: t('mapReduce.combine'), status: 'pending' }
+        ]
+        this.setStatus('extracting', t('mapReduce.split'))
+
+        let condensed = content
+        let chunkCount = 0
+        for (let round = 1; round <= MAX_MAP_ROUNDS; round++) {
+            const chunks = splitIntoChunks(condensed, chunkBudget)
+            if (round === 1) {
+                chunkCount = chunks.length
+                this.completeStep('split', t('mapReduce.splitCount', { count: chunks.length }))
+            }
+
+            const summaries = await this.runMap(chunks, round)
+            if (!summaries.success) {
+                return summaries.response
+            }
+
+            condensed = summaries.parts.map((summary, index) => `### ${t('mapReduce.partHeading', { index: index + 1, total: summaries.parts.length })}\n\n${summary}`).join('\n\n')
+            if (estimateTokens(condensed) <= budget) break
+        }
+
+        return this.runReduce(`${describeChunkedContent(chunkCount)}\n\n${condensed}`, true, reduce)
+    }
+
+    /**
+     * 청크별 부분 요약 (동시 실행 수 제한)
+     */
+    private async runMap(chunks: string[], round: number): Promise<{ success: true; parts: string[] } | { success: false; response: AIProviderResponse }> {
+        const stepIds = chunks.map((_, index) => `map-${round}-${index + 1}`)
+        const labelPrefix = round === 1 ? t('mapReduce.partial') : t('mapReduce.round', { round })
+        // 통합 단계(마지막) 앞에 청크 단계 추가
+        const mapSteps: ProcessStep[] = chunks.map((_, index) => ({
+            id: stepIds[index],
+            label: `${labelPrefix} ${index + 1}/${chunks.length}`,
+            status: 'pending'
+        }))
+        this.state.steps.splice(this.state.steps.length - 1, 0, ...mapSteps)
+        this.setStatus('generating', labelPrefix)
+
+        const parts: string[] = new Array(chunks.length)
+        let failure: AIProviderResponse | null = null
+        let nextIndex = 0
+
+        const worker = async (): Promise<void> => {
+            while (!failure && nextIndex < chunks.length) {
+                const index = nextIndex++
+                if (this.options.signal?.aborted) {
+                    failure = this.abortedResponse()
+                    return
+                }
+
+                this.updateStep(stepIds[index], 'in_progress')
+                const response = await this.summarizeChunk(chunks[index], index, chunks.length)
+                if (!response.success) {
+                    this.updateStep(stepIds[index], 'error')
+                    failure = failure || response
+                    return
+                }
+
+                parts[index] = response.content.trim()
+                this.updateStep(stepIds[index], 'completed')
+            }
+        }
+
+        const concurrency = Math.max(1, this.options.concurrency ?? DEFAULT_CONCURRENCY)
+        await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, () => worker()))
+
+        if (failure) {
+            this.fail(failure)
+            return { success: false, response: failure }
+        }
+        return { success: true, parts }
+    }
+
+    private async summarizeChunk(chunk: string, index: number, total: number): Promise<AIProviderResponse> {
+        const systemPrompt = `You summarize one part of a longer document so that the parts can be combined later.
+Always respond in ${this.options.language}.
+Keep key facts, numbers, names, definitions, quotes and arguments. Drop navigation text and boilerplate.
+Do not add an introduction or a conclusion.`
+
+        return this.aiService.generateTextWithProvider(
+            this.options.providerId,
+            [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: `Part ${index + 1} of ${total}:\n\n${chunk}` }
+            ],
+            {
+                model: this.options.model,
+                temperature: 0.3,
+                maxTokens: this.options.chunkSummaryTokens ?? DEFAULT_CHUNK_SUMMARY_TOKENS,
+                signal: this.options.signal
+            }
+        )
+    }
+
+    private async runReduce(content: string, chunked: boolean, reduce: ReduceFunction): Promise<AIProviderResponse> {
+        if (this.options.signal?.aborted) {
+            const response = this.abortedResponse()
+            this.fail(response)
+            return response
+        }
+
+        this.setStatus('generating', chunked ? t('mapReduce.combine') : t('mapReduce.generate'))
+        this.updateStep('reduce', 'in_progress')
+
+        const response = await reduce(content, chunked)
+        if (!response.success) {
+            this.updateStep('reduce', 'error')
+            this.fail(response)
+            return response
+        }
+
+        this.updateStep('reduce', 'completed')
+        this.state.status = 'completed'
+        this.state.progress = 100
+        this.emit()
+        return response
+    }
+
+    private abortedResponse(): AIProviderResponse {
+        return { success: false, content: '', error: 'Request aborted', errorCode: 'ABORTED' }
+    }
+
+    private setStatus(status: ProcessState['status'], currentStep: string): void {
+        this.state.status = status
+        this.state.currentStep = currentStep
+        this.emit()
+    }
+
+    private completeStep(id: string, label?: string): void {
+        const step = this.state.steps.find((s) => s.id === id)
+        if (step && label) step.label = label
+        this.updateStep(id, 'completed')
+    }
+
+    private updateStep(id: string, status: ProcessStep['status']): void {
+        const step = this.state.steps.find((s) => s.id === id)
+        if (!step) return
+
+        step.status = status
+        if (status === 'in_progress') {
+            this.state.currentStep = step.label
+        }
+
+        const completed = this.state.steps.filter((s) => s.status === 'completed').length
+        this.state.progress = Math.round((completed / this.state.steps.length) * 100)
+        this.emit()
+    }
+
+    private fail(response: AIProviderResponse): void {
+        this.state.status = 'error'
+        this.state.error = response.error
+        this.emit()
+    }
+
+    private emit(): void {
+        // 콜백에서 상태를 보관해도 이후 변경에 영향받지 않도록 복사본 전달
+        this.options.onProgress?.({
+            ...this.state,
+            steps: this.state.steps.map((step) => ({ ...step }))
+        })
+    }
+}
@@ -0,0 +1,369 @@
+/**
+ * TemplateRegistry - 분석 템플릿 레지스트리
+ *
+ * 기본 제공 템플릿과 설정에 저장된 사용자 템플릿을 하나의 목록으로 제공합니다.
+ * AnalysisModal, AIDropdown, 설정 탭이 모두 이 목록을 사용합니다.
+ * 볼트의 Markdown 파일(frontmatter + 본문)에서 템플릿을 가져올 수 있습니다.
+ */
+
+import { TFile, Vault } from 'obsidian'
+import { parse } from 'yaml'
+import { AI_PROVIDERS, AIProviderType, AnalysisTemplate, TemplateOutputFormat } from './types'
+import { MessageKey, t } from '../i18n'
+
+export interface TemplateVariables {
+    content: string
+    title?: string
+    url?: string
+    language?: string
+}
+
+const OUTPUT_FORMATS: TemplateOutputFormat[] = ['markdown', 'summary', 'bullets', 'qa']
+
+/**
+ * 기본 제공 템플릿
+ */
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+    {
+        id: 'basic-summary',
+        name: '📋 기본 요약',
+        description: '페이지 내용을 간결하게 요약합니다.',
+        icon: 'file-text',
+        systemPrompt: '',
+        outputFormat: 'markdown',
+        builtIn: true,
+        userPrompt: `다음 웹 페이지 내용을 요약해주세요:
+
+## 요약 요구사항
+- 핵심 내용을 3-5개의 주요 포인트로 정리
+- 중요한 정보와 결론을 강조
+- 전문 용어는 간단히 설명 추가
+- 응답 언어: {{language}}
+
+## 원본 내용
+{{content}}`
+    },
+    {
+        id: 'study-note',
+        name: '📚 학습 노트',
+        description: '학습에 최적화된 형태로 정리합니다.',
+        icon: 'book',
+        systemPrompt: '',
+        outputFormat: 'markdown',
+        builtIn: true,
+        userPrompt: `다음 내용을 학습 노트 형태로 정리해주세요:
+
+## 정리 형식
+1. **핵심 개념**: 주요 개념과 정의
+2. **중요 포인트**: 기억해야 할 핵심 사항
+3. **예시/사례**: 이해를 돕는 구체적 예시
+4. **질문 & 답변**: 자주 묻는 질문 형태로 정리
+5. **복습 키워드**: 복습용 키워드 목록
+
+응답 언어: {{language}}
+
+## 원본 내용
+{{content}}`
+    },
+    {
+        id: 'analysis-report',
+        name: '📊 분석 리포트',
+        description: '심층 분석 리포트를 생성합니다.',
+        icon: 'bar-chart',
+        systemPrompt: '',
+        outputFormat: 'markdown',
+        builtIn: true,
+        userPrompt: `다음 내용을 분석 리포트 형태로 작성해주세요:
+
+## 리포트 구조
+1. **개요**: 문서의 핵심 주제와 목적
+2. **주요 발견사항**: 중요한 정보와 데이터
+3. **분석**: 내용에 대한 심층 분석
+4. **시사점**: 도출할 수 있는 인사이트
+5. **결론 및 제안**: 최종 결론과 활용 방안
+
+응답 언어: {{language}}
+
+## 원본 내용
+{{content}}`
+    },
+    {
+        id: 'idea-note',
+        name: '💡 아이디어 노트',
+        description: '아이디어 발굴 및 확장에 초점을 맞춥니다.',
+        icon: 'lightbulb',
+        systemPrompt: '',
+        outputFormat: 'markdown',
+        builtIn: true,
+        userPrompt: `다음 내용에서 아이디어를 발굴하고 확장해주세요:
+
+## 아이디어 정리
+1. **핵심 아이디어**: 문서의 중심 아이디어
+2. **관련 아이디어**: 연관된 추가 아이디어
+3. **적용 방안**: 실제 적용할 수 있는 방법
+4. **발전 가능성**: 더 발전시킬 수 있는 방향
+5. **연결점**: 다른 분야와의 연결 가능성
+
+응답 언어: {{language}}
+
+## 원본 내용
+{{content}}`
+    },
+    {
+        id: 'action-items',
+        name: '✅ 액션 아이템',
+        description: '실행 가능한 태스크 목록을 추출합니다.',
+        icon: 'check-square',
+        systemPrompt: '',
+        outputFormat: 'markdown',
+        builtIn: true,
+        userPrompt: `다음 내용에서 실행 가능한 액션 아이템을 추출해주세요:
+
+## 액션 아이템 형식
+- [ ] 즉시 실행 가능한 태스크
+- [ ] 단기 목표 (1주일 내)
+- [ ] 중기 목표 (1개월 내)
+- [ ] 장기 목표
+
+각 항목에 우선순위와 예상 소요시간을 추가해주세요.
+
+응답 언어: {{language}}
+
+## 원본 내용
+{{content}}`
+    },
+    {
+        id: 'qa-format',
+        name: '❓ Q&A 형식',
+        description: '질문과 답변 형태로 재구성합니다.',
+        icon: 'help-circle',
+        systemPrompt: '',
+        outputFormat: 'qa',
+        builtIn: true,
+        userPrompt: `다음 내용을 Q&A 형식으로 재구성해주세요:
+
+## Q&A 형식
+Q1: [핵심 질문]
+A1: [상세한 답변]
+
+Q2: ...
+
+최소 5개의 Q&A 쌍을 생성하고,
+내용의 핵심을 파악할 수 있는 질문을 만들어주세요.
+
+응답 언어: {{language}}
+
+## 원본 내용
+{{content}}`
+    }
+]
+
+/**
+ * 새 사용자 템플릿 생성
+ */
+export function createEmptyTemplate(name = ''): AnalysisTemplate {
+    return {
+        id: `template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        icon: 'file-text',
+        description: '',
+        systemPrompt: '',
+        userPrompt: '{{content}}',
+        outputFormat: 'markdown'
+    }
+}
+
+/**
+ * 프롬프트의 템플릿 변수 치환
+ * {{content}}, {{title}}, {{url}}, {{language}}를 지원하며, 이전 형식의 {content}도 치환합니다.
+ * 알 수 없는 변수는 그대로 둡니다.
+ */
+export function renderTemplatePrompt(prompt: string, variables: TemplateVariables): string {
+    const values: Record<string, string | undefined> = {
+        content: variables.content,
+        title: variables.title,
+        url: variables.url,
+        language: variables.language
+    }
+
+    // 한 번에 치환해야 본문에 들어 있는 {content} 같은 글자가 다시 치환되지 않음
+    // 치환 결과에 $& 등이 있어도 그대로 들어가도록 함수로 치환
+    return prompt.replace(/\{\{\s*(\w+)\s*\}\}|\{(content)\}/g, (match, name: string | undefined, legacyName: string | undefined) => values[name ?? legacyName ?? ''] ?? match)
+}
+
+/**
+ * 프롬프트에 본문 변수가 있는지 확인
+ */
+export function hasContentVariable(prompt: string): boolean {
+    return /\{\{\s*content\s*\}\}|\{content\}/.test(prompt)
+}
+
+/**
+ * 기본 템플릿과 사용자 템플릿 병합
+ * 같은 id의 사용자 템플릿이 기본 템플릿을 덮어쓰고, 나머지 사용자 템플릿은 뒤에 붙습니다.
+ */
+export function mergeTemplates(builtIn: AnalysisTemplate[], user: AnalysisTemplate[]): AnalysisTemplate[] {
+    const overrides = new Map(user.map((template) => [template.id, template]))
+    const merged = builtIn.map((template) => overrides.get(template.id) ?? template)
+    const builtInIds = new Set(builtIn.map((template) => template.id))
+    return [...merged, ...user.filter((template) => !builtInIds.has(template.id))]
+}
+
+/**
+ * 가져온 템플릿을 기존 목록에 병합 (같은 id는 덮어쓰기)
+ */
+export function upsertTemplates(existing: AnalysisTemplate[], imported: AnalysisTemplate[]): AnalysisTemplate[] {
+    const result = [...existing]
+    for (const template of imported) {
+        const index = result.findIndex((t) => t.id === template.id)
+        if (index >= 0) {
+            result[index] = template
+        } else {
+            result.push(template)
+        }
+    }
+    return result
+}
+
+/**
+ * Markdown 템플릿 파싱
+ *
+ * frontmatter: id, name, description, icon, output, provider, model, temperature (모두 선택)
+ * 본문: "## System" / "## User" 제목으로 구분하며, 제목이 없으면 본문 전체를 사용자 프롬프트로 사용합니다.
+ * 사용자 프롬프트에 {{content}}가 없으면 끝에 붙입니다. 형식이 잘못된 경우 Error를 던집니다.
+ */
+export function parseTemplateMarkdown(markdown: string, fileBasename: string): AnalysisTemplate {
+    const normalized = markdown.replace(/\r\n/g, '\n')
+    const frontmatterMatch = normalized.match(/^---\n([\s\S]*?)\n---\n?/)
+
+    let meta: Record<string, unknown> = {}
+    if (frontmatterMatch) {
+        try {
+            meta = (parse(frontmatterMatch[1]) as Record<string, unknown>) || {}
+        } catch {
+            throw new Error(t('templateRegistry.invalidFrontmatter', { file: fileBasename }))
+        }
+    }
+
+    const body = frontmatterMatch ? normalized.slice(frontmatterMatch[0].length) : normalized
+    const { systemPrompt, userPrompt } = splitPromptSections(body)
+    if (!userPrompt && !systemPrompt) {
+        throw new Error(t('templateRegistry.emptyPrompt', { file: fileBasename }))
+    }
+
+    const template: AnalysisTemplate = {
+        ...createEmptyTemplate(),
+        id: toOptionalString(meta.id) ?? `vault-${slugify(fileBasename)}`,
+        name: toOptionalString(meta.name) ?? fileBasename,
+        description: toOptionalString(meta.description) ?? '',
+        icon: toOptionalString(meta.icon) ?? 'file-text',
+        systemPrompt,
+        userPrompt: hasContentVariable(userPrompt) ? userPrompt : `${userPrompt}\n\n{{content}}`.trim()
+    }
+
+    const output = toOptionalString(meta.output)
+    if (output && OUTPUT_FORMATS.includes(output as TemplateOutputFormat)) {
+        template.outputFormat = output as TemplateOutputFormat
+    }
+
+    const provider = toOptionalString(meta.provider)
+    if (provider && Object.keys(AI_PROVIDERS).includes(provider)) {
+        template.provider = provider as AIProviderType
+    }
+
+    template.model = toOptionalString(meta.model)
+
+    const temperature = Number(meta.temperature)
+    if (meta.temperature !== undefined && !isNaN(temperature)) {
+        template.temperature = Math.min(2, Math.max(0, temperature))
+    }
+
+    return template
+}
+
+/**
+ * 볼트 폴더의 Markdown 파일에서 템플릿 가져오기 (하위 폴더 포함)
+ * 파싱에 실패한 파일은 errors에 담아 반환합니다.
+ */
+export async function loadTemplatesFromVault(vault: Vault, folderPath: string): Promise<{ templates: AnalysisTemplate[]; errors: string[] }> {
+    const prefix = folderPath.replace(/\/+$/, '') + '/'
+    const files = vault.getMarkdownFiles().filter((file: TFile) => file.path.startsWith(prefix))
+
+    const templates: AnalysisTemplate[] = []
+    const errors: string[] = []
+    for (const file of files) {
+        try {
+            const template = parseTemplateMarkdown(await vault.cachedRead(file), file.basename)
+            templates.push({ ...template, sourcePath: file.path })
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error))
+        }
+    }
+
+    return { templates, errors }
+}
+
+function splitPromptSections(body: string): { systemPrompt: string; userPrompt: string } {
+    const headingRegex = /^#{1,6}\s*(system|user)\s*$/gim
+    const headings = Array.from(body.matchAll(headingRegex))
+    if (headings.length === 0) {
+        return { systemPrompt: '', userPrompt: body.trim() }
+    }
+
+    const sections: Record<string, string> = {}
+    headings.forEach((heading, index) => {
+        const start = heading.index! + heading[0].length
+        const end = index + 1 < headings.length ? headings[index + 1].index! : body.length
+        sections[heading[1].toLowerCase()] = body.slice(start, end).trim()
+    })
+
+    return { systemPrompt: sections.system ?? '', userPrompt: sections.user ?? '' }
+}
+
+function slugify(value: string): string {
+    return (
+        value
+            .trim()
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}]+/gu, '-')
+            .replace(/^-+|-+$/g, '') || 'template'
+    )
+}
+
+function toOptionalString(value: unknown): string | undefined {
+    if (typeof value === 'number') return String(value)
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// ============================================
+// Singleton Registry
+// ============================================
+
+let userTemplates: AnalysisTemplate[] = []
+
+export function updateTemplates(templates: AnalysisTemplate[]): void {
+    userTemplates = templates
+}
+
+/**
+ * 사용 가능한 모든 템플릿 (기본 + 사용자)
+ */
+export function getTemplates(): AnalysisTemplate[] {
+    return mergeTemplates(BUILT_IN_TEMPLATES.map(localizeBuiltInTemplate), userTemplates)
+}
+
+/**
+ * 기본 템플릿의 이름과 설명을 현재 UI 언어로 표시 (프롬프트는 그대로)
+ */
+function localizeBuiltInTemplate(template: AnalysisTemplate): AnalysisTemplate {
+    return {
+        ...template,
+        name: t(`builtInTemplate.${template.id}.name` as MessageKey),
+        description: t(`builtInTemplate.${template.id}.description` as MessageKey)
+    }
+}
+
+export function getTemplate(templateId: string | null | undefined): AnalysisTemplate | undefined {
+    if (!templateId) return undefined
+    return getTemplates().find((template) => template.id === templateId)
+}
@@ -0,0 +1,147 @@
+/**
+ * TokenChunker - 토큰 예산 기반 콘텐츠 분할
+ *
+ * 모델별 컨텍스트 크기에 맞춰 긴 본문을 구조 단위(제목 → 문단 → 줄 → 문장)로 나눕니다.
+ * 토큰 수는 추정값이므로 예산에는 여유분을 둡니다.
+ */
+
+import { AIProviderType, AI_PROVIDERS } from './types'
+
+/**
+ * 모델명 패턴별 컨텍스트 크기 (토큰)
+ * 위에서부터 처음 일치하는 항목을 사용하며, 없으면 프로바이더 기본값을 사용합니다.
+ */
+const MODEL_CONTEXT_WINDOWS: { pattern: RegExp; tokens: number }[] = [
+    { pattern: /^gemini-(1\.5|2\.\d)/, tokens: 1_000_000 },
+    { pattern: /^gpt-5/, tokens: 400_000 },
+    { pattern: /^gpt-4\.1/, tokens: 1_000_000 },
+    { pattern: /^(gpt-4o|gpt-4-turbo|o1|o3|o4)/, tokens: 128_000 },
+    { pattern: /^gpt-3\.5/, tokens: 16_000 },
+    { pattern: /^claude-/, tokens: 200_000 },
+    { pattern: /^grok-4-1-fast/, tokens: 2_000_000 },
+    { pattern: /^grok-/, tokens: 131_072 },
+    { pattern: /^glm-4\.6/, tokens: 200_000 },
+    { pattern: /^glm-/, tokens: 128_000 }
+]
+
+// 추정 오차와 프롬프트 지시문을 위한 여유 비율
+const BUDGET_SAFETY_RATIO = 0.8
+
+// 청크 하나의 최대 크기 (컨텍스트가 아주 큰 모델도 부분 요약의 품질을 위해 제한)
+const MAX_CHUNK_TOKENS = 100_000
+
+// 청크 하나의 최소 크기 (컨텍스트가 작은 모델에서 예산이 0 이하로 떨어지지 않도록)
+const MIN_CHUNK_TOKENS = 512
+
+/**
+ * 토큰 수 추정
+ * 평균적으로 1 토큰 = 4 문자 (영어 기준), 한국어가 포함되면 1.5배 적용
+ */
+export function estimateTokens(text: string): number {
+    const hasKorean = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/.test(text)
+    const multiplier = hasKorean ? 1.5 : 1
+    return Math.ceil((text.length / 4) * multiplier)
+}
+
+/**
+ * 모델의 컨텍스트 크기 (토큰)
+ */
+export function getContextWindow(providerId: AIProviderType, model?: string): number {
+    // 로컬 서버는 같은 모델이라도 서버 설정에 따라 컨텍스트 크기가 달라지므로 기본값만 사용
+    if (providerId === 'local') return AI_PROVIDERS.local.contextWindow
+
+    const normalized = (model || '').toLowerCase()
+    const match = MODEL_CONTEXT_WINDOWS.find((entry) => entry.pattern.test(normalized))
+    return match ? match.tokens : AI_PROVIDERS[providerId].contextWindow
+}
+
+/**
+ * 한 번의 요청에 넣을 수 있는 본문 토큰 예산
+ * @param reservedTokens 응답(maxTokens)과 프롬프트 지시문에 쓸 토큰
+ */
+export function getContentBudget(providerId: AIProviderType, model: string | undefined, reservedTokens: number): number {
+    const available = Math.floor((getContextWindow(providerId, model) - reservedTokens) * BUDGET_SAFETY_RATIO)
+    return Math.max(MIN_CHUNK_TOKENS, Math.min(MAX_CHUNK_TOKENS, available))
+}
+
+/**
+ * 본문을 토큰 예산 이하의 청크로 분할
+ * 제목, 빈 줄(문단), 줄바꿈, 문장 경계 순으로 나누고, 그래도 큰 조각은 글자 수로 자릅니다.
+ * 나눈 조각은 예산 안에서 다시 이어 붙여 청크 수를 최소화합니다.
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+    const trimmed = text.trim()
+    if (!trimmed) return []
+    if (estimateTokens(trimmed) <= maxTokens) return [trimmed]
+
+    const pieces = splitToFit(trimmed, maxTokens, 0)
+    return packPieces(pieces, maxTokens)
+}
+
+// 구조 경계 (큰 단위부터). 나눈 조각은 packPieces에서 빈 줄로 다시 이어 붙입니다.
+const BOUNDARIES: RegExp[] = [
+    /\n(?=#{1,6}\s)/, // 마크다운 제목
+    /\n\s*\n/, // 문단
+    /\n/, // 줄
+    /(?<=[.!?。！？])\s+/ // 문장
+]
+
+function splitToFit(text: string, maxTokens: number, level: number): string[] {
+    if (estimateTokens(text) <= maxTokens) return [text]
+
+    if (level >= BOUNDARIES.length) {
+        return hardSplit(text, maxTokens)
+    }
+
+    const parts = text
+        .split(BOUNDARIES[level])
+        .map((part) => part.trim())
+        .filter((part) => part)
+
+    if (parts.length <= 1) {
+        return splitToFit(text, maxTokens, level + 1)
+    }
+
+    return parts.flatMap((part) => splitToFit(part, maxTokens, level + 1))
+}
+
+/**
+ * 경계를 찾지 못한 긴 조각을 글자 수로 자르기 (가능하면 공백에서)
+ */
+function hardSplit(text: string, maxTokens: number): string[] {
+    const ratio = estimateTokens(text) / text.length
+    const maxChars = Math.max(1, Math.floor(maxTokens / ratio))
+    const result: string[] = []
+
+    let rest = text
+    while (rest.length > maxChars) {
+        let cut = rest.lastIndexOf(' ', maxChars)
+        if (cut < maxChars / 2) cut = maxChars
+        result.push(rest.slice(0, cut).trim())
+        rest = rest.slice(cut).trim()
+    }
+    if (rest) result.push(rest)
+
+    return result
+}
+
+/**
+ * 작은 조각들을 예산 안에서 순서대로 이어 붙이기
+ */
+function packPieces(pieces: string[], maxTokens: number): string[] {
+    const chunks: string[] = []
+    let current = ''
+
+    for (const piece of pieces) {
+        const candidate = current ? `${current}\n\n${piece}` : piece
+        if (current && estimateTokens(candidate) > maxTokens) {
+            chunks.push(current)
+            current = piece
+        } else {
+            current = candidate
+        }
+    }
+    if (current) chunks.push(current)
+
+    return chunks
+}
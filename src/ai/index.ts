@@ -8,7 +8,27 @@
 export * from './types'
 
 // AI Service
-export { AIService, initializeAIService, getAIService, updateAIServiceSettings } from './AIService'
+export { AIService, initializeAIService, getAIService, updateAIServiceSettings, hasProviderCredentials } from './AIService'
 
 // Providers
 export * from './providers'
+
+// Long content (chunking & map-reduce)
+export { estimateTokens, getContextWindow, getContentBudget, splitIntoChunks } from './TokenChunker'
+export { MapReduceSummarizer, describeChunkedContent } from './MapReduceSummarizer'
+export type { MapReduceOptions, ReduceFunction } from './MapReduceSummarizer'
+
+// Analysis templates
+export {
+    BUILT_IN_TEMPLATES,
+    createEmptyTemplate,
+    renderTemplatePrompt,
+    hasContentVariable,
+    parseTemplateMarkdown,
+    loadTemplatesFromVault,
+    upsertTemplates,
+    updateTemplates,
+    getTemplates,
+    getTemplate
+} from './TemplateRegistry'
+export type { TemplateVariables } from './TemplateRegistry'
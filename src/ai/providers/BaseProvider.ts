@@ -14,6 +14,29 @@ import {
     AI_PROVIDERS
 } from '../types'
 import { requestUrl, RequestUrlParam } from 'obsidian'
+import { estimateTokens } from '../TokenChunker'
+
+/**
+ * OpenAI 호환 스트리밍 응답 청크 (OpenAI, Grok, GLM, 로컬 서버 공통)
+ */
+interface ChatCompletionStreamChunk {
+    choices?: {
+        index: number
+        delta: {
+            role?: string
+            content?: string | null
+        }
+        finish_reason: string | null
+    }[]
+    usage?: {
+        total_tokens: number
+    } | null
+    error?:
+        | {
+              message: string
+          }
+        | string
+}
 
 export abstract class BaseProvider implements AIProvider {
     abstract readonly id: AIProviderType
@@ -41,10 +64,170 @@ export abstract class BaseProvider implements AIProvider {
         }
     }
 
+    /**
+     * SSE 스트리밍 요청 헬퍼
+     * requestUrl은 응답 전체를 한 번에 반환하므로 스트리밍에는 fetch를 사용합니다.
+     * 이벤트 블록마다 onEvent(data, event)를 호출하며, onEvent에서 던진 에러는 그대로 전파됩니다.
+     */
+    protected async streamRequest(
+        url: string,
+        options: { method?: string; headers: Record<string, string>; body: string; signal?: AbortSignal },
+        onEvent: (data: string, event: string | null) => void
+    ): Promise<void> {
+        let response: Response
+        try {
+            response = await fetch(url, {
+                method: options.method ?? 'POST',
+                headers: options.headers,
+                body: options.body,
+                signal: options.signal
+            })
+        } catch (error) {
+            if (error instanceof Error && error.name === 'AbortError') {
+                throw error
+            }
+            throw new Error(`Network error: ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        if (!response.ok) {
+            const body = await response.text().catch(() => '')
+            throw new Error(`API request failed: status ${response.status} ${this.extractErrorMessage(body)}`.trim())
+        }
+
+        if (!response.body) {
+            throw new Error('Network error: streaming response body is not available')
+        }
+
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            buffer = this.dispatchEvents(buffer + decoder.decode(value, { stream: true }), onEvent)
+        }
+
+        // 마지막 이벤트가 빈 줄 없이 끝난 경우 처리
+        this.dispatchEvents(buffer + decoder.decode() + '\n\n', onEvent)
+    }
+
+    /**
+     * OpenAI 호환 /chat/completions 스트리밍 요청
+     * delta를 받을 때마다 onChunk를 호출하고, 취소 등으로 중단된 경우에도 받은 부분까지는 돌려줍니다.
+     */
+    protected async streamChatCompletion(
+        url: string,
+        headers: Record<string, string>,
+        requestBody: object,
+        onChunk: (chunk: string) => void,
+        signal?: AbortSignal
+    ): Promise<AIProviderResponse> {
+        let content = ''
+        let tokensUsed: number | undefined
+
+        try {
+            await this.streamRequest(url, { headers, body: JSON.stringify(requestBody), signal }, (data) => {
+                if (data === '[DONE]') return
+
+                const chunk = this.parseEventData<ChatCompletionStreamChunk>(data)
+                if (!chunk) return
+                if (chunk.error) {
+                    throw new Error(typeof chunk.error === 'string' ? chunk.error : chunk.error.message || 'Unknown error')
+                }
+
+                const delta = chunk.choices?.[0]?.delta?.content
+                if (delta) {
+                    content += delta
+                    onChunk(delta)
+                }
+                if (chunk.usage) {
+                    tokensUsed = chunk.usage.total_tokens
+                }
+            })
+
+            if (!content) {
+                return {
+                    success: false,
+                    content: '',
+                    error: 'No response generated'
+                }
+            }
+
+            return {
+                success: true,
+                content,
+                tokensUsed
+            }
+        } catch (error) {
+            return { ...this.handleError(error), content }
+        }
+    }
+
+    /**
+     * 버퍼에서 완성된 SSE 이벤트를 처리하고 남은 부분을 반환
+     */
+    private dispatchEvents(buffer: string, onEvent: (data: string, event: string | null) => void): string {
+        const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n')
+        const rest = blocks.pop() ?? ''
+
+        for (const block of blocks) {
+            let event: string | null = null
+            const dataLines: string[] = []
+
+            for (const line of block.split('\n')) {
+                if (line.startsWith('event:')) {
+                    event = line.slice(6).trim()
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.slice(5).replace(/^ /, ''))
+                }
+            }
+
+            if (dataLines.length > 0) {
+                onEvent(dataLines.join('\n'), event)
+            }
+        }
+
+        return rest
+    }
+
+    /**
+     * 스트림 이벤트 데이터(JSON) 파싱, 실패 시 null
+     */
+    protected parseEventData<T>(data: string): T | null {
+        try {
+            return JSON.parse(data) as T
+        } catch {
+            return null
+        }
+    }
+
+    /**
+     * 에러 응답 본문에서 메시지 추출
+     */
+    private extractErrorMessage(body: string): string {
+        const parsed = this.parseEventData<{ error?: { message?: string } | string; message?: string }>(body)
+        if (parsed) {
+            if (typeof parsed.error === 'string') return parsed.error
+            if (parsed.error?.message) return parsed.error.message
+            if (parsed.message) return parsed.message
+        }
+        return body.substring(0, 200)
+    }
+
     /**
      * 공통 에러 핸들링
      */
     protected handleError(error: unknown): AIProviderResponse {
+        if (error instanceof Error && error.name === 'AbortError') {
+            return {
+                success: false,
+                content: '',
+                error: 'Request cancelled.',
+                errorCode: 'ABORTED'
+            }
+        }
+
         let errorMessage = 'Unknown error occurred'
 
         if (error instanceof Error) {
@@ -81,6 +264,15 @@ export abstract class BaseProvider implements AIProvider {
             }
         }
 
+        if (errorMessage.startsWith('Network error')) {
+            return {
+                success: false,
+                content: '',
+                error: errorMessage,
+                errorCode: 'NETWORK'
+            }
+        }
+
         return {
             success: false,
             content: '',
@@ -93,11 +285,7 @@ export abstract class BaseProvider implements AIProvider {
      * 토큰 수 추정 (간단한 추정)
      */
     protected estimateTokens(text: string): number {
-        // 간단한 추정: 평균적으로 1 토큰 = 4 문자 (영어 기준)
-        // 한국어는 더 많은 토큰을 사용하므로 1.5배 적용
-        const hasKorean = /[ㄱ-ㅎ|ㅏ-ㅣ|가-힣]/.test(text)
-        const multiplier = hasKorean ? 1.5 : 1
-        return Math.ceil((text.length / 4) * multiplier)
+        return estimateTokens(text)
     }
 
     /**
@@ -24,6 +24,7 @@ interface ClaudeRequest {
     system?: string
     max_tokens: number
     temperature?: number
+    stream?: boolean
 }
 
 interface ClaudeResponse {
@@ -47,6 +48,27 @@ interface ClaudeResponse {
     }
 }
 
+interface ClaudeStreamEvent {
+    type: string
+    message?: {
+        usage?: {
+            input_tokens: number
+            output_tokens: number
+        }
+    }
+    delta?: {
+        type?: string
+        text?: string
+    }
+    usage?: {
+        output_tokens: number
+    }
+    error?: {
+        type: string
+        message: string
+    }
+}
+
 export class ClaudeProvider extends BaseProvider {
     readonly id: AIProviderType = 'claude'
     readonly name = 'Anthropic Claude'
@@ -154,6 +176,91 @@ export class ClaudeProvider extends BaseProvider {
         }
     }
 
+    /**
+     * 스트리밍 텍스트 생성 (SSE)
+     */
+    async generateTextStream(
+        messages: AIMessage[],
+        apiKey: string,
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/messages`
+
+        const { claudeMessages, systemPrompt } = this.convertMessages(messages)
+
+        const requestBody: ClaudeRequest = {
+            model,
+            messages: claudeMessages,
+            max_tokens: options?.maxTokens ?? 4096,
+            temperature: options?.temperature ?? 0.7,
+            stream: true
+        }
+
+        if (systemPrompt) {
+            requestBody.system = systemPrompt
+        }
+
+        let content = ''
+        let inputTokens = 0
+        let outputTokens = 0
+
+        try {
+            await this.streamRequest(
+                url,
+                {
+                    headers: {
+                        'x-api-key': apiKey,
+                        'anthropic-version': this.API_VERSION,
+                        // fetch로 직접 호출할 때 필요한 CORS 허용 헤더
+                        'anthropic-dangerous-direct-browser-access': 'true',
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify(requestBody),
+                    signal: options?.signal
+                },
+                (data) => {
+                    const event = this.parseEventData<ClaudeStreamEvent>(data)
+                    if (!event) return
+
+                    switch (event.type) {
+                        case 'message_start':
+                            inputTokens = event.message?.usage?.input_tokens ?? 0
+                            break
+                        case 'content_block_delta':
+                            if (event.delta?.type === 'text_delta' && event.delta.text) {
+                                content += event.delta.text
+                                onChunk(event.delta.text)
+                            }
+                            break
+                        case 'message_delta':
+                            outputTokens = event.usage?.output_tokens ?? outputTokens
+                            break
+                        case 'error':
+                            throw new Error(event.error?.message || 'Stream error')
+                    }
+                }
+            )
+
+            if (!content) {
+                return {
+                    success: false,
+                    content: '',
+                    error: 'No response generated'
+                }
+            }
+
+            return {
+                success: true,
+                content,
+                tokensUsed: inputTokens + outputTokens || undefined
+            }
+        } catch (error) {
+            return { ...this.handleError(error), content }
+        }
+    }
+
     /**
      * 메시지를 Claude 형식으로 변환
      */
@@ -188,4 +188,40 @@ export class GLMProvider extends BaseProvider {
             return this.handleError(error)
         }
     }
+
+    /**
+     * 스트리밍 텍스트 생성 (SSE)
+     */
+    async generateTextStream(
+        messages: AIMessage[],
+        apiKey: string,
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/chat/completions`
+        const token = this.generateToken(apiKey)
+
+        const requestBody: GLMRequest = {
+            model,
+            messages: messages.map((msg) => ({
+                role: msg.role,
+                content: msg.content
+            })),
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            stream: true
+        }
+
+        return this.streamChatCompletion(
+            url,
+            {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            requestBody,
+            onChunk,
+            options?.signal
+        )
+    }
 }
@@ -154,6 +154,86 @@ export class GeminiProvider extends BaseProvider {
         }
     }
 
+    /**
+     * 스트리밍 텍스트 생성 (SSE)
+     * 각 이벤트는 GeminiResponse와 같은 형식의 부분 응답입니다.
+     */
+    async generateTextStream(
+        messages: AIMessage[],
+        apiKey: string,
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`
+
+        const { contents, systemInstruction } = this.convertMessages(messages)
+
+        const requestBody: GeminiRequest = {
+            contents,
+            generationConfig: {
+                temperature: options?.temperature ?? 0.7,
+                maxOutputTokens: options?.maxTokens ?? 4096,
+                topP: 0.95,
+                topK: 40
+            }
+        }
+
+        if (systemInstruction) {
+            requestBody.systemInstruction = {
+                parts: [{ text: systemInstruction }]
+            }
+        }
+
+        let content = ''
+        let tokensUsed: number | undefined
+
+        try {
+            await this.streamRequest(
+                url,
+                {
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify(requestBody),
+                    signal: options?.signal
+                },
+                (data) => {
+                    const chunk = this.parseEventData<GeminiResponse>(data)
+                    if (!chunk) return
+                    if (chunk.error) {
+                        throw new Error(chunk.error.message)
+                    }
+
+                    const text = (chunk.candidates?.[0]?.content?.parts || []).map((part) => part.text || '').join('')
+                    if (text) {
+                        content += text
+                        onChunk(text)
+                    }
+                    if (chunk.usageMetadata) {
+                        tokensUsed = chunk.usageMetadata.totalTokenCount
+                    }
+                }
+            )
+
+            if (!content) {
+                return {
+                    success: false,
+                    content: '',
+                    error: 'No response generated'
+                }
+            }
+
+            return {
+                success: true,
+                content,
+                tokensUsed
+            }
+        } catch (error) {
+            return { ...this.handleError(error), content }
+        }
+    }
+
     /**
      * 메시지를 Gemini 형식으로 변환
      */
@@ -140,4 +140,39 @@ export class GrokProvider extends BaseProvider {
             return this.handleError(error)
         }
     }
+
+    /**
+     * 스트리밍 텍스트 생성 (SSE)
+     */
+    async generateTextStream(
+        messages: AIMessage[],
+        apiKey: string,
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/chat/completions`
+
+        const requestBody: GrokRequest = {
+            model,
+            messages: messages.map((msg) => ({
+                role: msg.role,
+                content: msg.content
+            })),
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            stream: true
+        }
+
+        return this.streamChatCompletion(
+            url,
+            {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            requestBody,
+            onChunk,
+            options?.signal
+        )
+    }
 }
@@ -0,0 +1,220 @@
+/**
+ * LocalProvider - Local OpenAI-compatible Server Integration
+ *
+ * OpenAI 호환 API를 제공하는 로컬/자체 호스팅 서버를 통한 텍스트 생성을 구현합니다.
+ * (Ollama, LM Studio, llama.cpp server, vLLM 등)
+ * 엔드포인트는 설정에서 지정하며, API 키는 선택 사항입니다.
+ */
+
+import { BaseProvider } from './BaseProvider'
+import { AIProviderType, AIProviderConfig, AIProviderResponse, AIMessage, AIRequestOptions, AI_PROVIDERS } from '../types'
+
+interface LocalMessage {
+    role: 'system' | 'user' | 'assistant'
+    content: string
+}
+
+interface LocalRequest {
+    model: string
+    messages: LocalMessage[]
+    temperature?: number
+    max_tokens?: number
+    stream?: boolean
+}
+
+interface LocalResponse {
+    choices?: {
+        index: number
+        message: {
+            role: string
+            content: string
+        }
+        finish_reason: string
+    }[]
+    usage?: {
+        prompt_tokens: number
+        completion_tokens: number
+        total_tokens: number
+    }
+    error?:
+        | {
+              message: string
+          }
+        | string
+}
+
+interface LocalModelList {
+    data?: { id: string }[]
+}
+
+export class LocalProvider extends BaseProvider {
+    readonly id: AIProviderType = 'local'
+    readonly name = 'Local (OpenAI-compatible)'
+
+    private endpoint: string
+
+    constructor(endpoint = '') {
+        super()
+        this.endpoint = LocalProvider.normalizeEndpoint(endpoint)
+    }
+
+    /**
+     * 엔드포인트 정규화
+     * 끝의 슬래시를 제거하고, 경로 없이 호스트만 입력한 경우 /v1을 붙입니다.
+     * (예: http://localhost:11434 → http://localhost:11434/v1)
+     */
+    static normalizeEndpoint(endpoint: string): string {
+        const trimmed = endpoint.trim().replace(/\/+$/, '')
+        if (!trimmed) return ''
+
+        try {
+            const url = new URL(trimmed)
+            if (url.pathname === '/' || url.pathname === '') {
+                return `${trimmed}/v1`
+            }
+        } catch {
+            // URL 형식이 아니면 그대로 사용 (요청 시 에러로 표시됨)
+        }
+        return trimmed
+    }
+
+    /**
+     * 엔드포인트 변경 (설정 변경 시)
+     */
+    setEndpoint(endpoint: string): void {
+        this.endpoint = LocalProvider.normalizeEndpoint(endpoint)
+    }
+
+    get config(): AIProviderConfig {
+        return {
+            ...AI_PROVIDERS.local,
+            endpoint: this.endpoint || AI_PROVIDERS.local.endpoint
+        }
+    }
+
+    /**
+     * 요청 헤더 (키가 있을 때만 Authorization 추가)
+     */
+    private buildHeaders(apiKey: string): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        }
+        if (apiKey && apiKey.trim()) {
+            headers['Authorization'] = `Bearer ${apiKey.trim()}`
+        }
+        return headers
+    }
+
+    private getErrorMessage(error: LocalResponse['error']): string {
+        return typeof error === 'string' ? error : error?.message || 'Unknown error'
+    }
+
+    /**
+     * 서버에서 사용 가능한 모델 목록 조회 (/v1/models)
+     */
+    async listModels(apiKey = ''): Promise<string[]> {
+        const url = `${this.config.endpoint}/models`
+
+        const response = await this.makeRequest<LocalModelList>(url, {
+            url,
+            method: 'GET',
+            headers: this.buildHeaders(apiKey)
+        })
+
+        if (!response || !Array.isArray(response.data)) {
+            throw new Error('Invalid model list response')
+        }
+
+        return response.data
+            .map((model) => model.id)
+            .filter((id) => typeof id === 'string' && id.length > 0)
+            .sort((a, b) => a.localeCompare(b))
+    }
+
+    /**
+     * 연결 테스트 (API 키 없이도 동작)
+     * 모델 목록을 정상적으로 받아오면 성공으로 판단합니다.
+     */
+    async testApiKey(apiKey: string): Promise<boolean> {
+        try {
+            await this.listModels(apiKey)
+            return true
+        } catch (error) {
+            console.error('Local server connection test failed:', error)
+            return false
+        }
+    }
+
+    /**
+     * 텍스트 생성
+     */
+    async generateText(messages: AIMessage[], apiKey: string, options?: AIRequestOptions): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/chat/completions`
+
+        const requestBody: LocalRequest = {
+            model,
+            messages: messages.map((msg) => ({
+                role: msg.role,
+                content: msg.content
+            })),
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            stream: false
+        }
+
+        try {
+            const response = await this.makeRequest<LocalResponse>(url, {
+                url,
+                method: 'POST',
+                headers: this.buildHeaders(apiKey),
+                body: JSON.stringify(requestBody)
+            })
+
+            if (response.error) {
+                return {
+                    success: false,
+                    content: '',
+                    error: this.getErrorMessage(response.error)
+                }
+            }
+
+            if (!response.choices || response.choices.length === 0) {
+                return {
+                    success: false,
+                    content: '',
+                    error: 'No response generated'
+                }
+            }
+
+            return {
+                success: true,
+                content: response.choices[0].message.content,
+                tokensUsed: response.usage?.total_tokens
+            }
+        } catch (error) {
+            return this.handleError(error)
+        }
+    }
+
+    /**
+     * 스트리밍 텍스트 생성 (SSE)
+     */
+    async generateTextStream(messages: AIMessage[], apiKey: string, onChunk: (chunk: string) => void, options?: AIRequestOptions): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/chat/completions`
+
+        const requestBody: LocalRequest = {
+            model,
+            messages: messages.map((msg) => ({
+                role: msg.role,
+                content: msg.content
+            })),
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            stream: true
+        }
+
+        return this.streamChatCompletion(url, this.buildHeaders(apiKey), requestBody, onChunk, options?.signal)
+    }
+}
@@ -24,6 +24,7 @@ interface OpenAIRequest {
     temperature?: number
     max_tokens?: number
     stream?: boolean
+    stream_options?: { include_usage: boolean }
 }
 
 interface OpenAIResponse {
@@ -139,4 +140,40 @@ export class OpenAIProvider extends BaseProvider {
             return this.handleError(error)
         }
     }
+
+    /**
+     * 스트리밍 텍스트 생성 (SSE)
+     */
+    async generateTextStream(
+        messages: AIMessage[],
+        apiKey: string,
+        onChunk: (chunk: string) => void,
+        options?: AIRequestOptions
+    ): Promise<AIProviderResponse> {
+        const model = options?.model || this.config.defaultModel
+        const url = `${this.config.endpoint}/chat/completions`
+
+        const requestBody: OpenAIRequest = {
+            model,
+            messages: messages.map((msg) => ({
+                role: msg.role,
+                content: msg.content
+            })),
+            temperature: options?.temperature ?? 0.7,
+            max_tokens: options?.maxTokens ?? 4096,
+            stream: true,
+            stream_options: { include_usage: true }
+        }
+
+        return this.streamChatCompletion(
+            url,
+            {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            requestBody,
+            onChunk,
+            options?.signal
+        )
+    }
 }
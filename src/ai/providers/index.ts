@@ -10,3 +10,4 @@ export { GrokProvider } from './GrokProvider'
 export { ClaudeProvider } from './ClaudeProvider'
 export { OpenAIProvider } from './OpenAIProvider'
 export { GLMProvider } from './GLMProvider'
+export { LocalProvider } from './LocalProvider'
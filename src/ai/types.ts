@@ -8,7 +8,7 @@
 // AI Provider Types
 // ============================================
 
-export type AIProviderType = 'gemini' | 'grok' | 'claude' | 'openai' | 'glm'
+export type AIProviderType = 'gemini' | 'grok' | 'claude' | 'openai' | 'glm' | 'local'
 
 export interface AIProviderConfig {
     id: AIProviderType
@@ -17,6 +17,8 @@ export interface AIProviderConfig {
     defaultModel: string
     endpoint: string
     apiKeyPrefix?: string // API 키 형식 검증용 (예: 'sk-', 'AIza')
+    requiresApiKey?: boolean // false면 API 키 없이 사용 가능 (로컬 서버)
+    contextWindow: number // 기본 모델의 컨텍스트 크기 (토큰, 모델별 값은 TokenChunker 참고)
 }
 
 export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
@@ -26,21 +28,24 @@ export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
         displayName: 'Gemini',
         defaultModel: 'gemini-2.5-flash',
         endpoint: 'https://generativelanguage.googleapis.com/v1beta',
-        apiKeyPrefix: 'AIza'
+        apiKeyPrefix: 'AIza',
+        contextWindow: 1_000_000
     },
     grok: {
         id: 'grok',
         name: 'xAI Grok',
         displayName: 'Grok',
         defaultModel: 'grok-4-1-fast',
-        endpoint: 'https://api.x.ai/v1'
+        endpoint: 'https://api.x.ai/v1',
+        contextWindow: 131_072
     },
     claude: {
         id: 'claude',
         name: 'Anthropic Claude',
         displayName: 'Claude',
         defaultModel: 'claude-sonnet-4-5-20241022',
-        endpoint: 'https://api.anthropic.com/v1'
+        endpoint: 'https://api.anthropic.com/v1',
+        contextWindow: 200_000
     },
     openai: {
         id: 'openai',
@@ -48,14 +53,27 @@ export const AI_PROVIDERS: Record<AIProviderType, AIProviderConfig> = {
         displayName: 'OpenAI',
         defaultModel: 'gpt-5',
         endpoint: 'https://api.openai.com/v1',
-        apiKeyPrefix: 'sk-'
+        apiKeyPrefix: 'sk-',
+        contextWindow: 128_000
     },
     glm: {
         id: 'glm',
         name: 'Zhipu AI (GLM)',
         displayName: 'GLM',
         defaultModel: 'glm-4.6',
-        endpoint: 'https://open.bigmodel.cn/api/paas/v4'
+        endpoint: 'https://open.bigmodel.cn/api/paas/v4',
+        contextWindow: 128_000
+    },
+    local: {
+        id: 'local',
+        name: 'Local (OpenAI-compatible)',
+        displayName: 'Local',
+        defaultModel: 'llama3.1',
+        // 실제 주소는 AISettings.localEndpoint를 사용 (Ollama, LM Studio, llama.cpp server, vLLM 등)
+        endpoint: 'http://localhost:11434/v1',
+        requiresApiKey: false,
+        // 로컬 모델은 서버 설정(num_ctx 등)에 따라 달라지므로 보수적으로 설정
+        contextWindow: 8_192
     }
 }
 
@@ -67,13 +85,17 @@ export interface AISettings {
     provider: AIProviderType
     apiKeys: Partial<Record<AIProviderType, string>>
     models: Record<AIProviderType, string>
+    localEndpoint: string // 로컬 OpenAI 호환 서버 주소 (비어 있으면 미설정)
     useCustomModel: boolean
     customModel: string
     defaultLanguage: string
     defaultTemplate: string
+    templates: AnalysisTemplate[] // 사용자 정의 분석 템플릿 (같은 id의 기본 템플릿을 덮어씀)
+    templateFolder: string // 템플릿 Markdown 파일을 가져올 볼트 폴더
     autoTags: boolean
     aiNotesFolder: string // AI 생성 노트 저장 폴더
     autoOpenNote: boolean // 노트 생성 후 자동으로 열기
+    noteTemplatePath: string // AI 결과 노트 템플릿 파일 경로 (비어 있으면 기본 템플릿)
 }
 
 export const DEFAULT_AI_SETTINGS: AISettings = {
@@ -84,15 +106,20 @@ export const DEFAULT_AI_SETTINGS: AISettings = {
         grok: 'grok-4-1-fast',
         claude: 'claude-sonnet-4-5-20241022',
         openai: 'gpt-5',
-        glm: 'glm-4.6'
+        glm: 'glm-4.6',
+        local: 'llama3.1'
     },
+    localEndpoint: '',
     useCustomModel: false,
     customModel: '',
     defaultLanguage: '한국어',
     defaultTemplate: 'basic-summary',
+    templates: [],
+    templateFolder: 'Easy Gate/Templates',
     autoTags: true,
     aiNotesFolder: 'AI-Notes', // 기본 AI 노트 폴더
-    autoOpenNote: true // 기본값: 노트 생성 후 자동 열기
+    autoOpenNote: true, // 기본값: 노트 생성 후 자동 열기
+    noteTemplatePath: ''
 }
 
 // ============================================
@@ -106,6 +133,28 @@ export interface ClippingSettings {
     includeDate: boolean
     includeAuthor: boolean
     includeHtml: boolean
+    convertToMarkdown: boolean // 본문 HTML을 마크다운으로 변환 (false면 평문 텍스트)
+    siteRules: SiteRule[] // 사이트별 추출 규칙 (일반 휴리스틱보다 먼저 적용)
+    noteTemplatePath: string // 클리핑 노트 템플릿 파일 경로 (비어 있으면 기본 템플릿)
+    screenshotFormat: 'png' | 'webp' // 스크린샷 첨부 파일 형식
+    archiveFolder: string // 오프라인 아카이브 저장 폴더
+    archiveFormat: 'html' | 'mhtml' // 단일 HTML 또는 MHTML
+}
+
+/**
+ * 사이트별 추출 규칙
+ * hostPattern은 호스트명 글롭 패턴입니다. (예: "*.medium.com", "news.ycombinator.com")
+ */
+export interface SiteRule {
+    id: string
+    hostPattern: string
+    enabled: boolean
+    contentSelectors: string[] // 본문 선택자 (순서대로 시도)
+    removeSelectors: string[] // 본문에서 제거할 선택자
+    titleSelector?: string
+    authorSelector?: string
+    dateSelector?: string
+    preScript?: string // 추출 전에 페이지에서 실행할 스크립트 (예: "더 보기" 펼치기)
 }
 
 export const DEFAULT_CLIPPING_SETTINGS: ClippingSettings = {
@@ -114,7 +163,13 @@ export const DEFAULT_CLIPPING_SETTINGS: ClippingSettings = {
     includeUrl: true,
     includeDate: true,
     includeAuthor: true,
-    includeHtml: false
+    includeHtml: false,
+    convertToMarkdown: true,
+    siteRules: [],
+    noteTemplatePath: '',
+    screenshotFormat: 'png',
+    archiveFolder: 'Easy Gate/Archive',
+    archiveFormat: 'html'
 }
 
 // ============================================
@@ -137,6 +192,7 @@ export interface ClipMetadata {
     siteName?: string
     description?: string
     image?: string
+    tags?: string[]
 }
 
 export interface ClipData {
@@ -148,6 +204,7 @@ export interface ClipData {
     metadata: ClipMetadata
     clippedAt: string
     gateId: string
+    archivePath?: string // 오프라인 아카이브 파일 경로
 }
 
 // ============================================
@@ -164,6 +221,7 @@ export interface AIRequestOptions {
     temperature?: number
     maxTokens?: number
     stream?: boolean
+    signal?: AbortSignal // 진행 중인 요청 취소용
 }
 
 export interface AIRequest {
@@ -214,6 +272,11 @@ export interface AIProvider {
         options?: AIRequestOptions
     ): Promise<AIProviderResponse>
 
+    /**
+     * 사용 가능한 모델 목록 조회 (선택적)
+     */
+    listModels?(apiKey: string): Promise<string[]>
+
     /**
      * 스트리밍 텍스트 생성 (선택적)
      */
@@ -259,15 +322,26 @@ export interface ProcessStep {
 // Template Types
 // ============================================
 
-export type TemplateType = 'basic-summary' | 'study-note' | 'analysis-report' | 'idea-note' | 'multi-source'
+export type TemplateOutputFormat = 'markdown' | 'summary' | 'bullets' | 'qa'
 
-export interface Template {
-    id: TemplateType
+/**
+ * 분석 템플릿
+ * userPrompt에는 {{content}}, {{title}}, {{url}}, {{language}} 변수를 사용할 수 있습니다.
+ * provider/model/temperature가 비어 있으면 분석 시 선택한 값을 사용합니다.
+ */
+export interface AnalysisTemplate {
+    id: string
     name: string
-    icon: string
+    icon: string // Lucide 아이콘 이름
     description: string
     systemPrompt: string
-    userPromptTemplate: string
+    userPrompt: string
+    outputFormat: TemplateOutputFormat
+    provider?: AIProviderType
+    model?: string
+    temperature?: number
+    builtIn?: boolean // 기본 제공 템플릿 (설정에 저장되지 않음)
+    sourcePath?: string // 볼트 Markdown 파일에서 가져온 경우 원본 경로
 }
 
 // ============================================
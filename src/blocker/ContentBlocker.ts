@@ -0,0 +1,236 @@
+/**
+ * ContentBlocker - 게이트 요청 차단
+ *
+ * 볼트에 저장된 필터 목록으로 게이트 세션(partition)의 요청을 걸러내고,
+ * 페이지에는 요소 숨김 CSS를 주입합니다. 게이트마다 차단하지 않을 사이트(허용 목록)를 둘 수 있습니다.
+ *
+ * 세션의 webRequest는 메인 프로세스 API라 @electron/remote로 연결하며,
+ * 세션마다 리스너를 하나만 둘 수 있으므로 같은 프로필을 쓰는 게이트는 리스너를 공유합니다.
+ * 리스너가 있으면 모든 요청이 메인 프로세스와 렌더러를 오가므로, 차단을 켠 동안에만 연결합니다.
+ */
+
+import { normalizePath, requestUrl, TFile, Vault } from 'obsidian'
+import { getElectronRemote } from '../fns/getElectronRemote'
+import { FilterEngine, isSubdomainOf, parseFilterList, RequestType } from './FilterEngine'
+import { ContentBlockerSettings } from './types'
+import WebviewTag = Electron.WebviewTag
+
+export interface ContentBlockerOptions {
+    vault: Vault
+    settings: ContentBlockerSettings
+}
+
+/**
+ * 차단 결과를 받을 webview 주인 (GateTab)
+ */
+export interface BlockerClient {
+    readonly url: string // 현재 페이지 주소
+    readonly allowlist: string[] // 차단하지 않을 사이트 (게이트 설정)
+    recordBlocked(url: string): void
+}
+
+const RESOURCE_TYPES: Record<string, RequestType> = {
+    mainFrame: 'document',
+    subFrame: 'subdocument',
+    stylesheet: 'stylesheet',
+    script: 'script',
+    image: 'image',
+    font: 'font',
+    object: 'object',
+    xhr: 'xmlhttprequest',
+    ping: 'ping',
+    cspReport: 'other',
+    media: 'media',
+    webSocket: 'websocket'
+}
+
+/**
+ * ContentBlocker 클래스
+ */
+export class ContentBlocker {
+    private vault: Vault
+    private settings: ContentBlockerSettings
+    private engine = new FilterEngine()
+    private clients = new Map<number, BlockerClient>()
+    private sessions = new Map<string, Electron.Session>()
+    // 등록된 webview가 쓰는 세션 (차단을 켜면 이 세션들에 리스너 연결)
+    private partitions = new Set<string>()
+    // 마지막으로 읽은 필터 목록 경로 (설정 객체는 제자리에서 바뀌므로 따로 기억)
+    private loadedLists = ''
+
+    constructor(options: ContentBlockerOptions) {
+        this.vault = options.vault
+        this.settings = options.settings
+    }
+
+    get enabled(): boolean {
+        return this.settings.enabled
+    }
+
+    /**
+     * 적용 중인 규칙 수
+     */
+    get filterCount(): number {
+        return this.engine.size
+    }
+
+    /**
+     * 볼트의 필터 목록 파일을 읽어 엔진 재구성 (없는 파일은 건너뜀)
+     */
+    async load(): Promise<void> {
+        this.loadedLists = this.settings.filterLists.join('\n')
+        const lists = []
+        for (const path of this.settings.filterLists) {
+            const file = this.vault.getAbstractFileByPath(normalizePath(path))
+            if (!(file instanceof TFile)) {
+                console.warn(`[ContentBlocker] Filter list not found: ${path}`)
+                continue
+            }
+            lists.push(parseFilterList(await this.vault.cachedRead(file)))
+        }
+        this.engine = new FilterEngine(lists)
+    }
+
+    updateSettings(settings: ContentBlockerSettings): void {
+        this.settings = settings
+        if (settings.filterLists.join('\n') !== this.loadedLists) {
+            this.load()
+        }
+
+        if (settings.enabled) {
+            this.partitions.forEach((partition) => this.attachSession(partition))
+        } else {
+            this.detachSessions()
+        }
+    }
+
+    isFilterList(path: string): boolean {
+        return this.settings.filterLists.some((listPath) => normalizePath(listPath) === path)
+    }
+
+    /**
+     * 공개 필터 목록을 받아 볼트에 저장
+     */
+    async downloadList(url: string, path: string): Promise<void> {
+        const text = (await requestUrl({ url })).text
+        const normalized = normalizePath(path)
+        const folder = normalized.split('/').slice(0, -1).join('/')
+        if (folder && !this.vault.getAbstractFileByPath(folder)) {
+            await this.vault.createFolder(folder)
+        }
+
+        const existing = this.vault.getAbstractFileByPath(normalized)
+        if (existing instanceof TFile) {
+            await this.vault.modify(existing, text)
+        } else {
+            await this.vault.create(normalized, text)
+        }
+    }
+
+    /**
+     * webview를 차단 대상으로 등록 (차단이 켜져 있고 처음 보는 세션이면 요청 리스너 연결)
+     * 반환한 함수를 호출하면 등록을 해제합니다.
+     */
+    register(webview: WebviewTag, partition: string, client: BlockerClient): () => void {
+        const id = webview.getWebContentsId()
+        this.clients.set(id, client)
+        this.partitions.add(partition)
+        if (this.settings.enabled) {
+            this.attachSession(partition)
+        }
+        return () => {
+            if (this.clients.get(id) === client) this.clients.delete(id)
+        }
+    }
+
+    isAllowlisted(pageUrl: string, allowlist: string[]): boolean {
+        let hostname: string
+        try {
+            hostname = new URL(pageUrl).hostname.toLowerCase()
+        } catch {
+            return false
+        }
+        return allowlist.some((site) => isSubdomainOf(hostname, site.trim().toLowerCase()))
+    }
+
+    /**
+     * 페이지에 주입할 요소 숨김 CSS (꺼져 있거나 허용된 사이트면 빈 문자열)
+     */
+    getCosmeticCss(client: BlockerClient): string {
+        if (!this.settings.enabled || !this.settings.cosmeticFiltering || this.isAllowlisted(client.url, client.allowlist)) return ''
+        return this.engine.getCosmeticCss(client.url)
+    }
+
+    /**
+     * 모든 세션의 요청 리스너 해제 (플러그인 종료 시)
+     */
+    detach(): void {
+        this.detachSessions()
+        this.partitions.clear()
+        this.clients.clear()
+    }
+
+    private detachSessions(): void {
+        for (const session of this.sessions.values()) {
+            try {
+                session.webRequest.onBeforeRequest(null)
+            } catch (error) {
+                console.error('[ContentBlocker] Failed to detach session:', error)
+            }
+        }
+        this.sessions.clear()
+    }
+
+    private attachSession(partition: string): void {
+        if (this.sessions.has(partition)) return
+
+        const session = getElectronRemote()?.session.fromPartition(partition)
+        if (!session) {
+            console.warn('[ContentBlocker] Request filtering is not available in this version of Obsidian')
+            return
+        }
+
+        session.webRequest.onBeforeRequest((details, callback) => {
+            callback(this.shouldBlock(details) ? { cancel: true } : {})
+        })
+        this.sessions.set(partition, session)
+    }
+
+    private shouldBlock(details: Electron.OnBeforeRequestListenerDetails): boolean {
+        if (!this.settings.enabled) return false
+
+        // 페이지 자체는 차단하지 않음 (차단 페이지 없이 빈 화면이 되므로)
+        const type = RESOURCE_TYPES[details.resourceType] ?? 'other'
+        if (type === 'document') return false
+
+        const client = details.webContentsId !== undefined ? this.clients.get(details.webContentsId) : undefined
+        const pageUrl = client?.url || details.referrer
+        if (client && this.isAllowlisted(pageUrl, client.allowlist)) return false
+
+        const result = this.engine.match({ url: details.url, type, pageUrl })
+        if (!result?.blocked) return false
+
+        client?.recordBlocked(details.url)
+        return true
+    }
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let contentBlockerInstance: ContentBlocker | null = null
+
+export function initializeContentBlocker(options: ContentBlockerOptions): ContentBlocker {
+    contentBlockerInstance = new ContentBlocker(options)
+    return contentBlockerInstance
+}
+
+export function getContentBlocker(): ContentBlocker | null {
+    return contentBlockerInstance
+}
+
+export function updateContentBlockerSettings(settings: ContentBlockerSettings): void {
+    if (contentBlockerInstance) {
+        contentBlockerInstance.updateSettings(settings)
+    }
+}
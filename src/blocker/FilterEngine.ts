@@ -0,0 +1,467 @@
+/**
+ * FilterEngine - EasyList/uBlock 형식 필터 목록 파서와 매처
+ *
+ * Electron 없이 동작하는 순수 모듈입니다. (ContentBlocker가 세션 요청에 적용)
+ *
+ * 지원 문법:
+ * - 네트워크 필터: `||host^`, `|http://`, `끝|`, `*`, `^`, `/정규식/`, 예외 `@@`
+ * - 옵션: 리소스 종류(script, image, css, xhr, frame 등과 ~부정), third-party/1p/3p, domain=/from=, important, match-case, all
+ * - 예외 전용 옵션: $elemhide/$ehide, $generichide/$ghide (요소 숨김 비활성화)
+ * - 요소 숨김: `##선택자`, `도메인,~도메인##선택자`, 예외 `#@#`
+ * - hosts 파일 줄: `0.0.0.0 example.com`
+ *
+ * 리다이렉트, 스크립틀릿(##+js), 절차적 선택자(:has-text 등) 같은 확장 문법은 잘못 차단하지 않도록 건너뜁니다.
+ */
+
+export type RequestType = 'document' | 'subdocument' | 'stylesheet' | 'script' | 'image' | 'font' | 'media' | 'object' | 'xmlhttprequest' | 'websocket' | 'ping' | 'other'
+
+export interface NetworkFilter {
+    raw: string
+    exception: boolean
+    important: boolean
+    regex: RegExp
+    token: string | null // 색인 키 (없으면 모든 요청에 대해 검사)
+    types: Set<RequestType> | null // null이면 document를 제외한 모든 종류
+    thirdParty: boolean | null // true: 서드 파티 요청만, false: 퍼스트 파티 요청만
+    includeDomains: string[]
+    excludeDomains: string[]
+    elemhide: boolean // 예외 전용: 페이지의 요소 숨김 전체 해제
+    generichide: boolean // 예외 전용: 일반 요소 숨김 해제
+}
+
+export interface CosmeticFilter {
+    raw: string
+    selector: string
+    exception: boolean
+    includeDomains: string[]
+    excludeDomains: string[]
+}
+
+export interface ParsedFilterList {
+    network: NetworkFilter[]
+    cosmetic: CosmeticFilter[]
+    unsupported: number // 건너뛴 규칙 수
+}
+
+export interface FilterRequest {
+    url: string
+    type: RequestType
+    pageUrl?: string // 요청을 보낸 페이지 (서드 파티, domain= 판단)
+}
+
+export interface FilterMatch {
+    blocked: boolean
+    filter: string // 결정에 사용된 규칙 원문
+}
+
+const TYPE_OPTIONS = new Map<string, RequestType>([
+    ['document', 'document'],
+    ['doc', 'document'],
+    ['subdocument', 'subdocument'],
+    ['frame', 'subdocument'],
+    ['stylesheet', 'stylesheet'],
+    ['css', 'stylesheet'],
+    ['script', 'script'],
+    ['image', 'image'],
+    ['font', 'font'],
+    ['media', 'media'],
+    ['object', 'object'],
+    ['xmlhttprequest', 'xmlhttprequest'],
+    ['xhr', 'xmlhttprequest'],
+    ['websocket', 'websocket'],
+    ['ping', 'ping'],
+    ['beacon', 'ping'],
+    ['other', 'other']
+])
+
+const ALL_TYPES = [...new Set(TYPE_OPTIONS.values())]
+
+// uBlock 절차적 선택자 (CSS로 표현할 수 없음)
+const PROCEDURAL_SELECTOR =
+    /:(has-text|xpath|upward|remove|remove-attr|remove-class|style|matches-css|matches-css-before|matches-css-after|matches-attr|matches-path|matches-media|matches-prop|min-text-length|watch-attr|others|-abp-[\w-]+)\(/
+
+const HOSTS_LINE = /^(?:0\.0\.0\.0|127\.0\.0\.1|::1?)\s+([\w.-]+)\s*(?:#.*)?$/
+
+// 이 정도 길이 이상의 토큰만 색인에 사용 (짧은 토큰은 너무 많은 URL과 겹침)
+const MIN_TOKEN_LENGTH = 2
+
+/**
+ * 필터 목록 전체 파싱
+ */
+export function parseFilterList(text: string): ParsedFilterList {
+    const result: ParsedFilterList = { network: [], cosmetic: [], unsupported: 0 }
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim()
+        if (!line || line.startsWith('!') || (line.startsWith('[') && line.endsWith(']'))) continue
+
+        const filter = parseFilter(line)
+        if (filter === null) {
+            result.unsupported++
+        } else if ('selector' in filter) {
+            result.cosmetic.push(filter)
+        } else {
+            result.network.push(filter)
+        }
+    }
+
+    return result
+}
+
+/**
+ * 규칙 한 줄 파싱 (지원하지 않는 문법이면 null)
+ */
+export function parseFilter(line: string): NetworkFilter | CosmeticFilter | null {
+    const hosts = line.match(HOSTS_LINE)
+    if (hosts) {
+        return hosts[1] === 'localhost' || hosts[1] === '0.0.0.0' ? null : parseNetworkFilter(`||${hosts[1]}^`)
+    }
+
+    // 정규식 필터 안의 #은 요소 숨김 구분자가 아님
+    const cosmetic = line.startsWith('/') ? null : line.match(/^([^#]*)(#@?#|#[?$%]#|#@[?$%]#)(.+)$/)
+    if (cosmetic) {
+        return parseCosmeticFilter(line, cosmetic[1], cosmetic[2], cosmetic[3])
+    }
+
+    return parseNetworkFilter(line)
+}
+
+function parseCosmeticFilter(raw: string, domainText: string, separator: string, selector: string): CosmeticFilter | null {
+    if (separator !== '##' && separator !== '#@#') return null
+    if (selector.startsWith('+js(') || selector.startsWith('^') || PROCEDURAL_SELECTOR.test(selector)) return null
+
+    const { include, exclude } = parseDomainList(domainText, ',')
+    return { raw, selector: selector.trim(), exception: separator === '#@#', includeDomains: include, excludeDomains: exclude }
+}
+
+function parseNetworkFilter(raw: string): NetworkFilter | null {
+    let pattern = raw
+    const exception = pattern.startsWith('@@')
+    if (exception) pattern = pattern.substring(2)
+
+    const filter: NetworkFilter = {
+        raw,
+        exception,
+        important: false,
+        regex: /$^/,
+        token: null,
+        types: null,
+        thirdParty: null,
+        includeDomains: [],
+        excludeDomains: [],
+        elemhide: false,
+        generichide: false
+    }
+
+    // 옵션 ($ 뒤) - 정규식 필터 안의 $는 옵션 구분자가 아님
+    let matchCase = false
+    const optionIndex = findOptionSeparator(pattern)
+    if (optionIndex >= 0) {
+        const included = new Set<RequestType>()
+        const excluded = new Set<RequestType>()
+
+        for (const option of pattern.substring(optionIndex + 1).split(',')) {
+            const negated = option.startsWith('~')
+            const name = (negated ? option.substring(1) : option).trim().toLowerCase()
+            const [key, value] = name.split(/=(.*)/)
+
+            const type = TYPE_OPTIONS.get(key)
+            if (type) {
+                ;(negated ? excluded : included).add(type)
+            } else if (key === 'third-party' || key === '3p') {
+                filter.thirdParty = !negated
+            } else if (key === 'first-party' || key === '1p') {
+                filter.thirdParty = negated
+            } else if ((key === 'domain' || key === 'from') && value) {
+                const { include, exclude } = parseDomainList(value, '|')
+                filter.includeDomains = include
+                filter.excludeDomains = exclude
+            } else if (key === 'important') {
+                filter.important = true
+            } else if (key === 'match-case') {
+                matchCase = true
+            } else if (key === 'all') {
+                ALL_TYPES.forEach((type) => included.add(type))
+            } else if (exception && (key === 'elemhide' || key === 'ehide')) {
+                filter.elemhide = true
+            } else if (exception && (key === 'generichide' || key === 'ghide')) {
+                filter.generichide = true
+            } else {
+                return null
+            }
+        }
+
+        if (included.size > 0 || excluded.size > 0) {
+            const base = included.size > 0 ? [...included] : ALL_TYPES.filter((type) => type !== 'document')
+            filter.types = new Set(base.filter((type) => !excluded.has(type)))
+        }
+        pattern = pattern.substring(0, optionIndex)
+    }
+
+    if (filter.elemhide || filter.generichide) {
+        filter.types = new Set(['document'])
+    }
+
+    // 정규식 필터
+    if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+        try {
+            filter.regex = new RegExp(pattern.slice(1, -1), matchCase ? '' : 'i')
+        } catch {
+            return null
+        }
+        return filter
+    }
+
+    if (!pattern || pattern === '*' || pattern === '|' || pattern === '||') {
+        // 옵션만 있는 규칙 (예: $third-party,domain=example.com)은 모든 URL에 해당
+        if (optionIndex < 0) return null
+        filter.regex = /^/
+        return filter
+    }
+
+    filter.regex = compilePattern(pattern, matchCase)
+    filter.token = findToken(pattern)
+    return filter
+}
+
+/**
+ * 옵션 구분자($) 위치 - 마지막 $ 뒤가 옵션처럼 보일 때만 인정
+ */
+function findOptionSeparator(pattern: string): number {
+    if (pattern.startsWith('/')) {
+        const end = pattern.lastIndexOf('/')
+        const index = pattern.indexOf('$', end)
+        return end > 0 ? index : -1
+    }
+    const index = pattern.lastIndexOf('$')
+    return index >= 0 && /^[~\w-]+(=|,|$)/.test(pattern.substring(index + 1)) ? index : -1
+}
+
+/**
+ * ABP 패턴을 정규식으로 변환
+ */
+function compilePattern(pattern: string, matchCase: boolean): RegExp {
+    let source = pattern
+    let prefix = ''
+    let suffix = ''
+
+    if (source.startsWith('||')) {
+        prefix = '^[a-z][a-z0-9+.-]*:\\/+(?:[^\\/?#]*\\.)?'
+        source = source.substring(2)
+    } else if (source.startsWith('|')) {
+        prefix = '^'
+        source = source.substring(1)
+    }
+    if (source.endsWith('|')) {
+        suffix = '$'
+        source = source.slice(0, -1)
+    }
+
+    const body = source
+        .replace(/\*+/g, '*')
+        .replace(/[.+?${}()|[\]\\/]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\^/g, '(?:[^\\w.%-]|$)')
+
+    return new RegExp(prefix + body + suffix, matchCase ? '' : 'i')
+}
+
+/**
+ * 색인용 토큰 - URL 안에서 반드시 온전한 단어로 나타나는 가장 긴 영숫자 조각
+ */
+function findToken(pattern: string): string | null {
+    const anchoredStart = pattern.startsWith('|')
+    const anchoredEnd = pattern.endsWith('|')
+    const body = pattern.replace(/^\|\|?/, '').replace(/\|$/, '')
+
+    let best: string | null = null
+    for (const match of body.matchAll(/[a-z0-9%]+/gi)) {
+        const start = match.index ?? 0
+        const end = start + match[0].length
+        const before = start === 0 ? (anchoredStart ? '|' : '*') : body[start - 1]
+        const after = end === body.length ? (anchoredEnd ? '|' : '*') : body[end]
+
+        if (before === '*' || after === '*' || match[0].length < MIN_TOKEN_LENGTH) continue
+        if (!best || match[0].length > best.length) best = match[0].toLowerCase()
+    }
+    return best
+}
+
+function parseDomainList(text: string, separator: string): { include: string[]; exclude: string[] } {
+    const include: string[] = []
+    const exclude: string[] = []
+    for (const domain of text.split(separator)) {
+        const value = domain.trim().toLowerCase()
+        if (!value) continue
+        if (value.startsWith('~')) {
+            exclude.push(value.substring(1))
+        } else {
+            include.push(value)
+        }
+    }
+    return { include, exclude }
+}
+
+/**
+ * 호스트가 도메인 자체이거나 그 하위 도메인인지
+ */
+export function isSubdomainOf(hostname: string, domain: string): boolean {
+    return hostname === domain || hostname.endsWith(`.${domain}`)
+}
+
+/**
+ * 등록 가능한 도메인 근사값 (공개 접미사 목록 없이 co.uk 같은 흔한 2단계 접미사만 처리)
+ */
+export function getBaseDomain(hostname: string): string {
+    if (/^[\d.]+$/.test(hostname) || hostname.includes(':')) return hostname
+
+    const labels = hostname.split('.')
+    if (labels.length <= 2) return hostname
+
+    const secondLevel = labels.slice(-2).join('.')
+    const count = /^(co|com|net|org|gov|edu|ac|ne|or|go)\.[a-z]{2}$/.test(secondLevel) ? 3 : 2
+    return labels.slice(-count).join('.')
+}
+
+function getHostname(url: string | undefined): string {
+    if (!url) return ''
+    try {
+        return new URL(url).hostname.toLowerCase()
+    } catch {
+        return ''
+    }
+}
+
+function matchesDomains(hostname: string, include: string[], exclude: string[]): boolean {
+    if (exclude.some((domain) => isSubdomainOf(hostname, domain))) return false
+    return include.length === 0 || include.some((domain) => isSubdomainOf(hostname, domain))
+}
+
+/**
+ * FilterEngine 클래스 - 파싱한 목록을 색인해 요청마다 빠르게 판단
+ */
+export class FilterEngine {
+    private blocking = new Map<string, NetworkFilter[]>()
+    private exceptions = new Map<string, NetworkFilter[]>()
+    private cosmetic: CosmeticFilter[] = []
+    private cosmeticExceptions: CosmeticFilter[] = []
+    private filterCount = 0
+
+    constructor(lists: ParsedFilterList[] = []) {
+        for (const list of lists) {
+            for (const filter of list.network) {
+                const index = filter.exception ? this.exceptions : this.blocking
+                const key = filter.token ?? ''
+                const bucket = index.get(key)
+                if (bucket) {
+                    bucket.push(filter)
+                } else {
+                    index.set(key, [filter])
+                }
+            }
+            for (const filter of list.cosmetic) {
+                ;(filter.exception ? this.cosmeticExceptions : this.cosmetic).push(filter)
+            }
+            this.filterCount += list.network.length + list.cosmetic.length
+        }
+    }
+
+    static fromText(...texts: string[]): FilterEngine {
+        return new FilterEngine(texts.map((text) => parseFilterList(text)))
+    }
+
+    /**
+     * 적용 중인 규칙 수
+     */
+    get size(): number {
+        return this.filterCount
+    }
+
+    /**
+     * 요청 판단 - 해당하는 규칙이 없으면 null, 예외 규칙이 이기면 blocked: false
+     */
+    match(request: FilterRequest): FilterMatch | null {
+        const context = this.createContext(request)
+
+        let blocked: NetworkFilter | null = null
+        for (const filter of this.candidates(this.blocking, context.tokens)) {
+            if (this.matchesFilter(filter, request, context)) {
+                if (filter.important) return { blocked: true, filter: filter.raw }
+                blocked = blocked ?? filter
+            }
+        }
+        if (!blocked) return null
+
+        for (const filter of this.candidates(this.exceptions, context.tokens)) {
+            if (!filter.elemhide && !filter.generichide && this.matchesFilter(filter, request, context)) {
+                return { blocked: false, filter: filter.raw }
+            }
+        }
+        return { blocked: true, filter: blocked.raw }
+    }
+
+    /**
+     * 페이지에 적용할 요소 숨김 선택자
+     */
+    getCosmeticSelectors(pageUrl: string): string[] {
+        const hostname = getHostname(pageUrl)
+        const hideExceptions = this.findDocumentExceptions(pageUrl)
+        if (hideExceptions.some((filter) => filter.elemhide)) return []
+        const genericHidden = hideExceptions.some((filter) => filter.generichide)
+
+        const excepted = new Set(
+            this.cosmeticExceptions.filter((filter) => matchesDomains(hostname, filter.includeDomains, filter.excludeDomains)).map((filter) => filter.selector)
+        )
+
+        const selectors = new Set<string>()
+        for (const filter of this.cosmetic) {
+            const generic = filter.includeDomains.length === 0
+            if (generic && genericHidden) continue
+            if (!matchesDomains(hostname, filter.includeDomains, filter.excludeDomains) || excepted.has(filter.selector)) continue
+            selectors.add(filter.selector)
+        }
+        return [...selectors]
+    }
+
+    /**
+     * 요소 숨김 CSS (선택자 하나가 잘못되어도 나머지는 적용되도록 규칙을 나눔)
+     */
+    getCosmeticCss(pageUrl: string): string {
+        return this.getCosmeticSelectors(pageUrl)
+            .map((selector) => `${selector} { display: none !important; }`)
+            .join('\n')
+    }
+
+    private createContext(request: FilterRequest) {
+        const hostname = getHostname(request.url)
+        const pageHostname = getHostname(request.pageUrl) || hostname
+        return {
+            url: request.url,
+            pageHostname,
+            thirdParty: getBaseDomain(hostname) !== getBaseDomain(pageHostname),
+            tokens: new Set(request.url.toLowerCase().match(/[a-z0-9%]+/g) ?? [])
+        }
+    }
+
+    private *candidates(index: Map<string, NetworkFilter[]>, tokens: Set<string>): Generator<NetworkFilter, void, undefined> {
+        for (const token of tokens) {
+            const bucket = index.get(token)
+            if (bucket) yield* bucket
+        }
+        const generic = index.get('')
+        if (generic) yield* generic
+    }
+
+    private matchesFilter(filter: NetworkFilter, request: FilterRequest, context: ReturnType<FilterEngine['createContext']>): boolean {
+        if (filter.types ? !filter.types.has(request.type) : request.type === 'document') return false
+        if (filter.thirdParty !== null && filter.thirdParty !== context.thirdParty) return false
+        if (!matchesDomains(context.pageHostname, filter.includeDomains, filter.excludeDomains)) return false
+        return filter.regex.test(context.url)
+    }
+
+    private findDocumentExceptions(pageUrl: string): NetworkFilter[] {
+        const request: FilterRequest = { url: pageUrl, type: 'document', pageUrl }
+        const context = this.createContext(request)
+        return [...this.candidates(this.exceptions, context.tokens)].filter((filter) => (filter.elemhide || filter.generichide) && this.matchesFilter(filter, request, context))
+    }
+}
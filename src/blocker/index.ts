@@ -0,0 +1,14 @@
+/**
+ * Content Blocker Module Index
+ *
+ * 게이트 요청 차단과 요소 숨김 기능의 메인 진입점입니다.
+ */
+
+export { ContentBlocker, initializeContentBlocker, getContentBlocker, updateContentBlockerSettings } from './ContentBlocker'
+export type { ContentBlockerOptions, BlockerClient } from './ContentBlocker'
+
+export { FilterEngine, parseFilterList, parseFilter, getBaseDomain, isSubdomainOf } from './FilterEngine'
+export type { CosmeticFilter, FilterMatch, FilterRequest, NetworkFilter, ParsedFilterList, RequestType } from './FilterEngine'
+
+export { DEFAULT_CONTENT_BLOCKER_SETTINGS, KNOWN_FILTER_LISTS } from './types'
+export type { ContentBlockerSettings } from './types'
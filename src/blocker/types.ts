@@ -0,0 +1,23 @@
+/**
+ * Content Blocker Types - 콘텐츠 차단 관련 타입
+ */
+
+export interface ContentBlockerSettings {
+    enabled: boolean
+    filterLists: string[] // 볼트 안의 필터 목록 파일 경로 (EasyList/uBlock 형식)
+    cosmeticFiltering: boolean // 요소 숨김 CSS 주입
+}
+
+export const DEFAULT_CONTENT_BLOCKER_SETTINGS: ContentBlockerSettings = {
+    enabled: true,
+    filterLists: ['Easy Gate/Filters/easylist.txt'],
+    cosmeticFiltering: true
+}
+
+/**
+ * 설정 화면에서 받아올 수 있는 공개 필터 목록
+ */
+export const KNOWN_FILTER_LISTS = [
+    { name: 'EasyList', url: 'https://easylist.to/easylist/easylist.txt', path: 'Easy Gate/Filters/easylist.txt' },
+    { name: 'EasyPrivacy', url: 'https://easylist.to/easylist/easyprivacy.txt', path: 'Easy Gate/Filters/easyprivacy.txt' }
+]
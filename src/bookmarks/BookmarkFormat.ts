@@ -0,0 +1,178 @@
+/**
+ * BookmarkFormat - 북마크 파일(Markdown) 읽기/쓰기
+ *
+ * 북마크는 폴더별 제목 아래 체크리스트로 저장되어 볼트에서 그대로 읽고 편집할 수 있습니다.
+ *
+ * ```
+ * ## Reading
+ * - [ ] [Page title](https://example.com/page) #tag1 #tag2 <!-- added:2024-01-01T00:00:00.000Z gate:gate-id -->
+ * - [x] [Read page](https://example.com/read)
+ * ```
+ *
+ * 체크 여부가 읽음 상태이고, 폴더가 없는 북마크는 첫 제목보다 앞에 둡니다.
+ * 다시 저장할 때는 원래 파일의 줄을 그대로 두고 바뀐 북마크 줄만 고치므로,
+ * 직접 적은 메모, 제목, 빈 폴더 등 북마크 항목이 아닌 줄은 유지됩니다.
+ */
+
+import { BookmarkData } from './types'
+
+const FOLDER_PATTERN = /^#{2,6}\s+(.+?)\s*$/
+const ITEM_PATTERN = /^\s*[-*+]\s+\[([ xX])\]\s+\[((?:\\.|[^\]\\])*)\]\((?:<([^>]*)>|(\S+?))\)(.*)$/
+const META_PATTERN = /<!--(.*?)-->/
+const TAG_PATTERN = /(?:^|\s)#([^\s#<]+)/g
+
+const FILE_HEADER = '<!-- Easy Gate bookmarks: edit freely, one bookmark per list item -->'
+
+/**
+ * Markdown 본문에서 북마크 목록 읽기
+ */
+export function parseBookmarks(markdown: string): BookmarkData[] {
+    const bookmarks: BookmarkData[] = []
+    let folder = ''
+
+    for (const line of markdown.split(/\r?\n/)) {
+        const folderMatch = line.match(FOLDER_PATTERN)
+        if (folderMatch) {
+            folder = folderMatch[1]
+            continue
+        }
+
+        const bookmark = parseItemLine(line, folder)
+        if (bookmark) {
+            bookmarks.push(bookmark)
+        }
+    }
+
+    return bookmarks
+}
+
+/**
+ * 북마크 목록을 원래 파일 내용에 반영한 Markdown 본문 만들기
+ *
+ * - 내용이 그대로인 북마크 줄은 손대지 않고, 바뀐 줄만 다시 씁니다.
+ * - 목록에 없는 북마크 줄(삭제했거나 다른 폴더로 옮긴 것)만 지웁니다.
+ * - 새 북마크는 해당 폴더의 마지막 항목 뒤에 넣고, 폴더 제목이 없으면 파일 끝에 새로 만듭니다.
+ */
+export function serializeBookmarks(bookmarks: BookmarkData[], original = ''): string {
+    const source = original.replace(/\r\n/g, '\n').replace(/\s+$/, '')
+    const lines: string[] = []
+    const pending = [...bookmarks]
+    let folder = ''
+
+    for (const line of source ? source.split('\n') : [FILE_HEADER]) {
+        const folderMatch = line.match(FOLDER_PATTERN)
+        if (folderMatch) {
+            folder = folderMatch[1]
+        }
+
+        const parsed = folderMatch ? null : parseItemLine(line, folder)
+        if (!parsed) {
+            lines.push(line)
+            continue
+        }
+
+        const index = pending.findIndex((bookmark) => bookmark.url === parsed.url && bookmark.folder === folder)
+        if (index < 0) continue
+
+        const [bookmark] = pending.splice(index, 1)
+        const serialized = serializeBookmark(bookmark)
+        // 직접 쓴 형식(* [ ], 태그 순서 등)은 내용이 같으면 그대로 둠
+        lines.push(serializeBookmark(parsed) === serialized ? line : serialized)
+    }
+
+    for (const bookmark of pending) {
+        insertBookmark(lines, bookmark)
+    }
+
+    return lines.join('\n') + '\n'
+}
+
+function parseItemLine(line: string, folder: string): BookmarkData | null {
+    const itemMatch = line.match(ITEM_PATTERN)
+    if (!itemMatch) return null
+
+    const [, check, title, bracketedUrl, plainUrl, rest] = itemMatch
+    const meta = parseMeta(rest.match(META_PATTERN)?.[1] ?? '')
+    const tags = [...rest.replace(META_PATTERN, '').matchAll(TAG_PATTERN)].map((match) => match[1])
+    const addedAt = Date.parse(meta.added ?? '')
+
+    return {
+        url: bracketedUrl ?? plainUrl,
+        title: unescapeTitle(title),
+        folder,
+        tags,
+        read: check !== ' ',
+        addedAt: Number.isFinite(addedAt) ? addedAt : 0,
+        gateId: meta.gate || undefined
+    }
+}
+
+/**
+ * 북마크 줄을 폴더 구역의 마지막 항목 뒤에 넣기
+ * 폴더 없음 구역은 첫 폴더 제목 전까지, 폴더 구역은 제목 다음 줄부터 다음 폴더 제목 전까지입니다.
+ */
+function insertBookmark(lines: string[], bookmark: BookmarkData): void {
+    const item = serializeBookmark(bookmark)
+    let start = bookmark.folder ? -1 : 0
+    let end = lines.length
+    for (let i = 0; i < lines.length; i++) {
+        const folderMatch = lines[i].match(FOLDER_PATTERN)
+        if (!folderMatch) continue
+        if (start >= 0) {
+            end = i
+            break
+        }
+        if (folderMatch[1] === bookmark.folder) {
+            start = i + 1
+        }
+    }
+
+    if (start < 0) {
+        while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop()
+        lines.push('', `## ${bookmark.folder}`, '', item)
+        return
+    }
+
+    for (let i = end - 1; i >= start; i--) {
+        if (ITEM_PATTERN.test(lines[i])) {
+            lines.splice(i + 1, 0, item)
+            return
+        }
+    }
+
+    // 빈 구역 - 다음 제목 앞의 빈 줄은 그대로 두고 그 앞에 넣음
+    let position = end
+    while (position > start && !lines[position - 1].trim()) position--
+    lines.splice(position, 0, ...(position > 0 ? ['', item] : [item]))
+}
+
+function serializeBookmark(bookmark: BookmarkData): string {
+    const tags = bookmark.tags.map((tag) => ` #${tag}`).join('')
+    const meta = [bookmark.addedAt ? `added:${new Date(bookmark.addedAt).toISOString()}` : '', bookmark.gateId ? `gate:${bookmark.gateId}` : ''].filter((part) => part).join(' ')
+
+    return `- [${bookmark.read ? 'x' : ' '}] [${escapeTitle(bookmark.title)}](${encodeUrl(bookmark.url)})${tags}${meta ? ` <!-- ${meta} -->` : ''}`
+}
+
+function parseMeta(text: string): Record<string, string> {
+    const meta: Record<string, string> = {}
+    for (const part of text.trim().split(/\s+/)) {
+        const index = part.indexOf(':')
+        if (index > 0) {
+            meta[part.substring(0, index)] = part.substring(index + 1)
+        }
+    }
+    return meta
+}
+
+function escapeTitle(title: string): string {
+    return title.replace(/[\\[\]]/g, '\\$&').replace(/\s+/g, ' ')
+}
+
+function unescapeTitle(title: string): string {
+    return title.replace(/\\(.)/g, '$1')
+}
+
+// 공백이나 괄호가 있는 주소는 <...>로 감싸 링크 문법이 깨지지 않게 함
+function encodeUrl(url: string): string {
+    return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url
+}
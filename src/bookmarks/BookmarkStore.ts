@@ -0,0 +1,162 @@
+/**
+ * BookmarkStore - 북마크/읽기 목록 저장소
+ *
+ * 북마크는 볼트의 Markdown 파일에 저장되어 다른 노트와 함께 동기화됩니다.
+ * 파일이 외부(동기화, 직접 편집)에서 바뀌면 다시 읽고 'changed' 이벤트를 보냅니다.
+ */
+
+import { EventRef, Events, normalizePath, TAbstractFile, TFile, TFolder, Vault } from 'obsidian'
+import { parseBookmarks, serializeBookmarks } from './BookmarkFormat'
+import { Bookmark, BookmarkData, BookmarkSettings } from './types'
+
+export interface BookmarkStoreOptions {
+    vault: Vault
+    settings: BookmarkSettings
+}
+
+/**
+ * BookmarkStore 클래스
+ */
+export class BookmarkStore extends Events {
+    private vault: Vault
+    private settings: BookmarkSettings
+    private bookmarks: Bookmark[] = []
+    // 마지막으로 읽거나 쓴 파일 내용 (자신이 저장한 변경은 다시 읽지 않음)
+    private lastContent: string | null = null
+
+    constructor(options: BookmarkStoreOptions) {
+        super()
+        this.vault = options.vault
+        this.settings = options.settings
+    }
+
+    get filePath(): string {
+        return normalizePath(this.settings.filePath || 'Easy Gate/Bookmarks.md')
+    }
+
+    async load(): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(this.filePath)
+        const content = file instanceof TFile ? await this.vault.read(file) : ''
+        this.applyContent(content)
+    }
+
+    async updateSettings(settings: BookmarkSettings): Promise<void> {
+        const previousPath = this.filePath
+        this.settings = settings
+        if (this.filePath !== previousPath) {
+            await this.load()
+        }
+    }
+
+    /**
+     * 볼트 파일 변경 처리 (main.ts에서 vault 'modify'/'delete' 이벤트로 호출)
+     */
+    async handleFileChange(file: TAbstractFile): Promise<void> {
+        if (file.path !== this.filePath) return
+
+        const content = file instanceof TFile ? await this.vault.read(file) : ''
+        if (content !== this.lastContent) {
+            this.applyContent(content)
+        }
+    }
+
+    on(name: 'changed', callback: () => void): EventRef {
+        return super.on(name, callback)
+    }
+
+    getAll(): Bookmark[] {
+        return [...this.bookmarks]
+    }
+
+    findByUrl(url: string): Bookmark | undefined {
+        return this.bookmarks.find((bookmark) => bookmark.url === url)
+    }
+
+    getFolders(): string[] {
+        return [...new Set(this.bookmarks.map((bookmark) => bookmark.folder).filter((folder) => folder))]
+    }
+
+    getTags(): string[] {
+        return [...new Set(this.bookmarks.flatMap((bookmark) => bookmark.tags))].sort()
+    }
+
+    async add(data: Omit<BookmarkData, 'addedAt'>): Promise<Bookmark> {
+        const bookmark = { ...data, id: createId(), addedAt: Date.now() }
+        this.bookmarks.push(bookmark)
+        await this.save()
+        return bookmark
+    }
+
+    async update(bookmark: Bookmark, changes: Partial<BookmarkData>): Promise<void> {
+        Object.assign(bookmark, changes)
+        await this.save()
+    }
+
+    async remove(bookmark: Bookmark): Promise<void> {
+        this.bookmarks = this.bookmarks.filter((candidate) => candidate !== bookmark)
+        await this.save()
+    }
+
+    async setRead(bookmark: Bookmark, read: boolean): Promise<void> {
+        if (bookmark.read === read) return
+        await this.update(bookmark, { read })
+    }
+
+    private applyContent(content: string): void {
+        this.lastContent = content
+        this.bookmarks = parseBookmarks(content).map((data) => ({ ...data, id: createId() }))
+        this.trigger('changed')
+    }
+
+    private async save(): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(this.filePath)
+        if (file instanceof TFile) {
+            // 사용자가 파일에 직접 적은 다른 줄은 유지
+            await this.vault.process(file, (original) => {
+                this.lastContent = serializeBookmarks(this.bookmarks, original)
+                return this.lastContent
+            })
+        } else {
+            const content = serializeBookmarks(this.bookmarks)
+            this.lastContent = content
+            await this.ensureFolder(this.filePath.substring(0, this.filePath.lastIndexOf('/')))
+            await this.vault.create(this.filePath, content)
+        }
+        this.trigger('changed')
+    }
+
+    private async ensureFolder(folderPath: string): Promise<void> {
+        if (!folderPath) return
+
+        const folder = this.vault.getAbstractFileByPath(folderPath)
+        if (!folder) {
+            await this.vault.createFolder(folderPath)
+        } else if (!(folder instanceof TFolder)) {
+            throw new Error(`${folderPath} exists but is not a folder`)
+        }
+    }
+}
+
+function createId(): string {
+    return Math.random().toString(36).substring(2, 10)
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let bookmarkStoreInstance: BookmarkStore | null = null
+
+export function initializeBookmarkStore(options: BookmarkStoreOptions): BookmarkStore {
+    bookmarkStoreInstance = new BookmarkStore(options)
+    return bookmarkStoreInstance
+}
+
+export function getBookmarkStore(): BookmarkStore | null {
+    return bookmarkStoreInstance
+}
+
+export function updateBookmarkSettings(settings: BookmarkSettings): void {
+    if (bookmarkStoreInstance) {
+        bookmarkStoreInstance.updateSettings(settings)
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * BookmarksView - 북마크/읽기 목록 사이드바
+ *
+ * 북마크를 폴더별로 보여주고 검색, 읽음 상태, 태그로 걸러냅니다.
+ * 항목을 누르면 북마크를 추가한 게이트(없으면 임시 게이트)에서 엽니다.
+ */
+
+import { DropdownComponent, ItemView, Menu, setIcon, WorkspaceLeaf } from 'obsidian'
+import OpenGatePlugin from '../main'
+import { BookmarkModal } from '../modals/BookmarkModal'
+import { t } from '../i18n'
+import { getBookmarkStore } from './BookmarkStore'
+import { Bookmark } from './types'
+
+export const BOOKMARKS_VIEW_TYPE = 'easy-gate-bookmarks'
+
+type ReadFilter = 'all' | 'unread' | 'read'
+
+export class BookmarksView extends ItemView {
+    private plugin: OpenGatePlugin
+    private query = ''
+    private readFilter: ReadFilter = 'all'
+    private tagFilter = ''
+    private collapsedFolders = new Set<string>()
+    private tagDropdown: DropdownComponent | null = null
+    private listEl: HTMLElement
+
+    constructor(leaf: WorkspaceLeaf, plugin: OpenGatePlugin) {
+        super(leaf)
+        this.plugin = plugin
+    }
+
+    getViewType(): string {
+        return BOOKMARKS_VIEW_TYPE
+    }
+
+    getDisplayText(): string {
+        return t('bookmark.viewTitle')
+    }
+
+    getIcon(): string {
+        return 'bookmark'
+    }
+
+    async onOpen(): Promise<void> {
+        this.contentEl.empty()
+        this.contentEl.addClass('gate-bookmarks-view')
+
+        const toolbar = this.contentEl.createDiv({ cls: 'gate-bookmarks-toolbar' })
+
+        const searchEl = toolbar.createEl('input', { type: 'search', placeholder: t('bookmark.searchPlaceholder') })
+        searchEl.addEventListener('input', () => {
+            this.query = searchEl.value.trim().toLowerCase()
+            this.renderList()
+        })
+
+        const filterRow = toolbar.createDiv({ cls: 'gate-bookmarks-filters' })
+        new DropdownComponent(filterRow)
+            .addOption('all', t('bookmark.filterAll'))
+            .addOption('unread', t('bookmark.filterUnread'))
+            .addOption('read', t('bookmark.filterRead'))
+            .setValue(this.readFilter)
+            .onChange((value) => {
+                this.readFilter = value as ReadFilter
+                this.renderList()
+            })
+
+        this.tagDropdown = new DropdownComponent(filterRow).onChange((value) => {
+            this.tagFilter = value
+            this.renderList()
+        })
+
+        this.listEl = this.contentEl.createDiv({ cls: 'gate-bookmarks-list' })
+
+        const store = getBookmarkStore()
+        if (store) {
+            this.registerEvent(store.on('changed', () => this.renderList()))
+        }
+        this.renderList()
+    }
+
+    private renderList(): void {
+        const store = getBookmarkStore()
+        if (!store || !this.listEl) return
+
+        this.updateTagOptions(store.getTags())
+        this.listEl.empty()
+
+        const bookmarks = store.getAll().filter((bookmark) => this.matches(bookmark))
+        if (bookmarks.length === 0) {
+            this.listEl.createDiv({ text: t('bookmark.empty'), cls: 'gate-bookmarks-empty' })
+            return
+        }
+
+        // 폴더 없는 북마크를 먼저, 이후 폴더는 파일에 나온 순서대로
+        const folders = new Map<string, Bookmark[]>([['', []]])
+        for (const bookmark of bookmarks) {
+            folders.set(bookmark.folder, [...(folders.get(bookmark.folder) ?? []), bookmark])
+        }
+
+        for (const [folder, items] of folders) {
+            if (items.length === 0) continue
+
+            if (!folder) {
+                items.forEach((bookmark) => this.renderBookmark(this.listEl, bookmark))
+                continue
+            }
+
+            const collapsed = this.collapsedFolders.has(folder)
+            const folderEl = this.listEl.createDiv({ cls: 'gate-bookmarks-folder' })
+            const headerEl = folderEl.createDiv({ cls: 'gate-bookmarks-folder-title' })
+            setIcon(headerEl.createSpan(), collapsed ? 'chevron-right' : 'chevron-down')
+            headerEl.createSpan({ text: `${folder} (${items.length})` })
+            headerEl.addEventListener('click', () => {
+                if (collapsed) {
+                    this.collapsedFolders.delete(folder)
+                } else {
+                    this.collapsedFolders.add(folder)
+                }
+                this.renderList()
+            })
+
+            if (!collapsed) {
+                const childrenEl = folderEl.createDiv({ cls: 'gate-bookmarks-folder-children' })
+                items.forEach((bookmark) => this.renderBookmark(childrenEl, bookmark))
+            }
+        }
+    }
+
+    private renderBookmark(containerEl: HTMLElement, bookmark: Bookmark): void {
+        const itemEl = containerEl.createDiv({ cls: 'gate-bookmark-item' })
+        itemEl.toggleClass('is-read', bookmark.read)
+
+        const checkbox = itemEl.createEl('input', { type: 'checkbox', cls: 'task-list-item-checkbox' })
+        checkbox.checked = bookmark.read
+        checkbox.setAttr('aria-label', bookmark.read ? t('bookmark.markUnread') : t('bookmark.markRead'))
+        checkbox.addEventListener('click', (evt) => evt.stopPropagation())
+        checkbox.addEventListener('change', () => getBookmarkStore()?.setRead(bookmark, checkbox.checked))
+
+        const bodyEl = itemEl.createDiv({ cls: 'gate-bookmark-body' })
+        bodyEl.createDiv({ text: bookmark.title, cls: 'gate-bookmark-title' })
+        const meta = [this.getHost(bookmark.url), ...bookmark.tags.map((tag) => `#${tag}`)]
+        bodyEl.createDiv({ text: meta.join(' '), cls: 'gate-bookmark-meta' })
+        bodyEl.setAttr('title', bookmark.url)
+
+        itemEl.addEventListener('click', () => this.plugin.openBookmark(bookmark))
+        itemEl.addEventListener('contextmenu', (evt) => {
+            evt.preventDefault()
+            this.showBookmarkMenu(bookmark, evt)
+        })
+    }
+
+    private showBookmarkMenu(bookmark: Bookmark, evt: MouseEvent): void {
+        const store = getBookmarkStore()
+        if (!store) return
+
+        const menu = new Menu()
+        menu.addItem((item) =>
+            item
+                .setTitle(t('bookmark.open'))
+                .setIcon('globe')
+                .onClick(() => this.plugin.openBookmark(bookmark))
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(bookmark.read ? t('bookmark.markUnread') : t('bookmark.markRead'))
+                .setIcon(bookmark.read ? 'circle' : 'check-circle')
+                .onClick(() => store.setRead(bookmark, !bookmark.read))
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(t('common.edit'))
+                .setIcon('pencil')
+                .onClick(() => {
+                    new BookmarkModal({
+                        app: this.app,
+                        bookmark,
+                        isNew: false,
+                        folders: store.getFolders(),
+                        onSubmit: (changes) => store.update(bookmark, changes),
+                        onDelete: () => store.remove(bookmark)
+                    }).open()
+                })
+        )
+        menu.addItem((item) =>
+            item
+                .setTitle(t('common.delete'))
+                .setIcon('trash')
+                .onClick(() => store.remove(bookmark))
+        )
+        menu.showAtMouseEvent(evt)
+    }
+
+    private matches(bookmark: Bookmark): boolean {
+        if (this.readFilter === 'unread' && bookmark.read) return false
+        if (this.readFilter === 'read' && !bookmark.read) return false
+        if (this.tagFilter && !bookmark.tags.includes(this.tagFilter)) return false
+        if (!this.query) return true
+
+        return [bookmark.title, bookmark.url, bookmark.folder, ...bookmark.tags].some((text) => text.toLowerCase().includes(this.query))
+    }
+
+    // 태그 목록이 바뀌면 태그 필터 옵션을 다시 만듦
+    private updateTagOptions(tags: string[]): void {
+        if (!this.tagDropdown) return
+
+        if (this.tagFilter && !tags.includes(this.tagFilter)) {
+            this.tagFilter = ''
+        }
+        this.tagDropdown.selectEl.empty()
+        this.tagDropdown.addOption('', t('bookmark.allTags'))
+        tags.forEach((tag) => this.tagDropdown?.addOption(tag, `#${tag}`))
+        this.tagDropdown.setValue(this.tagFilter)
+    }
+
+    private getHost(url: string): string {
+        try {
+            return new URL(url).hostname
+        } catch {
+            return url
+        }
+    }
+}
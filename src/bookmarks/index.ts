@@ -0,0 +1,15 @@
+/**
+ * Bookmarks Module Index
+ *
+ * 북마크/읽기 목록 기능의 메인 진입점입니다.
+ */
+
+export { BookmarkStore, initializeBookmarkStore, getBookmarkStore, updateBookmarkSettings } from './BookmarkStore'
+export type { BookmarkStoreOptions } from './BookmarkStore'
+
+export { parseBookmarks, serializeBookmarks } from './BookmarkFormat'
+
+export { BookmarksView, BOOKMARKS_VIEW_TYPE } from './BookmarksView'
+
+export { DEFAULT_BOOKMARK_SETTINGS } from './types'
+export type { Bookmark, BookmarkData, BookmarkSettings } from './types'
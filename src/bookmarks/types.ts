@@ -0,0 +1,24 @@
+/**
+ * Bookmark Types - 북마크/읽기 목록 관련 타입
+ */
+
+export interface BookmarkSettings {
+    filePath: string // 북마크를 저장할 볼트 Markdown 파일
+}
+
+export const DEFAULT_BOOKMARK_SETTINGS: BookmarkSettings = {
+    filePath: 'Easy Gate/Bookmarks.md'
+}
+
+export interface Bookmark {
+    id: string // 실행 중에만 쓰는 식별자 (파일에는 저장하지 않음)
+    url: string
+    title: string
+    folder: string // 빈 문자열이면 폴더 없음
+    tags: string[]
+    read: boolean
+    addedAt: number // 추가 시각 (ms)
+    gateId?: string // 북마크를 추가한 게이트 (열 때 같은 게이트 설정 사용)
+}
+
+export type BookmarkData = Omit<Bookmark, 'id'>
@@ -0,0 +1,464 @@
+/**
+ * GateBundle - 게이트 묶음 내보내기/가져오기
+ *
+ * 선택한 게이트(옵션, 아이콘, CSS, JS)와 사이트 추출 규칙, 분석 템플릿을 버전이 있는 JSON으로 묶어
+ * 팀원과 같은 게이트 구성을 나눌 수 있게 합니다.
+ *
+ * - 내보내기는 허용된 필드만 복사하므로 API 키 등 설정의 다른 값은 들어가지 않습니다.
+ * - 가져오기는 스키마를 검증한 뒤, id 또는 주소가 같은 기존 항목과 비교한 미리보기를 만들고
+ *   항목마다 고른 처리(추가/덮어쓰기/둘 다 유지/건너뛰기)를 적용합니다.
+ */
+
+import { AnalysisTemplate, AI_PROVIDERS, AIProviderType, SiteRule, TemplateOutputFormat } from '../ai/types'
+import { normalizeSiteRule } from '../clipping/SiteRules'
+import { GateFrameOption, GateFrameOptionType } from '../GateOptions'
+import { GateProfile, PROFILE_COLORS, ProfileColor } from '../profiles/types'
+import { t } from '../i18n'
+
+export const GATE_BUNDLE_FORMAT = 'easy-gate-bundle'
+export const GATE_BUNDLE_VERSION = 1
+
+export interface GateBundle {
+    format: typeof GATE_BUNDLE_FORMAT
+    version: number
+    exportedAt: string
+    gates: GateFrameOption[]
+    profiles: GateProfile[] // 게이트가 쓰는 프로필의 이름과 색상 (세션 데이터는 포함하지 않음)
+    siteRules: SiteRule[]
+    templates: AnalysisTemplate[]
+}
+
+/**
+ * 묶음을 만들거나 가져올 설정 값
+ */
+export interface GateBundleSource {
+    gates: Record<string, GateFrameOption>
+    profiles: GateProfile[]
+    siteRules: SiteRule[]
+    templates: AnalysisTemplate[]
+}
+
+export type BundleItemKind = 'gate' | 'siteRule' | 'template'
+
+// add: 새로 추가, replace: 기존 항목 덮어쓰기(기존 id 유지), keepBoth: 새 id로 추가, skip: 가져오지 않음
+export type BundleImportAction = 'add' | 'replace' | 'keepBoth' | 'skip'
+
+/**
+ * 항목에 들어 있는 페이지 코드 (로그인된 게이트 세션 안에서 실행되므로 미리보기에서 보여줌)
+ */
+export interface BundleItemCode {
+    field: 'css' | 'js' | 'preScript'
+    source: string
+}
+
+/**
+ * 가져오기 미리보기 항목
+ */
+export interface BundleImportItem {
+    kind: BundleItemKind
+    index: number // 묶음 안의 위치
+    name: string
+    detail: string // 게이트 주소, 규칙 패턴, 템플릿 설명
+    existing?: { id: string; name: string; matchedBy: 'id' | 'url' | 'hostPattern' }
+    identical: boolean // 기존 항목과 내용이 같음
+    code: BundleItemCode[]
+    action: BundleImportAction
+}
+
+export interface BundleImportResult {
+    gates: GateFrameOption[] // 추가하거나 바꿀 게이트
+    profiles: GateProfile[] // 새로 추가할 프로필
+    siteRules: SiteRule[] // 병합한 전체 목록
+    templates: AnalysisTemplate[] // 병합한 전체 목록
+    added: number
+    replaced: number
+    skipped: number
+}
+
+// 주소에 남은 인증 값 (쿼리 매개변수 이름)
+const SECRET_PARAM_PATTERN = /^(api[-_]?key|key|token|access[-_]?token|auth|secret|password|pwd|session|sid|sig|signature)$/i
+
+const GATE_POSITIONS: GateFrameOptionType[] = ['left', 'center', 'right']
+const OUTPUT_FORMATS: TemplateOutputFormat[] = ['markdown', 'summary', 'bullets', 'qa']
+
+/**
+ * 선택한 게이트로 묶음 생성
+ */
+export function createGateBundle(source: GateBundleSource, gateIds: string[], options: { siteRules: boolean; templates: boolean }, exportedAt = new Date()): GateBundle {
+    const gates = gateIds.map((id) => source.gates[id]).filter((gate): gate is GateFrameOption => Boolean(gate))
+    const profileKeys = new Set(gates.map((gate) => gate.profileKey).filter(Boolean))
+
+    return {
+        format: GATE_BUNDLE_FORMAT,
+        version: GATE_BUNDLE_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        gates: gates.map((gate) => pickGate({ ...gate, url: redactUrlSecrets(gate.url) })),
+        profiles: source.profiles.filter((profile) => profileKeys.has(profile.key)).map(({ key, name, color }) => ({ key, name, color })),
+        siteRules: options.siteRules ? source.siteRules.map((rule, index) => normalizeSiteRule(rule, index)) : [],
+        templates: options.templates ? source.templates.filter((template) => !template.builtIn).map(pickTemplate) : []
+    }
+}
+
+export function serializeGateBundle(bundle: GateBundle): string {
+    return JSON.stringify(bundle, null, 2)
+}
+
+/**
+ * 주소의 인증 쿼리 매개변수 제거 (예: ?token=...)
+ */
+export function redactUrlSecrets(url: string): string {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return url
+    }
+    const names = [...parsed.searchParams.keys()].filter((name) => SECRET_PARAM_PATTERN.test(name))
+    if (names.length === 0) return url
+
+    names.forEach((name) => parsed.searchParams.delete(name))
+    return parsed.href
+}
+
+/**
+ * JSON 문자열에서 묶음 파싱 및 스키마 검증
+ * 형식이 잘못된 경우 어느 필드가 문제인지 담은 Error를 던집니다.
+ */
+export function parseGateBundle(json: string): GateBundle {
+    let data: unknown
+    try {
+        data = JSON.parse(json)
+    } catch {
+        throw new Error(t('bundle.invalidJson'))
+    }
+
+    if (!isObject(data) || data.format !== GATE_BUNDLE_FORMAT) {
+        throw new Error(t('bundle.notBundle'))
+    }
+    if (typeof data.version !== 'number' || data.version < 1 || data.version > GATE_BUNDLE_VERSION) {
+        throw new Error(t('bundle.unsupportedVersion', { version: String(data.version) }))
+    }
+
+    const errors: string[] = []
+    const gates = readList(data.gates, 'gates', errors).map((raw, index) => readGate(raw, `gates[${index}]`, errors))
+    const profiles = readList(data.profiles, 'profiles', errors, true).map((raw, index) => readProfile(raw, `profiles[${index}]`, errors))
+    const siteRules = readList(data.siteRules, 'siteRules', errors, true).flatMap((raw, index) => {
+        try {
+            return [normalizeSiteRule(raw, index)]
+        } catch (error) {
+            errors.push(`siteRules[${index}]: ${(error as Error).message}`)
+            return []
+        }
+    })
+    const templates = readList(data.templates, 'templates', errors, true).map((raw, index) => readTemplate(raw, `templates[${index}]`, errors))
+
+    if (errors.length > 0) {
+        const shown = errors.slice(0, 5).join('\n')
+        throw new Error(errors.length > 5 ? `${shown}\n${t('bundle.moreErrors', { count: errors.length - 5 })}` : shown)
+    }
+
+    return {
+        format: GATE_BUNDLE_FORMAT,
+        version: data.version,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+        gates: gates as GateFrameOption[],
+        profiles: profiles as GateProfile[],
+        siteRules,
+        templates: templates as AnalysisTemplate[]
+    }
+}
+
+/**
+ * 가져오기 미리보기 - 묶음 항목마다 일치하는 기존 항목과 기본 처리 결정
+ * 기존 항목이 없으면 추가, 내용이 같으면 건너뛰기, 다르면 덮어쓰기가 기본입니다.
+ * 페이지 코드(CSS, JS, 추출 전 스크립트)가 든 항목은 사용자가 코드를 확인하고 고를 때까지 건너뛰기가 기본입니다.
+ */
+export function planBundleImport(bundle: GateBundle, current: GateBundleSource): BundleImportItem[] {
+    const gates = Object.values(current.gates)
+    const items: BundleImportItem[] = []
+
+    bundle.gates.forEach((gate, index) => {
+        const byId = current.gates[gate.id]
+        const byUrl = byId ? undefined : gates.find((candidate) => normalizeUrl(candidate.url) === normalizeUrl(gate.url))
+        const match = byId ?? byUrl
+        items.push(
+            createItem(
+                'gate',
+                index,
+                gate.title,
+                gate.url,
+                match && { id: match.id, name: match.title, matchedBy: byId ? 'id' : 'url' },
+                match ? isSame({ ...pickGate(match), id: gate.id }, gate) : false,
+                collectCode({ css: gate.css, js: gate.js })
+            )
+        )
+    })
+
+    bundle.siteRules.forEach((rule, index) => {
+        const match =
+            current.siteRules.find((candidate) => candidate.id === rule.id) ??
+            current.siteRules.find((candidate) => candidate.hostPattern.trim().toLowerCase() === rule.hostPattern.trim().toLowerCase())
+        items.push(
+            createItem(
+                'siteRule',
+                index,
+                rule.hostPattern,
+                [...rule.contentSelectors, ...rule.removeSelectors.map((selector) => `-${selector}`)].join(', '),
+                match && { id: match.id, name: match.hostPattern, matchedBy: match.id === rule.id ? 'id' : 'hostPattern' },
+                match ? isSame({ ...match, id: rule.id }, rule) : false,
+                collectCode({ preScript: rule.preScript })
+            )
+        )
+    })
+
+    bundle.templates.forEach((template, index) => {
+        const match = current.templates.find((candidate) => candidate.id === template.id)
+        items.push(
+            createItem(
+                'template',
+                index,
+                template.name,
+                template.description,
+                match && { id: match.id, name: match.name, matchedBy: 'id' },
+                match ? isSame(pickTemplate(match), template) : false,
+                []
+            )
+        )
+    })
+
+    return items
+}
+
+/**
+ * 미리보기에서 고른 처리를 적용한 결과 계산 (설정은 바꾸지 않음)
+ */
+export function applyBundleImport(bundle: GateBundle, items: BundleImportItem[], current: GateBundleSource): BundleImportResult {
+    const result: BundleImportResult = {
+        gates: [],
+        profiles: [],
+        siteRules: [...current.siteRules],
+        templates: [...current.templates],
+        added: 0,
+        replaced: 0,
+        skipped: 0
+    }
+    const usedGateIds = new Set(Object.keys(current.gates))
+
+    for (const item of items) {
+        if (item.action === 'skip') {
+            result.skipped++
+            continue
+        }
+        const replacing = item.action === 'replace' && item.existing
+        if (replacing) {
+            result.replaced++
+        } else {
+            result.added++
+        }
+
+        if (item.kind === 'gate') {
+            const gate = { ...bundle.gates[item.index] }
+            if (replacing) {
+                gate.id = item.existing!.id
+            } else if (usedGateIds.has(gate.id)) {
+                gate.id = createUniqueId(gate.id, usedGateIds)
+            }
+            usedGateIds.add(gate.id)
+            result.gates.push(gate)
+        } else if (item.kind === 'siteRule') {
+            upsert(result.siteRules, bundle.siteRules[item.index], replacing ? item.existing!.id : undefined)
+        } else {
+            upsert(result.templates, bundle.templates[item.index], replacing ? item.existing!.id : undefined)
+        }
+    }
+
+    // 가져온 게이트가 쓰는 프로필 중 없는 것만 추가 (같은 키의 기존 프로필은 그대로)
+    const profileKeys = new Set(result.gates.map((gate) => gate.profileKey))
+    result.profiles = bundle.profiles.filter((profile) => profileKeys.has(profile.key) && !current.profiles.some((existing) => existing.key === profile.key))
+    return result
+}
+
+function createItem(
+    kind: BundleItemKind,
+    index: number,
+    name: string,
+    detail: string,
+    existing: BundleImportItem['existing'],
+    identical: boolean,
+    code: BundleItemCode[]
+): BundleImportItem {
+    const action = identical || code.length > 0 ? 'skip' : existing ? 'replace' : 'add'
+    return { kind, index, name, detail, existing, identical, code, action }
+}
+
+function collectCode(fields: Partial<Record<BundleItemCode['field'], string>>): BundleItemCode[] {
+    return (Object.keys(fields) as BundleItemCode['field'][]).filter((field) => fields[field]?.trim()).map((field) => ({ field, source: fields[field]! }))
+}
+
+/**
+ * 기존 항목을 덮어쓰거나(id 지정) 새 id로 추가
+ */
+function upsert<T extends { id: string }>(list: T[], item: T, replaceId?: string): void {
+    if (replaceId) {
+        const index = list.findIndex((existing) => existing.id === replaceId)
+        list[index >= 0 ? index : list.length] = { ...item, id: replaceId }
+        return
+    }
+    const ids = new Set(list.map((existing) => existing.id))
+    list.push(ids.has(item.id) ? { ...item, id: createUniqueId(item.id, ids) } : item)
+}
+
+function createUniqueId(id: string, used: Set<string>): string {
+    let candidate: string
+    do {
+        candidate = `${id}-${Math.random().toString(36).substring(2, 8)}`
+    } while (used.has(candidate))
+    return candidate
+}
+
+function pickGate(gate: GateFrameOption): GateFrameOption {
+    return removeUndefined({
+        id: gate.id,
+        title: gate.title,
+        url: gate.url,
+        icon: gate.icon,
+        profileKey: gate.profileKey,
+        hasRibbon: gate.hasRibbon,
+        position: gate.position,
+        userAgent: gate.userAgent,
+        zoomFactor: gate.zoomFactor,
+        css: gate.css,
+        js: gate.js,
+        blockerAllowlist: gate.blockerAllowlist
+    })
+}
+
+// 볼트 파일 경로와 기본 제공 표시는 가져오는 쪽에 의미가 없으므로 제외
+function pickTemplate(template: AnalysisTemplate): AnalysisTemplate {
+    return removeUndefined({
+        id: template.id,
+        name: template.name,
+        icon: template.icon,
+        description: template.description,
+        systemPrompt: template.systemPrompt,
+        userPrompt: template.userPrompt,
+        outputFormat: template.outputFormat,
+        provider: template.provider,
+        model: template.model,
+        temperature: template.temperature
+    })
+}
+
+function readGate(raw: unknown, path: string, errors: string[]): Partial<GateFrameOption> {
+    if (!isObject(raw)) {
+        errors.push(t('bundle.invalidField', { path, expected: 'object' }))
+        return {}
+    }
+    const field = createFieldReader(raw, path, errors)
+    return pickGate({
+        id: field.string('id', true),
+        title: field.string('title', true),
+        url: field.string('url', true),
+        icon: field.string('icon') ?? 'globe',
+        profileKey: field.string('profileKey'),
+        hasRibbon: field.boolean('hasRibbon'),
+        position: field.oneOf('position', GATE_POSITIONS),
+        userAgent: field.string('userAgent'),
+        zoomFactor: field.number('zoomFactor'),
+        css: field.string('css'),
+        js: field.string('js'),
+        blockerAllowlist: field.stringList('blockerAllowlist')
+    } as GateFrameOption)
+}
+
+function readProfile(raw: unknown, path: string, errors: string[]): Partial<GateProfile> {
+    if (!isObject(raw)) {
+        errors.push(t('bundle.invalidField', { path, expected: 'object' }))
+        return {}
+    }
+    const field = createFieldReader(raw, path, errors)
+    return {
+        key: field.string('key', true),
+        name: field.string('name', true),
+        color: field.oneOf('color', PROFILE_COLORS as readonly ProfileColor[]) ?? 'gray'
+    }
+}
+
+function readTemplate(raw: unknown, path: string, errors: string[]): Partial<AnalysisTemplate> {
+    if (!isObject(raw)) {
+        errors.push(t('bundle.invalidField', { path, expected: 'object' }))
+        return {}
+    }
+    const field = createFieldReader(raw, path, errors)
+    return pickTemplate({
+        id: field.string('id', true),
+        name: field.string('name', true),
+        icon: field.string('icon') ?? 'file-text',
+        description: field.string('description') ?? '',
+        systemPrompt: field.string('systemPrompt') ?? '',
+        userPrompt: field.string('userPrompt', true),
+        outputFormat: field.oneOf('outputFormat', OUTPUT_FORMATS) ?? 'markdown',
+        provider: field.oneOf('provider', Object.keys(AI_PROVIDERS) as AIProviderType[]),
+        model: field.string('model'),
+        temperature: field.number('temperature')
+    } as AnalysisTemplate)
+}
+
+/**
+ * 필드 타입 검사 - 잘못된 값은 오류 목록에 경로와 함께 남기고 undefined를 돌려줌
+ */
+function createFieldReader(raw: Record<string, unknown>, path: string, errors: string[]) {
+    const check = <T>(name: string, required: boolean, expected: string, valid: (value: unknown) => boolean): T | undefined => {
+        const value = raw[name]
+        if (value === undefined || value === null) {
+            if (required) errors.push(t('bundle.invalidField', { path: `${path}.${name}`, expected }))
+            return undefined
+        }
+        if (!valid(value)) {
+            errors.push(t('bundle.invalidField', { path: `${path}.${name}`, expected }))
+            return undefined
+        }
+        return value as T
+    }
+
+    return {
+        string: (name: string, required = false) => check<string>(name, required, 'string', (value) => typeof value === 'string' && (!required || value.trim() !== '')),
+        number: (name: string) => check<number>(name, false, 'number', (value) => typeof value === 'number' && Number.isFinite(value)),
+        boolean: (name: string) => check<boolean>(name, false, 'boolean', (value) => typeof value === 'boolean'),
+        stringList: (name: string) => check<string[]>(name, false, 'string[]', (value) => Array.isArray(value) && value.every((item) => typeof item === 'string')),
+        oneOf: <T extends string>(name: string, values: readonly T[]) => check<T>(name, false, values.join(' | '), (value) => values.includes(value as T))
+    }
+}
+
+function readList(value: unknown, path: string, errors: string[], optional = false): unknown[] {
+    if (value === undefined && optional) return []
+    if (!Array.isArray(value)) {
+        errors.push(t('bundle.invalidField', { path, expected: 'array' }))
+        return []
+    }
+    return value
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function removeUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T
+}
+
+function isSame(a: object, b: object): boolean {
+    return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b))
+}
+
+function sortKeys(value: object): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+    )
+}
+
+function normalizeUrl(url: string): string {
+    return url.trim().toLowerCase().replace(/\/+$/, '')
+}
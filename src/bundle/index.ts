@@ -0,0 +1,17 @@
+/**
+ * Bundle Module Index
+ *
+ * 게이트 묶음 내보내기/가져오기 기능의 메인 진입점입니다.
+ */
+
+export {
+    GATE_BUNDLE_FORMAT,
+    GATE_BUNDLE_VERSION,
+    createGateBundle,
+    serializeGateBundle,
+    redactUrlSecrets,
+    parseGateBundle,
+    planBundleImport,
+    applyBundleImport
+} from './GateBundle'
+export type { GateBundle, GateBundleSource, BundleItemKind, BundleImportAction, BundleImportItem, BundleImportResult, BundleItemCode } from './GateBundle'
@@ -9,6 +9,7 @@ import { Vault, TFile } from 'obsidian'
 import { ContentExtractor, ExtractedContent } from './ContentExtractor'
 import { MetadataParser, PageMetadata } from './MetadataParser'
 import { NoteGenerator, GeneratedNote } from './NoteGenerator'
+import { PageArchiver } from './PageArchiver'
 import { ClipData, ClippingSettings, DEFAULT_CLIPPING_SETTINGS } from '../ai/types'
 
 export interface ClipServiceOptions {
@@ -88,6 +89,37 @@ export class ClipService {
         }
     }
 
+    /**
+     * 오프라인 아카이브 - 페이지 사본을 아카이브 폴더에 저장하고 이를 링크하는 클리핑 노트 생성
+     */
+    async archivePage(webview: Electron.WebviewTag, gateId: string): Promise<ClipResult> {
+        try {
+            const content = await ContentExtractor.extractPageContent(webview)
+            if (!content) {
+                return { success: false, error: 'Failed to extract content' }
+            }
+
+            const metadata = await MetadataParser.extractMetadata(webview)
+            const clipData = this.createClipData(content, metadata, gateId)
+
+            clipData.archivePath = await PageArchiver.archive(webview, this.vault, {
+                folder: this.settings.archiveFolder,
+                format: this.settings.archiveFormat,
+                name: `${clipData.title} - ${MetadataParser.getCurrentDate()}`
+            })
+
+            const note = await this.noteGenerator.createNote(clipData)
+            if (!note) {
+                return { success: false, error: 'Failed to create note', clipData }
+            }
+
+            return { success: true, clipData, note }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            return { success: false, error: errorMessage }
+        }
+    }
+
     /**
      * 선택 텍스트 클리핑
      */
@@ -108,7 +140,7 @@ export class ClipService {
                 url: metadata?.url || (await ContentExtractor.getCurrentUrl(webview)),
                 title: metadata?.title || 'Selection',
                 content: selection.text,
-                html: this.settings.includeHtml ? selection.html : undefined,
+                html: this.shouldKeepHtml() ? selection.html : undefined,
                 metadata: {
                     author: metadata?.author,
                     date: metadata?.date,
@@ -133,6 +165,41 @@ export class ClipService {
         }
     }
 
+    /**
+     * 스크린샷 클리핑 - 저장한 이미지 임베드를 본문으로 클리핑 노트 생성
+     */
+    async clipScreenshot(webview: Electron.WebviewTag, gateId: string, embed: string): Promise<ClipResult> {
+        try {
+            const metadata = await MetadataParser.extractMetadata(webview)
+
+            const clipData: ClipData = {
+                id: generateClipId(),
+                url: metadata?.url || (await ContentExtractor.getCurrentUrl(webview)),
+                title: metadata?.title || 'Screenshot',
+                content: embed,
+                metadata: {
+                    author: metadata?.author,
+                    date: metadata?.date,
+                    siteName: metadata?.siteName,
+                    description: metadata?.description,
+                    image: metadata?.image
+                },
+                clippedAt: MetadataParser.getCurrentTimestamp(),
+                gateId
+            }
+
+            const note = await this.noteGenerator.createNote(clipData)
+            if (!note) {
+                return { success: false, error: 'Failed to create note', clipData }
+            }
+
+            return { success: true, clipData, note }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+            return { success: false, error: errorMessage }
+        }
+    }
+
     /**
      * 기존 노트에 클리핑 추가
      */
@@ -206,7 +273,7 @@ export class ClipService {
                 url: metadata?.url || url,
                 title: `Selection from ${metadata?.title || 'page'}`,
                 content: selection.text,
-                html: this.settings.includeHtml ? selection.html : undefined,
+                html: this.shouldKeepHtml() ? selection.html : undefined,
                 metadata: {
                     author: metadata?.author,
                     date: metadata?.date,
@@ -223,6 +290,13 @@ export class ClipService {
         }
     }
 
+    /**
+     * 마크다운 변환에도 원본 HTML이 필요하므로 둘 중 하나라도 켜져 있으면 보관
+     */
+    private shouldKeepHtml(): boolean {
+        return this.settings.includeHtml || this.settings.convertToMarkdown
+    }
+
     /**
      * ClipData 생성 헬퍼
      */
@@ -236,13 +310,14 @@ export class ClipService {
             url: metadata?.url || '',
             title: content.title || metadata?.title || 'Untitled',
             content: content.textContent,
-            html: this.settings.includeHtml ? content.content : undefined,
+            html: this.shouldKeepHtml() ? content.content : undefined,
             metadata: {
                 author: metadata?.author,
                 date: metadata?.date,
                 siteName: content.siteName || metadata?.siteName,
                 description: metadata?.description,
-                image: metadata?.image
+                image: metadata?.image,
+                tags: metadata?.tags
             },
             clippedAt: MetadataParser.getCurrentTimestamp(),
             gateId
@@ -2,9 +2,14 @@
  * ContentExtractor - 웹페이지 콘텐츠 추출기
  *
  * webview.executeJavaScript를 사용하여 페이지에서 콘텐츠를 추출합니다.
- * Readability 스타일의 콘텐츠 추출 로직을 구현합니다.
+ * Readability 스타일의 점수 기반 추출: 문단의 텍스트 양, 링크 밀도, 문단 수,
+ * class/id 휴리스틱으로 후보 요소를 평가하고 본문으로 보이는 형제 요소를 병합합니다.
  */
 
+import { SiteRule } from '../ai/types'
+import { getSiteRuleForUrl } from './SiteRules'
+import { estimateTokens } from '../ai/TokenChunker'
+
 export interface ExtractedContent {
     title: string
     content: string
@@ -16,11 +21,24 @@ export interface ExtractedContent {
 }
 
 /**
- * 웹페이지에서 실행될 콘텐츠 추출 스크립트
+ * 추출 스크립트에 전달되는 사이트 규칙 (선택자만 사용)
+ */
+export type SiteRuleSelectors = Pick<SiteRule, 'contentSelectors' | 'removeSelectors' | 'titleSelector'>
+
+/**
+ * 웹페이지에서 실행될 콘텐츠 추출 스크립트 생성
  * 이 스크립트는 webview.executeJavaScript()로 실행됩니다.
+ * 사이트 규칙이 있으면 규칙의 선택자를 먼저 시도하고, 실패하면 점수 기반 추출로 넘어갑니다.
  */
-export const CONTENT_EXTRACTION_SCRIPT = `
-(function() {
+export function createContentExtractionScript(rule?: SiteRuleSelectors | null): string {
+    const ruleJson = JSON.stringify({
+        contentSelectors: rule?.contentSelectors || [],
+        removeSelectors: rule?.removeSelectors || [],
+        titleSelector: rule?.titleSelector || null
+    })
+
+    return `
+(function(rule) {
     // 제거할 요소들의 선택자
     const REMOVE_SELECTORS = [
         'script', 'style', 'noscript', 'iframe', 'svg',
@@ -32,15 +50,24 @@ export const CONTENT_EXTRACTION_SCRIPT = `
         '[role="banner"]', '[role="navigation"]', '[role="complementary"]'
     ];
 
-    // 메인 콘텐츠 선택자 (우선순위 순)
-    const CONTENT_SELECTORS = [
-        'article', '[role="main"]', 'main',
-        '.post-content', '.article-content', '.entry-content',
-        '.content', '#content', '.post', '.article'
-    ];
+    // 점수 계산 휴리스틱 (Readability 방식)
+    const UNLIKELY_CANDIDATES = /-ad-|ai2html|banner|breadcrumb|combx|comment|community|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|teaser/i;
+    const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+    const POSITIVE_CLASS = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+    const NEGATIVE_CLASS = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|teaser|tool|widget/i;
+    const UNLIKELY_ROLES = ['menu', 'menubar', 'complementary', 'navigation', 'alert', 'alertdialog', 'dialog'];
+    // 이 요소들을 포함하지 않는 div는 문단으로 취급
+    const DIV_BLOCK_CHILDREN = 'blockquote, dl, div, img, ol, p, pre, table, ul';
+    const COMMAS = /[,，、]/g;
 
     // 제목 추출
     function getTitle() {
+        // 사이트 규칙의 제목 선택자
+        if (rule.titleSelector) {
+            const ruleTitle = safeQuery(document, rule.titleSelector);
+            if (ruleTitle && ruleTitle.textContent.trim()) return ruleTitle.textContent.trim();
+        }
+
         // Open Graph 제목
         const ogTitle = document.querySelector('meta[property="og:title"]');
         if (ogTitle) return ogTitle.getAttribute('content');
@@ -66,16 +93,282 @@ export const CONTENT_EXTRACTION_SCRIPT = `
         return hostname.replace(/^www\\./, '');
     }
 
+    // 사용자가 입력한 선택자가 잘못되어도 추출이 중단되지 않도록 보호
+    function safeQuery(root, selector) {
+        try {
+            return root.querySelector(selector);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    function safeQueryAll(root, selector) {
+        try {
+            return Array.from(root.querySelectorAll(selector));
+        } catch (e) {
+            return [];
+        }
+    }
+
+    function getInnerText(element) {
+        return (element.textContent || '').replace(/\\s+/g, ' ').trim();
+    }
+
+    function getMatchString(element) {
+        const className = typeof element.className === 'string' ? element.className : '';
+        return className + ' ' + (element.id || '');
+    }
+
+    // class/id 가중치: 본문다운 이름이면 +25, 부가 요소다운 이름이면 -25
+    function getClassWeight(element) {
+        let weight = 0;
+        const className = typeof element.className === 'string' ? element.className : '';
+        [className, element.id || ''].forEach(value => {
+            if (!value) return;
+            if (NEGATIVE_CLASS.test(value)) weight -= 25;
+            if (POSITIVE_CLASS.test(value)) weight += 25;
+        });
+        return weight;
+    }
+
+    // 링크 밀도: 전체 텍스트 중 링크 텍스트가 차지하는 비율 (페이지 내 앵커는 가중치 낮춤)
+    function getLinkDensity(element) {
+        const textLength = getInnerText(element).length;
+        if (!textLength) return 0;
+
+        let linkLength = 0;
+        element.querySelectorAll('a').forEach(link => {
+            const href = link.getAttribute('href');
+            const coefficient = href && /^#./.test(href) ? 0.3 : 1;
+            linkLength += getInnerText(link).length * coefficient;
+        });
+        return linkLength / textLength;
+    }
+
+    function isHidden(element) {
+        const style = element.getAttribute('style') || '';
+        return element.hasAttribute('hidden') ||
+               element.getAttribute('aria-hidden') === 'true' ||
+               /display\\s*:\\s*none|visibility\\s*:\\s*hidden/i.test(style);
+    }
+
+    // 점수 계산 전에 숨김 요소와 본문일 가능성이 낮은 요소 제거
+    function prepareDocument(root) {
+        root.querySelectorAll('script, style, noscript, iframe, svg, header, footer, nav, aside').forEach(el => el.remove());
+        rule.removeSelectors.forEach(selector => safeQueryAll(root, selector).forEach(el => el.remove()));
+
+        Array.from(root.querySelectorAll('*')).forEach(element => {
+            if (!root.contains(element)) return;
+
+            if (isHidden(element) || UNLIKELY_ROLES.indexOf(element.getAttribute('role')) !== -1) {
+                element.remove();
+                return;
+            }
+
+            if (element.tagName === 'ARTICLE' || element.tagName === 'MAIN' || element.tagName === 'A') return;
+            if (element.closest('table, pre, code')) return;
+
+            const matchString = getMatchString(element);
+            if (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) {
+                element.remove();
+            }
+        });
+    }
+
+    function getTagWeight(element) {
+        switch (element.tagName) {
+            case 'ARTICLE':
+            case 'MAIN':
+                return 10;
+            case 'DIV':
+                return 5;
+            case 'PRE':
+            case 'TD':
+            case 'BLOCKQUOTE':
+                return 3;
+            case 'ADDRESS':
+            case 'OL':
+            case 'UL':
+            case 'DL':
+            case 'DD':
+            case 'DT':
+            case 'LI':
+            case 'FORM':
+                return -3;
+            case 'H1':
+            case 'H2':
+            case 'H3':
+            case 'H4':
+            case 'H5':
+            case 'H6':
+            case 'TH':
+                return -5;
+            default:
+                return 0;
+        }
+    }
+
+    // 문단마다 텍스트 양과 쉼표 수로 점수를 매겨 조상 요소에 전파
+    function scoreCandidates(root) {
+        const scores = new Map();
+
+        root.querySelectorAll('p, pre, td, div').forEach(element => {
+            if (element.tagName === 'DIV' && element.querySelector(DIV_BLOCK_CHILDREN)) return;
+
+            const text = getInnerText(element);
+            if (text.length < 25) return;
+
+            const contentScore = 1 + (text.match(COMMAS) || []).length + Math.min(Math.floor(text.length / 100), 3);
+
+            let ancestor = element.parentElement;
+            let level = 0;
+            while (ancestor && level < 5) {
+                if (!scores.has(ancestor)) {
+                    scores.set(ancestor, getTagWeight(ancestor) + getClassWeight(ancestor));
+                }
+                const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+                scores.set(ancestor, scores.get(ancestor) + contentScore / divider);
+
+                if (ancestor === root) break;
+                ancestor = ancestor.parentElement;
+                level++;
+            }
+        });
+
+        // 링크가 많은 후보일수록 감점
+        scores.forEach((score, element) => {
+            scores.set(element, score * (1 - getLinkDensity(element)));
+        });
+
+        return scores;
+    }
+
+    function findTopCandidate(root, scores) {
+        let top = null;
+        let topScore = 0;
+        scores.forEach((score, element) => {
+            if (!top || score > topScore) {
+                top = element;
+                topScore = score;
+            }
+        });
+
+        if (!top) return null;
+
+        // 자식이 하나뿐인 래퍼는 부모로 올라가서 형제 병합 범위를 넓힘
+        while (top !== root && top.parentElement && top.parentElement !== root && top.parentElement.children.length === 1) {
+            top = top.parentElement;
+            topScore = Math.max(topScore, scores.get(top) || 0);
+        }
+
+        return { element: top, score: topScore };
+    }
+
+    // 최고 후보와 같은 부모를 가진 형제 중 본문으로 보이는 요소를 함께 가져옴
+    function mergeSiblings(top, topScore, scores) {
+        const parent = top.parentElement;
+        if (!parent) return top;
+
+        const threshold = Math.max(10, topScore * 0.2);
+        const container = document.createElement('div');
+
+        Array.from(parent.children).forEach(sibling => {
+            let append = sibling === top;
+
+            if (!append) {
+                const bonus = sibling.className && sibling.className === top.className ? topScore * 0.2 : 0;
+                if (scores.has(sibling) && scores.get(sibling) + bonus >= threshold) {
+                    append = true;
+                } else if (sibling.tagName === 'P') {
+                    const text = getInnerText(sibling);
+                    const linkDensity = getLinkDensity(sibling);
+                    if (text.length > 80 && linkDensity < 0.25) {
+                        append = true;
+                    } else if (text.length > 0 && linkDensity === 0 && /\\.( |$)/.test(text)) {
+                        append = true;
+                    }
+                }
+            }
+
+            if (append) container.appendChild(sibling);
+        });
+
+        return container;
+    }
+
+    // 본문 안의 관련 기사, 공유 버튼, 링크 목록 같은 블록을 문단 수와 링크 밀도로 걸러냄
+    function cleanConditionally(article) {
+        Array.from(article.querySelectorAll('div, section, ul, ol, table')).reverse().forEach(element => {
+            if (!article.contains(element) || element.closest('pre, code')) return;
+
+            const weight = getClassWeight(element);
+            if (weight < 0) {
+                element.remove();
+                return;
+            }
+
+            const text = getInnerText(element);
+            if ((text.match(COMMAS) || []).length >= 10) return;
+            if (element.querySelector('pre')) return;
+
+            const isList = element.tagName === 'UL' || element.tagName === 'OL';
+            const paragraphs = element.querySelectorAll('p').length;
+            const images = element.querySelectorAll('img').length;
+            const listItems = element.querySelectorAll('li').length - 100;
+            const inputs = element.querySelectorAll('input').length;
+            const linkDensity = getLinkDensity(element);
+
+            const shouldRemove =
+                (images > 1 && paragraphs / images < 0.5) ||
+                (!isList && listItems > paragraphs) ||
+                inputs > Math.floor(paragraphs / 3) ||
+                (!isList && text.length < 25 && (images === 0 || images > 2)) ||
+                (weight < 25 && linkDensity > 0.2) ||
+                (weight >= 25 && linkDensity > 0.5);
+
+            if (shouldRemove) element.remove();
+        });
+        return article;
+    }
+
+    // 사이트 규칙의 본문 선택자 (처음으로 텍스트가 있는 선택자의 모든 일치 요소 사용)
+    function findRuleContent() {
+        for (const selector of rule.contentSelectors) {
+            const matches = safeQueryAll(document, selector).filter(el => getInnerText(el).length > 0);
+            if (matches.length === 1) {
+                return matches[0].cloneNode(true);
+            }
+            if (matches.length > 1) {
+                const container = document.createElement('div');
+                matches.forEach(el => container.appendChild(el.cloneNode(true)));
+                return container;
+            }
+        }
+        return null;
+    }
+
     // 메인 콘텐츠 요소 찾기
     function findMainContent() {
-        for (const selector of CONTENT_SELECTORS) {
-            const element = document.querySelector(selector);
-            if (element && element.textContent.trim().length > 100) {
-                return element.cloneNode(true);
-            }
+        const ruleContent = findRuleContent();
+        if (ruleContent) {
+            return ruleContent;
         }
-        // 폴백: body 사용
-        return document.body.cloneNode(true);
+
+        const root = document.body.cloneNode(true);
+        prepareDocument(root);
+
+        const scores = scoreCandidates(root);
+        const top = findTopCandidate(root, scores);
+        if (!top || top.element === root) {
+            return root;
+        }
+
+        const article = cleanConditionally(mergeSiblings(top.element, top.score, scores));
+        // 점수가 너무 낮게 나온 경우 (짧은 페이지 등) 정리된 body 사용
+        if (getInnerText(article).length < 100) {
+            return root;
+        }
+        return article;
     }
 
     // 불필요한 요소 제거
@@ -83,6 +376,7 @@ export const CONTENT_EXTRACTION_SCRIPT = `
         REMOVE_SELECTORS.forEach(selector => {
             element.querySelectorAll(selector).forEach(el => el.remove());
         });
+        rule.removeSelectors.forEach(selector => safeQueryAll(element, selector).forEach(el => el.remove()));
         return element;
     }
 
@@ -115,8 +409,14 @@ export const CONTENT_EXTRACTION_SCRIPT = `
         siteName: getSiteName(),
         url: window.location.href
     };
-})();
+})(${ruleJson});
 `
+}
+
+/**
+ * 기본 콘텐츠 추출 스크립트 (사이트 규칙 없음)
+ */
+export const CONTENT_EXTRACTION_SCRIPT = createContentExtractionScript()
 
 /**
  * 선택된 텍스트만 추출하는 스크립트
@@ -158,12 +458,20 @@ export const GET_URL_SCRIPT = `window.location.href`
 export class ContentExtractor {
     /**
      * 전체 페이지 콘텐츠 추출
+     * 현재 URL에 맞는 사이트 규칙이 있으면 사전 스크립트를 실행하고 규칙의 선택자를 먼저 사용합니다.
+     * runPreScript가 false이면 사전 스크립트를 건너뛰어 페이지를 바꾸지 않습니다 (방문 기록 색인 등).
      */
     static async extractPageContent(
-        webview: Electron.WebviewTag
+        webview: Electron.WebviewTag,
+        options: { runPreScript?: boolean } = {}
     ): Promise<ExtractedContent | null> {
         try {
-            const result = await webview.executeJavaScript(CONTENT_EXTRACTION_SCRIPT)
+            const rule = getSiteRuleForUrl(await this.getCurrentUrl(webview))
+            if (rule?.preScript && options.runPreScript !== false) {
+                await this.runPreScript(webview, rule.preScript)
+            }
+
+            const result = await webview.executeJavaScript(createContentExtractionScript(rule))
             return result as ExtractedContent
         } catch (error) {
             console.error('[ContentExtractor] Failed to extract page content:', error)
@@ -171,6 +479,18 @@ export class ContentExtractor {
         }
     }
 
+    /**
+     * 사이트 규칙의 사전 스크립트 실행
+     * 스크립트가 Promise를 반환하면 완료될 때까지 기다리며, 실패해도 추출은 계속합니다.
+     */
+    private static async runPreScript(webview: Electron.WebviewTag, script: string): Promise<void> {
+        try {
+            await webview.executeJavaScript(`(async function() {\n${script}\n})()`)
+        } catch (error) {
+            console.warn('[ContentExtractor] Site rule pre-script failed:', error)
+        }
+    }
+
     /**
      * 선택된 텍스트 추출
      */
@@ -228,9 +548,9 @@ export class ContentExtractor {
 
     /**
      * 콘텐츠 길이 계산 (토큰 추정)
-     * 대략적으로 4글자당 1토큰으로 계산
+     * AI 요청 시 청크 분할에 쓰는 추정과 같은 값을 사용합니다.
      */
     static estimateTokens(text: string): number {
-        return Math.ceil(text.length / 4)
+        return estimateTokens(text)
     }
 }
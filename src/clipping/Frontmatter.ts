@@ -0,0 +1,98 @@
+/**
+ * Frontmatter - YAML frontmatter 직렬화
+ *
+ * 제목이나 작성자에 콜론, 따옴표, #, 줄바꿈이 있어도 Obsidian이 읽을 수 있도록
+ * 문자열을 직접 이어 붙이지 않고 yaml 패키지로 직렬화합니다.
+ */
+
+import { parse, stringify } from 'yaml'
+
+export type FrontmatterValue = string | number | boolean | Date | null | undefined | FrontmatterValue[] | { [key: string]: FrontmatterValue }
+
+export type FrontmatterData = Record<string, FrontmatterValue>
+
+/**
+ * 객체를 --- 로 감싼 frontmatter 블록으로 직렬화
+ * 값이 비어 있는 항목(undefined, null, 빈 문자열, 빈 배열/객체)은 생략합니다.
+ */
+export function serializeFrontmatter(data: FrontmatterData): string {
+    const cleaned = cleanValue(data)
+    if (cleaned === undefined) return ''
+
+    // lineWidth 0: 긴 제목을 여러 줄로 접지 않음
+    const body = stringify(cleaned, { lineWidth: 0 })
+    return `---\n${body}---\n`
+}
+
+/**
+ * 노트 앞부분의 frontmatter를 객체로 파싱 (없거나 형식이 잘못되면 null)
+ */
+export function parseFrontmatter(note: string): Record<string, unknown> | null {
+    // 닫는 ---는 한 줄 전체여야 함 (값 안의 ---에서 끊지 않도록)
+    const match = note.match(/^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/)
+    if (!match) return null
+
+    try {
+        const data = parse(match[1] ?? '')
+        if (data === null || data === undefined) return {}
+        return typeof data === 'object' && !Array.isArray(data) ? (data as Record<string, unknown>) : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * 값 하나를 YAML 인라인 스칼라로 변환 (템플릿의 `key: {{title|yaml}}` 용)
+ * JSON 문자열/배열은 YAML flow 문법으로도 유효하므로 한 줄로 안전하게 쓸 수 있습니다.
+ */
+export function toYamlInline(value: unknown): string {
+    if (value === undefined || value === null) return '""'
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+    if (Array.isArray(value)) return JSON.stringify(value.map((item) => (item instanceof Date ? formatDate(item) : String(item))))
+    if (value instanceof Date) return JSON.stringify(formatDate(value))
+    return JSON.stringify(String(value))
+}
+
+/**
+ * Obsidian 태그 형식으로 정리 (# 제거, 공백은 하이픈, 허용되지 않는 문자 제거)
+ */
+export function normalizeTags(tags: (string | undefined)[]): string[] {
+    const result: string[] = []
+    for (const tag of tags) {
+        const normalized = (tag || '')
+            .trim()
+            .replace(/^#+/, '')
+            .replace(/\s+/g, '-')
+            .replace(/[^\p{L}\p{N}_\-/]/gu, '')
+        if (normalized && !/^\d+$/.test(normalized) && !result.includes(normalized)) {
+            result.push(normalized)
+        }
+    }
+    return result
+}
+
+function cleanValue(value: FrontmatterValue): FrontmatterValue {
+    if (value === undefined || value === null) return undefined
+    if (value instanceof Date) return isNaN(value.getTime()) ? undefined : formatDate(value)
+    if (typeof value === 'string') return value.trim() === '' ? undefined : value
+
+    if (Array.isArray(value)) {
+        const items = value.map(cleanValue).filter((item) => item !== undefined)
+        return items.length > 0 ? items : undefined
+    }
+
+    if (typeof value === 'object') {
+        const entries = Object.entries(value)
+            .map(([key, item]) => [key, cleanValue(item)] as const)
+            .filter(([, item]) => item !== undefined)
+        return entries.length > 0 ? Object.fromEntries(entries) : undefined
+    }
+
+    return value
+}
+
+function formatDate(date: Date): string {
+    // 로컬 날짜 기준 YYYY-MM-DD (Obsidian 날짜 속성 형식)
+    const pad = (n: number) => String(n).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
@@ -0,0 +1,405 @@
+/**
+ * MarkdownConverter - HTML → 마크다운 변환기
+ *
+ * ContentExtractor가 정제한 HTML을 옵시디언 마크다운으로 변환합니다.
+ * 제목, 목록(중첩), 코드 블록, GFM 표, 링크, 이미지 구조를 유지합니다.
+ */
+
+export interface MarkdownConverterOptions {
+    baseUrl?: string // 상대 경로 링크/이미지를 절대 경로로 바꿀 기준 URL
+}
+
+interface ConvertContext {
+    baseUrl?: string
+    codeBlocks: string[]
+}
+
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'IFRAME', 'OBJECT', 'EMBED', 'CANVAS', 'BUTTON', 'SELECT', 'TEXTAREA', 'FORM', 'HEAD', 'META', 'LINK'])
+
+const BLOCK_TAGS = new Set([
+    'ADDRESS',
+    'ARTICLE',
+    'ASIDE',
+    'DETAILS',
+    'DIV',
+    'DL',
+    'FIELDSET',
+    'FIGURE',
+    'FIGCAPTION',
+    'FOOTER',
+    'HEADER',
+    'MAIN',
+    'NAV',
+    'SECTION',
+    'SUMMARY',
+    'CENTER'
+])
+
+const CODE_LANGUAGE_PATTERN = /(?:^|\s)(?:language|lang|highlight-source|brush)[-:]\s*([\w+#.-]+)/i
+
+// 코드 블록은 후처리(빈 줄 정리, 들여쓰기) 대상에서 제외하기 위해 자리표시자로 치환해 둡니다
+const CODE_PLACEHOLDER = (index: number) => `\u0000CODE${index}\u0000`
+
+/**
+ * MarkdownConverter 클래스
+ */
+export class MarkdownConverter {
+    /**
+     * HTML 문자열을 마크다운으로 변환
+     */
+    static convert(html: string, options: MarkdownConverterOptions = {}): string {
+        if (!html || !html.trim()) return ''
+
+        const doc = new DOMParser().parseFromString(html, 'text/html')
+        return this.convertNode(doc.body, options)
+    }
+
+    /**
+     * DOM 노드를 마크다운으로 변환
+     */
+    static convertNode(root: Node, options: MarkdownConverterOptions = {}): string {
+        const ctx: ConvertContext = { baseUrl: options.baseUrl, codeBlocks: [] }
+        const markdown = this.normalizeOutput(this.convertChildren(root, ctx))
+        return this.restoreCodeBlocks(markdown, ctx)
+    }
+
+    // ============================================
+    // 노드 변환
+    // ============================================
+
+    private static convertChildren(node: Node, ctx: ConvertContext): string {
+        let result = ''
+        node.childNodes.forEach((child) => {
+            result += this.convertAny(child, ctx)
+        })
+        return result
+    }
+
+    private static convertAny(node: Node, ctx: ConvertContext): string {
+        if (node.nodeType === 3) {
+            return this.escapeText((node.textContent || '').replace(/\s+/g, ' '))
+        }
+
+        if (node.nodeType !== 1) return ''
+
+        const el = node as Element
+        const tag = el.tagName.toUpperCase()
+
+        if (SKIP_TAGS.has(tag) || el.getAttribute('hidden') !== null || el.getAttribute('aria-hidden') === 'true') {
+            return ''
+        }
+
+        switch (tag) {
+            case 'H1':
+            case 'H2':
+            case 'H3':
+            case 'H4':
+            case 'H5':
+            case 'H6': {
+                const text = this.toSingleLine(this.convertChildren(el, ctx))
+                return text ? this.block(`${'#'.repeat(Number(tag[1]))} ${text}`) : ''
+            }
+            case 'P':
+                return this.block(this.convertChildren(el, ctx).trim())
+            case 'BR':
+                return '\n'
+            case 'HR':
+                return this.block('---')
+            case 'BLOCKQUOTE':
+                return this.block(this.convertBlockquote(el, ctx))
+            case 'PRE':
+                return this.block(this.convertPre(el, ctx))
+            case 'CODE':
+                return this.convertInlineCode(el)
+            case 'UL':
+            case 'OL':
+                return this.block(this.convertList(el, ctx))
+            case 'LI':
+                // 목록 밖에 단독으로 있는 li
+                return this.block(`- ${this.convertChildren(el, ctx).trim()}`)
+            case 'TABLE':
+                return this.block(this.convertTable(el as HTMLTableElement, ctx))
+            case 'A':
+                return this.convertLink(el, ctx)
+            case 'IMG':
+                return this.convertImage(el, ctx)
+            case 'STRONG':
+            case 'B':
+                return this.wrapInline(this.convertChildren(el, ctx), '**')
+            case 'EM':
+            case 'I':
+            case 'CITE':
+                return this.wrapInline(this.convertChildren(el, ctx), '*')
+            case 'DEL':
+            case 'S':
+            case 'STRIKE':
+                return this.wrapInline(this.convertChildren(el, ctx), '~~')
+            case 'MARK':
+                return this.wrapInline(this.convertChildren(el, ctx), '==')
+            case 'DT':
+                return this.block(this.wrapInline(this.convertChildren(el, ctx), '**'))
+            case 'DD':
+                return this.block(this.convertChildren(el, ctx).trim())
+            case 'INPUT':
+                if ((el.getAttribute('type') || '').toLowerCase() === 'checkbox') {
+                    return el.hasAttribute('checked') ? '[x]' : '[ ]'
+                }
+                return ''
+            default:
+                if (BLOCK_TAGS.has(tag)) {
+                    return this.block(this.convertChildren(el, ctx).trim())
+                }
+                return this.convertChildren(el, ctx)
+        }
+    }
+
+    private static block(content: string): string {
+        return content ? `\n\n${content}\n\n` : ''
+    }
+
+    /**
+     * 앞뒤 공백은 마커 바깥으로 빼서 `** text**` 같은 깨진 강조를 방지
+     */
+    private static wrapInline(content: string, marker: string): string {
+        const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)
+        if (!match || !match[2]) return content
+        return `${match[1]}${marker}${match[2]}${marker}${match[3]}`
+    }
+
+    private static toSingleLine(text: string): string {
+        return text.replace(/\s*\n+\s*/g, ' ').trim()
+    }
+
+    // ============================================
+    // 블록 요소
+    // ============================================
+
+    private static convertBlockquote(el: Element, ctx: ConvertContext): string {
+        const inner = this.normalizeOutput(this.convertChildren(el, ctx))
+        if (!inner) return ''
+        return inner
+            .split('\n')
+            .map((line) => (line ? `> ${line}` : '>'))
+            .join('\n')
+    }
+
+    private static convertPre(el: Element, ctx: ConvertContext): string {
+        const codeEl = el.querySelector('code')
+        const language = this.detectLanguage(el) || (codeEl ? this.detectLanguage(codeEl) : '')
+        const code = (el.textContent || '').replace(/\n$/, '')
+
+        // 코드 안에 ``` 가 있으면 더 긴 펜스를 사용
+        const longestFence = (code.match(/`{3,}/g) || []).reduce((max, fence) => Math.max(max, fence.length), 0)
+        const fence = '`'.repeat(Math.max(3, longestFence + 1))
+
+        ctx.codeBlocks.push(`${fence}${language}\n${code}\n${fence}`)
+        return CODE_PLACEHOLDER(ctx.codeBlocks.length - 1)
+    }
+
+    private static detectLanguage(el: Element): string {
+        const dataLang = el.getAttribute('data-lang') || el.getAttribute('data-language')
+        if (dataLang) return dataLang.trim().toLowerCase()
+
+        const match = (el.getAttribute('class') || '').match(CODE_LANGUAGE_PATTERN)
+        return match ? match[1].toLowerCase() : ''
+    }
+
+    private static convertInlineCode(el: Element): string {
+        const code = (el.textContent || '').replace(/\s+/g, ' ')
+        if (!code.trim()) return ''
+
+        const longestRun = (code.match(/`+/g) || []).reduce((max, run) => Math.max(max, run.length), 0)
+        const ticks = '`'.repeat(longestRun + 1)
+        const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : ''
+        return `${ticks}${padding}${code}${padding}${ticks}`
+    }
+
+    private static convertList(list: Element, ctx: ConvertContext): string {
+        const ordered = list.tagName.toUpperCase() === 'OL'
+        let index = parseInt(list.getAttribute('start') || '1', 10)
+        if (isNaN(index)) index = 1
+
+        const items: string[] = []
+        Array.from(list.children).forEach((child) => {
+            const tag = child.tagName.toUpperCase()
+
+            // 잘못된 마크업(ul 바로 아래 ul)도 이전 항목의 하위 목록으로 처리
+            if ((tag === 'UL' || tag === 'OL') && items.length > 0) {
+                items[items.length - 1] += '\n' + this.indent(this.convertList(child, ctx), ordered ? 3 : 2)
+                return
+            }
+            if (tag !== 'LI') return
+
+            const marker = ordered ? `${index++}.` : '-'
+            let content = this.normalizeOutput(this.convertChildren(child, ctx)).replace(/^\[( |x)\]\s*/, '[$1] ')
+
+            // 단락이 없는 항목은 빈 줄 없이 붙여서 "tight" 목록을 유지
+            if (!child.querySelector('p')) {
+                content = content.replace(/\n{2,}/g, '\n')
+            }
+
+            items.push(`${marker} ${this.indent(content, marker.length + 1).trimStart()}`)
+        })
+
+        return items.join('\n')
+    }
+
+    private static indent(text: string, width: number): string {
+        const pad = ' '.repeat(width)
+        return text
+            .split('\n')
+            .map((line) => (line ? pad + line : line))
+            .join('\n')
+    }
+
+    private static convertTable(table: HTMLTableElement, ctx: ConvertContext): string {
+        const rows = Array.from(table.rows)
+        if (rows.length === 0) return ''
+
+        const matrix: string[][] = []
+        const alignments: string[] = []
+
+        rows.forEach((row) => {
+            const cells: string[] = []
+            Array.from(row.cells).forEach((cell) => {
+                const text = this.toSingleLine(this.convertChildren(cell, ctx)).replace(/\|/g, '\\|')
+                cells.push(text)
+
+                if (matrix.length === 0 || alignments[cells.length - 1] === undefined) {
+                    alignments[cells.length - 1] = this.detectAlignment(cell)
+                }
+
+                const span = parseInt(cell.getAttribute('colspan') || '1', 10)
+                for (let i = 1; i < span && i < 50; i++) {
+                    cells.push('')
+                }
+            })
+            matrix.push(cells)
+        })
+
+        const columnCount = Math.max(...matrix.map((cells) => cells.length))
+        if (columnCount === 0) return ''
+
+        const formatRow = (cells: string[]) => {
+            const padded = cells.concat(new Array(columnCount - cells.length).fill(''))
+            return `| ${padded.join(' | ')} |`
+        }
+
+        const separator = Array.from({ length: columnCount }, (_, i) => {
+            switch (alignments[i]) {
+                case 'center':
+                    return ':---:'
+                case 'right':
+                    return '---:'
+                case 'left':
+                    return ':---'
+                default:
+                    return '---'
+            }
+        })
+
+        // GFM 표는 헤더 행이 필수이므로 첫 행을 헤더로 사용
+        const [header, ...body] = matrix
+        return [formatRow(header), `| ${separator.join(' | ')} |`, ...body.map(formatRow)].join('\n')
+    }
+
+    private static detectAlignment(cell: Element): string {
+        const align = (cell.getAttribute('align') || '').toLowerCase()
+        if (align) return align
+
+        const style = cell.getAttribute('style') || ''
+        const match = style.match(/text-align\s*:\s*(left|right|center)/i)
+        return match ? match[1].toLowerCase() : ''
+    }
+
+    // ============================================
+    // 인라인 요소
+    // ============================================
+
+    private static convertLink(el: Element, ctx: ConvertContext): string {
+        const content = this.convertChildren(el, ctx)
+        const href = (el.getAttribute('href') || '').trim()
+
+        // 링크로 쓸 수 없는 href는 텍스트만 남김
+        if (!href || /^(javascript|data|vbscript):/i.test(href)) {
+            return content
+        }
+
+        const text = this.toSingleLine(content)
+        if (!text) return ''
+
+        const url = this.encodeUrl(this.resolveUrl(href, ctx.baseUrl))
+        const title = el.getAttribute('title')
+        const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : ''
+
+        const match = content.match(/^(\s*)[\s\S]*?(\s*)$/)
+        return `${match?.[1] ? ' ' : ''}[${text}](${url}${titlePart})${match?.[2] ? ' ' : ''}`
+    }
+
+    private static convertImage(el: Element, ctx: ConvertContext): string {
+        let src = (el.getAttribute('src') || '').trim()
+
+        // 지연 로딩 이미지는 data-* 속성에 실제 경로가 있음
+        if (!src || src.startsWith('data:')) {
+            src = (el.getAttribute('data-src') || el.getAttribute('data-original') || el.getAttribute('data-lazy-src') || '').trim()
+        }
+        if (!src || src.startsWith('data:')) return ''
+
+        const alt = (el.getAttribute('alt') || '').replace(/\s+/g, ' ').replace(/[[\]]/g, '\\$&').trim()
+        return `![${alt}](${this.encodeUrl(this.resolveUrl(src, ctx.baseUrl))})`
+    }
+
+    /**
+     * 상대 경로를 기준 URL 기준의 절대 경로로 변환
+     */
+    static resolveUrl(url: string, baseUrl?: string): string {
+        if (!baseUrl) return url
+        try {
+            return new URL(url, baseUrl).href
+        } catch {
+            return url
+        }
+    }
+
+    private static encodeUrl(url: string): string {
+        return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')
+    }
+
+    /**
+     * 마크다운 문법으로 해석될 수 있는 문자 이스케이프
+     */
+    private static escapeText(text: string): string {
+        return text
+            .replace(/\\/g, '\\\\')
+            .replace(/([*`[\]])/g, '\\$1')
+            .replace(/(^|\s)_|_(\s|$)/g, (match) => match.replace('_', '\\_'))
+            .replace(/</g, '&lt;')
+    }
+
+    // ============================================
+    // 후처리
+    // ============================================
+
+    private static normalizeOutput(markdown: string): string {
+        return (
+            markdown
+                .split('\n')
+                .map((line) => line.replace(/[ \t]+$/, ''))
+                .join('\n')
+                // 공백 정리 후 남은 한 칸짜리 들여쓰기만 제거 (목록 들여쓰기는 2칸 이상)
+                .replace(/^ (?=\S)/gm, '')
+                .replace(/\n{3,}/g, '\n\n')
+                .trim()
+        )
+    }
+
+    private static restoreCodeBlocks(markdown: string, ctx: ConvertContext): string {
+        return markdown.replace(/^([ \t>]*)\u0000CODE(\d+)\u0000/gm, (_, prefix: string, index: string) => {
+            const code = ctx.codeBlocks[Number(index)] || ''
+            return code
+                .split('\n')
+                .map((line) => (line ? prefix + line : prefix.trimEnd()))
+                .join('\n')
+        })
+    }
+}
@@ -4,6 +4,10 @@
  * Open Graph, Twitter Cards, JSON-LD 등에서 메타데이터를 추출합니다.
  */
 
+import { SiteRule } from '../ai/types'
+import { getSiteRuleForUrl } from './SiteRules'
+import { ContentExtractor } from './ContentExtractor'
+
 export interface PageMetadata {
     title?: string
     description?: string
@@ -18,11 +22,37 @@ export interface PageMetadata {
 }
 
 /**
- * 메타데이터 추출 스크립트
+ * 추출 스크립트에 전달되는 사이트 규칙 (메타데이터 선택자만 사용)
+ */
+export type SiteRuleMetadataSelectors = Pick<SiteRule, 'titleSelector' | 'authorSelector' | 'dateSelector'>
+
+/**
+ * 메타데이터 추출 스크립트 생성
  * webview.executeJavaScript()로 실행됩니다.
+ * 사이트 규칙의 제목/작성자/날짜 선택자가 있으면 먼저 사용합니다.
  */
-export const METADATA_EXTRACTION_SCRIPT = `
-(function() {
+export function createMetadataExtractionScript(rule?: SiteRuleMetadataSelectors | null): string {
+    const ruleJson = JSON.stringify({
+        titleSelector: rule?.titleSelector || null,
+        authorSelector: rule?.authorSelector || null,
+        dateSelector: rule?.dateSelector || null
+    })
+
+    return `
+(function(rule) {
+    // 사이트 규칙 선택자로 값 읽기 (meta/time 요소는 속성 값 우선)
+    function getBySelector(selector) {
+        if (!selector) return null;
+        try {
+            const el = document.querySelector(selector);
+            if (!el) return null;
+            const value = el.getAttribute('content') || el.getAttribute('datetime') || el.textContent;
+            return value && value.trim() ? value.trim() : null;
+        } catch (e) {
+            return null;
+        }
+    }
+
     function getMeta(name) {
         const el = document.querySelector('meta[name="' + name + '"]') ||
                    document.querySelector('meta[property="' + name + '"]');
@@ -55,6 +85,9 @@ export const METADATA_EXTRACTION_SCRIPT = `
 
     // 작성자 추출
     function getAuthor() {
+        const ruleAuthor = getBySelector(rule.authorSelector);
+        if (ruleAuthor) return ruleAuthor;
+
         // JSON-LD
         const jsonLd = getJsonLd();
         if (jsonLd && jsonLd.author) {
@@ -71,6 +104,9 @@ export const METADATA_EXTRACTION_SCRIPT = `
 
     // 날짜 추출
     function getDate() {
+        const ruleDate = getBySelector(rule.dateSelector);
+        if (ruleDate) return ruleDate;
+
         // JSON-LD
         const jsonLd = getJsonLd();
         if (jsonLd) {
@@ -103,7 +139,7 @@ export const METADATA_EXTRACTION_SCRIPT = `
     }
 
     return {
-        title: getOG('title') || getTwitter('title') || document.title || null,
+        title: getBySelector(rule.titleSelector) || getOG('title') || getTwitter('title') || document.title || null,
         description: getOG('description') || getTwitter('description') || getMeta('description') || null,
         author: getAuthor(),
         date: getDate(),
@@ -114,8 +150,14 @@ export const METADATA_EXTRACTION_SCRIPT = `
         tags: getTags(),
         language: document.documentElement.lang || getMeta('language') || null
     };
-})();
+})(${ruleJson});
 `
+}
+
+/**
+ * 기본 메타데이터 추출 스크립트 (사이트 규칙 없음)
+ */
+export const METADATA_EXTRACTION_SCRIPT = createMetadataExtractionScript()
 
 /**
  * MetadataParser 클래스
@@ -123,10 +165,12 @@ export const METADATA_EXTRACTION_SCRIPT = `
 export class MetadataParser {
     /**
      * 웹뷰에서 메타데이터 추출
+     * 현재 URL에 맞는 사이트 규칙이 있으면 규칙의 선택자를 먼저 사용합니다.
      */
     static async extractMetadata(webview: Electron.WebviewTag): Promise<PageMetadata | null> {
         try {
-            const result = await webview.executeJavaScript(METADATA_EXTRACTION_SCRIPT)
+            const rule = getSiteRuleForUrl(await ContentExtractor.getCurrentUrl(webview))
+            const result = await webview.executeJavaScript(createMetadataExtractionScript(rule))
             return this.normalizeMetadata(result)
         } catch (error) {
             console.error('[MetadataParser] Failed to extract metadata:', error)
@@ -5,8 +5,14 @@
  */
 
 import { TFile, TFolder, Vault, normalizePath } from 'obsidian'
+import { stringify } from 'yaml'
+import { t } from '../i18n'
 import { ClipData, ClippingSettings } from '../ai/types'
 import { MetadataParser } from './MetadataParser'
+import { MarkdownConverter } from './MarkdownConverter'
+import { getDefaultClipNoteTemplate, NoteRenderer } from './NoteRenderer'
+import { HighlightPage } from '../highlights/types'
+import { createHighlightsNote, replaceHighlightsBlock } from '../highlights/HighlightNote'
 
 export interface NoteGeneratorOptions {
     vault: Vault
@@ -37,7 +43,7 @@ export class NoteGenerator {
     async createNote(clipData: ClipData): Promise<GeneratedNote | null> {
         try {
             const filename = this.generateFilename(clipData)
-            const content = this.generateNoteContent(clipData)
+            const content = await this.generateNoteContent(clipData)
             const folderPath = normalizePath(this.settings.defaultFolder)
 
             // 폴더 생성 (없으면)
@@ -105,6 +111,33 @@ export class NoteGenerator {
         }
     }
 
+    /**
+     * 페이지 하이라이트 노트 생성 또는 갱신
+     * 이미 연결된 노트가 있으면 하이라이트 블록만 바꾸고, 없으면 폴더에 새 노트를 만듭니다.
+     */
+    async syncHighlightsNote(page: HighlightPage, folder: string): Promise<TFile | null> {
+        try {
+            const existing = page.notePath ? this.vault.getAbstractFileByPath(page.notePath) : null
+            if (existing instanceof TFile) {
+                await this.vault.process(existing, (content) => replaceHighlightsBlock(content, page))
+                return existing
+            }
+
+            // 하이라이트를 모두 지운 페이지는 새 노트를 만들지 않음
+            if (page.highlights.length === 0) return null
+
+            const folderPath = normalizePath(folder || 'Highlights')
+            await this.ensureFolder(folderPath)
+
+            const basePath = normalizePath(`${folderPath}/${this.sanitizeFilename(page.title || 'Untitled')}.md`)
+            const filePath = await this.getUniqueFilePath(basePath)
+            return await this.vault.create(filePath, createHighlightsNote(page))
+        } catch (error) {
+            console.error('[NoteGenerator] Failed to sync highlights note:', error)
+            return null
+        }
+    }
+
     /**
      * 파일명 생성
      */
@@ -132,106 +165,53 @@ export class NoteGenerator {
     }
 
     /**
-     * 노트 콘텐츠 생성
-     */
-    private generateNoteContent(clipData: ClipData): string {
-        const parts: string[] = []
-
-        // YAML Frontmatter
-        parts.push(this.generateFrontmatter(clipData))
-
-        // 제목
-        parts.push(`# ${clipData.title || 'Untitled'}`)
-        parts.push('')
-
-        // 본문
-        if (clipData.content) {
-            parts.push(clipData.content)
-            parts.push('')
-        }
-
-        // 푸터
-        parts.push('---')
-        parts.push(this.generateFooter(clipData))
-
-        return parts.join('\n')
-    }
-
-    /**
-     * YAML Frontmatter 생성
+     * 노트 콘텐츠 생성 (클리핑 노트 템플릿 사용)
      */
-    private generateFrontmatter(clipData: ClipData): string {
-        const frontmatter: string[] = ['---']
-
-        if (this.settings.includeUrl && clipData.url) {
-            frontmatter.push(`source: ${clipData.url}`)
-        }
-
-        if (this.settings.includeDate) {
-            frontmatter.push(`clipped: ${clipData.clippedAt.split('T')[0]}`)
-        }
-
-        if (this.settings.includeAuthor && clipData.metadata?.author) {
-            frontmatter.push(`author: ${clipData.metadata.author}`)
-        }
-
-        if (clipData.metadata?.siteName) {
-            frontmatter.push(`site: ${clipData.metadata.siteName}`)
-        }
-
-        frontmatter.push('---')
-        frontmatter.push('')
+    private async generateNoteContent(clipData: ClipData): Promise<string> {
+        // 메타데이터 포함 옵션이 꺼진 항목은 비워서 템플릿 섹션이 출력되지 않도록 함
+        const data = NoteRenderer.fromClip(clipData, {
+            url: this.settings.includeUrl ? clipData.url : undefined,
+            author: this.settings.includeAuthor ? clipData.metadata?.author : undefined,
+            date: this.settings.includeDate ? new Date(clipData.clippedAt) : undefined,
+            content: this.generateBody(clipData),
+            type: 'clip'
+        })
 
-        return frontmatter.join('\n')
+        return NoteRenderer.renderWithTemplate(this.vault, this.settings.noteTemplatePath, getDefaultClipNoteTemplate(), data)
     }
 
     /**
-     * 푸터 생성
+     * 본문 생성 (HTML이 있으면 마크다운으로 변환, 실패 시 텍스트 사용)
      */
-    private generateFooter(clipData: ClipData): string {
-        const parts: string[] = []
-
-        if (clipData.metadata?.siteName) {
-            parts.push(`*출처: ${clipData.metadata.siteName}*`)
-        }
-
-        if (clipData.url) {
-            parts.push(`*[원본 링크](${clipData.url})*`)
+    private generateBody(clipData: ClipData): string {
+        if (this.settings.convertToMarkdown && clipData.html) {
+            const markdown = MarkdownConverter.convert(clipData.html, { baseUrl: clipData.url })
+            if (markdown) {
+                return markdown
+            }
         }
 
-        parts.push(`*클리핑 날짜: ${clipData.clippedAt.split('T')[0]}*`)
-
-        return parts.join(' | ')
+        return clipData.content
     }
 
     /**
      * gate-clip 코드블록 생성
      */
     private generateClipBlock(clipData: ClipData): string {
-        const lines: string[] = ['```gate-clip']
-
-        lines.push(`source: ${clipData.url}`)
-        lines.push(`title: ${clipData.title || 'Untitled'}`)
-        lines.push(`clipped: ${clipData.clippedAt.split('T')[0]}`)
-
-        if (clipData.metadata?.author) {
-            lines.push(`author: ${clipData.metadata.author}`)
-        }
-
-        if (clipData.metadata?.siteName) {
-            lines.push(`site: ${clipData.metadata.siteName}`)
-        }
-
-        // 콘텐츠 (들여쓰기)
-        lines.push('content: |')
-        const contentLines = clipData.content.split('\n')
-        contentLines.forEach((line) => {
-            lines.push(`  ${line}`)
-        })
-
-        lines.push('```')
-
-        return lines.join('\n')
+        // 제목/본문에 YAML 특수문자가 있어도 깨지지 않도록 직렬화 (본문은 블록 스칼라로 출력됨)
+        const block = stringify(
+            {
+                source: clipData.url,
+                title: clipData.title || 'Untitled',
+                clipped: clipData.clippedAt.split('T')[0],
+                author: clipData.metadata?.author,
+                site: clipData.metadata?.siteName,
+                content: clipData.content
+            },
+            { lineWidth: 0 }
+        )
+
+        return ['```gate-clip', block.trimEnd(), '```'].join('\n')
     }
 
     /**
@@ -243,7 +223,7 @@ export class NoteGenerator {
         // 제목
         parts.push(`# ${title}`)
         parts.push('')
-        parts.push('## 수집된 클리핑')
+        parts.push(`## ${t('note.collectedClips')}`)
         parts.push('')
 
         // 각 클리핑을 gate-clip 블록으로
@@ -253,14 +233,14 @@ export class NoteGenerator {
         })
 
         // 분석 결과 섹션 (AI가 채울 영역)
-        parts.push('## 분석 결과')
+        parts.push(`## ${t('note.analysisResult')}`)
         parts.push('')
-        parts.push('<!-- AI 분석 결과가 여기에 생성됩니다 -->')
+        parts.push(`<!-- ${t('note.analysisPlaceholder')} -->`)
         parts.push('')
 
         // 푸터
         parts.push('---')
-        parts.push(`*생성일: ${MetadataParser.getCurrentDate()}*`)
+        parts.push(`*${t('note.createdOn', { date: MetadataParser.getCurrentDate() })}*`)
 
         return parts.join('\n')
     }
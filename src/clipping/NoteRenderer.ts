@@ -0,0 +1,293 @@
+/**
+ * NoteRenderer - 노트 템플릿 렌더러
+ *
+ * 클리핑 노트와 AI 결과 노트를 하나의 템플릿 문법으로 렌더링합니다.
+ * 사용자가 지정한 볼트 파일을 템플릿으로 쓰고, 없으면 기본 템플릿을 사용합니다.
+ *
+ * 문법:
+ * - {{title}} 변수 치환 (없는 값은 빈 문자열)
+ * - {{date|date:YYYY-MM-DD}} 필터 (date, lower, upper, join, hashtags, yaml)
+ *   공백이 있는 인자는 따옴표로 감쌉니다. (예: {{tags|join:", "}})
+ * - {{#author}}...{{/author}} 값이 있을 때만, {{^author}}...{{/author}} 값이 없을 때만 출력
+ * - {{frontmatter}} YAML 직렬화된 frontmatter 블록, {{title|yaml}} 직접 작성한 frontmatter용 안전한 값
+ */
+
+import { moment, normalizePath, TFile, Vault } from 'obsidian'
+import { ClipData } from '../ai/types'
+import { t } from '../i18n'
+import { FrontmatterData, normalizeTags, serializeFrontmatter, toYamlInline } from './Frontmatter'
+
+export interface NoteTemplateData {
+    title: string
+    url?: string
+    author?: string
+    date?: Date // 노트 생성(클리핑) 시각
+    published?: string // 원문 작성일
+    site?: string
+    tags?: string[]
+    description?: string
+    image?: string
+    content?: string // 클리핑 본문
+    archive?: string // 오프라인 아카이브 링크 ([[경로]])
+    ai?: string // AI 결과
+    provider?: string
+    template?: string // 사용한 분석 템플릿 이름
+    type?: string // 노트 종류 (clip, ai-analysis, ai-summary 등)
+    properties?: FrontmatterData // {{frontmatter}}에 쓸 속성 (없으면 노트 종류별 기본 속성)
+}
+
+/**
+ * 템플릿에서 사용할 수 있는 변수 목록 (설정 화면 안내용)
+ */
+export const NOTE_TEMPLATE_VARIABLES = [
+    'title',
+    'url',
+    'author',
+    'date',
+    'published',
+    'site',
+    'tags',
+    'description',
+    'image',
+    'content',
+    'archive',
+    'ai',
+    'provider',
+    'template',
+    'type',
+    'frontmatter'
+]
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD'
+
+/**
+ * 기본 클리핑 노트 템플릿 (현재 UI 언어)
+ */
+export function getDefaultClipNoteTemplate(): string {
+    return `{{frontmatter}}
+
+# {{title}}
+
+{{content}}
+
+---
+{{#site}}*${t('note.source')}: {{site}}* | {{/site}}{{#url}}*[${t('note.originalLink')}]({{url}})*{{/url}}{{#date}}{{#url}} | {{/url}}*${t('note.clippedOn')}: {{date}}*{{/date}}
+`
+}
+
+/**
+ * 기본 AI 결과 노트 템플릿 (현재 UI 언어)
+ */
+export function getDefaultAINoteTemplate(): string {
+    return `{{frontmatter}}
+
+# {{title}}
+
+{{#url}}> 🔗 ${t('note.original')}: [{{url}}]({{url}})
+{{/url}}> 🤖 ${t('note.analyzedBy')}: {{provider}}
+> 📅 ${t('note.created')}: {{date}}
+
+---
+
+{{ai}}
+{{#url}}
+---
+
+## ${t('note.sourceInfo')}
+
+- **${t('note.title')}**: {{title}}
+- **URL**: {{url}}
+{{#author}}- **${t('note.author')}**: {{author}}
+{{/author}}{{#published}}- **${t('note.published')}**: {{published}}
+{{/published}}{{#site}}- **${t('note.site')}**: {{site}}
+{{/site}}{{/url}}`
+}
+
+/**
+ * NoteRenderer 클래스
+ */
+export class NoteRenderer {
+    /**
+     * 템플릿 렌더링
+     */
+    static render(template: string, data: NoteTemplateData): string {
+        const withSections = this.renderSections(template, data)
+
+        return withSections.replace(/\{\{\s*([\w-]+)((?:\s*\|[^}|]+)*)\s*\}\}/g, (match, name: string, filterText: string) => {
+            if (!NOTE_TEMPLATE_VARIABLES.includes(name)) return match
+
+            const filters = filterText
+                .split('|')
+                .map((filter) => filter.trim())
+                .filter((filter) => filter)
+            return this.applyFilters(name, this.getValue(data, name), filters)
+        })
+    }
+
+    /**
+     * 볼트 템플릿 파일 읽기 (경로가 비어 있거나 파일이 없으면 기본 템플릿)
+     */
+    static async loadTemplate(vault: Vault, templatePath: string | undefined, fallback: string): Promise<string> {
+        if (!templatePath || !templatePath.trim()) return fallback
+
+        let path = normalizePath(templatePath.trim())
+        if (!path.endsWith('.md')) path += '.md'
+
+        const file = vault.getAbstractFileByPath(path)
+        if (!(file instanceof TFile)) {
+            console.warn(`[NoteRenderer] Template not found: ${path}, using default template`)
+            return fallback
+        }
+
+        return vault.cachedRead(file)
+    }
+
+    /**
+     * 볼트 템플릿(또는 기본 템플릿)으로 렌더링
+     */
+    static async renderWithTemplate(vault: Vault, templatePath: string | undefined, fallback: string, data: NoteTemplateData): Promise<string> {
+        const template = await this.loadTemplate(vault, templatePath, fallback)
+        return this.render(template, data)
+    }
+
+    /**
+     * 클리핑 데이터를 템플릿 데이터로 변환
+     */
+    static fromClip(clipData: ClipData, extra: Partial<NoteTemplateData> = {}): NoteTemplateData {
+        return {
+            title: clipData.title || 'Untitled',
+            url: clipData.url,
+            author: clipData.metadata?.author,
+            date: new Date(clipData.clippedAt),
+            published: clipData.metadata?.date,
+            site: clipData.metadata?.siteName,
+            tags: clipData.metadata?.tags,
+            description: clipData.metadata?.description,
+            image: clipData.metadata?.image,
+            content: clipData.content,
+            archive: clipData.archivePath ? `[[${clipData.archivePath}]]` : undefined,
+            ...extra
+        }
+    }
+
+    /**
+     * {{#name}}...{{/name}} / {{^name}}...{{/name}} 섹션 처리 (중첩 가능)
+     */
+    private static renderSections(template: string, data: NoteTemplateData): string {
+        const sectionRegex = /\{\{([#^])\s*([\w-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g
+
+        let result = template
+        let previous: string
+        do {
+            previous = result
+            result = result.replace(sectionRegex, (_, type: string, name: string, inner: string) => {
+                const present = this.hasValue(this.getValue(data, name))
+                return (type === '#') === present ? inner : ''
+            })
+        } while (result !== previous)
+
+        return result
+    }
+
+    private static getValue(data: NoteTemplateData, name: string): unknown {
+        if (name === 'frontmatter') return serializeFrontmatter(data.properties ?? this.buildProperties(data))
+        return (data as unknown as Record<string, unknown>)[name]
+    }
+
+    /**
+     * 노트 종류별 기본 frontmatter 속성
+     */
+    static buildProperties(data: NoteTemplateData): FrontmatterData {
+        if (data.type === 'clip') {
+            return {
+                source: data.url,
+                clipped: data.date,
+                author: data.author,
+                site: data.site,
+                archive: data.archive,
+                aliases: [data.title],
+                tags: normalizeTags(data.tags ?? [])
+            }
+        }
+
+        return {
+            title: data.title,
+            source: data.url,
+            created: data.date,
+            type: data.type,
+            provider: data.provider,
+            template: data.template,
+            site: data.site,
+            tags: normalizeTags([data.type, 'easy-gate'])
+        }
+    }
+
+    private static hasValue(value: unknown): boolean {
+        if (Array.isArray(value)) return value.length > 0
+        if (value instanceof Date) return !isNaN(value.getTime())
+        return value !== undefined && value !== null && String(value).trim() !== ''
+    }
+
+    private static applyFilters(name: string, value: unknown, filters: string[]): string {
+        // 날짜 변수는 필터가 없어도 기본 형식으로 출력
+        if (value instanceof Date && !filters.some((filter) => filter.startsWith('date'))) {
+            filters = [`date:${DEFAULT_DATE_FORMAT}`, ...filters]
+        }
+
+        let current: unknown = value
+        for (const filter of filters) {
+            const separator = filter.indexOf(':')
+            const filterName = separator >= 0 ? filter.slice(0, separator).trim() : filter
+            const arg =
+                separator >= 0
+                    ? filter
+                          .slice(separator + 1)
+                          .trim()
+                          .replace(/^["']|["']$/g, '')
+                    : ''
+
+            switch (filterName) {
+                case 'date':
+                    current = this.formatDate(current, arg || DEFAULT_DATE_FORMAT)
+                    break
+                case 'yaml':
+                    current = toYamlInline(current)
+                    break
+                case 'lower':
+                    current = this.stringify(current).toLowerCase()
+                    break
+                case 'upper':
+                    current = this.stringify(current).toUpperCase()
+                    break
+                case 'join':
+                    current = Array.isArray(current) ? current.join(arg || ', ') : current
+                    break
+                case 'hashtags':
+                    current = Array.isArray(current)
+                        ? normalizeTags(current.map(String))
+                              .map((tag) => `#${tag}`)
+                              .join(' ')
+                        : current
+                    break
+                default:
+                    console.warn(`[NoteRenderer] Unknown filter "${filterName}" for {{${name}}}`)
+            }
+        }
+
+        return this.stringify(current)
+    }
+
+    private static formatDate(value: unknown, format: string): string {
+        if (value === undefined || value === null || value === '') return ''
+
+        const date = moment(value instanceof Date ? value : String(value))
+        return date.isValid() ? date.format(format) : String(value)
+    }
+
+    private static stringify(value: unknown): string {
+        if (value === undefined || value === null) return ''
+        if (Array.isArray(value)) return value.join(', ')
+        if (value instanceof Date) return this.formatDate(value, DEFAULT_DATE_FORMAT)
+        return String(value)
+    }
+}
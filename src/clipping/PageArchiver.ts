@@ -0,0 +1,98 @@
+/**
+ * PageArchiver - 오프라인 페이지 아카이브
+ *
+ * 게이트 페이지를 볼트의 아카이브 폴더에 저장합니다.
+ * - html: 리소스를 모두 인라인한 단일 HTML (SingleFileArchive)
+ * - mhtml: Electron webContents.savePage로 저장한 MHTML (데스크톱 파일 시스템 볼트만)
+ */
+
+import { arrayBufferToBase64, FileSystemAdapter, normalizePath, requestUrl, Vault } from 'obsidian'
+import { ArchiveFetcher, buildSingleFileHtml, PageSnapshot, SNAPSHOT_SCRIPT } from './SingleFileArchive'
+import { getElectronRemote } from '../fns/getElectronRemote'
+import WebviewTag = Electron.WebviewTag
+
+export type ArchiveFormat = 'html' | 'mhtml'
+
+export interface ArchiveOptions {
+    folder: string
+    format: ArchiveFormat
+    name: string // 확장자를 뺀 파일 이름
+}
+
+// 이보다 큰 리소스는 인라인하지 않고 원래 주소를 남김
+const MAX_RESOURCE_BYTES = 10 * 1024 * 1024
+
+/**
+ * requestUrl 기반 리소스 로더 (페이지의 CORS 제한을 받지 않음)
+ */
+const requestFetcher: ArchiveFetcher = {
+    text: async (url) => {
+        const response = await requestUrl({ url, throw: false })
+        return response.status < 400 ? response.text : null
+    },
+    dataUrl: async (url) => {
+        const response = await requestUrl({ url, throw: false })
+        if (response.status >= 400 || response.arrayBuffer.byteLength > MAX_RESOURCE_BYTES) return null
+
+        const contentType = Object.entries(response.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1]
+        const mimeType = contentType?.split(';')[0].trim() || 'application/octet-stream'
+        return `data:${mimeType};base64,${arrayBufferToBase64(response.arrayBuffer)}`
+    }
+}
+
+/**
+ * PageArchiver 클래스
+ */
+export class PageArchiver {
+    /**
+     * 현재 페이지를 아카이브하고 저장한 파일 경로 반환
+     */
+    static async archive(webview: WebviewTag, vault: Vault, options: ArchiveOptions): Promise<string> {
+        const folder = normalizePath(options.folder || 'Easy Gate/Archive')
+        if (!vault.getAbstractFileByPath(folder)) {
+            await vault.createFolder(folder)
+        }
+
+        const path = this.getAvailablePath(vault, folder, options.name, options.format)
+
+        if (options.format === 'mhtml') {
+            await this.saveMhtml(webview, vault, path)
+        } else {
+            const snapshot = (await webview.executeJavaScript(SNAPSHOT_SCRIPT)) as PageSnapshot
+            await vault.create(path, await buildSingleFileHtml(snapshot, requestFetcher))
+        }
+
+        return path
+    }
+
+    /**
+     * MHTML은 Electron이 디스크에 직접 쓰므로 볼트의 실제 경로가 필요합니다.
+     */
+    private static async saveMhtml(webview: WebviewTag, vault: Vault, path: string): Promise<void> {
+        if (!(vault.adapter instanceof FileSystemAdapter)) {
+            throw new Error('MHTML archives require a desktop vault')
+        }
+
+        const contents = getElectronRemote()?.webContents.fromId(webview.getWebContentsId())
+        if (!contents) {
+            throw new Error('MHTML archives are not supported in this version of Obsidian')
+        }
+
+        await contents.savePage(vault.adapter.getFullPath(path), 'MHTML')
+    }
+
+    private static getAvailablePath(vault: Vault, folder: string, name: string, extension: string): string {
+        const base =
+            name
+                .replace(/[\\/:*?"<>|#^[\]]/g, '-')
+                .replace(/\s+/g, ' ')
+                .trim()
+                .substring(0, 100) || 'Archive'
+
+        let path = normalizePath(`${folder}/${base}.${extension}`)
+        for (let counter = 1; vault.getAbstractFileByPath(path); counter++) {
+            path = normalizePath(`${folder}/${base} ${counter}.${extension}`)
+        }
+        return path
+    }
+}
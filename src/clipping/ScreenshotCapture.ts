@@ -0,0 +1,201 @@
+/**
+ * ScreenshotCapture - 게이트 페이지 스크린샷
+ *
+ * WebviewTag.capturePage()로 보이는 영역, 드래그로 고른 영역, 전체 페이지(스크롤하며 이어 붙임)를
+ * 캡처해 PNG/WebP 이미지 데이터로 만듭니다.
+ */
+
+import WebviewTag = Electron.WebviewTag
+
+export type ScreenshotMode = 'viewport' | 'region' | 'full'
+export type ScreenshotFormat = 'png' | 'webp'
+
+interface PageMetrics {
+    scrollX: number
+    scrollY: number
+    viewportHeight: number
+    pageHeight: number
+}
+
+interface Rect {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+// Chromium 캔버스 최대 크기를 넘지 않도록 전체 페이지 캡처 높이 제한 (픽셀)
+const MAX_CANVAS_HEIGHT = 16384
+
+const PAGE_METRICS_SCRIPT = `({
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    viewportHeight: window.innerHeight,
+    pageHeight: Math.max(document.documentElement.scrollHeight, document.body ? document.body.scrollHeight : 0)
+})`
+
+/**
+ * 드래그로 캡처할 영역 선택 (Esc나 너무 작은 영역이면 null)
+ */
+const REGION_SELECTION_SCRIPT = `
+new Promise((resolve) => {
+    const overlay = document.createElement('div');
+    overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;cursor:crosshair;background:rgba(0,0,0,0.15);';
+    const box = document.createElement('div');
+    box.style.cssText = 'position:fixed;border:2px dashed #fff;background:rgba(255,255,255,0.15);box-shadow:0 0 0 1px rgba(0,0,0,0.5);display:none;';
+    overlay.appendChild(box);
+    document.documentElement.appendChild(overlay);
+
+    let start = null;
+    let rect = null;
+    const finish = (result) => {
+        overlay.remove();
+        window.removeEventListener('keydown', onKey, true);
+        // 오버레이가 지워진 화면을 캡처하도록 다음 프레임 이후에 반환
+        requestAnimationFrame(() => requestAnimationFrame(() => resolve(result)));
+    };
+    const onKey = (e) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            finish(null);
+        }
+    };
+    window.addEventListener('keydown', onKey, true);
+
+    overlay.addEventListener('mousedown', (e) => {
+        start = { x: e.clientX, y: e.clientY };
+        box.style.display = 'block';
+    });
+    overlay.addEventListener('mousemove', (e) => {
+        if (!start) return;
+        rect = {
+            x: Math.min(start.x, e.clientX),
+            y: Math.min(start.y, e.clientY),
+            width: Math.abs(e.clientX - start.x),
+            height: Math.abs(e.clientY - start.y)
+        };
+        Object.assign(box.style, { left: rect.x + 'px', top: rect.y + 'px', width: rect.width + 'px', height: rect.height + 'px' });
+    });
+    overlay.addEventListener('mouseup', () => {
+        finish(rect && rect.width > 4 && rect.height > 4 ? rect : null);
+    });
+});
+`
+
+// 스크롤할 때마다 반복해서 찍히지 않도록 고정/스티키 요소 숨김 (복원 가능하게 표시)
+const HIDE_FIXED_SCRIPT = `
+document.querySelectorAll('body *').forEach((el) => {
+    const position = getComputedStyle(el).position;
+    if ((position === 'fixed' || position === 'sticky') && el.style.visibility !== 'hidden') {
+        el.dataset.easyGateHidden = el.style.visibility || 'unset';
+        el.style.visibility = 'hidden';
+    }
+});
+`
+
+const RESTORE_FIXED_SCRIPT = `
+document.querySelectorAll('[data-easy-gate-hidden]').forEach((el) => {
+    el.style.visibility = el.dataset.easyGateHidden === 'unset' ? '' : el.dataset.easyGateHidden;
+    delete el.dataset.easyGateHidden;
+});
+`
+
+/**
+ * ScreenshotCapture 클래스
+ */
+export class ScreenshotCapture {
+    /**
+     * 스크린샷 캡처 후 이미지 데이터 반환 (영역 선택을 취소하면 null)
+     */
+    static async capture(webview: WebviewTag, mode: ScreenshotMode, format: ScreenshotFormat): Promise<ArrayBuffer | null> {
+        let canvas: HTMLCanvasElement | null
+        switch (mode) {
+            case 'viewport':
+                canvas = await this.toCanvas([{ image: await webview.capturePage(), y: 0 }])
+                break
+            case 'region':
+                canvas = await this.captureRegion(webview)
+                break
+            case 'full':
+                canvas = await this.captureFullPage(webview)
+                break
+        }
+
+        return canvas ? this.encode(canvas, format) : null
+    }
+
+    private static async captureRegion(webview: WebviewTag): Promise<HTMLCanvasElement | null> {
+        const rect = (await webview.executeJavaScript(REGION_SELECTION_SCRIPT, true)) as Rect | null
+        if (!rect) return null
+
+        // 페이지 좌표(CSS 픽셀)를 확대 비율을 반영한 webview 좌표로 변환
+        const zoom = webview.getZoomFactor()
+        const image = await webview.capturePage({
+            x: Math.round(rect.x * zoom),
+            y: Math.round(rect.y * zoom),
+            width: Math.round(rect.width * zoom),
+            height: Math.round(rect.height * zoom)
+        })
+        return this.toCanvas([{ image, y: 0 }])
+    }
+
+    /**
+     * 화면 높이만큼 스크롤하며 캡처해 한 장으로 이어 붙임
+     */
+    private static async captureFullPage(webview: WebviewTag): Promise<HTMLCanvasElement | null> {
+        const metrics = (await webview.executeJavaScript(PAGE_METRICS_SCRIPT)) as PageMetrics
+        const frames: { image: Electron.NativeImage; y: number }[] = []
+
+        try {
+            for (let y = 0; y < metrics.pageHeight; y += metrics.viewportHeight) {
+                const scrollY = (await webview.executeJavaScript(
+                    `new Promise((resolve) => { window.scrollTo(${metrics.scrollX}, ${y}); requestAnimationFrame(() => requestAnimationFrame(() => resolve(window.scrollY))) })`
+                )) as number
+                frames.push({ image: await webview.capturePage(), y: scrollY })
+
+                if (frames.length === 1) {
+                    await webview.executeJavaScript(HIDE_FIXED_SCRIPT)
+                }
+                // 더 이상 스크롤되지 않으면 (무한 스크롤 등) 중단
+                if (scrollY + metrics.viewportHeight >= metrics.pageHeight || (frames.length > 1 && scrollY === frames[frames.length - 2].y)) {
+                    break
+                }
+            }
+        } finally {
+            await webview.executeJavaScript(`${RESTORE_FIXED_SCRIPT}; window.scrollTo(${metrics.scrollX}, ${metrics.scrollY})`)
+        }
+
+        // 이미지 픽셀과 CSS 픽셀의 비율 (확대 비율, 화면 배율 반영)
+        const scale = frames[0].image.getSize().height / metrics.viewportHeight
+        return this.toCanvas(
+            frames.map((frame) => ({ image: frame.image, y: frame.y * scale })),
+            Math.min(Math.round(metrics.pageHeight * scale), MAX_CANVAS_HEIGHT)
+        )
+    }
+
+    private static async toCanvas(frames: { image: Electron.NativeImage; y: number }[], height?: number): Promise<HTMLCanvasElement | null> {
+        if (frames.length === 0 || frames[0].image.isEmpty()) return null
+
+        const size = frames[0].image.getSize()
+        const canvas = document.createElement('canvas')
+        canvas.width = size.width
+        canvas.height = height ?? size.height
+
+        const context = canvas.getContext('2d')
+        if (!context) return null
+
+        for (const frame of frames) {
+            const image = new Image()
+            image.src = frame.image.toDataURL()
+            await image.decode()
+            context.drawImage(image, 0, Math.round(frame.y))
+        }
+        return canvas
+    }
+
+    private static encode(canvas: HTMLCanvasElement, format: ScreenshotFormat): Promise<ArrayBuffer | null> {
+        return new Promise((resolve) => {
+            canvas.toBlob((blob) => resolve(blob ? blob.arrayBuffer() : null), `image/${format}`, 0.92)
+        })
+    }
+}
@@ -0,0 +1,234 @@
+/**
+ * SingleFileArchive - 단일 HTML 파일 아카이브
+ *
+ * 페이지에서 스크립트를 제거한 DOM 사본을 만들고, 스타일시트·이미지·폰트를 data URL로 넣어
+ * 네트워크 없이 열리는 HTML 한 파일로 저장합니다.
+ *
+ * 1. SNAPSHOT_SCRIPT가 페이지에서 DOM을 직렬화하면서 외부 리소스 자리에 `easy-gate-archive:N` 토큰을 남깁니다.
+ * 2. buildSingleFileHtml이 플러그인 쪽에서 리소스를 받아(CORS 제한 없음) 토큰을 채웁니다.
+ */
+
+/**
+ * 토큰 자리에 들어갈 리소스
+ * - asset: 이미지 등 data URL로 바꿀 파일
+ * - stylesheet: <link rel="stylesheet">를 대신할 <style> 내용
+ * - css: 페이지의 <style> 내용 또는 style 속성 (url()만 인라인)
+ */
+export type ArchivePart = { type: 'asset'; url: string } | { type: 'stylesheet'; url: string } | { type: 'css'; css: string; baseUrl: string; context: 'text' | 'attribute' }
+
+export interface PageSnapshot {
+    url: string
+    title: string
+    html: string // 토큰이 들어 있는 직렬화된 문서
+    parts: ArchivePart[]
+}
+
+export interface ArchiveFetcher {
+    text: (url: string) => Promise<string | null>
+    dataUrl: (url: string) => Promise<string | null>
+}
+
+// @import를 따라갈 최대 깊이
+const MAX_IMPORT_DEPTH = 3
+
+/**
+ * 페이지 DOM 사본 직렬화 (실제 페이지는 바꾸지 않음)
+ */
+export const SNAPSHOT_SCRIPT = `
+(() => {
+    const parts = [];
+    const token = (part) => 'easy-gate-archive:' + (parts.push(part) - 1);
+    const absolute = (value) => {
+        try {
+            return new URL(value, document.baseURI).href;
+        } catch (e) {
+            return value;
+        }
+    };
+
+    // CSSOM으로만 추가된 규칙(CSS-in-JS)은 textContent가 비어 있으므로 규칙에서 다시 읽음
+    const styleTexts = Array.from(document.querySelectorAll('style')).map((style) => {
+        if (style.textContent.trim() || !style.sheet) return style.textContent;
+        try {
+            return Array.from(style.sheet.cssRules).map((rule) => rule.cssText).join('\\n');
+        } catch (e) {
+            return '';
+        }
+    });
+
+    const root = document.documentElement.cloneNode(true);
+
+    root.querySelectorAll('script, noscript, template, link[rel~="preload"], link[rel~="modulepreload"], link[rel~="prefetch"]').forEach((el) => el.remove());
+    root.querySelectorAll('picture source[srcset]').forEach((el) => el.remove());
+
+    root.querySelectorAll('style').forEach((style, index) => {
+        style.textContent = token({ type: 'css', css: styleTexts[index] ?? style.textContent, baseUrl: document.baseURI, context: 'text' });
+    });
+
+    root.querySelectorAll('link[rel~="stylesheet"][href]').forEach((link) => {
+        const style = document.createElement('style');
+        if (link.media) style.media = link.media;
+        style.textContent = token({ type: 'stylesheet', url: absolute(link.getAttribute('href')) });
+        link.replaceWith(style);
+    });
+
+    const liveImages = document.querySelectorAll('img');
+    root.querySelectorAll('img').forEach((img, index) => {
+        // 반응형/지연 로딩 이미지는 실제로 표시 중인 주소를 사용
+        const src = (liveImages[index] && liveImages[index].currentSrc) || img.getAttribute('src') || img.getAttribute('data-src');
+        img.removeAttribute('srcset');
+        img.removeAttribute('sizes');
+        img.removeAttribute('loading');
+        if (src) img.setAttribute('src', src.startsWith('data:') ? src : token({ type: 'asset', url: absolute(src) }));
+    });
+
+    const assetAttributes = [
+        ['link[rel~="icon"][href]', 'href'],
+        ['video[poster]', 'poster'],
+        ['input[type="image"][src]', 'src']
+    ];
+    for (const [selector, attribute] of assetAttributes) {
+        root.querySelectorAll(selector).forEach((el) => {
+            el.setAttribute(attribute, token({ type: 'asset', url: absolute(el.getAttribute(attribute)) }));
+        });
+    }
+
+    root.querySelectorAll('*').forEach((el) => {
+        for (const attribute of Array.from(el.attributes)) {
+            const name = attribute.name.toLowerCase();
+            if (name.startsWith('on') || (/^(href|src|action)$/.test(name) && /^\\s*javascript:/i.test(attribute.value))) {
+                el.removeAttribute(attribute.name);
+            }
+        }
+        const style = el.getAttribute('style');
+        if (style && style.includes('url(')) {
+            el.setAttribute('style', token({ type: 'css', css: style, baseUrl: document.baseURI, context: 'attribute' }));
+        }
+    });
+
+    // 상대 링크는 원래 주소로 열리도록 하고, 저장본에서는 스크립트가 실행되지 않도록 함
+    let head = root.querySelector('head');
+    if (!head) {
+        head = document.createElement('head');
+        root.prepend(head);
+    }
+    root.querySelectorAll('base, meta[http-equiv="Content-Security-Policy" i]').forEach((el) => el.remove());
+    const base = document.createElement('base');
+    base.href = location.href;
+    const csp = document.createElement('meta');
+    csp.httpEquiv = 'Content-Security-Policy';
+    csp.content = "script-src 'none'; object-src 'none'";
+    const charset = document.createElement('meta');
+    charset.setAttribute('charset', 'utf-8');
+    root.querySelectorAll('meta[charset]').forEach((el) => el.remove());
+    head.prepend(charset, csp, base);
+
+    return { url: location.href, title: document.title, html: root.outerHTML, parts };
+})()
+`
+
+/**
+ * 스냅샷의 토큰을 리소스로 채워 단일 HTML 문서 생성
+ * 받아오지 못한 리소스는 원래 주소를 그대로 둡니다.
+ */
+export async function buildSingleFileHtml(snapshot: PageSnapshot, fetcher: ArchiveFetcher, archivedAt = new Date()): Promise<string> {
+    const cached = createCachedFetcher(fetcher)
+
+    const values = await Promise.all(
+        snapshot.parts.map(async (part) => {
+            switch (part.type) {
+                case 'asset':
+                    return (await cached.dataUrl(part.url)) ?? part.url
+                case 'stylesheet': {
+                    const css = await cached.text(part.url)
+                    return css === null ? '' : escapeStyleText(await inlineCss(css, part.url, cached))
+                }
+                case 'css': {
+                    const css = await inlineCss(part.css, part.baseUrl, cached)
+                    return part.context === 'attribute' ? escapeAttribute(css) : escapeStyleText(css)
+                }
+            }
+        })
+    )
+
+    const html = snapshot.html.replace(/easy-gate-archive:(\d+)/g, (match, index: string) => values[Number(index)] ?? match)
+    const comment = `<!-- Archived by Easy Gate from ${escapeComment(snapshot.url)} on ${archivedAt.toISOString()} -->`
+    return `<!DOCTYPE html>\n${comment}\n${html}\n`
+}
+
+/**
+ * CSS의 url()과 @import를 data URL/본문으로 인라인
+ */
+export async function inlineCss(css: string, baseUrl: string, fetcher: ArchiveFetcher, depth = 0): Promise<string> {
+    let result = css
+
+    if (depth < MAX_IMPORT_DEPTH) {
+        const imports = [...result.matchAll(/@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*([^;]*);/g)]
+        for (const match of imports) {
+            const url = resolveUrl(match[2] ?? match[4], baseUrl)
+            const imported = url ? await fetcher.text(url) : null
+            if (imported === null || !url) continue
+
+            const inlined = await inlineCss(imported, url, fetcher, depth + 1)
+            const media = match[5].trim()
+            result = result.replace(match[0], media ? `@media ${media} {\n${inlined}\n}` : inlined)
+        }
+    }
+
+    const references = new Set([...result.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g)].map((match) => match[2].trim()))
+    const replacements = new Map<string, string>()
+    await Promise.all(
+        [...references].map(async (reference) => {
+            if (/^(data:|#)/.test(reference)) return
+            const url = resolveUrl(reference, baseUrl)
+            const dataUrl = url ? await fetcher.dataUrl(url) : null
+            if (dataUrl) replacements.set(reference, dataUrl)
+        })
+    )
+
+    return result.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match, _quote: string, reference: string) => {
+        const dataUrl = replacements.get(reference.trim())
+        return dataUrl ? `url("${dataUrl}")` : match
+    })
+}
+
+function createCachedFetcher(fetcher: ArchiveFetcher): ArchiveFetcher {
+    const texts = new Map<string, Promise<string | null>>()
+    const dataUrls = new Map<string, Promise<string | null>>()
+    const cached = (cache: Map<string, Promise<string | null>>, load: (url: string) => Promise<string | null>) => (url: string) => {
+        if (!cache.has(url)) {
+            cache.set(
+                url,
+                load(url).catch(() => null)
+            )
+        }
+        return cache.get(url) as Promise<string | null>
+    }
+
+    return {
+        text: cached(texts, (url) => fetcher.text(url)),
+        dataUrl: cached(dataUrls, (url) => fetcher.dataUrl(url))
+    }
+}
+
+function resolveUrl(reference: string, baseUrl: string): string | null {
+    try {
+        const url = new URL(reference, baseUrl)
+        return /^https?:$/.test(url.protocol) ? url.href : null
+    } catch {
+        return null
+    }
+}
+
+// <style> 안의 CSS가 태그를 닫지 못하도록 함
+function escapeStyleText(css: string): string {
+    return css.replace(/<\/(style)/gi, '<\\/$1')
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
+
+function escapeComment(value: string): string {
+    return value.replace(/--/g, '- -')
+}
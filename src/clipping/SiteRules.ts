@@ -0,0 +1,173 @@
+/**
+ * SiteRules - 사이트별 추출 규칙
+ *
+ * 호스트명 패턴으로 규칙을 찾고, 규칙 목록을 JSON으로 가져오거나 내보냅니다.
+ * ContentExtractor와 MetadataParser가 일반 휴리스틱보다 먼저 참조합니다.
+ */
+
+import { SiteRule } from '../ai/types'
+import { t } from '../i18n'
+
+export const SITE_RULES_EXPORT_VERSION = 1
+
+export interface SiteRulesExport {
+    version: number
+    rules: SiteRule[]
+}
+
+/**
+ * 새 규칙 생성
+ */
+export function createEmptySiteRule(hostPattern = ''): SiteRule {
+    return {
+        id: `site-rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        hostPattern,
+        enabled: true,
+        contentSelectors: [],
+        removeSelectors: []
+    }
+}
+
+/**
+ * 호스트명 패턴 매칭
+ * "*"는 임의의 문자열과 일치하며, "*.example.com"은 "example.com" 자체도 포함합니다.
+ */
+export function matchHostPattern(pattern: string, hostname: string): boolean {
+    const normalizedPattern = pattern.trim().toLowerCase()
+    const normalizedHost = hostname.toLowerCase().replace(/^www\./, '')
+    if (!normalizedPattern) return false
+
+    if (normalizedPattern.startsWith('*.') && normalizedHost === normalizedPattern.slice(2)) {
+        return true
+    }
+
+    const regex = new RegExp(
+        '^' +
+            normalizedPattern
+                .replace(/^www\./, '')
+                .split('*')
+                .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('.*') +
+            '$'
+    )
+    return regex.test(normalizedHost)
+}
+
+/**
+ * URL에 해당하는 규칙 찾기 (활성화된 규칙 중 목록 순서상 첫 번째)
+ */
+export function findSiteRule(rules: SiteRule[], url: string): SiteRule | null {
+    let hostname: string
+    try {
+        hostname = new URL(url).hostname
+    } catch {
+        return null
+    }
+    if (!hostname) return null
+
+    return rules.find((rule) => rule.enabled && matchHostPattern(rule.hostPattern, hostname)) || null
+}
+
+/**
+ * 규칙 목록을 JSON 문자열로 내보내기
+ */
+export function exportSiteRules(rules: SiteRule[]): string {
+    const data: SiteRulesExport = {
+        version: SITE_RULES_EXPORT_VERSION,
+        rules
+    }
+    return JSON.stringify(data, null, 2)
+}
+
+/**
+ * JSON 문자열에서 규칙 목록 파싱
+ * 내보내기 형식({ version, rules })과 규칙 배열을 모두 받습니다.
+ * 형식이 잘못된 경우 Error를 던집니다.
+ */
+export function parseSiteRules(json: string): SiteRule[] {
+    let data: unknown
+    try {
+        data = JSON.parse(json)
+    } catch {
+        throw new Error(t('siteRules.invalidJson'))
+    }
+
+    const rawRules = Array.isArray(data) ? data : (data as SiteRulesExport)?.rules
+    if (!Array.isArray(rawRules)) {
+        throw new Error(t('siteRules.missingRules'))
+    }
+
+    return rawRules.map((raw, index) => normalizeSiteRule(raw, index))
+}
+
+/**
+ * 가져온 규칙을 기존 목록에 병합 (같은 hostPattern은 덮어쓰기)
+ * 다른 hostPattern인데 id가 겹치는 규칙은 새 id를 받습니다.
+ */
+export function mergeSiteRules(existing: SiteRule[], imported: SiteRule[]): SiteRule[] {
+    const merged = [...existing]
+    for (const rule of imported) {
+        const index = merged.findIndex((r) => r.hostPattern.trim().toLowerCase() === rule.hostPattern.trim().toLowerCase())
+        if (index >= 0) {
+            merged[index] = { ...rule, id: merged[index].id }
+        } else if (merged.some((r) => r.id === rule.id)) {
+            merged.push({ ...rule, id: createEmptySiteRule().id })
+        } else {
+            merged.push(rule)
+        }
+    }
+    return merged
+}
+
+/**
+ * 규칙 하나 검증 및 정리 (index는 오류 메시지용, 0부터)
+ */
+export function normalizeSiteRule(raw: unknown, index: number): SiteRule {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error(t('siteRules.notObject', { index: index + 1 }))
+    }
+
+    const rule = raw as Partial<SiteRule>
+    if (typeof rule.hostPattern !== 'string' || !rule.hostPattern.trim()) {
+        throw new Error(t('siteRules.missingHostPattern', { index: index + 1 }))
+    }
+
+    return {
+        ...createEmptySiteRule(rule.hostPattern.trim()),
+        ...(typeof rule.id === 'string' && rule.id ? { id: rule.id } : {}),
+        enabled: rule.enabled !== false,
+        contentSelectors: toStringList(rule.contentSelectors),
+        removeSelectors: toStringList(rule.removeSelectors),
+        titleSelector: toOptionalString(rule.titleSelector),
+        authorSelector: toOptionalString(rule.authorSelector),
+        dateSelector: toOptionalString(rule.dateSelector),
+        preScript: toOptionalString(rule.preScript)
+    }
+}
+
+function toStringList(value: unknown): string[] {
+    if (typeof value === 'string') value = [value]
+    if (!Array.isArray(value)) return []
+    return value
+        .filter((v): v is string => typeof v === 'string')
+        .map((v) => v.trim())
+        .filter((v) => v)
+}
+
+function toOptionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// ============================================
+// Singleton Registry
+// ============================================
+
+let siteRules: SiteRule[] = []
+
+export function updateSiteRules(rules: SiteRule[]): void {
+    siteRules = rules
+}
+
+export function getSiteRuleForUrl(url: string): SiteRule | null {
+    return findSiteRule(siteRules, url)
+}
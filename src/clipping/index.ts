@@ -5,17 +5,53 @@
  */
 
 // Content Extraction
-export { ContentExtractor, CONTENT_EXTRACTION_SCRIPT, SELECTION_EXTRACTION_SCRIPT } from './ContentExtractor'
-export type { ExtractedContent } from './ContentExtractor'
+export { ContentExtractor, CONTENT_EXTRACTION_SCRIPT, SELECTION_EXTRACTION_SCRIPT, createContentExtractionScript } from './ContentExtractor'
+export type { ExtractedContent, SiteRuleSelectors } from './ContentExtractor'
 
 // Metadata Parsing
-export { MetadataParser, METADATA_EXTRACTION_SCRIPT } from './MetadataParser'
-export type { PageMetadata } from './MetadataParser'
+export { MetadataParser, METADATA_EXTRACTION_SCRIPT, createMetadataExtractionScript } from './MetadataParser'
+export type { PageMetadata, SiteRuleMetadataSelectors } from './MetadataParser'
+
+// Site Rules
+export {
+    createEmptySiteRule,
+    matchHostPattern,
+    findSiteRule,
+    exportSiteRules,
+    parseSiteRules,
+    mergeSiteRules,
+    normalizeSiteRule,
+    updateSiteRules,
+    getSiteRuleForUrl
+} from './SiteRules'
+export type { SiteRulesExport } from './SiteRules'
+
+// Markdown Conversion
+export { MarkdownConverter } from './MarkdownConverter'
+export type { MarkdownConverterOptions } from './MarkdownConverter'
+
+// Frontmatter
+export { serializeFrontmatter, parseFrontmatter, toYamlInline, normalizeTags } from './Frontmatter'
+export type { FrontmatterData, FrontmatterValue } from './Frontmatter'
+
+// Note Rendering
+export { NoteRenderer, getDefaultClipNoteTemplate, getDefaultAINoteTemplate, NOTE_TEMPLATE_VARIABLES } from './NoteRenderer'
+export type { NoteTemplateData } from './NoteRenderer'
 
 // Note Generation
 export { NoteGenerator } from './NoteGenerator'
 export type { NoteGeneratorOptions, GeneratedNote } from './NoteGenerator'
 
+// Screenshot
+export { ScreenshotCapture } from './ScreenshotCapture'
+export type { ScreenshotMode, ScreenshotFormat } from './ScreenshotCapture'
+
+// Offline Archive
+export { PageArchiver } from './PageArchiver'
+export type { ArchiveFormat, ArchiveOptions } from './PageArchiver'
+export { SNAPSHOT_SCRIPT, buildSingleFileHtml, inlineCss } from './SingleFileArchive'
+export type { ArchivePart, PageSnapshot, ArchiveFetcher } from './SingleFileArchive'
+
 // Clip Service
 export {
     ClipService,
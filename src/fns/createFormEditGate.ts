@@ -1,6 +1,8 @@
 import { Setting } from 'obsidian'
 import { normalizeGateOption } from './normalizeGateOption'
 import { GateFrameOption, GateFrameOptionType } from '../GateOptions'
+import { t } from '../i18n'
+import { createProfileBadge, DEFAULT_PROFILE_KEY, DEFAULT_PROFILES, getProfileManager } from '../profiles'
 
 export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFrameOption, onSubmit?: (result: GateFrameOption) => void) => {
     new Setting(contentEl)
@@ -16,7 +18,7 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
         )
 
     new Setting(contentEl)
-        .setName('Name')
+        .setName(t('gateForm.name'))
         .setClass('open-gate--form-field')
         .addText((text) =>
             text.setValue(gateOptions.title).onChange(async (value) => {
@@ -25,9 +27,9 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
         )
 
     new Setting(contentEl)
-        .setName('Pin to menu')
+        .setName(t('gateForm.pin'))
         .setClass('open-gate--form-field')
-        .setDesc('If enabled, the gate will be pinned to the left bar')
+        .setDesc(t('gateForm.pinDesc'))
         .addToggle((text) =>
             text.setValue(gateOptions.hasRibbon === true).onChange(async (value) => {
                 gateOptions.hasRibbon = value
@@ -35,14 +37,14 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
         )
 
     new Setting(contentEl)
-        .setName('Position')
+        .setName(t('gateForm.position'))
         .setClass('open-gate--form-field')
-        .setDesc('What banner do you want to show?')
+        .setDesc(t('gateForm.positionDesc'))
         .addDropdown((text) =>
             text
-                .addOption('left', 'Left')
-                .addOption('right', 'Right')
-                .addOption('center', 'Center')
+                .addOption('left', t('gateForm.left'))
+                .addOption('right', t('gateForm.right'))
+                .addOption('center', t('gateForm.center'))
                 .setValue(gateOptions.position ?? 'right')
                 .onChange(async (value) => {
                     gateOptions.position = value as GateFrameOptionType
@@ -50,7 +52,7 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
         )
 
     new Setting(contentEl)
-        .setName('Advanced Options')
+        .setName(t('gateForm.advanced'))
         .setClass('open-gate--form-field')
         .addToggle((text) =>
             text.setValue(false).onChange(async (value) => {
@@ -67,9 +69,9 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
     })
 
     new Setting(advancedOptions)
-        .setName('Icon')
+        .setName(t('gateForm.icon'))
         .setClass('open-gate--form-field--column')
-        .setDesc('Leave it blank to enable auto-detect')
+        .setDesc(t('gateForm.iconDesc'))
         .addTextArea((text) =>
             text.setValue(gateOptions.icon).onChange(async (value) => {
                 gateOptions.icon = value
@@ -77,34 +79,63 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
         )
 
     new Setting(advancedOptions)
-        .setName('User Agent')
+        .setName(t('gateForm.userAgent'))
         .setClass('open-gate--form-field--column')
-        .setDesc('Leave it blank if you are not sure')
+        .setDesc(t('gateForm.blankIfUnsure'))
         .addTextArea((text) =>
             text.setValue(gateOptions.userAgent ?? '').onChange(async (value) => {
                 gateOptions.userAgent = value
             })
         )
 
-    new Setting(advancedOptions)
-        .setName('Profile Key')
+    const profiles = getProfileManager()?.getProfiles() ?? DEFAULT_PROFILES
+    const profileSetting = new Setting(advancedOptions)
+        .setName(t('gateForm.profileKey'))
         .setClass('open-gate--form-field')
-        .setDesc("It's like profiles in Chrome, gates with the same profile can share storage")
-        .addText((text) =>
-            text.setValue(gateOptions.profileKey ?? '').onChange(async (value) => {
-                if (value === '') {
-                    value = 'open-gate'
-                }
+        .setDesc(t('gateForm.profileKeyDesc'))
+    const profileBadgeEl = profileSetting.controlEl.createDiv()
+    const renderProfileBadge = (key: string) => {
+        profileBadgeEl.empty()
+        const profile = profiles.find((candidate) => candidate.key === key)
+        if (profile) createProfileBadge(profileBadgeEl, profile)
+    }
+    profileSetting.addDropdown((dropdown) => {
+        const current = gateOptions.profileKey || DEFAULT_PROFILE_KEY
+        for (const profile of profiles) {
+            dropdown.addOption(profile.key, profile.name)
+        }
+        // 목록에서 지워진 프로필을 쓰던 게이트도 세션을 그대로 유지
+        if (!profiles.some((profile) => profile.key === current)) {
+            dropdown.addOption(current, current)
+        }
+        dropdown.setValue(current).onChange(async (value) => {
+            gateOptions.profileKey = value
+            renderProfileBadge(value)
+        })
+        renderProfileBadge(current)
+    })
 
-                gateOptions.profileKey = value
-            })
+    new Setting(advancedOptions)
+        .setName(t('gateForm.blockerAllowlist'))
+        .setClass('open-gate--form-field--column')
+        .setDesc(t('gateForm.blockerAllowlistDesc'))
+        .addTextArea((text) =>
+            text
+                .setPlaceholder('example.com')
+                .setValue((gateOptions.blockerAllowlist ?? []).join('\n'))
+                .onChange(async (value) => {
+                    gateOptions.blockerAllowlist = value
+                        .split('\n')
+                        .map((site) => site.trim())
+                        .filter((site) => site)
+                })
         )
 
     //zoomFactor
     new Setting(advancedOptions)
-        .setName('Zoom Factor')
+        .setName(t('gateForm.zoomFactor'))
         .setClass('open-gate--form-field')
-        .setDesc('Leave it blank if you are not sure')
+        .setDesc(t('gateForm.blankIfUnsure'))
         .addText((text) =>
             text.setValue(gateOptions.zoomFactor?.toString() ?? '0.0').onChange(async (value) => {
                 gateOptions.zoomFactor = parseFloat(value)
@@ -116,7 +147,7 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
     // Create a new element to hold the description and the link
     const descLink = document.createElement('a')
     descLink.href = 'https://github.com/nguyenvanduocit/obsidian-open-gate/discussions/categories/snippets'
-    descLink.textContent = 'Check out the snippet library here'
+    descLink.textContent = t('gateForm.snippets')
     cssFieldDesc.appendChild(descLink)
 
     new Setting(advancedOptions)
@@ -132,7 +163,7 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
     new Setting(advancedOptions)
         .setName('JavaScript')
         .setClass('open-gate--form-field--column')
-        .setDesc('Leave it blank if you are not sure')
+        .setDesc(t('gateForm.blankIfUnsure'))
         .addTextArea((text) =>
             text.setValue(gateOptions.js ?? '').onChange(async (value) => {
                 gateOptions.js = value
@@ -141,7 +172,7 @@ export const createFormEditGate = (contentEl: HTMLElement, gateOptions: GateFram
 
     new Setting(contentEl).addButton((btn) =>
         btn
-            .setButtonText(gateOptions.id ? 'Update the gate' : 'Create new gate')
+            .setButtonText(gateOptions.id ? t('gateForm.update') : t('gateForm.create'))
             .setCta()
             .onClick(async () => {
                 gateOptions = normalizeGateOption(gateOptions)
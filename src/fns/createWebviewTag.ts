@@ -6,12 +6,15 @@ const DEFAULT_URL = 'about:blank'
 const GOOGLE_URL = 'https://google.com'
 const OPEN_GATE_WEBVIEW_CLASS = 'open-gate-webview'
 
+// Webviews with the same profile key share cookies and storage
+export const getWebviewPartition = (profileKey?: string): string => 'persist:' + profileKey
+
 export const createWebviewTag = (params: Partial<GateFrameOption>, onReady?: () => void, parentDoc?: Document): WebviewTag => {
     // Create a new webview tag using the parent document context
     const webviewTag = (parentDoc || document).createElement('webview') as unknown as WebviewTag
 
     // Set attributes for the webview tag
-    webviewTag.setAttribute('partition', 'persist:' + params.profileKey)
+    webviewTag.setAttribute('partition', getWebviewPartition(params.profileKey))
     webviewTag.setAttribute('src', params.url ?? DEFAULT_URL)
     webviewTag.setAttribute('httpreferrer', params.url ?? GOOGLE_URL)
     webviewTag.setAttribute('allowpopups', 'true')
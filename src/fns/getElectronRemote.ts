@@ -0,0 +1,14 @@
+type ElectronRemote = Pick<typeof Electron.CrossProcessExports, 'session' | 'webContents'>
+
+/**
+ * Obsidian 데스크톱이 렌더러에 제공하는 @electron/remote (모바일이나 지원하지 않는 버전에서는 null)
+ * 번들에 포함하지 않도록 런타임 require로 불러옵니다.
+ */
+export function getElectronRemote(): ElectronRemote | null {
+    try {
+        // @ts-ignore - Electron 렌더러의 전역 require
+        return (window.require?.('@electron/remote') as ElectronRemote | undefined) ?? null
+    } catch {
+        return null
+    }
+}
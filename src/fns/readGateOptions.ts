@@ -0,0 +1,88 @@
+import { GateFrameOption } from '../GateOptions'
+import { t } from '../i18n'
+
+type GateOptionFieldType = 'text' | 'number' | 'boolean' | 'list' | readonly string[]
+
+/**
+ * `gate` 코드 블록과 게이트 파일 frontmatter에서 읽는 GateFrameOption 필드
+ * GateFrameOption에 필드를 추가하면 여기에도 추가해야 타입 검사를 통과합니다.
+ */
+export const GATE_OPTION_FIELDS: Record<Exclude<keyof GateFrameOption, 'sourcePath'>, GateOptionFieldType> = {
+    id: 'text',
+    icon: 'text',
+    title: 'text',
+    url: 'text',
+    profileKey: 'text',
+    hasRibbon: 'boolean',
+    position: ['left', 'center', 'right'],
+    userAgent: 'text',
+    zoomFactor: 'number',
+    css: 'text',
+    js: 'text',
+    blockerAllowlist: 'list'
+}
+
+export type GateOptionField = keyof typeof GATE_OPTION_FIELDS
+
+/**
+ * YAML에서 읽은 객체를 GateFrameOption 필드로 변환
+ * 알 수 없는 키(height, tags 등)는 무시하고, 타입이 맞지 않는 필드는 errors에 담아 반환합니다.
+ */
+export function readGateOptions(data: Record<string, unknown>): { options: Partial<GateFrameOption>; errors: string[] } {
+    const options: Record<string, unknown> = {}
+    const errors: string[] = []
+
+    for (const field of Object.keys(GATE_OPTION_FIELDS) as GateOptionField[]) {
+        const value = data[field]
+        if (value === undefined || value === null) continue
+
+        const type = GATE_OPTION_FIELDS[field]
+        const converted = convertValue(value, type)
+        if (converted === undefined) {
+            errors.push(describeError(field, type))
+        } else {
+            options[field] = converted
+        }
+    }
+
+    return { options: options as Partial<GateFrameOption>, errors }
+}
+
+function convertValue(value: unknown, type: GateOptionFieldType): unknown {
+    if (typeof type !== 'string') {
+        return typeof value === 'string' && type.includes(value) ? value : undefined
+    }
+
+    switch (type) {
+        case 'text':
+            // YAML은 숫자만 있는 값(id: 123)을 숫자로 읽음
+            return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined
+        case 'number': {
+            const number = typeof value === 'string' && value.trim() ? Number(value) : value
+            return typeof number === 'number' && isFinite(number) ? number : undefined
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? value : undefined
+        case 'list': {
+            const items = Array.isArray(value) ? value : [value]
+            return items.every((item) => typeof item === 'string' || typeof item === 'number') ? items.map(String) : undefined
+        }
+    }
+}
+
+function describeError(field: string, type: GateOptionFieldType): string {
+    if (typeof type !== 'string') {
+        return t('gateOptions.invalidChoice', { field, choices: type.join(', ') })
+    }
+
+    switch (type) {
+        case 'text':
+            return t('gateOptions.invalidText', { field })
+        case 'number':
+            return t('gateOptions.invalidNumber', { field })
+        case 'boolean':
+            return t('gateOptions.invalidBoolean', { field })
+        case 'list':
+            return t('gateOptions.invalidList', { field })
+    }
+}
@@ -0,0 +1,93 @@
+import { FileSystemAdapter, normalizePath, Platform, TFile } from 'obsidian'
+import { parse } from 'yaml'
+import OpenGatePlugin from '../main'
+import { t } from '../i18n'
+
+interface ArchiveBlockOption {
+    file?: string
+    height?: string | number
+}
+
+/**
+ * 첫 줄에는 아카이브 파일 경로나 [[링크]], 이후 줄에는 YAML 옵션(height)
+ *
+ * ```archive
+ * [[Easy Gate/Archive/Example - 2024-01-01.html]]
+ * height: 600
+ * ```
+ */
+function parseArchiveBlock(sourceCode: string): ArchiveBlockOption {
+    const [firstLine, ...rest] = sourceCode.trim().split('\n')
+    const link = firstLine.trim().match(/^!?\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]$/)
+
+    if (link || !firstLine.includes(':')) {
+        const data = rest.length > 0 ? parse(rest.join('\n')) : {}
+        return { ...(typeof data === 'object' && data !== null ? data : {}), file: link ? link[1] : firstLine.trim() }
+    }
+
+    const data = parse(sourceCode)
+    return typeof data === 'object' && data !== null ? data : {}
+}
+
+function createMessage(el: HTMLElement, message: string): void {
+    el.createDiv({ cls: 'easy-gate-archive-message', text: message })
+}
+
+/**
+ * 저장된 아카이브를 노트 안에서 보여주는 `archive` 코드블록
+ * 아카이브에는 스크립트를 허용하지 않는 샌드박스 프레임을 사용합니다.
+ */
+export function registerArchiveCodeBlockProcessor(plugin: OpenGatePlugin) {
+    plugin.registerMarkdownCodeBlockProcessor('archive', async (sourceCode, el, ctx) => {
+        el.addClass('easy-gate-archive')
+
+        let options: ArchiveBlockOption
+        try {
+            options = parseArchiveBlock(sourceCode)
+        } catch (error) {
+            createMessage(el, t('codeBlock.errorDetails', { error: error instanceof Error ? error.message : String(error) }))
+            return
+        }
+
+        if (!options.file) {
+            createMessage(el, t('archive.noFile'))
+            return
+        }
+
+        const { vault, metadataCache } = plugin.app
+        const file = metadataCache.getFirstLinkpathDest(options.file, ctx.sourcePath) ?? vault.getAbstractFileByPath(normalizePath(options.file))
+        if (!(file instanceof TFile)) {
+            createMessage(el, t('archive.notFound', { path: options.file }))
+            return
+        }
+
+        const height = typeof options.height === 'number' ? `${options.height}px` : options.height || '600px'
+
+        const header = el.createDiv({ cls: 'easy-gate-archive-header' })
+        const link = header.createEl('a', { cls: 'internal-link', text: file.name, href: file.path })
+        link.dataset.href = file.path
+
+        if (file.extension === 'mhtml') {
+            // MHTML은 Chromium이 file: 주소로만 렌더링하므로 스크립트를 끈 webview 사용
+            if (!Platform.isDesktopApp || !(vault.adapter instanceof FileSystemAdapter)) {
+                createMessage(el, t('archive.mhtmlDesktopOnly'))
+                return
+            }
+            const fullPath = vault.adapter.getFullPath(file.path).replace(/\\/g, '/')
+            const webview = document.createElement('webview')
+            webview.setAttribute('src', `file://${fullPath.startsWith('/') ? '' : '/'}${encodeURI(fullPath)}`)
+            webview.setAttribute('webpreferences', 'javascript=no')
+            webview.setAttribute('partition', 'easy-gate-archive')
+            webview.addClass('easy-gate-archive-frame')
+            webview.style.height = height
+            el.appendChild(webview)
+            return
+        }
+
+        const iframe = el.createEl('iframe', { cls: 'easy-gate-archive-frame' })
+        // 링크는 새 창으로만 열 수 있고 스크립트와 동일 출처 접근은 허용하지 않음
+        iframe.setAttribute('sandbox', 'allow-popups allow-popups-to-escape-sandbox')
+        iframe.style.height = height
+        iframe.srcdoc = await vault.cachedRead(file)
+    })
+}
@@ -6,7 +6,9 @@ import WebviewTag = Electron.WebviewTag
 import { createEmptyGateOption } from './createEmptyGateOption'
 import OpenGatePlugin from '../main'
 import { normalizeGateOption } from './normalizeGateOption'
+import { readGateOptions } from './readGateOptions'
 import { GateFrameOption } from '../GateOptions'
+import { t } from '../i18n'
 
 type CodeBlockOption = GateFrameOption & {
     height?: string | number
@@ -47,39 +49,42 @@ function processNewSyntax(plugin: OpenGatePlugin, sourceCode: string): Node {
         delete data.height
     }
 
-    let prefill: GateFrameOption | undefined
-
-    if (data.title) {
-        prefill = plugin.findGateBy('title', data.title)
-    } else if (data.url) {
-        prefill = plugin.findGateBy('url', data.url)
+    // 게이트 파일 frontmatter와 같은 필드 규칙으로 읽음
+    const { options, errors } = readGateOptions(data)
+    if (errors.length > 0) {
+        return createErrorMessage(new Error(errors.join('\n')))
     }
 
-    if (prefill) {
-        data = Object.assign(prefill, data)
+    let prefill: GateFrameOption | undefined
+
+    if (options.title) {
+        prefill = plugin.findGateBy('title', options.title)
+    } else if (options.url) {
+        prefill = plugin.findGateBy('url', options.url)
     }
 
-    return createFrame(normalizeGateOption(data), height)
+    // 저장된 게이트를 고치지 않도록 복사본에 병합
+    return createFrame(normalizeGateOption({ ...prefill, ...options }), height)
 }
 
 function createErrorMessage(error?: Error): Node {
     const div = document.createElement('div')
 
-    const messageText = 'The syntax has been updated. Please use the YAML format.'
+    const messageText = t('codeBlock.syntaxUpdated')
     const messageTextNode = document.createTextNode(messageText)
     div.appendChild(messageTextNode)
 
     if (error) {
-        const errorDetailsText = `\nError details: ${error.message}`
+        const errorDetailsText = `\n${t('codeBlock.errorDetails', { error: error.message })}`
         const errorDetailsTextNode = document.createTextNode(errorDetailsText)
         div.appendChild(errorDetailsTextNode)
     }
 
-    const linkText = '\nRead more about YAML here.'
+    const linkText = `\n${t('codeBlock.readMore')} `
     const linkTextNode = document.createTextNode(linkText)
     const linkNode = document.createElement('a')
     linkNode.href = 'https://yaml.org/spec/1.2/spec.html'
-    linkNode.textContent = 'YAML Syntax'
+    linkNode.textContent = t('codeBlock.yamlSyntax')
     div.appendChild(linkTextNode)
     div.appendChild(linkNode)
 
@@ -0,0 +1,53 @@
+import { Keymap } from 'obsidian'
+import { EditorView } from '@codemirror/view'
+import OpenGatePlugin from '../main'
+import { findUrlAtOffset } from '../routing'
+
+/**
+ * 노트의 외부 링크 클릭을 라우팅 규칙에 맞는 게이트로 보냄
+ * 읽기 모드의 링크와 라이브 프리뷰의 링크를 모두 처리하며, 규칙이 없거나 무시 키를 누른 경우엔 기본 동작(시스템 브라우저)을 그대로 둡니다.
+ */
+export const registerLinkRouter = (plugin: OpenGatePlugin) => {
+    // Obsidian의 링크 처리보다 먼저 받아야 하므로 캡처 단계에서 처리
+    plugin.registerDomEvent(
+        document,
+        'click',
+        (evt) => {
+            const routing = plugin.settings.routing
+            if (!routing.enabled || routing.rules.length === 0 || evt.button !== 0) return
+            if (Keymap.isModifier(evt, routing.overrideModifier)) return
+
+            const url = getClickedUrl(evt.target)
+            if (!url) return
+
+            const route = plugin.findRouteForUrl(url)
+            if (!route) return
+
+            evt.preventDefault()
+            evt.stopImmediatePropagation()
+            plugin.openUrlInGate(route.gate.id, url, route.position)
+        },
+        { capture: true }
+    )
+}
+
+const getClickedUrl = (target: EventTarget | null): string | null => {
+    if (!(target instanceof HTMLElement)) return null
+
+    // 읽기 모드 (및 라이브 프리뷰 안에서 렌더링된 블록)
+    const anchor = target.closest('a.external-link')
+    if (anchor) {
+        const href = anchor.getAttribute('href')
+        return href && /^https?:\/\//i.test(href) ? href : null
+    }
+
+    // 라이브 프리뷰 - 클릭한 위치의 줄에서 링크 주소를 찾음
+    const linkEl = target.closest('.is-live-preview .cm-link, .is-live-preview .cm-url')
+    const editorEl = linkEl?.closest<HTMLElement>('.cm-editor')
+    const view = editorEl ? EditorView.findFromDOM(editorEl) : null
+    if (!linkEl || !view) return null
+
+    const pos = view.posAtDOM(linkEl)
+    const line = view.state.doc.lineAt(pos)
+    return findUrlAtOffset(line.text, pos - line.from)
+}
@@ -1,6 +1,7 @@
 import { App, Editor, Menu, Notice, Plugin } from 'obsidian'
 import { ModalInsertLink } from '../ModalInsertLink'
 import { GateFrameOption } from '../GateOptions'
+import { t } from '../i18n'
 
 export const setupInsertLinkMenu = (plugin: Plugin) => {
     plugin.registerEvent(plugin.app.workspace.on('editor-menu', (menu, editor) => createMenu(plugin.app, menu, editor)))
@@ -8,7 +9,7 @@ export const setupInsertLinkMenu = (plugin: Plugin) => {
 
 const createMenu = (app: App, menu: Menu, editor: Editor) => {
     menu.addItem((item) => {
-        item.setTitle('Insert Gate Link').onClick(async () => {
+        item.setTitle(t('insertLink.menu')).onClick(async () => {
             const modal = new ModalInsertLink(app, async (gate: GateFrameOption) => {
                 const gateLink = `[${gate.title}](obsidian://opengate?title=${encodeURIComponent(gate.title)}&url=${encodeURIComponent(gate.url)})`
                 editor.replaceSelection(gateLink)
@@ -1,5 +1,6 @@
 import { Editor, Menu, Notice, Plugin } from 'obsidian'
 import { MarkdownLink } from '../types'
+import { t } from '../i18n'
 
 export const setupLinkConvertMenu = (plugin: Plugin) => {
     plugin.registerEvent(plugin.app.workspace.on('editor-menu', createMenu))
@@ -32,11 +33,11 @@ const createMenu = (menu: Menu, editor: Editor) => {
 
     if (parsedLink.url.startsWith('obsidian://opengate')) {
         menu.addItem((item) => {
-            item.setTitle('Convert to normal link').onClick(async () => {
+            item.setTitle(t('linkMenu.toNormal')).onClick(async () => {
                 // get the url parameter from the link
                 const urlMatch = parsedLink.url.match(/url=([^&]+)/)
                 if (!urlMatch) {
-                    new Notice('Can not convert the pre-configured gate link to normal link.')
+                    new Notice(t('linkMenu.preconfigured'))
                     return
                 }
 
@@ -47,7 +48,7 @@ const createMenu = (menu: Menu, editor: Editor) => {
         })
     } else {
         menu.addItem((item) => {
-            item.setTitle('Convert to Gate Link').onClick(async () => {
+            item.setTitle(t('linkMenu.toGate')).onClick(async () => {
                 const gateLink = `[${parsedLink.title}](obsidian://opengate?title=${encodeURIComponent(parsedLink.title)}&url=${encodeURIComponent(parsedLink.url)})`
                 editor.replaceSelection(gateLink)
             })
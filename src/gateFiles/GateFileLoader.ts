@@ -0,0 +1,264 @@
+/**
+ * GateFileLoader - 볼트 폴더의 게이트 파일 불러오기
+ *
+ * 폴더의 Markdown 파일을 게이트로 등록하고, 파일을 만들거나 고치거나 지우면 바로 반영합니다.
+ * 파일로 정의한 게이트는 설정에 저장하지 않으며(sourcePath로 구분), 설정 화면에서 고친 내용은 파일 frontmatter에 다시 씁니다.
+ * 불러오지 못한 파일은 진단 목록에 남기고 'changed' 이벤트를 보냅니다.
+ */
+
+import { debounce, EventRef, Events, FileManager, normalizePath, TAbstractFile, TFile, TFolder, Vault } from 'obsidian'
+import { GateFrameOption } from '../GateOptions'
+import { getChangedGateFields, parseGateFile } from './GateFileParser'
+import { DEFAULT_GATE_FILE_SETTINGS, GateFileDiagnostic, GateFileSettings } from './types'
+import { t } from '../i18n'
+
+/**
+ * 불러온 게이트를 등록/해제할 곳 (main.ts의 플러그인)
+ */
+export interface GateFileHost {
+    getGate(gateId: string): GateFrameOption | undefined
+    setGate(gate: GateFrameOption): void
+    deleteGate(gateId: string): void
+}
+
+export interface GateFileLoaderOptions {
+    vault: Vault
+    fileManager: FileManager
+    settings: GateFileSettings
+    host: GateFileHost
+}
+
+interface GateFileEntry {
+    gate?: GateFrameOption // 마지막으로 읽은 올바른 내용
+    error?: string
+}
+
+/**
+ * GateFileLoader 클래스
+ */
+export class GateFileLoader extends Events {
+    private vault: Vault
+    private fileManager: FileManager
+    private settings: GateFileSettings
+    private host: GateFileHost
+    private entries: Map<string, GateFileEntry> = new Map()
+    // 마지막으로 불러올 때의 설정 (load 전에는 볼트 이벤트를 무시)
+    private loadedKey: string | null = null
+    // 폴더 이름을 입력하는 동안 글자마다 다시 읽지 않도록 지연
+    private reloadLater = debounce(() => this.load(), 1000, true)
+
+    constructor(options: GateFileLoaderOptions) {
+        super()
+        this.vault = options.vault
+        this.fileManager = options.fileManager
+        this.settings = options.settings
+        this.host = options.host
+    }
+
+    get folder(): string {
+        return normalizePath(this.settings.folder || DEFAULT_GATE_FILE_SETTINGS.folder)
+    }
+
+    /**
+     * 폴더 전체를 다시 읽기 (폴더에서 빠진 파일의 게이트는 해제)
+     */
+    async load(): Promise<void> {
+        this.loadedKey = this.getSettingsKey()
+        const files = this.settings.enabled ? this.vault.getMarkdownFiles().filter((file) => this.isGateFile(file)) : []
+        const paths = new Set(files.map((file) => file.path))
+
+        for (const path of Array.from(this.entries.keys())) {
+            if (!paths.has(path)) this.removeEntry(path)
+        }
+        for (const file of files) {
+            await this.loadFile(file)
+        }
+        this.trigger('changed')
+    }
+
+    updateSettings(settings: GateFileSettings): void {
+        this.settings = settings
+        if (this.loadedKey !== null && this.getSettingsKey() !== this.loadedKey) {
+            this.reloadLater()
+        }
+    }
+
+    /**
+     * 볼트 파일 생성/수정 처리 (main.ts에서 vault 'create'/'modify' 이벤트로 호출)
+     */
+    async handleFileChange(file: TAbstractFile): Promise<void> {
+        if (this.loadedKey === null || !this.settings.enabled || !this.isGateFile(file)) return
+
+        await this.loadFile(file)
+        this.trigger('changed')
+    }
+
+    async handleFileDelete(file: TAbstractFile): Promise<void> {
+        if (this.loadedKey === null) return
+
+        const paths = Array.from(this.entries.keys()).filter((path) => path === file.path || path.startsWith(`${file.path}/`))
+        if (paths.length === 0) return
+
+        paths.forEach((path) => this.removeEntry(path))
+        // 지운 파일과 id가 겹쳐 불러오지 못했던 파일 다시 시도
+        await this.retryFailed()
+        this.trigger('changed')
+    }
+
+    async handleFileRename(file: TAbstractFile, oldPath: string): Promise<void> {
+        if (this.loadedKey === null || !this.settings.enabled) return
+
+        if (file instanceof TFolder) {
+            await this.load()
+            return
+        }
+
+        const entry = this.entries.get(oldPath)
+        if (entry) {
+            this.entries.delete(oldPath)
+            if (this.isGateFile(file)) {
+                // 이름만 바뀐 경우 열린 게이트를 닫지 않고 경로만 옮김
+                if (entry.gate) {
+                    entry.gate = { ...entry.gate, sourcePath: file.path }
+                    this.host.setGate({ ...entry.gate })
+                }
+                this.entries.set(file.path, entry)
+            } else if (entry.gate) {
+                this.host.deleteGate(entry.gate.id)
+            }
+        }
+
+        if (this.isGateFile(file)) {
+            await this.loadFile(file)
+        }
+        this.trigger('changed')
+    }
+
+    on(name: 'changed', callback: () => void): EventRef {
+        return super.on(name, callback)
+    }
+
+    getDiagnostics(): GateFileDiagnostic[] {
+        return Array.from(this.entries.entries())
+            .filter(([, entry]) => entry.error)
+            .map(([path, entry]) => ({ path, message: entry.error!, loadedGateId: entry.gate?.id }))
+            .sort((a, b) => a.path.localeCompare(b.path))
+    }
+
+    getLoadedCount(): number {
+        return Array.from(this.entries.values()).filter((entry) => entry.gate).length
+    }
+
+    /**
+     * 설정 화면에서 고친 필드만 게이트 파일 frontmatter에 반영 (다른 키와 본문은 그대로 둠)
+     */
+    async writeGate(gate: GateFrameOption): Promise<void> {
+        const path = gate.sourcePath ?? ''
+        const file = this.vault.getAbstractFileByPath(path)
+        const previous = this.entries.get(path)?.gate
+        if (!(file instanceof TFile) || !previous) {
+            throw new Error(t('gateFiles.fileNotFound', { path }))
+        }
+
+        const fields = getChangedGateFields(previous, gate)
+        if (fields.length === 0) return
+
+        await this.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            for (const field of fields) {
+                const value = gate[field]
+                if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+                    delete frontmatter[field]
+                } else {
+                    frontmatter[field] = value
+                }
+            }
+            // id를 적지 않은 파일은 주소나 프로필이 바뀌면 id도 바뀌므로, 열린 게이트가 닫히지 않게 고정
+            if (frontmatter.id === undefined) {
+                frontmatter.id = gate.id
+            }
+        })
+    }
+
+    /**
+     * 게이트 파일을 휴지통으로 옮김 (삭제 이벤트로 게이트도 해제됨)
+     */
+    async trashGate(gate: GateFrameOption): Promise<void> {
+        const file = this.vault.getAbstractFileByPath(gate.sourcePath ?? '')
+        if (!file) {
+            throw new Error(t('gateFiles.fileNotFound', { path: gate.sourcePath ?? '' }))
+        }
+        await this.fileManager.trashFile(file)
+    }
+
+    private async loadFile(file: TFile): Promise<void> {
+        const previous = this.entries.get(file.path)
+        let gate: GateFrameOption
+        try {
+            gate = { ...parseGateFile(await this.vault.cachedRead(file), file.basename), sourcePath: file.path }
+            const existing = this.host.getGate(gate.id)
+            if (existing && existing.sourcePath !== file.path) {
+                throw new Error(
+                    existing.sourcePath
+                        ? t('gateFiles.duplicateIdFile', { id: gate.id, path: existing.sourcePath })
+                        : t('gateFiles.duplicateIdSettings', { id: gate.id, title: existing.title })
+                )
+            }
+        } catch (error) {
+            // 고치는 중에 잘못된 내용이 저장돼도 열린 게이트는 닫지 않고 마지막 내용을 유지
+            this.entries.set(file.path, { gate: previous?.gate, error: error instanceof Error ? error.message : String(error) })
+            return
+        }
+
+        if (previous?.gate && previous.gate.id !== gate.id) {
+            this.host.deleteGate(previous.gate.id)
+        }
+        this.entries.set(file.path, { gate })
+        // 편집 폼이 설정 객체를 직접 고치므로 복사본을 넘김
+        this.host.setGate({ ...gate })
+    }
+
+    private removeEntry(path: string): void {
+        const entry = this.entries.get(path)
+        this.entries.delete(path)
+        if (entry?.gate) {
+            this.host.deleteGate(entry.gate.id)
+        }
+    }
+
+    private async retryFailed(): Promise<void> {
+        for (const [path, entry] of Array.from(this.entries.entries())) {
+            const file = this.vault.getAbstractFileByPath(path)
+            if (entry.error && file instanceof TFile) {
+                await this.loadFile(file)
+            }
+        }
+    }
+
+    private isGateFile(file: TAbstractFile): file is TFile {
+        return file instanceof TFile && file.extension === 'md' && file.path.startsWith(`${this.folder}/`)
+    }
+
+    private getSettingsKey(): string {
+        return this.settings.enabled ? this.folder : ''
+    }
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let gateFileLoaderInstance: GateFileLoader | null = null
+
+export function initializeGateFileLoader(options: GateFileLoaderOptions): GateFileLoader {
+    gateFileLoaderInstance = new GateFileLoader(options)
+    return gateFileLoaderInstance
+}
+
+export function getGateFileLoader(): GateFileLoader | null {
+    return gateFileLoaderInstance
+}
+
+export function updateGateFileSettings(settings: GateFileSettings): void {
+    if (gateFileLoaderInstance) {
+        gateFileLoaderInstance.updateSettings(settings)
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * GateFileParser - 게이트 파일 파싱
+ *
+ * frontmatter의 키는 `gate` 코드 블록과 같고(url, title, icon, profileKey, position ...),
+ * 본문은 자유롭게 메모로 쓸 수 있습니다. title이 없으면 파일 이름을 제목으로 사용합니다.
+ *
+ * ---
+ * url: https://github.com/my-org
+ * profileKey: work
+ * hasRibbon: true
+ * ---
+ */
+
+import { parse } from 'yaml'
+import { GateFrameOption } from '../GateOptions'
+import { normalizeGateOption } from '../fns/normalizeGateOption'
+import { GATE_OPTION_FIELDS, GateOptionField, readGateOptions } from '../fns/readGateOptions'
+import { t } from '../i18n'
+
+/**
+ * 게이트 파일을 정규화된 GateFrameOption으로 변환
+ * frontmatter가 없거나 필드가 잘못된 경우 이유를 담은 Error를 던집니다.
+ */
+export function parseGateFile(markdown: string, fileBasename: string): GateFrameOption {
+    const normalized = markdown.replace(/\r\n/g, '\n')
+    // 닫는 ---는 한 줄 전체여야 함 (값 안의 ---에서 끊지 않도록)
+    const match = normalized.match(/^---\n(?:([\s\S]*?)\n)?---[ \t]*(?:\n|$)/)
+    if (!match) {
+        throw new Error(t('gateFiles.missingFrontmatter'))
+    }
+
+    let data: unknown
+    try {
+        data = parse(match[1] ?? '')
+    } catch (error) {
+        throw new Error(t('gateFiles.invalidYaml', { error: error instanceof Error ? error.message : String(error) }))
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error(t('gateFiles.missingFrontmatter'))
+    }
+
+    const { options, errors } = readGateOptions(data as Record<string, unknown>)
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n'))
+    }
+    if (!options.url) {
+        throw new Error(t('gateFiles.missingUrl'))
+    }
+
+    return normalizeGateOption({ title: fileBasename, ...options })
+}
+
+/**
+ * 두 게이트에서 값이 다른 필드 (설정 화면에서 고친 내용만 파일에 다시 쓰기 위해 사용)
+ */
+export function getChangedGateFields(previous: GateFrameOption, next: GateFrameOption): GateOptionField[] {
+    return (Object.keys(GATE_OPTION_FIELDS) as GateOptionField[]).filter((field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+}
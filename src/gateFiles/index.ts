@@ -0,0 +1,13 @@
+/**
+ * Gate Files Module Index
+ *
+ * 볼트 폴더의 Markdown 파일(YAML frontmatter)을 게이트로 불러오는 기능의 메인 진입점입니다.
+ */
+
+export { parseGateFile, getChangedGateFields } from './GateFileParser'
+
+export { GateFileLoader, initializeGateFileLoader, getGateFileLoader, updateGateFileSettings } from './GateFileLoader'
+export type { GateFileHost, GateFileLoaderOptions } from './GateFileLoader'
+
+export { DEFAULT_GATE_FILE_SETTINGS } from './types'
+export type { GateFileSettings, GateFileDiagnostic } from './types'
@@ -0,0 +1,22 @@
+/**
+ * Gate File Types - 볼트 Markdown 파일로 정의한 게이트 관련 타입
+ */
+
+export interface GateFileSettings {
+    enabled: boolean // 폴더의 Markdown 파일을 게이트로 불러오기
+    folder: string // 하위 폴더 포함
+}
+
+export const DEFAULT_GATE_FILE_SETTINGS: GateFileSettings = {
+    enabled: false,
+    folder: 'Easy Gate/Gates'
+}
+
+/**
+ * 게이트로 불러오지 못한 파일과 그 이유
+ */
+export interface GateFileDiagnostic {
+    path: string
+    message: string
+    loadedGateId?: string // 마지막으로 읽은 올바른 내용이 게이트로 남아 있는 경우
+}
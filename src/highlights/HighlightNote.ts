@@ -0,0 +1,59 @@
+/**
+ * HighlightNote - 하이라이트 노트 내용 생성
+ *
+ * 하이라이트 목록은 노트 안의 시작/끝 주석 사이에만 쓰므로
+ * 사용자가 그 밖에 적은 메모는 하이라이트가 바뀌어도 유지됩니다.
+ */
+
+import { moment } from 'obsidian'
+import { serializeFrontmatter } from '../clipping/Frontmatter'
+import { HIGHLIGHT_COLORS, HighlightPage } from './types'
+
+const BLOCK_START = '<!-- easy-gate-highlights:start -->'
+const BLOCK_END = '<!-- easy-gate-highlights:end -->'
+
+/**
+ * 하이라이트 목록 블록 (시작/끝 주석 포함)
+ */
+export function renderHighlightsBlock(page: HighlightPage): string {
+    const items = page.highlights.map((highlight) => {
+        const quote = highlight.selector.exact
+            .split(/\r?\n/)
+            .map((line) => `> ${line}`)
+            .join('\n')
+        const header = `> [!quote] ${HIGHLIGHT_COLORS[highlight.color]?.emoji ?? ''} ${moment(highlight.createdAt).format('YYYY-MM-DD HH:mm')}`.replace(/\s+$/, '')
+        const comment = highlight.comment ? `\n\n${highlight.comment}` : ''
+        return `${header}\n${quote}${comment}`
+    })
+
+    return [BLOCK_START, ...items, BLOCK_END].join('\n\n')
+}
+
+/**
+ * 새 하이라이트 노트 전체 내용
+ */
+export function createHighlightsNote(page: HighlightPage): string {
+    const frontmatter = serializeFrontmatter({
+        title: page.title,
+        source: page.url,
+        type: 'highlights',
+        created: moment().format('YYYY-MM-DD'),
+        tags: ['highlights']
+    })
+
+    return `${frontmatter}\n# ${page.title}\n\n${page.url}\n\n${renderHighlightsBlock(page)}\n`
+}
+
+/**
+ * 기존 노트의 하이라이트 블록 교체 (블록이 없으면 노트 끝에 추가)
+ */
+export function replaceHighlightsBlock(note: string, page: HighlightPage): string {
+    const start = note.indexOf(BLOCK_START)
+    const end = note.indexOf(BLOCK_END, start)
+    const block = renderHighlightsBlock(page)
+
+    if (start < 0 || end < 0) {
+        return `${note.trimEnd()}\n\n${block}\n`
+    }
+    return note.substring(0, start) + block + note.substring(end + BLOCK_END.length)
+}
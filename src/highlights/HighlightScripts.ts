@@ -0,0 +1,201 @@
+/**
+ * HighlightScripts - 페이지에서 실행되는 하이라이트 스크립트
+ * 이 스크립트들은 webview.executeJavaScript()로 실행됩니다.
+ *
+ * 위치는 script/style 등을 제외한 본문 텍스트 노드를 이어 붙인 문자열 기준입니다.
+ * 저장된 위치의 텍스트가 인용문과 다르면 인용문이 나오는 곳 중 앞뒤 문맥이 가장 잘 맞는 곳을 고릅니다.
+ */
+
+import { Highlight, HIGHLIGHT_COLORS } from './types'
+
+// 하이라이트를 눌렀을 때 console 메시지로 id를 알려줌 (GateTab의 스크롤 추적과 같은 방식)
+export const HIGHLIGHT_CLICK_PREFIX = '__easy_gate_highlight__:'
+
+// 인용문 앞뒤로 저장할 문맥 길이
+const CONTEXT_LENGTH = 32
+
+const HIGHLIGHT_HELPERS = `
+    const SKIP_TAGS = { SCRIPT: 1, STYLE: 1, NOSCRIPT: 1, TEXTAREA: 1, TEMPLATE: 1 };
+
+    // 본문 텍스트 노드와 각 노드의 시작 위치
+    function indexText() {
+        const nodes = [];
+        const starts = [];
+        let text = '';
+        const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+            acceptNode(node) {
+                return node.parentElement && SKIP_TAGS[node.parentElement.tagName] ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT;
+            }
+        });
+        while (walker.nextNode()) {
+            nodes.push(walker.currentNode);
+            starts.push(text.length);
+            text += walker.currentNode.data;
+        }
+        return { nodes, starts, text };
+    }
+
+    // DOM 위치(노드, 오프셋)를 텍스트 위치로 변환
+    function toTextOffset(index, container, offset) {
+        if (container.nodeType === Node.TEXT_NODE) {
+            const i = index.nodes.indexOf(container);
+            if (i >= 0) return index.starts[i] + offset;
+        }
+        const point = document.createRange();
+        point.setStart(container, offset);
+        point.collapse(true);
+        for (let i = 0; i < index.nodes.length; i++) {
+            if (point.comparePoint(index.nodes[i], 0) >= 0) return index.starts[i];
+        }
+        return index.text.length;
+    }
+
+    function commonSuffix(a, b) {
+        let n = 0;
+        while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+        return n;
+    }
+
+    function commonPrefix(a, b) {
+        let n = 0;
+        while (n < a.length && n < b.length && a[n] === b[n]) n++;
+        return n;
+    }
+
+    // 저장된 선택자로 현재 페이지에서의 위치 찾기
+    function locate(text, selector) {
+        const exact = selector.exact;
+        if (!exact) return null;
+        if (text.substring(selector.start, selector.end) === exact) {
+            return { start: selector.start, end: selector.end };
+        }
+
+        let best = null;
+        let bestScore = -Infinity;
+        for (let i = text.indexOf(exact); i !== -1; i = text.indexOf(exact, i + 1)) {
+            const before = text.substring(Math.max(0, i - selector.prefix.length), i);
+            const after = text.substring(i + exact.length, i + exact.length + selector.suffix.length);
+            const score = commonSuffix(before, selector.prefix) + commonPrefix(after, selector.suffix) - Math.abs(i - selector.start) / 10000;
+            if (score > bestScore) {
+                bestScore = score;
+                best = { start: i, end: i + exact.length };
+            }
+        }
+        return best;
+    }
+
+    function unwrap(id) {
+        document.querySelectorAll('mark[data-easy-gate-highlight="' + id + '"]').forEach((mark) => {
+            const parent = mark.parentNode;
+            while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+            parent.removeChild(mark);
+            parent.normalize();
+        });
+    }
+
+    // 텍스트 범위를 노드별로 나눠 <mark>로 감쌈
+    function wrap(range, highlight) {
+        const index = indexText();
+        const segments = [];
+        for (let i = 0; i < index.nodes.length; i++) {
+            const nodeStart = index.starts[i];
+            const nodeEnd = nodeStart + index.nodes[i].data.length;
+            if (nodeEnd <= range.start || nodeStart >= range.end) continue;
+            segments.push({ node: index.nodes[i], start: Math.max(range.start, nodeStart) - nodeStart, end: Math.min(range.end, nodeEnd) - nodeStart });
+        }
+        segments.forEach((segment) => {
+            let node = segment.node;
+            if (!node.data.substring(segment.start, segment.end).trim()) return;
+            if (segment.start > 0) node = node.splitText(segment.start);
+            if (segment.end - segment.start < node.data.length) node.splitText(segment.end - segment.start);
+            const mark = document.createElement('mark');
+            mark.className = 'easy-gate-highlight';
+            mark.dataset.easyGateHighlight = highlight.id;
+            mark.dataset.color = highlight.color;
+            if (highlight.comment) mark.title = highlight.comment;
+            node.parentNode.insertBefore(mark, node);
+            mark.appendChild(node);
+        });
+        return segments.length > 0;
+    }
+`
+
+/**
+ * 현재 선택 영역의 선택자 생성 (선택이 없으면 null)
+ */
+export const CAPTURE_SELECTION_SCRIPT = `
+(function() {
+    ${HIGHLIGHT_HELPERS}
+    const selection = window.getSelection();
+    if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+    const range = selection.getRangeAt(0);
+    const index = indexText();
+    let start = toTextOffset(index, range.startContainer, range.startOffset);
+    let end = toTextOffset(index, range.endContainer, range.endOffset);
+
+    // 앞뒤 공백은 하이라이트에서 제외
+    while (start < end && /\\s/.test(index.text[start])) start++;
+    while (end > start && /\\s/.test(index.text[end - 1])) end--;
+    if (start >= end) return null;
+
+    return {
+        exact: index.text.substring(start, end),
+        prefix: index.text.substring(Math.max(0, start - ${CONTEXT_LENGTH}), start),
+        suffix: index.text.substring(end, end + ${CONTEXT_LENGTH}),
+        start: start,
+        end: end
+    };
+})();
+`
+
+/**
+ * 하이라이트 표시 스크립트 생성 (이미 표시된 하이라이트는 다시 그림)
+ * 페이지에서 찾은 하이라이트의 id 배열을 반환합니다.
+ */
+export function createApplyHighlightsScript(highlights: Highlight[]): string {
+    const styles = Object.entries(HIGHLIGHT_COLORS)
+        .map(([color, { background }]) => `mark.easy-gate-highlight[data-color="${color}"] { background: ${background}; color: inherit; cursor: pointer; }`)
+        .join('\n')
+
+    return `
+(function(highlights) {
+    ${HIGHLIGHT_HELPERS}
+    if (!document.getElementById('easy-gate-highlight-style')) {
+        const style = document.createElement('style');
+        style.id = 'easy-gate-highlight-style';
+        style.textContent = ${JSON.stringify(styles)};
+        document.head.appendChild(style);
+    }
+    if (!window.__easyGateHighlightClick) {
+        window.__easyGateHighlightClick = true;
+        document.addEventListener('click', (e) => {
+            const mark = e.target instanceof Element ? e.target.closest('mark[data-easy-gate-highlight]') : null;
+            if (mark && !String(window.getSelection())) {
+                console.debug(${JSON.stringify(HIGHLIGHT_CLICK_PREFIX)} + mark.dataset.easyGateHighlight);
+            }
+        });
+    }
+
+    const applied = [];
+    highlights.forEach((highlight) => {
+        unwrap(highlight.id);
+        const range = locate(indexText().text, highlight.selector);
+        if (range && wrap(range, highlight)) applied.push(highlight.id);
+    });
+    return applied;
+})(${JSON.stringify(highlights.map(({ id, color, comment, selector }) => ({ id, color, comment, selector })))});
+`
+}
+
+/**
+ * 하이라이트 제거 스크립트 생성
+ */
+export function createRemoveHighlightScript(id: string): string {
+    return `
+(function(id) {
+    ${HIGHLIGHT_HELPERS}
+    unwrap(id);
+})(${JSON.stringify(id)});
+`
+}
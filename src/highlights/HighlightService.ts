@@ -0,0 +1,155 @@
+/**
+ * HighlightService - 페이지 하이라이트 서비스
+ *
+ * 선택 영역을 하이라이트로 저장하고, 페이지를 다시 열면 하이라이트를 다시 표시하며,
+ * URL마다 하나의 하이라이트 노트를 NoteGenerator로 만들고 갱신합니다.
+ */
+
+import { TFile, Vault } from 'obsidian'
+import { DEFAULT_CLIPPING_SETTINGS } from '../ai/types'
+import { NoteGenerator } from '../clipping/NoteGenerator'
+import { CAPTURE_SELECTION_SCRIPT, createApplyHighlightsScript, createRemoveHighlightScript } from './HighlightScripts'
+import { HighlightStore } from './HighlightStore'
+import { Highlight, HighlightColor, HighlightPage, HighlightSelector, HighlightSettings } from './types'
+import WebviewTag = Electron.WebviewTag
+
+export interface HighlightServiceOptions {
+    vault: Vault
+    store: HighlightStore
+    settings: HighlightSettings
+}
+
+/**
+ * HighlightService 클래스
+ */
+export class HighlightService {
+    private vault: Vault
+    private store: HighlightStore
+    private settings: HighlightSettings
+    private noteGenerator: NoteGenerator
+
+    constructor(options: HighlightServiceOptions) {
+        this.vault = options.vault
+        this.store = options.store
+        this.settings = options.settings
+        // 하이라이트 노트는 클리핑 설정(폴더, 템플릿)을 쓰지 않음
+        this.noteGenerator = new NoteGenerator({ vault: this.vault, settings: DEFAULT_CLIPPING_SETTINGS })
+    }
+
+    updateSettings(settings: HighlightSettings): void {
+        this.settings = settings
+    }
+
+    get enabled(): boolean {
+        return this.settings.enabled
+    }
+
+    get defaultColor(): HighlightColor {
+        return this.settings.defaultColor
+    }
+
+    /**
+     * 현재 선택 영역의 위치 정보 (선택이 없으면 null)
+     */
+    async captureSelection(webview: WebviewTag): Promise<HighlightSelector | null> {
+        try {
+            return (await webview.executeJavaScript(CAPTURE_SELECTION_SCRIPT)) as HighlightSelector | null
+        } catch (error) {
+            console.error('[HighlightService] Failed to capture selection:', error)
+            return null
+        }
+    }
+
+    /**
+     * 하이라이트 추가 후 페이지에 표시하고 노트 갱신
+     */
+    async addHighlight(webview: WebviewTag, url: string, title: string, selector: HighlightSelector, color: HighlightColor, comment?: string): Promise<Highlight> {
+        const highlight: Highlight = {
+            id: Math.random().toString(36).substring(2, 10),
+            color,
+            comment: comment || undefined,
+            createdAt: Date.now(),
+            selector
+        }
+
+        const page = await this.store.addHighlight(url, title, highlight)
+        await this.run(webview, createApplyHighlightsScript([highlight]))
+        await this.syncNote(page)
+        return highlight
+    }
+
+    async updateHighlight(webview: WebviewTag, url: string, id: string, changes: Partial<Pick<Highlight, 'color' | 'comment'>>): Promise<void> {
+        const page = await this.store.updateHighlight(url, id, changes)
+        const highlight = page?.highlights.find((candidate) => candidate.id === id)
+        if (!page || !highlight) return
+
+        await this.run(webview, createApplyHighlightsScript([highlight]))
+        await this.syncNote(page)
+    }
+
+    async removeHighlight(webview: WebviewTag, url: string, id: string): Promise<void> {
+        const page = await this.store.removeHighlight(url, id)
+        if (!page) return
+
+        await this.run(webview, createRemoveHighlightScript(id))
+        await this.syncNote(page)
+    }
+
+    /**
+     * 저장된 하이라이트를 페이지에 다시 표시 (페이지 로드 시)
+     */
+    async applyPageHighlights(webview: WebviewTag, url: string): Promise<void> {
+        const page = this.store.getPage(url)
+        if (!this.settings.enabled || !page || page.highlights.length === 0) return
+
+        await this.run(webview, createApplyHighlightsScript(page.highlights))
+    }
+
+    getHighlight(url: string, id: string): Highlight | null {
+        return this.store.getHighlight(url, id)
+    }
+
+    /**
+     * 페이지에 연결된 하이라이트 노트 (없으면 null)
+     */
+    getNoteFile(url: string): TFile | null {
+        const notePath = this.store.getPage(url)?.notePath
+        const file = notePath ? this.vault.getAbstractFileByPath(notePath) : null
+        return file instanceof TFile ? file : null
+    }
+
+    private async syncNote(page: HighlightPage): Promise<void> {
+        const file = await this.noteGenerator.syncHighlightsNote(page, this.settings.folder)
+        if (file) {
+            await this.store.setNotePath(page.url, file.path)
+        }
+    }
+
+    private async run(webview: WebviewTag, script: string): Promise<void> {
+        try {
+            await webview.executeJavaScript(script)
+        } catch (error) {
+            console.error('[HighlightService] Failed to run highlight script:', error)
+        }
+    }
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let highlightServiceInstance: HighlightService | null = null
+
+export function initializeHighlightService(options: HighlightServiceOptions): HighlightService {
+    highlightServiceInstance = new HighlightService(options)
+    return highlightServiceInstance
+}
+
+export function getHighlightService(): HighlightService | null {
+    return highlightServiceInstance
+}
+
+export function updateHighlightSettings(settings: HighlightSettings): void {
+    if (highlightServiceInstance) {
+        highlightServiceInstance.updateSettings(settings)
+    }
+}
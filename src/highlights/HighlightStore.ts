@@ -0,0 +1,127 @@
+/**
+ * HighlightStore - 페이지 하이라이트 저장소
+ *
+ * URL별 하이라이트와 선택자를 플러그인 폴더의 highlights.json에 저장합니다.
+ * 노트에는 사람이 읽는 형태만 남기고, 페이지에 다시 표시할 때는 이 저장소를 사용합니다.
+ */
+
+import { DataAdapter } from 'obsidian'
+import { Highlight, HighlightPage } from './types'
+
+export interface HighlightStoreOptions {
+    adapter: DataAdapter
+    path: string
+}
+
+/**
+ * 같은 페이지로 취급하도록 URL의 #fragment 제거
+ */
+export function normalizeHighlightUrl(url: string): string {
+    const index = url.indexOf('#')
+    return index >= 0 ? url.substring(0, index) : url
+}
+
+/**
+ * HighlightStore 클래스
+ */
+export class HighlightStore {
+    private pages: Record<string, HighlightPage> = {}
+    private adapter: DataAdapter
+    private path: string
+
+    constructor(options: HighlightStoreOptions) {
+        this.adapter = options.adapter
+        this.path = options.path
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.adapter.read(this.path))
+                this.pages = data?.pages && typeof data.pages === 'object' ? data.pages : {}
+            }
+        } catch (error) {
+            console.error('[HighlightStore] Failed to load highlights:', error)
+            this.pages = {}
+        }
+    }
+
+    async save(): Promise<void> {
+        try {
+            await this.adapter.write(this.path, JSON.stringify({ version: 1, pages: this.pages }))
+        } catch (error) {
+            console.error('[HighlightStore] Failed to save highlights:', error)
+        }
+    }
+
+    getPage(url: string): HighlightPage | null {
+        return this.pages[normalizeHighlightUrl(url)] ?? null
+    }
+
+    getHighlight(url: string, id: string): Highlight | null {
+        return this.getPage(url)?.highlights.find((highlight) => highlight.id === id) ?? null
+    }
+
+    async addHighlight(url: string, title: string, highlight: Highlight): Promise<HighlightPage> {
+        const key = normalizeHighlightUrl(url)
+        const page = this.pages[key] ?? { url: key, title, highlights: [] }
+        page.title = title || page.title
+        page.highlights.push(highlight)
+        // 노트에 페이지 순서대로 나오도록 위치순 정렬
+        page.highlights.sort((a, b) => a.selector.start - b.selector.start)
+        this.pages[key] = page
+        await this.save()
+        return page
+    }
+
+    async updateHighlight(url: string, id: string, changes: Partial<Pick<Highlight, 'color' | 'comment'>>): Promise<HighlightPage | null> {
+        const highlight = this.getHighlight(url, id)
+        if (!highlight) return null
+
+        Object.assign(highlight, changes)
+        await this.save()
+        return this.getPage(url)
+    }
+
+    async removeHighlight(url: string, id: string): Promise<HighlightPage | null> {
+        const page = this.getPage(url)
+        if (!page) return null
+
+        page.highlights = page.highlights.filter((highlight) => highlight.id !== id)
+        await this.save()
+        return page
+    }
+
+    async setNotePath(url: string, notePath: string): Promise<void> {
+        const page = this.getPage(url)
+        if (page && page.notePath !== notePath) {
+            page.notePath = notePath
+            await this.save()
+        }
+    }
+
+    /**
+     * 노트 파일 이름이 바뀌면 연결 유지
+     */
+    async handleNoteRename(oldPath: string, newPath: string): Promise<void> {
+        const page = Object.values(this.pages).find((candidate) => candidate.notePath === oldPath)
+        if (page) {
+            page.notePath = newPath
+            await this.save()
+        }
+    }
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let highlightStoreInstance: HighlightStore | null = null
+
+export function initializeHighlightStore(options: HighlightStoreOptions): HighlightStore {
+    highlightStoreInstance = new HighlightStore(options)
+    return highlightStoreInstance
+}
+
+export function getHighlightStore(): HighlightStore | null {
+    return highlightStoreInstance
+}
@@ -0,0 +1,18 @@
+/**
+ * Highlights Module Index
+ *
+ * 페이지 하이라이트와 하이라이트 노트 기능의 메인 진입점입니다.
+ */
+
+export { HighlightService, initializeHighlightService, getHighlightService, updateHighlightSettings } from './HighlightService'
+export type { HighlightServiceOptions } from './HighlightService'
+
+export { HighlightStore, initializeHighlightStore, getHighlightStore, normalizeHighlightUrl } from './HighlightStore'
+export type { HighlightStoreOptions } from './HighlightStore'
+
+export { CAPTURE_SELECTION_SCRIPT, HIGHLIGHT_CLICK_PREFIX, createApplyHighlightsScript, createRemoveHighlightScript } from './HighlightScripts'
+
+export { renderHighlightsBlock, createHighlightsNote, replaceHighlightsBlock } from './HighlightNote'
+
+export { DEFAULT_HIGHLIGHT_SETTINGS, HIGHLIGHT_COLORS } from './types'
+export type { Highlight, HighlightColor, HighlightPage, HighlightSelector, HighlightSettings } from './types'
@@ -0,0 +1,55 @@
+/**
+ * Highlight Types - 페이지 하이라이트 관련 타입
+ */
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple'
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { background: string; emoji: string }> = {
+    yellow: { background: 'rgba(255, 226, 52, 0.45)', emoji: '🟡' },
+    green: { background: 'rgba(98, 204, 120, 0.4)', emoji: '🟢' },
+    blue: { background: 'rgba(84, 160, 255, 0.35)', emoji: '🔵' },
+    pink: { background: 'rgba(255, 105, 180, 0.35)', emoji: '🩷' },
+    purple: { background: 'rgba(166, 110, 255, 0.35)', emoji: '🟣' }
+}
+
+export interface HighlightSettings {
+    enabled: boolean
+    folder: string // 하이라이트 노트를 만들 폴더
+    defaultColor: HighlightColor
+}
+
+export const DEFAULT_HIGHLIGHT_SETTINGS: HighlightSettings = {
+    enabled: true,
+    folder: 'Highlights',
+    defaultColor: 'yellow'
+}
+
+/**
+ * 하이라이트 위치 (W3C Web Annotation의 TextQuote + TextPosition 선택자)
+ * 페이지가 바뀌어 위치가 어긋나면 인용문과 앞뒤 문맥으로 다시 찾습니다.
+ */
+export interface HighlightSelector {
+    exact: string
+    prefix: string
+    suffix: string
+    start: number // 페이지 본문 텍스트 기준 위치
+    end: number
+}
+
+export interface Highlight {
+    id: string
+    color: HighlightColor
+    comment?: string
+    createdAt: number // 생성 시각 (ms)
+    selector: HighlightSelector
+}
+
+/**
+ * URL 하나의 하이라이트와 연결된 노트
+ */
+export interface HighlightPage {
+    url: string
+    title: string
+    notePath?: string
+    highlights: Highlight[]
+}
@@ -0,0 +1,229 @@
+/**
+ * HistoryStore - 방문 기록 저장소
+ *
+ * 게이트에서 방문한 페이지를 플러그인 폴더의 history.json에 저장합니다.
+ * 설정(data.json)과 분리해 두어 기록이 많아져도 설정 저장이 느려지지 않습니다.
+ */
+
+import { DataAdapter, debounce, prepareFuzzySearch, prepareSimpleSearch, SearchResult } from 'obsidian'
+import { HistoryEntry, HistorySettings } from './types'
+
+export interface HistoryStoreOptions {
+    adapter: DataAdapter
+    path: string
+    settings: HistorySettings
+}
+
+export interface HistorySearchResult {
+    entry: HistoryEntry
+    titleMatch: SearchResult | null
+    urlMatch: SearchResult | null
+    textMatch: SearchResult | null
+}
+
+// 항목당 저장할 본문 최대 길이
+const MAX_TEXT_LENGTH = 5_000
+
+// 본문을 저장하는 최근 항목 수 (기록 파일은 저장할 때마다 통째로 다시 쓰므로 전체 크기를 제한)
+const MAX_TEXT_ENTRIES = 500
+
+// 기록하지 않는 주소
+const IGNORED_URL = /^(about:|data:|blob:|chrome-error:|devtools:)/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * HistoryStore 클래스
+ */
+export class HistoryStore {
+    private entries: HistoryEntry[] = []
+    private adapter: DataAdapter
+    private path: string
+    private settings: HistorySettings
+    private readonly requestSave = debounce(() => this.save(), 2000, true)
+
+    constructor(options: HistoryStoreOptions) {
+        this.adapter = options.adapter
+        this.path = options.path
+        this.settings = options.settings
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.adapter.read(this.path))
+                this.entries = Array.isArray(data?.entries) ? data.entries : []
+            }
+        } catch (error) {
+            console.error('[HistoryStore] Failed to load history:', error)
+            this.entries = []
+        }
+        this.prune()
+    }
+
+    async save(): Promise<void> {
+        try {
+            await this.adapter.write(this.path, JSON.stringify({ version: 1, entries: this.entries }))
+        } catch (error) {
+            console.error('[HistoryStore] Failed to save history:', error)
+        }
+    }
+
+    updateSettings(settings: HistorySettings): void {
+        this.settings = settings
+
+        const count = this.entries.length
+        let changed = false
+        if (!settings.indexPageText) {
+            for (const entry of this.entries.filter((candidate) => candidate.text !== undefined)) {
+                delete entry.text
+                changed = true
+            }
+        }
+        this.prune()
+
+        if (changed || this.entries.length !== count) {
+            this.requestSave()
+        }
+    }
+
+    get indexPageText(): boolean {
+        return this.settings.enabled && this.settings.indexPageText
+    }
+
+    /**
+     * 페이지 방문 기록
+     */
+    recordVisit(gateId: string, url: string, title?: string): void {
+        if (!this.settings.enabled || !url || IGNORED_URL.test(url)) return
+
+        const entry = this.find(gateId, url)
+        if (entry) {
+            entry.visitedAt = Date.now()
+            entry.visitCount++
+            if (title) entry.title = title
+            // 최근 방문 순서 유지
+            this.entries.splice(this.entries.indexOf(entry), 1)
+            this.entries.unshift(entry)
+        } else {
+            this.entries.unshift({ gateId, url, title: title || url, visitedAt: Date.now(), visitCount: 1 })
+            this.prune()
+        }
+        this.requestSave()
+    }
+
+    updateTitle(gateId: string, url: string, title: string): void {
+        const entry = this.find(gateId, url)
+        if (entry && title && entry.title !== title) {
+            entry.title = title
+            this.requestSave()
+        }
+    }
+
+    updateText(gateId: string, url: string, text: string): void {
+        if (!this.indexPageText) return
+
+        const entry = this.find(gateId, url)
+        if (entry) {
+            entry.text = text.replace(/\s+/g, ' ').trim().substring(0, MAX_TEXT_LENGTH)
+            this.requestSave()
+        }
+    }
+
+    /**
+     * 최근 방문 순 기록 (gateId를 주면 해당 게이트만)
+     */
+    getEntries(gateId?: string): HistoryEntry[] {
+        return gateId ? this.entries.filter((entry) => entry.gateId === gateId) : [...this.entries]
+    }
+
+    /**
+     * 제목과 URL은 퍼지 검색, 저장된 본문은 단어 검색
+     * 본문 일치는 제목/URL 일치보다 낮은 순위로 정렬됩니다.
+     */
+    search(query: string, gateId?: string): HistorySearchResult[] {
+        const entries = this.getEntries(gateId)
+        if (!query.trim()) {
+            return entries.map((entry) => ({ entry, titleMatch: null, urlMatch: null, textMatch: null }))
+        }
+
+        const fuzzy = prepareFuzzySearch(query)
+        const simple = this.indexPageText ? prepareSimpleSearch(query) : null
+        const results: (HistorySearchResult & { score: number })[] = []
+
+        for (const entry of entries) {
+            const titleMatch = fuzzy(entry.title)
+            const urlMatch = fuzzy(entry.url)
+            if (titleMatch || urlMatch) {
+                const score = Math.max(titleMatch?.score ?? -Infinity, urlMatch?.score ?? -Infinity)
+                results.push({ entry, titleMatch, urlMatch, textMatch: null, score })
+                continue
+            }
+
+            const textMatch = simple && entry.text ? simple(entry.text) : null
+            if (textMatch) {
+                results.push({ entry, titleMatch: null, urlMatch: null, textMatch, score: textMatch.score - 100 })
+            }
+        }
+
+        return results.sort((a, b) => b.score - a.score || b.entry.visitedAt - a.entry.visitedAt)
+    }
+
+    remove(entry: HistoryEntry): void {
+        this.entries = this.entries.filter((candidate) => candidate !== entry)
+        this.requestSave()
+    }
+
+    /**
+     * 기록 삭제 (gateId를 주면 해당 게이트만)
+     */
+    async clear(gateId?: string): Promise<void> {
+        this.entries = gateId ? this.entries.filter((entry) => entry.gateId !== gateId) : []
+        await this.save()
+    }
+
+    private find(gateId: string, url: string): HistoryEntry | undefined {
+        return this.entries.find((entry) => entry.gateId === gateId && entry.url === url)
+    }
+
+    /**
+     * 보관 기간과 최대 개수를 넘는 오래된 항목 정리 (본문은 최근 항목에만 남김)
+     */
+    private prune(): void {
+        if (this.settings.retentionDays > 0) {
+            const cutoff = Date.now() - this.settings.retentionDays * DAY_MS
+            this.entries = this.entries.filter((entry) => entry.visitedAt >= cutoff)
+        }
+        if (this.settings.maxEntries > 0 && this.entries.length > this.settings.maxEntries) {
+            this.entries = this.entries.slice(0, this.settings.maxEntries)
+        }
+        this.entries.forEach((entry, index) => {
+            if (entry.text === undefined) return
+            if (index >= MAX_TEXT_ENTRIES) {
+                delete entry.text
+            } else if (entry.text.length > MAX_TEXT_LENGTH) {
+                entry.text = entry.text.substring(0, MAX_TEXT_LENGTH)
+            }
+        })
+    }
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let historyStoreInstance: HistoryStore | null = null
+
+export function initializeHistoryStore(options: HistoryStoreOptions): HistoryStore {
+    historyStoreInstance = new HistoryStore(options)
+    return historyStoreInstance
+}
+
+export function getHistoryStore(): HistoryStore | null {
+    return historyStoreInstance
+}
+
+export function updateHistorySettings(settings: HistorySettings): void {
+    if (historyStoreInstance) {
+        historyStoreInstance.updateSettings(settings)
+    }
+}
@@ -0,0 +1,11 @@
+/**
+ * History Module Index
+ *
+ * 방문 기록 기능의 메인 진입점입니다.
+ */
+
+export { HistoryStore, initializeHistoryStore, getHistoryStore, updateHistorySettings } from './HistoryStore'
+export type { HistoryStoreOptions, HistorySearchResult } from './HistoryStore'
+
+export { DEFAULT_HISTORY_SETTINGS } from './types'
+export type { HistorySettings, HistoryEntry } from './types'
@@ -0,0 +1,29 @@
+/**
+ * History Types - 방문 기록 관련 타입
+ */
+
+export interface HistorySettings {
+    enabled: boolean
+    maxEntries: number // 보관할 최대 항목 수
+    retentionDays: number // 보관 기간 (0이면 기간 제한 없음)
+    indexPageText: boolean // 페이지 본문을 저장해 내용으로도 검색
+}
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+    enabled: true,
+    maxEntries: 5000,
+    retentionDays: 90,
+    indexPageText: false
+}
+
+/**
+ * 방문 기록 항목 (같은 게이트의 같은 URL은 하나의 항목으로 합쳐짐)
+ */
+export interface HistoryEntry {
+    gateId: string
+    url: string
+    title: string
+    visitedAt: number // 마지막 방문 시각 (ms)
+    visitCount: number
+    text?: string // indexPageText가 켜져 있을 때 저장한 본문 일부
+}
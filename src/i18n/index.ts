@@ -0,0 +1,118 @@
+/**
+ * i18n - UI 문자열 다국어 처리
+ *
+ * 키 기반으로 메시지를 조회하고 {name} 형태의 변수를 치환합니다.
+ * 언어 설정이 'auto'면 Obsidian 표시 언어를 따르며,
+ * 카탈로그에 없는 언어/키는 지역 코드 제거(pt-BR → pt) → 영어 순으로 대체합니다.
+ *
+ * AI 응답 언어(AISettings.defaultLanguage)와는 별개의 설정입니다.
+ */
+
+import * as obsidian from 'obsidian'
+import { en, MessageKey, Messages } from './locales/en'
+import { ko } from './locales/ko'
+
+export type { MessageKey, Messages }
+
+export type LocaleCode = 'en' | 'ko'
+
+export type UILanguageSetting = 'auto' | LocaleCode
+
+export type MessageVariables = Record<string, string | number>
+
+// 카탈로그 (en은 모든 키를 포함하는 기준 카탈로그)
+const CATALOGS: Record<LocaleCode, Partial<Messages>> = { en, ko }
+
+const FALLBACK_LOCALE: LocaleCode = 'en'
+
+/**
+ * 설정 화면에 표시할 언어 목록 (각 언어의 자체 표기)
+ */
+export const SUPPORTED_LOCALES: { code: LocaleCode; name: string }[] = [
+    { code: 'en', name: 'English' },
+    { code: 'ko', name: '한국어' }
+]
+
+// Obsidian 언어 코드 → AI 응답 언어 이름
+const AI_LANGUAGES: Record<string, string> = {
+    en: 'English',
+    ko: '한국어',
+    ja: '日本語',
+    zh: '中文',
+    de: 'Deutsch'
+}
+
+let localeChain: LocaleCode[] = [FALLBACK_LOCALE]
+
+/**
+ * Obsidian 표시 언어 코드 (예: 'en', 'ko', 'de', 'zh-TW')
+ */
+export function getObsidianLanguage(): string {
+    // getLanguage()는 Obsidian 1.8.7부터 제공되므로 이전 버전은 localStorage 값을 사용 (영어는 비어 있음)
+    const getLanguage = (obsidian as { getLanguage?: () => string }).getLanguage
+    if (typeof getLanguage === 'function') {
+        return getLanguage() || FALLBACK_LOCALE
+    }
+    if (typeof window !== 'undefined' && window.localStorage) {
+        return window.localStorage.getItem('language') || FALLBACK_LOCALE
+    }
+    return FALLBACK_LOCALE
+}
+
+/**
+ * 언어 코드에 대한 조회 순서 (예: 'ko-KR' → ['ko', 'en'], 'de' → ['en'])
+ */
+export function resolveLocaleChain(language: string): LocaleCode[] {
+    const normalized = language.trim().toLowerCase().replace('_', '-')
+    const candidates = [normalized, normalized.split('-')[0], FALLBACK_LOCALE]
+
+    const chain: LocaleCode[] = []
+    for (const candidate of candidates) {
+        if (candidate in CATALOGS && !chain.includes(candidate as LocaleCode)) {
+            chain.push(candidate as LocaleCode)
+        }
+    }
+    return chain
+}
+
+/**
+ * UI 언어 설정 적용 (main.ts loadSettings/saveSettings에서 호출)
+ */
+export function setLocale(setting: UILanguageSetting | string | undefined): void {
+    const language = !setting || setting === 'auto' ? getObsidianLanguage() : setting
+    localeChain = resolveLocaleChain(language)
+}
+
+/**
+ * Obsidian 표시 언어에 맞는 AI 응답 언어 (설정의 AI 응답 언어 드롭다운 값)
+ * UI 카탈로그가 없는 언어(독일어 등)도 AI 응답은 해당 언어로 받을 수 있습니다.
+ */
+export function getDefaultAILanguage(): string {
+    const language = getObsidianLanguage().toLowerCase().split(/[-_]/)[0]
+    return AI_LANGUAGES[language] ?? 'English'
+}
+
+/**
+ * 현재 UI 언어
+ */
+export function getLocale(): LocaleCode {
+    return localeChain[0]
+}
+
+/**
+ * 메시지 조회
+ * 변수가 없는 {name}은 그대로 남기므로 {{content}} 같은 템플릿 문법을 메시지에 그대로 쓸 수 있습니다.
+ */
+export function t(key: MessageKey, variables?: MessageVariables): string {
+    let message: string | undefined
+    for (const locale of localeChain) {
+        message = CATALOGS[locale][key]
+        if (message !== undefined) break
+    }
+    if (message === undefined) {
+        message = en[key] ?? key
+    }
+
+    if (!variables) return message
+    return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in variables ? String(variables[name]) : match))
+}
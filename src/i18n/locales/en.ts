@@ -0,0 +1,804 @@
+/**
+ * English messages (기준 카탈로그)
+ *
+ * 모든 메시지 키는 이 파일에 정의되며, 다른 언어에 없는 키는 영어로 표시됩니다.
+ */
+
+export const en = {
+    // Common
+    'common.cancel': 'Cancel',
+    'common.save': 'Save',
+    'common.add': 'Add',
+    'common.edit': 'Edit',
+    'common.delete': 'Delete',
+    'common.close': 'Close',
+    'common.untitled': 'Untitled',
+    'common.unknownError': 'Unknown error',
+
+    // AI dropdown
+    'aiDropdown.providerStatus': '🤖 {provider} {status}',
+    'aiDropdown.keyRequired': '⚠️ Key required',
+    'aiDropdown.analyzeSelection': '✂️ Analyze selection',
+    'aiDropdown.analyzeWithTemplate': '📋 Analyze with template',
+    'aiDropdown.savedPrompts': 'Saved prompts',
+    'aiDropdown.openAnalysisModal': '🔍 Open analysis',
+    'aiDropdown.multiSource': '📊 Multi-source analysis',
+    'aiDropdown.selectProvider': 'Select provider',
+    'aiDropdown.apiKeySettings': '⚙️ API key settings...',
+    'aiButton.openAnalysis': 'Open AI analysis (enter/edit text)',
+    'aiButton.apiKeyRequired': 'API key required',
+    'aiButton.moreOptions': 'More AI options',
+    'aiStatus.connected': '{provider} connected',
+    'aiStatus.apiKeyRequired': '{provider} API key required',
+
+    // Clip dropdown
+    'clipDropdown.header': '📥 Save web page',
+    'clipDropdown.savePage': '📄 Save full page',
+    'clipDropdown.saveSelection': '✂️ Save selection',
+    'clipDropdown.archivePage': '🗄️ Archive page offline',
+    'clipDropdown.appendToNote': '📎 Append to existing note...',
+    'clipDropdown.recentClips': 'Recent clips',
+    'clipDropdown.settings': '⚙️ Clipping settings',
+    'clipDropdown.moreFiles': '... {count} more',
+    'clipDropdown.noFolder': 'Clipping folder does not exist',
+    'clipButton.save': 'Save (click: save full page)',
+    'clipButton.moreOptions': 'More save options',
+
+    // Progress steps
+    'progress.extract': 'Extract content',
+    'progress.metadata': 'Parse metadata',
+    'progress.createNote': 'Create note',
+    'progress.prompt': 'Build prompt',
+    'progress.waitAI': 'Wait for AI response',
+
+    // Site rules
+    'siteRule.title': '🧩 Site extraction rule',
+    'siteRule.hostPattern': 'Host pattern',
+    'siteRule.hostPatternDesc': 'You can use * wildcards. (e.g. *.medium.com, news.ycombinator.com)',
+    'siteRule.contentSelectors': 'Content selectors',
+    'siteRule.contentSelectorsDesc': 'One per line. Tried from top to bottom.',
+    'siteRule.removeSelectors': 'Selectors to remove',
+    'siteRule.removeSelectorsDesc': 'Elements to remove from the content. One per line.',
+    'siteRule.titleSelector': 'Title selector',
+    'siteRule.authorSelector': 'Author selector',
+    'siteRule.dateSelector': 'Date selector',
+    'siteRule.preScript': 'Pre-extraction script',
+    'siteRule.preScriptDesc': 'JavaScript to run on the page before extraction (e.g. clicking a "Read more" button). You can use await.',
+    'siteRule.enabled': 'Enabled',
+    'siteRule.hostPatternRequired': 'Please enter a host pattern.',
+    'siteRulesImport.title': '📥 Import site rules',
+    'siteRulesImport.desc': 'Paste exported rule JSON. Rules with the same host pattern are overwritten.',
+    'siteRulesImport.import': 'Import',
+    'siteRulesImport.failed': 'Import failed: {error}',
+    'siteRules.invalidJson': 'Not valid JSON.',
+    'siteRules.missingRules': 'No rule list (rules) found.',
+    'siteRules.notObject': 'Rule #{index} is not an object.',
+    'siteRules.missingHostPattern': 'Rule #{index} has no hostPattern.',
+
+    // Template modal
+    'templateModal.title': '📋 Analysis template',
+    'templateModal.name': 'Name',
+    'templateModal.namePlaceholder': '📝 Meeting notes',
+    'templateModal.description': 'Description',
+    'templateModal.icon': 'Icon',
+    'templateModal.iconDesc': 'Lucide icon name. (e.g. file-text, book, lightbulb)',
+    'templateModal.systemPrompt': 'System prompt',
+    'templateModal.systemPromptDesc': "The AI's role and response rules. Leave empty to skip.",
+    'templateModal.userPrompt': 'User prompt',
+    'templateModal.userPromptDesc': 'You can use the {{content}}, {{title}}, {{url}} and {{language}} variables. {{content}} is appended if missing.',
+    'templateModal.outputFormat': 'Output format',
+    'templateModal.format.markdown': '📄 Markdown',
+    'templateModal.format.summary': '📋 Summary (short)',
+    'templateModal.format.bullets': '• Bullet points',
+    'templateModal.format.qa': '❓ Q&A',
+    'templateModal.provider': 'Default provider',
+    'templateModal.providerDesc': 'Provider to use when this template is selected. (Ignored if the provider is not configured)',
+    'templateModal.useSelectedProvider': 'Use selected provider',
+    'templateModal.model': 'Default model',
+    'templateModal.modelDesc': "Used with the default provider. Leave empty to use the provider's configured model.",
+    'templateModal.temperatureDesc': 'A value between 0 and 2. Leave empty to use the default (0.7).',
+    'templateModal.nameRequired': 'Please enter a template name.',
+
+    // Note templates
+    'note.source': 'Source',
+    'note.originalLink': 'Original link',
+    'note.clippedOn': 'Clipped',
+    'note.original': 'Original',
+    'note.analyzedBy': 'Analyzed by',
+    'note.created': 'Created',
+    'note.sourceInfo': 'Source info',
+    'note.title': 'Title',
+    'note.author': 'Author',
+    'note.published': 'Published',
+    'note.site': 'Site',
+    'note.collectedClips': 'Collected clips',
+    'note.analysisResult': 'Analysis result',
+    'note.analysisPlaceholder': 'AI analysis results will be generated here',
+    'note.createdOn': 'Created: {date}',
+
+    // Map-reduce progress
+    'mapReduce.generate': 'Generate result',
+    'mapReduce.split': 'Split content',
+    'mapReduce.splitCount': 'Split content ({count})',
+    'mapReduce.combine': 'Combine partial summaries',
+    'mapReduce.partial': 'Partial summary',
+    'mapReduce.round': 'Round {round} summary',
+    'mapReduce.chunkedNotice': 'The content below summarizes a long original in {count} parts. Write your answer as if you were analyzing the entire original.',
+    'mapReduce.partHeading': 'Part {index}/{total}',
+
+    // Built-in templates
+    'builtInTemplate.basic-summary.name': '📋 Basic summary',
+    'builtInTemplate.basic-summary.description': 'Summarizes the page concisely.',
+    'builtInTemplate.study-note.name': '📚 Study note',
+    'builtInTemplate.study-note.description': 'Organizes the content for studying.',
+    'builtInTemplate.analysis-report.name': '📊 Analysis report',
+    'builtInTemplate.analysis-report.description': 'Creates an in-depth analysis report.',
+    'builtInTemplate.idea-note.name': '💡 Idea note',
+    'builtInTemplate.idea-note.description': 'Focuses on finding and expanding ideas.',
+    'builtInTemplate.action-items.name': '✅ Action items',
+    'builtInTemplate.action-items.description': 'Extracts a list of actionable tasks.',
+    'builtInTemplate.qa-format.name': '❓ Q&A',
+    'builtInTemplate.qa-format.description': 'Restructures the content as questions and answers.',
+    'templateRegistry.invalidFrontmatter': '{file}: invalid frontmatter.',
+    'templateRegistry.emptyPrompt': '{file}: the prompt is empty.',
+
+    // Process modal
+    'processModal.title': '🤖 AI analysis in progress',
+    'processModal.customPrompt': 'Custom prompt',
+    'processModal.preparing': 'Preparing...',
+    'processModal.processing': 'AI is analyzing...',
+    'processModal.completed': 'Analysis complete!',
+    'processModal.cancelled': 'Cancelled',
+    'processModal.error': 'Error',
+    'processModal.duration': '⏱️ {seconds}s',
+    'processModal.waiting': 'Waiting for AI response...',
+    'processModal.copy': '📋 Copy',
+    'processModal.copied': 'Copied to clipboard.',
+    'processModal.saveAsNote': '💾 Save as new note',
+    'processModal.retry': '🔄 Retry',
+    'processModal.serviceNotInitialized': 'AI service is not initialized.',
+    'processModal.requestCancelled': 'The request was cancelled.',
+    'processModal.noResponse': 'No AI response was received.',
+    'processModal.nothingToSave': 'There is nothing to save.',
+    'processModal.noteTitle': '{title} - AI analysis',
+    'processModal.noteCreated': 'Created note "{name}".',
+    'processModal.saveFailed': 'Save failed',
+
+    // Analysis modal
+    'analysisModal.title': '🔍 Page analysis',
+    'analysisModal.textHeading': '✏️ Text to analyze',
+    'analysisModal.paste': '📋 Paste from clipboard',
+    'analysisModal.pasted': 'Pasted text from the clipboard.',
+    'analysisModal.pasteFailed': 'Could not read text from the clipboard.',
+    'analysisModal.guide': 'Enter the text to analyze, or edit the selected text.',
+    'analysisModal.placeholder':
+        'Type or paste the text to analyze here...\n\n💡 Tip: select text on the web page before opening this dialog and it will appear here automatically.',
+    'analysisModal.chars': '📊 {count} chars',
+    'analysisModal.words': '📝 {count} words',
+    'analysisModal.tokens': '🎫 ~{count} tokens',
+    'analysisModal.chunks': '✂️ Analyzed in {count} parts',
+    'analysisModal.emptyWarning': '⚠️ Enter text to analyze',
+    'analysisModal.templates': '📋 Analysis templates',
+    'analysisModal.savedPrompts': '💾 Saved prompts',
+    'analysisModal.customPrompt': '✏️ Custom prompt (optional)',
+    'analysisModal.customPromptDesc': 'Write your own prompt instead of a template, or add extra instructions.',
+    'analysisModal.customPromptPlaceholder': 'e.g. "Explain this so that a child can understand it..."',
+    'analysisModal.savePrompt': '💾 Save this prompt',
+    'analysisModal.options': '⚙️ Analysis options',
+    'analysisModal.providerDesc': 'The AI service to use for the analysis.',
+    'analysisModal.outputFormatDesc': 'The format of the analysis result.',
+    'analysisModal.includeMetadata': 'Include metadata',
+    'analysisModal.includeMetadataDesc': 'Include metadata such as URL, author and date in the note.',
+    'analysisModal.start': '🚀 Start analysis',
+    'analysisModal.textRequired': 'Please enter text to analyze.',
+    'analysisModal.templateRequired': 'Select a template or enter a custom prompt.',
+    'analysisModal.apiKeyMissing': '{provider} API key is not set.',
+    'analysisModal.promptRequired': 'Please enter a prompt to save.',
+    'analysisModal.promptNamePrompt': 'Enter a prompt name:',
+    'analysisModal.promptSaved': 'Saved prompt "{name}".',
+
+    // Multi-source analysis
+    'multiSource.type.webClip': 'Web clip',
+    'multiSource.type.note': 'Obsidian note',
+    'multiSource.type.selection': 'Selected text',
+    'multiSource.type.manual': 'Manual input',
+    'multiSource.type.other': 'Other',
+    'multiSource.searchNotes': 'Search note files...',
+    'multiSource.textInputTitle': '✏️ Enter text',
+    'multiSource.textTitle': 'Title',
+    'multiSource.textTitleDesc': 'Enter a title for this text',
+    'multiSource.textTitlePlaceholder': 'e.g. Meeting summary',
+    'multiSource.textContent': 'Content',
+    'multiSource.textContentPlaceholder': 'Type or paste the text to analyze here...',
+    'multiSource.addButton': '➕ Add',
+    'multiSource.titleRequired': 'Please enter a title.',
+    'multiSource.contentRequired': 'Please enter content.',
+    'multiSource.title': '📊 Multi-source analysis',
+    'multiSource.description': 'Combine several sources and analyze them together with AI. You can add web clips, Obsidian notes and your own text.',
+    'multiSource.sources': '📚 Sources',
+    'multiSource.addNote': '📄 Add note',
+    'multiSource.addText': '✏️ Enter text',
+    'multiSource.empty': '📭 No sources to analyze.',
+    'multiSource.emptyHint': 'Add Obsidian notes or text with the buttons above.',
+    'multiSource.chars': '{count} chars',
+    'multiSource.options': '⚙️ Analysis options',
+    'multiSource.analysisType': 'Analysis type',
+    'multiSource.analysisTypeDesc': 'How to analyze the sources',
+    'multiSource.option.synthesis': '🔄 Synthesis - combine and summarize all sources',
+    'multiSource.option.comparison': '⚖️ Comparison - differences and similarities between sources',
+    'multiSource.option.summary': '📝 Individual summaries - summarize each source, then combine',
+    'multiSource.option.custom': '✏️ Custom - prompt only',
+    'multiSource.provider': 'AI provider',
+    'multiSource.providerDesc': 'The AI to use for the analysis',
+    'multiSource.instructions': '💬 Instructions (optional)',
+    'multiSource.instructionsGuide': 'Describe any particular focus or request for the AI. Leave empty for the default analysis.',
+    'multiSource.instructionsPlaceholder':
+        'Examples:\n- Summarize the key trends across these materials\n- Compare the claims of each source and analyze what they share and where they differ\n- Extract insights I can apply in practice',
+    'multiSource.help': '💡 Combining several sources gives richer insights.',
+    'multiSource.start': '📊 Start analysis',
+    'multiSource.noteAdded': 'Note added: {name}',
+    'multiSource.noteReadFailed': 'Could not read note: {path}',
+    'multiSource.textAdded': 'Text added: {title}',
+    'multiSource.sourceRemoved': 'Source removed: {title}',
+    'multiSource.sourceCount': '📚 {count} sources',
+    'multiSource.addSourcesWarning': '⚠️ Add sources',
+    'multiSource.sourcesRequired': 'Add at least one source to analyze.',
+
+    // Gate view
+    'gate.reload': 'Reload',
+    'gate.home': 'Home page',
+    'gate.back': 'Back',
+    'gate.forward': 'Forward',
+    'gate.insertCursor': 'Insert to: Cursor',
+    'gate.insertBottom': 'Insert to: Bottom',
+    'gate.insertNewNote': 'Insert to: New Note',
+    'gate.applySelection': 'Apply Selection',
+    'gate.apply': 'Apply',
+    'gate.newTab': 'New tab',
+    'gate.pinTab': 'Pin tab',
+    'gate.unpinTab': 'Unpin tab',
+    'gate.duplicateTab': 'Duplicate tab',
+    'gate.closeTab': 'Close tab',
+    'gate.closeOtherTabs': 'Close other tabs',
+    'gate.zoomIn': 'Zoom in',
+    'gate.zoomOut': 'Zoom out',
+    'gate.zoomReset': 'Reset zoom',
+    'gate.switchedTo': 'Switched to {title}',
+    'gate.created': 'New gate created: {title}',
+    'gate.iframeNoText': 'Cannot extract text in iframe mode (mobile/restricted).',
+    'gate.noSelection': 'No text selected in the browser.',
+    'gate.noteCreated': 'Created new note: {name}',
+    'gate.noteCreatedPlain': 'Created new note with text.',
+    'gate.noActiveNote': 'No active Markdown note found to insert text.',
+    'gate.textApplied': 'Text applied!',
+    'gate.clippedAt': 'Clipped',
+    'clip.desktopOnly': 'Clipping is only available on desktop.',
+    'clip.clippingPage': 'Clipping page...',
+    'clip.clippingSelection': 'Clipping selection...',
+    'clip.done': 'Clipped: {path}',
+    'clip.failed': 'Clipping failed',
+    'clip.error': 'Clipping error: {error}',
+    'clip.noSelection': 'No text is selected.',
+    'clip.appending': 'Appending to {name}...',
+    'clip.appended': 'Clip added to {name}.',
+    'clip.appendFailed': 'Failed to add clip',
+    'ai.desktopOnly': 'AI features are only available on desktop.',
+    'ai.analysisDesktopOnly': 'Analysis is only available on desktop.',
+    'ai.serviceNotInitialized': 'AI service is not initialized.',
+    'ai.apiKeyMissingHint': 'API key is not set. Enter an API key in the settings.',
+    'ai.apiKeyMissing': 'API key is not set.',
+    'ai.providerKeyMissing': '{provider} API key is not set.',
+    'ai.summarizing': 'Generating AI summary...',
+    'ai.summarizingProgress': 'Generating AI summary... {step} ({progress}%)',
+    'ai.extractFailed': 'Could not extract page content.',
+    'ai.summaryFileName': 'AI summary - {title} - {date}.md',
+    'ai.summaryTitle': 'AI summary',
+    'ai.summaryCreated': 'AI summary created.',
+    'ai.summaryFailed': 'AI summary failed',
+    'ai.error': 'AI error: {error}',
+    'ai.extracting': 'Extracting content...',
+    'ai.templateError': 'Template error: {error}',
+    'ai.processing': 'Processing with AI...',
+    'ai.analysisFileName': 'AI analysis - {title} - {date}.md',
+    'ai.analysisTitle': 'AI analysis',
+    'ai.promptLabel': 'Prompt',
+    'ai.analysisDone': 'AI analysis complete.',
+    'ai.processingFailed': 'AI processing failed',
+    'ai.processingSelection': 'Processing selection with AI...',
+    'ai.selectionResult': 'AI analysis result:\n{result}...',
+    'ai.analysisModalError': 'Analysis error: {error}',
+    'ai.noteSaved': 'Note saved: {path}',
+    'ai.saveFailed': 'Save failed',
+    'ai.multiSourcePreparing': 'Preparing multi-source analysis...',
+    'ai.multiSourceRunning': 'Running multi-source analysis...',
+    'ai.multiSourceError': 'Multi-source analysis error: {error}',
+    'ai.analysisFailed': 'Analysis failed',
+    'ai.noResponse': 'No AI response was received.',
+    'ai.unsupportedProvider': 'Unsupported AI provider: {provider}',
+    'multiSourceNote.synthesis': 'Synthesis',
+    'multiSourceNote.comparison': 'Comparison',
+    'multiSourceNote.summary': 'Summary',
+    'multiSourceNote.custom': 'Custom analysis',
+    'multiSourceNote.overview': 'Overview',
+    'multiSourceNote.type': 'Analysis type',
+    'multiSourceNote.sourceCount': 'Sources',
+    'multiSourceNote.totalChars': 'Total characters',
+    'multiSourceNote.model': 'AI model',
+    'multiSourceNote.result': 'Result',
+    'multiSourceNote.sources': 'Sources used',
+    'multiSourceNote.title': 'Multi-source {type}',
+    'multiSourceNote.fileName': 'Multi-source_{type}_{date}',
+
+    // Settings
+    'settings.mobileWarning':
+        'On mobile, some websites may not work. It is a limitation of Obsidian Mobile. Please use Obsidian Desktop instead. Follow me on Twitter to get the latest updates: ',
+    'settings.general': '⚙️ General',
+    'settings.uiLanguage': 'Interface language',
+    'settings.uiLanguageDesc': 'Language for menus, settings and notifications. The AI response language is set separately below.',
+    'settings.uiLanguageAuto': 'Follow Obsidian',
+    'settings.gates': '🌐 Gates',
+    'settings.newGate': 'New gate',
+    'settings.help': '❓ Help',
+    'settings.followTwitter': 'Follow me on Twitter',
+    'settings.aiSettings': '🤖 AI Settings',
+    'settings.apiKeys': '🔑 AI API keys',
+    'settings.howTo': '📌 How to use:',
+    'settings.howTo1': 'Enter the API key of the AI provider you want to use',
+    'settings.howTo2': 'Press Save to store the API key',
+    'settings.howTo3': 'Press Test to check the connection',
+    'settings.howTo4': 'Choose the provider to use under "Default AI provider" below',
+    'settings.connected': 'Connected',
+    'settings.notConfigured': 'Not configured',
+    'settings.providerStatus': 'Status: {status} | Model: {model}',
+    'settings.apiKeyPlaceholder': 'Enter API key...',
+    'settings.apiKeySaved': '✅ {provider} API key saved.',
+    'settings.apiKeyRequired': '⚠️ Enter an API key.',
+    'settings.test': 'Test',
+    'settings.testing': 'Testing...',
+    'settings.testSuccess': '✅ {provider} connected!',
+    'settings.testFailed': '❌ {provider} connection failed: {error}',
+    'settings.changeModel': 'Change model',
+    'settings.modelPrompt': 'Enter the {provider} model name:',
+    'settings.deleteApiKey': 'Delete API key',
+    'settings.deleteApiKeyConfirm': 'Delete the {provider} API key?',
+    'settings.localApiKeyPlaceholder': 'API key (optional)',
+    'settings.endpointRequired': '⚠️ Enter a server address.',
+    'settings.endpointSaved': '✅ {provider} server address saved.',
+    'settings.localCheckServer': 'check the server address and that the server is running.',
+    'settings.deleteLocal': 'Delete local server settings',
+    'settings.deleteLocalConfirm': 'Delete the {provider} server settings?',
+    'settings.localModel': 'Local model',
+    'settings.localModelDesc': 'Load the model list from the server and choose one.',
+    'settings.loadModels': 'Load models',
+    'settings.noModels': '⚠️ No models are installed on the server.',
+    'settings.modelMissing': '{model} (not on server)',
+    'settings.modelsLoaded': '✅ Loaded {count} models.',
+    'settings.modelsFailed': '❌ Could not load models: {error}',
+    'settings.defaultProvider': '🎯 Default AI provider',
+    'settings.providersConfigured': '✅ {count} providers configured: {providers}',
+    'settings.noProviders': '⚠️ Set an API key above and press Save.',
+    'settings.provider': 'AI provider',
+    'settings.providerDesc': 'Choose the provider to use by default.',
+    'settings.providerDescEmpty': 'Only providers with an API key can be selected.',
+    'settings.providerNone': 'Set an API key first',
+    'settings.providerSet': '✅ {provider} is now the default provider.',
+    'settings.customModelSection': '⚙️ Custom model (optional)',
+    'settings.useCustomModel': 'Use a custom model name',
+    'settings.useCustomModelDesc': 'Set the model name of the default provider yourself.',
+    'settings.customModel': 'Custom model name',
+    'settings.customModelDesc': 'Current provider: {provider}',
+    'settings.customModelPlaceholder': 'Enter model name...',
+    'settings.clipping': '📋 Clipping',
+    'settings.defaultFolder': 'Default folder',
+    'settings.defaultFolderDesc': 'Folder where clipped notes are saved.',
+    'settings.filenameFormat': 'File name format',
+    'settings.filenameFormatDesc': 'You can use the {title}, {date} and {time} variables.',
+    'settings.includeMetadata': 'Include metadata',
+    'settings.includeMetadataDesc': 'Choose the metadata to include in clipped notes.',
+    'settings.includeUrl': 'Include URL',
+    'settings.includeDate': 'Include date',
+    'settings.includeAuthor': 'Include author',
+    'settings.convertMarkdown': 'Convert to Markdown',
+    'settings.convertMarkdownDesc': 'Save Markdown that keeps headings, lists, code blocks, tables, links and images. Turn off to save plain text.',
+    'settings.clipTemplate': 'Clip note template',
+    'settings.clipTemplateDesc': 'Vault path of the file that defines the clip note format.',
+    'settings.templateFallback': 'Leave empty, or point to a missing file, to use the default format.',
+    'settings.templateVariables': 'Variables: {variables}',
+    'settings.templateFilters': 'Filters: {filters} / Conditions: {conditions}',
+    'settings.siteRules': '🧩 Site extraction rules',
+    'settings.siteRulesDesc': "On sites matching a host pattern, the rule's selectors are tried first, then automatic extraction. Rules higher in the list win.",
+    'settings.metadataSelectorsOnly': 'Metadata selectors only',
+    'settings.enabled': 'Enabled',
+    'settings.deleteRuleConfirm': 'Delete the "{name}" rule?',
+    'settings.addRule': '+ Add rule',
+    'settings.importJson': 'Import JSON',
+    'settings.exportJson': 'Export JSON',
+    'settings.rulesImported': '✅ Imported {count} rules.',
+    'settings.rulesCopied': '✅ Copied {count} rules to the clipboard.',
+    'settings.aiGeneration': '✨ AI generation',
+    'settings.aiLanguage': 'AI response language',
+    'settings.aiLanguageDesc': 'Language the AI answers in. Independent of the interface language.',
+    'settings.defaultTemplate': 'Default template',
+    'settings.defaultTemplateDesc': 'Template used by default for AI processing.',
+    'settings.autoTags': 'Auto tags',
+    'settings.autoTagsDesc': 'Let the AI analyze the content and generate tags.',
+    'settings.aiTemplate': 'AI note template',
+    'settings.aiTemplateDesc': 'Vault path of the file that defines the AI summary/analysis note format.',
+    'settings.templates': '📋 Analysis templates',
+    'settings.templatesDesc':
+        'Templates used by the analysis modal, the AI menu and the default template setting. Prompts can use the {{content}}, {{title}}, {{url}} and {{language}} variables.',
+    'settings.templateBuiltIn': 'Built-in',
+    'settings.templateModified': 'Built-in (modified)',
+    'settings.templateUser': 'User',
+    'settings.resetTemplate': 'Reset to default',
+    'settings.resetTemplateConfirm': 'Reset the "{name}" template to its default?',
+    'settings.deleteTemplateConfirm': 'Delete the "{name}" template?',
+    'settings.addTemplate': '+ Add template',
+    'settings.importTemplates': 'Import from vault',
+    'settings.importTemplatesDesc':
+        'Import Markdown files in a folder as templates. Uses frontmatter (name, description, icon, output, provider, model, temperature) and "## System" / "## User" headings.',
+    'settings.import': 'Import',
+    'settings.templateFolderRequired': '⚠️ Enter a template folder.',
+    'settings.templateImportErrors': '⚠️ Could not import {count} files:\n{errors}',
+    'settings.templatesImported': '✅ Imported {count} templates.',
+    'settings.noTemplatesFound': '⚠️ No templates found in "{folder}".',
+    'settings.savedPrompts': '💾 Saved prompts',
+    'settings.deletePromptConfirm': 'Delete the "{name}" prompt?',
+    'settings.addPrompt': '+ Add prompt',
+    'settings.promptName': 'Prompt name:',
+    'settings.promptText': 'Prompt text:',
+    'settings.newPromptName': 'New prompt name:',
+
+    // Gate forms and menus
+    'onboarding.title': 'Welcome to Easy Gate',
+    'onboarding.intro': 'Easy Gate is a plugin that allows you to embed any website in Obsidian. You will never have to leave Obsidian again!',
+    'onboarding.help': 'If you need help, please visit our YouTube channel for tutorials.',
+    'onboarding.createFirst': 'But now you have to create your first gate.',
+    'gateForm.name': 'Name',
+    'gateForm.pin': 'Pin to menu',
+    'gateForm.pinDesc': 'If enabled, the gate will be pinned to the left bar',
+    'gateForm.position': 'Position',
+    'gateForm.positionDesc': 'Where should the gate open?',
+    'gateForm.left': 'Left',
+    'gateForm.right': 'Right',
+    'gateForm.center': 'Center',
+    'gateForm.advanced': 'Advanced options',
+    'gateForm.icon': 'Icon',
+    'gateForm.iconDesc': 'Leave it blank to enable auto-detect',
+    'gateForm.userAgent': 'User agent',
+    'gateForm.blankIfUnsure': 'Leave it blank if you are not sure',
+    'gateForm.profileKey': 'Profile',
+    'gateForm.profileKeyDesc': 'Like profiles in Chrome: gates with the same profile share cookies and storage. Manage profiles in the plugin settings',
+    'gateForm.zoomFactor': 'Zoom factor',
+    'gateForm.snippets': 'Check out the snippet library here',
+    'gateForm.update': 'Update the gate',
+    'gateForm.create': 'Create new gate',
+    'insertLink.title': 'Insert link',
+    'insertLink.menu': 'Insert gate link',
+    'linkMenu.toNormal': 'Convert to normal link',
+    'linkMenu.toGate': 'Convert to gate link',
+    'linkMenu.preconfigured': 'Cannot convert the pre-configured gate link to a normal link.',
+    'popup.title': 'Quick view',
+    'codeBlock.syntaxUpdated': 'The syntax has been updated. Please use the YAML format.',
+    'codeBlock.errorDetails': 'Error details: {error}',
+    'codeBlock.readMore': 'Read more about YAML here.',
+    'codeBlock.yamlSyntax': 'YAML syntax',
+    'command.createGate': 'Create new',
+    'command.listGates': 'List all',
+    'command.missingUrl': 'Missing url parameter',
+    'command.gateNotFound': 'Gate not found',
+
+    // History
+    'history.search': 'Search history',
+    'history.placeholder': 'Search all history...',
+    'history.placeholderGate': 'Search this gate\'s history...',
+    'history.open': 'Open',
+    'history.openInNewTab': 'Open in new tab',
+    'history.toggleScope': 'This gate / all gates',
+    'history.removeEntry': 'Remove from history',
+    'history.visits': '{count} visits',
+    'history.noResults': 'No matching pages.',
+    'history.empty': 'No history yet.',
+    'history.clearConfirm': 'Delete all browsing history?',
+    'history.cleared': 'Browsing history cleared',
+    'command.searchHistory': 'Search history',
+    'command.clearHistory': 'Clear history',
+    'settings.history': '🕘 History',
+    'settings.historyEnabled': 'Record history',
+    'settings.historyEnabledDesc': 'Remember pages visited in gates',
+    'settings.historyRetention': 'Keep history for (days)',
+    'settings.historyRetentionDesc': 'Older entries are removed. 0 keeps them forever.',
+    'settings.historyMaxEntries': 'Maximum entries',
+    'settings.historyMaxEntriesDesc': 'The oldest entries are removed beyond this limit. 0 means no limit.',
+    'settings.historyIndexText': 'Index page text',
+    'settings.historyIndexTextDesc': 'Store the text of visited pages so history search also matches page content. Uses more disk space.',
+    'settings.historyClear': 'Clear history',
+    'settings.historyClearDesc': 'Delete all recorded pages',
+    'settings.historyClearButton': 'Clear',
+
+    // Bookmarks
+    'bookmark.viewTitle': 'Bookmarks',
+    'bookmark.addTitle': 'Add bookmark',
+    'bookmark.editTitle': 'Edit bookmark',
+    'bookmark.name': 'Title',
+    'bookmark.url': 'URL',
+    'bookmark.folder': 'Folder',
+    'bookmark.folderDesc': 'Leave it blank to keep the bookmark at the top level',
+    'bookmark.tags': 'Tags',
+    'bookmark.tagsDesc': 'Separate tags with commas or spaces',
+    'bookmark.read': 'Read',
+    'bookmark.urlRequired': 'URL is required',
+    'bookmark.added': 'Bookmark added',
+    'bookmark.searchPlaceholder': 'Search bookmarks...',
+    'bookmark.filterAll': 'All',
+    'bookmark.filterUnread': 'Unread',
+    'bookmark.filterRead': 'Read',
+    'bookmark.allTags': 'All tags',
+    'bookmark.empty': 'No bookmarks yet.',
+    'bookmark.open': 'Open',
+    'bookmark.markRead': 'Mark as read',
+    'bookmark.markUnread': 'Mark as unread',
+    'command.openBookmarks': 'Open bookmarks',
+    'command.bookmarkPage': 'Bookmark current page',
+    'settings.bookmarks': '⭐ Bookmarks',
+    'settings.bookmarksFile': 'Bookmarks file',
+    'settings.bookmarksFileDesc': 'Markdown note in your vault where bookmarks are stored as a checklist',
+
+    // Omnibox
+    'omnibox.searchWith': 'Search with {engine}',
+    'omnibox.goTo': 'Open address',
+    'gate.saveAsGate': 'Save page as gate',
+    'searchEngine.title': 'Search engine',
+    'searchEngine.name': 'Name',
+    'searchEngine.keyword': 'Keyword',
+    'searchEngine.keywordDesc': 'Type the keyword and a space before your query to use this engine, e.g. "g obsidian"',
+    'searchEngine.url': 'Search URL',
+    'searchEngine.urlDesc': '%s is replaced with the query',
+    'searchEngine.invalid': 'Enter a name and a search URL containing %s',
+    'settings.omnibox': '🔎 Address bar',
+    'settings.defaultSearchEngine': 'Default search engine',
+    'settings.defaultSearchEngineDesc': 'Used when the address bar input is not a URL',
+    'settings.omniboxSuggestions': 'Show suggestions',
+    'settings.omniboxSuggestionsDesc': 'Suggest matching gates, bookmarks and history while typing',
+    'settings.searchEngines': 'Search engines',
+    'settings.addSearchEngine': 'Add search engine',
+    'settings.resetSearchEngines': 'Restore defaults',
+
+    // Find in page
+    'find.title': 'Find in page',
+    'find.placeholder': 'Find in page',
+    'find.matchCase': 'Match case',
+    'find.previous': 'Previous match',
+    'find.next': 'Next match',
+    'find.count': '{current} of {total}',
+    'find.noMatches': 'No matches',
+    'find.unavailable': 'Find in page is not available in this gate (mobile pages are shown in an iframe).',
+    'command.findInPage': 'Find in page',
+
+    // Highlights
+    'highlight.button': 'Highlight',
+    'highlight.addTitle': 'Add highlight',
+    'highlight.editTitle': 'Edit highlight',
+    'highlight.color': 'Color',
+    'highlight.color.yellow': 'Yellow',
+    'highlight.color.green': 'Green',
+    'highlight.color.blue': 'Blue',
+    'highlight.color.pink': 'Pink',
+    'highlight.color.purple': 'Purple',
+    'highlight.comment': 'Comment',
+    'highlight.withComment': 'Highlight with comment...',
+    'highlight.openNote': 'Open highlights note',
+    'highlight.added': 'Highlight saved',
+    'highlight.noSelection': 'Select text on the page first',
+    'highlight.noNote': 'This page has no highlights yet',
+    'highlight.unavailable': 'Highlighting is not available in this gate',
+    'command.highlightSelection': 'Highlight selection',
+    'command.openHighlightsNote': 'Open highlights note for current page',
+    'settings.highlights': '🖍 Highlights',
+    'settings.highlightsEnabled': 'Enable highlights',
+    'settings.highlightsEnabledDesc': 'Highlight passages on gate pages and collect them into one note per page',
+    'settings.highlightsFolder': 'Highlights folder',
+    'settings.highlightsFolderDesc': 'Where new highlights notes are created',
+    'settings.highlightsDefaultColor': 'Default color',
+
+    // Screenshots
+    'screenshot.button': 'Screenshot',
+    'screenshot.viewport': 'Capture visible area',
+    'screenshot.region': 'Capture selected region',
+    'screenshot.full': 'Capture full page',
+    'screenshot.capturing': 'Capturing screenshot...',
+    'screenshot.saved': 'Screenshot saved: {path}',
+    'screenshot.failed': 'Could not capture the page',
+    'screenshot.error': 'Screenshot error: {error}',
+    'command.screenshotViewport': 'Screenshot visible area',
+    'command.screenshotRegion': 'Screenshot selected region',
+    'command.screenshotFullPage': 'Screenshot full page',
+    'settings.screenshotFormat': 'Screenshot format',
+    'settings.screenshotFormatDesc': 'Image format for screenshots saved to the vault. Files follow Obsidian\'s attachment folder setting',
+
+    // Offline archive
+    'archive.archiving': 'Archiving page...',
+    'archive.done': 'Archived: {path}',
+    'archive.failed': 'Archiving failed',
+    'archive.error': 'Archive error: {error}',
+    'archive.noFile': 'Specify an archive file on the first line of the block',
+    'archive.notFound': 'Archive not found: {path}',
+    'archive.mhtmlDesktopOnly': 'MHTML archives can only be viewed on desktop',
+    'command.archivePage': 'Archive current page offline',
+    'settings.archiveFolder': 'Archive folder',
+    'settings.archiveFolderDesc': 'Where offline page archives are saved. Clip notes link to them in the archive property',
+    'settings.archiveFormat': 'Archive format',
+    'settings.archiveFormatDesc': 'Single-file HTML works everywhere; MHTML is saved by Chromium and can only be viewed on desktop',
+    'settings.archiveFormatHtml': 'Single-file HTML',
+
+    // Content blocker
+    'blocker.blockedCount': 'Blocked on this page: {count}',
+    'blocker.filterCount': 'Active filter rules: {count}',
+    'blocker.inactive': 'Content blocking is off on this page',
+    'blocker.allowOnSite': 'Allow everything on {site} in this gate',
+    'blocker.blockOnSite': 'Block again on {site} in this gate',
+    'blocker.reloadLists': 'Reload filter lists',
+    'blocker.listsReloaded': 'Filter lists loaded ({count} rules)',
+    'settings.contentBlocker': 'Content blocker',
+    'settings.contentBlockerEnabled': 'Block ads and trackers',
+    'settings.contentBlockerEnabledDesc': 'Filter requests made by web pages in gates using the lists below',
+    'settings.contentBlockerCosmetic': 'Hide page elements',
+    'settings.contentBlockerCosmeticDesc': 'Apply element hiding rules (##) from the filter lists',
+    'settings.contentBlockerLists': 'Filter lists',
+    'settings.contentBlockerListsDesc': 'Vault paths of EasyList/uBlock Origin style lists, one per line. {count} rules are active',
+    'settings.contentBlockerDownload': 'Download {name}',
+    'settings.contentBlockerDownloading': 'Downloading {name}...',
+    'settings.contentBlockerDownloadFailed': 'Failed to download {name}: {error}',
+    'gateForm.blockerAllowlist': 'Content blocker allowlist',
+    'gateForm.blockerAllowlistDesc': 'Sites where nothing is blocked in this gate, one domain per line',
+
+    // Profiles
+    'profile.title': 'Profile',
+    'profile.name': 'Name',
+    'profile.namePlaceholder': 'Work',
+    'profile.color': 'Badge color',
+    'profile.color.gray': 'Gray',
+    'profile.color.red': 'Red',
+    'profile.color.orange': 'Orange',
+    'profile.color.yellow': 'Yellow',
+    'profile.color.green': 'Green',
+    'profile.color.cyan': 'Cyan',
+    'profile.color.blue': 'Blue',
+    'profile.color.purple': 'Purple',
+    'profile.color.pink': 'Pink',
+    'profile.invalid': 'Enter a profile name',
+    'settings.profiles': 'Profiles',
+    'settings.profilesDesc': 'Each profile keeps its own cookies, storage and cache. Pick a profile for a gate in its advanced options.',
+    'settings.profileGates': 'Used by {count} gate(s)',
+    'settings.profileUsage': 'Show usage',
+    'settings.profileUsageDesc': 'Used by {gates} gate(s) · {cookies} cookies from {sites} sites · {cache} cache',
+    'settings.profileClear': 'Clear data',
+    'settings.profileClearCookies': 'Cookies',
+    'settings.profileClearStorage': 'Site storage',
+    'settings.profileClearCache': 'Cache',
+    'settings.profileClearAll': 'Everything',
+    'settings.profileClearConfirm': 'Clear "{item}" for the profile "{name}"? Sites may sign you out.',
+    'settings.profileCleared': 'Cleared data of "{name}"',
+    'settings.profileDataFailed': 'Could not update profile data: {error}',
+    'settings.profileDuplicate': 'Duplicate',
+    'settings.profileCopyName': '{name} copy',
+    'settings.profileDuplicated': 'Created "{name}" with the same cookies',
+    'settings.profileDeleteConfirm': 'Delete the profile "{name}" and its data? {count} gate(s) using it will switch to the default profile.',
+    'settings.addProfile': 'Add profile',
+
+    // Link routing
+    'routingRule.title': 'Routing rule',
+    'routingRule.pattern': 'URL pattern',
+    'routingRule.patternDesc': 'Glob on host and path: * matches within a path segment, ** across segments, and *.example.com includes example.com. Regular expressions are matched against the full URL.',
+    'routingRule.glob': 'Glob',
+    'routingRule.regex': 'Regular expression',
+    'routingRule.gate': 'Open in gate',
+    'routingRule.selectGate': 'Select a gate',
+    'routingRule.position': 'Position',
+    'routingRule.positionDesc': 'Where the gate opens if it is not open yet',
+    'routingRule.gatePosition': 'Gate\'s position',
+    'routingRule.test': 'Test a URL',
+    'routingRule.testMatch': '✓ This URL opens in the gate',
+    'routingRule.testNoMatch': '✗ This URL does not match',
+    'routingRule.missingPattern': 'Enter a URL pattern',
+    'routingRule.missingGate': 'Select a gate to open links in',
+    'routingRule.invalidRegex': 'Invalid regular expression: {error}',
+    'settings.routing': 'Link routing',
+    'settings.routingEnabled': 'Open matching links in gates',
+    'settings.routingEnabledDesc': 'Links clicked in reading view and live preview open in the gate of the first matching rule instead of the system browser. obsidian://opengate links use the same rules.',
+    'settings.routingModifier': 'Open in system browser with',
+    'settings.routingModifierDesc': 'Hold this key while clicking a link to skip the rules',
+    'settings.routingRules': 'Routing rules',
+    'settings.routingRulesDesc': 'Rules are checked from top to bottom.',
+    'settings.routingMissingGate': 'Deleted gate',
+    'settings.moveUp': 'Move up',
+    'settings.moveDown': 'Move down',
+    'settings.addRoutingRule': 'Add routing rule',
+
+    // Gate bundles
+    'bundle.invalidJson': 'Not valid JSON.',
+    'bundle.notBundle': 'This is not an Easy Gate bundle.',
+    'bundle.unsupportedVersion': 'Bundle version {version} is not supported. Update Easy Gate and try again.',
+    'bundle.invalidField': '{path}: expected {expected}',
+    'bundle.moreErrors': '...and {count} more problems',
+    'bundleExport.title': 'Export gates',
+    'bundleExport.desc': 'Creates a JSON bundle to share with others. API keys and other settings are never included, and token-like query parameters are removed from gate URLs.',
+    'bundleExport.gates': 'Gates',
+    'bundleExport.include': 'Also include',
+    'bundleExport.siteRules': 'Site extraction rules ({count})',
+    'bundleExport.templates': 'Analysis templates ({count})',
+    'bundleExport.copy': 'Copy to clipboard',
+    'bundleExport.save': 'Save to vault',
+    'bundleExport.copied': '✅ Copied a bundle with {count} gates to the clipboard.',
+    'bundleExport.saved': '✅ Saved the bundle to {path}',
+    'bundleExport.saveFailed': 'Could not save the bundle: {error}',
+    'bundleExport.noGates': 'Select at least one gate',
+    'bundleImport.title': 'Import gates',
+    'bundleImport.desc': 'Paste a bundle exported from Easy Gate, or choose its file.',
+    'bundleImport.file': 'Bundle file',
+    'bundleImport.chooseFile': 'Choose file',
+    'bundleImport.preview': 'Preview',
+    'bundleImport.failed': 'Could not read the bundle:\n{error}',
+    'bundleImport.previewTitle': 'Review the import',
+    'bundleImport.exportedAt': 'Exported {date}',
+    'bundleImport.gates': 'Gates ({count})',
+    'bundleImport.siteRules': 'Site extraction rules ({count})',
+    'bundleImport.templates': 'Analysis templates ({count})',
+    'bundleImport.statusNew': 'New',
+    'bundleImport.statusSame': 'Already up to date',
+    'bundleImport.statusChanged': 'Differs from yours',
+    'bundleImport.matchedById': 'same id as "{name}"',
+    'bundleImport.matchedByValue': 'same address as "{name}"',
+    'bundleImport.actionAdd': 'Add',
+    'bundleImport.actionReplace': 'Replace',
+    'bundleImport.actionKeepBoth': 'Keep both',
+    'bundleImport.actionSkip': 'Skip',
+    'bundleImport.back': 'Back',
+    'bundleImport.import': 'Import',
+    'bundleImport.done': '✅ Imported: {added} added, {replaced} replaced, {skipped} skipped',
+    'settings.exportGates': 'Export gates',
+    'settings.importGates': 'Import gates',
+
+    // Gate options (code block / gate files)
+    'gateOptions.invalidText': '"{field}" must be text.',
+    'gateOptions.invalidNumber': '"{field}" must be a number.',
+    'gateOptions.invalidBoolean': '"{field}" must be true or false.',
+    'gateOptions.invalidList': '"{field}" must be a list of text.',
+    'gateOptions.invalidChoice': '"{field}" must be one of: {choices}.',
+
+    // Gate files
+    'gateFiles.missingFrontmatter': 'No YAML frontmatter found. Put the gate fields between --- lines at the top of the file.',
+    'gateFiles.invalidYaml': 'Invalid YAML: {error}',
+    'gateFiles.missingUrl': '"url" is required.',
+    'gateFiles.duplicateIdFile': 'The id "{id}" is already used by {path}. Set a different "id".',
+    'gateFiles.duplicateIdSettings': 'The id "{id}" is already used by the gate "{title}" in settings. Set a different "id".',
+    'gateFiles.fileNotFound': 'Gate file not found: {path}',
+    'gateFiles.writeFailed': 'Could not update the gate file: {error}',
+
+    // Gate file diagnostics
+    'gateFileDiagnostics.title': 'Gate file diagnostics',
+    'gateFileDiagnostics.summary': '{loaded} gates loaded from {folder}.',
+    'gateFileDiagnostics.empty': 'All gate files loaded without errors.',
+    'gateFileDiagnostics.openFile': 'Open file',
+    'gateFileDiagnostics.keptLastVersion': 'The last valid version of this gate is still loaded.',
+    'gateFileDiagnostics.reload': 'Reload all',
+    'command.gateFileDiagnostics': 'Show gate file diagnostics',
+    'settings.gateFromFile': 'file: {path}',
+    'settings.deleteGateFileConfirm': 'This gate is defined in {path}. Move the file to the trash?',
+    'settings.gateFiles': 'Gate files',
+    'settings.gateFilesEnabled': 'Load gates from vault files',
+    'settings.gateFilesEnabledDesc': 'Each Markdown file in the folder defines one gate in its frontmatter, using the same fields as the gate code block (url, title, icon, profileKey, position, hasRibbon ...). Changes to the files apply right away; these gates are not stored in the plugin settings.',
+    'settings.gateFilesFolder': 'Gate folder',
+    'settings.gateFilesFolderDesc': 'Vault folder with the gate files (subfolders included).',
+    'settings.gateFilesStatus': 'Status',
+    'settings.gateFilesStatusDesc': '{loaded} loaded, {errors} with errors',
+    'settings.gateFilesDiagnostics': 'Diagnostics',
+
+    // Bundle import - page code
+    'bundleImport.codeWarning': '⚠️ Some items contain CSS or scripts that run inside your logged-in gate sessions. They are skipped unless you choose otherwise. Only import code you have read and trust.',
+    'bundleImport.containsCode': 'Contains page code: {fields}'
+}
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, string>
@@ -0,0 +1,799 @@
+/**
+ * 한국어 메시지
+ */
+
+import type { Messages } from './en'
+
+export const ko: Messages = {
+    // Common
+    'common.cancel': '취소',
+    'common.save': '저장',
+    'common.add': '추가',
+    'common.edit': '편집',
+    'common.delete': '삭제',
+    'common.close': '닫기',
+    'common.untitled': '제목 없음',
+    'common.unknownError': '알 수 없는 오류',
+
+    // AI dropdown
+    'aiDropdown.providerStatus': '🤖 {provider} {status}',
+    'aiDropdown.keyRequired': '⚠️ 키 필요',
+    'aiDropdown.analyzeSelection': '✂️ 선택 영역 분석',
+    'aiDropdown.analyzeWithTemplate': '📋 템플릿으로 분석',
+    'aiDropdown.savedPrompts': '저장된 프롬프트',
+    'aiDropdown.openAnalysisModal': '🔍 분석 모달 열기',
+    'aiDropdown.multiSource': '📊 멀티 소스 종합 분석',
+    'aiDropdown.selectProvider': 'Provider 선택',
+    'aiDropdown.apiKeySettings': '⚙️ API 키 설정...',
+    'aiButton.openAnalysis': 'AI 분석 모달 열기 (텍스트 입력/편집)',
+    'aiButton.apiKeyRequired': 'API 키 필요',
+    'aiButton.moreOptions': 'AI 분석 옵션 더보기',
+    'aiStatus.connected': '{provider} 연결됨',
+    'aiStatus.apiKeyRequired': '{provider} API 키 필요',
+
+    // Clip dropdown
+    'clipDropdown.header': '📥 웹페이지 저장 옵션',
+    'clipDropdown.savePage': '📄 전체 페이지 저장',
+    'clipDropdown.saveSelection': '✂️ 선택 영역 저장',
+    'clipDropdown.archivePage': '🗄️ 오프라인 아카이브',
+    'clipDropdown.appendToNote': '📎 기존 노트에 추가...',
+    'clipDropdown.recentClips': '최근 클리핑',
+    'clipDropdown.settings': '⚙️ 클리핑 설정',
+    'clipDropdown.moreFiles': '... {count}개 더',
+    'clipDropdown.noFolder': '클리핑 폴더가 없습니다',
+    'clipButton.save': '저장 (클릭: 전체 페이지 저장)',
+    'clipButton.moreOptions': '저장 옵션 더보기',
+
+    // Progress steps
+    'progress.extract': '콘텐츠 추출',
+    'progress.metadata': '메타데이터 파싱',
+    'progress.createNote': '노트 생성',
+    'progress.prompt': '프롬프트 생성',
+    'progress.waitAI': 'AI 응답 대기',
+
+    // Site rules
+    'siteRule.title': '🧩 사이트 추출 규칙',
+    'siteRule.hostPattern': '호스트명 패턴',
+    'siteRule.hostPatternDesc': '* 와일드카드를 사용할 수 있습니다. (예: *.medium.com, news.ycombinator.com)',
+    'siteRule.contentSelectors': '본문 선택자',
+    'siteRule.contentSelectorsDesc': '한 줄에 하나씩 입력합니다. 위에서부터 순서대로 시도합니다.',
+    'siteRule.removeSelectors': '제거할 선택자',
+    'siteRule.removeSelectorsDesc': '본문에서 제거할 요소입니다. 한 줄에 하나씩 입력합니다.',
+    'siteRule.titleSelector': '제목 선택자',
+    'siteRule.authorSelector': '작성자 선택자',
+    'siteRule.dateSelector': '날짜 선택자',
+    'siteRule.preScript': '사전 스크립트',
+    'siteRule.preScriptDesc': '추출 전에 페이지에서 실행할 JavaScript입니다. (예: "더 보기" 버튼 클릭) await를 사용할 수 있습니다.',
+    'siteRule.enabled': '사용',
+    'siteRule.hostPatternRequired': '호스트명 패턴을 입력해주세요.',
+    'siteRulesImport.title': '📥 사이트 규칙 가져오기',
+    'siteRulesImport.desc': '내보낸 규칙 JSON을 붙여넣으세요. 같은 호스트명 패턴의 규칙은 덮어씁니다.',
+    'siteRulesImport.import': '가져오기',
+    'siteRulesImport.failed': '가져오기 실패: {error}',
+    'siteRules.invalidJson': '올바른 JSON 형식이 아닙니다.',
+    'siteRules.missingRules': '규칙 목록(rules)을 찾을 수 없습니다.',
+    'siteRules.notObject': '{index}번째 규칙이 객체가 아닙니다.',
+    'siteRules.missingHostPattern': '{index}번째 규칙에 hostPattern이 없습니다.',
+
+    // Template modal
+    'templateModal.title': '📋 분석 템플릿',
+    'templateModal.name': '이름',
+    'templateModal.namePlaceholder': '📝 회의록 정리',
+    'templateModal.description': '설명',
+    'templateModal.icon': '아이콘',
+    'templateModal.iconDesc': 'Lucide 아이콘 이름입니다. (예: file-text, book, lightbulb)',
+    'templateModal.systemPrompt': '시스템 프롬프트',
+    'templateModal.systemPromptDesc': 'AI의 역할과 응답 규칙입니다. 비워 두면 사용하지 않습니다.',
+    'templateModal.userPrompt': '사용자 프롬프트',
+    'templateModal.userPromptDesc': '{{content}}, {{title}}, {{url}}, {{language}} 변수를 사용할 수 있습니다. {{content}}가 없으면 끝에 붙습니다.',
+    'templateModal.outputFormat': '출력 형식',
+    'templateModal.format.markdown': '📄 마크다운',
+    'templateModal.format.summary': '📋 요약 (짧은 형태)',
+    'templateModal.format.bullets': '• 글머리 기호',
+    'templateModal.format.qa': '❓ Q&A 형식',
+    'templateModal.provider': '기본 Provider',
+    'templateModal.providerDesc': '이 템플릿을 선택하면 사용할 Provider입니다. (설정되지 않은 Provider는 무시)',
+    'templateModal.useSelectedProvider': '선택한 Provider 사용',
+    'templateModal.model': '기본 모델',
+    'templateModal.modelDesc': '기본 Provider와 함께 사용합니다. 비워 두면 Provider 설정 모델을 사용합니다.',
+    'templateModal.temperatureDesc': '0 ~ 2 사이의 값입니다. 비워 두면 기본값(0.7)을 사용합니다.',
+    'templateModal.nameRequired': '템플릿 이름을 입력해주세요.',
+
+    // Note templates
+    'note.source': '출처',
+    'note.originalLink': '원본 링크',
+    'note.clippedOn': '클리핑 날짜',
+    'note.original': '원본',
+    'note.analyzedBy': '분석',
+    'note.created': '생성',
+    'note.sourceInfo': '원본 정보',
+    'note.title': '제목',
+    'note.author': '작성자',
+    'note.published': '작성일',
+    'note.site': '사이트',
+    'note.collectedClips': '수집된 클리핑',
+    'note.analysisResult': '분석 결과',
+    'note.analysisPlaceholder': 'AI 분석 결과가 여기에 생성됩니다',
+    'note.createdOn': '생성일: {date}',
+
+    // Map-reduce progress
+    'mapReduce.generate': '결과 생성',
+    'mapReduce.split': '콘텐츠 분할',
+    'mapReduce.splitCount': '콘텐츠 분할 ({count}개)',
+    'mapReduce.combine': '부분 요약 통합',
+    'mapReduce.partial': '부분 요약',
+    'mapReduce.round': '{round}단계 요약',
+    'mapReduce.chunkedNotice': '아래 내용은 긴 원문을 {count}개 부분으로 나누어 각각 요약한 것입니다. 전체 원문을 분석한다고 생각하고 작성해주세요.',
+    'mapReduce.partHeading': '부분 {index}/{total}',
+
+    // Built-in templates
+    'builtInTemplate.basic-summary.name': '📋 기본 요약',
+    'builtInTemplate.basic-summary.description': '페이지 내용을 간결하게 요약합니다.',
+    'builtInTemplate.study-note.name': '📚 학습 노트',
+    'builtInTemplate.study-note.description': '학습에 최적화된 형태로 정리합니다.',
+    'builtInTemplate.analysis-report.name': '📊 분석 리포트',
+    'builtInTemplate.analysis-report.description': '심층 분석 리포트를 생성합니다.',
+    'builtInTemplate.idea-note.name': '💡 아이디어 노트',
+    'builtInTemplate.idea-note.description': '아이디어 발굴 및 확장에 초점을 맞춥니다.',
+    'builtInTemplate.action-items.name': '✅ 액션 아이템',
+    'builtInTemplate.action-items.description': '실행 가능한 태스크 목록을 추출합니다.',
+    'builtInTemplate.qa-format.name': '❓ Q&A 형식',
+    'builtInTemplate.qa-format.description': '질문과 답변 형태로 재구성합니다.',
+    'templateRegistry.invalidFrontmatter': '{file}: frontmatter 형식이 올바르지 않습니다.',
+    'templateRegistry.emptyPrompt': '{file}: 프롬프트 내용이 없습니다.',
+
+    // Process modal
+    'processModal.title': '🤖 AI 분석 처리 중',
+    'processModal.customPrompt': '커스텀 프롬프트',
+    'processModal.preparing': '준비 중...',
+    'processModal.processing': 'AI가 분석 중입니다...',
+    'processModal.completed': '분석 완료!',
+    'processModal.cancelled': '취소됨',
+    'processModal.error': '오류 발생',
+    'processModal.duration': '⏱️ {seconds}초',
+    'processModal.waiting': 'AI 응답 대기 중...',
+    'processModal.copy': '📋 복사',
+    'processModal.copied': '클립보드에 복사되었습니다.',
+    'processModal.saveAsNote': '💾 새 노트로 저장',
+    'processModal.retry': '🔄 재시도',
+    'processModal.serviceNotInitialized': 'AI Service가 초기화되지 않았습니다.',
+    'processModal.requestCancelled': '요청이 취소되었습니다.',
+    'processModal.noResponse': 'AI 응답을 받지 못했습니다.',
+    'processModal.nothingToSave': '저장할 내용이 없습니다.',
+    'processModal.noteTitle': '{title} - AI 분석',
+    'processModal.noteCreated': '"{name}" 노트가 생성되었습니다.',
+    'processModal.saveFailed': '저장 실패',
+
+    // Analysis modal
+    'analysisModal.title': '🔍 페이지 분석',
+    'analysisModal.textHeading': '✏️ 분석할 텍스트',
+    'analysisModal.paste': '📋 클립보드에서 붙여넣기',
+    'analysisModal.pasted': '클립보드에서 텍스트를 붙여넣었습니다.',
+    'analysisModal.pasteFailed': '클립보드에서 텍스트를 가져올 수 없습니다.',
+    'analysisModal.guide': '분석할 텍스트를 직접 입력하거나, 선택한 텍스트를 편집할 수 있습니다.',
+    'analysisModal.placeholder': '분석할 텍스트를 여기에 입력하거나 붙여넣으세요...\n\n💡 팁: 웹페이지에서 텍스트를 드래그하여 선택한 후 이 모달을 열면 자동으로 표시됩니다.',
+    'analysisModal.chars': '📊 {count} 자',
+    'analysisModal.words': '📝 {count} 단어',
+    'analysisModal.tokens': '🎫 ~{count} 토큰',
+    'analysisModal.chunks': '✂️ {count}개 부분으로 나누어 분석',
+    'analysisModal.emptyWarning': '⚠️ 분석할 텍스트를 입력하세요',
+    'analysisModal.templates': '📋 분석 템플릿',
+    'analysisModal.savedPrompts': '💾 저장된 프롬프트',
+    'analysisModal.customPrompt': '✏️ 커스텀 프롬프트 (선택사항)',
+    'analysisModal.customPromptDesc': '템플릿 대신 직접 프롬프트를 입력하거나, 추가 지시사항을 작성할 수 있습니다.',
+    'analysisModal.customPromptPlaceholder': '예: "위 내용을 초등학생도 이해할 수 있게 쉽게 설명해주세요..."',
+    'analysisModal.savePrompt': '💾 이 프롬프트 저장',
+    'analysisModal.options': '⚙️ 분석 옵션',
+    'analysisModal.providerDesc': '분석에 사용할 AI 서비스를 선택합니다.',
+    'analysisModal.outputFormatDesc': '분석 결과의 형식을 선택합니다.',
+    'analysisModal.includeMetadata': '메타데이터 포함',
+    'analysisModal.includeMetadataDesc': 'URL, 작성자, 날짜 등의 메타데이터를 노트에 포함합니다.',
+    'analysisModal.start': '🚀 분석 시작',
+    'analysisModal.textRequired': '분석할 텍스트를 입력해주세요.',
+    'analysisModal.templateRequired': '템플릿을 선택하거나 커스텀 프롬프트를 입력해주세요.',
+    'analysisModal.apiKeyMissing': '{provider} API 키가 설정되지 않았습니다.',
+    'analysisModal.promptRequired': '저장할 프롬프트를 입력해주세요.',
+    'analysisModal.promptNamePrompt': '프롬프트 이름을 입력하세요:',
+    'analysisModal.promptSaved': '"{name}" 프롬프트가 저장되었습니다.',
+
+    // Multi-source analysis
+    'multiSource.type.webClip': '웹 클리핑',
+    'multiSource.type.note': '옵시디언 노트',
+    'multiSource.type.selection': '선택 텍스트',
+    'multiSource.type.manual': '직접 입력',
+    'multiSource.type.other': '기타',
+    'multiSource.searchNotes': '노트 파일을 검색하세요...',
+    'multiSource.textInputTitle': '✏️ 텍스트 직접 입력',
+    'multiSource.textTitle': '제목',
+    'multiSource.textTitleDesc': '이 텍스트의 제목을 입력하세요',
+    'multiSource.textTitlePlaceholder': '예: 회의록 요약',
+    'multiSource.textContent': '내용',
+    'multiSource.textContentPlaceholder': '분석할 텍스트를 여기에 입력하거나 붙여넣으세요...',
+    'multiSource.addButton': '➕ 추가',
+    'multiSource.titleRequired': '제목을 입력해주세요.',
+    'multiSource.contentRequired': '내용을 입력해주세요.',
+    'multiSource.title': '📊 멀티 소스 종합 분석',
+    'multiSource.description': '여러 소스를 수합하여 AI로 종합 분석합니다. 웹 클리핑, 옵시디언 노트, 직접 입력 텍스트를 추가할 수 있습니다.',
+    'multiSource.sources': '📚 분석 소스',
+    'multiSource.addNote': '📄 노트 추가',
+    'multiSource.addText': '✏️ 텍스트 입력',
+    'multiSource.empty': '📭 분석할 소스가 없습니다.',
+    'multiSource.emptyHint': '위 버튼으로 옵시디언 노트나 텍스트를 추가하세요.',
+    'multiSource.chars': '{count}자',
+    'multiSource.options': '⚙️ 분석 옵션',
+    'multiSource.analysisType': '분석 유형',
+    'multiSource.analysisTypeDesc': '소스들을 어떻게 분석할지 선택하세요',
+    'multiSource.option.synthesis': '🔄 종합 분석 - 모든 소스를 통합하여 요약',
+    'multiSource.option.comparison': '⚖️ 비교 분석 - 소스 간 차이점/공통점 분석',
+    'multiSource.option.summary': '📝 개별 요약 - 각 소스를 요약 후 종합',
+    'multiSource.option.custom': '✏️ 커스텀 - 프롬프트만 사용',
+    'multiSource.provider': 'AI 제공자',
+    'multiSource.providerDesc': '분석에 사용할 AI를 선택하세요',
+    'multiSource.instructions': '💬 분석 지시사항 (선택)',
+    'multiSource.instructionsGuide': 'AI에게 특별한 분석 방향이나 요청사항을 입력하세요. 비워두면 기본 분석이 수행됩니다.',
+    'multiSource.instructionsPlaceholder':
+        '예시:\n- 이 자료들에서 AI 교육의 핵심 트렌드를 정리해줘\n- 각 소스의 주장을 비교하고 공통점과 차이점을 분석해줘\n- 실제 교육 현장에 적용할 수 있는 인사이트를 추출해줘',
+    'multiSource.help': '💡 여러 소스를 종합하면 더 풍부한 인사이트를 얻을 수 있습니다.',
+    'multiSource.start': '📊 종합 분석 시작',
+    'multiSource.noteAdded': '노트 추가됨: {name}',
+    'multiSource.noteReadFailed': '노트를 읽을 수 없습니다: {path}',
+    'multiSource.textAdded': '텍스트 추가됨: {title}',
+    'multiSource.sourceRemoved': '소스 삭제됨: {title}',
+    'multiSource.sourceCount': '📚 {count}개 소스',
+    'multiSource.addSourcesWarning': '⚠️ 소스를 추가하세요',
+    'multiSource.sourcesRequired': '분석할 소스를 하나 이상 추가해주세요.',
+
+    // Gate view
+    'gate.reload': '새로고침',
+    'gate.home': '홈 페이지',
+    'gate.back': '뒤로',
+    'gate.forward': '앞으로',
+    'gate.insertCursor': '삽입 위치: 커서',
+    'gate.insertBottom': '삽입 위치: 맨 아래',
+    'gate.insertNewNote': '삽입 위치: 새 노트',
+    'gate.applySelection': '선택 영역 적용',
+    'gate.apply': '적용',
+    'gate.newTab': '새 탭',
+    'gate.pinTab': '탭 고정',
+    'gate.unpinTab': '탭 고정 해제',
+    'gate.duplicateTab': '탭 복제',
+    'gate.closeTab': '탭 닫기',
+    'gate.closeOtherTabs': '다른 탭 닫기',
+    'gate.zoomIn': '확대',
+    'gate.zoomOut': '축소',
+    'gate.zoomReset': '확대 비율 초기화',
+    'gate.switchedTo': '{title}(으)로 전환했습니다',
+    'gate.created': '새 게이트 생성: {title}',
+    'gate.iframeNoText': 'IFrame 모드(모바일/제한 환경)에서는 텍스트를 추출할 수 없습니다.',
+    'gate.noSelection': '브라우저에서 선택된 텍스트가 없습니다.',
+    'gate.noteCreated': '새 노트 생성: {name}',
+    'gate.noteCreatedPlain': '텍스트로 새 노트를 만들었습니다.',
+    'gate.noActiveNote': '텍스트를 삽입할 활성 마크다운 노트가 없습니다.',
+    'gate.textApplied': '텍스트를 적용했습니다!',
+    'gate.clippedAt': '클리핑',
+    'clip.desktopOnly': 'Desktop 환경에서만 클리핑이 가능합니다.',
+    'clip.clippingPage': '페이지 클리핑 중...',
+    'clip.clippingSelection': '선택 텍스트 클리핑 중...',
+    'clip.done': '클리핑 완료: {path}',
+    'clip.failed': '클리핑 실패',
+    'clip.error': '클리핑 오류: {error}',
+    'clip.noSelection': '선택된 텍스트가 없습니다.',
+    'clip.appending': '{name}에 추가 중...',
+    'clip.appended': '클리핑이 {name}에 추가되었습니다.',
+    'clip.appendFailed': '클리핑 추가 실패',
+    'ai.desktopOnly': 'Desktop 환경에서만 AI 기능이 가능합니다.',
+    'ai.analysisDesktopOnly': 'Desktop 환경에서만 분석 기능이 가능합니다.',
+    'ai.serviceNotInitialized': 'AI 서비스가 초기화되지 않았습니다.',
+    'ai.apiKeyMissingHint': 'API 키가 설정되지 않았습니다. 설정에서 API 키를 입력해주세요.',
+    'ai.apiKeyMissing': 'API 키가 설정되지 않았습니다.',
+    'ai.providerKeyMissing': '{provider} API 키가 설정되지 않았습니다.',
+    'ai.summarizing': 'AI 요약 생성 중...',
+    'ai.summarizingProgress': 'AI 요약 생성 중... {step} ({progress}%)',
+    'ai.extractFailed': '페이지 콘텐츠를 추출할 수 없습니다.',
+    'ai.summaryFileName': 'AI 요약 - {title} - {date}.md',
+    'ai.summaryTitle': 'AI 요약',
+    'ai.summaryCreated': 'AI 요약이 생성되었습니다.',
+    'ai.summaryFailed': 'AI 요약 생성 실패',
+    'ai.error': 'AI 오류: {error}',
+    'ai.extracting': '콘텐츠 추출 중...',
+    'ai.templateError': '템플릿 처리 오류: {error}',
+    'ai.processing': 'AI 처리 중...',
+    'ai.analysisFileName': 'AI 분석 - {title} - {date}.md',
+    'ai.analysisTitle': 'AI 분석',
+    'ai.promptLabel': '프롬프트',
+    'ai.analysisDone': 'AI 분석이 완료되었습니다.',
+    'ai.processingFailed': 'AI 처리 실패',
+    'ai.processingSelection': '선택 텍스트 AI 처리 중...',
+    'ai.selectionResult': 'AI 분석 결과:\n{result}...',
+    'ai.analysisModalError': '분석 모달 오류: {error}',
+    'ai.noteSaved': '노트 저장 완료: {path}',
+    'ai.saveFailed': '저장 실패',
+    'ai.multiSourcePreparing': '멀티 소스 분석 준비 중...',
+    'ai.multiSourceRunning': '멀티 소스 분석 중...',
+    'ai.multiSourceError': '멀티 소스 분석 오류: {error}',
+    'ai.analysisFailed': '분석 실패',
+    'ai.noResponse': 'AI 응답을 받지 못했습니다.',
+    'ai.unsupportedProvider': '지원하지 않는 AI 제공자: {provider}',
+    'multiSourceNote.synthesis': '종합 분석',
+    'multiSourceNote.comparison': '비교 분석',
+    'multiSourceNote.summary': '요약',
+    'multiSourceNote.custom': '커스텀 분석',
+    'multiSourceNote.overview': '분석 개요',
+    'multiSourceNote.type': '분석 유형',
+    'multiSourceNote.sourceCount': '소스 수',
+    'multiSourceNote.totalChars': '총 분석 문자 수',
+    'multiSourceNote.model': 'AI 모델',
+    'multiSourceNote.result': '분석 결과',
+    'multiSourceNote.sources': '분석에 사용된 소스',
+    'multiSourceNote.title': '멀티 소스 {type}',
+    'multiSourceNote.fileName': '멀티소스_{type}_{date}',
+
+    // Settings
+    'settings.mobileWarning':
+        '모바일에서는 일부 웹사이트가 동작하지 않을 수 있습니다. Obsidian Mobile의 제한 사항이므로 Obsidian Desktop을 사용해주세요. 최신 소식은 Twitter에서 확인하세요: ',
+    'settings.general': '⚙️ 일반',
+    'settings.uiLanguage': '인터페이스 언어',
+    'settings.uiLanguageDesc': '메뉴, 설정, 알림에 사용할 언어입니다. AI 응답 언어는 아래에서 따로 설정합니다.',
+    'settings.uiLanguageAuto': 'Obsidian 설정 따르기',
+    'settings.gates': '🌐 게이트',
+    'settings.newGate': '새 게이트',
+    'settings.help': '❓ 도움말',
+    'settings.followTwitter': 'Twitter 팔로우',
+    'settings.aiSettings': '🤖 AI 설정',
+    'settings.apiKeys': '🔑 AI API 키 관리',
+    'settings.howTo': '📌 사용 방법:',
+    'settings.howTo1': '사용할 AI Provider의 API 키를 입력하세요',
+    'settings.howTo2': '저장 버튼을 눌러 API 키를 저장하세요',
+    'settings.howTo3': '테스트 버튼으로 연결을 확인하세요',
+    'settings.howTo4': '아래 "기본 AI Provider"에서 사용할 Provider를 선택하세요',
+    'settings.connected': '연결됨',
+    'settings.notConfigured': '미설정',
+    'settings.providerStatus': '상태: {status} | 모델: {model}',
+    'settings.apiKeyPlaceholder': 'API 키 입력...',
+    'settings.apiKeySaved': '✅ {provider} API 키가 저장되었습니다.',
+    'settings.apiKeyRequired': '⚠️ API 키를 입력해주세요.',
+    'settings.test': '테스트',
+    'settings.testing': '테스트 중...',
+    'settings.testSuccess': '✅ {provider} 연결 성공!',
+    'settings.testFailed': '❌ {provider} 연결 실패: {error}',
+    'settings.changeModel': '모델 변경',
+    'settings.modelPrompt': '{provider} 모델명을 입력하세요:',
+    'settings.deleteApiKey': 'API 키 삭제',
+    'settings.deleteApiKeyConfirm': '{provider} API 키를 삭제하시겠습니까?',
+    'settings.localApiKeyPlaceholder': 'API 키 (선택)',
+    'settings.endpointRequired': '⚠️ 서버 주소를 입력해주세요.',
+    'settings.endpointSaved': '✅ {provider} 서버 주소가 저장되었습니다.',
+    'settings.localCheckServer': '서버 주소와 실행 여부를 확인해주세요.',
+    'settings.deleteLocal': '로컬 서버 설정 삭제',
+    'settings.deleteLocalConfirm': '{provider} 서버 설정을 삭제하시겠습니까?',
+    'settings.localModel': '로컬 모델',
+    'settings.localModelDesc': '서버에서 모델 목록을 불러와 선택합니다.',
+    'settings.loadModels': '모델 목록 불러오기',
+    'settings.noModels': '⚠️ 서버에 설치된 모델이 없습니다.',
+    'settings.modelMissing': '{model} (서버에 없음)',
+    'settings.modelsLoaded': '✅ {count}개의 모델을 불러왔습니다.',
+    'settings.modelsFailed': '❌ 모델 목록을 불러오지 못했습니다: {error}',
+    'settings.defaultProvider': '🎯 기본 AI Provider 선택',
+    'settings.providersConfigured': '✅ {count}개의 Provider가 설정되어 있습니다: {providers}',
+    'settings.noProviders': '⚠️ 위에서 API 키를 설정하고 저장 버튼을 눌러주세요.',
+    'settings.provider': '사용할 AI Provider',
+    'settings.providerDesc': '아래에서 기본으로 사용할 Provider를 선택하세요.',
+    'settings.providerDescEmpty': 'API 키가 설정된 Provider만 선택할 수 있습니다.',
+    'settings.providerNone': '먼저 API 키를 설정해주세요',
+    'settings.providerSet': '✅ {provider}가 기본 Provider로 설정되었습니다.',
+    'settings.customModelSection': '⚙️ 커스텀 모델 설정 (선택사항)',
+    'settings.useCustomModel': '커스텀 모델명 사용',
+    'settings.useCustomModelDesc': '기본 Provider의 모델명을 직접 지정합니다.',
+    'settings.customModel': '커스텀 모델명',
+    'settings.customModelDesc': '현재 Provider: {provider}',
+    'settings.customModelPlaceholder': '모델명 입력...',
+    'settings.clipping': '📋 클리핑 기본 설정',
+    'settings.defaultFolder': '기본 저장 폴더',
+    'settings.defaultFolderDesc': '클리핑 노트가 저장될 기본 폴더입니다.',
+    'settings.filenameFormat': '파일명 형식',
+    'settings.filenameFormatDesc': '{title}, {date}, {time} 변수를 사용할 수 있습니다.',
+    'settings.includeMetadata': '메타데이터 포함',
+    'settings.includeMetadataDesc': '클리핑 노트에 포함할 메타데이터를 선택합니다.',
+    'settings.includeUrl': 'URL 포함',
+    'settings.includeDate': '날짜 포함',
+    'settings.includeAuthor': '작성자 포함',
+    'settings.convertMarkdown': '마크다운 변환',
+    'settings.convertMarkdownDesc': '제목, 목록, 코드 블록, 표, 링크, 이미지를 유지한 마크다운으로 저장합니다. 끄면 텍스트만 저장합니다.',
+    'settings.clipTemplate': '클리핑 노트 템플릿',
+    'settings.clipTemplateDesc': '클리핑 노트의 형식을 정하는 볼트 파일 경로입니다.',
+    'settings.templateFallback': '비워 두거나 파일이 없으면 기본 형식을 사용합니다.',
+    'settings.templateVariables': '변수: {variables}',
+    'settings.templateFilters': '필터: {filters} / 조건: {conditions}',
+    'settings.siteRules': '🧩 사이트별 추출 규칙',
+    'settings.siteRulesDesc': '호스트명 패턴에 맞는 사이트에서는 규칙의 선택자를 먼저 사용하고, 찾지 못하면 자동 추출로 넘어갑니다. 목록의 위쪽 규칙이 우선합니다.',
+    'settings.metadataSelectorsOnly': '메타데이터 선택자만 사용',
+    'settings.enabled': '사용',
+    'settings.deleteRuleConfirm': '"{name}" 규칙을 삭제하시겠습니까?',
+    'settings.addRule': '+ 새 규칙 추가',
+    'settings.importJson': 'JSON 가져오기',
+    'settings.exportJson': 'JSON 내보내기',
+    'settings.rulesImported': '✅ {count}개의 규칙을 가져왔습니다.',
+    'settings.rulesCopied': '✅ {count}개의 규칙을 클립보드에 복사했습니다.',
+    'settings.aiGeneration': '✨ AI 생성 설정',
+    'settings.aiLanguage': 'AI 응답 언어',
+    'settings.aiLanguageDesc': 'AI가 응답할 때 사용할 언어입니다. 인터페이스 언어와는 별개입니다.',
+    'settings.defaultTemplate': '기본 템플릿',
+    'settings.defaultTemplateDesc': 'AI 처리 시 기본으로 사용할 템플릿입니다.',
+    'settings.autoTags': '자동 태그 생성',
+    'settings.autoTagsDesc': 'AI가 콘텐츠를 분석하여 자동으로 태그를 생성합니다.',
+    'settings.aiTemplate': 'AI 결과 노트 템플릿',
+    'settings.aiTemplateDesc': 'AI 요약/분석 결과 노트의 형식을 정하는 볼트 파일 경로입니다.',
+    'settings.templates': '📋 분석 템플릿',
+    'settings.templatesDesc':
+        '분석 모달, AI 메뉴, 기본 템플릿 설정에서 사용하는 템플릿입니다. 프롬프트에는 {{content}}, {{title}}, {{url}}, {{language}} 변수를 사용할 수 있습니다.',
+    'settings.templateBuiltIn': '기본',
+    'settings.templateModified': '기본 (수정됨)',
+    'settings.templateUser': '사용자',
+    'settings.resetTemplate': '기본값으로 초기화',
+    'settings.resetTemplateConfirm': '"{name}" 템플릿을 기본값으로 되돌리시겠습니까?',
+    'settings.deleteTemplateConfirm': '"{name}" 템플릿을 삭제하시겠습니까?',
+    'settings.addTemplate': '+ 새 템플릿 추가',
+    'settings.importTemplates': '볼트에서 가져오기',
+    'settings.importTemplatesDesc':
+        '폴더의 Markdown 파일을 템플릿으로 가져옵니다. frontmatter(name, description, icon, output, provider, model, temperature)와 "## System", "## User" 제목을 사용합니다.',
+    'settings.import': '가져오기',
+    'settings.templateFolderRequired': '⚠️ 템플릿 폴더를 입력해주세요.',
+    'settings.templateImportErrors': '⚠️ {count}개 파일을 가져오지 못했습니다:\n{errors}',
+    'settings.templatesImported': '✅ {count}개의 템플릿을 가져왔습니다.',
+    'settings.noTemplatesFound': '⚠️ "{folder}" 폴더에서 템플릿을 찾지 못했습니다.',
+    'settings.savedPrompts': '💾 저장된 프롬프트',
+    'settings.deletePromptConfirm': '"{name}" 프롬프트를 삭제하시겠습니까?',
+    'settings.addPrompt': '+ 새 프롬프트 추가',
+    'settings.promptName': '프롬프트 이름:',
+    'settings.promptText': '프롬프트 내용:',
+    'settings.newPromptName': '새 프롬프트 이름:',
+
+    // Gate forms and menus
+    'onboarding.title': 'Easy Gate에 오신 것을 환영합니다',
+    'onboarding.intro': 'Easy Gate는 어떤 웹사이트든 Obsidian 안에 띄울 수 있는 플러그인입니다. 이제 Obsidian을 떠날 필요가 없습니다!',
+    'onboarding.help': '도움이 필요하면 YouTube 채널의 튜토리얼을 확인하세요.',
+    'onboarding.createFirst': '먼저 첫 번째 게이트를 만들어 보세요.',
+    'gateForm.name': '이름',
+    'gateForm.pin': '메뉴에 고정',
+    'gateForm.pinDesc': '켜면 게이트가 왼쪽 바에 고정됩니다',
+    'gateForm.position': '위치',
+    'gateForm.positionDesc': '게이트를 어디에 열까요?',
+    'gateForm.left': '왼쪽',
+    'gateForm.right': '오른쪽',
+    'gateForm.center': '가운데',
+    'gateForm.advanced': '고급 옵션',
+    'gateForm.icon': '아이콘',
+    'gateForm.iconDesc': '비워 두면 자동으로 감지합니다',
+    'gateForm.userAgent': 'User Agent',
+    'gateForm.blankIfUnsure': '잘 모르겠다면 비워 두세요',
+    'gateForm.profileKey': '프로필',
+    'gateForm.profileKeyDesc': 'Chrome 프로필처럼 같은 프로필의 게이트는 쿠키와 저장소를 공유합니다. 프로필은 플러그인 설정에서 관리합니다',
+    'gateForm.zoomFactor': '확대 비율',
+    'gateForm.snippets': '스니펫 라이브러리 보기',
+    'gateForm.update': '게이트 수정',
+    'gateForm.create': '새 게이트 만들기',
+    'insertLink.title': '링크 삽입',
+    'insertLink.menu': '게이트 링크 삽입',
+    'linkMenu.toNormal': '일반 링크로 변환',
+    'linkMenu.toGate': '게이트 링크로 변환',
+    'linkMenu.preconfigured': '미리 설정된 게이트 링크는 일반 링크로 변환할 수 없습니다.',
+    'popup.title': '빠른 보기',
+    'codeBlock.syntaxUpdated': '문법이 변경되었습니다. YAML 형식을 사용해주세요.',
+    'codeBlock.errorDetails': '오류 상세: {error}',
+    'codeBlock.readMore': 'YAML에 대해 자세히 알아보기:',
+    'codeBlock.yamlSyntax': 'YAML 문법',
+    'command.createGate': '새 게이트 만들기',
+    'command.listGates': '모든 게이트 보기',
+    'command.missingUrl': 'url 파라미터가 없습니다',
+    'command.gateNotFound': '게이트를 찾을 수 없습니다',
+
+    // History
+    'history.search': '방문 기록 검색',
+    'history.placeholder': '전체 방문 기록 검색...',
+    'history.placeholderGate': '이 게이트의 방문 기록 검색...',
+    'history.open': '열기',
+    'history.openInNewTab': '새 탭에서 열기',
+    'history.toggleScope': '이 게이트 / 전체 게이트',
+    'history.removeEntry': '기록에서 삭제',
+    'history.visits': '{count}회 방문',
+    'history.noResults': '일치하는 페이지가 없습니다.',
+    'history.empty': '방문 기록이 없습니다.',
+    'history.clearConfirm': '모든 방문 기록을 삭제할까요?',
+    'history.cleared': '방문 기록을 삭제했습니다',
+    'command.searchHistory': '방문 기록 검색',
+    'command.clearHistory': '방문 기록 삭제',
+    'settings.history': '🕘 방문 기록',
+    'settings.historyEnabled': '방문 기록 저장',
+    'settings.historyEnabledDesc': '게이트에서 방문한 페이지를 기록합니다',
+    'settings.historyRetention': '보관 기간 (일)',
+    'settings.historyRetentionDesc': '기간이 지난 항목은 삭제됩니다. 0이면 기간 제한이 없습니다.',
+    'settings.historyMaxEntries': '최대 항목 수',
+    'settings.historyMaxEntriesDesc': '이 수를 넘으면 오래된 항목부터 삭제됩니다. 0이면 제한이 없습니다.',
+    'settings.historyIndexText': '페이지 본문 저장',
+    'settings.historyIndexTextDesc': '방문한 페이지의 본문을 저장해 내용으로도 검색합니다. 저장 공간을 더 사용합니다.',
+    'settings.historyClear': '방문 기록 삭제',
+    'settings.historyClearDesc': '저장된 모든 방문 기록을 삭제합니다',
+    'settings.historyClearButton': '삭제',
+
+    // Bookmarks
+    'bookmark.viewTitle': '북마크',
+    'bookmark.addTitle': '북마크 추가',
+    'bookmark.editTitle': '북마크 편집',
+    'bookmark.name': '제목',
+    'bookmark.url': 'URL',
+    'bookmark.folder': '폴더',
+    'bookmark.folderDesc': '비워 두면 폴더 없이 저장합니다',
+    'bookmark.tags': '태그',
+    'bookmark.tagsDesc': '쉼표나 공백으로 구분합니다',
+    'bookmark.read': '읽음',
+    'bookmark.urlRequired': 'URL을 입력하세요',
+    'bookmark.added': '북마크를 추가했습니다',
+    'bookmark.searchPlaceholder': '북마크 검색...',
+    'bookmark.filterAll': '전체',
+    'bookmark.filterUnread': '읽지 않음',
+    'bookmark.filterRead': '읽음',
+    'bookmark.allTags': '모든 태그',
+    'bookmark.empty': '북마크가 없습니다.',
+    'bookmark.open': '열기',
+    'bookmark.markRead': '읽음으로 표시',
+    'bookmark.markUnread': '읽지 않음으로 표시',
+    'command.openBookmarks': '북마크 열기',
+    'command.bookmarkPage': '현재 페이지 북마크',
+    'settings.bookmarks': '⭐ 북마크',
+    'settings.bookmarksFile': '북마크 파일',
+    'settings.bookmarksFileDesc': '북마크를 체크리스트로 저장할 볼트의 Markdown 노트',
+
+    // Omnibox
+    'omnibox.searchWith': '{engine}에서 검색',
+    'omnibox.goTo': '주소로 이동',
+    'gate.saveAsGate': '페이지를 게이트로 저장',
+    'searchEngine.title': '검색 엔진',
+    'searchEngine.name': '이름',
+    'searchEngine.keyword': '키워드',
+    'searchEngine.keywordDesc': '주소창에 키워드와 공백을 먼저 입력하면 이 엔진으로 검색합니다. 예: "g obsidian"',
+    'searchEngine.url': '검색 주소',
+    'searchEngine.urlDesc': '%s 자리에 검색어가 들어갑니다',
+    'searchEngine.invalid': '이름과 %s가 포함된 검색 주소를 입력하세요',
+    'settings.omnibox': '🔎 주소창',
+    'settings.defaultSearchEngine': '기본 검색 엔진',
+    'settings.defaultSearchEngineDesc': '주소창 입력이 URL이 아닐 때 사용합니다',
+    'settings.omniboxSuggestions': '입력 추천 표시',
+    'settings.omniboxSuggestionsDesc': '입력하는 동안 일치하는 게이트, 북마크, 방문 기록을 추천합니다',
+    'settings.searchEngines': '검색 엔진',
+    'settings.addSearchEngine': '검색 엔진 추가',
+    'settings.resetSearchEngines': '기본값으로 되돌리기',
+
+    // Find in page
+    'find.title': '페이지에서 찾기',
+    'find.placeholder': '페이지에서 찾기',
+    'find.matchCase': '대소문자 구분',
+    'find.previous': '이전 항목',
+    'find.next': '다음 항목',
+    'find.count': '{total}개 중 {current}',
+    'find.noMatches': '일치 항목 없음',
+    'find.unavailable': '이 게이트에서는 페이지 내 검색을 사용할 수 없습니다 (모바일에서는 iframe으로 표시됨).',
+    'command.findInPage': '페이지에서 찾기',
+
+    // Highlights
+    'highlight.button': '하이라이트',
+    'highlight.addTitle': '하이라이트 추가',
+    'highlight.editTitle': '하이라이트 편집',
+    'highlight.color': '색상',
+    'highlight.color.yellow': '노랑',
+    'highlight.color.green': '초록',
+    'highlight.color.blue': '파랑',
+    'highlight.color.pink': '분홍',
+    'highlight.color.purple': '보라',
+    'highlight.comment': '메모',
+    'highlight.withComment': '메모와 함께 하이라이트...',
+    'highlight.openNote': '하이라이트 노트 열기',
+    'highlight.added': '하이라이트를 저장했습니다',
+    'highlight.noSelection': '먼저 페이지에서 텍스트를 선택하세요',
+    'highlight.noNote': '이 페이지에는 아직 하이라이트가 없습니다',
+    'highlight.unavailable': '이 게이트에서는 하이라이트를 사용할 수 없습니다',
+    'command.highlightSelection': '선택 영역 하이라이트',
+    'command.openHighlightsNote': '현재 페이지의 하이라이트 노트 열기',
+    'settings.highlights': '🖍 하이라이트',
+    'settings.highlightsEnabled': '하이라이트 사용',
+    'settings.highlightsEnabledDesc': '게이트 페이지의 문장을 하이라이트하고 페이지마다 하나의 노트로 모읍니다',
+    'settings.highlightsFolder': '하이라이트 폴더',
+    'settings.highlightsFolderDesc': '새 하이라이트 노트를 만들 폴더',
+    'settings.highlightsDefaultColor': '기본 색상',
+
+    // Screenshots
+    'screenshot.button': '스크린샷',
+    'screenshot.viewport': '보이는 영역 캡처',
+    'screenshot.region': '영역 선택 캡처',
+    'screenshot.full': '전체 페이지 캡처',
+    'screenshot.capturing': '스크린샷 캡처 중...',
+    'screenshot.saved': '스크린샷 저장됨: {path}',
+    'screenshot.failed': '페이지를 캡처하지 못했습니다',
+    'screenshot.error': '스크린샷 오류: {error}',
+    'command.screenshotViewport': '보이는 영역 스크린샷',
+    'command.screenshotRegion': '선택 영역 스크린샷',
+    'command.screenshotFullPage': '전체 페이지 스크린샷',
+    'settings.screenshotFormat': '스크린샷 형식',
+    'settings.screenshotFormatDesc': '보관소에 저장할 스크린샷 이미지 형식입니다. 파일은 Obsidian 첨부 파일 폴더 설정을 따릅니다',
+
+    // Offline archive
+    'archive.archiving': '페이지 아카이브 중...',
+    'archive.done': '아카이브됨: {path}',
+    'archive.failed': '아카이브 실패',
+    'archive.error': '아카이브 오류: {error}',
+    'archive.noFile': '블록 첫 줄에 아카이브 파일을 지정하세요',
+    'archive.notFound': '아카이브를 찾을 수 없습니다: {path}',
+    'archive.mhtmlDesktopOnly': 'MHTML 아카이브는 데스크톱에서만 볼 수 있습니다',
+    'command.archivePage': '현재 페이지 오프라인 아카이브',
+    'settings.archiveFolder': '아카이브 폴더',
+    'settings.archiveFolderDesc': '오프라인 페이지 아카이브를 저장할 폴더입니다. 클리핑 노트의 archive 속성에 링크됩니다',
+    'settings.archiveFormat': '아카이브 형식',
+    'settings.archiveFormatDesc': '단일 HTML은 어디서나 열 수 있고, MHTML은 Chromium이 저장하며 데스크톱에서만 볼 수 있습니다',
+    'settings.archiveFormatHtml': '단일 HTML',
+
+    // Content blocker
+    'blocker.blockedCount': '이 페이지에서 차단: {count}개',
+    'blocker.filterCount': '적용 중인 필터 규칙: {count}개',
+    'blocker.inactive': '이 페이지에서는 콘텐츠 차단이 꺼져 있습니다',
+    'blocker.allowOnSite': '이 게이트에서 {site} 차단 안 함',
+    'blocker.blockOnSite': '이 게이트에서 {site} 다시 차단',
+    'blocker.reloadLists': '필터 목록 다시 읽기',
+    'blocker.listsReloaded': '필터 목록을 읽었습니다 (규칙 {count}개)',
+    'settings.contentBlocker': '콘텐츠 차단',
+    'settings.contentBlockerEnabled': '광고와 추적기 차단',
+    'settings.contentBlockerEnabledDesc': '아래 필터 목록으로 게이트의 웹 페이지 요청을 걸러냅니다',
+    'settings.contentBlockerCosmetic': '페이지 요소 숨기기',
+    'settings.contentBlockerCosmeticDesc': '필터 목록의 요소 숨김 규칙(##)을 적용합니다',
+    'settings.contentBlockerLists': '필터 목록',
+    'settings.contentBlockerListsDesc': '볼트에 있는 EasyList/uBlock Origin 형식 목록 경로 (한 줄에 하나). 현재 규칙 {count}개 적용 중',
+    'settings.contentBlockerDownload': '{name} 받기',
+    'settings.contentBlockerDownloading': '{name} 받는 중...',
+    'settings.contentBlockerDownloadFailed': '{name} 받기 실패: {error}',
+    'gateForm.blockerAllowlist': '콘텐츠 차단 허용 목록',
+    'gateForm.blockerAllowlistDesc': '이 게이트에서 차단하지 않을 사이트 (한 줄에 도메인 하나)',
+
+    // Profiles
+    'profile.title': '프로필',
+    'profile.name': '이름',
+    'profile.namePlaceholder': '업무',
+    'profile.color': '배지 색상',
+    'profile.color.gray': '회색',
+    'profile.color.red': '빨강',
+    'profile.color.orange': '주황',
+    'profile.color.yellow': '노랑',
+    'profile.color.green': '초록',
+    'profile.color.cyan': '청록',
+    'profile.color.blue': '파랑',
+    'profile.color.purple': '보라',
+    'profile.color.pink': '분홍',
+    'profile.invalid': '프로필 이름을 입력하세요',
+    'settings.profiles': '프로필',
+    'settings.profilesDesc': '프로필마다 쿠키, 저장소, 캐시가 따로 저장됩니다. 게이트의 고급 옵션에서 프로필을 고르세요.',
+    'settings.profileGates': '게이트 {count}개에서 사용',
+    'settings.profileUsage': '사용량 보기',
+    'settings.profileUsageDesc': '게이트 {gates}개에서 사용 · 사이트 {sites}곳의 쿠키 {cookies}개 · 캐시 {cache}',
+    'settings.profileClear': '데이터 지우기',
+    'settings.profileClearCookies': '쿠키',
+    'settings.profileClearStorage': '사이트 저장소',
+    'settings.profileClearCache': '캐시',
+    'settings.profileClearAll': '전체',
+    'settings.profileClearConfirm': '"{name}" 프로필의 {item} 데이터를 지울까요? 사이트에서 로그아웃될 수 있습니다.',
+    'settings.profileCleared': '"{name}" 프로필 데이터를 지웠습니다',
+    'settings.profileDataFailed': '프로필 데이터를 처리하지 못했습니다: {error}',
+    'settings.profileDuplicate': '복제',
+    'settings.profileCopyName': '{name} 사본',
+    'settings.profileDuplicated': '같은 쿠키로 "{name}" 프로필을 만들었습니다',
+    'settings.profileDeleteConfirm': '"{name}" 프로필과 데이터를 삭제할까요? 이 프로필을 쓰는 게이트 {count}개는 기본 프로필로 바뀝니다.',
+    'settings.addProfile': '프로필 추가',
+
+    // Link routing
+    'routingRule.title': '라우팅 규칙',
+    'routingRule.pattern': '주소 패턴',
+    'routingRule.patternDesc': '호스트와 경로에 대한 glob: *는 경로 한 단계 안, **는 여러 단계와 일치하며 *.example.com은 example.com도 포함합니다. 정규식은 전체 주소와 비교합니다.',
+    'routingRule.glob': 'Glob',
+    'routingRule.regex': '정규식',
+    'routingRule.gate': '열 게이트',
+    'routingRule.selectGate': '게이트 선택',
+    'routingRule.position': '위치',
+    'routingRule.positionDesc': '게이트가 열려 있지 않을 때 열 위치',
+    'routingRule.gatePosition': '게이트 설정 위치',
+    'routingRule.test': '주소 테스트',
+    'routingRule.testMatch': '✓ 이 주소는 게이트에서 열립니다',
+    'routingRule.testNoMatch': '✗ 이 주소는 일치하지 않습니다',
+    'routingRule.missingPattern': '주소 패턴을 입력하세요',
+    'routingRule.missingGate': '링크를 열 게이트를 선택하세요',
+    'routingRule.invalidRegex': '잘못된 정규식입니다: {error}',
+    'settings.routing': '링크 라우팅',
+    'settings.routingEnabled': '일치하는 링크를 게이트에서 열기',
+    'settings.routingEnabledDesc': '읽기 모드와 라이브 프리뷰에서 클릭한 링크를 시스템 브라우저 대신 처음 일치하는 규칙의 게이트에서 엽니다. obsidian://opengate 링크도 같은 규칙을 사용합니다.',
+    'settings.routingModifier': '시스템 브라우저로 열기 키',
+    'settings.routingModifierDesc': '이 키를 누른 채 링크를 클릭하면 규칙을 무시합니다',
+    'settings.routingRules': '라우팅 규칙',
+    'settings.routingRulesDesc': '규칙은 위에서부터 차례로 확인합니다.',
+    'settings.routingMissingGate': '삭제된 게이트',
+    'settings.moveUp': '위로 이동',
+    'settings.moveDown': '아래로 이동',
+    'settings.addRoutingRule': '라우팅 규칙 추가',
+
+    // Gate bundles
+    'bundle.invalidJson': '올바른 JSON이 아닙니다.',
+    'bundle.notBundle': 'Easy Gate 묶음 파일이 아닙니다.',
+    'bundle.unsupportedVersion': '묶음 버전 {version}은 지원하지 않습니다. Easy Gate를 업데이트한 뒤 다시 시도하세요.',
+    'bundle.invalidField': '{path}: {expected} 값이어야 합니다',
+    'bundle.moreErrors': '...외 문제 {count}개',
+    'bundleExport.title': '게이트 내보내기',
+    'bundleExport.desc': '다른 사람과 나눌 JSON 묶음을 만듭니다. API 키와 다른 설정은 포함되지 않으며, 게이트 주소의 토큰 같은 쿼리 매개변수는 제거됩니다.',
+    'bundleExport.gates': '게이트',
+    'bundleExport.include': '함께 포함',
+    'bundleExport.siteRules': '사이트 추출 규칙 ({count}개)',
+    'bundleExport.templates': '분석 템플릿 ({count}개)',
+    'bundleExport.copy': '클립보드에 복사',
+    'bundleExport.save': '볼트에 저장',
+    'bundleExport.copied': '✅ 게이트 {count}개 묶음을 클립보드에 복사했습니다.',
+    'bundleExport.saved': '✅ 묶음을 {path}에 저장했습니다',
+    'bundleExport.saveFailed': '묶음을 저장하지 못했습니다: {error}',
+    'bundleExport.noGates': '게이트를 하나 이상 선택하세요',
+    'bundleImport.title': '게이트 가져오기',
+    'bundleImport.desc': 'Easy Gate에서 내보낸 묶음을 붙여넣거나 파일을 선택하세요.',
+    'bundleImport.file': '묶음 파일',
+    'bundleImport.chooseFile': '파일 선택',
+    'bundleImport.preview': '미리보기',
+    'bundleImport.failed': '묶음을 읽지 못했습니다:\n{error}',
+    'bundleImport.previewTitle': '가져올 항목 확인',
+    'bundleImport.exportedAt': '{date}에 내보냄',
+    'bundleImport.gates': '게이트 ({count}개)',
+    'bundleImport.siteRules': '사이트 추출 규칙 ({count}개)',
+    'bundleImport.templates': '분석 템플릿 ({count}개)',
+    'bundleImport.statusNew': '새 항목',
+    'bundleImport.statusSame': '이미 같음',
+    'bundleImport.statusChanged': '기존 항목과 다름',
+    'bundleImport.matchedById': '"{name}"과 id가 같음',
+    'bundleImport.matchedByValue': '"{name}"과 주소가 같음',
+    'bundleImport.actionAdd': '추가',
+    'bundleImport.actionReplace': '덮어쓰기',
+    'bundleImport.actionKeepBoth': '둘 다 유지',
+    'bundleImport.actionSkip': '건너뛰기',
+    'bundleImport.back': '뒤로',
+    'bundleImport.import': '가져오기',
+    'bundleImport.done': '✅ 가져오기 완료: 추가 {added}개, 덮어쓰기 {replaced}개, 건너뜀 {skipped}개',
+    'settings.exportGates': '게이트 내보내기',
+    'settings.importGates': '게이트 가져오기',
+
+    // Gate options (code block / gate files)
+    'gateOptions.invalidText': '"{field}" 값은 텍스트여야 합니다.',
+    'gateOptions.invalidNumber': '"{field}" 값은 숫자여야 합니다.',
+    'gateOptions.invalidBoolean': '"{field}" 값은 true 또는 false여야 합니다.',
+    'gateOptions.invalidList': '"{field}" 값은 텍스트 목록이어야 합니다.',
+    'gateOptions.invalidChoice': '"{field}" 값은 다음 중 하나여야 합니다: {choices}.',
+
+    // Gate files
+    'gateFiles.missingFrontmatter': 'YAML frontmatter가 없습니다. 파일 맨 앞의 --- 줄 사이에 게이트 필드를 적어 주세요.',
+    'gateFiles.invalidYaml': 'YAML 형식 오류: {error}',
+    'gateFiles.missingUrl': '"url" 값이 필요합니다.',
+    'gateFiles.duplicateIdFile': 'id "{id}"는 이미 {path}에서 사용 중입니다. 다른 "id"를 지정하세요.',
+    'gateFiles.duplicateIdSettings': 'id "{id}"는 이미 설정의 "{title}" 게이트에서 사용 중입니다. 다른 "id"를 지정하세요.',
+    'gateFiles.fileNotFound': '게이트 파일을 찾을 수 없습니다: {path}',
+    'gateFiles.writeFailed': '게이트 파일을 수정하지 못했습니다: {error}',
+
+    // Gate file diagnostics
+    'gateFileDiagnostics.title': '게이트 파일 진단',
+    'gateFileDiagnostics.summary': '{folder}에서 게이트 {loaded}개를 불러왔습니다.',
+    'gateFileDiagnostics.empty': '모든 게이트 파일을 오류 없이 불러왔습니다.',
+    'gateFileDiagnostics.openFile': '파일 열기',
+    'gateFileDiagnostics.keptLastVersion': '이 게이트는 마지막으로 올바르게 읽은 내용으로 유지되고 있습니다.',
+    'gateFileDiagnostics.reload': '모두 다시 읽기',
+    'command.gateFileDiagnostics': '게이트 파일 진단 보기',
+    'settings.gateFromFile': '파일: {path}',
+    'settings.deleteGateFileConfirm': '이 게이트는 {path} 파일로 정의되어 있습니다. 파일을 휴지통으로 옮길까요?',
+    'settings.gateFiles': '게이트 파일',
+    'settings.gateFilesEnabled': '볼트 파일에서 게이트 불러오기',
+    'settings.gateFilesEnabledDesc': '폴더의 Markdown 파일 하나가 frontmatter로 게이트 하나를 정의합니다. 필드는 gate 코드 블록과 같습니다 (url, title, icon, profileKey, position, hasRibbon ...). 파일을 고치면 바로 반영되며, 이 게이트들은 플러그인 설정에 저장되지 않습니다.',
+    'settings.gateFilesFolder': '게이트 폴더',
+    'settings.gateFilesFolderDesc': '게이트 파일이 있는 볼트 폴더 (하위 폴더 포함)',
+    'settings.gateFilesStatus': '상태',
+    'settings.gateFilesStatusDesc': '{loaded}개 불러옴, 오류 {errors}개',
+    'settings.gateFilesDiagnostics': '진단',
+
+    // Bundle import - page code
+    'bundleImport.codeWarning': '⚠️ 일부 항목에 로그인된 게이트 세션 안에서 실행되는 CSS나 스크립트가 들어 있습니다. 직접 고르기 전까지는 건너뜁니다. 읽어 보고 믿을 수 있는 코드만 가져오세요.',
+    'bundleImport.containsCode': '페이지 코드 포함: {fields}'
+}
@@ -1,13 +1,13 @@
-import { Notice, ObsidianProtocolData, Plugin } from 'obsidian'
+import { debounce, normalizePath, Notice, ObsidianProtocolData, Platform, Plugin, TAbstractFile } from 'obsidian'
 import { SettingTab } from './SetingTab'
-import { registerGate } from './fns/registerGate'
+import { GateRegistry } from './GateRegistry'
 import { ModalEditGate } from './ModalEditGate'
 import { ModalOnBoarding } from './ModalOnboarding'
-import { unloadView } from './fns/unloadView'
 import { createEmptyGateOption } from './fns/createEmptyGateOption'
 import { normalizeGateOption } from './fns/normalizeGateOption'
 import { ModalListGates } from './ModalListGates'
 import { registerCodeBlockProcessor } from './fns/registerCodeBlockProcessor'
+import { registerArchiveCodeBlockProcessor } from './fns/registerArchiveCodeBlockProcessor'
 import { isViewExist, openView } from './fns/openView'
 import { GateView } from './GateView'
 import { setupLinkConvertMenu } from './fns/setupLinkConvertMenu'
@@ -16,28 +16,136 @@ import { PluginSetting, DEFAULT_PLUGIN_SETTINGS } from './types'
 import { GateFrameOption, GateFrameOptionType } from './GateOptions'
 import { initializeAIService, updateAIServiceSettings } from './ai'
 import { DEFAULT_AI_SETTINGS, DEFAULT_CLIPPING_SETTINGS } from './ai/types'
+import { updateSiteRules } from './clipping/SiteRules'
+import { ScreenshotMode } from './clipping'
+import { updateTemplates } from './ai/TemplateRegistry'
+import { getDefaultAILanguage, MessageKey, setLocale, t } from './i18n'
+import { DEFAULT_HISTORY_SETTINGS, getHistoryStore, initializeHistoryStore, updateHistorySettings } from './history'
+import { Bookmark, BOOKMARKS_VIEW_TYPE, BookmarksView, DEFAULT_BOOKMARK_SETTINGS, initializeBookmarkStore, updateBookmarkSettings } from './bookmarks'
+import { DEFAULT_OMNIBOX_SETTINGS, DEFAULT_SEARCH_ENGINES } from './omnibox'
+import { DEFAULT_HIGHLIGHT_SETTINGS, initializeHighlightService, initializeHighlightStore, updateHighlightSettings } from './highlights'
+import { GateFileDiagnosticsModal, HistorySearchModal } from './modals'
+import { DEFAULT_CONTENT_BLOCKER_SETTINGS, getContentBlocker, initializeContentBlocker, updateContentBlockerSettings } from './blocker'
+import { DEFAULT_PROFILES, initializeProfileManager, syncProfilesWithGates, updateProfileSettings } from './profiles'
+import { DEFAULT_ROUTING_SETTINGS, findRoute, Route } from './routing'
+import { registerLinkRouter } from './fns/registerLinkRouter'
+import { DEFAULT_GATE_FILE_SETTINGS, getGateFileLoader, initializeGateFileLoader, updateGateFileSettings } from './gateFiles'
+import { showError } from './ui'
 
 const DEFAULT_SETTINGS: PluginSetting = {
     uuid: '',
     gates: {},
+    uiLanguage: 'auto',
     ai: DEFAULT_AI_SETTINGS,
     clipping: DEFAULT_CLIPPING_SETTINGS,
-    savedPrompts: []
+    savedPrompts: [],
+    history: DEFAULT_HISTORY_SETTINGS,
+    bookmarks: DEFAULT_BOOKMARK_SETTINGS,
+    omnibox: DEFAULT_OMNIBOX_SETTINGS,
+    highlights: DEFAULT_HIGHLIGHT_SETTINGS,
+    contentBlocker: DEFAULT_CONTENT_BLOCKER_SETTINGS,
+    profiles: DEFAULT_PROFILES,
+    routing: DEFAULT_ROUTING_SETTINGS,
+    gateFiles: DEFAULT_GATE_FILE_SETTINGS
 }
 
 export default class OpenGatePlugin extends Plugin {
     settings: PluginSetting
+    gateRegistry: GateRegistry
 
     async onload() {
+        this.gateRegistry = new GateRegistry(this)
         await this.loadSettings()
+        await this.initHistory()
+        this.initBookmarks()
+        await this.initHighlights()
+        this.initContentBlocker()
         await this.mayShowOnboardingDialog()
         await this.initGates()
+        this.initGateFiles()
         this.addSettingTab(new SettingTab(this.app, this))
         this.registerCommands()
         this.registerProtocol()
         setupLinkConvertMenu(this)
         setupInsertLinkMenu(this)
         registerCodeBlockProcessor(this)
+        registerArchiveCodeBlockProcessor(this)
+        registerLinkRouter(this)
+    }
+
+    async onunload() {
+        // 대기 중인 방문 기록 저장
+        await getHistoryStore()?.save()
+        // 메인 프로세스에 남은 요청 리스너 해제
+        getContentBlocker()?.detach()
+    }
+
+    private initContentBlocker() {
+        const blocker = initializeContentBlocker({ vault: this.app.vault, settings: this.settings.contentBlocker })
+        this.app.workspace.onLayoutReady(() => blocker.load())
+
+        // 필터 목록 파일을 고치면 다시 읽음
+        const reload = debounce(() => blocker.load(), 1000, true)
+        const onChange = (file: TAbstractFile) => {
+            if (blocker.isFilterList(file.path)) reload()
+        }
+        this.registerEvent(this.app.vault.on('modify', onChange))
+        this.registerEvent(this.app.vault.on('create', onChange))
+        this.registerEvent(this.app.vault.on('delete', onChange))
+    }
+
+    private initBookmarks() {
+        const store = initializeBookmarkStore({ vault: this.app.vault, settings: this.settings.bookmarks })
+        // 볼트 파일 목록이 준비된 뒤에 읽어야 북마크 파일을 찾을 수 있음
+        this.app.workspace.onLayoutReady(() => store.load())
+        this.registerEvent(this.app.vault.on('modify', (file) => store.handleFileChange(file)))
+        this.registerEvent(this.app.vault.on('create', (file) => store.handleFileChange(file)))
+        this.registerEvent(this.app.vault.on('delete', (file) => store.handleFileChange(file)))
+
+        this.registerView(BOOKMARKS_VIEW_TYPE, (leaf) => new BookmarksView(leaf, this))
+        this.addRibbonIcon('bookmark', t('command.openBookmarks'), () => this.openBookmarksView())
+    }
+
+    /**
+     * 북마크 사이드바 열기 (이미 열려 있으면 표시)
+     */
+    async openBookmarksView() {
+        const existing = this.app.workspace.getLeavesOfType(BOOKMARKS_VIEW_TYPE)[0]
+        const leaf = existing ?? this.app.workspace.getRightLeaf(false)
+        if (!leaf) return
+
+        if (!existing) {
+            await leaf.setViewState({ type: BOOKMARKS_VIEW_TYPE, active: true })
+        }
+        this.app.workspace.revealLeaf(leaf)
+    }
+
+    /**
+     * 북마크를 추가한 게이트(없으면 임시 게이트)에서 열기
+     */
+    async openBookmark(bookmark: Bookmark) {
+        const gateId = bookmark.gateId && this.settings.gates[bookmark.gateId] ? bookmark.gateId : 'temp-gate'
+        await this.openUrlInGate(gateId, bookmark.url)
+    }
+
+    private async initHighlights() {
+        const store = initializeHighlightStore({
+            adapter: this.app.vault.adapter,
+            path: normalizePath(`${this.manifest.dir}/highlights.json`)
+        })
+        await store.load()
+        initializeHighlightService({ vault: this.app.vault, store, settings: this.settings.highlights })
+        // 하이라이트 노트 이름을 바꿔도 페이지와의 연결 유지
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => store.handleNoteRename(oldPath, file.path)))
+    }
+
+    private async initHistory() {
+        const store = initializeHistoryStore({
+            adapter: this.app.vault.adapter,
+            path: normalizePath(`${this.manifest.dir}/history.json`),
+            settings: this.settings.history
+        })
+        await store.load()
     }
 
     async mayShowOnboardingDialog() {
@@ -65,12 +173,11 @@ export default class OpenGatePlugin extends Plugin {
             // Get the gate with the current ID
             const gate = this.settings.gates[gateId]
             // Register the gate
-            registerGate(this, gate)
+            this.gateRegistry.register(gate)
         }
 
         // this view is used to open gates from the protocol handler
-        registerGate(
-            this,
+        this.gateRegistry.register(
             normalizeGateOption({
                 id: 'temp-gate',
                 title: 'Temp Gate',
@@ -80,10 +187,41 @@ export default class OpenGatePlugin extends Plugin {
         )
     }
 
+    /**
+     * 볼트 폴더의 게이트 파일 불러오기 (파일을 고치면 열린 게이트에도 바로 반영)
+     */
+    private initGateFiles() {
+        const loader = initializeGateFileLoader({
+            vault: this.app.vault,
+            fileManager: this.app.fileManager,
+            settings: this.settings.gateFiles,
+            host: {
+                getGate: (gateId) => this.settings.gates[gateId],
+                setGate: (gate) => {
+                    this.settings.gates[gate.id] = gate
+                    // 파일에 적은 프로필 키도 프로필로 등록
+                    this.settings.profiles = syncProfilesWithGates(this.settings.profiles, [gate])
+                    updateProfileSettings(this.settings.profiles)
+                    this.gateRegistry.register(gate)
+                },
+                deleteGate: (gateId) => {
+                    this.gateRegistry.unregister(gateId)
+                    delete this.settings.gates[gateId]
+                }
+            }
+        })
+        // 볼트 파일 목록이 준비된 뒤에 읽어야 게이트 파일을 찾을 수 있음
+        this.app.workspace.onLayoutReady(() => loader.load())
+        this.registerEvent(this.app.vault.on('modify', (file) => loader.handleFileChange(file)))
+        this.registerEvent(this.app.vault.on('create', (file) => loader.handleFileChange(file)))
+        this.registerEvent(this.app.vault.on('delete', (file) => loader.handleFileDelete(file)))
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => loader.handleFileRename(file, oldPath)))
+    }
+
     private registerCommands() {
         this.addCommand({
             id: `open-gate-create-new`,
-            name: `Easy Gate: Create new`,
+            name: `Easy Gate: ${t('command.createGate')}`,
             callback: async () => {
                 new ModalEditGate(this.app, createEmptyGateOption(), async (gate: GateFrameOption) => {
                     await this.addGate(gate)
@@ -93,7 +231,7 @@ export default class OpenGatePlugin extends Plugin {
 
         this.addCommand({
             id: `open-list-gates-modal`,
-            name: `Easy Gate: List all`,
+            name: `Easy Gate: ${t('command.listGates')}`,
             hotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'g' }],
             callback: async () => {
                 new ModalListGates(this.app, this.settings.gates, async (gate: GateFrameOption) => {
@@ -101,6 +239,145 @@ export default class OpenGatePlugin extends Plugin {
                 }).open()
             }
         })
+
+        this.addCommand({
+            id: `show-gate-file-diagnostics`,
+            name: `Easy Gate: ${t('command.gateFileDiagnostics')}`,
+            checkCallback: (checking) => {
+                const loader = getGateFileLoader()
+                if (!loader || !this.settings.gateFiles.enabled) return false
+                if (!checking) {
+                    new GateFileDiagnosticsModal({ app: this.app, loader }).open()
+                }
+                return true
+            }
+        })
+
+        this.addCommand({
+            id: `open-bookmarks`,
+            name: `Easy Gate: ${t('command.openBookmarks')}`,
+            callback: () => this.openBookmarksView()
+        })
+
+        this.addCommand({
+            id: `bookmark-current-page`,
+            name: `Easy Gate: ${t('command.bookmarkPage')}`,
+            checkCallback: (checking) => {
+                const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                if (!gateView) return false
+                if (!checking) {
+                    gateView.openBookmarkModal()
+                }
+                return true
+            }
+        })
+
+        this.addCommand({
+            id: `find-in-page`,
+            name: `Easy Gate: ${t('command.findInPage')}`,
+            checkCallback: (checking) => {
+                const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                if (!gateView) return false
+                if (!checking) {
+                    gateView.openFindBar()
+                }
+                return true
+            }
+        })
+
+        this.addCommand({
+            id: `highlight-selection`,
+            name: `Easy Gate: ${t('command.highlightSelection')}`,
+            checkCallback: (checking) => {
+                const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                if (!gateView || !this.settings.highlights.enabled) return false
+                if (!checking) {
+                    gateView.highlightSelection()
+                }
+                return true
+            }
+        })
+
+        this.addCommand({
+            id: `open-highlights-note`,
+            name: `Easy Gate: ${t('command.openHighlightsNote')}`,
+            checkCallback: (checking) => {
+                const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                if (!gateView) return false
+                if (!checking) {
+                    gateView.openHighlightsNote()
+                }
+                return true
+            }
+        })
+
+        this.addCommand({
+            id: `archive-page`,
+            name: `Easy Gate: ${t('command.archivePage')}`,
+            checkCallback: (checking) => {
+                const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                if (!gateView || !Platform.isDesktopApp) return false
+                if (!checking) {
+                    gateView.archivePage()
+                }
+                return true
+            }
+        })
+
+        const screenshotCommands: [string, ScreenshotMode, MessageKey][] = [
+            ['screenshot-viewport', 'viewport', 'command.screenshotViewport'],
+            ['screenshot-region', 'region', 'command.screenshotRegion'],
+            ['screenshot-full-page', 'full', 'command.screenshotFullPage']
+        ]
+        for (const [id, mode, nameKey] of screenshotCommands) {
+            this.addCommand({
+                id,
+                name: `Easy Gate: ${t(nameKey)}`,
+                checkCallback: (checking) => {
+                    const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                    if (!gateView || !Platform.isDesktopApp) return false
+                    if (!checking) {
+                        gateView.captureScreenshot(mode)
+                    }
+                    return true
+                }
+            })
+        }
+
+        this.addCommand({
+            id: `search-history`,
+            name: `Easy Gate: ${t('command.searchHistory')}`,
+            callback: () => {
+                // 게이트에서 실행하면 현재 탭 기준으로 검색
+                const gateView = this.app.workspace.getActiveViewOfType(GateView)
+                if (gateView) {
+                    gateView.openHistorySearch()
+                    return
+                }
+
+                const store = getHistoryStore()
+                if (!store) return
+                new HistorySearchModal({
+                    app: this.app,
+                    store,
+                    getGateTitle: (gateId) => this.settings.gates[gateId]?.title ?? gateId,
+                    onChoose: async (entry) => {
+                        await this.openUrlInGate(this.settings.gates[entry.gateId] ? entry.gateId : 'temp-gate', entry.url)
+                    }
+                }).open()
+            }
+        })
+
+        this.addCommand({
+            id: `clear-history`,
+            name: `Easy Gate: ${t('command.clearHistory')}`,
+            callback: async () => {
+                if (confirm(t('history.clearConfirm'))) {
+                    await getHistoryStore()?.clear()
+                    new Notice(t('history.cleared'))
+                }
+            }
+        })
     }
 
     /**
@@ -128,11 +405,20 @@ export default class OpenGatePlugin extends Plugin {
             )
         }
 
+        // Fall back to the routing rules used for links clicked in notes
+        const route = !targetGate && url ? this.findRouteForUrl(url) : null
+        if (route) {
+            targetGate = { ...route.gate, position: route.position }
+        }
+
         // If no gate is found, create a new empty gate option
         if (!targetGate) {
             targetGate = createEmptyGateOption()
         }
 
+        // Work on a copy so the saved gate keeps its own url and position
+        targetGate = { ...targetGate }
+
         // Update the url and position if needed
         if (url) {
             targetGate.url = url
@@ -145,6 +431,13 @@ export default class OpenGatePlugin extends Plugin {
         return targetGate
     }
 
+    /**
+     * 라우팅 규칙으로 URL을 열 게이트 찾기 (노트 링크 클릭과 obsidian://opengate 공용)
+     */
+    findRouteForUrl(url: string): Route | null {
+        return findRoute(this.settings.routing.rules, this.settings.gates, url)
+    }
+
     findGateBy(field: 'title' | 'url', value: string): GateFrameOption | undefined {
         return Object.values(this.settings.gates).find((gate) => gate[field].toLowerCase() === value.toLowerCase())
     }
@@ -153,44 +446,61 @@ export default class OpenGatePlugin extends Plugin {
         let targetGate = this.getGateOptionFromProtocolData(data)
         if (targetGate === undefined) {
             if (!data.url) {
-                new Notice('Missing url parameter')
+                new Notice(t('command.missingUrl'))
                 return
             }
         }
 
-        const gate = await openView(this.app.workspace, targetGate?.id || 'temp-gate', targetGate?.position)
+        await this.openUrlInGate(targetGate?.id || 'temp-gate', data.url, targetGate?.position)
+    }
+
+    /**
+     * 게이트를 열고 (이미 열려 있으면 표시) 주어진 URL로 이동
+     */
+    async openUrlInGate(gateId: string, url: string, position?: GateFrameOptionType) {
+        const gate = await openView(this.app.workspace, gateId, position)
         const gateView = gate.view as GateView
         gateView?.onFrameReady(() => {
-            gateView.setUrl(data.url)
+            gateView.setUrl(url)
         })
     }
 
     async addGate(gate: GateFrameOption) {
         const normalizedGate = normalizeGateOption(gate)
 
-        if (!this.settings.gates.hasOwnProperty(normalizedGate.id)) {
-            registerGate(this, normalizedGate)
-        } else {
-            new Notice('This change will take effect after you reload Obsidian.')
+        // 파일로 정의한 게이트는 파일에 저장 (가져온 묶음으로 덮어써도 파일 연결 유지)
+        const sourcePath = normalizedGate.sourcePath ?? this.settings.gates[normalizedGate.id]?.sourcePath
+        if (sourcePath) {
+            normalizedGate.sourcePath = sourcePath
+            try {
+                await getGateFileLoader()?.writeGate(normalizedGate)
+            } catch (error) {
+                showError(t('gateFiles.writeFailed', { error: error instanceof Error ? error.message : String(error) }))
+            }
         }
 
         this.settings.gates[normalizedGate.id] = normalizedGate
-
         await this.saveSettings()
+
+        // Registers new gates and pushes edits to the open leaves of existing ones
+        this.gateRegistry.register(normalizedGate)
     }
 
     async removeGate(gateId: string) {
         if (!this.settings.gates[gateId]) {
-            new Notice('Gate not found')
+            new Notice(t('command.gateNotFound'))
             return // Early exit if gate doesn't exist
         }
 
-        const gate = this.settings.gates[gateId]
+        // 파일로 정의한 게이트는 파일을 휴지통으로 옮기면 삭제 이벤트로 해제됨
+        if (this.settings.gates[gateId].sourcePath) {
+            await getGateFileLoader()?.trashGate(this.settings.gates[gateId])
+            return
+        }
 
-        await unloadView(this.app.workspace, gate)
+        this.gateRegistry.unregister(gateId)
         delete this.settings.gates[gateId]
         await this.saveSettings()
-        new Notice('This change will take effect after you reload Obsidian.')
     }
 
     async loadSettings() {
@@ -202,6 +512,9 @@ export default class OpenGatePlugin extends Plugin {
             ...loadedData
         }
 
+        // UI 언어 적용 (이후 초기화 과정의 메시지도 선택한 언어로 표시)
+        setLocale(this.settings.uiLanguage)
+
         // gates 초기화
         if (!this.settings.gates) {
             this.settings.gates = {}
@@ -213,6 +526,11 @@ export default class OpenGatePlugin extends Plugin {
             ...(loadedData?.ai || {})
         }
 
+        // AI 응답 언어를 저장한 적이 없으면 Obsidian 표시 언어를 기본값으로 사용
+        if (!loadedData?.ai?.defaultLanguage) {
+            this.settings.ai.defaultLanguage = getDefaultAILanguage()
+        }
+
         // AI 모델 설정 병합
         this.settings.ai.models = {
             ...DEFAULT_AI_SETTINGS.models,
@@ -230,6 +548,61 @@ export default class OpenGatePlugin extends Plugin {
             ...(loadedData?.clipping || {})
         }
 
+        // 사이트별 추출 규칙 초기화 (기본값 배열을 공유하지 않도록 새 배열 사용)
+        this.settings.clipping.siteRules = Array.isArray(loadedData?.clipping?.siteRules) ? loadedData.clipping.siteRules : []
+
+        // 사용자 분석 템플릿 초기화 (기본값 배열을 공유하지 않도록 새 배열 사용)
+        this.settings.ai.templates = Array.isArray(loadedData?.ai?.templates) ? loadedData.ai.templates : []
+
+        // 방문 기록 설정 병합
+        this.settings.history = {
+            ...DEFAULT_HISTORY_SETTINGS,
+            ...(loadedData?.history || {})
+        }
+
+        // 북마크 설정 병합
+        this.settings.bookmarks = {
+            ...DEFAULT_BOOKMARK_SETTINGS,
+            ...(loadedData?.bookmarks || {})
+        }
+
+        // 주소창 설정 병합 (기본 검색 엔진 배열을 공유하지 않도록 복사본 사용)
+        this.settings.omnibox = {
+            ...DEFAULT_OMNIBOX_SETTINGS,
+            ...(loadedData?.omnibox || {})
+        }
+        this.settings.omnibox.engines = Array.isArray(loadedData?.omnibox?.engines)
+            ? loadedData.omnibox.engines
+            : DEFAULT_SEARCH_ENGINES.map((engine) => ({ ...engine }))
+
+        // 하이라이트 설정 병합
+        this.settings.highlights = {
+            ...DEFAULT_HIGHLIGHT_SETTINGS,
+            ...(loadedData?.highlights || {})
+        }
+
+        // 콘텐츠 차단 설정 병합
+        this.settings.contentBlocker = {
+            ...DEFAULT_CONTENT_BLOCKER_SETTINGS,
+            ...(loadedData?.contentBlocker || {})
+        }
+        this.settings.contentBlocker.filterLists = Array.isArray(loadedData?.contentBlocker?.filterLists)
+            ? loadedData.contentBlocker.filterLists
+            : [...DEFAULT_CONTENT_BLOCKER_SETTINGS.filterLists]
+
+        // 링크 라우팅 설정 병합 (기본 규칙 배열을 공유하지 않도록 새 배열 사용)
+        this.settings.routing = {
+            ...DEFAULT_ROUTING_SETTINGS,
+            ...(loadedData?.routing || {})
+        }
+        this.settings.routing.rules = Array.isArray(loadedData?.routing?.rules) ? loadedData.routing.rules : []
+
+        // 게이트 파일 설정 병합
+        this.settings.gateFiles = {
+            ...DEFAULT_GATE_FILE_SETTINGS,
+            ...(loadedData?.gateFiles || {})
+        }
+
         // 저장된 프롬프트 초기화 (v2.0)
         if (!this.settings.savedPrompts) {
             this.settings.savedPrompts = []
@@ -240,14 +613,40 @@ export default class OpenGatePlugin extends Plugin {
             this.settings.gates[gateId] = normalizeGateOption(this.settings.gates[gateId])
         }
 
+        // 프로필 목록 초기화 (게이트에 직접 입력했던 프로필 키도 프로필로 등록)
+        this.settings.profiles = syncProfilesWithGates(Array.isArray(loadedData?.profiles) ? loadedData.profiles : [], Object.values(this.settings.gates))
+        initializeProfileManager({ profiles: this.settings.profiles })
+
         // AI 서비스 초기화
         initializeAIService(this.settings.ai)
+        updateSiteRules(this.settings.clipping.siteRules)
+        updateTemplates(this.settings.ai.templates)
     }
 
     async saveSettings() {
-        await this.saveData(this.settings)
+        // 파일로 정의한 게이트는 파일이 원본이므로 설정에 저장하지 않음
+        await this.saveData({ ...this.settings, gates: this.getSettingsGates() })
+        setLocale(this.settings.uiLanguage)
         // AI 서비스 설정 업데이트
         updateAIServiceSettings(this.settings.ai)
+        updateSiteRules(this.settings.clipping.siteRules)
+        updateTemplates(this.settings.ai.templates)
+        updateHistorySettings(this.settings.history)
+        updateBookmarkSettings(this.settings.bookmarks)
+        updateHighlightSettings(this.settings.highlights)
+        updateContentBlockerSettings(this.settings.contentBlocker)
+        updateProfileSettings(this.settings.profiles)
+        updateGateFileSettings(this.settings.gateFiles)
+    }
+
+    private getSettingsGates(): Record<string, GateFrameOption> {
+        const gates: Record<string, GateFrameOption> = {}
+        for (const gateId in this.settings.gates) {
+            if (!this.settings.gates[gateId].sourcePath) {
+                gates[gateId] = this.settings.gates[gateId]
+            }
+        }
+        return gates
     }
 
     private generateUuid() {
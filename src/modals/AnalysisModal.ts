@@ -10,9 +10,13 @@
  */
 
 import { App, Modal, Setting, Notice, DropdownComponent, TextAreaComponent } from 'obsidian'
-import { AISettings, AIProviderType, AI_PROVIDERS, SavedPrompt, ClipData } from '../ai/types'
+import { AISettings, AIProviderType, AI_PROVIDERS, SavedPrompt, ClipData, AnalysisTemplate, TemplateOutputFormat } from '../ai/types'
 import { getAIService } from '../ai/AIService'
+import { getTemplates, getTemplate } from '../ai/TemplateRegistry'
+import { estimateTokens } from '../ai/TokenChunker'
+import { MapReduceSummarizer } from '../ai/MapReduceSummarizer'
 import { showSuccess, showError, showWarning } from '../ui/ToastNotification'
+import { t } from '../i18n'
 
 export interface AnalysisModalOptions {
     app: App
@@ -29,119 +33,28 @@ export interface AnalysisConfig {
     templateId: string | null
     customPrompt: string | null
     provider: AIProviderType
+    model?: string // 템플릿 기본 모델 (없으면 Provider 설정 모델)
+    temperature?: number // 템플릿 기본 temperature
     includeMetadata: boolean
-    outputFormat: 'markdown' | 'summary' | 'bullets' | 'qa'
+    outputFormat: TemplateOutputFormat
     language: string
 }
 
 /**
- * 분석 템플릿 정의
+ * 템플릿의 기본 Provider/모델/temperature를 분석 설정에 적용
+ * 템플릿의 Provider가 설정되지 않은 경우에는 선택한 Provider를 유지합니다.
  */
-const ANALYSIS_TEMPLATES = [
-    {
-        id: 'basic-summary',
-        name: '📋 기본 요약',
-        description: '페이지 내용을 간결하게 요약합니다.',
-        icon: 'file-text',
-        prompt: `다음 웹 페이지 내용을 한국어로 요약해주세요:
-
-## 요약 요구사항
-- 핵심 내용을 3-5개의 주요 포인트로 정리
-- 중요한 정보와 결론을 강조
-- 전문 용어는 간단히 설명 추가
-
-## 원본 내용
-{content}`
-    },
-    {
-        id: 'study-note',
-        name: '📚 학습 노트',
-        description: '학습에 최적화된 형태로 정리합니다.',
-        icon: 'book',
-        prompt: `다음 내용을 학습 노트 형태로 정리해주세요:
-
-## 정리 형식
-1. **핵심 개념**: 주요 개념과 정의
-2. **중요 포인트**: 기억해야 할 핵심 사항
-3. **예시/사례**: 이해를 돕는 구체적 예시
-4. **질문 & 답변**: 자주 묻는 질문 형태로 정리
-5. **복습 키워드**: 복습용 키워드 목록
-
-## 원본 내용
-{content}`
-    },
-    {
-        id: 'analysis-report',
-        name: '📊 분석 리포트',
-        description: '심층 분석 리포트를 생성합니다.',
-        icon: 'bar-chart',
-        prompt: `다음 내용을 분석 리포트 형태로 작성해주세요:
-
-## 리포트 구조
-1. **개요**: 문서의 핵심 주제와 목적
-2. **주요 발견사항**: 중요한 정보와 데이터
-3. **분석**: 내용에 대한 심층 분석
-4. **시사점**: 도출할 수 있는 인사이트
-5. **결론 및 제안**: 최종 결론과 활용 방안
-
-## 원본 내용
-{content}`
-    },
-    {
-        id: 'idea-note',
-        name: '💡 아이디어 노트',
-        description: '아이디어 발굴 및 확장에 초점을 맞춥니다.',
-        icon: 'lightbulb',
-        prompt: `다음 내용에서 아이디어를 발굴하고 확장해주세요:
-
-## 아이디어 정리
-1. **핵심 아이디어**: 문서의 중심 아이디어
-2. **관련 아이디어**: 연관된 추가 아이디어
-3. **적용 방안**: 실제 적용할 수 있는 방법
-4. **발전 가능성**: 더 발전시킬 수 있는 방향
-5. **연결점**: 다른 분야와의 연결 가능성
-
-## 원본 내용
-{content}`
-    },
-    {
-        id: 'action-items',
-        name: '✅ 액션 아이템',
-        description: '실행 가능한 태스크 목록을 추출합니다.',
-        icon: 'check-square',
-        prompt: `다음 내용에서 실행 가능한 액션 아이템을 추출해주세요:
-
-## 액션 아이템 형식
-- [ ] 즉시 실행 가능한 태스크
-- [ ] 단기 목표 (1주일 내)
-- [ ] 중기 목표 (1개월 내)
-- [ ] 장기 목표
-
-각 항목에 우선순위와 예상 소요시간을 추가해주세요.
-
-## 원본 내용
-{content}`
-    },
-    {
-        id: 'qa-format',
-        name: '❓ Q&A 형식',
-        description: '질문과 답변 형태로 재구성합니다.',
-        icon: 'help-circle',
-        prompt: `다음 내용을 Q&A 형식으로 재구성해주세요:
-
-## Q&A 형식
-Q1: [핵심 질문]
-A1: [상세한 답변]
-
-Q2: ...
-
-최소 5개의 Q&A 쌍을 생성하고,
-내용의 핵심을 파악할 수 있는 질문을 만들어주세요.
-
-## 원본 내용
-{content}`
+export function applyTemplateDefaults(config: AnalysisConfig, template: AnalysisTemplate | undefined): AnalysisConfig {
+    if (!template) return config
+
+    const providerReady = !!template.provider && (getAIService()?.isProviderConfigured(template.provider) ?? false)
+    return {
+        ...config,
+        provider: providerReady ? template.provider! : config.provider,
+        model: providerReady ? template.model || undefined : config.model,
+        temperature: template.temperature ?? config.temperature
     }
-]
+}
 
 /**
  * AnalysisModal 클래스
@@ -154,17 +67,20 @@ export class AnalysisModal extends Modal {
     private onSavePrompt?: (prompt: SavedPrompt) => void
 
     // UI State
-    private selectedTemplateId: string | null = 'basic-summary'
+    private selectedTemplateId: string | null = null
     private customPrompt: string = ''
     private selectedProvider: AIProviderType
     private includeMetadata: boolean = true
-    private outputFormat: 'markdown' | 'summary' | 'bullets' | 'qa' = 'markdown'
+    private outputFormat: TemplateOutputFormat = 'markdown'
     private editableContent: string = '' // 편집 가능한 콘텐츠
 
     // UI Elements
     private promptTextArea: TextAreaComponent | null = null
     private templateContainer: HTMLElement | null = null
     private contentTextArea: TextAreaComponent | null = null // 편집 가능한 콘텐츠 영역
+    private providerDropdown: DropdownComponent | null = null
+    private outputFormatDropdown: DropdownComponent | null = null
+    private templates: AnalysisTemplate[] = []
 
     constructor(options: AnalysisModalOptions) {
         super(options.app)
@@ -178,9 +94,13 @@ export class AnalysisModal extends Modal {
         // 초기 텍스트 설정 (선택된 텍스트 > clipData.content)
         this.editableContent = options.initialText || options.clipData.content || ''
 
-        // 초기 템플릿 설정
-        if (options.initialTemplateId) {
-            this.selectedTemplateId = options.initialTemplateId
+        // 초기 템플릿 설정 (지정한 템플릿 > 기본 템플릿 설정)
+        this.templates = getTemplates()
+        const initialTemplate = getTemplate(options.initialTemplateId) ?? getTemplate(options.settings.defaultTemplate)
+        if (initialTemplate) {
+            this.selectedTemplateId = initialTemplate.id
+            this.outputFormat = initialTemplate.outputFormat
+            this.selectedProvider = applyTemplateDefaults(this.buildConfig(), initialTemplate).provider
         }
     }
 
@@ -213,7 +133,7 @@ export class AnalysisModal extends Modal {
         const { contentEl } = this
 
         const header = contentEl.createDiv({ cls: 'analysis-modal-header' })
-        header.createEl('h2', { text: '🔍 페이지 분석' })
+        header.createEl('h2', { text: t('analysisModal.title') })
 
         // 페이지 정보
         const pageInfo = header.createDiv({ cls: 'page-info' })
@@ -244,11 +164,11 @@ export class AnalysisModal extends Modal {
             align-items: center;
             margin-bottom: 8px;
         `
-        headerRow.createEl('h3', { text: '✏️ 분석할 텍스트' })
+        headerRow.createEl('h3', { text: t('analysisModal.textHeading') })
 
         // 붙여넣기 버튼
         const pasteBtn = headerRow.createEl('button', {
-            text: '📋 클립보드에서 붙여넣기',
+            text: t('analysisModal.paste'),
             cls: 'paste-btn'
         })
         pasteBtn.style.cssText = `
@@ -267,10 +187,10 @@ export class AnalysisModal extends Modal {
                     this.editableContent = text
                     this.contentTextArea.setValue(text)
                     this.updateContentStats()
-                    showSuccess('클립보드에서 텍스트를 붙여넣었습니다.')
+                    showSuccess(t('analysisModal.pasted'))
                 }
             } catch (err) {
-                showWarning('클립보드에서 텍스트를 가져올 수 없습니다.')
+                showWarning(t('analysisModal.pasteFailed'))
             }
         }
 
@@ -281,7 +201,7 @@ export class AnalysisModal extends Modal {
             color: var(--text-muted);
             margin-bottom: 10px;
         `
-        guide.textContent = '분석할 텍스트를 직접 입력하거나, 선택한 텍스트를 편집할 수 있습니다.'
+        guide.textContent = t('analysisModal.guide')
 
         // 편집 가능한 텍스트 영역
         const textAreaContainer = previewSection.createDiv({ cls: 'content-textarea-container' })
@@ -289,7 +209,7 @@ export class AnalysisModal extends Modal {
             .setClass('content-textarea-setting')
             .addTextArea(text => {
                 this.contentTextArea = text
-                text.setPlaceholder('분석할 텍스트를 여기에 입력하거나 붙여넣으세요...\n\n💡 팁: 웹페이지에서 텍스트를 드래그하여 선택한 후 이 모달을 열면 자동으로 표시됩니다.')
+                text.setPlaceholder(t('analysisModal.placeholder'))
                 text.setValue(this.editableContent)
                 text.inputEl.style.cssText = `
                     width: 100%;
@@ -333,17 +253,24 @@ export class AnalysisModal extends Modal {
         const content = this.editableContent
         const contentLength = content.length
         const wordCount = content.split(/\s+/).filter(w => w).length
-        const tokenEstimate = Math.ceil(contentLength / 4)
+        const tokenEstimate = estimateTokens(content)
 
         this.statsContainer.empty()
-        this.statsContainer.createSpan({ text: `📊 ${contentLength.toLocaleString()} 자` })
-        this.statsContainer.createSpan({ text: `📝 ${wordCount.toLocaleString()} 단어` })
-        this.statsContainer.createSpan({ text: `🎫 ~${tokenEstimate.toLocaleString()} 토큰` })
+        this.statsContainer.createSpan({ text: t('analysisModal.chars', { count: contentLength.toLocaleString() }) })
+        this.statsContainer.createSpan({ text: t('analysisModal.words', { count: wordCount.toLocaleString() }) })
+        this.statsContainer.createSpan({ text: t('analysisModal.tokens', { count: tokenEstimate.toLocaleString() }) })
+
+        // 선택한 모델의 컨텍스트 예산을 넘으면 나누어 처리됨을 안내
+        const model = getAIService()?.getModelForProvider(this.selectedProvider)
+        const chunkCount = MapReduceSummarizer.countChunks(content, this.selectedProvider, model, 4000)
+        if (chunkCount > 1) {
+            this.statsContainer.createSpan({ text: t('analysisModal.chunks', { count: chunkCount }) })
+        }
 
         // 내용이 없을 때 경고 표시
         if (contentLength === 0) {
             this.statsContainer.createSpan({
-                text: '⚠️ 분석할 텍스트를 입력하세요',
+                text: t('analysisModal.emptyWarning'),
                 cls: 'stats-warning'
             })
         }
@@ -356,7 +283,7 @@ export class AnalysisModal extends Modal {
         const { contentEl } = this
 
         const templateSection = contentEl.createDiv({ cls: 'analysis-section template-section' })
-        templateSection.createEl('h3', { text: '📋 분석 템플릿' })
+        templateSection.createEl('h3', { text: t('analysisModal.templates') })
 
         this.templateContainer = templateSection.createDiv({ cls: 'template-grid' })
         this.templateContainer.style.cssText = `
@@ -366,8 +293,8 @@ export class AnalysisModal extends Modal {
             margin-top: 12px;
         `
 
-        // 기본 템플릿
-        ANALYSIS_TEMPLATES.forEach(template => {
+        // 기본 템플릿 + 사용자 템플릿
+        this.templates.forEach(template => {
             this.createTemplateCard(template)
         })
 
@@ -375,7 +302,7 @@ export class AnalysisModal extends Modal {
         if (this.savedPrompts.length > 0) {
             const customSection = templateSection.createDiv({ cls: 'saved-prompts-section' })
             customSection.style.marginTop = '16px'
-            customSection.createEl('h4', { text: '💾 저장된 프롬프트', cls: 'saved-prompts-title' })
+            customSection.createEl('h4', { text: t('analysisModal.savedPrompts'), cls: 'saved-prompts-title' })
 
             const savedGrid = customSection.createDiv({ cls: 'saved-prompts-grid' })
             savedGrid.style.cssText = `
@@ -414,7 +341,7 @@ export class AnalysisModal extends Modal {
     /**
      * 템플릿 카드 생성
      */
-    private createTemplateCard(template: typeof ANALYSIS_TEMPLATES[0]): void {
+    private createTemplateCard(template: AnalysisTemplate): void {
         if (!this.templateContainer) return
 
         const card = this.templateContainer.createDiv({ cls: 'template-card' })
@@ -446,6 +373,7 @@ export class AnalysisModal extends Modal {
             if (this.promptTextArea) {
                 this.promptTextArea.setValue('')
             }
+            this.applyTemplateOptions(template)
             this.updateTemplateSelection()
         }
 
@@ -461,6 +389,21 @@ export class AnalysisModal extends Modal {
         }
     }
 
+    /**
+     * 선택한 템플릿의 출력 형식과 기본 Provider를 옵션에 반영
+     */
+    private applyTemplateOptions(template: AnalysisTemplate): void {
+        this.outputFormat = template.outputFormat
+        this.outputFormatDropdown?.setValue(this.outputFormat)
+
+        const provider = applyTemplateDefaults(this.buildConfig(), template).provider
+        if (provider !== this.selectedProvider) {
+            this.selectedProvider = provider
+            this.providerDropdown?.setValue(provider)
+            this.updateContentStats()
+        }
+    }
+
     /**
      * 템플릿 선택 상태 업데이트
      */
@@ -470,7 +413,7 @@ export class AnalysisModal extends Modal {
         const cards = this.templateContainer.querySelectorAll('.template-card')
         cards.forEach((card, index) => {
             const htmlCard = card as HTMLElement
-            const template = ANALYSIS_TEMPLATES[index]
+            const template = this.templates[index]
             if (template && this.selectedTemplateId === template.id) {
                 htmlCard.style.borderColor = 'var(--interactive-accent)'
                 htmlCard.style.background = 'var(--background-secondary)'
@@ -488,17 +431,17 @@ export class AnalysisModal extends Modal {
         const { contentEl } = this
 
         const promptSection = contentEl.createDiv({ cls: 'analysis-section prompt-section' })
-        promptSection.createEl('h3', { text: '✏️ 커스텀 프롬프트 (선택사항)' })
+        promptSection.createEl('h3', { text: t('analysisModal.customPrompt') })
 
         const promptDesc = promptSection.createEl('p', { cls: 'prompt-description' })
         promptDesc.style.cssText = `font-size: 12px; color: var(--text-muted); margin-bottom: 8px;`
-        promptDesc.textContent = '템플릿 대신 직접 프롬프트를 입력하거나, 추가 지시사항을 작성할 수 있습니다.'
+        promptDesc.textContent = t('analysisModal.customPromptDesc')
 
         new Setting(promptSection)
             .setClass('custom-prompt-setting')
             .addTextArea(text => {
                 this.promptTextArea = text
-                text.setPlaceholder('예: "위 내용을 초등학생도 이해할 수 있게 쉽게 설명해주세요..."')
+                text.setPlaceholder(t('analysisModal.customPromptPlaceholder'))
                 text.setValue(this.customPrompt)
                 text.inputEl.style.cssText = `
                     width: 100%;
@@ -517,7 +460,7 @@ export class AnalysisModal extends Modal {
         // 프롬프트 저장 버튼
         if (this.onSavePrompt) {
             const savePromptBtn = promptSection.createEl('button', {
-                text: '💾 이 프롬프트 저장',
+                text: t('analysisModal.savePrompt'),
                 cls: 'save-prompt-btn'
             })
             savePromptBtn.style.cssText = `
@@ -540,12 +483,12 @@ export class AnalysisModal extends Modal {
         const { contentEl } = this
 
         const optionsSection = contentEl.createDiv({ cls: 'analysis-section options-section' })
-        optionsSection.createEl('h3', { text: '⚙️ 분석 옵션' })
+        optionsSection.createEl('h3', { text: t('analysisModal.options') })
 
         // AI Provider 선택
         new Setting(optionsSection)
             .setName('AI Provider')
-            .setDesc('분석에 사용할 AI 서비스를 선택합니다.')
+            .setDesc(t('analysisModal.providerDesc'))
             .addDropdown(dropdown => {
                 const aiService = getAIService()
 
@@ -557,21 +500,24 @@ export class AnalysisModal extends Modal {
                     )
                 })
 
+                this.providerDropdown = dropdown
                 dropdown.setValue(this.selectedProvider)
                 dropdown.onChange(value => {
                     this.selectedProvider = value as AIProviderType
+                    this.updateContentStats()
                 })
             })
 
         // 출력 형식
         new Setting(optionsSection)
-            .setName('출력 형식')
-            .setDesc('분석 결과의 형식을 선택합니다.')
+            .setName(t('templateModal.outputFormat'))
+            .setDesc(t('analysisModal.outputFormatDesc'))
             .addDropdown(dropdown => {
-                dropdown.addOption('markdown', '📄 마크다운')
-                dropdown.addOption('summary', '📋 요약 (짧은 형태)')
-                dropdown.addOption('bullets', '• 글머리 기호')
-                dropdown.addOption('qa', '❓ Q&A 형식')
+                dropdown.addOption('markdown', t('templateModal.format.markdown'))
+                dropdown.addOption('summary', t('templateModal.format.summary'))
+                dropdown.addOption('bullets', t('templateModal.format.bullets'))
+                dropdown.addOption('qa', t('templateModal.format.qa'))
+                this.outputFormatDropdown = dropdown
                 dropdown.setValue(this.outputFormat)
                 dropdown.onChange(value => {
                     this.outputFormat = value as typeof this.outputFormat
@@ -580,8 +526,8 @@ export class AnalysisModal extends Modal {
 
         // 메타데이터 포함
         new Setting(optionsSection)
-            .setName('메타데이터 포함')
-            .setDesc('URL, 작성자, 날짜 등의 메타데이터를 노트에 포함합니다.')
+            .setName(t('analysisModal.includeMetadata'))
+            .setDesc(t('analysisModal.includeMetadataDesc'))
             .addToggle(toggle => {
                 toggle.setValue(this.includeMetadata)
                 toggle.onChange(value => {
@@ -608,7 +554,7 @@ export class AnalysisModal extends Modal {
 
         // 취소 버튼
         const cancelBtn = actionsSection.createEl('button', {
-            text: '취소',
+            text: t('common.cancel'),
             cls: 'mod-cancel'
         })
         cancelBtn.style.cssText = `
@@ -622,7 +568,7 @@ export class AnalysisModal extends Modal {
 
         // 분석 시작 버튼
         const analyzeBtn = actionsSection.createEl('button', {
-            text: '🚀 분석 시작',
+            text: t('analysisModal.start'),
             cls: 'mod-cta'
         })
         analyzeBtn.style.cssText = `
@@ -643,23 +589,40 @@ export class AnalysisModal extends Modal {
     private async startAnalysis(): Promise<void> {
         // 콘텐츠 유효성 검사
         if (!this.editableContent.trim()) {
-            showWarning('분석할 텍스트를 입력해주세요.')
+            showWarning(t('analysisModal.textRequired'))
             return
         }
 
         // 템플릿/프롬프트 유효성 검사
         if (!this.selectedTemplateId && !this.customPrompt.trim()) {
-            showWarning('템플릿을 선택하거나 커스텀 프롬프트를 입력해주세요.')
+            showWarning(t('analysisModal.templateRequired'))
             return
         }
 
         const aiService = getAIService()
         if (!aiService?.isProviderConfigured(this.selectedProvider)) {
-            showWarning(`${AI_PROVIDERS[this.selectedProvider].displayName} API 키가 설정되지 않았습니다.`)
+            showWarning(t('analysisModal.apiKeyMissing', { provider: AI_PROVIDERS[this.selectedProvider].displayName }))
             return
         }
 
-        const config: AnalysisConfig = {
+        const config = this.buildConfig()
+        const template = getTemplate(this.selectedTemplateId)
+        // 사용자가 템플릿 기본 Provider를 바꾼 경우에는 템플릿 모델을 쓰지 않음
+        if (template?.provider === this.selectedProvider) {
+            config.model = template.model || undefined
+        }
+        config.temperature = template?.temperature
+
+        this.close()
+        // 편집된 콘텐츠를 함께 전달
+        await this.onAnalyze(config, this.editableContent.trim())
+    }
+
+    /**
+     * 현재 선택 상태로 분석 설정 생성
+     */
+    private buildConfig(): AnalysisConfig {
+        return {
             templateId: this.selectedTemplateId,
             customPrompt: this.customPrompt.trim() || null,
             provider: this.selectedProvider,
@@ -667,10 +630,6 @@ export class AnalysisModal extends Modal {
             outputFormat: this.outputFormat,
             language: this.settings.defaultLanguage || 'ko'
         }
-
-        this.close()
-        // 편집된 콘텐츠를 함께 전달
-        await this.onAnalyze(config, this.editableContent.trim())
     }
 
     /**
@@ -678,11 +637,11 @@ export class AnalysisModal extends Modal {
      */
     private saveCurrentPrompt(): void {
         if (!this.customPrompt.trim()) {
-            showWarning('저장할 프롬프트를 입력해주세요.')
+            showWarning(t('analysisModal.promptRequired'))
             return
         }
 
-        const promptName = prompt('프롬프트 이름을 입력하세요:')
+        const promptName = prompt(t('analysisModal.promptNamePrompt'))
         if (!promptName) return
 
         const newPrompt: SavedPrompt = {
@@ -693,7 +652,7 @@ export class AnalysisModal extends Modal {
 
         if (this.onSavePrompt) {
             this.onSavePrompt(newPrompt)
-            showSuccess(`"${promptName}" 프롬프트가 저장되었습니다.`)
+            showSuccess(t('analysisModal.promptSaved', { name: promptName }))
         }
     }
 
@@ -704,19 +663,4 @@ export class AnalysisModal extends Modal {
         if (url.length <= maxLength) return url
         return url.substring(0, maxLength - 3) + '...'
     }
-
-    /**
-     * 템플릿 프롬프트 가져오기
-     */
-    static getTemplatePrompt(templateId: string): string | null {
-        const template = ANALYSIS_TEMPLATES.find(t => t.id === templateId)
-        return template?.prompt || null
-    }
-
-    /**
-     * 템플릿 목록 가져오기
-     */
-    static getTemplates(): typeof ANALYSIS_TEMPLATES {
-        return ANALYSIS_TEMPLATES
-    }
-}
+}
\ No newline at end of file
@@ -0,0 +1,133 @@
+/**
+ * BookmarkModal - 북마크 추가/편집 모달
+ *
+ * 제목, 주소, 폴더, 태그와 읽음 상태를 편집합니다.
+ * 기존 북마크를 편집할 때는 삭제 버튼도 표시합니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { BookmarkData } from '../bookmarks/types'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface BookmarkModalOptions {
+    app: App
+    bookmark: Omit<BookmarkData, 'addedAt'>
+    isNew: boolean
+    folders: string[] // 폴더 입력 자동 완성 후보
+    onSubmit: (bookmark: Omit<BookmarkData, 'addedAt'>) => void | Promise<void>
+    onDelete?: () => void | Promise<void>
+}
+
+export class BookmarkModal extends Modal {
+    private options: BookmarkModalOptions
+    private bookmark: Omit<BookmarkData, 'addedAt'>
+
+    constructor(options: BookmarkModalOptions) {
+        super(options.app)
+        this.options = options
+        // 저장 전까지 원본을 건드리지 않도록 복사본 편집
+        this.bookmark = { ...options.bookmark, tags: [...options.bookmark.tags] }
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: this.options.isNew ? t('bookmark.addTitle') : t('bookmark.editTitle') })
+
+        new Setting(contentEl).setName(t('bookmark.name')).addText((text) =>
+            text.setValue(this.bookmark.title).onChange((value) => {
+                this.bookmark.title = value.trim()
+            })
+        )
+
+        new Setting(contentEl).setName(t('bookmark.url')).addText((text) =>
+            text
+                .setPlaceholder('https://...')
+                .setValue(this.bookmark.url)
+                .onChange((value) => {
+                    this.bookmark.url = value.trim()
+                })
+        )
+
+        new Setting(contentEl)
+            .setName(t('bookmark.folder'))
+            .setDesc(t('bookmark.folderDesc'))
+            .addText((text) => {
+                const listId = 'easy-gate-bookmark-folders'
+                const datalist = contentEl.createEl('datalist', { attr: { id: listId } })
+                this.options.folders.forEach((folder) => datalist.createEl('option', { attr: { value: folder } }))
+                text.inputEl.setAttr('list', listId)
+                text.setValue(this.bookmark.folder).onChange((value) => {
+                    this.bookmark.folder = value.trim()
+                })
+            })
+
+        new Setting(contentEl)
+            .setName(t('bookmark.tags'))
+            .setDesc(t('bookmark.tagsDesc'))
+            .addText((text) =>
+                text
+                    .setPlaceholder('reading, research')
+                    .setValue(this.bookmark.tags.join(', '))
+                    .onChange((value) => {
+                        this.bookmark.tags = this.parseTags(value)
+                    })
+            )
+
+        new Setting(contentEl).setName(t('bookmark.read')).addToggle((toggle) =>
+            toggle.setValue(this.bookmark.read).onChange((value) => {
+                this.bookmark.read = value
+            })
+        )
+
+        const buttons = new Setting(contentEl)
+        if (this.options.onDelete) {
+            const onDelete = this.options.onDelete
+            buttons.addButton((btn) =>
+                btn
+                    .setButtonText(t('common.delete'))
+                    .setWarning()
+                    .onClick(async () => {
+                        await onDelete()
+                        this.close()
+                    })
+            )
+        }
+        buttons
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        if (!this.bookmark.url) {
+                            showError(t('bookmark.urlRequired'))
+                            return
+                        }
+                        await this.options.onSubmit({ ...this.bookmark, title: this.bookmark.title || this.bookmark.url })
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+
+    // 쉼표나 공백으로 구분, 앞의 #은 제거
+    private parseTags(value: string): string[] {
+        return [
+            ...new Set(
+                value
+                    .split(/[,\s]+/)
+                    .map((tag) => tag.replace(/^#+/, '').trim())
+                    .filter((tag) => tag)
+            )
+        ]
+    }
+}
@@ -0,0 +1,138 @@
+/**
+ * ExportBundleModal - 게이트 묶음 내보내기 모달
+ *
+ * 내보낼 게이트와 함께 넣을 사이트 추출 규칙/분석 템플릿을 고른 뒤,
+ * 클립보드로 복사하거나 볼트에 JSON 파일로 저장합니다.
+ */
+
+import { App, Modal, moment, normalizePath, Setting } from 'obsidian'
+import { createGateBundle, GateBundleSource, serializeGateBundle } from '../bundle'
+import { showError, showSuccess } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface ExportBundleModalOptions {
+    app: App
+    source: GateBundleSource
+    folder: string // 볼트에 저장할 폴더
+}
+
+export class ExportBundleModal extends Modal {
+    private source: GateBundleSource
+    private folder: string
+    private selected: Set<string>
+    private includeSiteRules: boolean
+    private includeTemplates: boolean
+
+    constructor(options: ExportBundleModalOptions) {
+        super(options.app)
+        this.source = options.source
+        this.folder = options.folder
+        this.selected = new Set(Object.keys(options.source.gates))
+        this.includeSiteRules = options.source.siteRules.length > 0
+        this.includeTemplates = options.source.templates.length > 0
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('bundleExport.title') })
+        contentEl.createEl('p', { text: t('bundleExport.desc'), cls: 'setting-item-description' })
+
+        contentEl.createEl('h4', { text: t('bundleExport.gates') })
+        for (const gate of Object.values(this.source.gates)) {
+            new Setting(contentEl)
+                .setName(gate.title)
+                .setDesc(gate.url)
+                .addToggle((toggle) =>
+                    toggle.setValue(this.selected.has(gate.id)).onChange((value) => {
+                        if (value) {
+                            this.selected.add(gate.id)
+                        } else {
+                            this.selected.delete(gate.id)
+                        }
+                    })
+                )
+        }
+
+        contentEl.createEl('h4', { text: t('bundleExport.include') })
+        new Setting(contentEl).setName(t('bundleExport.siteRules', { count: this.source.siteRules.length })).addToggle((toggle) =>
+            toggle
+                .setValue(this.includeSiteRules)
+                .setDisabled(this.source.siteRules.length === 0)
+                .onChange((value) => {
+                    this.includeSiteRules = value
+                })
+        )
+        new Setting(contentEl).setName(t('bundleExport.templates', { count: this.source.templates.length })).addToggle((toggle) =>
+            toggle
+                .setValue(this.includeTemplates)
+                .setDisabled(this.source.templates.length === 0)
+                .onChange((value) => {
+                    this.includeTemplates = value
+                })
+        )
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn.setButtonText(t('bundleExport.copy')).onClick(async () => {
+                    const json = this.createJson()
+                    if (!json) return
+                    await navigator.clipboard.writeText(json)
+                    showSuccess(t('bundleExport.copied', { count: this.selected.size }))
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('bundleExport.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        const json = this.createJson()
+                        if (!json) return
+                        try {
+                            const path = await this.saveToVault(json)
+                            showSuccess(t('bundleExport.saved', { path }))
+                            this.close()
+                        } catch (error) {
+                            showError(t('bundleExport.saveFailed', { error: error instanceof Error ? error.message : String(error) }))
+                        }
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+
+    private createJson(): string | null {
+        if (this.selected.size === 0) {
+            showError(t('bundleExport.noGates'))
+            return null
+        }
+        // 설정 목록 순서 유지
+        const gateIds = Object.keys(this.source.gates).filter((id) => this.selected.has(id))
+        const bundle = createGateBundle(this.source, gateIds, { siteRules: this.includeSiteRules, templates: this.includeTemplates })
+        return serializeGateBundle(bundle)
+    }
+
+    private async saveToVault(json: string): Promise<string> {
+        const { vault } = this.app
+        const folder = normalizePath(this.folder)
+        if (!vault.getAbstractFileByPath(folder)) {
+            await vault.createFolder(folder)
+        }
+
+        const base = `${folder}/easy-gate-bundle-${moment().format('YYYY-MM-DD')}`
+        let path = `${base}.json`
+        for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+            path = `${base} ${i}.json`
+        }
+        await vault.create(path, json)
+        return path
+    }
+}
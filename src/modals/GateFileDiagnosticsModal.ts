@@ -0,0 +1,86 @@
+/**
+ * GateFileDiagnosticsModal - 게이트 파일 진단 모달
+ *
+ * 게이트로 불러오지 못한 파일과 이유를 보여주고, 파일을 바로 열어 고칠 수 있게 합니다.
+ * 파일을 고치면 목록이 자동으로 새로고침됩니다.
+ */
+
+import { App, EventRef, Modal, Setting, TFile } from 'obsidian'
+import { GateFileLoader } from '../gateFiles'
+import { t } from '../i18n'
+
+export interface GateFileDiagnosticsModalOptions {
+    app: App
+    loader: GateFileLoader
+}
+
+export class GateFileDiagnosticsModal extends Modal {
+    private loader: GateFileLoader
+    private changedRef: EventRef | null = null
+
+    constructor(options: GateFileDiagnosticsModalOptions) {
+        super(options.app)
+        this.loader = options.loader
+    }
+
+    onOpen() {
+        this.changedRef = this.loader.on('changed', () => this.render())
+        this.render()
+    }
+
+    onClose() {
+        if (this.changedRef) {
+            this.loader.offref(this.changedRef)
+            this.changedRef = null
+        }
+        const { contentEl } = this
+        contentEl.empty()
+    }
+
+    private render(): void {
+        const { contentEl } = this
+        contentEl.empty()
+        contentEl.createEl('h3', { text: t('gateFileDiagnostics.title') })
+        contentEl.createEl('p', {
+            text: t('gateFileDiagnostics.summary', { loaded: this.loader.getLoadedCount(), folder: this.loader.folder }),
+            cls: 'setting-item-description'
+        })
+
+        const diagnostics = this.loader.getDiagnostics()
+        if (diagnostics.length === 0) {
+            contentEl.createEl('p', { text: t('gateFileDiagnostics.empty') })
+        }
+
+        for (const diagnostic of diagnostics) {
+            const setting = new Setting(contentEl).setName(diagnostic.path).addButton((btn) =>
+                btn.setButtonText(t('gateFileDiagnostics.openFile')).onClick(async () => {
+                    const file = this.app.vault.getAbstractFileByPath(diagnostic.path)
+                    if (!(file instanceof TFile)) return
+                    this.close()
+                    await this.app.workspace.getLeaf('tab').openFile(file)
+                })
+            )
+            // 필드 오류가 여러 개면 줄마다 표시
+            const descEl = setting.descEl.createDiv({ cls: 'open-gate--diagnostic-message' })
+            descEl.setText(diagnostic.message)
+            if (diagnostic.loadedGateId) {
+                setting.descEl.createDiv({ text: t('gateFileDiagnostics.keptLastVersion') })
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('gateFileDiagnostics.reload')).onClick(async () => {
+                    await this.loader.load()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.close'))
+                    .setCta()
+                    .onClick(() => {
+                        this.close()
+                    })
+            )
+    }
+}
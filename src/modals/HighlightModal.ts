@@ -0,0 +1,100 @@
+/**
+ * HighlightModal - 하이라이트 색상/메모 편집 모달
+ *
+ * 새 하이라이트에 메모를 붙이거나, 페이지에서 누른 하이라이트를 편집/삭제합니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { HIGHLIGHT_COLORS, HighlightColor } from '../highlights/types'
+import { t } from '../i18n'
+
+export interface HighlightModalOptions {
+    app: App
+    quote: string
+    color: HighlightColor
+    comment?: string
+    isNew: boolean
+    onSubmit: (result: { color: HighlightColor; comment?: string }) => void | Promise<void>
+    onDelete?: () => void | Promise<void>
+}
+
+export class HighlightModal extends Modal {
+    private options: HighlightModalOptions
+    private color: HighlightColor
+    private comment: string
+
+    constructor(options: HighlightModalOptions) {
+        super(options.app)
+        this.options = options
+        this.color = options.color
+        this.comment = options.comment ?? ''
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: this.options.isNew ? t('highlight.addTitle') : t('highlight.editTitle') })
+
+        const quoteEl = contentEl.createEl('blockquote', { text: this.options.quote })
+        quoteEl.style.cssText = `
+            max-height: 160px;
+            overflow-y: auto;
+            margin: 0 0 12px;
+            padding: 8px 12px;
+            border-left: 3px solid var(--interactive-accent);
+            background: ${HIGHLIGHT_COLORS[this.color].background};
+        `
+
+        new Setting(contentEl).setName(t('highlight.color')).addDropdown((dropdown) => {
+            for (const [color, { emoji }] of Object.entries(HIGHLIGHT_COLORS)) {
+                dropdown.addOption(color, `${emoji} ${t(`highlight.color.${color as HighlightColor}`)}`)
+            }
+            dropdown.setValue(this.color).onChange((value) => {
+                this.color = value as HighlightColor
+                quoteEl.style.background = HIGHLIGHT_COLORS[this.color].background
+            })
+        })
+
+        new Setting(contentEl)
+            .setName(t('highlight.comment'))
+            .setClass('open-gate--form-field--column')
+            .addTextArea((text) =>
+                text.setValue(this.comment).onChange((value) => {
+                    this.comment = value
+                })
+            )
+
+        const buttons = new Setting(contentEl)
+        if (this.options.onDelete) {
+            const onDelete = this.options.onDelete
+            buttons.addButton((btn) =>
+                btn
+                    .setButtonText(t('common.delete'))
+                    .setWarning()
+                    .onClick(async () => {
+                        await onDelete()
+                        this.close()
+                    })
+            )
+        }
+        buttons
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        await this.options.onSubmit({ color: this.color, comment: this.comment.trim() || undefined })
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+}
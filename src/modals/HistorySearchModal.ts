@@ -0,0 +1,115 @@
+/**
+ * HistorySearchModal - 방문 기록 검색 모달
+ *
+ * 제목/URL 퍼지 검색과 (본문 저장이 켜져 있으면) 페이지 내용 검색을 지원합니다.
+ * 게이트에서 열면 해당 게이트의 기록만 보여주며, Tab으로 전체 기록과 전환합니다.
+ */
+
+import { App, Keymap, moment, Platform, renderMatches, SuggestModal } from 'obsidian'
+import { HistoryEntry, HistorySearchResult, HistoryStore } from '../history'
+import { t } from '../i18n'
+
+export interface HistorySearchModalOptions {
+    app: App
+    store: HistoryStore
+    gateId?: string // 지정하면 이 게이트의 기록부터 보여줌
+    getGateTitle: (gateId: string) => string
+    onChoose: (entry: HistoryEntry, newTab: boolean) => void
+}
+
+// 결과 목록에 표시할 최대 항목 수
+const MAX_RESULTS = 200
+
+// 본문 일치 부분 앞뒤로 보여줄 글자 수
+const SNIPPET_CONTEXT = 60
+
+export class HistorySearchModal extends SuggestModal<HistorySearchResult> {
+    private options: HistorySearchModalOptions
+    private gateOnly: boolean
+
+    constructor(options: HistorySearchModalOptions) {
+        super(options.app)
+        this.options = options
+        this.gateOnly = Boolean(options.gateId)
+        this.limit = MAX_RESULTS
+        this.updatePlaceholder()
+
+        this.setInstructions([
+            { command: '↵', purpose: t('history.open') },
+            { command: Platform.isMacOS ? '⌘ ↵' : 'Ctrl ↵', purpose: t('history.openInNewTab') },
+            ...(options.gateId ? [{ command: 'Tab', purpose: t('history.toggleScope') }] : []),
+            { command: 'Shift Del', purpose: t('history.removeEntry') }
+        ])
+
+        this.scope.register(['Mod'], 'Enter', (evt) => {
+            this.selectActiveSuggestion(evt)
+            return false
+        })
+
+        if (options.gateId) {
+            this.scope.register([], 'Tab', () => {
+                this.gateOnly = !this.gateOnly
+                this.updatePlaceholder()
+                this.inputEl.dispatchEvent(new Event('input'))
+                return false
+            })
+        }
+
+        this.scope.register(['Shift'], 'Delete', () => {
+            const selected = this.getSelectedResult()
+            if (selected) {
+                this.options.store.remove(selected.entry)
+                this.inputEl.dispatchEvent(new Event('input'))
+            }
+            return false
+        })
+    }
+
+    getSuggestions(query: string): HistorySearchResult[] {
+        return this.options.store.search(query, this.gateOnly ? this.options.gateId : undefined).slice(0, MAX_RESULTS)
+    }
+
+    renderSuggestion(result: HistorySearchResult, el: HTMLElement): void {
+        const { entry } = result
+        el.addClass('gate-history-item')
+
+        const titleEl = el.createDiv({ cls: 'gate-history-title' })
+        renderMatches(titleEl, entry.title, result.titleMatch?.matches ?? null)
+
+        const urlEl = el.createDiv({ cls: 'gate-history-url' })
+        renderMatches(urlEl, entry.url, result.urlMatch?.matches ?? null)
+
+        if (result.textMatch && entry.text) {
+            const [start, end] = result.textMatch.matches[0]
+            const from = Math.max(0, start - SNIPPET_CONTEXT)
+            const snippet = entry.text.substring(from, end + SNIPPET_CONTEXT)
+            const snippetEl = el.createDiv({ cls: 'gate-history-snippet' })
+            renderMatches(snippetEl, snippet, result.textMatch.matches, -from)
+        }
+
+        const meta = [moment(entry.visitedAt).fromNow(), t('history.visits', { count: entry.visitCount })]
+        if (!this.gateOnly) {
+            meta.unshift(this.options.getGateTitle(entry.gateId))
+        }
+        el.createDiv({ text: meta.join(' · '), cls: 'gate-history-meta' })
+    }
+
+    onNoSuggestion(): void {
+        this.emptyStateText = this.inputEl.value ? t('history.noResults') : t('history.empty')
+        super.onNoSuggestion()
+    }
+
+    onChooseSuggestion(result: HistorySearchResult, evt: MouseEvent | KeyboardEvent): void {
+        this.options.onChoose(result.entry, Boolean(Keymap.isModEvent(evt)))
+    }
+
+    private updatePlaceholder(): void {
+        this.setPlaceholder(this.gateOnly ? t('history.placeholderGate') : t('history.placeholder'))
+    }
+
+    private getSelectedResult(): HistorySearchResult | null {
+        // @ts-ignore - Obsidian 내부 API (선택된 항목)
+        const chooser = this.chooser as { values?: HistorySearchResult[]; selectedItem?: number } | undefined
+        return chooser?.values?.[chooser.selectedItem ?? -1] ?? null
+    }
+}
@@ -0,0 +1,195 @@
+/**
+ * ImportBundleModal - 게이트 묶음 가져오기 모달
+ *
+ * 묶음 JSON을 붙여넣거나 파일에서 읽어 검증한 뒤, 기존 게이트/규칙/템플릿과 비교한 미리보기를 보여줍니다.
+ * 항목마다 추가, 덮어쓰기, 둘 다 유지, 건너뛰기를 골라 가져옵니다.
+ * 페이지 코드(CSS, JS, 추출 전 스크립트)가 든 항목은 코드를 펼쳐 보여주고, 사용자가 고르기 전까지 건너뜁니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import {
+    applyBundleImport,
+    BundleImportAction,
+    BundleImportItem,
+    BundleImportResult,
+    BundleItemKind,
+    GateBundle,
+    GateBundleSource,
+    parseGateBundle,
+    planBundleImport
+} from '../bundle'
+import { showError } from '../ui/ToastNotification'
+import { MessageKey, t } from '../i18n'
+
+export interface ImportBundleModalOptions {
+    app: App
+    current: GateBundleSource
+    onImport: (result: BundleImportResult) => void | Promise<void>
+}
+
+const KIND_TITLES: Record<BundleItemKind, MessageKey> = {
+    gate: 'bundleImport.gates',
+    siteRule: 'bundleImport.siteRules',
+    template: 'bundleImport.templates'
+}
+
+const ACTION_LABELS: Record<BundleImportAction, MessageKey> = {
+    add: 'bundleImport.actionAdd',
+    replace: 'bundleImport.actionReplace',
+    keepBoth: 'bundleImport.actionKeepBoth',
+    skip: 'bundleImport.actionSkip'
+}
+
+export class ImportBundleModal extends Modal {
+    private current: GateBundleSource
+    private onImport: ImportBundleModalOptions['onImport']
+    private json = ''
+
+    constructor(options: ImportBundleModalOptions) {
+        super(options.app)
+        this.current = options.current
+        this.onImport = options.onImport
+    }
+
+    onOpen() {
+        this.renderInput()
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+
+    private renderInput(): void {
+        const { contentEl } = this
+        contentEl.empty()
+        contentEl.createEl('h3', { text: t('bundleImport.title') })
+
+        let textArea: HTMLTextAreaElement | null = null
+        new Setting(contentEl)
+            .setName('JSON')
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('bundleImport.desc'))
+            .addTextArea((text) => {
+                textArea = text.inputEl
+                text.inputEl.rows = 12
+                text.setValue(this.json)
+                text.onChange((value) => {
+                    this.json = value
+                })
+            })
+
+        // 공유받은 .json 파일 읽기
+        new Setting(contentEl).setName(t('bundleImport.file')).addButton((btn) =>
+            btn.setButtonText(t('bundleImport.chooseFile')).onClick(() => {
+                const input = contentEl.createEl('input', { type: 'file', attr: { accept: '.json,application/json' } })
+                input.addEventListener('change', async () => {
+                    const file = input.files?.[0]
+                    input.remove()
+                    if (!file) return
+                    this.json = await file.text()
+                    if (textArea) textArea.value = this.json
+                })
+                input.click()
+            })
+        )
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('bundleImport.preview'))
+                    .setCta()
+                    .onClick(() => {
+                        let bundle: GateBundle
+                        try {
+                            bundle = parseGateBundle(this.json)
+                        } catch (error) {
+                            showError(t('bundleImport.failed', { error: (error as Error).message }))
+                            return
+                        }
+                        this.renderPreview(bundle, planBundleImport(bundle, this.current))
+                    })
+            )
+    }
+
+    private renderPreview(bundle: GateBundle, items: BundleImportItem[]): void {
+        const { contentEl } = this
+        contentEl.empty()
+        contentEl.createEl('h3', { text: t('bundleImport.previewTitle') })
+        if (bundle.exportedAt) {
+            contentEl.createEl('p', { text: t('bundleImport.exportedAt', { date: new Date(bundle.exportedAt).toLocaleString() }), cls: 'setting-item-description' })
+        }
+        if (items.some((item) => item.code.length > 0)) {
+            contentEl.createEl('p', { text: t('bundleImport.codeWarning'), cls: 'mod-warning' })
+        }
+
+        for (const kind of Object.keys(KIND_TITLES) as BundleItemKind[]) {
+            const kindItems = items.filter((item) => item.kind === kind)
+            if (kindItems.length === 0) continue
+
+            contentEl.createEl('h4', { text: t(KIND_TITLES[kind], { count: kindItems.length }) })
+            for (const item of kindItems) {
+                const setting = new Setting(contentEl)
+                    .setName(item.name)
+                    .setDesc(this.describeItem(item))
+                    .addDropdown((dropdown) => {
+                        for (const action of this.getActions(item)) {
+                            dropdown.addOption(action, t(ACTION_LABELS[action]))
+                        }
+                        dropdown.setValue(item.action).onChange((value) => {
+                            item.action = value as BundleImportAction
+                        })
+                    })
+                this.renderCode(setting, item)
+            }
+        }
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('bundleImport.back')).onClick(() => {
+                    this.renderInput()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('bundleImport.import'))
+                    .setCta()
+                    .onClick(async () => {
+                        await this.onImport(applyBundleImport(bundle, items, this.current))
+                        this.close()
+                    })
+            )
+    }
+
+    /**
+     * 항목에 든 페이지 코드를 펼쳐 볼 수 있게 표시
+     */
+    private renderCode(setting: Setting, item: BundleImportItem): void {
+        if (item.code.length === 0) return
+
+        setting.descEl.createDiv({ text: t('bundleImport.containsCode', { fields: item.code.map((code) => code.field).join(', ') }), cls: 'mod-warning' })
+        for (const code of item.code) {
+            const details = setting.descEl.createEl('details', { cls: 'open-gate--bundle-code' })
+            details.createEl('summary', { text: code.field })
+            details.createEl('pre').createEl('code', { text: code.source })
+        }
+    }
+
+    private describeItem(item: BundleImportItem): string {
+        if (!item.existing) return `${t('bundleImport.statusNew')} · ${item.detail}`
+        const status = item.identical ? t('bundleImport.statusSame') : t('bundleImport.statusChanged')
+        const matched = t(item.existing.matchedBy === 'id' ? 'bundleImport.matchedById' : 'bundleImport.matchedByValue', { name: item.existing.name })
+        return `${status} · ${matched}`
+    }
+
+    private getActions(item: BundleImportItem): BundleImportAction[] {
+        if (!item.existing) return ['add', 'skip']
+        // 같은 패턴의 사이트 규칙이 둘이면 뒤의 것은 쓰이지 않으므로 둘 다 유지는 제외
+        return item.kind === 'siteRule' ? ['replace', 'skip'] : ['replace', 'keepBoth', 'skip']
+    }
+}
@@ -17,8 +17,9 @@ import {
     MultiSourceAnalysisRequest,
     ClipData
 } from '../ai/types'
-import { getAIService } from '../ai/AIService'
+import { getAIService, hasProviderCredentials } from '../ai/AIService'
 import { showSuccess, showError, showWarning } from '../ui/ToastNotification'
+import { t } from '../i18n'
 
 // ============================================
 // 유틸리티 함수
@@ -46,15 +47,15 @@ function getSourceTypeIcon(type: SourceType): string {
 function getSourceTypeLabel(type: SourceType): string {
     switch (type) {
         case 'web-clip':
-            return '웹 클리핑'
+            return t('multiSource.type.webClip')
         case 'obsidian-note':
-            return '옵시디언 노트'
+            return t('multiSource.type.note')
         case 'selection':
-            return '선택 텍스트'
+            return t('multiSource.type.selection')
         case 'manual-input':
-            return '직접 입력'
+            return t('multiSource.type.manual')
         default:
-            return '기타'
+            return t('multiSource.type.other')
     }
 }
 
@@ -68,7 +69,7 @@ class FileSuggestModal extends FuzzySuggestModal<TFile> {
     constructor(app: App, onSelect: (file: TFile) => void) {
         super(app)
         this.onSelect = onSelect
-        this.setPlaceholder('노트 파일을 검색하세요...')
+        this.setPlaceholder(t('multiSource.searchNotes'))
     }
 
     getItems(): TFile[] {
@@ -103,14 +104,14 @@ class TextInputModal extends Modal {
         contentEl.empty()
         contentEl.addClass('easy-gate-text-input-modal')
 
-        contentEl.createEl('h2', { text: '✏️ 텍스트 직접 입력' })
+        contentEl.createEl('h2', { text: t('multiSource.textInputTitle') })
 
         // 제목 입력
         new Setting(contentEl)
-            .setName('제목')
-            .setDesc('이 텍스트의 제목을 입력하세요')
+            .setName(t('multiSource.textTitle'))
+            .setDesc(t('multiSource.textTitleDesc'))
             .addText(text => {
-                text.setPlaceholder('예: 회의록 요약')
+                text.setPlaceholder(t('multiSource.textTitlePlaceholder'))
                 text.onChange(value => {
                     this.titleInput = value
                 })
@@ -118,10 +119,10 @@ class TextInputModal extends Modal {
 
         // 콘텐츠 입력
         const contentSection = contentEl.createDiv({ cls: 'content-input-section' })
-        contentSection.createEl('label', { text: '내용' })
+        contentSection.createEl('label', { text: t('multiSource.textContent') })
 
         const textArea = contentSection.createEl('textarea', {
-            placeholder: '분석할 텍스트를 여기에 입력하거나 붙여넣으세요...'
+            placeholder: t('multiSource.textContentPlaceholder')
         })
         textArea.style.cssText = `
             width: 100%;
@@ -148,17 +149,17 @@ class TextInputModal extends Modal {
             margin-top: 16px;
         `
 
-        const cancelBtn = buttonRow.createEl('button', { text: '취소' })
+        const cancelBtn = buttonRow.createEl('button', { text: t('common.cancel') })
         cancelBtn.onclick = () => this.close()
 
-        const addBtn = buttonRow.createEl('button', { text: '➕ 추가', cls: 'mod-cta' })
+        const addBtn = buttonRow.createEl('button', { text: t('multiSource.addButton'), cls: 'mod-cta' })
         addBtn.onclick = () => {
             if (!this.titleInput.trim()) {
-                showWarning('제목을 입력해주세요.')
+                showWarning(t('multiSource.titleRequired'))
                 return
             }
             if (!this.contentInput.trim()) {
-                showWarning('내용을 입력해주세요.')
+                showWarning(t('multiSource.contentRequired'))
                 return
             }
             this.onSubmit(this.titleInput.trim(), this.contentInput.trim())
@@ -254,7 +255,7 @@ export class MultiSourceAnalysisModal extends Modal {
         const { contentEl } = this
 
         const header = contentEl.createDiv({ cls: 'modal-header' })
-        header.createEl('h2', { text: '📊 멀티 소스 종합 분석' })
+        header.createEl('h2', { text: t('multiSource.title') })
 
         const description = header.createEl('p', { cls: 'modal-description' })
         description.style.cssText = `
@@ -262,7 +263,7 @@ export class MultiSourceAnalysisModal extends Modal {
             color: var(--text-muted);
             margin-top: 4px;
         `
-        description.textContent = '여러 소스를 수합하여 AI로 종합 분석합니다. 웹 클리핑, 옵시디언 노트, 직접 입력 텍스트를 추가할 수 있습니다.'
+        description.textContent = t('multiSource.description')
     }
 
     private renderSourceManager(): void {
@@ -285,7 +286,7 @@ export class MultiSourceAnalysisModal extends Modal {
             margin-bottom: 12px;
         `
 
-        headerRow.createEl('h3', { text: '📚 분석 소스' })
+        headerRow.createEl('h3', { text: t('multiSource.sources') })
 
         // 소스 추가 버튼들
         const addButtonsRow = headerRow.createDiv({ cls: 'add-buttons' })
@@ -296,7 +297,7 @@ export class MultiSourceAnalysisModal extends Modal {
 
         // 옵시디언 노트 추가 버튼
         const addNoteBtn = addButtonsRow.createEl('button', {
-            text: '📄 노트 추가',
+            text: t('multiSource.addNote'),
             cls: 'add-source-btn'
         })
         addNoteBtn.style.cssText = this.getButtonStyle()
@@ -304,7 +305,7 @@ export class MultiSourceAnalysisModal extends Modal {
 
         // 텍스트 직접 입력 버튼
         const addTextBtn = addButtonsRow.createEl('button', {
-            text: '✏️ 텍스트 입력',
+            text: t('multiSource.addText'),
             cls: 'add-source-btn'
         })
         addTextBtn.style.cssText = this.getButtonStyle()
@@ -346,9 +347,9 @@ export class MultiSourceAnalysisModal extends Modal {
                 padding: 32px;
                 color: var(--text-muted);
             `
-            emptyState.createEl('p', { text: '📭 분석할 소스가 없습니다.' })
+            emptyState.createEl('p', { text: t('multiSource.empty') })
             emptyState.createEl('p', {
-                text: '위 버튼으로 옵시디언 노트나 텍스트를 추가하세요.',
+                text: t('multiSource.emptyHint'),
                 cls: 'empty-hint'
             }).style.fontSize = '12px'
             return
@@ -397,7 +398,7 @@ export class MultiSourceAnalysisModal extends Modal {
                 margin-top: 2px;
             `
             meta.createSpan({ text: getSourceTypeLabel(source.type) })
-            meta.createSpan({ text: `${source.metadata.charCount.toLocaleString()}자` })
+            meta.createSpan({ text: t('multiSource.chars', { count: source.metadata.charCount.toLocaleString() }) })
 
             if (source.metadata.url) {
                 const urlSpan = meta.createSpan()
@@ -433,18 +434,18 @@ export class MultiSourceAnalysisModal extends Modal {
         const section = contentEl.createDiv({ cls: 'analysis-options-section' })
         section.style.marginBottom = '16px'
 
-        section.createEl('h3', { text: '⚙️ 분석 옵션' })
+        section.createEl('h3', { text: t('multiSource.options') })
 
         // 분석 유형 선택
         new Setting(section)
-            .setName('분석 유형')
-            .setDesc('소스들을 어떻게 분석할지 선택하세요')
+            .setName(t('multiSource.analysisType'))
+            .setDesc(t('multiSource.analysisTypeDesc'))
             .addDropdown(dropdown => {
                 dropdown
-                    .addOption('synthesis', '🔄 종합 분석 - 모든 소스를 통합하여 요약')
-                    .addOption('comparison', '⚖️ 비교 분석 - 소스 간 차이점/공통점 분석')
-                    .addOption('summary', '📝 개별 요약 - 각 소스를 요약 후 종합')
-                    .addOption('custom', '✏️ 커스텀 - 프롬프트만 사용')
+                    .addOption('synthesis', t('multiSource.option.synthesis'))
+                    .addOption('comparison', t('multiSource.option.comparison'))
+                    .addOption('summary', t('multiSource.option.summary'))
+                    .addOption('custom', t('multiSource.option.custom'))
                     .setValue(this.analysisType)
                     .onChange(value => {
                         this.analysisType = value as MultiSourceAnalysisType
@@ -452,14 +453,11 @@ export class MultiSourceAnalysisModal extends Modal {
             })
 
         // AI 제공자 선택
-        const hasApiKey = (providerId: AIProviderType) => {
-            const key = this.settings.apiKeys[providerId]
-            return !!key && key.trim().length > 0
-        }
+        const hasApiKey = (providerId: AIProviderType) => hasProviderCredentials(this.settings, providerId)
 
         new Setting(section)
-            .setName('AI 제공자')
-            .setDesc('분석에 사용할 AI를 선택하세요')
+            .setName(t('multiSource.provider'))
+            .setDesc(t('multiSource.providerDesc'))
             .addDropdown(dropdown => {
                 Object.values(AI_PROVIDERS).forEach(provider => {
                     const configured = hasApiKey(provider.id)
@@ -480,7 +478,7 @@ export class MultiSourceAnalysisModal extends Modal {
 
         const section = contentEl.createDiv({ cls: 'custom-prompt-section' })
 
-        section.createEl('h3', { text: '💬 분석 지시사항 (선택)' })
+        section.createEl('h3', { text: t('multiSource.instructions') })
 
         const guide = section.createEl('p', { cls: 'prompt-guide' })
         guide.style.cssText = `
@@ -488,18 +486,13 @@ export class MultiSourceAnalysisModal extends Modal {
             color: var(--text-muted);
             margin-bottom: 8px;
         `
-        guide.textContent = 'AI에게 특별한 분석 방향이나 요청사항을 입력하세요. 비워두면 기본 분석이 수행됩니다.'
+        guide.textContent = t('multiSource.instructionsGuide')
 
         new Setting(section)
             .setClass('prompt-textarea-setting')
             .addTextArea(text => {
                 this.promptTextArea = text
-                text.setPlaceholder(
-                    '예시:\n' +
-                        '- 이 자료들에서 AI 교육의 핵심 트렌드를 정리해줘\n' +
-                        '- 각 소스의 주장을 비교하고 공통점과 차이점을 분석해줘\n' +
-                        '- 실제 교육 현장에 적용할 수 있는 인사이트를 추출해줘'
-                )
+                text.setPlaceholder(t('multiSource.instructionsPlaceholder'))
                 text.inputEl.style.cssText = `
                     width: 100%;
                     min-height: 100px;
@@ -532,7 +525,7 @@ export class MultiSourceAnalysisModal extends Modal {
             font-size: 12px;
             color: var(--text-muted);
         `
-        helpText.textContent = '💡 여러 소스를 종합하면 더 풍부한 인사이트를 얻을 수 있습니다.'
+        helpText.textContent = t('multiSource.help')
 
         // 버튼 그룹
         const buttonGroup = footer.createDiv({ cls: 'button-group' })
@@ -541,11 +534,11 @@ export class MultiSourceAnalysisModal extends Modal {
             gap: 10px;
         `
 
-        const cancelBtn = buttonGroup.createEl('button', { text: '취소' })
+        const cancelBtn = buttonGroup.createEl('button', { text: t('common.cancel') })
         cancelBtn.onclick = () => this.close()
 
         const analyzeBtn = buttonGroup.createEl('button', {
-            text: '📊 종합 분석 시작',
+            text: t('multiSource.start'),
             cls: 'mod-cta'
         })
         analyzeBtn.style.cssText = `
@@ -563,7 +556,7 @@ export class MultiSourceAnalysisModal extends Modal {
         const source: SourceItem = {
             id: generateId(),
             type: 'web-clip',
-            title: clipData.title || '웹 클리핑',
+            title: clipData.title || t('multiSource.type.webClip'),
             content: clipData.content,
             metadata: {
                 url: clipData.url,
@@ -600,9 +593,9 @@ export class MultiSourceAnalysisModal extends Modal {
             this.sources.push(source)
             this.renderSourceList()
             this.updateStats()
-            showSuccess(`노트 추가됨: ${file.basename}`)
+            showSuccess(t('multiSource.noteAdded', { name: file.basename }))
         } catch (error) {
-            showError(`노트를 읽을 수 없습니다: ${file.path}`)
+            showError(t('multiSource.noteReadFailed', { path: file.path }))
         }
     }
 
@@ -622,14 +615,14 @@ export class MultiSourceAnalysisModal extends Modal {
         this.sources.push(source)
         this.renderSourceList()
         this.updateStats()
-        showSuccess(`텍스트 추가됨: ${title}`)
+        showSuccess(t('multiSource.textAdded', { title }))
     }
 
     private removeSource(index: number): void {
         const removed = this.sources.splice(index, 1)[0]
         this.renderSourceList()
         this.updateStats()
-        showSuccess(`소스 삭제됨: ${removed.title}`)
+        showSuccess(t('multiSource.sourceRemoved', { title: removed.title }))
     }
 
     private openFilePicker(): void {
@@ -660,13 +653,13 @@ export class MultiSourceAnalysisModal extends Modal {
         const totalWords = this.sources.reduce((sum, s) => sum + s.metadata.wordCount, 0)
         const estimatedTokens = Math.ceil(totalChars / 4)
 
-        this.statsContainer.createSpan({ text: `📚 ${totalSources}개 소스` })
-        this.statsContainer.createSpan({ text: `📊 ${totalChars.toLocaleString()}자` })
-        this.statsContainer.createSpan({ text: `📝 ${totalWords.toLocaleString()} 단어` })
-        this.statsContainer.createSpan({ text: `🎫 ~${estimatedTokens.toLocaleString()} 토큰` })
+        this.statsContainer.createSpan({ text: t('multiSource.sourceCount', { count: totalSources }) })
+        this.statsContainer.createSpan({ text: `📊 ${t('multiSource.chars', { count: totalChars.toLocaleString() })}` })
+        this.statsContainer.createSpan({ text: t('analysisModal.words', { count: totalWords.toLocaleString() }) })
+        this.statsContainer.createSpan({ text: t('analysisModal.tokens', { count: estimatedTokens.toLocaleString() }) })
 
         if (totalSources === 0) {
-            const warningSpan = this.statsContainer.createSpan({ text: '⚠️ 소스를 추가하세요' })
+            const warningSpan = this.statsContainer.createSpan({ text: t('multiSource.addSourcesWarning') })
             warningSpan.style.color = 'var(--text-warning)'
         }
     }
@@ -690,16 +683,14 @@ export class MultiSourceAnalysisModal extends Modal {
     private async startAnalysis(): Promise<void> {
         // 유효성 검사
         if (this.sources.length === 0) {
-            showWarning('분석할 소스를 하나 이상 추가해주세요.')
+            showWarning(t('multiSource.sourcesRequired'))
             return
         }
 
         // AI 서비스 확인
         const aiService = getAIService()
         if (!aiService?.isProviderConfigured(this.selectedProvider)) {
-            showWarning(
-                `${AI_PROVIDERS[this.selectedProvider].displayName} API 키가 설정되지 않았습니다.`
-            )
+            showWarning(t('analysisModal.apiKeyMissing', { provider: AI_PROVIDERS[this.selectedProvider].displayName }))
             return
         }
 
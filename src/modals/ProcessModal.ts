@@ -8,10 +8,15 @@
  */
 
 import { App, Modal, Notice, MarkdownRenderer, TFile, Component } from 'obsidian'
-import { AIProviderType, AI_PROVIDERS, ClipData } from '../ai/types'
+import { AIMessage, AIProviderType, AI_PROVIDERS, ClipData, ProcessState as AIProcessState } from '../ai/types'
 import { getAIService } from '../ai/AIService'
-import { AnalysisConfig, AnalysisModal } from './AnalysisModal'
+import { MapReduceSummarizer } from '../ai/MapReduceSummarizer'
+import { estimateTokens } from '../ai/TokenChunker'
+import { AnalysisConfig } from './AnalysisModal'
+import { getTemplate, renderTemplatePrompt, TemplateVariables } from '../ai/TemplateRegistry'
+import { getDefaultAINoteTemplate, NoteRenderer } from '../clipping/NoteRenderer'
 import { showSuccess, showError, showWarning } from '../ui/ToastNotification'
+import { t } from '../i18n'
 
 export interface ProcessModalOptions {
     app: App
@@ -19,9 +24,10 @@ export interface ProcessModalOptions {
     config: AnalysisConfig
     onSave: (content: string, title: string) => Promise<TFile | null>
     onAppend?: (content: string, file: TFile) => Promise<void>
+    noteTemplatePath?: string // AI 결과 노트 템플릿 파일 (비어 있으면 기본 템플릿)
 }
 
-type ProcessState = 'preparing' | 'processing' | 'completed' | 'error'
+type ProcessState = 'preparing' | 'processing' | 'completed' | 'cancelled' | 'error'
 
 /**
  * ProcessModal 클래스
@@ -31,6 +37,7 @@ export class ProcessModal extends Modal {
     private config: AnalysisConfig
     private onSave: (content: string, title: string) => Promise<TFile | null>
     private onAppend?: (content: string, file: TFile) => Promise<void>
+    private noteTemplatePath?: string
 
     // State
     private state: ProcessState = 'preparing'
@@ -38,10 +45,16 @@ export class ProcessModal extends Modal {
     private errorMessage: string = ''
     private startTime: number = 0
     private endTime: number = 0
+    private abortController: AbortController | null = null
+
+    // 스트리밍 렌더링 (토큰마다 렌더링하지 않도록 묶어서 처리)
+    private renderTimer: number | null = null
+    private renderVersion: number = 0
 
     // UI Elements
     private statusEl: HTMLElement | null = null
     private progressEl: HTMLElement | null = null
+    private stepsEl: HTMLElement | null = null
     private resultEl: HTMLElement | null = null
     private actionsEl: HTMLElement | null = null
 
@@ -54,6 +67,7 @@ export class ProcessModal extends Modal {
         this.config = options.config
         this.onSave = options.onSave
         this.onAppend = options.onAppend
+        this.noteTemplatePath = options.noteTemplatePath
         this.renderComponent = new Component()
     }
 
@@ -72,6 +86,7 @@ export class ProcessModal extends Modal {
         this.renderHeader()
         this.renderStatus()
         this.renderProgress()
+        this.renderSteps()
         this.renderResult()
         this.renderActions()
 
@@ -80,6 +95,10 @@ export class ProcessModal extends Modal {
     }
 
     onClose(): void {
+        // 진행 중인 요청 중단
+        this.abortController?.abort()
+        this.cancelScheduledRender()
+
         const { contentEl } = this
         contentEl.empty()
         this.renderComponent.unload()
@@ -92,7 +111,7 @@ export class ProcessModal extends Modal {
         const { contentEl } = this
 
         const header = contentEl.createDiv({ cls: 'process-modal-header' })
-        header.createEl('h2', { text: '🤖 AI 분석 처리 중' })
+        header.createEl('h2', { text: t('processModal.title') })
 
         // Provider 정보
         const providerInfo = header.createDiv({ cls: 'provider-info' })
@@ -108,8 +127,8 @@ export class ProcessModal extends Modal {
         providerInfo.createSpan({ text: `🔧 ${provider.displayName}` })
         providerInfo.createSpan({ text: '|' })
 
-        const template = AnalysisModal.getTemplates().find(t => t.id === this.config.templateId)
-        const templateName = template?.name || '커스텀 프롬프트'
+        const template = getTemplate(this.config.templateId)
+        const templateName = template?.name || t('processModal.customPrompt')
         providerInfo.createSpan({ text: `📋 ${templateName}` })
     }
 
@@ -141,10 +160,11 @@ export class ProcessModal extends Modal {
         this.statusEl.empty()
 
         const statusConfig: Record<ProcessState, { icon: string; text: string; color: string }> = {
-            preparing: { icon: '⏳', text: '준비 중...', color: 'var(--text-muted)' },
-            processing: { icon: '🔄', text: 'AI가 분석 중입니다...', color: 'var(--text-accent)' },
-            completed: { icon: '✅', text: '분석 완료!', color: 'var(--color-green)' },
-            error: { icon: '❌', text: '오류 발생', color: 'var(--color-red)' }
+            preparing: { icon: '⏳', text: t('processModal.preparing'), color: 'var(--text-muted)' },
+            processing: { icon: '🔄', text: t('processModal.processing'), color: 'var(--text-accent)' },
+            completed: { icon: '✅', text: t('processModal.completed'), color: 'var(--color-green)' },
+            cancelled: { icon: '⏹️', text: t('processModal.cancelled'), color: 'var(--text-muted)' },
+            error: { icon: '❌', text: t('processModal.error'), color: 'var(--color-red)' }
         }
 
         const config = statusConfig[this.state]
@@ -155,10 +175,10 @@ export class ProcessModal extends Modal {
         const textEl = this.statusEl.createSpan({ text: config.text })
         textEl.style.cssText = `font-size: 16px; font-weight: 500; color: ${config.color};`
 
-        // 처리 시간 표시 (완료 시)
-        if (this.state === 'completed' && this.endTime) {
+        // 처리 시간 표시 (완료/취소 시)
+        if ((this.state === 'completed' || this.state === 'cancelled') && this.endTime) {
             const duration = ((this.endTime - this.startTime) / 1000).toFixed(1)
-            const timeEl = this.statusEl.createSpan({ text: `⏱️ ${duration}초` })
+            const timeEl = this.statusEl.createSpan({ text: t('processModal.duration', { seconds: duration }) })
             timeEl.style.cssText = `margin-left: auto; font-size: 13px; color: var(--text-muted);`
         }
     }
@@ -199,6 +219,60 @@ export class ProcessModal extends Modal {
         }
     }
 
+    /**
+     * 단계 목록 영역 렌더링 (긴 콘텐츠를 나누어 처리할 때만 표시)
+     */
+    private renderSteps(): void {
+        const { contentEl } = this
+
+        this.stepsEl = contentEl.createDiv({ cls: 'process-steps' })
+        this.stepsEl.style.cssText = `
+            display: none;
+            flex-wrap: wrap;
+            gap: 6px;
+            margin-bottom: 16px;
+            font-size: 12px;
+        `
+    }
+
+    /**
+     * 분할 처리 진행 상황 업데이트
+     */
+    private updateSteps(processState: AIProcessState): void {
+        if (!this.stepsEl) return
+
+        // 단계가 하나뿐이면(분할 없음) 기존 진행 바만 사용
+        if (processState.steps.length <= 1) {
+            this.stepsEl.style.display = 'none'
+            return
+        }
+
+        this.stepsEl.style.display = 'flex'
+        this.stepsEl.empty()
+
+        const stepIcons: Record<string, string> = {
+            pending: '⚪',
+            in_progress: '🔄',
+            completed: '✅',
+            error: '❌'
+        }
+
+        for (const step of processState.steps) {
+            const stepEl = this.stepsEl.createSpan({ text: `${stepIcons[step.status]} ${step.label}` })
+            stepEl.style.cssText = `
+                padding: 2px 8px;
+                border-radius: 10px;
+                background: var(--background-secondary);
+                color: ${step.status === 'in_progress' ? 'var(--text-accent)' : 'var(--text-muted)'};
+            `
+        }
+
+        // 통합 단계 전까지 진행 바는 10% ~ 70% 구간 사용
+        if (processState.status !== 'completed') {
+            this.updateProgress(10 + processState.progress * 0.6)
+        }
+    }
+
     /**
      * 결과 영역 렌더링
      */
@@ -229,7 +303,7 @@ export class ProcessModal extends Modal {
             color: var(--text-muted);
         `
         loadingEl.createSpan({ text: '🔄' }).style.cssText = 'font-size: 32px; animation: spin 1s linear infinite;'
-        loadingEl.createSpan({ text: 'AI 응답 대기 중...' }).style.marginTop = '12px'
+        loadingEl.createSpan({ text: t('processModal.waiting') }).style.marginTop = '12px'
 
         // 스핀 애니메이션
         const style = document.createElement('style')
@@ -244,19 +318,64 @@ export class ProcessModal extends Modal {
 
     /**
      * 결과 업데이트 (스트리밍)
+     * 별도 요소에 렌더링한 뒤 교체하여 깜빡임을 줄이고, 늦게 끝난 이전 렌더링은 버립니다.
      */
     private async updateResult(content: string): Promise<void> {
         if (!this.resultEl) return
 
-        this.resultEl.empty()
+        const version = ++this.renderVersion
+        const rendered = createDiv()
 
         // 마크다운 렌더링
         await MarkdownRenderer.renderMarkdown(
             content,
-            this.resultEl,
+            rendered,
             '',
             this.renderComponent
         )
+
+        if (version !== this.renderVersion || !this.resultEl) return
+
+        // 사용자가 맨 아래를 보고 있을 때만 자동 스크롤
+        const resultEl = this.resultEl
+        const atBottom = resultEl.scrollHeight - resultEl.scrollTop - resultEl.clientHeight < 24
+
+        resultEl.empty()
+        resultEl.appendChild(rendered)
+
+        if (atBottom) {
+            resultEl.scrollTop = resultEl.scrollHeight
+        }
+    }
+
+    /**
+     * 스트리밍 중 결과 렌더링 예약
+     */
+    private scheduleResultUpdate(): void {
+        if (this.renderTimer !== null) return
+
+        this.renderTimer = window.setTimeout(() => {
+            this.renderTimer = null
+            this.updateResult(this.resultContent)
+        }, 80)
+    }
+
+    private cancelScheduledRender(): void {
+        if (this.renderTimer !== null) {
+            window.clearTimeout(this.renderTimer)
+            this.renderTimer = null
+        }
+    }
+
+    /**
+     * 취소 버튼: 처리 중이면 요청을 중단하고, 아니면 모달을 닫음
+     */
+    private cancelProcessing(): void {
+        if (this.abortController && (this.state === 'preparing' || this.state === 'processing')) {
+            this.abortController.abort()
+            return
+        }
+        this.close()
     }
 
     /**
@@ -277,7 +396,7 @@ export class ProcessModal extends Modal {
 
         // 초기에는 취소 버튼만 표시
         const cancelBtn = this.actionsEl.createEl('button', {
-            text: '취소',
+            text: t('common.cancel'),
             cls: 'mod-cancel'
         })
         cancelBtn.style.cssText = `
@@ -287,7 +406,7 @@ export class ProcessModal extends Modal {
             background: var(--background-secondary);
             cursor: pointer;
         `
-        cancelBtn.onclick = () => this.close()
+        cancelBtn.onclick = () => this.cancelProcessing()
     }
 
     /**
@@ -300,7 +419,7 @@ export class ProcessModal extends Modal {
 
         // 닫기 버튼
         const closeBtn = this.actionsEl.createEl('button', {
-            text: '닫기',
+            text: t('common.close'),
             cls: 'mod-cancel'
         })
         closeBtn.style.cssText = `
@@ -314,7 +433,7 @@ export class ProcessModal extends Modal {
 
         // 클립보드 복사 버튼
         const copyBtn = this.actionsEl.createEl('button', {
-            text: '📋 복사',
+            text: t('processModal.copy'),
             cls: 'mod-secondary'
         })
         copyBtn.style.cssText = `
@@ -326,12 +445,12 @@ export class ProcessModal extends Modal {
         `
         copyBtn.onclick = async () => {
             await navigator.clipboard.writeText(this.resultContent)
-            showSuccess('클립보드에 복사되었습니다.')
+            showSuccess(t('processModal.copied'))
         }
 
         // 새 노트로 저장 버튼
         const saveBtn = this.actionsEl.createEl('button', {
-            text: '💾 새 노트로 저장',
+            text: t('processModal.saveAsNote'),
             cls: 'mod-cta'
         })
         saveBtn.style.cssText = `
@@ -358,7 +477,7 @@ export class ProcessModal extends Modal {
 
         // 닫기 버튼
         const closeBtn = this.actionsEl.createEl('button', {
-            text: '닫기',
+            text: t('common.close'),
             cls: 'mod-cancel'
         })
         closeBtn.style.cssText = `
@@ -372,7 +491,7 @@ export class ProcessModal extends Modal {
 
         // 재시도 버튼
         const retryBtn = this.actionsEl.createEl('button', {
-            text: '🔄 재시도',
+            text: t('processModal.retry'),
             cls: 'mod-cta'
         })
         retryBtn.style.cssText = `
@@ -389,6 +508,7 @@ export class ProcessModal extends Modal {
             this.resultContent = ''
             this.errorMessage = ''
             this.updateStatus()
+            if (this.stepsEl) this.stepsEl.style.display = 'none'
             this.renderResult()
             this.renderActions()
             this.startProcessing()
@@ -407,27 +527,69 @@ export class ProcessModal extends Modal {
         try {
             const aiService = getAIService()
             if (!aiService) {
-                throw new Error('AI Service가 초기화되지 않았습니다.')
+                throw new Error(t('processModal.serviceNotInitialized'))
             }
 
-            // 프롬프트 생성
-            const prompt = this.buildPrompt()
             this.state = 'processing'
             this.updateStatus()
             this.updateProgress(30)
 
-            // AI 호출
-            this.updateProgress(50)
+            this.abortController = new AbortController()
+            const signal = this.abortController.signal
+            const maxTokens = 4000
+
+            // 콘텐츠가 모델의 컨텍스트 예산을 넘으면 청크별 요약 후 템플릿 프롬프트로 통합
+            const summarizer = new MapReduceSummarizer(aiService, {
+                providerId: this.config.provider,
+                model: this.config.model,
+                language: this.getLanguageName(),
+                reservedTokens: estimateTokens(this.buildMessages('').map((message) => message.content).join('\n')) + maxTokens,
+                signal,
+                onProgress: (processState) => this.updateSteps(processState)
+            })
+
+            // AI 호출 (스트리밍)
+            const response = await summarizer.run(this.clipData.content, (content) => {
+                this.updateProgress(70)
+                return aiService.generateTextStreamWithProvider(
+                    this.config.provider,
+                    this.buildMessages(content),
+                    (chunk) => {
+                        if (signal.aborted) return
+                        if (!this.resultContent) {
+                            this.updateProgress(80)
+                        }
+                        this.resultContent += chunk
+                        this.scheduleResultUpdate()
+                    },
+                    { model: this.config.model, temperature: this.config.temperature ?? 0.7, maxTokens, signal }
+                )
+            })
+
+            this.abortController = null
+            this.cancelScheduledRender()
+
+            if (signal.aborted || response.errorCode === 'ABORTED') {
+                this.endTime = Date.now()
+                this.state = 'cancelled'
+                this.updateStatus()
+                if (this.resultContent) {
+                    // 받은 부분까지는 저장할 수 있도록 유지
+                    await this.updateResult(this.resultContent)
+                    this.updateActionsForCompletion()
+                } else {
+                    this.showError(t('processModal.requestCancelled'))
+                    this.updateActionsForError()
+                }
+                return
+            }
 
-            const response = await aiService.generateTextWithProvider(
-                this.config.provider,
-                [{ role: 'user', content: prompt }],
-                { temperature: 0.7, maxTokens: 4000 }
-            )
+            if (!response.success) {
+                throw new Error(response.error || t('processModal.noResponse'))
+            }
 
-            const fullContent = response.content
-            this.resultContent = fullContent
-            await this.updateResult(fullContent)
+            this.resultContent = response.content
+            await this.updateResult(this.resultContent)
             this.updateProgress(90)
 
             // 완료
@@ -438,37 +600,72 @@ export class ProcessModal extends Modal {
             this.updateActionsForCompletion()
 
         } catch (error) {
+            this.abortController = null
+            this.cancelScheduledRender()
             this.endTime = Date.now()
             this.state = 'error'
-            this.errorMessage = error instanceof Error ? error.message : '알 수 없는 오류'
+            this.errorMessage = error instanceof Error ? error.message : t('common.unknownError')
             this.updateStatus()
             this.showError(this.errorMessage)
             this.updateActionsForError()
         }
     }
 
+    /**
+     * 응답 언어 이름 (템플릿 {{language}} 변수 및 부분 요약용)
+     */
+    private getLanguageName(): string {
+        return this.config.language === 'ko' ? '한국어' : this.config.language
+    }
+
+    /**
+     * 요청 메시지 생성 (템플릿 시스템 프롬프트 + 사용자 프롬프트)
+     * @param content 분석할 내용 (원문 또는 부분 요약 모음)
+     */
+    private buildMessages(content: string): AIMessage[] {
+        const messages: AIMessage[] = []
+
+        const systemPrompt = getTemplate(this.config.templateId)?.systemPrompt
+        if (systemPrompt) {
+            messages.push({ role: 'system', content: renderTemplatePrompt(systemPrompt, this.getTemplateVariables(content)) })
+        }
+        messages.push({ role: 'user', content: this.buildPrompt(content) })
+
+        return messages
+    }
+
+    private getTemplateVariables(content: string): TemplateVariables {
+        return {
+            content,
+            title: this.clipData.title,
+            url: this.clipData.url,
+            language: this.getLanguageName()
+        }
+    }
+
     /**
      * 프롬프트 생성
+     * @param content 분석할 내용 (원문 또는 부분 요약 모음)
      */
-    private buildPrompt(): string {
+    private buildPrompt(content: string): string {
         let basePrompt = ''
 
         // 템플릿 또는 커스텀 프롬프트
-        if (this.config.templateId) {
-            basePrompt = AnalysisModal.getTemplatePrompt(this.config.templateId) || ''
+        const template = getTemplate(this.config.templateId)
+        if (template) {
+            basePrompt = template.userPrompt
         }
 
         if (this.config.customPrompt) {
             if (basePrompt) {
                 basePrompt += '\n\n추가 지시사항:\n' + this.config.customPrompt
             } else {
-                basePrompt = this.config.customPrompt + '\n\n## 분석할 내용\n{content}'
+                basePrompt = this.config.customPrompt + '\n\n## 분석할 내용\n{{content}}'
             }
         }
 
-        // 콘텐츠 삽입
-        const content = this.clipData.content
-        let finalPrompt = basePrompt.replace('{content}', content)
+        // 변수 치환 ({{content}}, {{title}}, {{url}}, {{language}})
+        let finalPrompt = renderTemplatePrompt(basePrompt, this.getTemplateVariables(content))
 
         // 메타데이터 추가
         if (this.config.includeMetadata) {
@@ -527,76 +724,42 @@ ${this.clipData.metadata?.siteName ? `- 사이트: ${this.clipData.metadata.site
      */
     private async saveAsNote(): Promise<void> {
         if (!this.resultContent) {
-            showWarning('저장할 내용이 없습니다.')
+            showWarning(t('processModal.nothingToSave'))
             return
         }
 
         try {
             // 노트 내용 구성
-            const noteContent = this.buildNoteContent()
+            const noteContent = await this.buildNoteContent()
 
             // 제목 생성
-            const title = `${this.clipData.title} - AI 분석`
+            const title = t('processModal.noteTitle', { title: this.clipData.title })
 
             // 저장
             const file = await this.onSave(noteContent, title)
 
             if (file) {
-                showSuccess(`"${file.basename}" 노트가 생성되었습니다.`)
+                showSuccess(t('processModal.noteCreated', { name: file.basename }))
                 this.close()
             }
         } catch (error) {
-            const message = error instanceof Error ? error.message : '저장 실패'
+            const message = error instanceof Error ? error.message : t('processModal.saveFailed')
             showError(message)
         }
     }
 
     /**
-     * 노트 내용 구성
+     * 노트 내용 구성 (AI 결과 노트 템플릿 사용)
      */
-    private buildNoteContent(): string {
-        const now = new Date()
-        const timestamp = now.toISOString().split('T')[0]
-
-        let content = `---
-title: "${this.clipData.title} - AI 분석"
-source: "${this.clipData.url}"
-created: ${timestamp}
-type: ai-analysis
-provider: ${this.config.provider}
-template: ${this.config.templateId || 'custom'}
-tags:
-  - ai-analysis
-  - easy-gate
----
-
-# ${this.clipData.title}
-
-> 🔗 원본: [${this.clipData.url}](${this.clipData.url})
-> 🤖 분석: ${AI_PROVIDERS[this.config.provider].displayName}
-> 📅 생성: ${timestamp}
-
----
-
-${this.resultContent}
-
----
-
-## 원본 정보
-
-- **제목**: ${this.clipData.title}
-- **URL**: ${this.clipData.url}
-`
-        if (this.clipData.metadata?.author) {
-            content += `- **작성자**: ${this.clipData.metadata.author}\n`
-        }
-        if (this.clipData.metadata?.date) {
-            content += `- **작성일**: ${this.clipData.metadata.date}\n`
-        }
-        if (this.clipData.metadata?.siteName) {
-            content += `- **사이트**: ${this.clipData.metadata.siteName}\n`
-        }
+    private async buildNoteContent(): Promise<string> {
+        const data = NoteRenderer.fromClip(this.clipData, {
+            date: new Date(),
+            ai: this.resultContent,
+            provider: AI_PROVIDERS[this.config.provider].displayName,
+            template: getTemplate(this.config.templateId)?.name || 'custom',
+            type: 'ai-analysis'
+        })
 
-        return content
+        return NoteRenderer.renderWithTemplate(this.app.vault, this.noteTemplatePath, getDefaultAINoteTemplate(), data)
     }
 }
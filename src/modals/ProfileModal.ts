@@ -0,0 +1,84 @@
+/**
+ * ProfileModal - 게이트 세션 프로필 편집 모달
+ *
+ * 프로필 이름과 배지 색상을 편집합니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { createProfileBadge, GateProfile, PROFILE_COLORS, ProfileColor } from '../profiles'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface ProfileModalOptions {
+    app: App
+    profile: GateProfile
+    onSubmit: (profile: GateProfile) => void | Promise<void>
+}
+
+export class ProfileModal extends Modal {
+    private profile: GateProfile
+    private onSubmit: ProfileModalOptions['onSubmit']
+
+    constructor(options: ProfileModalOptions) {
+        super(options.app)
+        // 저장 전까지 원본을 건드리지 않도록 복사본 편집
+        this.profile = { ...options.profile }
+        this.onSubmit = options.onSubmit
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('profile.title') })
+
+        new Setting(contentEl).setName(t('profile.name')).addText((text) =>
+            text
+                .setPlaceholder(t('profile.namePlaceholder'))
+                .setValue(this.profile.name)
+                .onChange((value) => {
+                    this.profile.name = value.trim()
+                })
+        )
+
+        const colorSetting = new Setting(contentEl).setName(t('profile.color'))
+        const badgeEl = colorSetting.controlEl.createDiv()
+        const renderBadge = () => {
+            badgeEl.empty()
+            createProfileBadge(badgeEl, this.profile)
+        }
+        colorSetting.addDropdown((dropdown) => {
+            for (const color of PROFILE_COLORS) {
+                dropdown.addOption(color, t(`profile.color.${color}`))
+            }
+            dropdown.setValue(this.profile.color).onChange((value) => {
+                this.profile.color = value as ProfileColor
+                renderBadge()
+            })
+        })
+        renderBadge()
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        if (!this.profile.name) {
+                            showError(t('profile.invalid'))
+                            return
+                        }
+                        await this.onSubmit(this.profile)
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+}
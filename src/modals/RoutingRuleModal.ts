@@ -0,0 +1,143 @@
+/**
+ * RoutingRuleModal - 링크 라우팅 규칙 편집 모달
+ *
+ * 주소 패턴(glob/정규식), 열 게이트와 위치를 편집하고, 예시 주소로 규칙을 확인할 수 있습니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { GateFrameOption, GateFrameOptionType } from '../GateOptions'
+import { matchRoutingRule, RoutingRule } from '../routing'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface RoutingRuleModalOptions {
+    app: App
+    rule: RoutingRule
+    gates: GateFrameOption[]
+    onSubmit: (rule: RoutingRule) => void | Promise<void>
+}
+
+export class RoutingRuleModal extends Modal {
+    private rule: RoutingRule
+    private gates: GateFrameOption[]
+    private onSubmit: RoutingRuleModalOptions['onSubmit']
+    private testUrl = ''
+    private testResultEl: HTMLElement | null = null
+
+    constructor(options: RoutingRuleModalOptions) {
+        super(options.app)
+        // 저장 전까지 원본 규칙을 건드리지 않도록 복사본 편집
+        this.rule = { ...options.rule }
+        this.gates = options.gates
+        this.onSubmit = options.onSubmit
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('routingRule.title') })
+
+        new Setting(contentEl)
+            .setName(t('routingRule.pattern'))
+            .setDesc(t('routingRule.patternDesc'))
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption('glob', t('routingRule.glob'))
+                    .addOption('regex', t('routingRule.regex'))
+                    .setValue(this.rule.matchType)
+                    .onChange((value) => {
+                        this.rule.matchType = value as RoutingRule['matchType']
+                        this.updateTestResult()
+                    })
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder('*.github.com/my-org/**')
+                    .setValue(this.rule.pattern)
+                    .onChange((value) => {
+                        this.rule.pattern = value.trim()
+                        this.updateTestResult()
+                    })
+            )
+
+        new Setting(contentEl).setName(t('routingRule.gate')).addDropdown((dropdown) => {
+            dropdown.addOption('', t('routingRule.selectGate'))
+            for (const gate of this.gates) {
+                dropdown.addOption(gate.id, gate.title)
+            }
+            dropdown.setValue(this.rule.gateId).onChange((value) => {
+                this.rule.gateId = value
+            })
+        })
+
+        new Setting(contentEl)
+            .setName(t('routingRule.position'))
+            .setDesc(t('routingRule.positionDesc'))
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOption('', t('routingRule.gatePosition'))
+                    .addOption('left', t('gateForm.left'))
+                    .addOption('right', t('gateForm.right'))
+                    .addOption('center', t('gateForm.center'))
+                    .setValue(this.rule.position ?? '')
+                    .onChange((value) => {
+                        this.rule.position = value ? (value as GateFrameOptionType) : undefined
+                    })
+            )
+
+        const testSetting = new Setting(contentEl).setName(t('routingRule.test')).addText((text) =>
+            text.setPlaceholder('https://github.com/my-org/repo').onChange((value) => {
+                this.testUrl = value.trim()
+                this.updateTestResult()
+            })
+        )
+        this.testResultEl = testSetting.descEl
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        const error = this.validate()
+                        if (error) {
+                            showError(error)
+                            return
+                        }
+                        await this.onSubmit(this.rule)
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+
+    private validate(): string | null {
+        if (!this.rule.pattern) return t('routingRule.missingPattern')
+        if (!this.rule.gateId) return t('routingRule.missingGate')
+        if (this.rule.matchType === 'regex') {
+            try {
+                new RegExp(this.rule.pattern)
+            } catch (error) {
+                return t('routingRule.invalidRegex', { error: error instanceof Error ? error.message : String(error) })
+            }
+        }
+        return null
+    }
+
+    private updateTestResult(): void {
+        if (!this.testResultEl) return
+        if (!this.testUrl) {
+            this.testResultEl.setText('')
+            return
+        }
+        this.testResultEl.setText(matchRoutingRule(this.rule, this.testUrl) ? t('routingRule.testMatch') : t('routingRule.testNoMatch'))
+    }
+}
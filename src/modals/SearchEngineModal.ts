@@ -0,0 +1,91 @@
+/**
+ * SearchEngineModal - 주소창 검색 엔진 편집 모달
+ *
+ * 이름, 키워드, 검색 주소(%s 자리에 검색어)를 편집합니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { SearchEngine } from '../omnibox/types'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface SearchEngineModalOptions {
+    app: App
+    engine: SearchEngine
+    onSubmit: (engine: SearchEngine) => void | Promise<void>
+}
+
+export class SearchEngineModal extends Modal {
+    private engine: SearchEngine
+    private onSubmit: SearchEngineModalOptions['onSubmit']
+
+    constructor(options: SearchEngineModalOptions) {
+        super(options.app)
+        // 저장 전까지 원본을 건드리지 않도록 복사본 편집
+        this.engine = { ...options.engine }
+        this.onSubmit = options.onSubmit
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('searchEngine.title') })
+
+        new Setting(contentEl).setName(t('searchEngine.name')).addText((text) =>
+            text
+                .setPlaceholder('Google')
+                .setValue(this.engine.name)
+                .onChange((value) => {
+                    this.engine.name = value.trim()
+                })
+        )
+
+        new Setting(contentEl)
+            .setName(t('searchEngine.keyword'))
+            .setDesc(t('searchEngine.keywordDesc'))
+            .addText((text) =>
+                text
+                    .setPlaceholder('g')
+                    .setValue(this.engine.keyword)
+                    .onChange((value) => {
+                        this.engine.keyword = value.trim()
+                    })
+            )
+
+        new Setting(contentEl)
+            .setName(t('searchEngine.url'))
+            .setDesc(t('searchEngine.urlDesc'))
+            .addText((text) =>
+                text
+                    .setPlaceholder('https://www.google.com/search?q=%s')
+                    .setValue(this.engine.url)
+                    .onChange((value) => {
+                        this.engine.url = value.trim()
+                    })
+            )
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        if (!this.engine.name || !this.engine.url.includes('%s')) {
+                            showError(t('searchEngine.invalid'))
+                            return
+                        }
+                        await this.onSubmit(this.engine)
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * SiteRuleModal - 사이트별 추출 규칙 편집 모달
+ *
+ * 호스트명 패턴, 본문/제거 선택자, 제목/작성자/날짜 선택자와
+ * 추출 전에 실행할 스크립트를 편집합니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { SiteRule } from '../ai/types'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface SiteRuleModalOptions {
+    app: App
+    rule: SiteRule
+    onSubmit: (rule: SiteRule) => void | Promise<void>
+}
+
+export class SiteRuleModal extends Modal {
+    private rule: SiteRule
+    private onSubmit: SiteRuleModalOptions['onSubmit']
+
+    constructor(options: SiteRuleModalOptions) {
+        super(options.app)
+        // 저장 전까지 원본 규칙을 건드리지 않도록 복사본 편집
+        this.rule = {
+            ...options.rule,
+            contentSelectors: [...options.rule.contentSelectors],
+            removeSelectors: [...options.rule.removeSelectors]
+        }
+        this.onSubmit = options.onSubmit
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('siteRule.title') })
+
+        new Setting(contentEl)
+            .setName(t('siteRule.hostPattern'))
+            .setDesc(t('siteRule.hostPatternDesc'))
+            .addText((text) =>
+                text
+                    .setPlaceholder('*.example.com')
+                    .setValue(this.rule.hostPattern)
+                    .onChange((value) => {
+                        this.rule.hostPattern = value.trim()
+                    })
+            )
+
+        new Setting(contentEl)
+            .setName(t('siteRule.contentSelectors'))
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('siteRule.contentSelectorsDesc'))
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder('article .post-body')
+                    .setValue(this.rule.contentSelectors.join('\n'))
+                    .onChange((value) => {
+                        this.rule.contentSelectors = this.parseLines(value)
+                    })
+            )
+
+        new Setting(contentEl)
+            .setName(t('siteRule.removeSelectors'))
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('siteRule.removeSelectorsDesc'))
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder('.newsletter-signup')
+                    .setValue(this.rule.removeSelectors.join('\n'))
+                    .onChange((value) => {
+                        this.rule.removeSelectors = this.parseLines(value)
+                    })
+            )
+
+        this.addSelectorField(contentEl, t('siteRule.titleSelector'), 'titleSelector', 'h1.headline')
+        this.addSelectorField(contentEl, t('siteRule.authorSelector'), 'authorSelector', '.byline a')
+        this.addSelectorField(contentEl, t('siteRule.dateSelector'), 'dateSelector', 'time[datetime]')
+
+        new Setting(contentEl)
+            .setName(t('siteRule.preScript'))
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('siteRule.preScriptDesc'))
+            .addTextArea((text) =>
+                text.setValue(this.rule.preScript ?? '').onChange((value) => {
+                    this.rule.preScript = value.trim() || undefined
+                })
+            )
+
+        new Setting(contentEl).setName(t('siteRule.enabled')).addToggle((toggle) =>
+            toggle.setValue(this.rule.enabled).onChange((value) => {
+                this.rule.enabled = value
+            })
+        )
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        if (!this.rule.hostPattern) {
+                            showError(t('siteRule.hostPatternRequired'))
+                            return
+                        }
+                        await this.onSubmit(this.rule)
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+
+    private addSelectorField(containerEl: HTMLElement, name: string, key: 'titleSelector' | 'authorSelector' | 'dateSelector', placeholder: string): void {
+        new Setting(containerEl).setName(name).addText((text) =>
+            text
+                .setPlaceholder(placeholder)
+                .setValue(this.rule[key] ?? '')
+                .onChange((value) => {
+                    this.rule[key] = value.trim() || undefined
+                })
+        )
+    }
+
+    private parseLines(value: string): string[] {
+        return value
+            .split('\n')
+            .map((line) => line.trim())
+            .filter((line) => line)
+    }
+}
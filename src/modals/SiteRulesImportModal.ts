@@ -0,0 +1,71 @@
+/**
+ * SiteRulesImportModal - 사이트 추출 규칙 JSON 가져오기 모달
+ *
+ * 내보내기 형식({ version, rules }) 또는 규칙 배열 JSON을 붙여넣어 가져옵니다.
+ * 같은 호스트명 패턴의 기존 규칙은 덮어씁니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { SiteRule } from '../ai/types'
+import { parseSiteRules } from '../clipping/SiteRules'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface SiteRulesImportModalOptions {
+    app: App
+    onImport: (rules: SiteRule[]) => void | Promise<void>
+}
+
+export class SiteRulesImportModal extends Modal {
+    private onImport: SiteRulesImportModalOptions['onImport']
+    private json = ''
+
+    constructor(options: SiteRulesImportModalOptions) {
+        super(options.app)
+        this.onImport = options.onImport
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('siteRulesImport.title') })
+
+        new Setting(contentEl)
+            .setName('JSON')
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('siteRulesImport.desc'))
+            .addTextArea((text) => {
+                text.inputEl.rows = 12
+                text.onChange((value) => {
+                    this.json = value
+                })
+            })
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('siteRulesImport.import'))
+                    .setCta()
+                    .onClick(async () => {
+                        let rules: SiteRule[]
+                        try {
+                            rules = parseSiteRules(this.json)
+                        } catch (error) {
+                            showError(t('siteRulesImport.failed', { error: (error as Error).message }))
+                            return
+                        }
+                        await this.onImport(rules)
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * TemplateModal - 분석 템플릿 편집 모달
+ *
+ * 이름, 설명, 시스템/사용자 프롬프트, 출력 형식과
+ * 기본 Provider/모델/temperature를 편집합니다.
+ */
+
+import { App, Modal, Setting } from 'obsidian'
+import { AI_PROVIDERS, AIProviderType, AnalysisTemplate, TemplateOutputFormat } from '../ai/types'
+import { hasContentVariable } from '../ai/TemplateRegistry'
+import { showError } from '../ui/ToastNotification'
+import { t } from '../i18n'
+
+export interface TemplateModalOptions {
+    app: App
+    template: AnalysisTemplate
+    onSubmit: (template: AnalysisTemplate) => void | Promise<void>
+}
+
+export class TemplateModal extends Modal {
+    private template: AnalysisTemplate
+    private onSubmit: TemplateModalOptions['onSubmit']
+
+    constructor(options: TemplateModalOptions) {
+        super(options.app)
+        // 저장 전까지 원본 템플릿을 건드리지 않도록 복사본 편집
+        // 기본 템플릿을 편집하면 같은 id의 사용자 템플릿으로 저장되어 기본 템플릿을 덮어씀
+        this.template = { ...options.template, builtIn: undefined }
+        this.onSubmit = options.onSubmit
+    }
+
+    onOpen() {
+        const { contentEl } = this
+        contentEl.createEl('h3', { text: t('templateModal.title') })
+
+        new Setting(contentEl).setName(t('templateModal.name')).addText((text) =>
+            text
+                .setPlaceholder(t('templateModal.namePlaceholder'))
+                .setValue(this.template.name)
+                .onChange((value) => {
+                    this.template.name = value.trim()
+                })
+        )
+
+        new Setting(contentEl).setName(t('templateModal.description')).addText((text) =>
+            text.setValue(this.template.description).onChange((value) => {
+                this.template.description = value.trim()
+            })
+        )
+
+        new Setting(contentEl)
+            .setName(t('templateModal.icon'))
+            .setDesc(t('templateModal.iconDesc'))
+            .addText((text) =>
+                text.setValue(this.template.icon).onChange((value) => {
+                    this.template.icon = value.trim() || 'file-text'
+                })
+            )
+
+        new Setting(contentEl)
+            .setName(t('templateModal.systemPrompt'))
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('templateModal.systemPromptDesc'))
+            .addTextArea((text) =>
+                text.setValue(this.template.systemPrompt).onChange((value) => {
+                    this.template.systemPrompt = value.trim()
+                })
+            )
+
+        new Setting(contentEl)
+            .setName(t('templateModal.userPrompt'))
+            .setClass('open-gate--form-field--column')
+            .setDesc(t('templateModal.userPromptDesc'))
+            .addTextArea((text) => {
+                text.inputEl.rows = 8
+                text.setValue(this.template.userPrompt).onChange((value) => {
+                    this.template.userPrompt = value.trim()
+                })
+            })
+
+        new Setting(contentEl).setName(t('templateModal.outputFormat')).addDropdown((dropdown) => {
+            dropdown.addOption('markdown', t('templateModal.format.markdown'))
+            dropdown.addOption('summary', t('templateModal.format.summary'))
+            dropdown.addOption('bullets', t('templateModal.format.bullets'))
+            dropdown.addOption('qa', t('templateModal.format.qa'))
+            dropdown.setValue(this.template.outputFormat)
+            dropdown.onChange((value) => {
+                this.template.outputFormat = value as TemplateOutputFormat
+            })
+        })
+
+        new Setting(contentEl)
+            .setName(t('templateModal.provider'))
+            .setDesc(t('templateModal.providerDesc'))
+            .addDropdown((dropdown) => {
+                dropdown.addOption('', t('templateModal.useSelectedProvider'))
+                for (const provider of Object.values(AI_PROVIDERS)) {
+                    dropdown.addOption(provider.id, provider.displayName)
+                }
+                dropdown.setValue(this.template.provider ?? '')
+                dropdown.onChange((value) => {
+                    this.template.provider = (value as AIProviderType) || undefined
+                })
+            })
+
+        new Setting(contentEl)
+            .setName(t('templateModal.model'))
+            .setDesc(t('templateModal.modelDesc'))
+            .addText((text) =>
+                text.setValue(this.template.model ?? '').onChange((value) => {
+                    this.template.model = value.trim() || undefined
+                })
+            )
+
+        new Setting(contentEl)
+            .setName('Temperature')
+            .setDesc(t('templateModal.temperatureDesc'))
+            .addText((text) =>
+                text
+                    .setPlaceholder('0.7')
+                    .setValue(this.template.temperature !== undefined ? String(this.template.temperature) : '')
+                    .onChange((value) => {
+                        const temperature = parseFloat(value)
+                        this.template.temperature = isNaN(temperature) ? undefined : Math.min(2, Math.max(0, temperature))
+                    })
+            )
+
+        new Setting(contentEl)
+            .addButton((btn) =>
+                btn.setButtonText(t('common.cancel')).onClick(() => {
+                    this.close()
+                })
+            )
+            .addButton((btn) =>
+                btn
+                    .setButtonText(t('common.save'))
+                    .setCta()
+                    .onClick(async () => {
+                        if (!this.template.name) {
+                            showError(t('templateModal.nameRequired'))
+                            return
+                        }
+                        if (!hasContentVariable(this.template.userPrompt)) {
+                            this.template.userPrompt = `${this.template.userPrompt}\n\n{{content}}`.trim()
+                        }
+                        await this.onSubmit(this.template)
+                        this.close()
+                    })
+            )
+    }
+
+    onClose() {
+        const { contentEl } = this
+        contentEl.empty()
+    }
+}
@@ -5,7 +5,7 @@
  */
 
 // Analysis Modal
-export { AnalysisModal } from './AnalysisModal'
+export { AnalysisModal, applyTemplateDefaults } from './AnalysisModal'
 export type { AnalysisModalOptions, AnalysisConfig } from './AnalysisModal'
 
 // Process Modal
@@ -15,3 +15,47 @@ export type { ProcessModalOptions } from './ProcessModal'
 // Multi-Source Analysis Modal
 export { MultiSourceAnalysisModal } from './MultiSourceAnalysisModal'
 export type { MultiSourceAnalysisModalOptions } from './MultiSourceAnalysisModal'
+
+// Template Modal
+export { TemplateModal } from './TemplateModal'
+export type { TemplateModalOptions } from './TemplateModal'
+
+// Site Rule Modals
+export { SiteRuleModal } from './SiteRuleModal'
+export type { SiteRuleModalOptions } from './SiteRuleModal'
+export { SiteRulesImportModal } from './SiteRulesImportModal'
+export type { SiteRulesImportModalOptions } from './SiteRulesImportModal'
+
+// History Modal
+export { HistorySearchModal } from './HistorySearchModal'
+export type { HistorySearchModalOptions } from './HistorySearchModal'
+
+// Bookmark Modal
+export { BookmarkModal } from './BookmarkModal'
+export type { BookmarkModalOptions } from './BookmarkModal'
+
+// Search Engine Modal
+export { SearchEngineModal } from './SearchEngineModal'
+export type { SearchEngineModalOptions } from './SearchEngineModal'
+
+// Highlight Modal
+export { HighlightModal } from './HighlightModal'
+export type { HighlightModalOptions } from './HighlightModal'
+
+// Profile Modal
+export { ProfileModal } from './ProfileModal'
+export type { ProfileModalOptions } from './ProfileModal'
+
+// Routing Rule Modal
+export { RoutingRuleModal } from './RoutingRuleModal'
+export type { RoutingRuleModalOptions } from './RoutingRuleModal'
+
+// Gate Bundle Modals
+export { ExportBundleModal } from './ExportBundleModal'
+export type { ExportBundleModalOptions } from './ExportBundleModal'
+export { ImportBundleModal } from './ImportBundleModal'
+export type { ImportBundleModalOptions } from './ImportBundleModal'
+
+// Gate File Diagnostics Modal
+export { GateFileDiagnosticsModal } from './GateFileDiagnosticsModal'
+export type { GateFileDiagnosticsModalOptions } from './GateFileDiagnosticsModal'
@@ -0,0 +1,126 @@
+/**
+ * OmniboxSuggest - 주소창 입력 추천
+ *
+ * 첫 항목은 항상 입력한 내용 그대로(주소 이동 또는 검색)이고,
+ * 이어서 일치하는 게이트, 북마크, 방문 기록을 보여줍니다.
+ */
+
+import { AbstractInputSuggest, App, prepareFuzzySearch, setIcon } from 'obsidian'
+import { GateFrameOption } from '../GateOptions'
+import { Bookmark, getBookmarkStore } from '../bookmarks'
+import { getHistoryStore, HistoryEntry } from '../history'
+import { t } from '../i18n'
+import { resolveOmniboxInput } from './resolveOmniboxInput'
+import { OmniboxSettings, OmniboxTarget } from './types'
+
+export type OmniboxSuggestion =
+    | { type: 'input'; target: OmniboxTarget }
+    | { type: 'gate'; gate: GateFrameOption }
+    | { type: 'bookmark'; bookmark: Bookmark }
+    | { type: 'history'; entry: HistoryEntry }
+
+export interface OmniboxSuggestOptions {
+    app: App
+    inputEl: HTMLInputElement
+    getSettings: () => OmniboxSettings
+    getGates: () => GateFrameOption[]
+    onChoose: (suggestion: OmniboxSuggestion) => void
+}
+
+// 종류별 최대 추천 수
+const MAX_PER_SOURCE = 4
+
+export class OmniboxSuggest extends AbstractInputSuggest<OmniboxSuggestion> {
+    private options: OmniboxSuggestOptions
+    private opened = false
+
+    constructor(options: OmniboxSuggestOptions) {
+        super(options.app, options.inputEl)
+        this.options = options
+    }
+
+    /**
+     * 추천 목록이 열려 있으면 Enter는 선택한 추천 항목이 처리함
+     */
+    get isOpen(): boolean {
+        return this.opened
+    }
+
+    open(): void {
+        super.open()
+        this.opened = true
+    }
+
+    close(): void {
+        super.close()
+        this.opened = false
+    }
+
+    protected getSuggestions(query: string): OmniboxSuggestion[] {
+        const settings = this.options.getSettings()
+        const target = resolveOmniboxInput(query, settings)
+        if (!target) return []
+
+        const suggestions: OmniboxSuggestion[] = [{ type: 'input', target }]
+        if (!settings.showSuggestions) return suggestions
+
+        const fuzzy = prepareFuzzySearch(query.trim())
+        const matches = (title: string, url: string) => Boolean(fuzzy(title) || fuzzy(url))
+        const seen = new Set<string>([target.url])
+        const isNew = (url: string) => !seen.has(url) && Boolean(seen.add(url))
+
+        this.options
+            .getGates()
+            .filter((gate) => matches(gate.title, gate.url) && isNew(gate.url))
+            .slice(0, MAX_PER_SOURCE)
+            .forEach((gate) => suggestions.push({ type: 'gate', gate }))
+        ;(getBookmarkStore()?.getAll() ?? [])
+            .filter((bookmark) => matches(bookmark.title, bookmark.url) && isNew(bookmark.url))
+            .slice(0, MAX_PER_SOURCE)
+            .forEach((bookmark) => suggestions.push({ type: 'bookmark', bookmark }))
+        ;(getHistoryStore()?.search(query) ?? [])
+            .filter((result) => !result.textMatch && isNew(result.entry.url))
+            .slice(0, MAX_PER_SOURCE)
+            .forEach((result) => suggestions.push({ type: 'history', entry: result.entry }))
+
+        return suggestions
+    }
+
+    renderSuggestion(suggestion: OmniboxSuggestion, el: HTMLElement): void {
+        el.addClass('gate-omnibox-item')
+        const { icon, title, note } = this.describe(suggestion)
+        setIcon(el.createDiv({ cls: 'gate-omnibox-icon' }), icon)
+
+        const bodyEl = el.createDiv({ cls: 'gate-omnibox-body' })
+        bodyEl.createDiv({ text: title, cls: 'gate-omnibox-title' })
+        if (note) {
+            bodyEl.createDiv({ text: note, cls: 'gate-omnibox-note' })
+        }
+    }
+
+    selectSuggestion(suggestion: OmniboxSuggestion): void {
+        this.close()
+        this.options.onChoose(suggestion)
+    }
+
+    private describe(suggestion: OmniboxSuggestion): { icon: string; title: string; note?: string } {
+        switch (suggestion.type) {
+            case 'input': {
+                const { target } = suggestion
+                return target.type === 'search'
+                    ? { icon: 'search', title: target.query, note: t('omnibox.searchWith', { engine: target.engine.name }) }
+                    : { icon: 'globe', title: target.url, note: t('omnibox.goTo') }
+            }
+            case 'gate':
+                return {
+                    icon: suggestion.gate.icon && !suggestion.gate.icon.startsWith('<') ? suggestion.gate.icon : 'globe',
+                    title: suggestion.gate.title,
+                    note: suggestion.gate.url
+                }
+            case 'bookmark':
+                return { icon: 'star', title: suggestion.bookmark.title, note: suggestion.bookmark.url }
+            case 'history':
+                return { icon: 'history', title: suggestion.entry.title, note: suggestion.entry.url }
+        }
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * Omnibox Module Index
+ *
+ * 주소창(URL/검색어 판별, 검색 엔진, 입력 추천)의 메인 진입점입니다.
+ */
+
+export { resolveOmniboxInput, getDefaultEngine, createSearchTarget } from './resolveOmniboxInput'
+
+export { OmniboxSuggest } from './OmniboxSuggest'
+export type { OmniboxSuggestion, OmniboxSuggestOptions } from './OmniboxSuggest'
+
+export { DEFAULT_OMNIBOX_SETTINGS, DEFAULT_SEARCH_ENGINES } from './types'
+export type { OmniboxSettings, OmniboxTarget, SearchEngine } from './types'
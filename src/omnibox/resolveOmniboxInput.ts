@@ -0,0 +1,52 @@
+/**
+ * resolveOmniboxInput - 주소창 입력을 URL 또는 검색으로 해석
+ *
+ * - 스킴이 있으면 그대로 사용 (https://, file://, about: ...)
+ * - "키워드 검색어" 형태면 해당 검색 엔진으로 검색 (예: "w obsidian")
+ * - 공백 없는 도메인 형태면 https:// (localhost와 IP 주소는 http://)
+ * - 나머지는 기본 검색 엔진으로 검색
+ */
+
+import { OmniboxSettings, OmniboxTarget, SearchEngine } from './types'
+
+const SCHEME_PATTERN = /^(https?|file|about|data|view-source|chrome):/i
+const LOCAL_HOST_PATTERN = /^(localhost|127(?:\.\d{1,3}){3}|\[[0-9a-f:]+\]|(?:\d{1,3}\.){3}\d{1,3})(:\d+)?([/?#].*)?$/i
+const DOMAIN_PATTERN = /^[^\s/?#:@]+\.[a-z][a-z0-9-]*\.?(:\d+)?([/?#]\S*)?$/i
+
+export function resolveOmniboxInput(input: string, settings: OmniboxSettings): OmniboxTarget | null {
+    const text = input.trim()
+    if (!text) return null
+
+    if (SCHEME_PATTERN.test(text)) {
+        return { type: 'url', url: text }
+    }
+
+    // 키워드 검색 ("g foo")
+    const keywordMatch = text.match(/^(\S+)\s+(.+)$/)
+    if (keywordMatch) {
+        const engine = settings.engines.find((candidate) => candidate.keyword && candidate.keyword === keywordMatch[1])
+        if (engine) {
+            return createSearchTarget(engine, keywordMatch[2].trim())
+        }
+    }
+
+    if (!/\s/.test(text)) {
+        if (LOCAL_HOST_PATTERN.test(text)) {
+            return { type: 'url', url: `http://${text}` }
+        }
+        if (DOMAIN_PATTERN.test(text)) {
+            return { type: 'url', url: `https://${text}` }
+        }
+    }
+
+    const engine = getDefaultEngine(settings)
+    return engine ? createSearchTarget(engine, text) : { type: 'url', url: `https://${text}` }
+}
+
+export function getDefaultEngine(settings: OmniboxSettings): SearchEngine | undefined {
+    return settings.engines.find((engine) => engine.id === settings.defaultEngine) ?? settings.engines[0]
+}
+
+export function createSearchTarget(engine: SearchEngine, query: string): OmniboxTarget {
+    return { type: 'search', url: engine.url.replace(/%s/g, encodeURIComponent(query)), engine, query }
+}
@@ -0,0 +1,35 @@
+/**
+ * Omnibox Types - 주소창(검색 엔진, 추천) 관련 타입
+ */
+
+export interface SearchEngine {
+    id: string
+    name: string
+    keyword: string // 주소창에서 "키워드 검색어"로 이 엔진 사용 (예: "g obsidian")
+    url: string // 검색 주소, %s 자리에 검색어가 들어감
+}
+
+export interface OmniboxSettings {
+    defaultEngine: string // 기본 검색 엔진 id
+    engines: SearchEngine[]
+    showSuggestions: boolean // 입력 중 게이트/북마크/방문 기록 추천 표시
+}
+
+export const DEFAULT_SEARCH_ENGINES: SearchEngine[] = [
+    { id: 'google', name: 'Google', keyword: 'g', url: 'https://www.google.com/search?q=%s' },
+    { id: 'duckduckgo', name: 'DuckDuckGo', keyword: 'd', url: 'https://duckduckgo.com/?q=%s' },
+    { id: 'bing', name: 'Bing', keyword: 'b', url: 'https://www.bing.com/search?q=%s' },
+    { id: 'naver', name: 'Naver', keyword: 'n', url: 'https://search.naver.com/search.naver?query=%s' },
+    { id: 'wikipedia', name: 'Wikipedia', keyword: 'w', url: 'https://en.wikipedia.org/wiki/Special:Search?search=%s' }
+]
+
+export const DEFAULT_OMNIBOX_SETTINGS: OmniboxSettings = {
+    defaultEngine: 'google',
+    engines: DEFAULT_SEARCH_ENGINES,
+    showSuggestions: true
+}
+
+/**
+ * 주소창 입력을 해석한 결과
+ */
+export type OmniboxTarget = { type: 'url'; url: string } | { type: 'search'; url: string; engine: SearchEngine; query: string }
@@ -0,0 +1,11 @@
+import { GateProfile } from './types'
+
+/**
+ * 프로필 색상 점 (탭, 게이트 편집 창, 설정 목록에서 사용)
+ */
+export function createProfileBadge(parent: HTMLElement, profile: GateProfile): HTMLElement {
+    return parent.createSpan({
+        cls: 'gate-profile-badge',
+        attr: { 'data-color': profile.color, 'aria-label': profile.name }
+    })
+}
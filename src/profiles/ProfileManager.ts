@@ -0,0 +1,131 @@
+/**
+ * ProfileManager - 게이트 세션 프로필 관리
+ *
+ * 프로필 목록을 보관하고, 프로필마다 webview partition(persist:<key>)의
+ * 쿠키/저장소/캐시를 조회하거나 지웁니다. 세션은 메인 프로세스 API라 @electron/remote로 연결합니다.
+ */
+
+import { getElectronRemote } from '../fns/getElectronRemote'
+import { getWebviewPartition } from '../fns/createWebviewTag'
+import { findProfile } from './Profiles'
+import { DEFAULT_PROFILE_KEY, GateProfile, ProfileDataType, ProfileUsage } from './types'
+
+export interface ProfileManagerOptions {
+    profiles: GateProfile[]
+}
+
+// 쿠키 외에 사이트가 남기는 저장소 (clearStorageData의 storages 값)
+const SITE_STORAGES = ['filesystem', 'indexdb', 'localstorage', 'shadercache', 'websql', 'serviceworkers', 'cachestorage']
+
+/**
+ * ProfileManager 클래스
+ */
+export class ProfileManager {
+    private profiles: GateProfile[]
+
+    constructor(options: ProfileManagerOptions) {
+        this.profiles = options.profiles
+    }
+
+    getProfiles(): GateProfile[] {
+        return this.profiles
+    }
+
+    getProfile(key?: string): GateProfile | undefined {
+        return findProfile(this.profiles, key)
+    }
+
+    updateProfiles(profiles: GateProfile[]): void {
+        this.profiles = profiles
+    }
+
+    /**
+     * 세션 데이터를 다룰 수 있는지 (데스크톱 전용)
+     */
+    get canManageData(): boolean {
+        return getElectronRemote() !== null
+    }
+
+    /**
+     * 프로필 세션의 쿠키 수와 캐시 크기
+     */
+    async getUsage(key: string): Promise<ProfileUsage | null> {
+        const session = this.getSession(key)
+        if (!session) return null
+
+        const [cookies, cacheBytes] = await Promise.all([session.cookies.get({}), session.getCacheSize()])
+        const sites = new Set(cookies.map((cookie) => (cookie.domain ?? '').replace(/^\./, '')))
+        return { cookies: cookies.length, sites: sites.size, cacheBytes }
+    }
+
+    /**
+     * 프로필 세션 데이터 삭제
+     */
+    async clearData(key: string, types: ProfileDataType[]): Promise<void> {
+        const session = this.getSession(key)
+        if (!session) return
+
+        const storages = [...(types.includes('cookies') ? ['cookies'] : []), ...(types.includes('storage') ? SITE_STORAGES : [])]
+        if (storages.length > 0) {
+            await session.clearStorageData({ storages })
+        }
+        if (types.includes('cache')) {
+            await session.clearCache()
+            await session.clearAuthCache()
+        }
+    }
+
+    /**
+     * 쿠키를 다른 프로필로 복사 (복제한 프로필이 로그인 상태를 이어받도록)
+     * 대상 프로필의 기존 데이터는 먼저 지웁니다.
+     */
+    async copyData(fromKey: string, toKey: string): Promise<void> {
+        const source = this.getSession(fromKey)
+        const target = this.getSession(toKey)
+        if (!source || !target) return
+
+        await this.clearData(toKey, ['cookies', 'storage', 'cache'])
+        for (const cookie of await source.cookies.get({})) {
+            const domain = (cookie.domain ?? '').replace(/^\./, '')
+            try {
+                await target.cookies.set({
+                    url: `${cookie.secure ? 'https' : 'http'}://${domain}${cookie.path ?? '/'}`,
+                    name: cookie.name,
+                    value: cookie.value,
+                    domain: cookie.hostOnly ? undefined : cookie.domain,
+                    path: cookie.path,
+                    secure: cookie.secure,
+                    httpOnly: cookie.httpOnly,
+                    expirationDate: cookie.expirationDate,
+                    sameSite: cookie.sameSite
+                })
+            } catch (error) {
+                console.warn(`[ProfileManager] Failed to copy cookie ${cookie.name} for ${domain}:`, error)
+            }
+        }
+    }
+
+    private getSession(key: string): Electron.Session | null {
+        return getElectronRemote()?.session.fromPartition(getWebviewPartition(key || DEFAULT_PROFILE_KEY)) ?? null
+    }
+}
+
+/**
+ * 싱글톤 인스턴스 관리
+ */
+let profileManagerInstance: ProfileManager | null = null
+
+export function initializeProfileManager(options: ProfileManagerOptions): ProfileManager {
+    profileManagerInstance = new ProfileManager(options)
+    return profileManagerInstance
+}
+
+export function getProfileManager(): ProfileManager | null {
+    return profileManagerInstance
+}
+
+export function updateProfileSettings(profiles: GateProfile[]): void {
+    if (profileManagerInstance) {
+        profileManagerInstance.updateProfiles(profiles)
+    }
+}
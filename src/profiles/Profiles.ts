@@ -0,0 +1,42 @@
+/**
+ * Profiles - 프로필 목록 유틸리티
+ */
+
+import { GateFrameOption } from '../GateOptions'
+import { DEFAULT_PROFILE_KEY, DEFAULT_PROFILES, GateProfile, PROFILE_COLORS, ProfileColor } from './types'
+
+/**
+ * 새 프로필 생성 (키는 다른 프로필과 겹치지 않는 임의 값)
+ */
+export function createProfile(name: string, color: ProfileColor, profiles: GateProfile[]): GateProfile {
+    let key: string
+    do {
+        key = 'profile-' + Math.random().toString(36).substring(2, 10)
+    } while (profiles.some((profile) => profile.key === key))
+    return { key, name, color }
+}
+
+/**
+ * 키로 프로필 찾기 (비어 있으면 기본 프로필)
+ */
+export function findProfile(profiles: GateProfile[], key?: string): GateProfile | undefined {
+    return profiles.find((profile) => profile.key === (key || DEFAULT_PROFILE_KEY))
+}
+
+/**
+ * 게이트가 쓰는데 목록에 없는 프로필 키를 프로필로 추가
+ * 프로필 관리가 생기기 전에 직접 입력한 키도 세션을 그대로 유지합니다.
+ */
+export function syncProfilesWithGates(profiles: GateProfile[], gates: GateFrameOption[]): GateProfile[] {
+    const result = profiles.length > 0 ? [...profiles] : DEFAULT_PROFILES.map((profile) => ({ ...profile }))
+    if (!findProfile(result, DEFAULT_PROFILE_KEY)) {
+        result.unshift({ ...DEFAULT_PROFILES[0] })
+    }
+
+    for (const gate of gates) {
+        if (gate.profileKey && !findProfile(result, gate.profileKey)) {
+            result.push({ key: gate.profileKey, name: gate.profileKey, color: PROFILE_COLORS[result.length % PROFILE_COLORS.length] })
+        }
+    }
+    return result
+}
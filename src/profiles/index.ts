@@ -0,0 +1,14 @@
+/**
+ * Profiles Module Index
+ *
+ * 게이트 세션 프로필 기능의 메인 진입점입니다.
+ */
+
+export { ProfileManager, initializeProfileManager, getProfileManager, updateProfileSettings } from './ProfileManager'
+export type { ProfileManagerOptions } from './ProfileManager'
+
+export { createProfile, findProfile, syncProfilesWithGates } from './Profiles'
+export { createProfileBadge } from './ProfileBadge'
+
+export { DEFAULT_PROFILE_KEY, DEFAULT_PROFILES, PROFILE_COLORS } from './types'
+export type { GateProfile, ProfileColor, ProfileDataType, ProfileUsage } from './types'
@@ -0,0 +1,33 @@
+/**
+ * Profile Types - 게이트 세션 프로필 관련 타입
+ */
+
+// 프로필 배지 색상 (Obsidian 색상 변수 이름)
+export const PROFILE_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'pink'] as const
+
+export type ProfileColor = (typeof PROFILE_COLORS)[number]
+
+/**
+ * 게이트 세션 프로필 - 같은 프로필의 게이트는 쿠키와 저장소를 공유합니다.
+ */
+export interface GateProfile {
+    key: string // webview partition 이름 (persist:<key>)
+    name: string
+    color: ProfileColor
+}
+
+/**
+ * 프로필 세션 사용량 (데스크톱에서만 알 수 있음)
+ */
+export interface ProfileUsage {
+    cookies: number
+    sites: number // 쿠키를 남긴 사이트 수
+    cacheBytes: number
+}
+
+export type ProfileDataType = 'cookies' | 'storage' | 'cache'
+
+// 프로필을 지정하지 않은 게이트가 쓰는 기본 프로필 (normalizeGateOption과 같은 값)
+export const DEFAULT_PROFILE_KEY = 'open-gate'
+
+export const DEFAULT_PROFILES: GateProfile[] = [{ key: DEFAULT_PROFILE_KEY, name: 'Default', color: 'gray' }]
@@ -0,0 +1,119 @@
+/**
+ * UrlRouter - URL 라우팅 규칙 매칭
+ *
+ * 노트의 링크 클릭과 obsidian://opengate 링크가 같은 규칙으로 게이트를 고릅니다.
+ */
+
+import { GateFrameOption, GateFrameOptionType } from '../GateOptions'
+import { RoutingRule } from './types'
+
+export interface Route {
+    gate: GateFrameOption
+    position?: GateFrameOptionType
+    rule: RoutingRule
+}
+
+/**
+ * 새 규칙 생성
+ */
+export function createEmptyRoutingRule(gateId = ''): RoutingRule {
+    return {
+        id: `routing-rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        pattern: '',
+        matchType: 'glob',
+        gateId,
+        enabled: true
+    }
+}
+
+/**
+ * glob 패턴을 정규식으로 변환
+ * "*"는 "/"를 제외한 임의의 문자열, "**"는 "/"를 포함한 임의의 문자열과 일치합니다.
+ * "/"가 없는 패턴은 호스트만 비교하고, "*.example.com"은 "example.com" 자체도 포함합니다.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    let normalized = pattern
+        .trim()
+        .toLowerCase()
+        .replace(/^[a-z]+:\/\//, '')
+        .replace(/^www\./, '')
+    if (!normalized.includes('/')) {
+        normalized += '/**'
+    }
+
+    const slash = normalized.indexOf('/')
+    const host = normalized.slice(0, slash)
+    const path = normalized.slice(slash).replace(/\/$/, '')
+
+    const hostSource = host.startsWith('*.') ? `(?:[^/]*\\.)?${convertGlob(host.slice(2))}` : convertGlob(host)
+    // 끝의 "/**"는 그 경로 자체("/docs")도 포함
+    const pathSource = path.endsWith('/**') ? `${convertGlob(path.slice(0, -3))}(?:/.*)?` : convertGlob(path)
+    return new RegExp(`^${hostSource}${pathSource}$`)
+}
+
+/**
+ * 규칙이 URL과 일치하는지 (http/https만, 잘못된 정규식은 일치하지 않음)
+ */
+export function matchRoutingRule(rule: RoutingRule, url: string): boolean {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return false
+    }
+    if (!/^https?:$/.test(parsed.protocol) || !rule.pattern.trim()) return false
+
+    if (rule.matchType === 'regex') {
+        try {
+            return new RegExp(rule.pattern, 'i').test(parsed.href)
+        } catch {
+            return false
+        }
+    }
+
+    // 대소문자와 끝의 "/"는 무시 ("example.com/Docs/"와 "example.com/docs"는 같은 주소)
+    const target = parsed.hostname.replace(/^www\./, '') + parsed.pathname.replace(/\/$/, '')
+    return globToRegExp(rule.pattern).test(target.toLowerCase())
+}
+
+/**
+ * URL을 열 게이트 찾기 (활성화된 규칙 중 목록 순서상 첫 번째, 지워진 게이트의 규칙은 건너뜀)
+ */
+export function findRoute(rules: RoutingRule[], gates: Record<string, GateFrameOption>, url: string): Route | null {
+    for (const rule of rules) {
+        const gate = gates[rule.gateId]
+        if (rule.enabled && gate && matchRoutingRule(rule, url)) {
+            return { gate, position: rule.position ?? gate.position, rule }
+        }
+    }
+    return null
+}
+
+/**
+ * 마크다운 한 줄에서 offset 위치의 링크 주소 찾기 (라이브 프리뷰에서 클릭한 링크)
+ * [텍스트](주소), <주소>, 맨 주소를 지원합니다.
+ */
+export function findUrlAtOffset(line: string, offset: number): string | null {
+    const patterns = [/\[[^\]]*\]\(\s*<?(https?:\/\/[^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, /<(https?:\/\/[^>\s]+)>/g, /https?:\/\/[^\s<>()[\]]+/g]
+    for (const pattern of patterns) {
+        for (const match of line.matchAll(pattern)) {
+            const start = match.index ?? 0
+            if (offset >= start && offset <= start + match[0].length) {
+                return (match[1] ?? match[0]).replace(/[.,;:!?'"]+$/, '')
+            }
+        }
+    }
+    return null
+}
+
+function convertGlob(glob: string): string {
+    return glob
+        .split('**')
+        .map((part) =>
+            part
+                .split('*')
+                .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('[^/]*')
+        )
+        .join('.*')
+}
@@ -0,0 +1,11 @@
+/**
+ * Routing Module Index
+ *
+ * 링크를 규칙에 맞는 게이트에서 여는 기능의 메인 진입점입니다.
+ */
+
+export { createEmptyRoutingRule, globToRegExp, matchRoutingRule, findRoute, findUrlAtOffset } from './UrlRouter'
+export type { Route } from './UrlRouter'
+
+export { DEFAULT_ROUTING_SETTINGS } from './types'
+export type { RoutingRule, RoutingSettings, RoutingOverrideModifier } from './types'
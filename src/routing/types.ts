@@ -0,0 +1,34 @@
+/**
+ * Routing Types - 링크를 게이트로 보내는 규칙 관련 타입
+ */
+
+import { GateFrameOptionType } from '../GateOptions'
+
+/**
+ * 주소 패턴 하나를 게이트에 연결하는 규칙
+ * - glob: 호스트+경로에 매칭 (예: "*.github.com/org/**")
+ * - regex: 전체 URL에 매칭 (대소문자 무시)
+ */
+export interface RoutingRule {
+    id: string
+    pattern: string
+    matchType: 'glob' | 'regex'
+    gateId: string
+    position?: GateFrameOptionType // 비어 있으면 게이트에 설정된 위치
+    enabled: boolean
+}
+
+// 누른 채로 클릭하면 규칙을 무시하고 시스템 브라우저로 여는 키
+export type RoutingOverrideModifier = 'Alt' | 'Shift' | 'Mod'
+
+export interface RoutingSettings {
+    enabled: boolean // 노트의 링크 클릭을 규칙대로 게이트에서 열기
+    overrideModifier: RoutingOverrideModifier
+    rules: RoutingRule[] // 목록 순서상 첫 번째로 일치하는 규칙 사용
+}
+
+export const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+    enabled: true,
+    overrideModifier: 'Alt',
+    rules: []
+}
@@ -7,11 +7,23 @@ import {
     DEFAULT_AI_SETTINGS,
     DEFAULT_CLIPPING_SETTINGS
 } from './ai/types'
+import { UILanguageSetting } from './i18n'
+import { HistorySettings, DEFAULT_HISTORY_SETTINGS } from './history/types'
+import { BookmarkSettings, DEFAULT_BOOKMARK_SETTINGS } from './bookmarks/types'
+import { OmniboxSettings, DEFAULT_OMNIBOX_SETTINGS } from './omnibox/types'
+import { HighlightSettings, DEFAULT_HIGHLIGHT_SETTINGS } from './highlights/types'
+import { ContentBlockerSettings, DEFAULT_CONTENT_BLOCKER_SETTINGS } from './blocker/types'
+import { GateProfile, DEFAULT_PROFILES } from './profiles/types'
+import { RoutingSettings, DEFAULT_ROUTING_SETTINGS } from './routing/types'
+import { GateFileSettings, DEFAULT_GATE_FILE_SETTINGS } from './gateFiles/types'
 
 export interface PluginSetting {
     uuid: string
     gates: Record<string, GateFrameOption>
 
+    // UI 언어 ('auto'면 Obsidian 표시 언어를 따름)
+    uiLanguage: UILanguageSetting
+
     // AI 설정 (v2.0)
     ai: AISettings
 
@@ -20,14 +32,47 @@ export interface PluginSetting {
 
     // 저장된 프롬프트 (v2.0)
     savedPrompts: SavedPrompt[]
+
+    // 방문 기록
+    history: HistorySettings
+
+    // 북마크/읽기 목록
+    bookmarks: BookmarkSettings
+
+    // 주소창 (검색 엔진, 입력 추천)
+    omnibox: OmniboxSettings
+
+    // 페이지 하이라이트
+    highlights: HighlightSettings
+
+    // 광고/추적 요청 차단
+    contentBlocker: ContentBlockerSettings
+
+    // 게이트 세션 프로필 (쿠키/저장소를 나눠 쓰는 단위)
+    profiles: GateProfile[]
+
+    // 링크를 게이트에서 여는 규칙
+    routing: RoutingSettings
+
+    // 볼트 Markdown 파일로 정의한 게이트
+    gateFiles: GateFileSettings
 }
 
 export const DEFAULT_PLUGIN_SETTINGS: Partial<PluginSetting> = {
     uuid: '',
     gates: {},
+    uiLanguage: 'auto',
     ai: DEFAULT_AI_SETTINGS,
     clipping: DEFAULT_CLIPPING_SETTINGS,
-    savedPrompts: []
+    savedPrompts: [],
+    history: DEFAULT_HISTORY_SETTINGS,
+    bookmarks: DEFAULT_BOOKMARK_SETTINGS,
+    omnibox: DEFAULT_OMNIBOX_SETTINGS,
+    highlights: DEFAULT_HIGHLIGHT_SETTINGS,
+    contentBlocker: DEFAULT_CONTENT_BLOCKER_SETTINGS,
+    profiles: DEFAULT_PROFILES,
+    routing: DEFAULT_ROUTING_SETTINGS,
+    gateFiles: DEFAULT_GATE_FILE_SETTINGS
 }
 
 export interface MarkdownLink {
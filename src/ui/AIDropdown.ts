@@ -10,6 +10,9 @@
 
 import { App, Menu } from 'obsidian'
 import { AISettings, AIProviderType, AI_PROVIDERS, SavedPrompt } from '../ai/types'
+import { hasProviderCredentials } from '../ai/AIService'
+import { getTemplates } from '../ai/TemplateRegistry'
+import { t } from '../i18n'
 
 export interface AIDropdownOptions {
     app: App
@@ -64,9 +67,7 @@ export class AIDropdown {
 
         menu.addItem((item) =>
             item
-                .setTitle(
-                    `🤖 ${currentProvider.displayName} ${hasApiKey ? '✅' : '⚠️ 키 필요'}`
-                )
+                .setTitle(t('aiDropdown.providerStatus', { provider: currentProvider.displayName, status: hasApiKey ? '✅' : t('aiDropdown.keyRequired') }))
                 .setDisabled(true)
         )
 
@@ -75,7 +76,7 @@ export class AIDropdown {
         // ✂️ 선택 영역 AI 분석 (주요 기능)
         menu.addItem((item) =>
             item
-                .setTitle('✂️ 선택 영역 분석')
+                .setTitle(t('aiDropdown.analyzeSelection'))
                 .setIcon('scissors')
                 .setDisabled(!hasApiKey)
                 .onClick(() => {
@@ -86,21 +87,12 @@ export class AIDropdown {
         menu.addSeparator()
 
         // 📚 템플릿으로 분석 모달 열기
-        menu.addItem((item) => item.setTitle('📋 템플릿으로 분석').setDisabled(true))
-
-        const templates = [
-            { id: 'basic-summary', label: '📋 기본 요약', icon: 'file-text' },
-            { id: 'study-note', label: '📚 학습 노트', icon: 'book' },
-            { id: 'analysis-report', label: '📊 분석 리포트', icon: 'bar-chart' },
-            { id: 'idea-note', label: '💡 아이디어 노트', icon: 'lightbulb' },
-            { id: 'action-items', label: '✅ 액션 아이템', icon: 'check-square' },
-            { id: 'qa-format', label: '❓ Q&A 형식', icon: 'help-circle' }
-        ]
-
-        templates.forEach((template) => {
+        menu.addItem((item) => item.setTitle(t('aiDropdown.analyzeWithTemplate')).setDisabled(true))
+
+        getTemplates().forEach((template) => {
             menu.addItem((item) =>
                 item
-                    .setTitle(`  ${template.label}`)
+                    .setTitle(`  ${template.name}`)
                     .setIcon(template.icon)
                     .setDisabled(!hasApiKey)
                     .onClick(() => {
@@ -113,7 +105,7 @@ export class AIDropdown {
         // 저장된 커스텀 프롬프트
         if (this.savedPrompts.length > 0) {
             menu.addSeparator()
-            menu.addItem((item) => item.setTitle('저장된 프롬프트').setDisabled(true))
+            menu.addItem((item) => item.setTitle(t('aiDropdown.savedPrompts')).setDisabled(true))
 
             this.savedPrompts.forEach((prompt) => {
                 menu.addItem((item) =>
@@ -132,7 +124,7 @@ export class AIDropdown {
         // 🔍 분석 모달 열기
         menu.addItem((item) =>
             item
-                .setTitle('🔍 분석 모달 열기')
+                .setTitle(t('aiDropdown.openAnalysisModal'))
                 .setIcon('search')
                 .onClick(() => {
                     this.onOpenAnalysisModal()
@@ -142,7 +134,7 @@ export class AIDropdown {
         // 📊 멀티 소스 종합 분석 (NEW!)
         menu.addItem((item) =>
             item
-                .setTitle('📊 멀티 소스 종합 분석')
+                .setTitle(t('aiDropdown.multiSource'))
                 .setIcon('layers')
                 .setDisabled(!hasApiKey)
                 .onClick(() => {
@@ -153,7 +145,7 @@ export class AIDropdown {
         menu.addSeparator()
 
         // Provider 선택 서브메뉴
-        menu.addItem((item) => item.setTitle('Provider 선택').setDisabled(true))
+        menu.addItem((item) => item.setTitle(t('aiDropdown.selectProvider')).setDisabled(true))
 
         const providers = Object.values(AI_PROVIDERS) as typeof AI_PROVIDERS[AIProviderType][]
         providers.forEach((provider) => {
@@ -179,7 +171,7 @@ export class AIDropdown {
         // ⚙️ AI 설정
         menu.addItem((item) =>
             item
-                .setTitle('⚙️ API 키 설정...')
+                .setTitle(t('aiDropdown.apiKeySettings'))
                 .setIcon('settings')
                 .onClick(() => {
                     this.onOpenSettings()
@@ -199,8 +191,7 @@ export class AIDropdown {
      * API 키 존재 확인
      */
     private hasApiKey(providerId: AIProviderType): boolean {
-        const key = this.settings.apiKeys[providerId]
-        return !!key && key.trim().length > 0
+        return hasProviderCredentials(this.settings, providerId)
     }
 
     /**
@@ -236,7 +227,7 @@ export function createAIButton(
     // 메인 AI 버튼 (클릭시 분석 모달 열기)
     const mainBtn = wrapper.createEl('button', { cls: 'easy-gate-ai-btn' })
     mainBtn.textContent = '🤖'
-    mainBtn.title = hasApiKey ? 'AI 분석 모달 열기 (텍스트 입력/편집)' : 'API 키 필요'
+    mainBtn.title = hasApiKey ? t('aiButton.openAnalysis') : t('aiButton.apiKeyRequired')
     if (!hasApiKey) {
         mainBtn.style.opacity = '0.5'
         mainBtn.style.cursor = 'not-allowed'
@@ -251,7 +242,7 @@ export function createAIButton(
     // 드롭다운 버튼
     const dropdownBtn = wrapper.createEl('button', { cls: 'easy-gate-ai-dropdown-btn' })
     dropdownBtn.textContent = '▼'
-    dropdownBtn.title = 'AI 분석 옵션 더보기'
+    dropdownBtn.title = t('aiButton.moreOptions')
     dropdownBtn.onclick = (e) => {
         e.preventDefault()
         dropdown.show(e)
@@ -272,9 +263,7 @@ export function createAIStatusIndicator(
     const providerInfo = AI_PROVIDERS[provider]
 
     indicator.textContent = `${hasApiKey ? '🟢' : '🔴'} ${providerInfo.displayName}`
-    indicator.title = hasApiKey
-        ? `${providerInfo.displayName} 연결됨`
-        : `${providerInfo.displayName} API 키 필요`
+    indicator.title = hasApiKey ? t('aiStatus.connected', { provider: providerInfo.displayName }) : t('aiStatus.apiKeyRequired', { provider: providerInfo.displayName })
     indicator.style.cssText = `
         font-size: 11px;
         padding: 2px 6px;
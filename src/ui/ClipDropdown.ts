@@ -4,18 +4,21 @@
  * [📋▼] 버튼 클릭 시 표시되는 클리핑 옵션 드롭다운입니다.
  * - 전체 페이지 클리핑
  * - 선택 텍스트 클리핑
+ * - 오프라인 아카이브
  * - 기존 노트에 추가
  * - 클리핑 설정 열기
  */
 
 import { App, TFile, TFolder, Menu } from 'obsidian'
 import { ClippingSettings } from '../ai/types'
+import { t } from '../i18n'
 
 export interface ClipDropdownOptions {
     app: App
     settings: ClippingSettings
     onClipPage: () => void
     onClipSelection: () => void
+    onArchivePage: () => void
     onClipToNote: (file: TFile) => void
     onOpenSettings: () => void
 }
@@ -28,6 +31,7 @@ export class ClipDropdown {
     private settings: ClippingSettings
     private onClipPage: () => void
     private onClipSelection: () => void
+    private onArchivePage: () => void
     private onClipToNote: (file: TFile) => void
     private onOpenSettings: () => void
 
@@ -36,6 +40,7 @@ export class ClipDropdown {
         this.settings = options.settings
         this.onClipPage = options.onClipPage
         this.onClipSelection = options.onClipSelection
+        this.onArchivePage = options.onArchivePage
         this.onClipToNote = options.onClipToNote
         this.onOpenSettings = options.onOpenSettings
     }
@@ -49,7 +54,7 @@ export class ClipDropdown {
         // 헤더: 저장 옵션 안내
         menu.addItem((item) =>
             item
-                .setTitle('📥 웹페이지 저장 옵션')
+                .setTitle(t('clipDropdown.header'))
                 .setDisabled(true)
         )
 
@@ -58,7 +63,7 @@ export class ClipDropdown {
         // 📄 전체 페이지 저장 (기본 동작)
         menu.addItem((item) =>
             item
-                .setTitle('📄 전체 페이지 저장')
+                .setTitle(t('clipDropdown.savePage'))
                 .setIcon('file-plus')
                 .onClick(() => {
                     this.onClipPage()
@@ -68,19 +73,29 @@ export class ClipDropdown {
         // ✂️ 선택 영역 저장
         menu.addItem((item) =>
             item
-                .setTitle('✂️ 선택 영역 저장')
+                .setTitle(t('clipDropdown.saveSelection'))
                 .setIcon('scissors')
                 .onClick(() => {
                     this.onClipSelection()
                 })
         )
 
+        // 🗄️ 오프라인 아카이브 (페이지 사본 + 링크된 클리핑 노트)
+        menu.addItem((item) =>
+            item
+                .setTitle(t('clipDropdown.archivePage'))
+                .setIcon('archive')
+                .onClick(() => {
+                    this.onArchivePage()
+                })
+        )
+
         menu.addSeparator()
 
         // 📎 기존 노트에 추가 (서브메뉴)
         menu.addItem((item) =>
             item
-                .setTitle('📎 기존 노트에 추가...')
+                .setTitle(t('clipDropdown.appendToNote'))
                 .setIcon('file-input')
                 .onClick(() => {
                     this.showNoteSelector()
@@ -92,7 +107,7 @@ export class ClipDropdown {
         if (recentNotes.length > 0) {
             menu.addSeparator()
             menu.addItem((item) =>
-                item.setTitle('최근 클리핑').setDisabled(true)
+                item.setTitle(t('clipDropdown.recentClips')).setDisabled(true)
             )
 
             recentNotes.forEach((file) => {
@@ -112,7 +127,7 @@ export class ClipDropdown {
         // ⚙️ 클리핑 설정
         menu.addItem((item) =>
             item
-                .setTitle('⚙️ 클리핑 설정')
+                .setTitle(t('clipDropdown.settings'))
                 .setIcon('settings')
                 .onClick(() => {
                     this.onOpenSettings()
@@ -152,12 +167,12 @@ export class ClipDropdown {
 
             if (files.length > 15) {
                 menu.addItem((item) =>
-                    item.setTitle(`... ${files.length - 15}개 더`).setDisabled(true)
+                    item.setTitle(t('clipDropdown.moreFiles', { count: files.length - 15 })).setDisabled(true)
                 )
             }
         } else {
             menu.addItem((item) =>
-                item.setTitle('클리핑 폴더가 없습니다').setDisabled(true)
+                item.setTitle(t('clipDropdown.noFolder')).setDisabled(true)
             )
         }
 
@@ -218,7 +233,7 @@ export function createClipButton(
     // 메인 클립 버튼 (원클릭)
     const mainBtn = wrapper.createEl('button', { cls: 'easy-gate-clip-btn' })
     mainBtn.textContent = '📥'
-    mainBtn.title = '저장 (클릭: 전체 페이지 저장)'
+    mainBtn.title = t('clipButton.save')
     mainBtn.onclick = (e) => {
         e.preventDefault()
         onQuickClip()
@@ -227,7 +242,7 @@ export function createClipButton(
     // 드롭다운 버튼
     const dropdownBtn = wrapper.createEl('button', { cls: 'easy-gate-clip-dropdown-btn' })
     dropdownBtn.textContent = '▼'
-    dropdownBtn.title = '저장 옵션 더보기'
+    dropdownBtn.title = t('clipButton.moreOptions')
     dropdownBtn.onclick = (e) => {
         e.preventDefault()
         dropdown.show(e)
@@ -0,0 +1,143 @@
+/**
+ * FindBar - 게이트 페이지 내 검색 바
+ *
+ * Electron webview의 findInPage로 검색하고 일치 항목을 페이지에 강조합니다.
+ * 결과(현재 위치/전체 개수)는 webview의 found-in-page 이벤트로 받아 표시합니다.
+ */
+
+import { ButtonComponent, setIcon } from 'obsidian'
+import { t } from '../i18n'
+import WebviewTag = Electron.WebviewTag
+
+export interface FindBarOptions {
+    container: HTMLElement
+    getWebview: () => WebviewTag | null // 검색 대상 (활성 탭의 webview)
+}
+
+/**
+ * FindBar 클래스
+ */
+export class FindBar {
+    private options: FindBarOptions
+    private element: HTMLElement
+    private inputEl: HTMLInputElement
+    private countEl: HTMLElement
+    private caseButton: ButtonComponent
+    private matchCase = false
+    // 마지막으로 검색한 webview (탭 전환 시 강조 해제용)
+    private searchedWebview: WebviewTag | null = null
+
+    constructor(options: FindBarOptions) {
+        this.options = options
+        this.element = options.container.createDiv({ cls: 'gate-find-bar gate-find-bar-hidden' })
+
+        this.inputEl = this.element.createEl('input', { type: 'text', placeholder: t('find.placeholder'), cls: 'gate-find-input' })
+        this.inputEl.addEventListener('input', () => this.find(true, true))
+        this.inputEl.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault()
+                this.find(!e.shiftKey, false)
+            } else if (e.key === 'Escape') {
+                e.preventDefault()
+                this.hide()
+            }
+        })
+
+        this.countEl = this.element.createSpan({ cls: 'gate-find-count' })
+
+        this.caseButton = new ButtonComponent(this.element)
+            .setIcon('case-sensitive')
+            .setTooltip(t('find.matchCase'))
+            .onClick(() => {
+                this.matchCase = !this.matchCase
+                this.caseButton.buttonEl.toggleClass('is-active', this.matchCase)
+                this.find(true, true)
+            })
+
+        new ButtonComponent(this.element)
+            .setIcon('chevron-up')
+            .setTooltip(t('find.previous'))
+            .onClick(() => this.find(false, false))
+
+        new ButtonComponent(this.element)
+            .setIcon('chevron-down')
+            .setTooltip(t('find.next'))
+            .onClick(() => this.find(true, false))
+
+        const closeEl = this.element.createDiv({ cls: 'gate-find-close clickable-icon', attr: { 'aria-label': t('common.close') } })
+        setIcon(closeEl, 'x')
+        closeEl.addEventListener('click', () => this.hide())
+    }
+
+    get isVisible(): boolean {
+        return !this.element.hasClass('gate-find-bar-hidden')
+    }
+
+    /**
+     * 검색 바 표시 (이미 열려 있으면 입력란 선택)
+     */
+    show(): void {
+        this.element.removeClass('gate-find-bar-hidden')
+        this.inputEl.focus()
+        this.inputEl.select()
+        if (this.inputEl.value) {
+            this.find(true, true)
+        }
+    }
+
+    hide(): void {
+        this.element.addClass('gate-find-bar-hidden')
+        this.stop()
+        this.countEl.setText('')
+    }
+
+    /**
+     * 활성 탭이 바뀌었을 때 이전 탭의 강조를 지우고 새 탭에서 다시 검색
+     */
+    refresh(): void {
+        if (!this.isVisible) return
+        this.stop()
+        this.find(true, true)
+    }
+
+    /**
+     * webview의 found-in-page 결과 반영 (검색 중인 webview의 결과만)
+     */
+    handleResult(webview: WebviewTag, result: Electron.Result): void {
+        if (webview !== this.searchedWebview || !this.isVisible) return
+
+        this.countEl.setText(result.matches > 0 ? t('find.count', { current: result.activeMatchOrdinal, total: result.matches }) : t('find.noMatches'))
+        this.element.toggleClass('has-no-matches', result.matches === 0)
+    }
+
+    /**
+     * @param forward 다음(true)/이전(false) 일치 항목으로 이동
+     * @param newSession 검색어나 옵션이 바뀌어 처음부터 다시 검색
+     */
+    private find(forward: boolean, newSession: boolean): void {
+        const text = this.inputEl.value
+        const webview = this.options.getWebview()
+
+        if (!text || !webview) {
+            this.stop()
+            this.countEl.setText('')
+            this.element.removeClass('has-no-matches')
+            return
+        }
+
+        if (this.searchedWebview && this.searchedWebview !== webview) {
+            this.stop()
+        }
+        this.searchedWebview = webview
+        webview.findInPage(text, { forward, findNext: newSession, matchCase: this.matchCase })
+    }
+
+    private stop(): void {
+        try {
+            this.searchedWebview?.stopFindInPage('clearSelection')
+        } catch {
+            // 이미 제거된 webview
+        }
+        this.searchedWebview = null
+    }
+}
@@ -5,6 +5,8 @@
  * 모달 없이 간단한 피드백을 제공합니다.
  */
 
+import { t } from '../i18n'
+
 export interface ProgressStep {
     id: string
     label: string
@@ -298,23 +300,27 @@ export class InlineProgress {
 }
 
 /**
- * 기본 클리핑 스텝
+ * 기본 클리핑 스텝 (현재 UI 언어로 생성)
  */
-export const DEFAULT_CLIP_STEPS: ProgressStep[] = [
-    { id: 'extract', label: '콘텐츠 추출', status: 'pending' },
-    { id: 'metadata', label: '메타데이터 파싱', status: 'pending' },
-    { id: 'create', label: '노트 생성', status: 'pending' }
-]
+export function getDefaultClipSteps(): ProgressStep[] {
+    return [
+        { id: 'extract', label: t('progress.extract'), status: 'pending' },
+        { id: 'metadata', label: t('progress.metadata'), status: 'pending' },
+        { id: 'create', label: t('progress.createNote'), status: 'pending' }
+    ]
+}
 
 /**
- * 기본 AI 처리 스텝
+ * 기본 AI 처리 스텝 (현재 UI 언어로 생성)
  */
-export const DEFAULT_AI_STEPS: ProgressStep[] = [
-    { id: 'extract', label: '콘텐츠 추출', status: 'pending' },
-    { id: 'prompt', label: '프롬프트 생성', status: 'pending' },
-    { id: 'ai', label: 'AI 응답 대기', status: 'pending' },
-    { id: 'create', label: '노트 생성', status: 'pending' }
-]
+export function getDefaultAISteps(): ProgressStep[] {
+    return [
+        { id: 'extract', label: t('progress.extract'), status: 'pending' },
+        { id: 'prompt', label: t('progress.prompt'), status: 'pending' },
+        { id: 'ai', label: t('progress.waitAI'), status: 'pending' },
+        { id: 'create', label: t('progress.createNote'), status: 'pending' }
+    ]
+}
 
 /**
  * 간단한 프로그레스 바 생성 (편의 함수)
@@ -19,8 +19,8 @@ export type { ToastType, ToastOptions } from './ToastNotification'
 // Inline Progress
 export {
     InlineProgress,
-    DEFAULT_CLIP_STEPS,
-    DEFAULT_AI_STEPS,
+    getDefaultClipSteps,
+    getDefaultAISteps,
     createSimpleProgress,
     createStepProgress
 } from './InlineProgress'
@@ -33,3 +33,7 @@ export type { ClipDropdownOptions } from './ClipDropdown'
 // AI Dropdown
 export { AIDropdown, createAIButton, createAIStatusIndicator } from './AIDropdown'
 export type { AIDropdownOptions } from './AIDropdown'
+
+// Find Bar
+export { FindBar } from './FindBar'
+export type { FindBarOptions } from './FindBar'
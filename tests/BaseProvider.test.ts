@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { BaseProvider } from '../src/ai/providers/BaseProvider'
+import { AIProviderResponse, AIProviderType } from '../src/ai/types'
+
+class TestProvider extends BaseProvider {
+  readonly id: AIProviderType = 'openai'
+  readonly name = 'Test'
+
+  async testApiKey(): Promise<boolean> {
+    return true
+  }
+
+  async generateText(): Promise<AIProviderResponse> {
+    return { success: false, content: '' }
+  }
+
+  async collectEvents(): Promise<{ data: string; event: string | null }[]> {
+    const events: { data: string; event: string | null }[] = []
+    await this.streamRequest('https://api.test/stream', { headers: {}, body: '{}' }, (data, event) => events.push({ data, event }))
+    return events
+  }
+
+  streamChat(onChunk: (chunk: string) => void): Promise<AIProviderResponse> {
+    return this.streamChatCompletion('https://api.test/chat/completions', {}, { stream: true }, onChunk)
+  }
+}
+
+// Serves the body in exactly the given network chunks
+const respondWith = (chunks: string[], status = 200) => {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(body, { status }))
+  )
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content }, finish_reason: null }] })}\n\n`
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('BaseProvider.streamRequest', () => {
+  it('joins events split across network chunks', async () => {
+    respondWith(['data: {"a"', ':1}\n', '\ndata: sec', 'ond\n\n'])
+
+    expect(await new TestProvider().collectEvents()).toEqual([
+      { data: '{"a":1}', event: null },
+      { data: 'second', event: null },
+    ])
+  })
+
+  it('accepts \\r\\n line endings, even when split between chunks', async () => {
+    respondWith(['event: message_start\r\ndata: one\r\n\r', '\ndata: two\r\n\r\n'])
+
+    expect(await new TestProvider().collectEvents()).toEqual([
+      { data: 'one', event: 'message_start' },
+      { data: 'two', event: null },
+    ])
+  })
+
+  it('joins multi-line data fields and ignores comments and events without data', async () => {
+    respondWith([': keep-alive\n\nevent: ping\n\ndata: first line\ndata:second line\nid: 7\n\n'])
+
+    expect(await new TestProvider().collectEvents()).toEqual([{ data: 'first line\nsecond line', event: null }])
+  })
+
+  it('delivers a last event that is not followed by a blank line', async () => {
+    respondWith(['data: one\n\ndata: [DONE]'])
+
+    expect(await new TestProvider().collectEvents()).toEqual([
+      { data: 'one', event: null },
+      { data: '[DONE]', event: null },
+    ])
+  })
+
+  it('reports the error message of a failed response', async () => {
+    respondWith(['{"error":{"message":"Invalid model"}}'], 400)
+
+    await expect(new TestProvider().collectEvents()).rejects.toThrow('API request failed: status 400 Invalid model')
+  })
+})
+
+describe('BaseProvider.streamChatCompletion', () => {
+  it('streams deltas until [DONE] and reads the usage', async () => {
+    respondWith([delta('Hel'), delta('lo'), 'data: {"choices":[],"usage":{"total_tokens":12}}\n\n', 'data: [DONE]\n\n'])
+    const chunks: string[] = []
+
+    const response = await new TestProvider().streamChat((chunk) => chunks.push(chunk))
+
+    expect(chunks).toEqual(['Hel', 'lo'])
+    expect(response).toEqual({ success: true, content: 'Hello', tokensUsed: 12 })
+  })
+
+  it('keeps the received text when the stream reports an error', async () => {
+    respondWith([delta('Partial'), 'data: {"error":"model overloaded"}\n\n'])
+
+    const response = await new TestProvider().streamChat(() => {})
+
+    expect(response).toMatchObject({ success: false, content: 'Partial', error: 'model overloaded' })
+  })
+
+  it('fails when the stream has no content', async () => {
+    respondWith(['data: [DONE]\n\n'])
+
+    expect(await new TestProvider().streamChat(() => {})).toEqual({ success: false, content: '', error: 'No response generated' })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { parseBookmarks, serializeBookmarks } from '../src/bookmarks/BookmarkFormat'
+import { BookmarkData } from '../src/bookmarks/types'
+
+const BOOKMARKS: BookmarkData[] = [
+  { url: 'https://example.com/', title: 'Top level', folder: '', tags: [], read: false, addedAt: Date.UTC(2024, 0, 1) },
+  { url: 'https://en.wikipedia.org/wiki/Foo_(bar)', title: 'Wiki [draft] \\ page', folder: 'Reading', tags: ['wiki', 'ref/long'], read: true, addedAt: 0, gateId: 'gate-1' },
+  { url: 'https://example.com/a b', title: '한국어 제목', folder: 'Reading', tags: ['태그'], read: false, addedAt: Date.UTC(2024, 5, 2, 3, 4, 5) },
+  { url: 'https://news.example.com/', title: 'News', folder: 'Later', tags: [], read: false, addedAt: 0 },
+]
+
+describe('serializeBookmarks', () => {
+  it('round-trips bookmarks through markdown', () => {
+    expect(parseBookmarks(serializeBookmarks(BOOKMARKS))).toEqual(BOOKMARKS.map((bookmark) => ({ gateId: undefined, ...bookmark })))
+  })
+
+  it('writes folders as headings and read state as checkboxes', () => {
+    const markdown = serializeBookmarks(BOOKMARKS)
+    expect(markdown).toContain('## Reading\n\n- [x] [Wiki \\[draft\\] \\\\ page](<https://en.wikipedia.org/wiki/Foo_(bar)>) #wiki #ref/long <!-- gate:gate-1 -->')
+    expect(markdown).toContain('- [ ] [Top level](https://example.com/) <!-- added:2024-01-01T00:00:00.000Z -->')
+    expect(markdown.indexOf('Top level')).toBeLessThan(markdown.indexOf('## Reading'))
+  })
+
+  it('keeps notes, headings and hand-written lines when saving changes', () => {
+    const original = [
+      '# My reading list',
+      '',
+      'Notes about what to read next, see https://example.com/guide',
+      '',
+      '* [ ] [Todo](https://b.example) #later',
+      '- [ ] [Removed](https://gone.example)',
+      '',
+      '## Reading',
+      '',
+      '- [ ] [Wiki](https://wiki.example) <!-- added:2024-01-01T00:00:00.000Z -->',
+      '',
+      '## Empty folder',
+      '',
+      '> a quote that stays',
+      '',
+    ].join('\n')
+    const bookmarks = parseBookmarks(original).filter((bookmark) => bookmark.url !== 'https://gone.example')
+    bookmarks[1].read = true
+    bookmarks.push(
+      { url: 'https://new.example', title: 'New', folder: 'Reading', tags: [], read: false, addedAt: 0 },
+      { url: 'https://top.example', title: 'Top', folder: '', tags: [], read: false, addedAt: 0 },
+      { url: 'https://later.example', title: 'Later', folder: 'Later', tags: [], read: false, addedAt: 0 }
+    )
+
+    expect(serializeBookmarks(bookmarks, original)).toBe(
+      [
+        '# My reading list',
+        '',
+        'Notes about what to read next, see https://example.com/guide',
+        '',
+        '* [ ] [Todo](https://b.example) #later',
+        '- [ ] [Top](https://top.example)',
+        '',
+        '## Reading',
+        '',
+        '- [x] [Wiki](https://wiki.example) <!-- added:2024-01-01T00:00:00.000Z -->',
+        '- [ ] [New](https://new.example)',
+        '',
+        '## Empty folder',
+        '',
+        '> a quote that stays',
+        '',
+        '## Later',
+        '',
+        '- [ ] [Later](https://later.example)',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('leaves an unchanged file as it was', () => {
+    const original = ['Intro', '', '## Folder', '', '* [X] [Done](https://a.example) #x', '', '## Empty', ''].join('\n')
+    expect(serializeBookmarks(parseBookmarks(original), original)).toBe(original)
+  })
+})
+
+describe('parseBookmarks', () => {
+  it('reads hand-written checklists and skips other lines', () => {
+    const bookmarks = parseBookmarks(['# My list', 'Some notes', '- [X] [Done](https://a.example) #x', '### Sub', '* [ ] [Todo](https://b.example)', '- plain item'].join('\n'))
+    expect(bookmarks).toEqual([
+      { url: 'https://a.example', title: 'Done', folder: '', tags: ['x'], read: true, addedAt: 0, gateId: undefined },
+      { url: 'https://b.example', title: 'Todo', folder: 'Sub', tags: [], read: false, addedAt: 0, gateId: undefined },
+    ])
+  })
+})
@@ -0,0 +1,116 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { JSDOM } from 'jsdom'
+import { describe, it, expect } from 'vitest'
+import { CONTENT_EXTRACTION_SCRIPT, ContentExtractor, ExtractedContent, GET_URL_SCRIPT, createContentExtractionScript } from '../src/clipping/ContentExtractor'
+import { updateSiteRules } from '../src/clipping/SiteRules'
+
+const FIXTURES = join(__dirname, 'fixtures', 'readability')
+
+// Runs the same script the webview executes against a saved page
+const extract = (fixture: string, url = 'https://example.com/page', script = CONTENT_EXTRACTION_SCRIPT): ExtractedContent => {
+  const html = readFileSync(join(FIXTURES, fixture), 'utf-8')
+  const dom = new JSDOM(html, { url, runScripts: 'outside-only' })
+  try {
+    return dom.window.eval(script)
+  } finally {
+    dom.window.close()
+  }
+}
+
+describe('CONTENT_EXTRACTION_SCRIPT', () => {
+  it('picks the story body over teasers, comments and chrome on a news page', () => {
+    const result = extract('news-article.html', 'https://www.dailyledger.test/story/park')
+    expect(result.title).toBe('City council approves riverside park plan')
+    expect(result.siteName).toBe('Daily Ledger')
+    expect(result.textContent).toContain('voted seven to two on Tuesday night')
+    expect(result.textContent).toContain('three public workshops this fall')
+    expect(result.textContent).not.toContain('Markets rally as rates hold steady')
+    expect(result.textContent).not.toContain('Great news, finally')
+    expect(result.textContent).not.toContain('Related coverage')
+    expect(result.textContent).not.toContain('Share on Twitter')
+    expect(result.textContent).not.toContain('All rights reserved')
+  })
+
+  it('keeps code samples and lists but drops the sidebar on a docs page', () => {
+    const result = extract('docs-page.html')
+    expect(result.textContent).toContain('widget.config.js')
+    expect(result.textContent).toContain("theme: 'light'")
+    expect(result.textContent).toContain('Use an absolute path')
+    expect(result.textContent).toContain('the flags take precedence')
+    expect(result.content).toContain('<pre>')
+    expect(result.textContent).not.toContain('Installation guide')
+    expect(result.textContent).not.toContain('Next: Theming')
+  })
+
+  it('merges sibling blocks of a post split across containers', () => {
+    const result = extract('split-post.html', 'https://www.walks.test/autumn')
+    expect(result.siteName).toBe('walks.test')
+    expect(result.textContent).toContain('아침 일찍 집을 나서서')
+    expect(result.textContent).toContain('점심 무렵에는 작은 공원에 도착했다')
+    expect(result.textContent).toContain('the city lights came on')
+    expect(result.textContent).toContain('돌아오는 길에는 단골 카페에')
+    expect(result.textContent).not.toContain('트위터 공유')
+  })
+
+  it('penalises link-heavy blocks even when they have more text', () => {
+    const result = extract('link-farm.html')
+    expect(result.textContent).toContain('relies on wild yeast and bacteria')
+    expect(result.textContent).not.toContain('Ten bread recipes')
+  })
+
+  it('falls back to the body when no block scores', () => {
+    const result = extract('short-page.html')
+    expect(result.textContent).toBe('Coming soon Our new store opens next month.')
+    expect(result.length).toBe(result.textContent.length)
+  })
+
+  it('uses site rule selectors before the generic heuristics', () => {
+    const script = createContentExtractionScript({
+      contentSelectors: ['.missing', '#comments p'],
+      removeSelectors: ['p:last-child'],
+      titleSelector: '#comments p'
+    })
+    const result = extract('news-article.html', 'https://www.dailyledger.test/story/park', script)
+    expect(result.title).toContain('Great news, finally')
+    expect(result.textContent).toContain('Great news, finally')
+    expect(result.textContent).not.toContain('What a waste of money')
+    expect(result.textContent).not.toContain('voted seven to two')
+  })
+
+  it('falls back to scoring when rule selectors match nothing and ignores invalid ones', () => {
+    const script = createContentExtractionScript({
+      contentSelectors: ['[[invalid', '.missing'],
+      removeSelectors: ['.byline', '[[invalid']
+    })
+    const result = extract('news-article.html', 'https://www.dailyledger.test/story/park', script)
+    expect(result.textContent).toContain('voted seven to two on Tuesday night')
+    expect(result.textContent).not.toContain('By Jane Rivera')
+  })
+})
+
+describe('ContentExtractor.extractPageContent', () => {
+  // Fake webview that records every script it is asked to run
+  const createWebview = (scripts: string[]) =>
+    ({
+      executeJavaScript: async (script: string) => {
+        scripts.push(script)
+        return script === GET_URL_SCRIPT ? 'https://example.com/post' : { textContent: 'text' }
+      },
+    } as unknown as Electron.WebviewTag)
+
+  it('runs the site rule pre-script unless told not to', async () => {
+    updateSiteRules([{ id: 'r', hostPattern: 'example.com', enabled: true, contentSelectors: [], removeSelectors: [], preScript: 'document.body.remove()' }])
+    try {
+      const withPreScript: string[] = []
+      await ContentExtractor.extractPageContent(createWebview(withPreScript))
+      expect(withPreScript.some((script) => script.includes('document.body.remove()'))).toBe(true)
+
+      const withoutPreScript: string[] = []
+      expect(await ContentExtractor.extractPageContent(createWebview(withoutPreScript), { runPreScript: false })).toEqual({ textContent: 'text' })
+      expect(withoutPreScript.some((script) => script.includes('document.body.remove()'))).toBe(false)
+    } finally {
+      updateSiteRules([])
+    }
+  })
+})
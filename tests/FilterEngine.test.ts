@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { FilterEngine, getBaseDomain, parseFilter, parseFilterList } from '../src/blocker/FilterEngine'
+
+const LIST = `[Adblock Plus 2.0]
+! Title: Test list
+||ads.example.com^
+||tracker.test^$third-party
+/banner/*/img^
+|https://cdn.example.org/ad.js|
+@@||ads.example.com/allowed^
+||cdn.test/widget.js$script,domain=news.test|~sports.news.test
+/\\/pixel\\.(gif|png)\\?/$image
+||popups.test^$popup
+||fonts.test^$~font
+||everywhere.test^$important
+@@||everywhere.test^$script
+0.0.0.0 hosts-blocked.test
+##.ad-banner
+news.test,~sports.news.test##.sponsored
+shop.test#@#.ad-banner
+news.test##+js(set-constant, ads, false)
+news.test##.teaser:has-text(Promoted)
+@@||calm.test^$elemhide
+@@||generic-off.test^$generichide
+generic-off.test##.specific-ad
+`
+
+const engine = FilterEngine.fromText(LIST)
+const check = (url: string, type: Parameters<FilterEngine['match']>[0]['type'] = 'script', pageUrl = 'https://site.test/') =>
+  engine.match({ url, type, pageUrl })
+
+describe('parseFilterList', () => {
+  it('skips comments and headers and counts rules it cannot apply', () => {
+    const parsed = parseFilterList(LIST)
+    expect(parsed.network).toHaveLength(13)
+    expect(parsed.cosmetic).toHaveLength(4)
+    // $popup, ##+js() scriptlet and :has-text() procedural selector
+    expect(parsed.unsupported).toBe(3)
+  })
+
+  it('reads options and domain lists', () => {
+    const filter = parseFilter('||cdn.test/widget.js$script,domain=news.test|~sports.news.test')
+    expect(filter).toMatchObject({
+      exception: false,
+      includeDomains: ['news.test'],
+      excludeDomains: ['sports.news.test'],
+      token: 'widget',
+    })
+    expect(filter && 'types' in filter ? [...(filter.types ?? [])] : null).toEqual(['script'])
+  })
+})
+
+describe('FilterEngine.match', () => {
+  it('blocks host-anchored rules on the host and its subdomains only', () => {
+    expect(check('https://ads.example.com/x.js')).toEqual({ blocked: true, filter: '||ads.example.com^' })
+    expect(check('https://img.ads.example.com/a.png', 'image')?.blocked).toBe(true)
+    expect(check('https://notads.example.com/x.js')).toBeNull()
+    expect(check('https://example.com/ads.example.com.js')).toBeNull()
+  })
+
+  it('lets exception rules override blocking rules unless the block is important', () => {
+    expect(check('https://ads.example.com/allowed/x.js')).toEqual({ blocked: false, filter: '@@||ads.example.com/allowed^' })
+    expect(check('https://everywhere.test/a.js')).toEqual({ blocked: true, filter: '||everywhere.test^$important' })
+  })
+
+  it('handles wildcards, separators, anchors and regular expressions', () => {
+    expect(check('https://site.test/banner/300x250/img?id=1', 'image')?.blocked).toBe(true)
+    expect(check('https://site.test/banner/300x250/imgs', 'image')).toBeNull()
+    expect(check('https://cdn.example.org/ad.js')?.blocked).toBe(true)
+    expect(check('https://cdn.example.org/ad.js?v=2')).toBeNull()
+    expect(check('https://stats.test/pixel.gif?u=1', 'image')?.blocked).toBe(true)
+    expect(check('https://stats.test/pixel.gif?u=1', 'script')).toBeNull()
+  })
+
+  it('applies third-party, domain and resource type options', () => {
+    expect(check('https://tracker.test/t.js', 'script', 'https://blog.test/')?.blocked).toBe(true)
+    expect(check('https://tracker.test/t.js', 'script', 'https://www.tracker.test/')).toBeNull()
+
+    expect(check('https://cdn.test/widget.js', 'script', 'https://www.news.test/')?.blocked).toBe(true)
+    expect(check('https://cdn.test/widget.js', 'script', 'https://sports.news.test/')).toBeNull()
+    expect(check('https://cdn.test/widget.js', 'image', 'https://www.news.test/')).toBeNull()
+
+    expect(check('https://fonts.test/a.css', 'stylesheet')?.blocked).toBe(true)
+    expect(check('https://fonts.test/a.woff2', 'font')).toBeNull()
+  })
+
+  it('never applies plain rules to the top-level document', () => {
+    expect(check('https://ads.example.com/', 'document')).toBeNull()
+  })
+
+  it('treats hosts file lines as domain blocks', () => {
+    expect(check('https://www.hosts-blocked.test/x', 'xmlhttprequest')?.blocked).toBe(true)
+  })
+})
+
+describe('FilterEngine.getCosmeticSelectors', () => {
+  it('combines generic and site-specific selectors and honours exceptions', () => {
+    expect(engine.getCosmeticSelectors('https://www.news.test/story')).toEqual(['.ad-banner', '.sponsored'])
+    expect(engine.getCosmeticSelectors('https://sports.news.test/')).toEqual(['.ad-banner'])
+    expect(engine.getCosmeticSelectors('https://shop.test/')).toEqual([])
+  })
+
+  it('turns hiding off with $elemhide and generic hiding with $generichide', () => {
+    expect(engine.getCosmeticSelectors('https://calm.test/')).toEqual([])
+    expect(engine.getCosmeticSelectors('https://generic-off.test/')).toEqual(['.specific-ad'])
+  })
+
+  it('builds one CSS rule per selector', () => {
+    expect(engine.getCosmeticCss('https://www.news.test/')).toBe('.ad-banner { display: none !important; }\n.sponsored { display: none !important; }')
+  })
+})
+
+describe('getBaseDomain', () => {
+  it('keeps common two-part public suffixes', () => {
+    expect(getBaseDomain('www.bbc.co.uk')).toBe('bbc.co.uk')
+    expect(getBaseDomain('a.b.example.com')).toBe('example.com')
+    expect(getBaseDomain('192.168.0.1')).toBe('192.168.0.1')
+  })
+})
@@ -0,0 +1,139 @@
+import { parse } from 'yaml'
+import { describe, it, expect } from 'vitest'
+import { normalizeTags, parseFrontmatter, serializeFrontmatter, toYamlInline } from '../src/clipping/Frontmatter'
+import { getDefaultAINoteTemplate, getDefaultClipNoteTemplate, NoteRenderer } from '../src/clipping/NoteRenderer'
+
+const ADVERSARIAL = [
+  'Plain title',
+  'Rust: the good parts',
+  'He said "hello" and left',
+  "It's a 'quoted' title",
+  '#1 trick nobody tells you',
+  'Line one\nLine two',
+  '- starts like a list item',
+  '[not] {a} flow: collection',
+  'key: value # comment?',
+  '---',
+  'yes',
+  'null',
+  '123',
+  '@mention & *alias',
+  '   padded   ',
+  '한국어 제목: "인용" #태그',
+  'Tab\there and backslash \\ end',
+]
+
+describe('serializeFrontmatter', () => {
+  it.each(ADVERSARIAL)('round-trips title and author %j', (value) => {
+    const note = serializeFrontmatter({ title: value, author: value, source: `https://example.com/?q=${encodeURIComponent(value)}#frag` })
+    expect(note.startsWith('---\n')).toBe(true)
+    expect(note.endsWith('---\n')).toBe(true)
+    expect(parseFrontmatter(note)).toEqual({ title: value, author: value, source: `https://example.com/?q=${encodeURIComponent(value)}#frag` })
+  })
+
+  it('writes tags, aliases, arrays and nested fields', () => {
+    const note = serializeFrontmatter({
+      aliases: ['Rust: the good parts', '#hash'],
+      tags: ['clip', 'web/article'],
+      source: { url: 'https://example.com/a:b', site: 'Example "Site"' },
+      rating: 4,
+      draft: false,
+    })
+    expect(parseFrontmatter(note)).toEqual({
+      aliases: ['Rust: the good parts', '#hash'],
+      tags: ['clip', 'web/article'],
+      source: { url: 'https://example.com/a:b', site: 'Example "Site"' },
+      rating: 4,
+      draft: false,
+    })
+  })
+
+  it('drops empty values and formats dates', () => {
+    const note = serializeFrontmatter({
+      title: 'T',
+      author: undefined,
+      site: '',
+      tags: [],
+      extra: { empty: null },
+      created: new Date(2026, 0, 2, 23, 30),
+    })
+    expect(parseFrontmatter(note)).toEqual({ title: 'T', created: '2026-01-02' })
+  })
+
+  it('returns an empty string when nothing is left', () => {
+    expect(serializeFrontmatter({ a: undefined, b: '' })).toBe('')
+  })
+})
+
+describe('parseFrontmatter', () => {
+  it('returns null without frontmatter or with invalid YAML', () => {
+    expect(parseFrontmatter('# Just a heading')).toBeNull()
+    expect(parseFrontmatter('---\ntitle: "unterminated\n---\n')).toBeNull()
+  })
+})
+
+describe('toYamlInline', () => {
+  it.each(ADVERSARIAL)('produces a single-line scalar for %j', (value) => {
+    const inline = toYamlInline(value)
+    expect(inline).not.toContain('\n')
+    expect(parse(`title: ${inline}`)).toEqual({ title: value })
+  })
+
+  it('writes arrays as flow sequences', () => {
+    expect(parse(`tags: ${toYamlInline(['a: b', '#c'])}`)).toEqual({ tags: ['a: b', '#c'] })
+  })
+})
+
+describe('normalizeTags', () => {
+  it('strips hashes, replaces spaces and removes duplicates', () => {
+    expect(normalizeTags(['#web', 'machine learning', 'web', 'a:b', '2024', undefined, 'c/d'])).toEqual(['web', 'machine-learning', 'ab', 'c/d'])
+  })
+})
+
+describe('NoteRenderer frontmatter', () => {
+  it.each(ADVERSARIAL)('keeps clip note frontmatter parseable for %j', (value) => {
+    const note = NoteRenderer.render(getDefaultClipNoteTemplate(), {
+      title: value,
+      url: 'https://example.com/post?a=1#top',
+      author: value,
+      site: value,
+      tags: ['news', value],
+      date: new Date(2026, 4, 6),
+      content: 'Body',
+      type: 'clip',
+    })
+    const frontmatter = parseFrontmatter(note)
+    expect(frontmatter).not.toBeNull()
+    expect(frontmatter!.author).toBe(value)
+    expect(frontmatter!.site).toBe(value)
+    expect(frontmatter!.aliases).toEqual([value])
+    expect(frontmatter!.clipped).toBe('2026-05-06')
+  })
+
+  it.each(ADVERSARIAL)('keeps AI note frontmatter parseable for %j', (value) => {
+    const note = NoteRenderer.render(getDefaultAINoteTemplate(), {
+      title: value,
+      url: 'https://example.com/post',
+      date: new Date(2026, 4, 6),
+      ai: 'Summary',
+      provider: 'Google Gemini',
+      type: 'ai-summary',
+    })
+    expect(parseFrontmatter(note)).toEqual({
+      title: value,
+      source: 'https://example.com/post',
+      created: '2026-05-06',
+      type: 'ai-summary',
+      provider: 'Google Gemini',
+      tags: ['ai-summary', 'easy-gate'],
+    })
+  })
+
+  it('escapes values in hand-written frontmatter with the yaml filter', () => {
+    const note = NoteRenderer.render('---\ntitle: {{title|yaml}}\ntags: {{tags|yaml}}\n---\n', {
+      title: 'A: "B" #c',
+      tags: ['x: y'],
+    })
+    expect(parseFrontmatter(note)).toEqual({ title: 'A: "B" #c', tags: ['x: y'] })
+  })
+})
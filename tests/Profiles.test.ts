@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { createProfile, findProfile, syncProfilesWithGates } from '../src/profiles/Profiles'
+import { DEFAULT_PROFILE_KEY, GateProfile } from '../src/profiles/types'
+import { GateFrameOption } from '../src/GateOptions'
+
+const gate = (id: string, profileKey?: string): GateFrameOption => ({ id, title: id, icon: 'globe', url: `https://${id}.test/`, profileKey })
+
+describe('syncProfilesWithGates', () => {
+  it('starts from the default profile', () => {
+    expect(syncProfilesWithGates([], [])).toEqual([{ key: DEFAULT_PROFILE_KEY, name: 'Default', color: 'gray' }])
+  })
+
+  it('turns profile keys typed into gates into profiles once', () => {
+    const profiles = syncProfilesWithGates([], [gate('a', 'work'), gate('b', 'work'), gate('c', DEFAULT_PROFILE_KEY), gate('d')])
+
+    expect(profiles.map((profile) => profile.key)).toEqual([DEFAULT_PROFILE_KEY, 'work'])
+    expect(profiles[1]).toMatchObject({ key: 'work', name: 'work' })
+  })
+
+  it('keeps existing profiles and restores a missing default', () => {
+    const work: GateProfile = { key: 'work', name: 'Work', color: 'blue' }
+    const profiles = syncProfilesWithGates([work], [gate('a', 'work')])
+
+    expect(profiles.map((profile) => profile.key)).toEqual([DEFAULT_PROFILE_KEY, 'work'])
+    expect(profiles[1]).toBe(work)
+  })
+})
+
+describe('findProfile', () => {
+  it('falls back to the default profile for gates without a key', () => {
+    const profiles = syncProfilesWithGates([], [])
+    expect(findProfile(profiles, undefined)?.key).toBe(DEFAULT_PROFILE_KEY)
+    expect(findProfile(profiles, '')?.key).toBe(DEFAULT_PROFILE_KEY)
+    expect(findProfile(profiles, 'missing')).toBeUndefined()
+  })
+})
+
+describe('createProfile', () => {
+  it('creates a key no other profile uses', () => {
+    const profiles = syncProfilesWithGates([], [])
+    const profile = createProfile('Work', 'green', profiles)
+
+    expect(profile).toMatchObject({ name: 'Work', color: 'green' })
+    expect(profile.key).toMatch(/^profile-[a-z0-9]+$/)
+    expect(profiles.some((existing) => existing.key === profile.key)).toBe(false)
+  })
+})
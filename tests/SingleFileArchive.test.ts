@@ -0,0 +1,106 @@
+import { JSDOM } from 'jsdom'
+import { describe, it, expect } from 'vitest'
+import { ArchiveFetcher, PageSnapshot, SNAPSHOT_SCRIPT, buildSingleFileHtml, inlineCss } from '../src/clipping/SingleFileArchive'
+
+const snapshot = (html: string, url = 'https://example.com/articles/page.html'): PageSnapshot => {
+  const dom = new JSDOM(html, { url, runScripts: 'outside-only' })
+  try {
+    return JSON.parse(JSON.stringify(dom.window.eval(SNAPSHOT_SCRIPT)))
+  } finally {
+    dom.window.close()
+  }
+}
+
+// Serves fixed resources and records which URLs were requested
+const createFetcher = (texts: Record<string, string>, assets: Record<string, string>) => {
+  const requested: string[] = []
+  const fetcher: ArchiveFetcher = {
+    text: async (url) => {
+      requested.push(url)
+      return texts[url] ?? null
+    },
+    dataUrl: async (url) => {
+      requested.push(url)
+      return assets[url] ?? null
+    },
+  }
+  return { fetcher, requested }
+}
+
+describe('SNAPSHOT_SCRIPT', () => {
+  it('strips scripts and handlers and tokenizes resources with absolute URLs', () => {
+    const result = snapshot(`<html><head>
+      <link rel="stylesheet" href="../css/site.css" media="screen">
+      <script>alert(1)</script>
+    </head><body onload="track()">
+      <a href="javascript:void(0)">bad</a>
+      <img src="/img/photo.jpg" srcset="/img/photo-2x.jpg 2x" loading="lazy">
+      <div style="background: url(bg.png)">hero</div>
+    </body></html>`)
+
+    expect(result.html).not.toContain('<script')
+    expect(result.html).not.toContain('onload')
+    expect(result.html).not.toContain('javascript:')
+    expect(result.html).not.toContain('srcset')
+    expect(result.html).toContain('<base href="https://example.com/articles/page.html">')
+    expect(result.html).toContain("script-src 'none'")
+    expect(result.html).toContain('<style media="screen">easy-gate-archive:0</style>')
+
+    expect(result.parts).toEqual([
+      { type: 'stylesheet', url: 'https://example.com/css/site.css' },
+      { type: 'asset', url: 'https://example.com/img/photo.jpg' },
+      { type: 'css', css: 'background: url(bg.png)', baseUrl: 'https://example.com/articles/page.html', context: 'attribute' },
+    ])
+  })
+})
+
+describe('buildSingleFileHtml', () => {
+  it('inlines stylesheets, imports and images relative to where they were loaded from', async () => {
+    const page = snapshot(`<html><head><link rel="stylesheet" href="/css/site.css"></head>
+      <body><img src="logo.png"><img src="missing.png"><p style='background: url("bg.png")'>x</p></body></html>`)
+    const { fetcher, requested } = createFetcher(
+      {
+        'https://example.com/css/site.css': '@import "fonts.css" print;\nbody { background: url(../img/paper.png) }',
+        'https://example.com/css/fonts.css': '@font-face { src: url(font.woff2) }',
+      },
+      {
+        'https://example.com/img/paper.png': 'data:image/png;base64,UEFQRVI=',
+        'https://example.com/css/font.woff2': 'data:font/woff2;base64,Rk9OVA==',
+        'https://example.com/articles/logo.png': 'data:image/png;base64,TE9HTw==',
+        'https://example.com/articles/bg.png': 'data:image/png;base64,Qkc=',
+      }
+    )
+
+    const html = await buildSingleFileHtml(page, fetcher, new Date('2024-05-01T00:00:00Z'))
+
+    expect(html.startsWith('<!DOCTYPE html>\n<!-- Archived by Easy Gate from https://example.com/articles/page.html on 2024-05-01T00:00:00.000Z -->')).toBe(true)
+    expect(html).toContain('@media print {\n@font-face { src: url("data:font/woff2;base64,Rk9OVA==") }\n}')
+    expect(html).toContain('body { background: url("data:image/png;base64,UEFQRVI=") }')
+    expect(html).toContain('<img src="data:image/png;base64,TE9HTw==">')
+    // Resources that cannot be fetched keep their original address
+    expect(html).toContain('<img src="https://example.com/articles/missing.png">')
+    expect(html).toContain('style="background: url(&quot;data:image/png;base64,Qkc=&quot;)"')
+    expect(html).not.toContain('easy-gate-archive:')
+    expect(requested.filter((url) => url === 'https://example.com/css/site.css')).toHaveLength(1)
+  })
+
+  it('keeps stylesheet text from closing its style element', async () => {
+    const page = snapshot('<html><head><link rel="stylesheet" href="/evil.css"></head><body></body></html>')
+    const { fetcher } = createFetcher({ 'https://example.com/evil.css': 'a::after { content: "</style><script>x()</script>" }' }, {})
+
+    const html = await buildSingleFileHtml(page, fetcher)
+
+    expect(html).toContain('content: "<\\/style><script>x()</script>"')
+    expect(html.match(/<\/style>/g)).toHaveLength(1)
+  })
+})
+
+describe('inlineCss', () => {
+  it('leaves data URLs and fragment references alone', async () => {
+    const { fetcher, requested } = createFetcher({}, {})
+    const css = 'a { background: url(data:image/gif;base64,R0) } b { filter: url(#blur) }'
+
+    expect(await inlineCss(css, 'https://example.com/', fetcher)).toBe(css)
+    expect(requested).toEqual([])
+  })
+})
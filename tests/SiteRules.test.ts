@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { exportSiteRules, findSiteRule, matchHostPattern, mergeSiteRules, parseSiteRules } from '../src/clipping/SiteRules'
+import { SiteRule } from '../src/ai/types'
+
+const rule = (id: string, hostPattern: string, extra: Partial<SiteRule> = {}): SiteRule => ({
+  id,
+  hostPattern,
+  enabled: true,
+  contentSelectors: [],
+  removeSelectors: [],
+  ...extra,
+})
+
+describe('matchHostPattern', () => {
+  it('matches exact hosts, ignoring case and a leading www', () => {
+    expect(matchHostPattern('example.com', 'example.com')).toBe(true)
+    expect(matchHostPattern('Example.COM', 'www.example.com')).toBe(true)
+    expect(matchHostPattern('www.example.com', 'example.com')).toBe(true)
+    expect(matchHostPattern('example.com', 'example.org')).toBe(false)
+    expect(matchHostPattern('example.com', 'notexample.com')).toBe(false)
+  })
+
+  it('matches subdomains and the bare domain for *.domain', () => {
+    expect(matchHostPattern('*.example.com', 'blog.example.com')).toBe(true)
+    expect(matchHostPattern('*.example.com', 'a.b.example.com')).toBe(true)
+    expect(matchHostPattern('*.example.com', 'example.com')).toBe(true)
+    expect(matchHostPattern('*.example.com', 'badexample.com')).toBe(false)
+  })
+
+  it('treats * as any text and other characters literally', () => {
+    expect(matchHostPattern('docs.*', 'docs.python.org')).toBe(true)
+    expect(matchHostPattern('*', 'anything.test')).toBe(true)
+    expect(matchHostPattern('example.com', 'exampleXcom')).toBe(false)
+    expect(matchHostPattern('  ', 'example.com')).toBe(false)
+  })
+})
+
+describe('findSiteRule', () => {
+  it('returns the first enabled rule for the URL host', () => {
+    const rules = [rule('off', 'example.com', { enabled: false }), rule('sub', '*.example.com'), rule('exact', 'example.com')]
+
+    expect(findSiteRule(rules, 'https://www.example.com/post')?.id).toBe('sub')
+    expect(findSiteRule(rules, 'https://other.test/')).toBeNull()
+    expect(findSiteRule(rules, 'not a url')).toBeNull()
+  })
+})
+
+describe('parseSiteRules', () => {
+  it('reads exported files and plain rule arrays', () => {
+    const rules = [rule('a', 'example.com', { contentSelectors: ['article'], titleSelector: 'h1' })]
+
+    expect(parseSiteRules(exportSiteRules(rules))).toEqual(rules)
+    expect(parseSiteRules(JSON.stringify(rules))).toEqual(rules)
+  })
+
+  it('cleans up fields and fills in missing ones', () => {
+    const [parsed] = parseSiteRules(
+      JSON.stringify([{ hostPattern: ' example.com ', enabled: 'no', contentSelectors: ' main ', removeSelectors: ['nav', 3, ' '], dateSelector: '  ' }])
+    )
+
+    expect(parsed.id).toMatch(/^site-rule-/)
+    expect(parsed).toMatchObject({ hostPattern: 'example.com', enabled: true, contentSelectors: ['main'], removeSelectors: ['nav'], dateSelector: undefined })
+  })
+
+  it('rejects malformed JSON and rules', () => {
+    expect(() => parseSiteRules('{ rules: [')).toThrow('Not valid JSON.')
+    expect(() => parseSiteRules('{"version":1}')).toThrow('No rule list (rules) found.')
+    expect(() => parseSiteRules('null')).toThrow('No rule list (rules) found.')
+    expect(() => parseSiteRules('[{"hostPattern":"a.test"},"b.test"]')).toThrow('Rule #2 is not an object.')
+    expect(() => parseSiteRules('{"rules":[{"hostPattern":"  "}]}')).toThrow('Rule #1 has no hostPattern.')
+  })
+})
+
+describe('mergeSiteRules', () => {
+  it('replaces rules with the same host pattern and keeps their id', () => {
+    const existing = [rule('a', 'example.com'), rule('b', 'docs.test')]
+    const imported = [rule('x', 'Example.com ', { contentSelectors: ['article'] }), rule('c', 'new.test')]
+
+    expect(mergeSiteRules(existing, imported)).toEqual([rule('a', 'Example.com ', { contentSelectors: ['article'] }), rule('b', 'docs.test'), rule('c', 'new.test')])
+    expect(existing).toEqual([rule('a', 'example.com'), rule('b', 'docs.test')])
+  })
+
+  it('gives a new id to an added rule whose id is taken', () => {
+    const merged = mergeSiteRules([rule('a', 'example.com')], [rule('a', 'other.test')])
+
+    expect(merged).toHaveLength(2)
+    expect(merged[1].hostPattern).toBe('other.test')
+    expect(merged[1].id).not.toBe('a')
+  })
+
+  it('keeps the last of duplicate host patterns in the import', () => {
+    const merged = mergeSiteRules([], [rule('a', 'example.com', { titleSelector: 'h1' }), rule('b', 'example.com', { titleSelector: 'h2' })])
+
+    expect(merged).toEqual([rule('a', 'example.com', { titleSelector: 'h2' })])
+  })
+})
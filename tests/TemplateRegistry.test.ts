@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { BUILT_IN_TEMPLATES, hasContentVariable, parseTemplateMarkdown, renderTemplatePrompt } from '../src/ai/TemplateRegistry'
+
+describe('renderTemplatePrompt', () => {
+  it('replaces variables and keeps unknown ones', () => {
+    const prompt = 'Summarize "{{ title }}" ({{url}}) in {{language}}:\n{{content}}\n{{unknown}}'
+    expect(renderTemplatePrompt(prompt, { content: 'Body', title: 'Page', url: 'https://a.test', language: 'English' })).toBe(
+      'Summarize "Page" (https://a.test) in English:\nBody\n{{unknown}}'
+    )
+  })
+
+  it('supports the legacy {content} variable', () => {
+    expect(renderTemplatePrompt('Text: {content}', { content: 'Body' })).toBe('Text: Body')
+  })
+
+  it('does not substitute variables found inside the page content', () => {
+    const content = 'Templates use {content} and {{title}} placeholders. $& stays too.'
+    expect(renderTemplatePrompt('{{content}}', { content, title: 'Page' })).toBe(content)
+    expect(renderTemplatePrompt('{content}', { content, title: 'Page' })).toBe(content)
+  })
+
+  it('leaves variables without a value in place', () => {
+    expect(renderTemplatePrompt('{{title}}: {{content}}', { content: 'Body' })).toBe('{{title}}: Body')
+  })
+
+  it('asks for the selected language in every built-in template', () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      const rendered = renderTemplatePrompt(template.userPrompt, { content: 'Body', language: 'English' })
+      expect(rendered).toContain('English')
+      expect(rendered).not.toContain('한국어')
+    }
+  })
+})
+
+describe('hasContentVariable', () => {
+  it('detects both variable syntaxes', () => {
+    expect(hasContentVariable('{{ content }}')).toBe(true)
+    expect(hasContentVariable('{content}')).toBe(true)
+    expect(hasContentVariable('{{title}}')).toBe(false)
+  })
+})
+
+describe('parseTemplateMarkdown', () => {
+  it('reads frontmatter and prompt sections', () => {
+    const template = parseTemplateMarkdown(
+      [
+        '---',
+        'id: brief',
+        'name: Brief',
+        'output: bullets',
+        'provider: openai',
+        'temperature: 3',
+        '---',
+        '## System',
+        'You are concise.',
+        '',
+        '## User',
+        'Summarize {{content}}',
+      ].join('\r\n'),
+      'Brief file'
+    )
+
+    expect(template).toMatchObject({
+      id: 'brief',
+      name: 'Brief',
+      outputFormat: 'bullets',
+      provider: 'openai',
+      temperature: 2,
+      systemPrompt: 'You are concise.',
+      userPrompt: 'Summarize {{content}}',
+    })
+  })
+
+  it('uses the file name and appends {{content}} when missing', () => {
+    const template = parseTemplateMarkdown('Explain this page simply.', 'My Template!')
+
+    expect(template).toMatchObject({
+      id: 'vault-my-template',
+      name: 'My Template!',
+      systemPrompt: '',
+      userPrompt: 'Explain this page simply.\n\n{{content}}',
+      outputFormat: 'markdown',
+    })
+  })
+
+  it('ignores unknown output formats and providers', () => {
+    const template = parseTemplateMarkdown('---\noutput: poem\nprovider: nope\n---\n{{content}}', 'T')
+
+    expect(template.outputFormat).toBe('markdown')
+    expect(template.provider).toBeUndefined()
+    expect(parseTemplateMarkdown('---\nprovider: toString\n---\n{{content}}', 'T').provider).toBeUndefined()
+    expect(parseTemplateMarkdown('---\nprovider: constructor\n---\n{{content}}', 'T').provider).toBeUndefined()
+  })
+
+  it('rejects invalid frontmatter and empty prompts', () => {
+    expect(() => parseTemplateMarkdown('---\nname: [broken\n---\nBody', 'Broken')).toThrow('Broken: invalid frontmatter.')
+    expect(() => parseTemplateMarkdown('---\nname: Empty\n---\n\n', 'Empty')).toThrow('Empty: the prompt is empty.')
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { estimateTokens, getContentBudget, getContextWindow, splitIntoChunks } from '../src/ai/TokenChunker'
+import { AI_PROVIDERS } from '../src/ai/types'
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, more for Korean', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens('가나다라마바사아')).toBe(3)
+  })
+})
+
+describe('getContextWindow', () => {
+  it('uses the first matching model pattern, else the provider default', () => {
+    expect(getContextWindow('openai', 'gpt-4o-mini')).toBe(128_000)
+    expect(getContextWindow('openai', 'GPT-4.1')).toBe(1_000_000)
+    expect(getContextWindow('grok', 'grok-4-1-fast-reasoning')).toBe(2_000_000)
+    expect(getContextWindow('grok', 'grok-3')).toBe(131_072)
+    expect(getContextWindow('openai', 'unknown-model')).toBe(AI_PROVIDERS.openai.contextWindow)
+    expect(getContextWindow('openai')).toBe(AI_PROVIDERS.openai.contextWindow)
+  })
+
+  it('ignores the model name for local servers', () => {
+    expect(getContextWindow('local', 'gpt-4.1')).toBe(AI_PROVIDERS.local.contextWindow)
+  })
+})
+
+describe('getContentBudget', () => {
+  it('keeps a safety margin after the reserved tokens', () => {
+    expect(getContentBudget('openai', 'gpt-3.5-turbo', 2_000)).toBe(11_200)
+  })
+
+  it('caps very large windows and never goes below the minimum', () => {
+    expect(getContentBudget('gemini', 'gemini-2.0-flash', 0)).toBe(100_000)
+    expect(getContentBudget('local', undefined, 1_000_000)).toBe(512)
+  })
+})
+
+describe('splitIntoChunks', () => {
+  const paragraph = (label: string, sentences: number) => Array.from({ length: sentences }, (_, i) => `${label} sentence number ${i + 1} is here.`).join(' ')
+  const expectWithinBudget = (chunks: string[], maxTokens: number) => {
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk)).toBeLessThanOrEqual(maxTokens)
+    }
+  }
+
+  it('returns nothing for blank text and one trimmed chunk when it fits', () => {
+    expect(splitIntoChunks('  \n ', 100)).toEqual([])
+    expect(splitIntoChunks('  short text \n', 100)).toEqual(['short text'])
+  })
+
+  it('splits at headings first and keeps each heading with its section', () => {
+    const sections = ['# One', '## Two', '### Three'].map((heading) => `${heading}\n${paragraph(heading.replace(/#+ /, ''), 3)}`)
+    const chunks = splitIntoChunks(sections.join('\n'), 40)
+
+    expect(chunks).toEqual(sections)
+  })
+
+  it('packs small paragraphs together up to the budget, in order', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, i) => `Paragraph ${i + 1} text.`)
+    const chunks = splitIntoChunks(paragraphs.join('\n\n'), 20)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.length).toBeLessThan(paragraphs.length)
+    expect(chunks.join('\n\n')).toBe(paragraphs.join('\n\n'))
+    expectWithinBudget(chunks, 20)
+  })
+
+  it('falls back to sentence boundaries and keeps the punctuation', () => {
+    const text = 'First sentence is quite long indeed. Second one asks why? Third one shouts loudly! 네 번째 문장입니다。 Fifth ends here.'
+    const chunks = splitIntoChunks(text, 12)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.every((chunk) => /[.!?。]$/.test(chunk))).toBe(true)
+    // Sentences packed into one chunk are joined with a blank line
+    expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(text)
+    expectWithinBudget(chunks, 12)
+  })
+
+  it('cuts text without boundaries by length, preferring spaces', () => {
+    const words = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ')
+    const chunks = splitIntoChunks(words, 25)
+
+    expect(chunks.join(' ')).toBe(words)
+    expect(chunks.every((chunk) => /^word\d+( word\d+)*$/.test(chunk))).toBe(true)
+    expectWithinBudget(chunks, 25)
+
+    const noSpaces = 'x'.repeat(1000)
+    const hardChunks = splitIntoChunks(noSpaces, 50)
+    expect(hardChunks.join('')).toBe(noSpaces)
+    expectWithinBudget(hardChunks, 50)
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { findRoute, findUrlAtOffset, matchRoutingRule } from '../src/routing/UrlRouter'
+import { RoutingRule } from '../src/routing/types'
+import { GateFrameOption } from '../src/GateOptions'
+
+const rule = (pattern: string, overrides: Partial<RoutingRule> = {}): RoutingRule => ({
+  id: pattern,
+  pattern,
+  matchType: 'glob',
+  gateId: 'github',
+  enabled: true,
+  ...overrides,
+})
+
+const gates: Record<string, GateFrameOption> = {
+  github: { id: 'github', title: 'GitHub', icon: 'github', url: 'https://github.com', position: 'right' },
+  docs: { id: 'docs', title: 'Docs', icon: 'book', url: 'https://docs.test', position: 'center' },
+}
+
+describe('matchRoutingRule', () => {
+  it('matches host-only globs on any path, including the bare domain for *.', () => {
+    expect(matchRoutingRule(rule('*.github.com'), 'https://gist.github.com/abc')).toBe(true)
+    expect(matchRoutingRule(rule('*.github.com'), 'https://github.com/')).toBe(true)
+    expect(matchRoutingRule(rule('*.github.com'), 'https://notgithub.com/')).toBe(false)
+    expect(matchRoutingRule(rule('github.com'), 'https://www.github.com/org/repo?tab=issues')).toBe(true)
+  })
+
+  it('keeps * within one path segment and lets ** cross segments', () => {
+    expect(matchRoutingRule(rule('github.com/*/issues'), 'https://github.com/org/issues')).toBe(true)
+    expect(matchRoutingRule(rule('github.com/*/issues'), 'https://github.com/org/repo/issues')).toBe(false)
+    expect(matchRoutingRule(rule('github.com/org/**'), 'https://github.com/org/repo/pull/1')).toBe(true)
+    expect(matchRoutingRule(rule('github.com/org/**'), 'https://github.com/org')).toBe(true)
+    expect(matchRoutingRule(rule('github.com/org/**'), 'https://github.com/organisation')).toBe(false)
+  })
+
+  it('ignores case, trailing slashes and non-web links', () => {
+    expect(matchRoutingRule(rule('Example.com/Docs/'), 'https://example.com/docs')).toBe(true)
+    expect(matchRoutingRule(rule('example.com'), 'ftp://example.com/file')).toBe(false)
+    expect(matchRoutingRule(rule(''), 'https://example.com/')).toBe(false)
+  })
+
+  it('tests regular expressions against the full URL and skips invalid ones', () => {
+    expect(matchRoutingRule(rule('^https://[^/]+\\.atlassian\\.net/browse/', { matchType: 'regex' }), 'https://team.atlassian.net/browse/ABC-1')).toBe(true)
+    expect(matchRoutingRule(rule('utm_source=', { matchType: 'regex' }), 'https://news.test/a?utm_source=x')).toBe(true)
+    expect(matchRoutingRule(rule('(unclosed', { matchType: 'regex' }), 'https://news.test/(unclosed')).toBe(false)
+  })
+})
+
+describe('findRoute', () => {
+  it('uses the first enabled rule whose gate still exists', () => {
+    const rules = [
+      rule('docs.test', { enabled: false, gateId: 'docs' }),
+      rule('**', { gateId: 'deleted' }),
+      rule('docs.test/**', { gateId: 'docs', position: 'left' }),
+      rule('docs.test', { gateId: 'github' }),
+    ]
+
+    expect(findRoute(rules, gates, 'https://docs.test/guide')).toMatchObject({ gate: { id: 'docs' }, position: 'left' })
+  })
+
+  it("falls back to the gate's own position", () => {
+    expect(findRoute([rule('github.com')], gates, 'https://github.com/')?.position).toBe('right')
+    expect(findRoute([rule('github.com')], gates, 'https://gitlab.com/')).toBeNull()
+  })
+})
+
+describe('findUrlAtOffset', () => {
+  const line = 'See [the docs](https://docs.test/guide "Guide") or <https://a.test/x>, and https://b.test/y.'
+
+  it('finds markdown links, angle links and bare URLs under the cursor', () => {
+    expect(findUrlAtOffset(line, line.indexOf('the docs'))).toBe('https://docs.test/guide')
+    expect(findUrlAtOffset(line, line.indexOf('a.test'))).toBe('https://a.test/x')
+    expect(findUrlAtOffset(line, line.indexOf('b.test'))).toBe('https://b.test/y')
+    expect(findUrlAtOffset(line, 1)).toBeNull()
+  })
+})
@@ -0,0 +1,37 @@
+import { afterEach, describe, it, expect } from 'vitest'
+import { getLocale, resolveLocaleChain, setLocale, t } from '../src/i18n'
+import { en } from '../src/i18n/locales/en'
+import { ko } from '../src/i18n/locales/ko'
+
+describe('i18n', () => {
+  afterEach(() => {
+    setLocale('en')
+  })
+
+  it('has a Korean message for every English key', () => {
+    expect(Object.keys(ko).sort()).toEqual(Object.keys(en).sort())
+  })
+
+  it('resolves region and unknown languages through the fallback chain', () => {
+    expect(resolveLocaleChain('ko-KR')).toEqual(['ko', 'en'])
+    expect(resolveLocaleChain('ko_kr')).toEqual(['ko', 'en'])
+    expect(resolveLocaleChain('de')).toEqual(['en'])
+    expect(resolveLocaleChain('EN')).toEqual(['en'])
+  })
+
+  it('follows the selected locale', () => {
+    setLocale('ko')
+    expect(getLocale()).toBe('ko')
+    expect(t('common.save')).toBe('저장')
+
+    setLocale('de')
+    expect(getLocale()).toBe('en')
+    expect(t('common.save')).toBe('Save')
+  })
+
+  it('interpolates only the variables that are passed', () => {
+    expect(t('clip.done', { path: 'Clippings/a.md' })).toBe('Clipped: Clippings/a.md')
+    expect(t('settings.providerStatus', { status: 'Connected' })).toBe('Status: Connected | Model: {model}')
+    expect(t('settings.templatesDesc')).toContain('{{content}}')
+  })
+})
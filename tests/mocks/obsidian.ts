@@ -0,0 +1,54 @@
+// Minimal runtime stand-in for the parts of the Obsidian API used by tested modules
+
+export interface RequestUrlParam {
+  url: string
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+  throw?: boolean
+}
+
+export interface RequestUrlResponse {
+  status: number
+  headers: Record<string, string>
+  text: string
+  json: any
+}
+
+export async function requestUrl(request: RequestUrlParam): Promise<RequestUrlResponse> {
+  const response = await fetch(request.url, {
+    method: request.method || 'GET',
+    headers: request.headers,
+    body: request.body,
+  })
+  const text = await response.text()
+  const headers: Record<string, string> = {}
+  response.headers.forEach((value, key) => {
+    headers[key] = value
+  })
+
+  if (response.status >= 400 && request.throw !== false) {
+    throw new Error(`Request failed, status ${response.status}`)
+  }
+
+  let json: any = null
+  try {
+    json = JSON.parse(text)
+  } catch {
+    // non-JSON body
+  }
+
+  return { status: response.status, headers, text, json }
+}
+
+export class Notice {
+  constructor(public message: string) {}
+}
+
+export { default as moment } from 'moment'
+
+export function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '')
+}
+
+export class TFile {}
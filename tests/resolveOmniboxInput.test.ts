@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { resolveOmniboxInput } from '../src/omnibox/resolveOmniboxInput'
+import { DEFAULT_OMNIBOX_SETTINGS } from '../src/omnibox/types'
+
+const resolve = (input: string) => resolveOmniboxInput(input, DEFAULT_OMNIBOX_SETTINGS)
+
+describe('resolveOmniboxInput', () => {
+  it.each([
+    ['https://example.com/a b', 'https://example.com/a b'],
+    ['example.com', 'https://example.com'],
+    ['sub.example.co.kr/path?q=1', 'https://sub.example.co.kr/path?q=1'],
+    ['localhost:3000/app', 'http://localhost:3000/app'],
+    ['192.168.0.1', 'http://192.168.0.1'],
+    ['about:blank', 'about:blank'],
+  ])('treats %j as a URL', (input, url) => {
+    expect(resolve(input)).toEqual({ type: 'url', url })
+  })
+
+  it('searches with the default engine when the input is not a URL', () => {
+    expect(resolve('obsidian plugins')).toMatchObject({ type: 'search', query: 'obsidian plugins', url: 'https://www.google.com/search?q=obsidian%20plugins' })
+    expect(resolve('typescript')).toMatchObject({ type: 'search', query: 'typescript' })
+  })
+
+  it('uses the engine whose keyword starts the input', () => {
+    expect(resolve('w obsidian md')).toMatchObject({ type: 'search', query: 'obsidian md', engine: { id: 'wikipedia' } })
+    expect(resolve('g')).toMatchObject({ type: 'search', query: 'g', engine: { id: 'google' } })
+  })
+
+  it('returns null for blank input', () => {
+    expect(resolve('   ')).toBeNull()
+  })
+})
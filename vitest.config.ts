@@ -1,6 +1,13 @@
 import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      // The obsidian package ships type declarations only
+      obsidian: fileURLToPath(new URL('./tests/mocks/obsidian.ts', import.meta.url)),
+    },
+  },
   test: {
     environment: 'node',
     globals: true,